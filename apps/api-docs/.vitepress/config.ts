@@ -36,6 +36,11 @@ export default defineConfig({
             { text: 'Overview', link: '/reference/' },
             { text: 'Dyes', link: '/reference/dyes' },
             { text: 'Color Matching', link: '/reference/matching' },
+            { text: 'Color Harmony', link: '/reference/harmony' },
+            { text: 'Gradients & Mixing', link: '/reference/mixing' },
+            { text: 'Palette Extraction', link: '/reference/extract' },
+            { text: 'Accessibility', link: '/reference/accessibility' },
+            { text: 'Character Colors', link: '/reference/character' },
           ],
         },
       ],
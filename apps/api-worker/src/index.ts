@@ -8,16 +8,25 @@
 
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
+import { bodyLimit } from 'hono/body-limit';
 import type { Env, Variables } from './types.js';
 
 // Middleware
 import { requestIdMiddleware, getRequestId, loggerMiddleware, getLogger } from '@xivdyetools/worker-middleware';
-import { rateLimitMiddleware } from './middleware/rate-limit.js';
+import { rateLimitMiddleware, matchBatchCostMiddleware } from './middleware/rate-limit.js';
 import { localeMiddleware } from './middleware/locale.js';
+import { conditionalRequestMiddleware } from './middleware/conditional.js';
 
 // Routes
 import { dyesRouter } from './routes/dyes.js';
-import { matchRouter } from './routes/match.js';
+import { matchRouter, MAX_BATCH_BODY_BYTES } from './routes/match.js';
+import { harmonyRouter } from './routes/harmony.js';
+import { gradientRouter } from './routes/gradient.js';
+import { mixRouter } from './routes/mix.js';
+import { extractRouter } from './routes/extract.js';
+import { accessibilityRouter } from './routes/accessibility.js';
+import { characterRouter } from './routes/character.js';
+import { openapiRouter } from './routes/openapi.js';
 
 // Lib
 import { ApiError, ErrorCode } from './lib/api-error.js';
@@ -51,13 +60,13 @@ app.use('*', async (c, next) => {
   }
 });
 
-// 4. CORS — permissive for public read-only API
+// 4. CORS — permissive for the public API (POST only for image uploads)
 app.use(
   '*',
   cors({
     origin: '*',
-    allowMethods: ['GET', 'OPTIONS'],
-    allowHeaders: ['Content-Type', 'Accept', 'X-API-Key'],
+    allowMethods: ['GET', 'POST', 'OPTIONS'],
+    allowHeaders: ['Content-Type', 'Accept', 'X-API-Key', 'If-None-Match'],
     exposeHeaders: [
       'X-RateLimit-Limit',
       'X-RateLimit-Remaining',
@@ -65,13 +74,29 @@ app.use(
       'X-Request-Id',
       'X-API-Version',
       'Retry-After',
+      'ETag',
     ],
     maxAge: 3600,
     credentials: false,
   }),
 );
 
-// 5. Rate limiting on API routes
+// 5. Rate limiting on API routes (batch matching is one request weighted by size).
+//    The batch body is capped before the cost middleware parses it.
+app.use(
+  '/v1/match/batch',
+  bodyLimit({
+    maxSize: MAX_BATCH_BODY_BYTES,
+    onError: () => {
+      throw new ApiError(
+        ErrorCode.PAYLOAD_TOO_LARGE,
+        `Request body exceeds maximum of ${MAX_BATCH_BODY_BYTES} bytes.`,
+        413,
+      );
+    },
+  }),
+);
+app.use('/v1/match/batch', matchBatchCostMiddleware);
 app.use('/v1/*', rateLimitMiddleware);
 
 // 6. Locale resolution on API routes (OPT-001 — 2026-04-28 audit)
@@ -79,7 +104,11 @@ app.use('/v1/*', rateLimitMiddleware);
 //    so handlers can call getDyeName() without per-call setLocale().
 app.use('/v1/*', localeMiddleware);
 
-// 7. API version header
+// 7. Conditional requests — ETag + If-None-Match → 304 on static dye data
+//    (headers set by the other middleware carry over to the 304)
+app.use('/v1/*', conditionalRequestMiddleware);
+
+// 8. API version header
 app.use('*', async (c, next) => {
   await next();
   c.header('X-API-Version', c.env.API_VERSION || 'v1');
@@ -108,6 +137,13 @@ app.get('/health', (c) => {
 
 app.route('/v1/dyes', dyesRouter);
 app.route('/v1/match', matchRouter);
+app.route('/v1/harmony', harmonyRouter);
+app.route('/v1/gradient', gradientRouter);
+app.route('/v1/mix', mixRouter);
+app.route('/v1/extract', extractRouter);
+app.route('/v1/accessibility', accessibilityRouter);
+app.route('/v1/character', characterRouter);
+app.route('/v1/openapi.json', openapiRouter);
 
 // ============================================
 // ERROR HANDLING
@@ -23,7 +23,11 @@ export const ErrorCode = {
   INVALID_MATCHING_METHOD: 'INVALID_MATCHING_METHOD',
   INVALID_LOCALE: 'INVALID_LOCALE',
   INVALID_STAIN_ID: 'INVALID_STAIN_ID',
+  INVALID_IMAGE: 'INVALID_IMAGE',
+  PAYLOAD_TOO_LARGE: 'PAYLOAD_TOO_LARGE',
   NOT_FOUND: 'NOT_FOUND',
   RATE_LIMITED: 'RATE_LIMITED',
   INTERNAL_ERROR: 'INTERNAL_ERROR',
+  UPSTREAM_ERROR: 'UPSTREAM_ERROR',
+  SERVICE_UNAVAILABLE: 'SERVICE_UNAVAILABLE',
 } as const;
@@ -0,0 +1,51 @@
+/**
+ * HTTP caching for static dye data.
+ *
+ * Dye data only changes when core's colors_xiv.json does (i.e. with a core
+ * release), and response shapes only change with an api-worker release. A GET
+ * response is therefore fully determined by those two versions, the path, the
+ * query and the resolved locale — so the ETag is derived from exactly that,
+ * without hashing the body. The per-request `meta.requestId` in the envelope
+ * is the one field deliberately left out.
+ */
+
+import { VERSION as CORE_VERSION } from '@xivdyetools/core';
+
+/** api-worker release (package.json version) — bump with every release */
+export const API_WORKER_VERSION = '0.5.0';
+
+/**
+ * Cache policy for static dye data. Edges may keep serving a stale copy for a
+ * day while they revalidate, which is cheap thanks to the ETag.
+ */
+export const STATIC_CACHE_CONTROL = 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=86400';
+
+/**
+ * Strong ETag for a static dye-data GET response. Query parameters are sorted
+ * so that equivalent URLs share a tag; `locale` is replaced by the resolved
+ * locale so `?locale=en` and no locale share one too.
+ */
+export async function computeEtag(pathname: string, searchParams: URLSearchParams, locale: string): Promise<string> {
+  const params = [...searchParams.entries()]
+    .filter(([key]) => key !== 'locale')
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .sort();
+
+  const seed = [CORE_VERSION, API_WORKER_VERSION, locale, pathname, params.join('&')].join('|');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(seed));
+  const hex = [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+
+  return `"${hex.slice(0, 32)}"`;
+}
+
+/**
+ * Whether an If-None-Match header matches the ETag. Uses weak comparison, as
+ * RFC 9110 requires for If-None-Match, so `W/`-prefixed tags from
+ * intermediaries that re-compressed the body still match.
+ */
+export function ifNoneMatch(header: string | undefined, etag: string): boolean {
+  if (!header) return false;
+  if (header.trim() === '*') return true;
+
+  return header.split(',').some((tag) => tag.trim().replace(/^W\//, '') === etag);
+}
@@ -6,11 +6,23 @@
  * for all requests handled by this isolate.
  */
 
-import { DyeService, dyeDatabase, ColorConverter, LocalizationService } from '@xivdyetools/core';
+import {
+  DyeService,
+  CharacterColorService,
+  dyeDatabase,
+  ColorConverter,
+  ColorService,
+  LocalizationService,
+} from '@xivdyetools/core';
 import type { MatchingMethod, OklchWeights } from '@xivdyetools/core';
+import type { Dye } from '@xivdyetools/types';
+import { blendColors, type BlendingMode } from '@xivdyetools/color-blending';
 
 export const dyeService = new DyeService(dyeDatabase);
 
+// Hair and skin palettes load lazily on first use, then stay cached per isolate
+export const characterColorService = new CharacterColorService();
+
 export { LocalizationService };
 
 /**
@@ -41,3 +53,116 @@ export function calculateDistance(
       return ColorConverter.getDeltaE_Oklab(hex1, hex2);
   }
 }
+
+/**
+ * Find the closest dye to a hex color and its distance under the same method.
+ * Uses the DyeService k-d tree (which already skips Facewear) and recalculates
+ * the distance, since core returns bare Dye objects.
+ */
+export function findClosestWithDistance(
+  hex: string,
+  method: MatchingMethod,
+  excludeIds: number[] = [],
+  weights?: OklchWeights,
+): { dye: Dye; distance: number } | null {
+  const dye = dyeService.findClosestDye(hex, {
+    excludeIds: excludeIds.length > 0 ? excludeIds : undefined,
+    matchingMethod: method,
+    weights,
+  });
+  if (!dye) return null;
+  return { dye, distance: calculateDistance(hex, dye.hex, method, weights) };
+}
+
+/**
+ * Find the k closest dyes to a hex color, closest first. Each pick is excluded
+ * from the next search, so the results are distinct.
+ */
+export function findClosestDyes(
+  hex: string,
+  method: MatchingMethod,
+  count: number,
+  excludeIds: number[] = [],
+  weights?: OklchWeights,
+): Array<{ dye: Dye; distance: number }> {
+  const excluded = [...excludeIds];
+  const results: Array<{ dye: Dye; distance: number }> = [];
+  for (let i = 0; i < count; i++) {
+    const match = findClosestWithDistance(hex, method, excluded, weights);
+    if (!match) break;
+    results.push(match);
+    excluded.push(match.dye.id);
+  }
+  return results;
+}
+
+/** OKLCH chroma below which hue is treated as undefined (near-neutral gray) */
+const ACHROMATIC_CHROMA = 0.002;
+
+/** Signed per-channel differences between two colors (second minus first). */
+export interface ColorDifferences {
+  lab: { L: number; a: number; b: number };
+  oklch: { L: number; C: number; h: number };
+}
+
+/**
+ * Per-channel LAB and OKLCH differences from `fromHex` to `toHex`. The hue
+ * difference takes the shorter arc, so it lies in [-180, 180]; it is 0 when
+ * either color is achromatic enough that its hue is meaningless.
+ */
+export function colorDifferences(fromHex: string, toHex: string): ColorDifferences {
+  const labA = ColorConverter.hexToLab(fromHex);
+  const labB = ColorConverter.hexToLab(toHex);
+  const lchA = ColorConverter.hexToOklch(fromHex);
+  const lchB = ColorConverter.hexToOklch(toHex);
+
+  let dh = ((lchB.h - lchA.h + 540) % 360) - 180;
+  if (lchA.C < ACHROMATIC_CHROMA || lchB.C < ACHROMATIC_CHROMA) dh = 0;
+
+  return {
+    lab: {
+      L: round(labB.L - labA.L, 100),
+      a: round(labB.a - labA.a, 100),
+      b: round(labB.b - labA.b, 100),
+    },
+    oklch: {
+      L: round(lchB.L - lchA.L, 10000),
+      C: round(lchB.C - lchA.C, 10000),
+      h: round(dh, 100),
+    },
+  };
+}
+
+function round(value: number, factor: number): number {
+  // Normalize -0 so identical colors serialize as 0
+  return Math.round(value * factor) / factor || 0;
+}
+
+/** Interpolation spaces accepted by the gradient endpoint. */
+export type InterpolationMode = BlendingMode | 'hsv' | 'lch' | 'oklch';
+
+/**
+ * Interpolate between two hex colors at `ratio` (0 = hex1, 1 = hex2).
+ *
+ * The six BlendingMode algorithms come from @xivdyetools/color-blending (the
+ * implementation behind the Discord /mixer command and the web-app mixer);
+ * the hue-based spaces the gradient tools also offer use the
+ * ColorService.mixColors* shorter-arc interpolation.
+ */
+export function interpolateColor(
+  hex1: string,
+  hex2: string,
+  ratio: number,
+  mode: InterpolationMode,
+): string {
+  switch (mode) {
+    case 'hsv':
+      return ColorService.mixColorsHsv(hex1, hex2, ratio).toUpperCase();
+    case 'lch':
+      return ColorService.mixColorsLch(hex1, hex2, ratio).toUpperCase();
+    case 'oklch':
+      return ColorService.mixColorsOklch(hex1, hex2, ratio).toUpperCase();
+    default:
+      return blendColors(hex1, hex2, mode, ratio).hex.toUpperCase();
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Market board price enrichment via the universalis-proxy worker.
+ *
+ * Uses the UNIVERSALIS_PROXY service binding (URL fallback for local dev),
+ * the same transport as the Discord /budget command. Prices are keyed by
+ * marketItemID, so Patch 7.5 consolidated dyes share one listing — a single
+ * aggregated request (plus a current-listings request for the listing counts,
+ * sent in parallel) covers a whole page of dyes.
+ */
+
+import { getMarketItemID } from '@xivdyetools/core';
+import type { Dye } from '@xivdyetools/types';
+import type { Env } from '../types.js';
+import { ApiError, ErrorCode } from './api-error.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Market data attached to a dye when `world` / `datacenter` is requested. */
+export interface MarketPrice {
+  /** World or datacenter the prices were read for */
+  scope: string;
+  /** Item ID the listings are under (consolidated ID after Patch 7.5) */
+  marketItemID: number;
+  /** Cheapest NQ listing */
+  minPrice: number;
+  /** Average NQ sale price (falls back to minPrice when no recent sales) */
+  averagePrice: number;
+  /** Listings currently on the market board (NQ and HQ) */
+  listingCount: number;
+  /** Most recent upload time (ms since epoch), if known */
+  lastUploadTime: number | null;
+}
+
+// Universalis v2 aggregated response (only the fields read here). Stats are
+// nested per scope — `world` for world queries, `dc` for datacenter queries.
+interface AggregatedScopes<T> {
+  world?: T;
+  dc?: T;
+  region?: T;
+}
+
+interface AggregatedItem {
+  itemId: number;
+  nq?: {
+    minListing?: AggregatedScopes<{ price: number }>;
+    averageSalePrice?: AggregatedScopes<{ price: number }>;
+  };
+  worldUploadTimes?: Array<{ worldId: number; timestamp: number }>;
+}
+
+interface AggregatedResponse {
+  results: AggregatedItem[];
+  failedItems?: number[];
+}
+
+// Universalis v2 current-data response via the proxy's listings route: the
+// item itself for a single ID, or the items keyed by ID for several.
+interface CurrentItem {
+  itemID: number;
+  /** Listings in this response; the proxy requests them unlimited, so all of them */
+  listingsCount?: number;
+}
+
+type CurrentResponse = CurrentItem | { items: Record<string, CurrentItem> };
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Universalis accepts at most 100 items per aggregated or current-data request */
+const MAX_BATCH_SIZE = 100;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export const SCOPE_PATTERN = /^[A-Za-z][A-Za-z'-]{1,19}$/;
+
+/** Price data is cached for 5 minutes by the proxy — match it, tolerating a minute of staleness while revalidating. */
+export const MARKET_CACHE_CONTROL = 'public, max-age=300, s-maxage=300, stale-while-revalidate=60';
+
+// ============================================================================
+// Parameter Parsing
+// ============================================================================
+
+/**
+ * Parse the optional market scope. `world` and `datacenter` are aliases —
+ * Universalis accepts either kind of name — but only one may be given.
+ * The proxy validates the name itself against the live world list.
+ */
+export function parseMarketScope(query: (name: string) => string | undefined): string | undefined {
+  const world = query('world')?.trim();
+  const datacenter = query('datacenter')?.trim();
+
+  if (world && datacenter) {
+    throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Provide either "world" or "datacenter", not both.', 400, {
+      parameter: 'world',
+      received: { world, datacenter },
+    });
+  }
+
+  const scope = world || datacenter;
+  if (!scope) return undefined;
+
+  const parameter = world ? 'world' : 'datacenter';
+  if (!SCOPE_PATTERN.test(scope)) {
+    throw new ApiError(ErrorCode.VALIDATION_ERROR, `Invalid ${parameter} name "${scope}".`, 400, {
+      parameter,
+      received: scope,
+      expected: 'FFXIV world or datacenter name',
+    });
+  }
+
+  return scope;
+}
+
+// ============================================================================
+// Fetching
+// ============================================================================
+
+async function requestProxy<T>(env: Env, path: string): Promise<T> {
+  if (!env.UNIVERSALIS_PROXY && !env.UNIVERSALIS_PROXY_URL) {
+    throw new ApiError(ErrorCode.SERVICE_UNAVAILABLE, 'Market data is not available.', 503);
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  let response: Response;
+  try {
+    const init: RequestInit = { method: 'GET', headers: { Accept: 'application/json' }, signal: controller.signal };
+    response = env.UNIVERSALIS_PROXY
+      ? await env.UNIVERSALIS_PROXY.fetch(new Request(`https://internal${path}`, init))
+      : await fetch(`${env.UNIVERSALIS_PROXY_URL}${path}`, init);
+  } catch {
+    throw new ApiError(ErrorCode.UPSTREAM_ERROR, 'Failed to reach the market data service.', 502);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  if (!response.ok) {
+    // The proxy rejects unknown world/datacenter names with a 400
+    if (response.status === 400) {
+      const body = await response.json<{ error?: string }>().catch(() => ({ error: undefined }));
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, body.error ?? 'Invalid market data request.', 400);
+    }
+    throw new ApiError(ErrorCode.UPSTREAM_ERROR, `Market data service returned ${response.status}.`, 502, {
+      upstreamStatus: response.status,
+    });
+  }
+
+  return response.json<T>();
+}
+
+/** Listing count per item ID from a current-data response */
+function listingCounts(data: CurrentResponse): Map<number, number> {
+  const items = 'items' in data ? Object.values(data.items) : [data];
+  return new Map(items.map((item) => [item.itemID, item.listingsCount ?? 0]));
+}
+
+/**
+ * Fetch aggregated NQ prices and listing counts for a set of market item IDs.
+ * Items without listings are absent from the returned map.
+ */
+export async function fetchMarketPrices(
+  env: Env,
+  scope: string,
+  marketItemIds: number[],
+): Promise<Map<number, MarketPrice>> {
+  const ids = [...new Set(marketItemIds)].filter((id) => id > 0).sort((a, b) => a - b);
+  const prices = new Map<number, MarketPrice>();
+
+  for (let i = 0; i < ids.length; i += MAX_BATCH_SIZE) {
+    const batch = ids.slice(i, i + MAX_BATCH_SIZE);
+    const path = `${encodeURIComponent(scope)}/${batch.join(',')}`;
+    const [data, current] = await Promise.all([
+      requestProxy<AggregatedResponse>(env, `/api/v2/aggregated/${path}`),
+      requestProxy<CurrentResponse>(env, `/api/v2/listings/${path}`),
+    ]);
+    const counts = listingCounts(current);
+
+    for (const item of data.results) {
+      // Cascade world → dc → region so both query scopes read their own stats
+      // (BUG-033 in discord-worker's client)
+      const listing = item.nq?.minListing;
+      const minPrice = listing?.world?.price ?? listing?.dc?.price ?? listing?.region?.price;
+      if (minPrice == null) continue;
+
+      const avg = item.nq?.averageSalePrice;
+      const uploads = item.worldUploadTimes ?? [];
+
+      prices.set(item.itemId, {
+        scope,
+        marketItemID: item.itemId,
+        minPrice,
+        averagePrice: Math.round(avg?.world?.price ?? avg?.dc?.price ?? avg?.region?.price ?? minPrice),
+        listingCount: counts.get(item.itemId) ?? 0,
+        lastUploadTime: uploads.length > 0 ? Math.max(...uploads.map((u) => u.timestamp)) : null,
+      });
+    }
+  }
+
+  return prices;
+}
+
+/**
+ * Market price for each dye, keyed by dye.id. Dyes sharing a consolidated
+ * marketItemID share an entry; Facewear and unlisted dyes map to null.
+ */
+export async function fetchDyeMarketPrices(
+  env: Env,
+  scope: string,
+  dyes: Dye[],
+): Promise<Map<number, MarketPrice | null>> {
+  const prices = await fetchMarketPrices(env, scope, dyes.map((d) => getMarketItemID(d)));
+  return new Map(dyes.map((d) => [d.id, prices.get(getMarketItemID(d)) ?? null]));
+}
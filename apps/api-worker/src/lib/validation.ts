@@ -5,15 +5,23 @@
  * identifier types with disjoint numeric ranges, so we auto-detect the type.
  */
 
-import type { Dye } from '@xivdyetools/types';
-import type { MatchingMethod } from '@xivdyetools/core';
+import { RACE_SUBRACES, type Dye, type VisionType, type SubRace, type Gender } from '@xivdyetools/types';
+import type {
+  MatchingMethod,
+  OklchWeights,
+  HarmonyMatchingAlgorithm,
+  HarmonyColorSpace,
+  HarmonyOptions,
+  DeltaEFormula,
+} from '@xivdyetools/core';
 import {
   EXPENSIVE_DYE_IDS,
   VENDOR_ACQUISITIONS,
   CRAFT_ACQUISITIONS,
 } from '@xivdyetools/core';
+import { BLENDING_MODES, type BlendingMode } from '@xivdyetools/color-blending';
 import { ApiError, ErrorCode } from './api-error.js';
-import { dyeService } from './services.js';
+import { dyeService, type InterpolationMode } from './services.js';
 
 // ============================================================================
 // Constants
@@ -33,6 +41,62 @@ export const VALID_ORDERS = ['asc', 'desc'] as const;
 
 export const VALID_CONSOLIDATION_TYPES = ['A', 'B', 'C'] as const;
 
+export const VALID_HARMONY_TYPES = [
+  'complementary',
+  'analogous',
+  'triadic',
+  'square',
+  'tetradic',
+  'monochromatic',
+  'compound',
+  'split-complementary',
+  'shades',
+] as const;
+export type ValidHarmonyType = (typeof VALID_HARMONY_TYPES)[number];
+
+export const VALID_HARMONY_ALGORITHMS: readonly HarmonyMatchingAlgorithm[] = ['hue', 'deltaE'];
+
+export const VALID_HARMONY_COLOR_SPACES: readonly HarmonyColorSpace[] = ['hsv', 'oklch', 'lch', 'hsl'];
+
+/** HarmonyGenerator only implements the two CIE formulas for deltaE matching. */
+export const VALID_HARMONY_DELTA_E_FORMULAS: readonly DeltaEFormula[] = ['cie76', 'cie2000'];
+
+export const VALID_BLENDING_MODES: readonly BlendingMode[] = BLENDING_MODES.map((m) => m.value);
+
+/** Simulated vision deficiencies ('normal' is the unsimulated baseline, always included). */
+export const VALID_VISION_TYPES: readonly VisionType[] = [
+  'protanopia',
+  'deuteranopia',
+  'tritanopia',
+  'achromatopsia',
+];
+
+/** Gradients also accept the hue-interpolating spaces offered by the gradient tools. */
+export const VALID_INTERPOLATION_MODES: readonly InterpolationMode[] = [
+  ...VALID_BLENDING_MODES,
+  'hsv',
+  'lch',
+  'oklch',
+];
+
+/** Character creator palettes, named as in the /swatch command (hair and skin vary by clan and gender). */
+export const VALID_CHARACTER_CATEGORIES = [
+  'hair',
+  'skin',
+  'eyes',
+  'highlights',
+  'lips-dark',
+  'lips-light',
+  'tattoo',
+  'face-paint-dark',
+  'face-paint-light',
+] as const;
+export type ValidCharacterCategory = (typeof VALID_CHARACTER_CATEGORIES)[number];
+
+export const VALID_CLANS: readonly SubRace[] = Object.values(RACE_SUBRACES).flat();
+
+export const VALID_GENDERS: readonly Gender[] = ['Male', 'Female'];
+
 // ============================================================================
 // Dye ID Resolution
 // ============================================================================
@@ -94,7 +158,7 @@ export function resolveExcludeIds(idsString: string): number[] {
 // Parameter Parsing
 // ============================================================================
 
-const HEX_PATTERN = /^#?[0-9A-Fa-f]{6}$/;
+export const HEX_PATTERN = /^#?[0-9A-Fa-f]{6}$/;
 
 /** Validate and normalize hex color. Auto-prepends # and uppercases. */
 export function parseHex(value: string | undefined, paramName = 'hex'): string {
@@ -284,6 +348,33 @@ export function parseCommaSeparatedIds(
   return ids;
 }
 
+/** Parse a comma-separated list of hex colors, normalizing each like parseHex(). */
+export function parseHexList(value: string, name: string, maxItems: number): string[] {
+  const parts = value.split(',').map((s) => s.trim()).filter(Boolean);
+
+  if (parts.length > maxItems) {
+    throw new ApiError(ErrorCode.VALIDATION_ERROR, `Parameter "${name}" exceeds maximum of ${maxItems} items.`, 400, {
+      parameter: name,
+      received: parts.length,
+      expected: `<= ${maxItems} items`,
+    });
+  }
+
+  return parts.map((part) => parseHex(part, name));
+}
+
+/** Parse a comma-separated list of enum values, defaulting to every valid value. */
+export function parseEnumListParam<T extends string>(
+  value: string | undefined,
+  name: string,
+  validValues: readonly T[],
+): T[] {
+  if (value === undefined || value === '') return [...validValues];
+
+  const parts = value.split(',').map((s) => s.trim()).filter(Boolean);
+  return [...new Set(parts.map((part) => parseEnumParam(part, name, validValues)))];
+}
+
 /** Parse the locale param, defaulting to 'en'. */
 export function parseLocale(value: string | undefined): ValidLocale {
   if (!value || value === '') return 'en';
@@ -310,6 +401,83 @@ export function parseMatchingMethod(value: string | undefined): MatchingMethod {
   return value as MatchingMethod;
 }
 
+/**
+ * Parse the OKLCH weights (kL, kC, kH). Only meaningful for the
+ * oklch-weighted method — returns undefined for every other method.
+ */
+export function parseOklchWeights(
+  query: (name: string) => string | undefined,
+  method: MatchingMethod,
+): OklchWeights | undefined {
+  const kL = parseFloatParam(query('kL'), 'kL', { min: 0, defaultValue: 1.0 });
+  const kC = parseFloatParam(query('kC'), 'kC', { min: 0, defaultValue: 1.0 });
+  const kH = parseFloatParam(query('kH'), 'kH', { min: 0, defaultValue: 1.0 });
+  return method === 'oklch-weighted' ? { kL, kC, kH } : undefined;
+}
+
+// ============================================================================
+// JSON Bodies
+// ============================================================================
+
+/**
+ * Query-style accessor over JSON objects, so POST bodies reuse the query
+ * validators above. Sources are searched in order (per-item fields before
+ * request-wide defaults); numbers and booleans are stringified and arrays
+ * joined with commas, e.g. `excludeIds: [5729, 5730]` reads as "5729,5730".
+ */
+export function jsonQuery(
+  ...sources: Array<Record<string, unknown>>
+): (name: string) => string | undefined {
+  return (name) => {
+    for (const source of sources) {
+      const value = source[name];
+      if (value === undefined || value === null) continue;
+      if (Array.isArray(value)) return value.join(',');
+      if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        return String(value);
+      }
+      throw new ApiError(ErrorCode.VALIDATION_ERROR, `Field "${name}" must be a string, number, boolean or array.`, 400, {
+        parameter: name,
+      });
+    }
+    return undefined;
+  };
+}
+
+// ============================================================================
+// Harmony Options
+// ============================================================================
+
+/**
+ * Parse the HarmonyOptions query params (algorithm, colorSpace, deltaEFormula,
+ * hueTolerance, deltaETolerance). Unset tolerances are left undefined so core
+ * applies its own per-harmony defaults.
+ */
+export function parseHarmonyOptions(query: (name: string) => string | undefined): HarmonyOptions {
+  const algorithm = parseEnumParam(query('algorithm'), 'algorithm', VALID_HARMONY_ALGORITHMS, 'hue');
+  const colorSpace = parseEnumParam(query('colorSpace'), 'colorSpace', VALID_HARMONY_COLOR_SPACES, 'hsv');
+  const deltaEFormula = parseEnumParam(
+    query('deltaEFormula'),
+    'deltaEFormula',
+    VALID_HARMONY_DELTA_E_FORMULAS,
+    'cie76',
+  );
+  const hueToleranceRaw = query('hueTolerance');
+  const deltaEToleranceRaw = query('deltaETolerance');
+
+  return {
+    algorithm,
+    colorSpace,
+    deltaEFormula,
+    ...(hueToleranceRaw && {
+      hueTolerance: parseFloatParam(hueToleranceRaw, 'hueTolerance', { min: 0, max: 180 }),
+    }),
+    ...(deltaEToleranceRaw && {
+      deltaETolerance: parseFloatParam(deltaEToleranceRaw, 'deltaETolerance', { min: 0.01, max: 100 }),
+    }),
+  };
+}
+
 // ============================================================================
 // Dye Query Filters
 // ============================================================================
@@ -0,0 +1,37 @@
+/**
+ * Conditional Request Middleware
+ *
+ * Adds a strong ETag to successful static dye-data GET responses and answers
+ * a matching If-None-Match with 304 Not Modified, so clients and edge caches
+ * revalidate instead of re-downloading the body.
+ *
+ * Static responses are recognised by STATIC_CACHE_CONTROL, which handlers set
+ * explicitly. Market-priced responses (`world` / `datacenter`) use a shorter
+ * policy and never get a version-derived ETag — prices change between
+ * releases. Errors and POST responses are left untouched.
+ */
+
+import type { MiddlewareHandler } from 'hono';
+import type { Env, Variables } from '../types.js';
+import { STATIC_CACHE_CONTROL, computeEtag, ifNoneMatch } from '../lib/cache.js';
+
+export const conditionalRequestMiddleware: MiddlewareHandler<{ Bindings: Env; Variables: Variables }> = async (
+  c,
+  next,
+) => {
+  await next();
+
+  if (c.req.method !== 'GET' && c.req.method !== 'HEAD') return;
+  if (c.res.status !== 200 || c.res.headers.get('Cache-Control') !== STATIC_CACHE_CONTROL) return;
+
+  const url = new URL(c.req.url);
+  const etag = await computeEtag(url.pathname, url.searchParams, c.get('locale'));
+  c.header('ETag', etag);
+
+  if (ifNoneMatch(c.req.header('If-None-Match'), etag)) {
+    // Headers (Cache-Control, ETag, rate-limit) carry over to the 304
+    c.res = new Response(null, { status: 304 });
+    c.res.headers.delete('Content-Type');
+    c.res.headers.delete('Content-Length');
+  }
+};
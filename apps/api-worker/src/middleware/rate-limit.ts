@@ -9,7 +9,7 @@
  * is only available at request time.
  */
 
-import type { Context } from 'hono';
+import type { Context, MiddlewareHandler } from 'hono';
 import type { Env, Variables } from '../types.js';
 import { rateLimitMiddleware as createRateLimitMiddleware } from '@xivdyetools/worker-middleware';
 import { KVRateLimiter, getClientIp } from '@xivdyetools/rate-limiter';
@@ -25,12 +25,13 @@ export const rateLimitMiddleware = createRateLimitMiddleware({
   backend: (c: Context<{ Bindings: Env }>) =>
     new KVRateLimiter({ kv: c.env.RATE_LIMIT, keyPrefix: 'api:ip:' }),
   keyExtractor: (c) => getClientIp(c.req.raw),
-  config: {
+  config: (c: Context<{ Bindings: Env; Variables: Variables }>) => ({
     maxRequests: 60,
     windowMs: 60_000,
     burstAllowance: 5,
     failOpen: true,
-  },
+    cost: c.get('rateLimitCost') ?? 1,
+  }),
   onError: 'fail-open',
   formatError: (c: Context<{ Bindings: Env; Variables: Variables }>, retryAfter) =>
     c.json(
@@ -48,3 +49,24 @@ export const rateLimitMiddleware = createRateLimitMiddleware({
       429,
     ),
 });
+
+/** Colors per rate-limit unit for POST /v1/match/batch */
+export const BATCH_COLORS_PER_UNIT = 10;
+
+/**
+ * Weights POST /v1/match/batch by its size: the batch counts as a single
+ * request costing one unit per BATCH_COLORS_PER_UNIT colors. Must run before
+ * rateLimitMiddleware. Hono caches the body, so the route re-reads it freely;
+ * malformed bodies cost one unit and are rejected by the route itself.
+ */
+export const matchBatchCostMiddleware: MiddlewareHandler<{ Bindings: Env; Variables: Variables }> = async (
+  c,
+  next,
+) => {
+  if (c.req.method === 'POST') {
+    const body = await c.req.json<{ colors?: unknown }>().catch(() => null);
+    const colorCount = Array.isArray(body?.colors) ? body.colors.length : 0;
+    c.set('rateLimitCost', Math.max(1, Math.ceil(colorCount / BATCH_COLORS_PER_UNIT)));
+  }
+  await next();
+};
@@ -0,0 +1,152 @@
+/**
+ * Accessibility route — WCAG contrast matrix and colorblind simulation for a
+ * set of dyes and/or hex colors.
+ *
+ * The data behind the Discord /accessibility images (generateContrastMatrix /
+ * generateAccessibilityComparison in @xivdyetools/svg), returned as JSON.
+ * Pairs additionally carry the ΔE between the two colors as seen under each
+ * vision type, so clients can flag combinations that collapse for
+ * colorblind players.
+ */
+
+import { Hono } from 'hono';
+import { ColorService, ColorConverter } from '@xivdyetools/core';
+import type { Dye, VisionType } from '@xivdyetools/types';
+import type { Env, Variables } from '../types.js';
+import { serializeDye, localizedNameFor } from '../lib/dye-serializer.js';
+import { ApiError, ErrorCode } from '../lib/api-error.js';
+import {
+  parseCommaSeparatedIds,
+  parseHexList,
+  parseEnumParam,
+  parseEnumListParam,
+  parseFloatParam,
+  resolveIdType,
+  lookupDyeByResolvedId,
+  VALID_VISION_TYPES,
+  VALID_HARMONY_DELTA_E_FORMULAS,
+} from '../lib/validation.js';
+import { successResponse } from '../lib/response.js';
+import { STATIC_CACHE_CONTROL } from '../lib/cache.js';
+
+const accessibilityRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+/** Matches the contrast-matrix outfit-slot range */
+export const MAX_COLORS = 6;
+
+type WcagLevel = 'AAA' | 'AA' | 'FAIL';
+
+// ============================================================================
+// GET / — Contrast matrix + colorblind simulation
+// ============================================================================
+
+accessibilityRouter.get('/', (c) => {
+  const idsRaw = c.req.query('ids');
+  const hexRaw = c.req.query('hex');
+  const visionTypes = parseEnumListParam(c.req.query('visionTypes'), 'visionTypes', VALID_VISION_TYPES);
+  const deltaEFormula = parseEnumParam(
+    c.req.query('deltaEFormula'),
+    'deltaEFormula',
+    VALID_HARMONY_DELTA_E_FORMULAS,
+    'cie2000',
+  );
+  const threshold = parseFloatParam(c.req.query('threshold'), 'threshold', { min: 0, max: 100, defaultValue: 10 });
+  const locale = c.get('locale'); // REFACTOR-023: parsed once by localeMiddleware
+
+  if (!idsRaw && !hexRaw) {
+    throw new ApiError(ErrorCode.MISSING_PARAMETER, 'Provide at least one color via "ids" or "hex".', 400, {
+      parameter: 'ids',
+      required: true,
+    });
+  }
+
+  // Dyes first (in request order), then raw hex colors
+  const colors: { hex: string; dye: Dye | null }[] = [];
+  if (idsRaw) {
+    for (const id of parseCommaSeparatedIds(idsRaw, 'ids', MAX_COLORS)) {
+      const dye = lookupDyeByResolvedId(resolveIdType(id));
+      if (!dye) {
+        throw new ApiError(ErrorCode.NOT_FOUND, `Dye with ID ${id} not found.`, 404, { id });
+      }
+      colors.push({ hex: dye.hex.toUpperCase(), dye });
+    }
+  }
+  if (hexRaw) {
+    for (const hex of parseHexList(hexRaw, 'hex', MAX_COLORS)) {
+      colors.push({ hex, dye: null });
+    }
+  }
+
+  if (colors.length > MAX_COLORS) {
+    throw new ApiError(ErrorCode.VALIDATION_ERROR, `At most ${MAX_COLORS} colors can be analyzed at once.`, 400, {
+      parameter: 'ids,hex',
+      received: colors.length,
+      expected: `<= ${MAX_COLORS} items`,
+    });
+  }
+
+  // Simulated hex per color per vision type (computed once, reused for pair ΔE)
+  const simulated = colors.map(({ hex }) =>
+    Object.fromEntries(
+      visionTypes.map((type) => [type, ColorService.simulateColorblindnessHex(hex, type).toUpperCase()]),
+    ) as Partial<Record<VisionType, string>>,
+  );
+
+  const pairs = [];
+  for (let i = 0; i < colors.length; i++) {
+    for (let j = i + 1; j < colors.length; j++) {
+      const hexA = colors[i].hex;
+      const hexB = colors[j].hex;
+
+      const deltaE: Partial<Record<VisionType, number>> = {
+        normal: round(ColorConverter.getDeltaE(hexA, hexB, deltaEFormula), 10000),
+      };
+      for (const type of visionTypes) {
+        deltaE[type] = round(ColorConverter.getDeltaE(simulated[i][type]!, simulated[j][type]!, deltaEFormula), 10000);
+      }
+
+      pairs.push({
+        indices: [i, j],
+        hexes: [hexA, hexB],
+        contrastRatio: round(ColorService.getContrastRatio(hexA, hexB), 100),
+        wcag: {
+          level: wcagLevel(hexA, hexB),
+          aa: ColorService.meetsWCAGAA(hexA, hexB),
+          aaLarge: ColorService.meetsWCAGAA(hexA, hexB, true),
+          aaa: ColorService.meetsWCAGAAA(hexA, hexB),
+          aaaLarge: ColorService.meetsWCAGAAA(hexA, hexB, true),
+        },
+        deltaE,
+        indistinguishableUnder: (Object.keys(deltaE) as VisionType[]).filter((type) => deltaE[type]! < threshold),
+      });
+    }
+  }
+
+  c.header('Cache-Control', STATIC_CACHE_CONTROL);
+  return successResponse(c, {
+    colors: colors.map(({ hex, dye }, index) => ({
+      hex,
+      dye: dye ? serializeDye(dye, localizedNameFor(dye, locale)) : null,
+      simulations: simulated[index],
+    })),
+    pairs,
+    options: { visionTypes, deltaEFormula, threshold },
+  }, locale);
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Normal-text WCAG level — the same buckets as the contrast-matrix badges. */
+function wcagLevel(hexA: string, hexB: string): WcagLevel {
+  if (ColorService.meetsWCAGAAA(hexA, hexB)) return 'AAA';
+  if (ColorService.meetsWCAGAA(hexA, hexB)) return 'AA';
+  return 'FAIL';
+}
+
+function round(value: number, factor: number): number {
+  return Math.round(value * factor) / factor;
+}
+
+export { accessibilityRouter };
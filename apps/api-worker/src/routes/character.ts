@@ -0,0 +1,197 @@
+/**
+ * Character routes — character creator palettes matched to dyes.
+ *
+ * The palettes come from core's CharacterColorService, the data behind the
+ * Discord /swatch command and the web-app swatch tool. Hair and skin vary by
+ * clan and gender; the other categories are shared by every clan. Palette
+ * entries carry their game grid position (8 columns, 1-based row/column as
+ * /swatch displays them) alongside the 0-based index.
+ */
+
+import { Hono } from 'hono';
+import type { CharacterColor, SharedColorCategory, RaceSpecificColorCategory, SubRace, Gender } from '@xivdyetools/types';
+import type { Env, Variables } from '../types.js';
+import { characterColorService, findClosestDyes } from '../lib/services.js';
+import { serializeDyeWithDistance, localizedNameFor } from '../lib/dye-serializer.js';
+import { ApiError, ErrorCode } from '../lib/api-error.js';
+import {
+  parseIntParam,
+  parseEnumParam,
+  parseMatchingMethod,
+  parseOklchWeights,
+  resolveExcludeIds,
+  parseDyeFilters,
+  buildFilterExcludeIds,
+  VALID_CHARACTER_CATEGORIES,
+  VALID_CLANS,
+  VALID_GENDERS,
+  type ValidCharacterCategory,
+} from '../lib/validation.js';
+import { successResponse } from '../lib/response.js';
+import { STATIC_CACHE_CONTROL } from '../lib/cache.js';
+
+const characterRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+/** Character creator palettes are always 8 columns wide */
+const GRID_COLUMNS = 8;
+
+const SHARED_CATEGORIES: Record<Exclude<ValidCharacterCategory, 'hair' | 'skin'>, SharedColorCategory> = {
+  eyes: 'eyeColors',
+  highlights: 'highlightColors',
+  'lips-dark': 'lipColorsDark',
+  'lips-light': 'lipColorsLight',
+  tattoo: 'tattooColors',
+  'face-paint-dark': 'facePaintColorsDark',
+  'face-paint-light': 'facePaintColorsLight',
+};
+
+const RACE_SPECIFIC_CATEGORIES: Record<'hair' | 'skin', RaceSpecificColorCategory> = {
+  hair: 'hairColors',
+  skin: 'skinColors',
+};
+
+interface Palette {
+  category: ValidCharacterCategory;
+  /** Only set for the clan-specific categories (hair, skin) */
+  clan: SubRace | null;
+  gender: Gender | null;
+  colors: CharacterColor[];
+}
+
+// ============================================================================
+// GET /colors/:category — A whole palette with the closest dyes per entry
+// ============================================================================
+
+characterRouter.get('/colors/:category', async (c) => {
+  const palette = await loadPalette(c.req.param('category'), c.req.query.bind(c.req));
+  const count = parseIntParam(c.req.query('count'), 'count', { min: 1, max: 5, defaultValue: 1 });
+  const method = parseMatchingMethod(c.req.query('method'));
+  const weights = parseOklchWeights(c.req.query.bind(c.req), method);
+  const excludeIds = parseMatchExcludeIds(c.req.query.bind(c.req));
+  const locale = c.get('locale'); // REFACTOR-023: parsed once by localeMiddleware
+
+  c.header('Cache-Control', STATIC_CACHE_CONTROL);
+  return successResponse(c, {
+    category: palette.category,
+    clan: palette.clan,
+    gender: palette.gender,
+    grid: { columns: GRID_COLUMNS, rows: Math.ceil(palette.colors.length / GRID_COLUMNS) },
+    method,
+    colors: palette.colors.map((color) => ({
+      ...serializeCharacterColor(color),
+      matches: findClosestDyes(color.hex, method, count, excludeIds, weights).map((m) =>
+        serializeDyeWithDistance(m.dye, m.distance, localizedNameFor(m.dye, locale)),
+      ),
+    })),
+  }, locale);
+});
+
+// ============================================================================
+// GET /match — Closest dyes for one palette entry (by index or grid position)
+// ============================================================================
+
+characterRouter.get('/match', async (c) => {
+  const palette = await loadPalette(c.req.query('category'), c.req.query.bind(c.req));
+  const count = parseIntParam(c.req.query('count'), 'count', { min: 1, max: 10, defaultValue: 3 });
+  const method = parseMatchingMethod(c.req.query('method'));
+  const weights = parseOklchWeights(c.req.query.bind(c.req), method);
+  const excludeIds = parseMatchExcludeIds(c.req.query.bind(c.req));
+  const locale = c.get('locale'); // REFACTOR-023: parsed once by localeMiddleware
+
+  const rows = Math.ceil(palette.colors.length / GRID_COLUMNS);
+  const byIndex = c.req.query('index') !== undefined;
+  const byGrid = c.req.query('row') !== undefined || c.req.query('column') !== undefined;
+  if (byIndex && byGrid) {
+    throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Provide either "index" or "row" and "column", not both.', 400, {
+      parameter: 'index',
+    });
+  }
+
+  let index: number;
+  if (byIndex) {
+    index = parseIntParam(c.req.query('index'), 'index', { min: 0, max: palette.colors.length - 1 });
+  } else if (byGrid) {
+    const row = parseIntParam(c.req.query('row'), 'row', { min: 1, max: rows });
+    const column = parseIntParam(c.req.query('column'), 'column', { min: 1, max: GRID_COLUMNS });
+    index = (row - 1) * GRID_COLUMNS + (column - 1);
+  } else {
+    throw new ApiError(ErrorCode.MISSING_PARAMETER, 'Provide either "index" or "row" and "column".', 400, {
+      parameter: 'index',
+      required: true,
+    });
+  }
+
+  const color = palette.colors.find((entry) => entry.index === index);
+  if (!color) {
+    throw new ApiError(ErrorCode.NOT_FOUND, `No ${palette.category} color at index ${index}.`, 404, { index });
+  }
+
+  const matches = findClosestDyes(color.hex, method, count, excludeIds, weights);
+
+  c.header('Cache-Control', STATIC_CACHE_CONTROL);
+  return successResponse(c, {
+    category: palette.category,
+    clan: palette.clan,
+    gender: palette.gender,
+    color: serializeCharacterColor(color),
+    method,
+    matches: matches.map((m) => serializeDyeWithDistance(m.dye, m.distance, localizedNameFor(m.dye, locale))),
+  }, locale);
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Parse the category and, for hair and skin, the required clan and gender,
+ * then load the palette. `clan`/`gender` are validated but ignored for the
+ * shared categories.
+ */
+async function loadPalette(
+  categoryRaw: string | undefined,
+  query: (name: string) => string | undefined,
+): Promise<Palette> {
+  const category = parseEnumParam(categoryRaw, 'category', VALID_CHARACTER_CATEGORIES);
+  const clanRaw = query('clan');
+  const genderRaw = query('gender');
+  const clan = clanRaw ? parseEnumParam(clanRaw, 'clan', VALID_CLANS) : undefined;
+  const gender = genderRaw ? parseEnumParam(genderRaw, 'gender', VALID_GENDERS) : undefined;
+
+  if (category === 'hair' || category === 'skin') {
+    if (!clan || !gender) {
+      const parameter = clan ? 'gender' : 'clan';
+      throw new ApiError(ErrorCode.MISSING_PARAMETER, `Parameter "${parameter}" is required for ${category} colors.`, 400, {
+        parameter,
+        required: true,
+      });
+    }
+    const colors = await characterColorService.getRaceSpecificColors(RACE_SPECIFIC_CATEGORIES[category], clan, gender);
+    return { category, clan, gender, colors };
+  }
+
+  return {
+    category,
+    clan: null,
+    gender: null,
+    colors: characterColorService.getSharedColors(SHARED_CATEGORIES[category]),
+  };
+}
+
+/** `excludeIds` plus the dye type/acquisition filters, as on the match routes */
+function parseMatchExcludeIds(query: (name: string) => string | undefined): number[] {
+  const excludeIdsRaw = query('excludeIds');
+  const userExcludeIds = excludeIdsRaw ? resolveExcludeIds(excludeIdsRaw) : [];
+  return [...userExcludeIds, ...buildFilterExcludeIds(parseDyeFilters(query))];
+}
+
+function serializeCharacterColor(color: CharacterColor): { index: number; row: number; column: number; hex: string } {
+  return {
+    index: color.index,
+    row: Math.floor(color.index / GRID_COLUMNS) + 1,
+    column: (color.index % GRID_COLUMNS) + 1,
+    hex: color.hex.toUpperCase(),
+  };
+}
+
+export { characterRouter };
@@ -1,16 +1,17 @@
 /**
- * Dye routes — 7 endpoints for dye database access.
+ * Dye routes — 9 endpoints for dye database access.
  *
  * Route registration order matters: static paths (search, categories, batch,
- * consolidation-groups, stain/:stainId) must be registered before the
+ * consolidation-groups, stain/:stainId, compare) must be registered before the
  * parameterized /:id route to avoid Hono matching conflicts.
  */
 
 import { Hono } from 'hono';
 import type { Env, Variables } from '../types.js';
 import { CONSOLIDATED_IDS, isConsolidationActive } from '@xivdyetools/core';
-import { dyeService } from '../lib/services.js';
-import { serializeDye, localizedNameFor } from '../lib/dye-serializer.js';
+import { dyeService, findClosestDyes, calculateDistance, colorDifferences } from '../lib/services.js';
+import { serializeDye, serializeDyeWithDistance, localizedNameFor } from '../lib/dye-serializer.js';
+import { parseMarketScope, fetchDyeMarketPrices, MARKET_CACHE_CONTROL } from '../lib/universalis.js';
 import { ApiError, ErrorCode } from '../lib/api-error.js';
 import {
   parseIntParam,
@@ -22,6 +23,9 @@ import {
   resolveExcludeIds,
   parseDyeFilters,
   applyDyeFilters,
+  buildFilterExcludeIds,
+  parseMatchingMethod,
+  parseOklchWeights,
   VALID_SORT_FIELDS,
   VALID_ORDERS,
   VALID_CONSOLIDATION_TYPES,
@@ -32,10 +36,14 @@ import {
   paginatedResponse,
   buildPagination,
 } from '../lib/response.js';
+import { STATIC_CACHE_CONTROL } from '../lib/cache.js';
 import type { Dye } from '@xivdyetools/types';
 
 const dyesRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
 
+/** Dyes per /compare request (the matrix grows quadratically) */
+export const MAX_COMPARE_DYES = 20;
+
 // ============================================================================
 // GET /search — Name search
 // ============================================================================
@@ -58,7 +66,7 @@ dyesRouter.get('/search', (c) => {
 
   const serialized = results.map((dye) => serializeDye(dye, localizedNameFor(dye, locale)));
 
-  c.header('Cache-Control', 'public, max-age=3600, s-maxage=86400');
+  c.header('Cache-Control', STATIC_CACHE_CONTROL);
   return successResponse(c, serialized, locale);
 });
 
@@ -78,7 +86,7 @@ dyesRouter.get('/categories', (c) => {
     }));
   }
 
-  c.header('Cache-Control', 'public, max-age=3600, s-maxage=86400');
+  c.header('Cache-Control', STATIC_CACHE_CONTROL);
   return successResponse(c, categoriesPayload);
 });
 
@@ -112,7 +120,7 @@ dyesRouter.get('/batch', (c) => {
     }
   }
 
-  c.header('Cache-Control', 'public, max-age=3600, s-maxage=86400');
+  c.header('Cache-Control', STATIC_CACHE_CONTROL);
   return successResponse(c, { dyes: found, notFound }, locale);
 });
 
@@ -128,7 +136,7 @@ dyesRouter.get('/consolidation-groups', (c) => {
   const consolidationActive = isConsolidationActive();
   const cached = consolidationPayloadCache.get(consolidationActive);
   if (cached) {
-    c.header('Cache-Control', 'public, max-age=3600, s-maxage=86400');
+    c.header('Cache-Control', STATIC_CACHE_CONTROL);
     return successResponse(c, cached);
   }
 
@@ -158,7 +166,7 @@ dyesRouter.get('/consolidation-groups', (c) => {
   };
   consolidationPayloadCache.set(consolidationActive, payload);
 
-  c.header('Cache-Control', 'public, max-age=3600, s-maxage=86400');
+  c.header('Cache-Control', STATIC_CACHE_CONTROL);
   return successResponse(c, payload);
 });
 
@@ -184,64 +192,101 @@ dyesRouter.get('/stain/:stainId', (c) => {
     throw new ApiError(ErrorCode.NOT_FOUND, `No dye found with stain ID ${stainId}.`, 404);
   }
 
-  c.header('Cache-Control', 'public, max-age=3600, s-maxage=86400');
+  c.header('Cache-Control', STATIC_CACHE_CONTROL);
   return successResponse(c, serializeDye(dye, localizedNameFor(dye, locale)), locale);
 });
 
 // ============================================================================
-// GET /:id — Single dye lookup (auto-detect ID type)
+// GET /compare — Pairwise distance matrix
 // ============================================================================
 
-dyesRouter.get('/:id', (c) => {
-  const raw = c.req.param('id');
-  const id = parseInt(raw, 10);
+dyesRouter.get('/compare', (c) => {
+  const ids = parseCommaSeparatedIds(c.req.query('ids'), 'ids', MAX_COMPARE_DYES);
+  const method = parseMatchingMethod(c.req.query('method'));
+  const weights = parseOklchWeights(c.req.query.bind(c.req), method);
+  const locale = c.get('locale'); // REFACTOR-023: parsed once by localeMiddleware
 
-  if (isNaN(id)) {
-    throw new ApiError(ErrorCode.VALIDATION_ERROR, `Invalid dye ID "${raw}". Must be an integer.`, 400, {
-      parameter: 'id',
-      received: raw,
-      expected: 'integer',
+  if (ids.length < 2) {
+    throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Parameter "ids" needs at least 2 dyes to compare.', 400, {
+      parameter: 'ids',
+      received: ids.length,
+      expected: `2-${MAX_COMPARE_DYES} items`,
     });
   }
 
-  const resolution = resolveIdType(id);
-  const dye = lookupDyeByResolvedId(resolution);
+  const dyes = ids.map((id) => {
+    const dye = lookupDyeByResolvedId(resolveIdType(id));
+    if (!dye) {
+      throw new ApiError(ErrorCode.NOT_FOUND, `Dye with ID ${id} not found.`, 404, { id });
+    }
+    return dye;
+  });
 
-  if (!dye) {
-    // BUG-071 (2026-07-18 audit): the API itself emits these consolidated
-    // market itemIDs in `marketItemID`; round-tripping one must explain
-    // itself instead of a bare 404
-    const consolidatedType = Object.entries(CONSOLIDATED_IDS).find(([, cid]) => cid === id)?.[0] as
-      | 'A'
-      | 'B'
-      | 'C'
-      | undefined;
-    if (consolidatedType) {
-      throw new ApiError(
-        ErrorCode.NOT_FOUND,
-        `ID ${id} is the consolidated market itemID for Type-${consolidatedType} dyes, not a dye entry; see /v1/dyes/consolidation-groups for its members.`,
-        404,
-        { consolidatedType },
-      );
+  // Every method is symmetric — compute each pair once and mirror it
+  const matrix = dyes.map(() => new Array<number>(dyes.length).fill(0));
+  for (let i = 0; i < dyes.length; i++) {
+    for (let j = i + 1; j < dyes.length; j++) {
+      const distance = Math.round(calculateDistance(dyes[i].hex, dyes[j].hex, method, weights) * 10000) / 10000;
+      matrix[i][j] = distance;
+      matrix[j][i] = distance;
     }
-    const hint = resolution.type === 'invalid'
-      ? ` ID ${id} falls in the unassigned range (126-5728).`
-      : '';
-    throw new ApiError(ErrorCode.NOT_FOUND, `No dye found with ID ${id}.${hint}`, 404);
   }
 
+  c.header('Cache-Control', STATIC_CACHE_CONTROL);
+  return successResponse(c, {
+    dyes: dyes.map((dye) => serializeDye(dye, localizedNameFor(dye, locale))),
+    method,
+    matrix,
+  }, locale);
+});
+
+// ============================================================================
+// GET /:id — Single dye lookup (auto-detect ID type)
+// ============================================================================
+
+dyesRouter.get('/:id', (c) => {
+  const dye = lookupDyeParam(c.req.param('id'));
   const locale = c.get('locale'); // REFACTOR-023: parsed once by localeMiddleware
 
-  c.header('Cache-Control', 'public, max-age=3600, s-maxage=86400');
+  c.header('Cache-Control', STATIC_CACHE_CONTROL);
   return successResponse(c, serializeDye(dye, localizedNameFor(dye, locale)), locale);
 });
 
+// ============================================================================
+// GET /:id/similar — Nearest other dyes to a dye
+// ============================================================================
+
+dyesRouter.get('/:id/similar', (c) => {
+  const dye = lookupDyeParam(c.req.param('id'));
+  const count = parseIntParam(c.req.query('count'), 'count', { min: 1, max: 20, defaultValue: 5 });
+  const method = parseMatchingMethod(c.req.query('method'));
+  const weights = parseOklchWeights(c.req.query.bind(c.req), method);
+  const locale = c.get('locale'); // REFACTOR-023: parsed once by localeMiddleware
+  const excludeIdsRaw = c.req.query('excludeIds');
+
+  // The dye itself never counts as similar; filters narrow the candidates
+  const filterExcludeIds = buildFilterExcludeIds(parseDyeFilters(c.req.query.bind(c.req)));
+  const userExcludeIds = excludeIdsRaw ? resolveExcludeIds(excludeIdsRaw) : [];
+  const matches = findClosestDyes(dye.hex, method, count, [dye.id, ...userExcludeIds, ...filterExcludeIds], weights);
+
+  c.header('Cache-Control', STATIC_CACHE_CONTROL);
+  return successResponse(c, {
+    dye: serializeDye(dye, localizedNameFor(dye, locale)),
+    method,
+    results: matches.map((m) => ({
+      ...serializeDyeWithDistance(m.dye, m.distance, localizedNameFor(m.dye, locale)),
+      differences: colorDifferences(dye.hex, m.dye.hex),
+    })),
+  }, locale);
+});
+
 // ============================================================================
 // GET / — List all dyes with filtering, sorting, and pagination
 // ============================================================================
 
-dyesRouter.get('/', (c) => {
+dyesRouter.get('/', async (c) => {
   const locale = c.get('locale'); // REFACTOR-023: parsed once by localeMiddleware
+  const marketScope = parseMarketScope(c.req.query.bind(c.req));
   const category = c.req.query('category');
   const excludeIdsRaw = c.req.query('excludeIds');
   const minPriceRaw = c.req.query('minPrice');
@@ -309,7 +354,15 @@ dyesRouter.get('/', (c) => {
 
   const serialized = paged.map((dye) => serializeDye(dye, localizedNameFor(dye, locale)));
 
-  c.header('Cache-Control', 'public, max-age=3600, s-maxage=86400');
+  // Market enrichment — one aggregated request for the whole page
+  if (marketScope) {
+    const prices = await fetchDyeMarketPrices(c.env, marketScope, paged);
+    const enriched = serialized.map((dye) => ({ ...dye, market: prices.get(dye.id) ?? null }));
+    c.header('Cache-Control', MARKET_CACHE_CONTROL);
+    return paginatedResponse(c, enriched, pagination, locale);
+  }
+
+  c.header('Cache-Control', STATIC_CACHE_CONTROL);
   return paginatedResponse(c, serialized, pagination, locale);
 });
 
@@ -345,4 +398,48 @@ function sortDyes(dyes: Dye[], field: ValidSortField, ascending: boolean): Dye[]
   return sorted;
 }
 
+/**
+ * Resolve a `:id` path parameter (auto-detected ID type) to a dye, or throw
+ * the 400/404 the single-dye routes share.
+ */
+function lookupDyeParam(raw: string): Dye {
+  const id = parseInt(raw, 10);
+
+  if (isNaN(id)) {
+    throw new ApiError(ErrorCode.VALIDATION_ERROR, `Invalid dye ID "${raw}". Must be an integer.`, 400, {
+      parameter: 'id',
+      received: raw,
+      expected: 'integer',
+    });
+  }
+
+  const resolution = resolveIdType(id);
+  const dye = lookupDyeByResolvedId(resolution);
+
+  if (!dye) {
+    // BUG-071 (2026-07-18 audit): the API itself emits these consolidated
+    // market itemIDs in `marketItemID`; round-tripping one must explain
+    // itself instead of a bare 404
+    const consolidatedType = Object.entries(CONSOLIDATED_IDS).find(([, cid]) => cid === id)?.[0] as
+      | 'A'
+      | 'B'
+      | 'C'
+      | undefined;
+    if (consolidatedType) {
+      throw new ApiError(
+        ErrorCode.NOT_FOUND,
+        `ID ${id} is the consolidated market itemID for Type-${consolidatedType} dyes, not a dye entry; see /v1/dyes/consolidation-groups for its members.`,
+        404,
+        { consolidatedType },
+      );
+    }
+    const hint = resolution.type === 'invalid'
+      ? ` ID ${id} falls in the unassigned range (126-5728).`
+      : '';
+    throw new ApiError(ErrorCode.NOT_FOUND, `No dye found with ID ${id}.${hint}`, 404);
+  }
+
+  return dye;
+}
+
 export { dyesRouter };
@@ -0,0 +1,144 @@
+/**
+ * Extract route — dominant-color palette of an uploaded image, matched to dyes.
+ *
+ * Mirrors the Discord /extractor command: the image is decoded and downsampled
+ * with photon, transparent pixels are dropped, and K-means picks the dominant
+ * colors. Decoding and the size/dimension/format safeguards come from
+ * @xivdyetools/image, so both surfaces enforce identical limits.
+ *
+ * Core's extractAndMatchPalette() always matches in RGB, so clusters from
+ * PaletteService.extractPalette() are matched here under the requested
+ * MatchingMethod instead. Each dye is used at most once per palette (the
+ * Discord deduplicatePaletteResults() behaviour).
+ */
+
+import { Hono } from 'hono';
+import { PaletteService, ColorService } from '@xivdyetools/core';
+import {
+  MAX_FILE_SIZE_BYTES,
+  validateFileSize,
+  validateImageFormat,
+  validateDimensions,
+  getImageDimensions,
+  processImageForExtraction,
+  type ProcessedImage,
+} from '@xivdyetools/image';
+import type { Env, Variables } from '../types.js';
+import { findClosestWithDistance } from '../lib/services.js';
+import { serializeDyeWithDistance, localizedNameFor } from '../lib/dye-serializer.js';
+import {
+  parseIntParam,
+  parseMatchingMethod,
+  parseOklchWeights,
+  resolveExcludeIds,
+  parseDyeFilters,
+  buildFilterExcludeIds,
+} from '../lib/validation.js';
+import { successResponse } from '../lib/response.js';
+import { ApiError, ErrorCode } from '../lib/api-error.js';
+
+const extractRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+const paletteService = new PaletteService();
+
+/** Pixels with alpha below this are treated as background (same as Discord) */
+const ALPHA_THRESHOLD = 128;
+
+// ============================================================================
+// POST / — Extract a palette from the request body image
+// ============================================================================
+
+extractRouter.post('/', async (c) => {
+  const colorCount = parseIntParam(c.req.query('colors'), 'colors', { min: 1, max: 10, defaultValue: 4 });
+  const method = parseMatchingMethod(c.req.query('method'));
+  const weights = parseOklchWeights(c.req.query.bind(c.req), method);
+  const locale = c.get('locale'); // REFACTOR-023: parsed once by localeMiddleware
+  const excludeIdsRaw = c.req.query('excludeIds');
+
+  // Dye type/acquisition filters
+  const filters = parseDyeFilters(c.req.query.bind(c.req));
+  const filterExcludeIds = buildFilterExcludeIds(filters);
+  const userExcludeIds = excludeIdsRaw ? resolveExcludeIds(excludeIdsRaw) : [];
+  const combinedExcludeIds = [...userExcludeIds, ...filterExcludeIds];
+
+  // Reject oversized uploads from the header before buffering the body
+  const declaredLength = Number(c.req.header('Content-Length'));
+  if (declaredLength > MAX_FILE_SIZE_BYTES) {
+    throw new ApiError(ErrorCode.PAYLOAD_TOO_LARGE, validateFileSize(declaredLength)!, 413);
+  }
+
+  const buffer = new Uint8Array(await c.req.arrayBuffer());
+
+  const sizeError = validateFileSize(buffer.byteLength);
+  if (sizeError) {
+    throw buffer.byteLength > MAX_FILE_SIZE_BYTES
+      ? new ApiError(ErrorCode.PAYLOAD_TOO_LARGE, sizeError, 413)
+      : new ApiError(ErrorCode.INVALID_IMAGE, sizeError);
+  }
+
+  const format = validateImageFormat(buffer);
+  if (!format.valid) {
+    throw new ApiError(ErrorCode.INVALID_IMAGE, format.error!);
+  }
+
+  let dimensions: { width: number; height: number };
+  let processed: ProcessedImage;
+  try {
+    dimensions = getImageDimensions(buffer);
+    const dimensionError = validateDimensions(dimensions.width, dimensions.height);
+    if (dimensionError) {
+      throw new ApiError(ErrorCode.INVALID_IMAGE, dimensionError);
+    }
+    processed = await processImageForExtraction(buffer);
+  } catch (err) {
+    if (err instanceof ApiError) throw err;
+    // Magic bytes matched but photon could not decode (truncated/corrupt file)
+    throw new ApiError(ErrorCode.INVALID_IMAGE, 'Image could not be decoded');
+  }
+
+  const rgbPixels = PaletteService.pixelDataToRGBFiltered(
+    processed.pixels as unknown as Uint8ClampedArray,
+    ALPHA_THRESHOLD,
+  );
+  if (rgbPixels.length === 0) {
+    throw new ApiError(ErrorCode.INVALID_IMAGE, 'Image has no opaque pixels to extract colors from');
+  }
+
+  const extracted = paletteService.extractPalette(rgbPixels, {
+    colorCount,
+    maxIterations: 25,
+    maxSamples: 10000,
+  });
+
+  const usedIds: number[] = [];
+  const palette = extracted.map((entry) => {
+    const hex = ColorService.rgbToHex(entry.color.r, entry.color.g, entry.color.b).toUpperCase();
+    const match =
+      findClosestWithDistance(hex, method, [...combinedExcludeIds, ...usedIds], weights) ??
+      // Every candidate already used — allow a repeat rather than drop the color
+      findClosestWithDistance(hex, method, combinedExcludeIds, weights);
+    if (match) usedIds.push(match.dye.id);
+
+    return {
+      hex,
+      dominance: entry.dominance,
+      pixelCount: entry.pixelCount,
+      match: match
+        ? serializeDyeWithDistance(match.dye, match.distance, localizedNameFor(match.dye, locale))
+        : null,
+    };
+  });
+
+  return successResponse(c, {
+    image: {
+      format: format.format,
+      width: dimensions.width,
+      height: dimensions.height,
+    },
+    method,
+    colorCount,
+    palette,
+  }, locale);
+});
+
+export { extractRouter };
@@ -0,0 +1,75 @@
+/**
+ * Gradient route — interpolated color steps between two colors, each paired
+ * with its closest dye.
+ *
+ * Mirrors the Discord /gradient command and the web-app gradient tool: the
+ * start and end colors are always the first and last steps.
+ */
+
+import { Hono } from 'hono';
+import type { Env, Variables } from '../types.js';
+import { interpolateColor, findClosestWithDistance } from '../lib/services.js';
+import { serializeDyeWithDistance, localizedNameFor } from '../lib/dye-serializer.js';
+import {
+  parseHex,
+  parseIntParam,
+  parseEnumParam,
+  parseMatchingMethod,
+  parseOklchWeights,
+  resolveExcludeIds,
+  parseDyeFilters,
+  buildFilterExcludeIds,
+  VALID_INTERPOLATION_MODES,
+} from '../lib/validation.js';
+import { successResponse } from '../lib/response.js';
+import { STATIC_CACHE_CONTROL } from '../lib/cache.js';
+
+const gradientRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// ============================================================================
+// GET / — Gradient steps with closest dye matches
+// ============================================================================
+
+gradientRouter.get('/', (c) => {
+  const start = parseHex(c.req.query('start'), 'start');
+  const end = parseHex(c.req.query('end'), 'end');
+  const steps = parseIntParam(c.req.query('steps'), 'steps', { min: 2, max: 20, defaultValue: 6 });
+  const mode = parseEnumParam(c.req.query('mode'), 'mode', VALID_INTERPOLATION_MODES, 'hsv');
+  const method = parseMatchingMethod(c.req.query('method'));
+  const weights = parseOklchWeights(c.req.query.bind(c.req), method);
+  const locale = c.get('locale'); // REFACTOR-023: parsed once by localeMiddleware
+  const excludeIdsRaw = c.req.query('excludeIds');
+
+  // Dye type/acquisition filters
+  const filters = parseDyeFilters(c.req.query.bind(c.req));
+  const filterExcludeIds = buildFilterExcludeIds(filters);
+  const userExcludeIds = excludeIdsRaw ? resolveExcludeIds(excludeIdsRaw) : [];
+  const combinedExcludeIds = [...userExcludeIds, ...filterExcludeIds];
+
+  const results = [];
+  for (let i = 0; i < steps; i++) {
+    const ratio = i / (steps - 1);
+    const hex = interpolateColor(start, end, ratio, mode);
+    const match = findClosestWithDistance(hex, method, combinedExcludeIds, weights);
+
+    results.push({
+      step: i + 1,
+      ratio: Math.round(ratio * 10000) / 10000,
+      hex,
+      match: match
+        ? serializeDyeWithDistance(match.dye, match.distance, localizedNameFor(match.dye, locale))
+        : null,
+    });
+  }
+
+  c.header('Cache-Control', STATIC_CACHE_CONTROL);
+  return successResponse(c, {
+    start,
+    end,
+    mode,
+    method,
+    steps: results,
+  }, locale);
+});
+
+export { gradientRouter };
@@ -0,0 +1,141 @@
+/**
+ * Harmony routes — color harmony dye sets for a base color.
+ *
+ * Thin wrappers around the HarmonyGenerator methods exposed on DyeService.
+ * Core has no exclusion hook for harmonies, so excludeIds and dye-type
+ * filters are applied to the generated set afterwards (the same approach as
+ * bot-logic's executeHarmony) — a filtered harmony can contain fewer dyes
+ * than the scheme has slots.
+ */
+
+import { Hono } from 'hono';
+import type { Env, Variables } from '../types.js';
+import type { HarmonyOptions } from '@xivdyetools/core';
+import type { Dye } from '@xivdyetools/types';
+import { dyeService } from '../lib/services.js';
+import { serializeDye, localizedNameFor } from '../lib/dye-serializer.js';
+import {
+  parseHex,
+  parseIntParam,
+  parseEnumParam,
+  parseHarmonyOptions,
+  resolveExcludeIds,
+  parseDyeFilters,
+  applyDyeFilters,
+  VALID_HARMONY_TYPES,
+  VALID_HARMONY_ALGORITHMS,
+  VALID_HARMONY_COLOR_SPACES,
+  VALID_HARMONY_DELTA_E_FORMULAS,
+  type ValidHarmonyType,
+} from '../lib/validation.js';
+import { successResponse } from '../lib/response.js';
+import { STATIC_CACHE_CONTROL } from '../lib/cache.js';
+
+const harmonyRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+/** Hue offsets (degrees from the base dye) of each scheme, as implemented in core. */
+const HARMONY_OFFSETS: Record<ValidHarmonyType, number[] | null> = {
+  complementary: [180],
+  analogous: [30, -30],
+  triadic: [120, 240],
+  square: [90, 180, 270],
+  tetradic: [60, 180, 240],
+  monochromatic: null,
+  compound: [30, -30, 180],
+  'split-complementary': [150, 210],
+  shades: [15, -15],
+};
+
+// ============================================================================
+// GET / — Supported harmony types and options
+// ============================================================================
+
+const typesPayload = {
+  types: VALID_HARMONY_TYPES.map((type) => ({ type, offsets: HARMONY_OFFSETS[type] })),
+  algorithms: VALID_HARMONY_ALGORITHMS,
+  colorSpaces: VALID_HARMONY_COLOR_SPACES,
+  deltaEFormulas: VALID_HARMONY_DELTA_E_FORMULAS,
+};
+
+harmonyRouter.get('/', (c) => {
+  c.header('Cache-Control', STATIC_CACHE_CONTROL);
+  return successResponse(c, typesPayload);
+});
+
+// ============================================================================
+// GET /:type — Harmony dye set for a base hex color
+// ============================================================================
+
+harmonyRouter.get('/:type', (c) => {
+  const type = parseEnumParam(c.req.param('type'), 'type', VALID_HARMONY_TYPES);
+  const hex = parseHex(c.req.query('hex'));
+  const options = parseHarmonyOptions(c.req.query.bind(c.req));
+  const angle = parseIntParam(c.req.query('angle'), 'angle', { min: 1, max: 180, defaultValue: 30 });
+  const limit = parseIntParam(c.req.query('limit'), 'limit', { min: 1, max: 20, defaultValue: 6 });
+  const locale = c.get('locale'); // REFACTOR-023: parsed once by localeMiddleware
+  const excludeIdsRaw = c.req.query('excludeIds');
+
+  // Dye type/acquisition filters
+  const filters = parseDyeFilters(c.req.query.bind(c.req));
+
+  let dyes = generateHarmony(hex, type, options, { angle, limit });
+
+  if (excludeIdsRaw) {
+    const excludeInternalIds = new Set(resolveExcludeIds(excludeIdsRaw));
+    dyes = dyes.filter((d) => !excludeInternalIds.has(d.id));
+  }
+  dyes = applyDyeFilters(dyes, filters);
+
+  // The anchor every scheme rotates from (core snaps the input to its closest dye first)
+  const baseDye = dyeService.findClosestDye(hex);
+
+  c.header('Cache-Control', STATIC_CACHE_CONTROL);
+  return successResponse(c, {
+    type,
+    inputHex: hex,
+    baseDye: baseDye ? serializeDye(baseDye, localizedNameFor(baseDye, locale)) : null,
+    dyes: dyes.map((dye) => serializeDye(dye, localizedNameFor(dye, locale))),
+    options: {
+      ...options,
+      ...(type === 'analogous' && { angle }),
+      ...(type === 'monochromatic' && { limit }),
+    },
+    resultCount: dyes.length,
+  }, locale);
+});
+
+// ============================================================================
+// Harmony dispatch helper
+// ============================================================================
+
+function generateHarmony(
+  hex: string,
+  type: ValidHarmonyType,
+  options: HarmonyOptions,
+  extra: { angle: number; limit: number },
+): Dye[] {
+  switch (type) {
+    case 'complementary': {
+      const dye = dyeService.findComplementaryPair(hex, options);
+      return dye ? [dye] : [];
+    }
+    case 'analogous':
+      return dyeService.findAnalogousDyes(hex, extra.angle, options);
+    case 'triadic':
+      return dyeService.findTriadicDyes(hex, options);
+    case 'square':
+      return dyeService.findSquareDyes(hex, options);
+    case 'tetradic':
+      return dyeService.findTetradicDyes(hex, options);
+    case 'monochromatic':
+      return dyeService.findMonochromaticDyes(hex, extra.limit, options);
+    case 'compound':
+      return dyeService.findCompoundDyes(hex, options);
+    case 'split-complementary':
+      return dyeService.findSplitComplementaryDyes(hex, options);
+    case 'shades':
+      return dyeService.findShadesDyes(hex, options);
+  }
+}
+
+export { harmonyRouter };
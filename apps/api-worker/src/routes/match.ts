@@ -4,42 +4,79 @@
  * Both endpoints recalculate distance for the response since the core
  * findClosestDye/findDyesWithinDistance methods return Dye objects
  * without distance values.
+ *
+ * /closest optionally attaches market prices (world/datacenter) and can
+ * restrict the match to dyes listed at or below maxMarketPrice.
+ *
+ * POST /batch matches up to 100 colors in one request; each color takes the
+ * same options as /closest (plus `count`), so whole outfit palettes cost a
+ * single request weighted by size against the rate limiter.
  */
 
 import { Hono } from 'hono';
 import type { Env, Variables } from '../types.js';
 import type { FindClosestOptions, FindWithinDistanceOptions } from '@xivdyetools/core';
-import { dyeService, calculateDistance } from '../lib/services.js';
-import { serializeDyeWithDistance, localizedNameFor } from '../lib/dye-serializer.js';
-import { ErrorCode } from '../lib/api-error.js';
+import type { Dye } from '@xivdyetools/types';
+import { dyeService, calculateDistance, findClosestDyes } from '../lib/services.js';
+import { serializeDyeWithDistance, localizedNameFor, type ApiDye } from '../lib/dye-serializer.js';
+import { ApiError, ErrorCode } from '../lib/api-error.js';
+import {
+  parseMarketScope,
+  fetchDyeMarketPrices,
+  MARKET_CACHE_CONTROL,
+  type MarketPrice,
+} from '../lib/universalis.js';
 import {
   parseHex,
   parseFloatParam,
   parseIntParam,
   parseMatchingMethod,
+  parseOklchWeights,
   resolveExcludeIds,
   parseDyeFilters,
   buildFilterExcludeIds,
   applyDyeFilters,
+  jsonQuery,
 } from '../lib/validation.js';
 import { successResponse } from '../lib/response.js';
+import { STATIC_CACHE_CONTROL } from '../lib/cache.js';
 
 const matchRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
 
+/** Maximum colors per POST /batch request */
+export const MAX_BATCH_COLORS = 100;
+
+/**
+ * Maximum POST /batch body size: 1 KiB per color leaves room for per-item
+ * options (weights, exclude lists) and top-level defaults.
+ */
+export const MAX_BATCH_BODY_BYTES = MAX_BATCH_COLORS * 1024;
+
 // ============================================================================
 // GET /closest — Find the single closest dye to a hex color
 // ============================================================================
 
-matchRouter.get('/closest', (c) => {
+matchRouter.get('/closest', async (c) => {
   const hex = parseHex(c.req.query('hex'));
   const method = parseMatchingMethod(c.req.query('method'));
   const locale = c.get('locale'); // REFACTOR-023: parsed once by localeMiddleware
   const excludeIdsRaw = c.req.query('excludeIds');
 
+  // Market enrichment / "closest affordable dye"
+  const marketScope = parseMarketScope(c.req.query.bind(c.req));
+  const maxMarketPriceRaw = c.req.query('maxMarketPrice');
+  const maxMarketPrice = maxMarketPriceRaw
+    ? parseIntParam(maxMarketPriceRaw, 'maxMarketPrice', { min: 0 })
+    : undefined;
+  if (maxMarketPrice !== undefined && !marketScope) {
+    throw new ApiError(ErrorCode.MISSING_PARAMETER, 'maxMarketPrice requires a "world" or "datacenter" parameter.', 400, {
+      parameter: 'world',
+      required: true,
+    });
+  }
+
   // OKLCH weights (only meaningful for oklch-weighted method)
-  const kL = parseFloatParam(c.req.query('kL'), 'kL', { min: 0, defaultValue: 1.0 });
-  const kC = parseFloatParam(c.req.query('kC'), 'kC', { min: 0, defaultValue: 1.0 });
-  const kH = parseFloatParam(c.req.query('kH'), 'kH', { min: 0, defaultValue: 1.0 });
+  const weights = parseOklchWeights(c.req.query.bind(c.req), method);
 
   // Dye type/acquisition filters
   const filters = parseDyeFilters(c.req.query.bind(c.req));
@@ -47,10 +84,42 @@ matchRouter.get('/closest', (c) => {
   const userExcludeIds = excludeIdsRaw ? resolveExcludeIds(excludeIdsRaw) : [];
   const combinedExcludeIds = [...userExcludeIds, ...filterExcludeIds];
 
+  if (marketScope && maxMarketPrice !== undefined) {
+    // Rank every candidate, price them in one batch, take the closest affordable one
+    const excluded = new Set(combinedExcludeIds);
+    const candidates = dyeService
+      .getAllDyes()
+      .filter((d) => d.category !== 'Facewear' && !excluded.has(d.id))
+      .map((d) => ({ dye: d, distance: calculateDistance(hex, d.hex, method, weights) }))
+      .sort((a, b) => a.distance - b.distance);
+    const prices = await fetchDyeMarketPrices(c.env, marketScope, candidates.map((m) => m.dye));
+
+    const pick = candidates.find((m) => {
+      const price = prices.get(m.dye.id);
+      return price != null && price.minPrice <= maxMarketPrice;
+    });
+    if (!pick) {
+      throw new ApiError(
+        ErrorCode.NOT_FOUND,
+        `No matching dye is listed at or below ${maxMarketPrice} gil on ${marketScope}.`,
+        404,
+        { world: marketScope, maxMarketPrice },
+      );
+    }
+
+    c.header('Cache-Control', MARKET_CACHE_CONTROL);
+    return successResponse(c, {
+      ...closestPayload(pick.dye, pick.distance, localizedNameFor(pick.dye, locale), prices.get(pick.dye.id) ?? null),
+      method,
+      inputHex: hex,
+      maxMarketPrice,
+    }, locale);
+  }
+
   const options: FindClosestOptions = {
     excludeIds: combinedExcludeIds.length > 0 ? combinedExcludeIds : undefined,
     matchingMethod: method,
-    weights: method === 'oklch-weighted' ? { kL, kC, kH } : undefined,
+    weights,
   };
 
   const dye = dyeService.findClosestDye(hex, options);
@@ -71,12 +140,21 @@ matchRouter.get('/closest', (c) => {
   }
 
   // Recalculate distance for the response (core doesn't return it)
-  const distance = calculateDistance(hex, dye.hex, method,
-    method === 'oklch-weighted' ? { kL, kC, kH } : undefined);
+  const distance = calculateDistance(hex, dye.hex, method, weights);
 
   const localizedName = localizedNameFor(dye, locale);
 
-  c.header('Cache-Control', 'public, max-age=3600, s-maxage=86400');
+  if (marketScope) {
+    const prices = await fetchDyeMarketPrices(c.env, marketScope, [dye]);
+    c.header('Cache-Control', MARKET_CACHE_CONTROL);
+    return successResponse(c, {
+      ...closestPayload(dye, distance, localizedName, prices.get(dye.id) ?? null),
+      method,
+      inputHex: hex,
+    }, locale);
+  }
+
+  c.header('Cache-Control', STATIC_CACHE_CONTROL);
   return successResponse(c, {
     ...serializeDyeWithDistance(dye, distance, localizedName),
     method,
@@ -84,6 +162,83 @@ matchRouter.get('/closest', (c) => {
   }, locale);
 });
 
+// ============================================================================
+// POST /batch — Top-k closest dyes for many colors in one request
+// ============================================================================
+
+matchRouter.post('/batch', async (c) => {
+  const locale = c.get('locale'); // REFACTOR-023: parsed once by localeMiddleware
+
+  const body = await c.req.json<unknown>().catch(() => undefined);
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Request body must be a JSON object with a "colors" array.', 400, {
+      parameter: 'body',
+    });
+  }
+
+  // Top-level fields (other than colors) are defaults for every item
+  const { colors, ...defaults } = body as Record<string, unknown>;
+  if (colors === undefined) {
+    throw new ApiError(ErrorCode.MISSING_PARAMETER, 'Missing required field: colors', 400, {
+      parameter: 'colors',
+      required: true,
+    });
+  }
+  if (!Array.isArray(colors) || colors.length === 0) {
+    throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Field "colors" must be a non-empty array.', 400, {
+      parameter: 'colors',
+    });
+  }
+  if (colors.length > MAX_BATCH_COLORS) {
+    throw new ApiError(ErrorCode.VALIDATION_ERROR, `Field "colors" exceeds maximum of ${MAX_BATCH_COLORS} items.`, 400, {
+      parameter: 'colors',
+      received: colors.length,
+      expected: `<= ${MAX_BATCH_COLORS} items`,
+    });
+  }
+
+  const results = colors.map((item: unknown, index) => {
+    try {
+      // A bare string is shorthand for { hex }
+      const fields = typeof item === 'string' ? { hex: item } : item;
+      if (typeof fields !== 'object' || fields === null || Array.isArray(fields)) {
+        throw new ApiError(ErrorCode.VALIDATION_ERROR, 'Each color must be a hex string or an object.', 400);
+      }
+      const query = jsonQuery(fields as Record<string, unknown>, defaults);
+
+      const hex = parseHex(query('hex'));
+      const method = parseMatchingMethod(query('method'));
+      const count = parseIntParam(query('count'), 'count', { min: 1, max: 10, defaultValue: 1 });
+      const weights = parseOklchWeights(query, method);
+
+      // Dye type/acquisition filters
+      const filterExcludeIds = buildFilterExcludeIds(parseDyeFilters(query));
+      const excludeIdsRaw = query('excludeIds');
+      const userExcludeIds = excludeIdsRaw ? resolveExcludeIds(excludeIdsRaw) : [];
+
+      // findClosestDyes walks the DyeService k-d tree once per pick
+      const matches = findClosestDyes(hex, method, count, [...userExcludeIds, ...filterExcludeIds], weights);
+
+      return {
+        inputHex: hex,
+        method,
+        matches: matches.map((m) => serializeDyeWithDistance(m.dye, m.distance, localizedNameFor(m.dye, locale))),
+      };
+    } catch (err) {
+      // Point the client at the offending item
+      if (err instanceof ApiError) {
+        throw new ApiError(err.code, `colors[${index}]: ${err.message}`, err.statusCode, {
+          index,
+          ...(typeof err.details === 'object' && err.details !== null ? err.details : {}),
+        });
+      }
+      throw err;
+    }
+  });
+
+  return successResponse(c, { count: results.length, results }, locale);
+});
+
 // ============================================================================
 // GET /within-distance — Find all dyes within a distance threshold
 // ============================================================================
@@ -96,11 +251,7 @@ matchRouter.get('/within-distance', (c) => {
   const locale = c.get('locale'); // REFACTOR-023: parsed once by localeMiddleware
   const excludeIdsRaw = c.req.query('excludeIds');
 
-  const kL = parseFloatParam(c.req.query('kL'), 'kL', { min: 0, defaultValue: 1.0 });
-  const kC = parseFloatParam(c.req.query('kC'), 'kC', { min: 0, defaultValue: 1.0 });
-  const kH = parseFloatParam(c.req.query('kH'), 'kH', { min: 0, defaultValue: 1.0 });
-
-  const weights = method === 'oklch-weighted' ? { kL, kC, kH } : undefined;
+  const weights = parseOklchWeights(c.req.query.bind(c.req), method);
 
   // Dye type/acquisition filters
   const filters = parseDyeFilters(c.req.query.bind(c.req));
@@ -140,7 +291,7 @@ matchRouter.get('/within-distance', (c) => {
   // Sort by distance (should already be sorted from core, but ensure it)
   results.sort((a, b) => a.distance - b.distance);
 
-  c.header('Cache-Control', 'public, max-age=3600, s-maxage=86400');
+  c.header('Cache-Control', STATIC_CACHE_CONTROL);
   return successResponse(c, {
     results,
     inputHex: hex,
@@ -150,4 +301,19 @@ matchRouter.get('/within-distance', (c) => {
   }, locale);
 });
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** serializeDyeWithDistance() with the market data nested into the dye. */
+function closestPayload(
+  dye: Dye,
+  distance: number,
+  localizedName: string | undefined,
+  market: MarketPrice | null,
+): { dye: ApiDye & { market: MarketPrice | null }; distance: number } {
+  const serialized = serializeDyeWithDistance(dye, distance, localizedName);
+  return { ...serialized, dye: { ...serialized.dye, market } };
+}
+
 export { matchRouter };
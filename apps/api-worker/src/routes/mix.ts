@@ -0,0 +1,66 @@
+/**
+ * Mix route — blends two colors and ranks the closest dyes to the result.
+ *
+ * Mirrors the Discord /mixer command and the web-app mixer tool.
+ */
+
+import { Hono } from 'hono';
+import type { Env, Variables } from '../types.js';
+import { interpolateColor, findClosestDyes } from '../lib/services.js';
+import { serializeDyeWithDistance, localizedNameFor } from '../lib/dye-serializer.js';
+import {
+  parseHex,
+  parseIntParam,
+  parseFloatParam,
+  parseEnumParam,
+  parseMatchingMethod,
+  parseOklchWeights,
+  resolveExcludeIds,
+  parseDyeFilters,
+  buildFilterExcludeIds,
+  VALID_BLENDING_MODES,
+} from '../lib/validation.js';
+import { successResponse } from '../lib/response.js';
+import { STATIC_CACHE_CONTROL } from '../lib/cache.js';
+
+const mixRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// ============================================================================
+// GET / — Blend two colors and find the closest dyes
+// ============================================================================
+
+mixRouter.get('/', (c) => {
+  const hex1 = parseHex(c.req.query('hex1'), 'hex1');
+  const hex2 = parseHex(c.req.query('hex2'), 'hex2');
+  const mode = parseEnumParam(c.req.query('mode'), 'mode', VALID_BLENDING_MODES, 'rgb');
+  const ratio = parseFloatParam(c.req.query('ratio'), 'ratio', { min: 0, max: 1, defaultValue: 0.5 });
+  const count = parseIntParam(c.req.query('count'), 'count', { min: 1, max: 10, defaultValue: 1 });
+  const method = parseMatchingMethod(c.req.query('method'));
+  const weights = parseOklchWeights(c.req.query.bind(c.req), method);
+  const locale = c.get('locale'); // REFACTOR-023: parsed once by localeMiddleware
+  const excludeIdsRaw = c.req.query('excludeIds');
+
+  // Dye type/acquisition filters
+  const filters = parseDyeFilters(c.req.query.bind(c.req));
+  const filterExcludeIds = buildFilterExcludeIds(filters);
+  const userExcludeIds = excludeIdsRaw ? resolveExcludeIds(excludeIdsRaw) : [];
+  const combinedExcludeIds = [...userExcludeIds, ...filterExcludeIds];
+
+  const blendedHex = interpolateColor(hex1, hex2, ratio, mode);
+  const matches = findClosestDyes(blendedHex, method, count, combinedExcludeIds, weights);
+
+  c.header('Cache-Control', STATIC_CACHE_CONTROL);
+  return successResponse(c, {
+    hex1,
+    hex2,
+    ratio,
+    mode,
+    method,
+    blendedHex,
+    matches: matches.map((m) =>
+      serializeDyeWithDistance(m.dye, m.distance, localizedNameFor(m.dye, locale)),
+    ),
+  }, locale);
+});
+
+export { mixRouter };
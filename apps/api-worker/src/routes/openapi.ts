@@ -0,0 +1,1084 @@
+/**
+ * OpenAPI route — machine-readable description of the public API.
+ *
+ * The document is assembled from the same constants the validators enforce
+ * (enum lists, the hex and world-name patterns, batch/color limits) and its
+ * schemas mirror the serializers in lib/. tests/routes/openapi.test.ts keeps
+ * it honest: every registered route must be documented, every documented
+ * bound and enum is probed against the live validators, and the document
+ * itself is pinned to openapi.json so any contract change fails the suite
+ * until the snapshot is deliberately updated (`pnpm test -u`).
+ */
+
+import { Hono } from 'hono';
+import { MAX_FILE_SIZE_BYTES, MAX_IMAGE_DIMENSION } from '@xivdyetools/image';
+import type { Env, Variables } from '../types.js';
+import { ErrorCode } from '../lib/api-error.js';
+import { API_WORKER_VERSION, STATIC_CACHE_CONTROL } from '../lib/cache.js';
+import { SCOPE_PATTERN } from '../lib/universalis.js';
+import { BATCH_COLORS_PER_UNIT } from '../middleware/rate-limit.js';
+import {
+  HEX_PATTERN,
+  VALID_LOCALES,
+  VALID_MATCHING_METHODS,
+  VALID_SORT_FIELDS,
+  VALID_ORDERS,
+  VALID_CONSOLIDATION_TYPES,
+  VALID_HARMONY_TYPES,
+  VALID_HARMONY_ALGORITHMS,
+  VALID_HARMONY_COLOR_SPACES,
+  VALID_HARMONY_DELTA_E_FORMULAS,
+  VALID_BLENDING_MODES,
+  VALID_INTERPOLATION_MODES,
+  VALID_VISION_TYPES,
+  VALID_CHARACTER_CATEGORIES,
+  VALID_CLANS,
+  VALID_GENDERS,
+} from '../lib/validation.js';
+import { MAX_BATCH_BODY_BYTES, MAX_BATCH_COLORS } from './match.js';
+import { MAX_COMPARE_DYES } from './dyes.js';
+import { MAX_COLORS as MAX_ACCESSIBILITY_COLORS } from './accessibility.js';
+
+/** Tracks the api-worker release — bump API_WORKER_VERSION with every contract change */
+export const OPENAPI_DOCUMENT_VERSION = API_WORKER_VERSION;
+
+type Schema = Record<string, unknown>;
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: Schema;
+  servers: Schema[];
+  externalDocs: Schema;
+  tags: Schema[];
+  paths: Record<string, Record<string, Schema>>;
+  components: { schemas: Record<string, Schema>; responses: Record<string, Schema> };
+}
+
+interface Parameter {
+  name: string;
+  in: 'query' | 'path' | 'header';
+  required?: boolean;
+  description: string;
+  schema: Schema;
+  style?: 'form';
+  explode?: boolean;
+  example?: string | number;
+}
+
+// ============================================================================
+// Schema helpers
+// ============================================================================
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+
+const nullable = (schema: Schema): Schema => ({ oneOf: [schema, { type: 'null' }] });
+
+function object(properties: Record<string, Schema>, optional: string[] = []): Schema {
+  return {
+    type: 'object',
+    required: Object.keys(properties).filter((key) => !optional.includes(key)),
+    properties,
+  };
+}
+
+const hexString: Schema = { type: 'string', pattern: HEX_PATTERN.source };
+
+/** Standard success envelope around `data` */
+function success(data: Schema, paginated = false): Schema {
+  return {
+    type: 'object',
+    required: ['success', 'data', ...(paginated ? ['pagination'] : []), 'meta'],
+    properties: {
+      success: { const: true },
+      data,
+      ...(paginated && { pagination: ref('Pagination') }),
+      meta: ref('Meta'),
+    },
+  };
+}
+
+// ============================================================================
+// Parameter helpers
+// ============================================================================
+
+function query(name: string, description: string, schema: Schema, extra: Partial<Parameter> = {}): Parameter {
+  return { name, in: 'query', description, schema, ...extra };
+}
+
+function path(name: string, description: string, schema: Schema, example: string | number): Parameter {
+  return { name, in: 'path', required: true, description, schema, example };
+}
+
+function hexParam(name = 'hex', description = 'Hex color (#RRGGBB or RRGGBB)', example = 'FF6B6B'): Parameter {
+  return query(name, description, hexString, { required: true, example });
+}
+
+const ifNoneMatchParam: Parameter = {
+  name: 'If-None-Match',
+  in: 'header',
+  description: 'ETag from an earlier response — a match returns 304 Not Modified',
+  schema: { type: 'string' },
+};
+
+const localeParam = query('locale', 'Locale for `localizedName` (response `meta.locale` echoes non-English locales)', {
+  type: 'string',
+  enum: [...VALID_LOCALES],
+  default: 'en',
+});
+
+const methodParam = query('method', 'Color distance algorithm', {
+  type: 'string',
+  enum: [...VALID_MATCHING_METHODS],
+  default: 'oklab',
+});
+
+const weightParams = [
+  query('kL', 'Lightness weight for `oklch-weighted`', { type: 'number', minimum: 0, default: 1 }),
+  query('kC', 'Chroma weight for `oklch-weighted`', { type: 'number', minimum: 0, default: 1 }),
+  query('kH', 'Hue weight for `oklch-weighted`', { type: 'number', minimum: 0, default: 1 }),
+];
+
+const excludeIdsParam = query('excludeIds', 'Comma-separated dye IDs (any ID type) to exclude, at most 50', {
+  type: 'string',
+});
+
+const FILTER_DESCRIPTIONS: Record<string, string> = {
+  metallic: 'Only metallic (true) or non-metallic (false) dyes',
+  pastel: 'Only pastel (true) or non-pastel (false) dyes',
+  dark: 'Only dark (true) or non-dark (false) dyes',
+  cosmic: 'Only Cosmic Exploration (true) or non-Cosmic (false) dyes',
+  ishgardian: 'Only Ishgardian Restoration (true) or non-Ishgardian (false) dyes',
+  vendor: 'Only vendor-sold (true) or non-vendor (false) dyes',
+  craft: 'Only crafted (true) or non-crafted (false) dyes',
+  expensive: 'Only expensive (true) or non-expensive (false) dyes',
+};
+
+const filterParams = Object.entries(FILTER_DESCRIPTIONS).map(([name, description]) =>
+  query(name, description, { type: 'boolean' }),
+);
+
+const marketParams = [
+  query('world', 'Attach Universalis market prices for this world (or datacenter)', {
+    type: 'string',
+    pattern: SCOPE_PATTERN.source,
+  }),
+  query('datacenter', 'Attach Universalis market prices for this datacenter (alias of `world`; give only one)', {
+    type: 'string',
+    pattern: SCOPE_PATTERN.source,
+  }),
+];
+
+/** Parameters shared by every color-matching endpoint */
+const matchingParams = [methodParam, ...weightParams, excludeIdsParam, ...filterParams, localeParam];
+
+const clanParams = [
+  query('clan', 'Clan (required for `hair` and `skin`)', { type: 'string', enum: [...VALID_CLANS] }, {
+    example: 'Midlander',
+  }),
+  query('gender', 'Gender (required for `hair` and `skin`)', { type: 'string', enum: [...VALID_GENDERS] }, {
+    example: 'Female',
+  }),
+];
+
+const characterCategorySchema: Schema = { type: 'string', enum: [...VALID_CHARACTER_CATEGORIES] };
+
+// ============================================================================
+// Responses
+// ============================================================================
+
+function ok(description: string, schema: Schema): Schema {
+  return { description, content: { 'application/json': { schema } } };
+}
+
+const errorRef = (name: string): Schema => ({ $ref: `#/components/responses/${name}` });
+
+const standardErrors = {
+  '400': errorRef('BadRequest'),
+  '429': errorRef('RateLimited'),
+  '500': errorRef('InternalError'),
+};
+
+const withNotFound = { ...standardErrors, '404': errorRef('NotFound') };
+
+const withMarket = {
+  ...standardErrors,
+  '502': errorRef('UpstreamError'),
+  '503': errorRef('ServiceUnavailable'),
+};
+
+// ============================================================================
+// Component schemas (mirror lib/dye-serializer.ts, lib/universalis.ts, lib/response.ts)
+// ============================================================================
+
+const schemas: Record<string, Schema> = {
+  Dye: object(
+    {
+      itemID: { type: 'integer', description: 'Game item ID (negative for Facewear entries)' },
+      stainID: nullable({ type: 'integer' }),
+      id: { type: 'integer', description: 'Internal dye ID' },
+      name: { type: 'string' },
+      localizedName: { type: 'string', description: 'Present for non-English locales' },
+      hex: { type: 'string' },
+      rgb: object({ r: { type: 'integer' }, g: { type: 'integer' }, b: { type: 'integer' } }),
+      hsv: object({ h: { type: 'number' }, s: { type: 'number' }, v: { type: 'number' } }),
+      category: { type: 'string' },
+      acquisition: { type: 'string' },
+      cost: { type: 'integer' },
+      currency: nullable({ type: 'string' }),
+      isMetallic: { type: 'boolean' },
+      isPastel: { type: 'boolean' },
+      isDark: { type: 'boolean' },
+      isCosmic: { type: 'boolean' },
+      isIshgardian: { type: 'boolean' },
+      consolidationType: nullable({ type: 'string', enum: [...VALID_CONSOLIDATION_TYPES] }),
+      marketItemID: { type: 'integer', description: 'Item ID market listings are under (consolidated after Patch 7.5)' },
+    },
+    ['localizedName'],
+  ),
+  MarketPrice: object({
+    scope: { type: 'string' },
+    marketItemID: { type: 'integer' },
+    minPrice: { type: 'integer' },
+    averagePrice: { type: 'integer' },
+    listingCount: { type: 'integer', minimum: 0, description: 'Listings currently on the market board' },
+    lastUploadTime: nullable({ type: 'integer' }),
+  }),
+  MarketDye: {
+    allOf: [ref('Dye'), object({ market: nullable(ref('MarketPrice')) }, ['market'])],
+  },
+  DyeMatch: object({ dye: ref('Dye'), distance: { type: 'number' } }),
+  CharacterColor: object({
+    index: { type: 'integer', minimum: 0, description: '0-based palette index' },
+    row: { type: 'integer', minimum: 1, description: '1-based grid row' },
+    column: { type: 'integer', minimum: 1, maximum: 8, description: '1-based grid column' },
+    hex: { type: 'string' },
+  }),
+  ColorDifferences: object({
+    lab: object({ L: { type: 'number' }, a: { type: 'number' }, b: { type: 'number' } }),
+    oklch: object({
+      L: { type: 'number' },
+      C: { type: 'number' },
+      h: { type: 'number', minimum: -180, maximum: 180, description: 'Shorter-arc hue difference (0 for grays)' },
+    }),
+  }),
+  Pagination: object({
+    page: { type: 'integer' },
+    perPage: { type: 'integer' },
+    total: { type: 'integer' },
+    totalPages: { type: 'integer' },
+    hasNext: { type: 'boolean' },
+    hasPrev: { type: 'boolean' },
+  }),
+  Meta: object(
+    {
+      requestId: { type: 'string' },
+      apiVersion: { type: 'string' },
+      locale: { type: 'string', enum: [...VALID_LOCALES] },
+    },
+    ['locale'],
+  ),
+  Error: object(
+    {
+      success: { const: false },
+      error: { type: 'string', enum: Object.values(ErrorCode) },
+      message: { type: 'string' },
+      details: {},
+      retryAfter: { type: 'integer' },
+      meta: object({ requestId: { type: 'string' }, apiVersion: { type: 'string' } }),
+    },
+    ['details', 'retryAfter'],
+  ),
+  DyeSummary: object({
+    itemID: { type: 'integer' },
+    stainID: nullable({ type: 'integer' }),
+    name: { type: 'string' },
+  }),
+  HarmonyOptions: object(
+    {
+      algorithm: { type: 'string', enum: [...VALID_HARMONY_ALGORITHMS] },
+      colorSpace: { type: 'string', enum: [...VALID_HARMONY_COLOR_SPACES] },
+      deltaEFormula: { type: 'string', enum: [...VALID_HARMONY_DELTA_E_FORMULAS] },
+      hueTolerance: { type: 'number' },
+      deltaETolerance: { type: 'number' },
+      angle: { type: 'integer' },
+      limit: { type: 'integer' },
+    },
+    ['hueTolerance', 'deltaETolerance', 'angle', 'limit'],
+  ),
+};
+
+const errorResponse = (description: string): Schema => ({
+  description,
+  content: { 'application/json': { schema: ref('Error') } },
+});
+
+const responses = {
+  BadRequest: errorResponse('Invalid or missing parameter'),
+  NotFound: errorResponse('Resource not found'),
+  PayloadTooLarge: errorResponse(`Upload exceeds ${MAX_FILE_SIZE_BYTES / (1024 * 1024)} MB`),
+  RateLimited: errorResponse('Rate limit exceeded (see Retry-After)'),
+  InternalError: errorResponse('Unexpected server error'),
+  NotModified: { description: 'Representation unchanged since the `If-None-Match` ETag (no body)' },
+  UpstreamError: errorResponse('Market data service failed'),
+  ServiceUnavailable: errorResponse('Market data is not configured'),
+};
+
+// ============================================================================
+// Paths
+// ============================================================================
+
+const visionTypeSchema: Schema = { type: 'string', enum: [...VALID_VISION_TYPES] };
+const deltaEBySchema: Schema = {
+  type: 'object',
+  required: ['normal'],
+  properties: Object.fromEntries(['normal', ...VALID_VISION_TYPES].map((type) => [type, { type: 'number' }])),
+};
+
+/** Fields accepted per color (and as request-wide defaults) by POST /v1/match/batch */
+const batchOptionProperties: Record<string, Schema> = {
+  count: { type: 'integer', minimum: 1, maximum: 10, default: 1 },
+  method: { type: 'string', enum: [...VALID_MATCHING_METHODS], default: 'oklab' },
+  kL: { type: 'number', minimum: 0, default: 1 },
+  kC: { type: 'number', minimum: 0, default: 1 },
+  kH: { type: 'number', minimum: 0, default: 1 },
+  excludeIds: {
+    oneOf: [{ type: 'array', items: { type: 'integer' }, maxItems: 50 }, { type: 'string' }],
+  },
+  ...Object.fromEntries(Object.keys(FILTER_DESCRIPTIONS).map((name) => [name, { type: 'boolean' }])),
+};
+
+const paths = {
+  '/v1/dyes': {
+    get: {
+      operationId: 'listDyes',
+      tags: ['Dyes'],
+      summary: 'List dyes with filtering, sorting and pagination',
+      parameters: [
+        query('category', 'Filter by category name', { type: 'string' }),
+        excludeIdsParam,
+        query('minPrice', 'Minimum vendor cost', { type: 'integer', minimum: 0 }),
+        query('maxPrice', 'Maximum vendor cost', { type: 'integer', minimum: 0 }),
+        query('sort', 'Sort field', { type: 'string', enum: [...VALID_SORT_FIELDS] }),
+        query('order', 'Sort order', { type: 'string', enum: [...VALID_ORDERS], default: 'asc' }),
+        query('page', 'Page number', { type: 'integer', minimum: 1, default: 1 }),
+        query('perPage', 'Dyes per page', { type: 'integer', minimum: 1, maximum: 200, default: 50 }),
+        query('consolidationType', 'Patch 7.5 consolidation group', {
+          type: 'string',
+          enum: [...VALID_CONSOLIDATION_TYPES],
+        }),
+        ...filterParams,
+        ...marketParams,
+        localeParam,
+      ],
+      responses: {
+        '200': ok(
+          'Page of dyes (`market` is present when `world`/`datacenter` is given)',
+          success({ type: 'array', items: ref('MarketDye') }, true),
+        ),
+        ...withMarket,
+      },
+    },
+  },
+  '/v1/dyes/search': {
+    get: {
+      operationId: 'searchDyes',
+      tags: ['Dyes'],
+      summary: 'Search dyes by (localized) name',
+      parameters: [
+        query('q', 'Search text', { type: 'string', minLength: 1 }, { required: true, example: 'red' }),
+        localeParam,
+      ],
+      responses: {
+        '200': ok('Matching dyes', success({ type: 'array', items: ref('Dye') })),
+        ...standardErrors,
+      },
+    },
+  },
+  '/v1/dyes/categories': {
+    get: {
+      operationId: 'listDyeCategories',
+      tags: ['Dyes'],
+      summary: 'Dye categories with counts',
+      responses: {
+        '200': ok(
+          'Categories',
+          success({ type: 'array', items: object({ name: { type: 'string' }, count: { type: 'integer' } }) }),
+        ),
+        ...standardErrors,
+      },
+    },
+  },
+  '/v1/dyes/batch': {
+    get: {
+      operationId: 'getDyesBatch',
+      tags: ['Dyes'],
+      summary: 'Look up to 50 dyes by ID',
+      parameters: [
+        query('ids', 'Comma-separated IDs (at most 50)', { type: 'string' }, { required: true, example: '5729,5730' }),
+        query('idType', 'How to interpret the IDs', {
+          type: 'string',
+          enum: ['auto', 'item', 'stain'],
+          default: 'auto',
+        }),
+        localeParam,
+      ],
+      responses: {
+        '200': ok(
+          'Found dyes and unknown IDs',
+          success(object({
+            dyes: { type: 'array', items: ref('Dye') },
+            notFound: { type: 'array', items: { type: 'integer' } },
+          })),
+        ),
+        ...standardErrors,
+      },
+    },
+  },
+  '/v1/dyes/consolidation-groups': {
+    get: {
+      operationId: 'getConsolidationGroups',
+      tags: ['Dyes'],
+      summary: 'Patch 7.5 dye consolidation groups',
+      responses: {
+        '200': ok(
+          'Consolidation groups',
+          success(object({
+            consolidationActive: { type: 'boolean' },
+            groups: {
+              type: 'array',
+              items: object({
+                type: { type: 'string', enum: [...VALID_CONSOLIDATION_TYPES] },
+                consolidatedItemID: { type: 'integer' },
+                dyeCount: { type: 'integer' },
+                dyes: { type: 'array', items: ref('DyeSummary') },
+              }),
+            },
+            unconsolidated: object({
+              count: { type: 'integer' },
+              dyes: { type: 'array', items: ref('DyeSummary') },
+            }),
+          })),
+        ),
+        ...standardErrors,
+      },
+    },
+  },
+  '/v1/dyes/stain/{stainId}': {
+    get: {
+      operationId: 'getDyeByStainId',
+      tags: ['Dyes'],
+      summary: 'Look up a dye by stain ID',
+      parameters: [
+        path('stainId', 'Stain ID', { type: 'integer', minimum: 1 }, 1),
+        localeParam,
+      ],
+      responses: {
+        '200': ok('The dye', success(ref('Dye'))),
+        ...withNotFound,
+      },
+    },
+  },
+  '/v1/dyes/compare': {
+    get: {
+      operationId: 'compareDyes',
+      tags: ['Dyes'],
+      summary: 'Pairwise distance matrix between dyes',
+      parameters: [
+        query('ids', `Comma-separated IDs (any ID type), 2 to ${MAX_COMPARE_DYES}`, { type: 'string' }, {
+          required: true,
+          example: '5729,5730,5731',
+        }),
+        methodParam,
+        ...weightParams,
+        localeParam,
+      ],
+      responses: {
+        '200': ok(
+          '`matrix[i][j]` is the distance between `dyes[i]` and `dyes[j]` (symmetric, zero diagonal)',
+          success(object({
+            dyes: { type: 'array', items: ref('Dye') },
+            method: { type: 'string', enum: [...VALID_MATCHING_METHODS] },
+            matrix: { type: 'array', items: { type: 'array', items: { type: 'number' } } },
+          })),
+        ),
+        ...withNotFound,
+      },
+    },
+  },
+  '/v1/dyes/{id}': {
+    get: {
+      operationId: 'getDye',
+      tags: ['Dyes'],
+      summary: 'Look up a dye by item, stain or internal ID',
+      parameters: [
+        path('id', 'Item ID, stain ID or internal ID (detected from its range)', { type: 'integer' }, 5729),
+        localeParam,
+      ],
+      responses: {
+        '200': ok('The dye', success(ref('Dye'))),
+        ...withNotFound,
+      },
+    },
+  },
+  '/v1/dyes/{id}/similar': {
+    get: {
+      operationId: 'getSimilarDyes',
+      tags: ['Dyes'],
+      summary: 'Nearest other dyes to a dye',
+      parameters: [
+        path('id', 'Item ID, stain ID or internal ID (detected from its range)', { type: 'integer' }, 5729),
+        query('count', 'Number of dyes to return', { type: 'integer', minimum: 1, maximum: 20, default: 5 }),
+        ...matchingParams,
+      ],
+      responses: {
+        '200': ok(
+          'Closest dyes first, each with per-channel differences from the source dye',
+          success(object({
+            dye: ref('Dye'),
+            method: { type: 'string', enum: [...VALID_MATCHING_METHODS] },
+            results: {
+              type: 'array',
+              items: object({
+                dye: ref('Dye'),
+                distance: { type: 'number' },
+                differences: ref('ColorDifferences'),
+              }),
+            },
+          })),
+        ),
+        ...withNotFound,
+      },
+    },
+  },
+  '/v1/match/closest': {
+    get: {
+      operationId: 'matchClosest',
+      tags: ['Matching'],
+      summary: 'Closest dye to a hex color',
+      parameters: [
+        hexParam(),
+        ...matchingParams,
+        ...marketParams,
+        query('maxMarketPrice', 'Closest dye listed at or below this price (requires `world`/`datacenter`)', {
+          type: 'integer',
+          minimum: 0,
+        }),
+      ],
+      responses: {
+        '200': ok(
+          'Closest match (`dye.market` is present with `world`/`datacenter`)',
+          success({
+            type: 'object',
+            required: ['dye', 'distance', 'method', 'inputHex'],
+            properties: {
+              dye: ref('MarketDye'),
+              distance: { type: 'number' },
+              method: { type: 'string', enum: [...VALID_MATCHING_METHODS] },
+              inputHex: { type: 'string' },
+              maxMarketPrice: { type: 'integer' },
+            },
+          }),
+        ),
+        ...withNotFound,
+        ...withMarket,
+      },
+    },
+  },
+  '/v1/match/within-distance': {
+    get: {
+      operationId: 'matchWithinDistance',
+      tags: ['Matching'],
+      summary: 'All dyes within a distance of a hex color',
+      parameters: [
+        hexParam(),
+        query('maxDistance', 'Maximum distance', { type: 'number', minimum: 0.01 }, { required: true, example: 0.15 }),
+        query('limit', 'Maximum results', { type: 'integer', minimum: 1, maximum: 136, default: 20 }),
+        ...matchingParams,
+      ],
+      responses: {
+        '200': ok(
+          'Matches, closest first',
+          success(object({
+            results: { type: 'array', items: ref('DyeMatch') },
+            inputHex: { type: 'string' },
+            maxDistance: { type: 'number' },
+            method: { type: 'string', enum: [...VALID_MATCHING_METHODS] },
+            resultCount: { type: 'integer' },
+          })),
+        ),
+        ...standardErrors,
+      },
+    },
+  },
+  '/v1/match/batch': {
+    post: {
+      operationId: 'matchBatch',
+      tags: ['Matching'],
+      summary: `Top-k closest dyes for up to ${MAX_BATCH_COLORS} colors`,
+      description:
+        `Counts as one request weighted by size: one rate-limit unit per ${BATCH_COLORS_PER_UNIT} colors. ` +
+        'Top-level fields other than `colors` are defaults for every item. ' +
+        `Bodies over ${MAX_BATCH_BODY_BYTES} bytes are rejected with 413.`,
+      parameters: [localeParam],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['colors'],
+              properties: {
+                colors: {
+                  type: 'array',
+                  minItems: 1,
+                  maxItems: MAX_BATCH_COLORS,
+                  items: {
+                    oneOf: [
+                      hexString,
+                      {
+                        type: 'object',
+                        required: ['hex'],
+                        properties: { hex: hexString, ...batchOptionProperties },
+                      },
+                    ],
+                  },
+                },
+                ...batchOptionProperties,
+              },
+            },
+          },
+        },
+      },
+      responses: {
+        '200': ok(
+          'Matches per color, in request order',
+          success(object({
+            count: { type: 'integer' },
+            results: {
+              type: 'array',
+              items: object({
+                inputHex: { type: 'string' },
+                method: { type: 'string', enum: [...VALID_MATCHING_METHODS] },
+                matches: { type: 'array', items: ref('DyeMatch') },
+              }),
+            },
+          })),
+        ),
+        ...standardErrors,
+        '413': errorRef('PayloadTooLarge'),
+      },
+    },
+  },
+  '/v1/harmony': {
+    get: {
+      operationId: 'listHarmonyTypes',
+      tags: ['Color Tools'],
+      summary: 'Supported harmony types and options',
+      responses: {
+        '200': ok(
+          'Harmony types',
+          success(object({
+            types: {
+              type: 'array',
+              items: object({
+                type: { type: 'string', enum: [...VALID_HARMONY_TYPES] },
+                offsets: nullable({ type: 'array', items: { type: 'number' } }),
+              }),
+            },
+            algorithms: { type: 'array', items: { type: 'string' } },
+            colorSpaces: { type: 'array', items: { type: 'string' } },
+            deltaEFormulas: { type: 'array', items: { type: 'string' } },
+          })),
+        ),
+        ...standardErrors,
+      },
+    },
+  },
+  '/v1/harmony/{type}': {
+    get: {
+      operationId: 'getHarmony',
+      tags: ['Color Tools'],
+      summary: 'Harmony dye set for a base color',
+      parameters: [
+        path('type', 'Harmony scheme', { type: 'string', enum: [...VALID_HARMONY_TYPES] }, 'triadic'),
+        hexParam(),
+        query('algorithm', 'Dye matching algorithm', {
+          type: 'string',
+          enum: [...VALID_HARMONY_ALGORITHMS],
+          default: 'hue',
+        }),
+        query('colorSpace', 'Color space for hue rotation', {
+          type: 'string',
+          enum: [...VALID_HARMONY_COLOR_SPACES],
+          default: 'hsv',
+        }),
+        query('deltaEFormula', 'ΔE formula for the deltaE algorithm', {
+          type: 'string',
+          enum: [...VALID_HARMONY_DELTA_E_FORMULAS],
+          default: 'cie76',
+        }),
+        query('hueTolerance', 'Hue tolerance in degrees', { type: 'number', minimum: 0, maximum: 180 }),
+        query('deltaETolerance', 'ΔE tolerance', { type: 'number', minimum: 0.01, maximum: 100 }),
+        query('angle', 'Analogous angle', { type: 'integer', minimum: 1, maximum: 180, default: 30 }),
+        query('limit', 'Monochromatic dye count', { type: 'integer', minimum: 1, maximum: 20, default: 6 }),
+        excludeIdsParam,
+        ...filterParams,
+        localeParam,
+      ],
+      responses: {
+        '200': ok(
+          'Harmony dyes',
+          success(object({
+            type: { type: 'string', enum: [...VALID_HARMONY_TYPES] },
+            inputHex: { type: 'string' },
+            baseDye: nullable(ref('Dye')),
+            dyes: { type: 'array', items: ref('Dye') },
+            options: ref('HarmonyOptions'),
+            resultCount: { type: 'integer' },
+          })),
+        ),
+        ...standardErrors,
+      },
+    },
+  },
+  '/v1/gradient': {
+    get: {
+      operationId: 'getGradient',
+      tags: ['Color Tools'],
+      summary: 'Gradient between two colors, each step matched to a dye',
+      parameters: [
+        hexParam('start', 'Start color', 'FF0000'),
+        hexParam('end', 'End color', '0000FF'),
+        query('steps', 'Number of steps (including both ends)', {
+          type: 'integer',
+          minimum: 2,
+          maximum: 20,
+          default: 6,
+        }),
+        query('mode', 'Interpolation space', { type: 'string', enum: [...VALID_INTERPOLATION_MODES], default: 'hsv' }),
+        ...matchingParams,
+      ],
+      responses: {
+        '200': ok(
+          'Gradient steps',
+          success(object({
+            start: { type: 'string' },
+            end: { type: 'string' },
+            mode: { type: 'string', enum: [...VALID_INTERPOLATION_MODES] },
+            method: { type: 'string', enum: [...VALID_MATCHING_METHODS] },
+            steps: {
+              type: 'array',
+              items: object({
+                step: { type: 'integer' },
+                ratio: { type: 'number' },
+                hex: { type: 'string' },
+                match: nullable(ref('DyeMatch')),
+              }),
+            },
+          })),
+        ),
+        ...standardErrors,
+      },
+    },
+  },
+  '/v1/mix': {
+    get: {
+      operationId: 'mixColors',
+      tags: ['Color Tools'],
+      summary: 'Blend two colors and find the closest dyes',
+      parameters: [
+        hexParam('hex1', 'First color', 'FF0000'),
+        hexParam('hex2', 'Second color', '0000FF'),
+        query('mode', 'Blending algorithm', { type: 'string', enum: [...VALID_BLENDING_MODES], default: 'rgb' }),
+        query('ratio', 'Share of hex2 (0 = hex1, 1 = hex2)', { type: 'number', minimum: 0, maximum: 1, default: 0.5 }),
+        query('count', 'Number of matches', { type: 'integer', minimum: 1, maximum: 10, default: 1 }),
+        ...matchingParams,
+      ],
+      responses: {
+        '200': ok(
+          'Blend and matches',
+          success(object({
+            hex1: { type: 'string' },
+            hex2: { type: 'string' },
+            ratio: { type: 'number' },
+            mode: { type: 'string', enum: [...VALID_BLENDING_MODES] },
+            method: { type: 'string', enum: [...VALID_MATCHING_METHODS] },
+            blendedHex: { type: 'string' },
+            matches: { type: 'array', items: ref('DyeMatch') },
+          })),
+        ),
+        ...standardErrors,
+      },
+    },
+  },
+  '/v1/extract': {
+    post: {
+      operationId: 'extractPalette',
+      tags: ['Color Tools'],
+      summary: 'Dominant-color palette of an uploaded image, matched to dyes',
+      parameters: [
+        query('colors', 'Number of colors to extract', { type: 'integer', minimum: 1, maximum: 10, default: 4 }),
+        ...matchingParams,
+      ],
+      requestBody: {
+        required: true,
+        description: `PNG, JPEG, GIF, WebP or BMP; at most ${MAX_FILE_SIZE_BYTES / (1024 * 1024)} MB and ${MAX_IMAGE_DIMENSION}px per side`,
+        content: {
+          'image/*': { schema: { type: 'string', format: 'binary' } },
+          'application/octet-stream': { schema: { type: 'string', format: 'binary' } },
+        },
+      },
+      responses: {
+        '200': ok(
+          'Extracted palette',
+          success(object({
+            image: object({
+              format: { type: 'string' },
+              width: { type: 'integer' },
+              height: { type: 'integer' },
+            }),
+            method: { type: 'string', enum: [...VALID_MATCHING_METHODS] },
+            colorCount: { type: 'integer' },
+            palette: {
+              type: 'array',
+              items: object({
+                hex: { type: 'string' },
+                dominance: { type: 'number' },
+                pixelCount: { type: 'integer' },
+                match: nullable(ref('DyeMatch')),
+              }),
+            },
+          })),
+        ),
+        '413': errorRef('PayloadTooLarge'),
+        ...standardErrors,
+      },
+    },
+  },
+  '/v1/accessibility': {
+    get: {
+      operationId: 'getAccessibility',
+      tags: ['Color Tools'],
+      summary: 'WCAG contrast matrix and colorblind simulation',
+      description: `Provide \`ids\` and/or \`hex\`; at most ${MAX_ACCESSIBILITY_COLORS} colors in total.`,
+      parameters: [
+        query('ids', 'Comma-separated dye IDs', { type: 'string' }),
+        query('hex', 'Comma-separated hex colors', { type: 'string' }, { example: 'FF0000,0000FF' }),
+        query(
+          'visionTypes',
+          'Vision deficiencies to simulate (default: all)',
+          { type: 'array', items: visionTypeSchema },
+          { style: 'form', explode: false },
+        ),
+        query('deltaEFormula', 'ΔE formula', {
+          type: 'string',
+          enum: [...VALID_HARMONY_DELTA_E_FORMULAS],
+          default: 'cie2000',
+        }),
+        query('threshold', 'ΔE below which a pair is indistinguishable', {
+          type: 'number',
+          minimum: 0,
+          maximum: 100,
+          default: 10,
+        }),
+        localeParam,
+      ],
+      responses: {
+        '200': ok(
+          'Colors, simulations and pairwise contrast',
+          success(object({
+            colors: {
+              type: 'array',
+              items: object({
+                hex: { type: 'string' },
+                dye: nullable(ref('Dye')),
+                simulations: {
+                  type: 'object',
+                  properties: Object.fromEntries(VALID_VISION_TYPES.map((type) => [type, { type: 'string' }])),
+                },
+              }),
+            },
+            pairs: {
+              type: 'array',
+              items: object({
+                indices: { type: 'array', items: { type: 'integer' }, minItems: 2, maxItems: 2 },
+                hexes: { type: 'array', items: { type: 'string' }, minItems: 2, maxItems: 2 },
+                contrastRatio: { type: 'number' },
+                wcag: object({
+                  level: { type: 'string', enum: ['AAA', 'AA', 'FAIL'] },
+                  aa: { type: 'boolean' },
+                  aaLarge: { type: 'boolean' },
+                  aaa: { type: 'boolean' },
+                  aaaLarge: { type: 'boolean' },
+                }),
+                deltaE: deltaEBySchema,
+                indistinguishableUnder: {
+                  type: 'array',
+                  items: { type: 'string', enum: ['normal', ...VALID_VISION_TYPES] },
+                },
+              }),
+            },
+            options: object({
+              visionTypes: { type: 'array', items: visionTypeSchema },
+              deltaEFormula: { type: 'string', enum: [...VALID_HARMONY_DELTA_E_FORMULAS] },
+              threshold: { type: 'number' },
+            }),
+          })),
+        ),
+        ...withNotFound,
+      },
+    },
+  },
+  '/v1/character/colors/{category}': {
+    get: {
+      operationId: 'getCharacterColors',
+      tags: ['Character'],
+      summary: 'A character creator palette with the closest dyes per color',
+      parameters: [
+        path('category', 'Palette (`hair` and `skin` vary by clan and gender)', characterCategorySchema, 'hair'),
+        ...clanParams,
+        query('count', 'Dyes per color', { type: 'integer', minimum: 1, maximum: 5, default: 1 }),
+        ...matchingParams,
+      ],
+      responses: {
+        '200': ok(
+          'Every palette color in index order (`clan`/`gender` are null for shared palettes)',
+          success(object({
+            category: characterCategorySchema,
+            clan: nullable({ type: 'string', enum: [...VALID_CLANS] }),
+            gender: nullable({ type: 'string', enum: [...VALID_GENDERS] }),
+            grid: object({ columns: { type: 'integer' }, rows: { type: 'integer' } }),
+            method: { type: 'string', enum: [...VALID_MATCHING_METHODS] },
+            colors: {
+              type: 'array',
+              items: {
+                allOf: [ref('CharacterColor'), object({ matches: { type: 'array', items: ref('DyeMatch') } })],
+              },
+            },
+          })),
+        ),
+        ...standardErrors,
+      },
+    },
+  },
+  '/v1/character/match': {
+    get: {
+      operationId: 'matchCharacterColor',
+      tags: ['Character'],
+      summary: 'Closest dyes to one character creator color',
+      parameters: [
+        query('category', 'Palette (`hair` and `skin` vary by clan and gender)', characterCategorySchema, {
+          required: true,
+          example: 'hair',
+        }),
+        ...clanParams,
+        query('index', '0-based palette index (or give `row` and `column`)', { type: 'integer', minimum: 0 }, {
+          example: 47,
+        }),
+        query('row', '1-based grid row, with `column`', { type: 'integer', minimum: 1 }),
+        query('column', '1-based grid column, with `row`', { type: 'integer', minimum: 1, maximum: 8 }),
+        query('count', 'Number of dyes to return', { type: 'integer', minimum: 1, maximum: 10, default: 3 }),
+        ...matchingParams,
+      ],
+      responses: {
+        '200': ok(
+          'The palette color and its closest dyes',
+          success(object({
+            category: characterCategorySchema,
+            clan: nullable({ type: 'string', enum: [...VALID_CLANS] }),
+            gender: nullable({ type: 'string', enum: [...VALID_GENDERS] }),
+            color: ref('CharacterColor'),
+            method: { type: 'string', enum: [...VALID_MATCHING_METHODS] },
+            matches: { type: 'array', items: ref('DyeMatch') },
+          })),
+        ),
+        ...withNotFound,
+      },
+    },
+  },
+  '/v1/openapi.json': {
+    get: {
+      operationId: 'getOpenApiDocument',
+      tags: ['Meta'],
+      summary: 'This OpenAPI document',
+      responses: {
+        '200': ok('OpenAPI 3.1 document', { type: 'object' }),
+        '429': errorRef('RateLimited'),
+      },
+    },
+  },
+};
+
+// ============================================================================
+// Document
+// ============================================================================
+
+/** The OpenAPI 3.1 document for the public API (pure — no request state). */
+export function buildOpenApiDocument(): OpenApiDocument {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'XIV Dye Tools Public API',
+      version: OPENAPI_DOCUMENT_VERSION,
+      description: 'FFXIV dye database and color matching. Anonymous access, 60 requests/min per IP.',
+      license: { name: 'MIT', identifier: 'MIT' },
+    },
+    servers: [{ url: 'https://data.xivdyetools.app' }],
+    externalDocs: { url: 'https://data.xivdyetools.app/docs' },
+    tags: [
+      { name: 'Dyes' },
+      { name: 'Matching' },
+      { name: 'Color Tools' },
+      { name: 'Character' },
+      { name: 'Meta' },
+    ],
+    paths: withConditionalGet(paths),
+    components: { schemas, responses },
+  };
+}
+
+/**
+ * GET operations answer with an ETag and honour If-None-Match (see
+ * middleware/conditional.ts). Market-priced responses carry no ETag, so the
+ * 304 only ever follows a static one.
+ */
+function withConditionalGet(
+  operations: Record<string, Record<string, Schema>>,
+): Record<string, Record<string, Schema>> {
+  return Object.fromEntries(
+    Object.entries(operations).map(([route, methods]) => [
+      route,
+      Object.fromEntries(
+        Object.entries(methods).map(([method, op]) => {
+          if (method !== 'get') return [method, op];
+          const opResponses = op.responses as Record<string, Schema>;
+          return [
+            method,
+            {
+              ...op,
+              parameters: [...((op.parameters as Parameter[] | undefined) ?? []), ifNoneMatchParam],
+              responses: { '200': opResponses['200'], '304': errorRef('NotModified'), ...opResponses },
+            },
+          ];
+        }),
+      ),
+    ]),
+  );
+}
+
+// ============================================================================
+// GET / — Serve the document
+// ============================================================================
+
+const openapiRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// Built once per isolate — the document never varies by request
+let documentPayload: OpenApiDocument | null = null;
+
+openapiRouter.get('/', (c) => {
+  documentPayload ??= buildOpenApiDocument();
+  c.header('Cache-Control', STATIC_CACHE_CONTROL);
+  return c.json(documentPayload);
+});
+
+export { openapiRouter };
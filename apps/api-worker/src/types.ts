@@ -3,6 +3,10 @@ export interface Env {
   RATE_LIMIT: KVNamespace;
   ENVIRONMENT: string;
   API_VERSION: string;
+  /** Service binding to universalis-proxy (market price enrichment) */
+  UNIVERSALIS_PROXY?: Fetcher;
+  /** Fallback proxy URL for local development without the binding */
+  UNIVERSALIS_PROXY_URL?: string;
 }
 
 /** Hono context variables set by middleware */
@@ -10,4 +14,6 @@ export type Variables = {
   requestId: string;
   // OPT-001 (2026-04-28 audit): set by localeMiddleware on /v1/*
   locale: 'en' | 'ja' | 'de' | 'fr' | 'ko' | 'zh';
+  // Rate-limit units for this request (batch endpoints; defaults to 1)
+  rateLimitCost?: number;
 };
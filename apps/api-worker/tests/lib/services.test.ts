@@ -1,9 +1,16 @@
 /**
- * Services module tests — covers all calculateDistance switch branches
+ * Services module tests — covers all calculateDistance switch branches,
+ * closest-dye helpers, per-channel differences and color interpolation
  */
 
 import { describe, it, expect } from 'vitest';
-import { calculateDistance } from '../../src/lib/services.js';
+import {
+  calculateDistance,
+  findClosestWithDistance,
+  findClosestDyes,
+  colorDifferences,
+  interpolateColor,
+} from '../../src/lib/services.js';
 
 describe('calculateDistance', () => {
   const red = '#FF0000';
@@ -51,3 +58,73 @@ describe('calculateDistance', () => {
     expect(d).toBe(0);
   });
 });
+
+describe('findClosestWithDistance', () => {
+  it('returns the closest dye with its distance under the method', () => {
+    const match = findClosestWithDistance('#FF0000', 'ciede2000');
+    expect(match).not.toBeNull();
+    expect(match!.distance).toBe(calculateDistance('#FF0000', match!.dye.hex, 'ciede2000'));
+  });
+
+  it('honours excludeIds', () => {
+    const first = findClosestWithDistance('#FF0000', 'oklab')!;
+    const second = findClosestWithDistance('#FF0000', 'oklab', [first.dye.id])!;
+    expect(second.dye.id).not.toBe(first.dye.id);
+  });
+});
+
+describe('findClosestDyes', () => {
+  it('returns distinct dyes closest-first', () => {
+    const matches = findClosestDyes('#3366CC', 'oklab', 4);
+    expect(matches).toHaveLength(4);
+    expect(new Set(matches.map((m) => m.dye.id)).size).toBe(4);
+    for (let i = 1; i < matches.length; i++) {
+      expect(matches[i - 1].distance).toBeLessThanOrEqual(matches[i].distance);
+    }
+  });
+});
+
+describe('colorDifferences', () => {
+  it('is zero for identical colors', () => {
+    expect(colorDifferences('#3366CC', '#3366CC')).toEqual({
+      lab: { L: 0, a: 0, b: 0 },
+      oklch: { L: 0, C: 0, h: 0 },
+    });
+  });
+
+  it('is signed second-minus-first', () => {
+    const diff = colorDifferences('#000000', '#FFFFFF');
+    expect(diff.lab.L).toBeCloseTo(100, 0);
+    expect(diff.oklch.L).toBeCloseTo(1, 2);
+    expect(colorDifferences('#FFFFFF', '#000000').lab.L).toBeCloseTo(-100, 0);
+  });
+
+  it('takes the shorter hue arc', () => {
+    // Red (~29°) to magenta (~328°) is about -61°, not +299°
+    const diff = colorDifferences('#FF0000', '#FF00FF');
+    expect(diff.oklch.h).toBeLessThan(0);
+    expect(diff.oklch.h).toBeGreaterThan(-180);
+  });
+
+  it('ignores hue for achromatic colors', () => {
+    expect(colorDifferences('#808080', '#FF0000').oklch.h).toBe(0);
+  });
+});
+
+describe('interpolateColor', () => {
+  it('returns the endpoints at ratio 0 and 1', () => {
+    expect(interpolateColor('#FF0000', '#0000FF', 0, 'rgb')).toBe('#FF0000');
+    expect(interpolateColor('#FF0000', '#0000FF', 1, 'rgb')).toBe('#0000FF');
+  });
+
+  it('dispatches hue spaces to ColorService', () => {
+    for (const mode of ['hsv', 'lch', 'oklch'] as const) {
+      expect(interpolateColor('#FF0000', '#0000FF', 0.5, mode)).toMatch(/^#[0-9A-F]{6}$/);
+    }
+  });
+
+  it('dispatches blending modes to color-blending', () => {
+    expect(interpolateColor('#FF0000', '#0000FF', 0.5, 'rgb')).toBe('#800080');
+    expect(interpolateColor('#FFFF00', '#0000FF', 0.5, 'spectral')).toMatch(/^#[0-9A-F]{6}$/);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { dyeService } from '../../src/lib/services.js';
+import {
+  parseMarketScope,
+  fetchMarketPrices,
+  fetchDyeMarketPrices,
+} from '../../src/lib/universalis.js';
+import { ApiError } from '../../src/lib/api-error.js';
+import { createMockEnv, createMockUniversalisProxy } from '../test-utils.js';
+// Universalis v2 current-data response (`?entries=0`, as the proxy requests it)
+import currentData from '../fixtures/universalis-current.json';
+
+function query(params: Record<string, string>) {
+  return (name: string) => params[name];
+}
+
+/**
+ * Mock proxy answering the listings route with `body` (a current-data
+ * response) and the aggregated route like createMockUniversalisProxy
+ */
+function proxyWithCurrentData(body: unknown) {
+  const aggregated = createMockUniversalisProxy();
+  const fetch = vi.fn(async (request: Request) =>
+    new URL(request.url).pathname.startsWith('/api/v2/listings/')
+      ? new Response(JSON.stringify(body))
+      : aggregated.fetch(request),
+  );
+  return { fetch } as unknown as Fetcher;
+}
+
+describe('parseMarketScope', () => {
+  it('returns undefined when no scope is given', () => {
+    expect(parseMarketScope(query({}))).toBeUndefined();
+  });
+
+  it('accepts world or datacenter', () => {
+    expect(parseMarketScope(query({ world: 'Cactuar' }))).toBe('Cactuar');
+    expect(parseMarketScope(query({ datacenter: ' Crystal ' }))).toBe('Crystal');
+  });
+
+  it('rejects both at once', () => {
+    expect(() => parseMarketScope(query({ world: 'Cactuar', datacenter: 'Aether' }))).toThrow(ApiError);
+  });
+
+  it('rejects names that cannot be worlds', () => {
+    expect(() => parseMarketScope(query({ world: '../admin' }))).toThrow(ApiError);
+    expect(() => parseMarketScope(query({ world: 'A' }))).toThrow(ApiError);
+  });
+});
+
+describe('fetchMarketPrices', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('maps the aggregated and listings responses through the service binding', async () => {
+    const proxy = createMockUniversalisProxy((id) => id);
+    const prices = await fetchMarketPrices(createMockEnv({ UNIVERSALIS_PROXY: proxy }), 'Cactuar', [5730, 5729]);
+
+    const paths = proxy.fetch.mock.calls.map(([request]) => new URL((request as Request).url).pathname);
+    expect(paths).toEqual(['/api/v2/aggregated/Cactuar/5729,5730', '/api/v2/listings/Cactuar/5729,5730']);
+
+    expect(prices.get(5729)).toEqual({
+      scope: 'Cactuar',
+      marketItemID: 5729,
+      minPrice: 5729,
+      averagePrice: Math.round(5729 * 1.5),
+      listingCount: 7,
+      lastUploadTime: 1700000000000,
+    });
+  });
+
+  it('batches requests of more than 100 items', async () => {
+    const proxy = createMockUniversalisProxy();
+    const ids = Array.from({ length: 150 }, (_, i) => 10000 + i);
+    const prices = await fetchMarketPrices(createMockEnv({ UNIVERSALIS_PROXY: proxy }), 'Crystal', ids);
+
+    expect(proxy.fetch).toHaveBeenCalledTimes(4);
+    expect(prices.size).toBe(150);
+  });
+
+  it('reads listing counts from a Universalis current-data response', async () => {
+    const proxy = proxyWithCurrentData(currentData);
+    const prices = await fetchMarketPrices(createMockEnv({ UNIVERSALIS_PROXY: proxy }), 'Cactuar', [52254, 52255]);
+
+    expect(prices.get(52254)?.listingCount).toBe(3);
+    expect(prices.get(52255)?.listingCount).toBe(2);
+  });
+
+  it('reads the listing count from single-item current-data responses', async () => {
+    const proxy = proxyWithCurrentData(currentData.items['52254']);
+    const prices = await fetchMarketPrices(createMockEnv({ UNIVERSALIS_PROXY: proxy }), 'Cactuar', [52254]);
+
+    expect(prices.get(52254)?.listingCount).toBe(3);
+  });
+
+  it('omits items without listings and skips Facewear IDs', async () => {
+    const proxy = createMockUniversalisProxy((id) => (id === 5730 ? null : 100));
+    const prices = await fetchMarketPrices(createMockEnv({ UNIVERSALIS_PROXY: proxy }), 'Crystal', [5729, 5730, -1]);
+
+    expect([...prices.keys()]).toEqual([5729]);
+  });
+
+  it('falls back to the proxy URL without a binding', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ results: [] })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await fetchMarketPrices(createMockEnv({ UNIVERSALIS_PROXY_URL: 'http://localhost:8787' }), 'Crystal', [5729]);
+
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:8787/api/v2/aggregated/Crystal/5729', expect.anything());
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:8787/api/v2/listings/Crystal/5729', expect.anything());
+  });
+
+  it('throws SERVICE_UNAVAILABLE when the proxy is not configured', async () => {
+    await expect(fetchMarketPrices(createMockEnv(), 'Crystal', [5729])).rejects.toMatchObject({
+      code: 'SERVICE_UNAVAILABLE',
+      statusCode: 503,
+    });
+  });
+
+  it('maps a proxy 400 (unknown world) to VALIDATION_ERROR', async () => {
+    const proxy = createMockUniversalisProxy(undefined, 400);
+    await expect(
+      fetchMarketPrices(createMockEnv({ UNIVERSALIS_PROXY: proxy }), 'Narnia', [5729]),
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR', statusCode: 400 });
+  });
+
+  it('maps other proxy failures to UPSTREAM_ERROR', async () => {
+    const proxy = createMockUniversalisProxy(undefined, 500);
+    await expect(
+      fetchMarketPrices(createMockEnv({ UNIVERSALIS_PROXY: proxy }), 'Crystal', [5729]),
+    ).rejects.toMatchObject({ code: 'UPSTREAM_ERROR', statusCode: 502 });
+  });
+});
+
+describe('fetchDyeMarketPrices', () => {
+  it('keys prices by dye.id and shares consolidated listings', async () => {
+    const proxy = createMockUniversalisProxy((id) => id);
+    const dyes = dyeService.getAllDyes().filter((d) => d.category !== 'Facewear').slice(0, 10);
+    const prices = await fetchDyeMarketPrices(createMockEnv({ UNIVERSALIS_PROXY: proxy }), 'Crystal', dyes);
+
+    expect(prices.size).toBe(dyes.length);
+    for (const dye of dyes) {
+      expect(prices.get(dye.id)).not.toBeNull();
+    }
+  });
+
+  it('maps Facewear to null', async () => {
+    const proxy = createMockUniversalisProxy();
+    const facewear = dyeService.getAllDyes().find((d) => d.category === 'Facewear')!;
+    const prices = await fetchDyeMarketPrices(createMockEnv({ UNIVERSALIS_PROXY: proxy }), 'Crystal', [facewear]);
+
+    expect(prices.get(facewear.id)).toBeNull();
+  });
+});
@@ -7,8 +7,11 @@ import {
   parseEnumParam,
   parseBooleanParam,
   parseCommaSeparatedIds,
+  parseHexList,
+  parseEnumListParam,
   parseLocale,
   parseMatchingMethod,
+  jsonQuery,
 } from '../../src/lib/validation.js';
 import { ApiError } from '../../src/lib/api-error.js';
 
@@ -164,6 +167,36 @@ describe('parseCommaSeparatedIds', () => {
   });
 });
 
+describe('parseHexList', () => {
+  it('normalizes each hex color', () => {
+    expect(parseHexList('ff0000, #00ff00', 'hex', 6)).toEqual(['#FF0000', '#00FF00']);
+  });
+
+  it('throws when exceeding max items', () => {
+    expect(() => parseHexList('FF0000,00FF00,0000FF', 'hex', 2)).toThrow(ApiError);
+  });
+
+  it('throws for an invalid entry', () => {
+    expect(() => parseHexList('FF0000,F00', 'hex', 6)).toThrow(ApiError);
+  });
+});
+
+describe('parseEnumListParam', () => {
+  const values = ['a', 'b', 'c'] as const;
+
+  it('defaults to every valid value', () => {
+    expect(parseEnumListParam(undefined, 'x', values)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('parses and de-duplicates the list', () => {
+    expect(parseEnumListParam('c,a,c', 'x', values)).toEqual(['c', 'a']);
+  });
+
+  it('throws for an invalid entry', () => {
+    expect(() => parseEnumListParam('a,z', 'x', values)).toThrow(ApiError);
+  });
+});
+
 describe('parseLocale', () => {
   it('defaults to en', () => {
     expect(parseLocale(undefined)).toBe('en');
@@ -195,3 +228,29 @@ describe('parseMatchingMethod', () => {
     expect(() => parseMatchingMethod('invalid')).toThrow(ApiError);
   });
 });
+
+describe('jsonQuery', () => {
+  it('reads fields from the first source that has them', () => {
+    const query = jsonQuery({ hex: 'FF0000' }, { hex: '0000FF', method: 'rgb' });
+
+    expect(query('hex')).toBe('FF0000');
+    expect(query('method')).toBe('rgb');
+    expect(query('count')).toBeUndefined();
+  });
+
+  it('stringifies numbers, booleans and arrays', () => {
+    const query = jsonQuery({ count: 3, metallic: false, excludeIds: [5729, 5730] });
+
+    expect(query('count')).toBe('3');
+    expect(query('metallic')).toBe('false');
+    expect(query('excludeIds')).toBe('5729,5730');
+  });
+
+  it('skips null values', () => {
+    expect(jsonQuery({ method: null }, { method: 'rgb' })('method')).toBe('rgb');
+  });
+
+  it('throws for nested objects', () => {
+    expect(() => jsonQuery({ hex: { r: 255 } })('hex')).toThrow(ApiError);
+  });
+});
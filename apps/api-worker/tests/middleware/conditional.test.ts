@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import app from '../../src/index.js';
+import { STATIC_CACHE_CONTROL, computeEtag, ifNoneMatch } from '../../src/lib/cache.js';
+import { createMockEnv, createMockUniversalisProxy } from '../test-utils.js';
+
+const env = createMockEnv();
+
+function get(path: string, headers: Record<string, string> = {}, mockEnv = env) {
+  return app.request(path, { method: 'GET', headers }, mockEnv);
+}
+
+describe('Conditional request middleware', () => {
+  it('adds a strong ETag and stale-while-revalidate to static responses', async () => {
+    const res = await get('/v1/dyes?perPage=5');
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('ETag')).toMatch(/^"[0-9a-f]{32}"$/);
+    expect(res.headers.get('Cache-Control')).toBe(STATIC_CACHE_CONTROL);
+    expect(STATIC_CACHE_CONTROL).toContain('stale-while-revalidate=');
+  });
+
+  it('returns 304 without a body when If-None-Match matches', async () => {
+    const first = await get('/v1/dyes?perPage=5');
+    const etag = first.headers.get('ETag')!;
+
+    const res = await get('/v1/dyes?perPage=5', { 'If-None-Match': etag });
+
+    expect(res.status).toBe(304);
+    expect(await res.text()).toBe('');
+    expect(res.headers.get('ETag')).toBe(etag);
+    expect(res.headers.get('Cache-Control')).toBe(STATIC_CACHE_CONTROL);
+    expect(res.headers.get('X-API-Version')).toBe('v1');
+    expect(res.headers.get('Content-Type')).toBeNull();
+  });
+
+  it('accepts weak, listed and wildcard If-None-Match values', async () => {
+    const etag = (await get('/v1/dyes/categories')).headers.get('ETag')!;
+
+    expect((await get('/v1/dyes/categories', { 'If-None-Match': `W/${etag}` })).status).toBe(304);
+    expect((await get('/v1/dyes/categories', { 'If-None-Match': `"other", ${etag}` })).status).toBe(304);
+    expect((await get('/v1/dyes/categories', { 'If-None-Match': '*' })).status).toBe(304);
+  });
+
+  it('returns 200 for a stale ETag', async () => {
+    const res = await get('/v1/dyes/categories', { 'If-None-Match': '"0123456789abcdef0123456789abcdef"' });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('ETag')).not.toBe('"0123456789abcdef0123456789abcdef"');
+  });
+
+  it('varies the ETag by path, query and locale', async () => {
+    const tags = await Promise.all(
+      ['/v1/dyes?perPage=5', '/v1/dyes?perPage=6', '/v1/dyes/categories', '/v1/dyes?perPage=5&locale=ja'].map(
+        async (path) => (await get(path)).headers.get('ETag'),
+      ),
+    );
+
+    expect(new Set(tags).size).toBe(tags.length);
+  });
+
+  it('shares one ETag across equivalent URLs', async () => {
+    const a = await get('/v1/match/closest?hex=FF0000&method=rgb');
+    const b = await get('/v1/match/closest?method=rgb&hex=FF0000&locale=en');
+
+    expect(a.headers.get('ETag')).toBe(b.headers.get('ETag'));
+  });
+
+  it('does not tag error responses', async () => {
+    const res = await get('/v1/dyes/999999');
+
+    expect(res.status).toBe(404);
+    expect(res.headers.get('ETag')).toBeNull();
+  });
+
+  it('does not tag market-priced responses', async () => {
+    const mockEnv = createMockEnv({ UNIVERSALIS_PROXY: createMockUniversalisProxy() });
+    const res = await get('/v1/dyes?perPage=5&world=Cactuar', { 'If-None-Match': '*' }, mockEnv);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('ETag')).toBeNull();
+  });
+
+  it('does not tag POST responses', async () => {
+    const res = await app.request('/v1/match/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'If-None-Match': '*' },
+      body: JSON.stringify({ colors: ['FF0000'] }),
+    }, env);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('ETag')).toBeNull();
+  });
+
+  it('exposes ETag and allows If-None-Match for browser clients', async () => {
+    const res = await app.request('/v1/dyes', {
+      method: 'OPTIONS',
+      headers: {
+        Origin: 'https://example.com',
+        'Access-Control-Request-Method': 'GET',
+        'Access-Control-Request-Headers': 'If-None-Match',
+      },
+    }, env);
+
+    expect(res.headers.get('Access-Control-Allow-Headers')).toContain('If-None-Match');
+
+    const cors = await get('/v1/dyes/categories', { Origin: 'https://example.com' });
+    expect(cors.headers.get('Access-Control-Expose-Headers')).toContain('ETag');
+  });
+});
+
+describe('computeEtag', () => {
+  it('is deterministic and ignores parameter order', async () => {
+    const a = await computeEtag('/v1/dyes', new URLSearchParams('a=1&b=2'), 'en');
+    const b = await computeEtag('/v1/dyes', new URLSearchParams('b=2&a=1'), 'en');
+
+    expect(a).toBe(b);
+  });
+
+  it('uses the resolved locale instead of the raw parameter', async () => {
+    const raw = await computeEtag('/v1/dyes', new URLSearchParams('locale=ja'), 'en');
+    const resolved = await computeEtag('/v1/dyes', new URLSearchParams(), 'en');
+    const ja = await computeEtag('/v1/dyes', new URLSearchParams(), 'ja');
+
+    expect(raw).toBe(resolved);
+    expect(ja).not.toBe(resolved);
+  });
+});
+
+describe('ifNoneMatch', () => {
+  it('matches exact, weak, listed and wildcard values', () => {
+    expect(ifNoneMatch('"abc"', '"abc"')).toBe(true);
+    expect(ifNoneMatch('W/"abc"', '"abc"')).toBe(true);
+    expect(ifNoneMatch('"x", "abc"', '"abc"')).toBe(true);
+    expect(ifNoneMatch('*', '"abc"')).toBe(true);
+  });
+
+  it('rejects missing and different values', () => {
+    expect(ifNoneMatch(undefined, '"abc"')).toBe(false);
+    expect(ifNoneMatch('"abd"', '"abc"')).toBe(false);
+    expect(ifNoneMatch('abc', '"abc"')).toBe(false);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import app from '../../src/index.js';
 import { createMockEnv } from '../test-utils.js';
+import { MAX_BATCH_BODY_BYTES } from '../../src/routes/match.js';
 
 const env = createMockEnv();
 
@@ -14,6 +15,33 @@ describe('Rate limit middleware', () => {
     expect(res.headers.get('X-Request-Id')).toBeDefined();
   });
 
+  it('charges POST /v1/match/batch one unit per 10 colors', async () => {
+    const headers = { 'Content-Type': 'application/json', 'CF-Connecting-IP': '203.0.113.7' };
+    const first = await app.request('/v1/dyes/categories', { method: 'GET', headers }, env);
+    const batch = await app.request('/v1/match/batch', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ colors: Array.from({ length: 25 }, () => 'FF0000') }),
+    }, env);
+
+    expect(batch.status).toBe(200);
+    const before = Number(first.headers.get('X-RateLimit-Remaining'));
+    expect(Number(batch.headers.get('X-RateLimit-Remaining'))).toBe(before - 3);
+  });
+
+  it('rejects oversized POST /v1/match/batch bodies before parsing them', async () => {
+    const res = await app.request('/v1/match/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'CF-Connecting-IP': '203.0.113.8' },
+      body: JSON.stringify({ colors: ['FF0000'], padding: 'x'.repeat(MAX_BATCH_BODY_BYTES) }),
+    }, env);
+
+    expect(res.status).toBe(413);
+    const body = await res.json() as any;
+    expect(body.error).toBe('PAYLOAD_TOO_LARGE');
+    expect(res.headers.get('X-RateLimit-Remaining')).toBeNull();
+  });
+
   it('does not rate limit health check', async () => {
     const res = await app.request('/health', { method: 'GET' }, env);
 
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import app from '../../src/index.js';
+import { createMockEnv } from '../test-utils.js';
+
+const env = createMockEnv();
+
+async function get(path: string) {
+  return app.request(path, { method: 'GET' }, env);
+}
+
+async function getJson(path: string) {
+  const res = await get(path);
+  const body = await res.json() as any;
+  return { res, body };
+}
+
+describe('GET /v1/accessibility', () => {
+  it('returns the contrast matrix for every pair', async () => {
+    const { res, body } = await getJson('/v1/accessibility?hex=000000,FFFFFF,777777');
+
+    expect(res.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.data.colors).toHaveLength(3);
+    expect(body.data.pairs).toHaveLength(3);
+    expect(body.data.pairs.map((p: any) => p.indices)).toEqual([[0, 1], [0, 2], [1, 2]]);
+  });
+
+  it('reports WCAG contrast and compliance', async () => {
+    const { body } = await getJson('/v1/accessibility?hex=000000,FFFFFF');
+    const [pair] = body.data.pairs;
+
+    expect(pair.contrastRatio).toBe(21);
+    expect(pair.wcag).toEqual({ level: 'AAA', aa: true, aaLarge: true, aaa: true, aaaLarge: true });
+  });
+
+  it('marks low-contrast pairs as failing', async () => {
+    const { body } = await getJson('/v1/accessibility?hex=777777,888888');
+
+    expect(body.data.pairs[0].wcag.level).toBe('FAIL');
+    expect(body.data.pairs[0].wcag.aa).toBe(false);
+  });
+
+  it('simulates every vision type by default', async () => {
+    const { body } = await getJson('/v1/accessibility?hex=FF0000');
+
+    expect(Object.keys(body.data.colors[0].simulations)).toEqual([
+      'protanopia', 'deuteranopia', 'tritanopia', 'achromatopsia',
+    ]);
+    for (const hex of Object.values(body.data.colors[0].simulations)) {
+      expect(hex).toMatch(/^#[0-9A-F]{6}$/);
+    }
+    expect(body.data.pairs).toEqual([]);
+  });
+
+  it('restricts simulations to the requested vision types', async () => {
+    const { body } = await getJson('/v1/accessibility?hex=FF0000,00FF00&visionTypes=deuteranopia');
+
+    expect(Object.keys(body.data.colors[0].simulations)).toEqual(['deuteranopia']);
+    expect(Object.keys(body.data.pairs[0].deltaE)).toEqual(['normal', 'deuteranopia']);
+    expect(body.data.options.visionTypes).toEqual(['deuteranopia']);
+  });
+
+  it('flags pairs that become indistinguishable under a vision type', async () => {
+    // Red/green collapses under achromatopsia when their luminance is close
+    const { body } = await getJson('/v1/accessibility?hex=CC0000,007A00&visionTypes=achromatopsia,tritanopia');
+    const [pair] = body.data.pairs;
+
+    expect(pair.deltaE.normal).toBeGreaterThan(10);
+    expect(pair.deltaE.achromatopsia).toBeLessThan(10);
+    expect(pair.indistinguishableUnder).toEqual(['achromatopsia']);
+  });
+
+  it('applies the ΔE threshold and formula', async () => {
+    const { body: loose } = await getJson('/v1/accessibility?hex=777777,888888');
+    const { body: strict } = await getJson('/v1/accessibility?hex=777777,888888&deltaEFormula=cie76&threshold=1');
+
+    expect(loose.data.pairs[0].indistinguishableUnder).toContain('normal');
+    expect(strict.data.options).toMatchObject({ deltaEFormula: 'cie76', threshold: 1 });
+    expect(strict.data.pairs[0].indistinguishableUnder).not.toContain('normal');
+    expect(strict.data.pairs[0].deltaE.normal).not.toBe(loose.data.pairs[0].deltaE.normal);
+  });
+
+  it('resolves dye IDs and serializes them', async () => {
+    const { body } = await getJson('/v1/accessibility?ids=5729,1&hex=FF0000&locale=ja');
+
+    expect(body.data.colors).toHaveLength(3);
+    expect(body.data.colors[0].dye.itemID).toBe(5729);
+    expect(body.data.colors[1].dye.stainID).toBe(1);
+    expect(body.data.colors[0].dye.localizedName).toBeDefined();
+    expect(body.data.colors[2].dye).toBeNull();
+    expect(body.data.colors[2].hex).toBe('#FF0000');
+  });
+
+  it('returns 400 without any colors', async () => {
+    const { res, body } = await getJson('/v1/accessibility');
+
+    expect(res.status).toBe(400);
+    expect(body.error).toBe('MISSING_PARAMETER');
+  });
+
+  it('returns 400 for more than six colors', async () => {
+    const { res } = await getJson('/v1/accessibility?ids=1,2,3,4&hex=FF0000,00FF00,0000FF');
+
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 400 for an invalid hex or vision type', async () => {
+    const { res: r1, body: b1 } = await getJson('/v1/accessibility?hex=FF0000,GGGGGG');
+    const { res: r2 } = await getJson('/v1/accessibility?hex=FF0000&visionTypes=tetrachromacy');
+
+    expect(r1.status).toBe(400);
+    expect(b1.error).toBe('INVALID_HEX');
+    expect(r2.status).toBe(400);
+  });
+
+  it('returns 404 for an unknown dye ID', async () => {
+    const { res, body } = await getJson('/v1/accessibility?ids=999999');
+
+    expect(res.status).toBe(404);
+    expect(body.error).toBe('NOT_FOUND');
+  });
+
+  it('includes Cache-Control header', async () => {
+    const res = await get('/v1/accessibility?hex=FF0000');
+    expect(res.headers.get('Cache-Control')).toContain('max-age=3600');
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { CharacterColorService } from '@xivdyetools/core';
+import app from '../../src/index.js';
+import { createMockEnv } from '../test-utils.js';
+
+const env = createMockEnv();
+const characterColors = new CharacterColorService();
+
+async function getJson(path: string) {
+  const res = await app.request(path, { method: 'GET' }, env);
+  const body = await res.json() as any;
+  return { res, body };
+}
+
+describe('GET /v1/character/colors/:category', () => {
+  it('returns a shared palette with grid positions and the closest dye per color', async () => {
+    const { res, body } = await getJson('/v1/character/colors/eyes');
+
+    expect(res.status).toBe(200);
+    expect(body.data.category).toBe('eyes');
+    expect(body.data.clan).toBeNull();
+    expect(body.data.grid).toEqual({ columns: 8, rows: 24 });
+    expect(body.data.colors).toHaveLength(192);
+
+    const entry = body.data.colors[9];
+    expect(entry).toMatchObject({ index: 9, row: 2, column: 2 });
+    expect(entry.hex).toBe(characterColors.getEyeColors()[9].hex.toUpperCase());
+    expect(entry.matches).toHaveLength(1);
+    expect(typeof entry.matches[0].distance).toBe('number');
+  });
+
+  it('sizes the grid from the palette', async () => {
+    const { body } = await getJson('/v1/character/colors/face-paint-dark');
+
+    expect(body.data.colors).toHaveLength(96);
+    expect(body.data.grid).toEqual({ columns: 8, rows: 12 });
+  });
+
+  it('returns the clan and gender specific hair palette', async () => {
+    const { res, body } = await getJson('/v1/character/colors/hair?clan=Midlander&gender=Female');
+    const expected = await characterColors.getHairColors('Midlander', 'Female');
+
+    expect(res.status).toBe(200);
+    expect(body.data.clan).toBe('Midlander');
+    expect(body.data.gender).toBe('Female');
+    expect(body.data.colors.map((c: any) => c.hex)).toEqual(expected.map((c) => c.hex.toUpperCase()));
+  });
+
+  it('supports count, method and filters', async () => {
+    const { body } = await getJson('/v1/character/colors/lips-dark?count=3&method=ciede2000&metallic=true');
+
+    expect(body.data.method).toBe('ciede2000');
+    for (const entry of body.data.colors) {
+      expect(entry.matches).toHaveLength(3);
+      expect(entry.matches.every((m: any) => m.dye.isMetallic)).toBe(true);
+    }
+  });
+
+  it('requires clan and gender for hair and skin', async () => {
+    const { res, body } = await getJson('/v1/character/colors/skin?clan=Raen');
+
+    expect(res.status).toBe(400);
+    expect(body.error).toBe('MISSING_PARAMETER');
+    expect(body.details.parameter).toBe('gender');
+  });
+
+  it('returns 400 for an unknown category, clan or gender', async () => {
+    expect((await getJson('/v1/character/colors/beard')).res.status).toBe(400);
+    expect((await getJson('/v1/character/colors/hair?clan=Garlean&gender=Male')).res.status).toBe(400);
+    expect((await getJson('/v1/character/colors/hair?clan=Raen&gender=other')).res.status).toBe(400);
+  });
+});
+
+describe('GET /v1/character/match', () => {
+  it('matches a palette entry by index', async () => {
+    const { res, body } = await getJson('/v1/character/match?category=eyes&index=47');
+
+    expect(res.status).toBe(200);
+    expect(body.data.color).toMatchObject({ index: 47, row: 6, column: 8 });
+    expect(body.data.matches).toHaveLength(3);
+
+    const distances = body.data.matches.map((m: any) => m.distance);
+    expect(distances).toEqual([...distances].sort((a, b) => a - b));
+  });
+
+  it('matches a palette entry by 1-based grid position', async () => {
+    const { body: byIndex } = await getJson('/v1/character/match?category=skin&clan=Xaela&gender=Male&index=47');
+    const { body: byGrid } = await getJson('/v1/character/match?category=skin&clan=Xaela&gender=Male&row=6&column=8');
+
+    expect(byGrid.data.color).toEqual(byIndex.data.color);
+    expect(byGrid.data.matches).toEqual(byIndex.data.matches);
+  });
+
+  it('agrees with the palette endpoint', async () => {
+    const { body: palette } = await getJson('/v1/character/colors/tattoo?count=2');
+    const { body } = await getJson('/v1/character/match?category=tattoo&index=100&count=2');
+
+    expect(body.data.matches).toEqual(palette.data.colors[100].matches);
+  });
+
+  it('supports excludeIds and locale', async () => {
+    const { body: base } = await getJson('/v1/character/match?category=eyes&index=0&count=1');
+    const excludeId = base.data.matches[0].dye.itemID;
+
+    const { body } = await getJson(`/v1/character/match?category=eyes&index=0&count=1&excludeIds=${excludeId}&locale=ja`);
+
+    expect(body.data.matches[0].dye.itemID).not.toBe(excludeId);
+    expect(body.meta.locale).toBe('ja');
+  });
+
+  it('requires an index or grid position', async () => {
+    const { res, body } = await getJson('/v1/character/match?category=eyes');
+
+    expect(res.status).toBe(400);
+    expect(body.error).toBe('MISSING_PARAMETER');
+  });
+
+  it('rejects positions outside the palette', async () => {
+    expect((await getJson('/v1/character/match?category=lips-light&index=96')).res.status).toBe(400);
+    expect((await getJson('/v1/character/match?category=lips-light&row=13&column=1')).res.status).toBe(400);
+    expect((await getJson('/v1/character/match?category=eyes&row=1&column=9')).res.status).toBe(400);
+  });
+
+  it('rejects an index combined with a grid position', async () => {
+    const { res } = await getJson('/v1/character/match?category=eyes&index=0&row=1&column=1');
+
+    expect(res.status).toBe(400);
+  });
+
+  it('requires a category', async () => {
+    const { res } = await getJson('/v1/character/match?index=0');
+
+    expect(res.status).toBe(400);
+  });
+});
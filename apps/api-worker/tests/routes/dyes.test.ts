@@ -1,13 +1,16 @@
 import { describe, it, expect } from 'vitest';
 import app from '../../src/index.js';
-import { createMockEnv } from '../test-utils.js';
+import { createMockEnv, createMockUniversalisProxy } from '../test-utils.js';
 import { VENDOR_ACQUISITIONS, CRAFT_ACQUISITIONS, EXPENSIVE_DYE_IDS } from '@xivdyetools/core';
 
 const env = createMockEnv();
 
-/** Helper to make GET requests to the app */
+/** Helper to make GET requests to the app (each from its own client IP, to stay under the rate limit) */
+let requestCount = 0;
 async function get(path: string) {
-  return app.request(path, { method: 'GET' }, env);
+  requestCount++;
+  const ip = `198.51.100.${requestCount % 250}`;
+  return app.request(path, { method: 'GET', headers: { 'CF-Connecting-IP': ip } }, env);
 }
 
 /** Helper to parse JSON response */
@@ -219,6 +222,66 @@ describe('GET /v1/dyes', () => {
   });
 });
 
+describe('GET /v1/dyes market enrichment', () => {
+  it('attaches market prices for the requested world', async () => {
+    const proxy = createMockUniversalisProxy((id) => id % 1000);
+    const res = await app.request('/v1/dyes?world=Cactuar&perPage=10', { method: 'GET' }, createMockEnv({ UNIVERSALIS_PROXY: proxy }));
+    const body = await res.json() as any;
+
+    expect(res.status).toBe(200);
+    expect(body.data).toHaveLength(10);
+    for (const dye of body.data) {
+      expect(dye.market.scope).toBe('Cactuar');
+      expect(dye.market.marketItemID).toBe(dye.marketItemID);
+      expect(dye.market.minPrice).toBe(dye.marketItemID % 1000);
+    }
+  });
+
+  it('prices the whole page with one aggregated and one listings request', async () => {
+    const proxy = createMockUniversalisProxy();
+    await app.request('/v1/dyes?datacenter=Crystal&perPage=50', { method: 'GET' }, createMockEnv({ UNIVERSALIS_PROXY: proxy }));
+
+    expect(proxy.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns null market data for unlisted dyes', async () => {
+    const proxy = createMockUniversalisProxy(() => null);
+    const res = await app.request('/v1/dyes?world=Cactuar&perPage=3', { method: 'GET' }, createMockEnv({ UNIVERSALIS_PROXY: proxy }));
+    const body = await res.json() as any;
+
+    expect(body.data.every((d: any) => d.market === null)).toBe(true);
+  });
+
+  it('uses a short Cache-Control for market data', async () => {
+    const proxy = createMockUniversalisProxy();
+    const res = await app.request('/v1/dyes?world=Cactuar', { method: 'GET' }, createMockEnv({ UNIVERSALIS_PROXY: proxy }));
+
+    expect(res.headers.get('Cache-Control')).toBe('public, max-age=300, s-maxage=300, stale-while-revalidate=60');
+  });
+
+  it('leaves dyes unenriched without a world', async () => {
+    const { body } = await getJson('/v1/dyes?perPage=1');
+
+    expect(body.data[0]).not.toHaveProperty('market');
+  });
+
+  it('returns 400 for an unknown world', async () => {
+    const proxy = createMockUniversalisProxy(undefined, 400);
+    const res = await app.request('/v1/dyes?world=Narnia', { method: 'GET' }, createMockEnv({ UNIVERSALIS_PROXY: proxy }));
+    const body = await res.json() as any;
+
+    expect(res.status).toBe(400);
+    expect(body.error).toBe('VALIDATION_ERROR');
+  });
+
+  it('returns 503 when the proxy is not configured', async () => {
+    const { res, body } = await getJson('/v1/dyes?world=Cactuar');
+
+    expect(res.status).toBe(503);
+    expect(body.error).toBe('SERVICE_UNAVAILABLE');
+  });
+});
+
 describe('GET /v1/dyes/:id', () => {
   it('looks up by itemID (5729+)', async () => {
     const { res, body } = await getJson('/v1/dyes/5729');
@@ -405,3 +468,120 @@ describe('GET /v1/dyes/consolidation-groups', () => {
     expect(body.data.unconsolidated).toBeDefined();
   });
 });
+
+describe('GET /v1/dyes/:id/similar', () => {
+  it('returns the nearest other dyes, closest first', async () => {
+    const { res, body } = await getJson('/v1/dyes/5729/similar?count=5');
+
+    expect(res.status).toBe(200);
+    expect(body.data.dye.itemID).toBe(5729);
+    expect(body.data.method).toBe('oklab');
+    expect(body.data.results).toHaveLength(5);
+
+    const distances = body.data.results.map((r: any) => r.distance);
+    expect(distances).toEqual([...distances].sort((a, b) => a - b));
+  });
+
+  it('never includes the dye itself', async () => {
+    const { body } = await getJson('/v1/dyes/5729/similar?count=20');
+
+    expect(body.data.results.map((r: any) => r.dye.itemID)).not.toContain(5729);
+  });
+
+  it('includes per-channel LAB and OKLCH differences', async () => {
+    const { body } = await getJson('/v1/dyes/5729/similar?count=1');
+    const result = body.data.results[0];
+
+    expect(Object.keys(result.differences.lab)).toEqual(['L', 'a', 'b']);
+    expect(Object.keys(result.differences.oklch)).toEqual(['L', 'C', 'h']);
+    expect(Math.abs(result.differences.oklch.h)).toBeLessThanOrEqual(180);
+  });
+
+  it('ranks by the selected method', async () => {
+    const { body: rgb } = await getJson('/v1/dyes/5729/similar?count=1&method=rgb');
+    const { body: de } = await getJson('/v1/dyes/5729/similar?count=1&method=ciede2000');
+
+    expect(rgb.data.method).toBe('rgb');
+    expect(de.data.method).toBe('ciede2000');
+    expect(rgb.data.results[0].distance).not.toBe(de.data.results[0].distance);
+  });
+
+  it('applies dye type filters and excludeIds', async () => {
+    const { body: base } = await getJson('/v1/dyes/5729/similar?count=1');
+    const nearest = base.data.results[0].dye.itemID;
+
+    const { body: excluded } = await getJson(`/v1/dyes/5729/similar?count=5&excludeIds=${nearest}`);
+    expect(excluded.data.results.map((r: any) => r.dye.itemID)).not.toContain(nearest);
+
+    const { body: metallic } = await getJson('/v1/dyes/5729/similar?count=5&metallic=true');
+    expect(metallic.data.results.every((r: any) => r.dye.isMetallic)).toBe(true);
+  });
+
+  it('returns 404 for an unknown dye', async () => {
+    const { res, body } = await getJson('/v1/dyes/200/similar');
+
+    expect(res.status).toBe(404);
+    expect(body.error).toBe('NOT_FOUND');
+  });
+
+  it('returns 400 for an out-of-range count', async () => {
+    const { res } = await getJson('/v1/dyes/5729/similar?count=21');
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('GET /v1/dyes/compare', () => {
+  it('returns a symmetric distance matrix with a zero diagonal', async () => {
+    const { res, body } = await getJson('/v1/dyes/compare?ids=5729,5730,5731');
+
+    expect(res.status).toBe(200);
+    expect(body.data.dyes.map((d: any) => d.itemID)).toEqual([5729, 5730, 5731]);
+    expect(body.data.method).toBe('oklab');
+
+    const { matrix } = body.data;
+    expect(matrix).toHaveLength(3);
+    for (let i = 0; i < 3; i++) {
+      expect(matrix[i][i]).toBe(0);
+      for (let j = 0; j < 3; j++) {
+        expect(matrix[i][j]).toBe(matrix[j][i]);
+      }
+    }
+    expect(matrix[0][1]).toBeGreaterThan(0);
+  });
+
+  it('uses the selected method', async () => {
+    const { body: oklab } = await getJson('/v1/dyes/compare?ids=5729,5730');
+    const { body: de } = await getJson('/v1/dyes/compare?ids=5729,5730&method=ciede2000');
+
+    expect(de.data.method).toBe('ciede2000');
+    expect(de.data.matrix[0][1]).not.toBe(oklab.data.matrix[0][1]);
+  });
+
+  it('accepts mixed ID types', async () => {
+    const { res, body } = await getJson('/v1/dyes/compare?ids=1,5730');
+
+    expect(res.status).toBe(200);
+    expect(body.data.dyes[0].stainID).toBe(1);
+  });
+
+  it('returns 400 for fewer than 2 dyes', async () => {
+    const { res } = await getJson('/v1/dyes/compare?ids=5729');
+
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 400 for more than 20 dyes', async () => {
+    const ids = Array.from({ length: 21 }, (_, i) => 5729 + i).join(',');
+    const { res } = await getJson(`/v1/dyes/compare?ids=${ids}`);
+
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 404 for an unknown dye', async () => {
+    const { res, body } = await getJson('/v1/dyes/compare?ids=5729,200');
+
+    expect(res.status).toBe(404);
+    expect(body.error).toBe('NOT_FOUND');
+  });
+});
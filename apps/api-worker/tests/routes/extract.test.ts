@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { deflateSync, crc32 } from 'node:zlib';
+import app from '../../src/index.js';
+import { createMockEnv } from '../test-utils.js';
+
+const env = createMockEnv();
+
+type Rgba = [number, number, number, number];
+
+/** Encode an RGBA pixel grid (rows of pixels) as a minimal PNG */
+function encodePng(rows: Rgba[][]): Uint8Array {
+  const height = rows.length;
+  const width = rows[0].length;
+
+  const chunk = (type: string, data: Buffer) => {
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const out = Buffer.alloc(body.length + 8);
+    out.writeUInt32BE(data.length, 0);
+    body.copy(out, 4);
+    out.writeUInt32BE(crc32(body), body.length + 4);
+    return out;
+  };
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // color type: RGBA
+
+  // Each scanline is prefixed with filter type 0 (None)
+  const raw = Buffer.concat(rows.map((row) => Buffer.from([0, ...row.flat()])));
+
+  return new Uint8Array(Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]));
+}
+
+/** 8x8 image: left half pure red, right half pure blue */
+function twoColorPng(): Uint8Array {
+  const row: Rgba[] = [
+    ...Array.from({ length: 4 }, (): Rgba => [255, 0, 0, 255]),
+    ...Array.from({ length: 4 }, (): Rgba => [0, 0, 255, 255]),
+  ];
+  return encodePng(Array.from({ length: 8 }, () => row));
+}
+
+async function postJson(path: string, body: Uint8Array | string, headers: Record<string, string> = {}) {
+  const res = await app.request(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'image/png', ...headers },
+    body,
+  }, env);
+  const json = await res.json() as any;
+  return { res, body: json };
+}
+
+describe('POST /v1/extract', () => {
+  it('extracts dominant colors and matches them to dyes', async () => {
+    const { res, body } = await postJson('/v1/extract?colors=2', twoColorPng());
+
+    expect(res.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.data.image).toEqual({ format: 'png', width: 8, height: 8 });
+    expect(body.data.method).toBe('oklab');
+    expect(body.data.palette).toHaveLength(2);
+
+    const hexes = body.data.palette.map((p: any) => p.hex).sort();
+    expect(hexes).toEqual(['#0000FF', '#FF0000']);
+  });
+
+  it('reports the pixel share and match distance of each color', async () => {
+    const { body } = await postJson('/v1/extract?colors=2', twoColorPng());
+
+    for (const entry of body.data.palette) {
+      expect(entry.dominance).toBe(50);
+      expect(entry.pixelCount).toBeGreaterThan(0);
+      expect(entry.match.dye.hex).toMatch(/^#[0-9A-Fa-f]{6}$/);
+      expect(typeof entry.match.distance).toBe('number');
+      expect(entry.match.dye).not.toHaveProperty('lab');
+    }
+  });
+
+  it('never matches the same dye twice', async () => {
+    const pixels = Array.from({ length: 4 }, (_, y) =>
+      Array.from({ length: 4 }, (__, x): Rgba => [250 - x - y, 0, 0, 255]),
+    );
+    const { body } = await postJson('/v1/extract?colors=3', encodePng(pixels));
+
+    const ids = body.data.palette.map((p: any) => p.match.dye.itemID);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('uses the requested matching method', async () => {
+    const { body: rgb } = await postJson('/v1/extract?colors=1&method=rgb', twoColorPng());
+    const { body: de } = await postJson('/v1/extract?colors=1&method=ciede2000', twoColorPng());
+
+    expect(rgb.data.method).toBe('rgb');
+    expect(de.data.method).toBe('ciede2000');
+    expect(rgb.data.palette[0].match.distance).not.toBe(de.data.palette[0].match.distance);
+  });
+
+  it('ignores transparent pixels', async () => {
+    const row: Rgba[] = [[0, 255, 0, 255], [0, 255, 0, 255], [255, 0, 255, 0], [255, 0, 255, 0]];
+    const { body } = await postJson('/v1/extract?colors=1', encodePng([row, row]));
+
+    expect(body.data.palette).toHaveLength(1);
+    expect(body.data.palette[0].hex).toBe('#00FF00');
+    expect(body.data.palette[0].dominance).toBe(100);
+  });
+
+  it('supports excludeIds parameter', async () => {
+    const { body: base } = await postJson('/v1/extract?colors=1', twoColorPng());
+    const excludeId = base.data.palette[0].match.dye.itemID;
+
+    const { body } = await postJson(`/v1/extract?colors=1&excludeIds=${excludeId}`, twoColorPng());
+
+    expect(body.data.palette[0].match.dye.itemID).not.toBe(excludeId);
+  });
+
+  it('supports locale parameter', async () => {
+    const { body } = await postJson('/v1/extract?colors=1&locale=ja', twoColorPng());
+
+    expect(body.meta.locale).toBe('ja');
+    expect(body.data.palette[0].match.dye.localizedName).toBeDefined();
+  });
+
+  it('returns 400 for an empty body', async () => {
+    const { res, body } = await postJson('/v1/extract', '');
+
+    expect(res.status).toBe(400);
+    expect(body.error).toBe('INVALID_IMAGE');
+  });
+
+  it('returns 400 for an unsupported format', async () => {
+    const { res, body } = await postJson('/v1/extract', 'this is definitely not an image');
+
+    expect(res.status).toBe(400);
+    expect(body.error).toBe('INVALID_IMAGE');
+    expect(body.message).toContain('Unsupported image format');
+  });
+
+  it('returns 400 for a corrupt image', async () => {
+    const truncated = twoColorPng().slice(0, 40);
+    const { res, body } = await postJson('/v1/extract', truncated);
+
+    expect(res.status).toBe(400);
+    expect(body.error).toBe('INVALID_IMAGE');
+  });
+
+  it('returns 400 for a fully transparent image', async () => {
+    const row: Rgba[] = [[0, 0, 0, 0], [0, 0, 0, 0]];
+    const { res, body } = await postJson('/v1/extract', encodePng([row, row]));
+
+    expect(res.status).toBe(400);
+    expect(body.error).toBe('INVALID_IMAGE');
+  });
+
+  it('returns 413 when Content-Length exceeds the upload limit', async () => {
+    const { res, body } = await postJson('/v1/extract', twoColorPng(), {
+      'Content-Length': String(20 * 1024 * 1024),
+    });
+
+    expect(res.status).toBe(413);
+    expect(body.error).toBe('PAYLOAD_TOO_LARGE');
+  });
+
+  it('returns 400 for an out-of-range color count', async () => {
+    const { res } = await postJson('/v1/extract?colors=11', twoColorPng());
+
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 404 for GET', async () => {
+    const res = await app.request('/v1/extract', { method: 'GET' }, env);
+
+    expect(res.status).toBe(404);
+  });
+});
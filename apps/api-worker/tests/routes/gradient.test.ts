@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import app from '../../src/index.js';
+import { createMockEnv } from '../test-utils.js';
+import { VALID_INTERPOLATION_MODES } from '../../src/lib/validation.js';
+
+const env = createMockEnv();
+
+async function get(path: string) {
+  return app.request(path, { method: 'GET' }, env);
+}
+
+async function getJson(path: string) {
+  const res = await get(path);
+  const body = await res.json() as any;
+  return { res, body };
+}
+
+describe('GET /v1/gradient', () => {
+  it('returns the default 6 steps with closest dyes', async () => {
+    const { res, body } = await getJson('/v1/gradient?start=FF0000&end=0000FF');
+
+    expect(res.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.data.start).toBe('#FF0000');
+    expect(body.data.end).toBe('#0000FF');
+    expect(body.data.mode).toBe('hsv');
+    expect(body.data.method).toBe('oklab');
+    expect(body.data.steps).toHaveLength(6);
+    for (const step of body.data.steps) {
+      expect(step.hex).toMatch(/^#[0-9A-F]{6}$/);
+      expect(step.match.dye.category).not.toBe('Facewear');
+      expect(typeof step.match.distance).toBe('number');
+    }
+  });
+
+  it('starts and ends on the input colors', async () => {
+    const { body } = await getJson('/v1/gradient?start=FF0000&end=0000FF&mode=rgb&steps=3');
+
+    expect(body.data.steps[0].hex).toBe('#FF0000');
+    expect(body.data.steps[0].ratio).toBe(0);
+    expect(body.data.steps[2].hex).toBe('#0000FF');
+    expect(body.data.steps[2].ratio).toBe(1);
+  });
+
+  it.each(VALID_INTERPOLATION_MODES)('supports %s interpolation', async (mode) => {
+    const { body } = await getJson(`/v1/gradient?start=FFFF00&end=0000FF&steps=4&mode=${mode}`);
+
+    expect(body.success).toBe(true);
+    expect(body.data.mode).toBe(mode);
+    expect(body.data.steps).toHaveLength(4);
+  });
+
+  it('supports matching method and dye filters', async () => {
+    const { body } = await getJson('/v1/gradient?start=FFFFFF&end=000000&method=ciede2000&metallic=false');
+
+    expect(body.data.method).toBe('ciede2000');
+    for (const step of body.data.steps) {
+      expect(step.match.dye.isMetallic).toBe(false);
+    }
+  });
+
+  it('returns 400 for missing or invalid colors', async () => {
+    const { res: r1, body: b1 } = await getJson('/v1/gradient?start=FF0000');
+    const { res: r2, body: b2 } = await getJson('/v1/gradient?start=FF0000&end=blue');
+
+    expect(r1.status).toBe(400);
+    expect(b1.error).toBe('MISSING_PARAMETER');
+    expect(b1.details.parameter).toBe('end');
+    expect(r2.status).toBe(400);
+    expect(b2.error).toBe('INVALID_HEX');
+  });
+
+  it('returns 400 for out-of-range steps or unknown mode', async () => {
+    const { res: r1 } = await getJson('/v1/gradient?start=FF0000&end=0000FF&steps=1');
+    const { res: r2 } = await getJson('/v1/gradient?start=FF0000&end=0000FF&steps=21');
+    const { res: r3 } = await getJson('/v1/gradient?start=FF0000&end=0000FF&mode=cmyk');
+
+    expect(r1.status).toBe(400);
+    expect(r2.status).toBe(400);
+    expect(r3.status).toBe(400);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import app from '../../src/index.js';
+import { createMockEnv } from '../test-utils.js';
+import { VALID_HARMONY_TYPES } from '../../src/lib/validation.js';
+
+const env = createMockEnv();
+
+async function get(path: string) {
+  return app.request(path, { method: 'GET' }, env);
+}
+
+async function getJson(path: string) {
+  const res = await get(path);
+  const body = await res.json() as any;
+  return { res, body };
+}
+
+describe('GET /v1/harmony', () => {
+  it('lists every supported harmony type', async () => {
+    const { res, body } = await getJson('/v1/harmony');
+
+    expect(res.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.data.types.map((t: any) => t.type)).toEqual([...VALID_HARMONY_TYPES]);
+    expect(body.data.algorithms).toEqual(['hue', 'deltaE']);
+    expect(body.data.colorSpaces).toEqual(['hsv', 'oklch', 'lch', 'hsl']);
+  });
+});
+
+describe('GET /v1/harmony/:type', () => {
+  it.each(VALID_HARMONY_TYPES)('generates a %s harmony', async (type) => {
+    const { res, body } = await getJson(`/v1/harmony/${type}?hex=FF0000`);
+
+    expect(res.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.data.type).toBe(type);
+    expect(body.data.inputHex).toBe('#FF0000');
+    expect(body.data.baseDye).toBeDefined();
+    expect(Array.isArray(body.data.dyes)).toBe(true);
+    expect(body.data.resultCount).toBe(body.data.dyes.length);
+  });
+
+  it('returns dyes in the public serialized shape', async () => {
+    const { body } = await getJson('/v1/harmony/triadic?hex=FF0000');
+
+    expect(body.data.dyes.length).toBeGreaterThan(0);
+    for (const dye of body.data.dyes) {
+      expect(dye.marketItemID).toBeDefined();
+      expect(dye.hex).toMatch(/^#[0-9A-Fa-f]{6}$/);
+      expect(dye).not.toHaveProperty('lab');
+      expect(dye).not.toHaveProperty('nameLower');
+    }
+  });
+
+  it('never returns Facewear or the base dye', async () => {
+    const { body } = await getJson('/v1/harmony/square?hex=3366CC');
+
+    for (const dye of body.data.dyes) {
+      expect(dye.category).not.toBe('Facewear');
+      expect(dye.itemID).not.toBe(body.data.baseDye.itemID);
+    }
+  });
+
+  it('echoes the default harmony options', async () => {
+    const { body } = await getJson('/v1/harmony/triadic?hex=FF0000');
+
+    expect(body.data.options).toEqual({ algorithm: 'hue', colorSpace: 'hsv', deltaEFormula: 'cie76' });
+  });
+
+  it('supports the deltaE algorithm with a formula and tolerance', async () => {
+    const { body } = await getJson('/v1/harmony/triadic?hex=FF0000&algorithm=deltaE&deltaEFormula=cie2000&deltaETolerance=30');
+
+    expect(body.success).toBe(true);
+    expect(body.data.options.algorithm).toBe('deltaE');
+    expect(body.data.options.deltaEFormula).toBe('cie2000');
+    expect(body.data.options.deltaETolerance).toBe(30);
+  });
+
+  it('supports perceptual color spaces', async () => {
+    const { body } = await getJson('/v1/harmony/complementary?hex=FF0000&colorSpace=oklch');
+
+    expect(body.success).toBe(true);
+    expect(body.data.options.colorSpace).toBe('oklch');
+    expect(body.data.dyes.length).toBe(1);
+  });
+
+  it('applies analogous angle and monochromatic limit', async () => {
+    const { body: analogous } = await getJson('/v1/harmony/analogous?hex=FF0000&angle=45');
+    expect(analogous.data.options.angle).toBe(45);
+
+    const { body: mono } = await getJson('/v1/harmony/monochromatic?hex=FF0000&limit=2');
+    expect(mono.data.options.limit).toBe(2);
+    expect(mono.data.dyes.length).toBeLessThanOrEqual(2);
+  });
+
+  it('applies dye type filters to the generated set', async () => {
+    const { body } = await getJson('/v1/harmony/square?hex=CCCCCC&metallic=false');
+
+    expect(body.success).toBe(true);
+    for (const dye of body.data.dyes) {
+      expect(dye.isMetallic).toBe(false);
+    }
+  });
+
+  it('supports excludeIds parameter', async () => {
+    const { body: base } = await getJson('/v1/harmony/triadic?hex=FF0000');
+    const excludeId = base.data.dyes[0].itemID;
+
+    const { body } = await getJson(`/v1/harmony/triadic?hex=FF0000&excludeIds=${excludeId}`);
+
+    expect(body.data.dyes.every((d: any) => d.itemID !== excludeId)).toBe(true);
+  });
+
+  it('supports locale parameter', async () => {
+    const { body } = await getJson('/v1/harmony/triadic?hex=FF0000&locale=ja');
+
+    expect(body.meta.locale).toBe('ja');
+    expect(body.data.dyes[0].localizedName).toBeDefined();
+  });
+
+  it('returns 400 for an unknown harmony type', async () => {
+    const { res, body } = await getJson('/v1/harmony/pentadic?hex=FF0000');
+
+    expect(res.status).toBe(400);
+    expect(body.error).toBe('VALIDATION_ERROR');
+  });
+
+  it('returns 400 for missing hex', async () => {
+    const { res, body } = await getJson('/v1/harmony/triadic');
+
+    expect(res.status).toBe(400);
+    expect(body.error).toBe('MISSING_PARAMETER');
+  });
+
+  it('returns 400 for an invalid algorithm or formula', async () => {
+    const { res: r1 } = await getJson('/v1/harmony/triadic?hex=FF0000&algorithm=magic');
+    const { res: r2 } = await getJson('/v1/harmony/triadic?hex=FF0000&deltaEFormula=oklab');
+
+    expect(r1.status).toBe(400);
+    expect(r2.status).toBe(400);
+  });
+
+  it('returns 400 for an out-of-range hue tolerance', async () => {
+    const { res } = await getJson('/v1/harmony/triadic?hex=FF0000&hueTolerance=200');
+
+    expect(res.status).toBe(400);
+  });
+
+  it('includes Cache-Control header', async () => {
+    const res = await get('/v1/harmony/triadic?hex=FF0000');
+    expect(res.headers.get('Cache-Control')).toContain('max-age=3600');
+  });
+});
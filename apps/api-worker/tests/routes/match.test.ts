@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import app from '../../src/index.js';
-import { createMockEnv } from '../test-utils.js';
+import { createMockEnv, createMockUniversalisProxy } from '../test-utils.js';
 import { VENDOR_ACQUISITIONS, EXPENSIVE_DYE_IDS } from '@xivdyetools/core';
 
 const env = createMockEnv();
@@ -114,6 +114,56 @@ describe('GET /v1/match/closest', () => {
   });
 });
 
+describe('GET /v1/match/closest market enrichment', () => {
+  async function getWithProxy(path: string, proxy: Fetcher) {
+    const res = await app.request(path, { method: 'GET' }, createMockEnv({ UNIVERSALIS_PROXY: proxy }));
+    return { res, body: await res.json() as any };
+  }
+
+  it('attaches market prices to the closest dye', async () => {
+    const proxy = createMockUniversalisProxy(() => 2500);
+    const { body: plain } = await getJson('/v1/match/closest?hex=FF0000');
+    const { res, body } = await getWithProxy('/v1/match/closest?hex=FF0000&world=Cactuar', proxy);
+
+    expect(res.status).toBe(200);
+    expect(body.data.dye.itemID).toBe(plain.data.dye.itemID);
+    expect(body.data.dye.market).toMatchObject({ scope: 'Cactuar', minPrice: 2500 });
+    expect(res.headers.get('Cache-Control')).toBe('public, max-age=300, s-maxage=300, stale-while-revalidate=60');
+  });
+
+  it('returns the closest dye listed at or below maxMarketPrice', async () => {
+    const { body: plain } = await getJson('/v1/match/closest?hex=FF0000');
+    const closestMarketId = plain.data.dye.marketItemID;
+
+    // The unconstrained closest dye is too expensive; everything else is cheap
+    const proxy = createMockUniversalisProxy((id) => (id === closestMarketId ? 50000 : 100));
+    const { res, body } = await getWithProxy('/v1/match/closest?hex=FF0000&world=Cactuar&maxMarketPrice=1000', proxy);
+
+    expect(res.status).toBe(200);
+    expect(body.data.dye.marketItemID).not.toBe(closestMarketId);
+    expect(body.data.dye.market.minPrice).toBeLessThanOrEqual(1000);
+    expect(body.data.distance).toBeGreaterThanOrEqual(plain.data.distance);
+    expect(body.data.maxMarketPrice).toBe(1000);
+    // One aggregated + one listings request for every candidate
+    expect(proxy.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips dyes without listings when looking for an affordable match', async () => {
+    const proxy = createMockUniversalisProxy(() => null);
+    const { res, body } = await getWithProxy('/v1/match/closest?hex=FF0000&world=Cactuar&maxMarketPrice=1000', proxy);
+
+    expect(res.status).toBe(404);
+    expect(body.error).toBe('NOT_FOUND');
+  });
+
+  it('requires a world for maxMarketPrice', async () => {
+    const { res, body } = await getJson('/v1/match/closest?hex=FF0000&maxMarketPrice=1000');
+
+    expect(res.status).toBe(400);
+    expect(body.error).toBe('MISSING_PARAMETER');
+  });
+});
+
 describe('GET /v1/match/within-distance', () => {
   it('finds dyes within distance', async () => {
     const { res, body } = await getJson('/v1/match/within-distance?hex=FF0000&maxDistance=50');
@@ -249,3 +299,121 @@ describe('Match route dye filters', () => {
     expect(body.data.dye).toBeDefined();
   });
 });
+
+describe('POST /v1/match/batch', () => {
+  async function postBatch(body: unknown) {
+    const res = await app.request('/v1/match/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    }, env);
+    return { res, body: await res.json() as any };
+  }
+
+  it('matches every color in request order', async () => {
+    const { res, body } = await postBatch({ colors: ['FF0000', { hex: '#0000FF' }] });
+
+    expect(res.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.data.count).toBe(2);
+    expect(body.data.results[0].inputHex).toBe('#FF0000');
+    expect(body.data.results[1].inputHex).toBe('#0000FF');
+    expect(body.data.results[0].matches).toHaveLength(1);
+  });
+
+  it('agrees with /closest for a single color', async () => {
+    const { body: single } = await getJson('/v1/match/closest?hex=336699&method=ciede2000');
+    const { body } = await postBatch({ colors: [{ hex: '336699', method: 'ciede2000' }] });
+
+    const [match] = body.data.results[0].matches;
+    expect(match.dye.itemID).toBe(single.data.dye.itemID);
+    expect(match.distance).toBe(single.data.distance);
+  });
+
+  it('returns the top-k distinct dyes per color, closest first', async () => {
+    const { body } = await postBatch({ colors: [{ hex: 'FF0000', count: 5 }] });
+
+    const matches = body.data.results[0].matches;
+    expect(matches).toHaveLength(5);
+    expect(new Set(matches.map((m: any) => m.dye.itemID)).size).toBe(5);
+    for (let i = 1; i < matches.length; i++) {
+      expect(matches[i].distance).toBeGreaterThanOrEqual(matches[i - 1].distance);
+    }
+  });
+
+  it('applies top-level defaults with per-item overrides', async () => {
+    const { body } = await postBatch({
+      method: 'rgb',
+      colors: ['FF0000', { hex: 'FF0000', method: 'hyab' }],
+    });
+
+    expect(body.data.results[0].method).toBe('rgb');
+    expect(body.data.results[1].method).toBe('hyab');
+  });
+
+  it('supports per-item excludeIds and dye filters', async () => {
+    const { body: base } = await postBatch({ colors: ['CCCCCC'] });
+    const excludeId = base.data.results[0].matches[0].dye.itemID;
+
+    const { body } = await postBatch({
+      colors: [
+        { hex: 'CCCCCC', excludeIds: [excludeId] },
+        { hex: 'CCCCCC', metallic: true, count: 3 },
+      ],
+    });
+
+    expect(body.data.results[0].matches[0].dye.itemID).not.toBe(excludeId);
+    for (const match of body.data.results[1].matches) {
+      expect(match.dye.isMetallic).toBe(true);
+    }
+  });
+
+  it('supports locale parameter', async () => {
+    const res = await app.request('/v1/match/batch?locale=ja', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ colors: ['FF0000'] }),
+    }, env);
+    const body = await res.json() as any;
+
+    expect(body.meta.locale).toBe('ja');
+    expect(body.data.results[0].matches[0].dye.localizedName).toBeDefined();
+  });
+
+  it('returns 400 for a non-JSON body', async () => {
+    const { res, body } = await postBatch('not json');
+
+    expect(res.status).toBe(400);
+    expect(body.error).toBe('VALIDATION_ERROR');
+  });
+
+  it('returns 400 when colors is missing', async () => {
+    const { res, body } = await postBatch({ method: 'rgb' });
+
+    expect(res.status).toBe(400);
+    expect(body.error).toBe('MISSING_PARAMETER');
+  });
+
+  it('returns 400 for more than 100 colors', async () => {
+    const { res, body } = await postBatch({ colors: Array.from({ length: 101 }, () => 'FF0000') });
+
+    expect(res.status).toBe(400);
+    expect(body.details.received).toBe(101);
+  });
+
+  it('reports the index of an invalid item', async () => {
+    const { res, body } = await postBatch({ colors: ['FF0000', 'nothex'] });
+
+    expect(res.status).toBe(400);
+    expect(body.error).toBe('INVALID_HEX');
+    expect(body.message).toContain('colors[1]');
+    expect(body.details.index).toBe(1);
+  });
+
+  it('rejects an out-of-range count', async () => {
+    const { res, body } = await postBatch({ colors: [{ hex: 'FF0000', count: 11 }] });
+
+    expect(res.status).toBe(400);
+    expect(body.details.parameter).toBe('count');
+  });
+});
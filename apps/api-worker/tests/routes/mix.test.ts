@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import app from '../../src/index.js';
+import { createMockEnv } from '../test-utils.js';
+import { VALID_BLENDING_MODES } from '../../src/lib/validation.js';
+
+const env = createMockEnv();
+
+async function get(path: string) {
+  return app.request(path, { method: 'GET' }, env);
+}
+
+async function getJson(path: string) {
+  const res = await get(path);
+  const body = await res.json() as any;
+  return { res, body };
+}
+
+describe('GET /v1/mix', () => {
+  it('blends two colors with defaults', async () => {
+    const { res, body } = await getJson('/v1/mix?hex1=FF0000&hex2=0000FF');
+
+    expect(res.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.data.mode).toBe('rgb');
+    expect(body.data.ratio).toBe(0.5);
+    expect(body.data.method).toBe('oklab');
+    expect(body.data.blendedHex).toBe('#800080');
+    expect(body.data.matches).toHaveLength(1);
+    expect(body.data.matches[0].dye.marketItemID).toBeDefined();
+  });
+
+  it.each(VALID_BLENDING_MODES)('supports %s blending', async (mode) => {
+    const { body } = await getJson(`/v1/mix?hex1=FFFF00&hex2=0000FF&mode=${mode}`);
+
+    expect(body.success).toBe(true);
+    expect(body.data.mode).toBe(mode);
+    expect(body.data.blendedHex).toMatch(/^#[0-9A-F]{6}$/);
+  });
+
+  it('honours the ratio', async () => {
+    const { body } = await getJson('/v1/mix?hex1=FF0000&hex2=0000FF&ratio=0');
+
+    expect(body.data.blendedHex).toBe('#FF0000');
+  });
+
+  it('returns distinct top-k matches sorted by distance', async () => {
+    const { body } = await getJson('/v1/mix?hex1=FF0000&hex2=FFFF00&count=5&method=ciede2000');
+
+    const matches = body.data.matches;
+    expect(matches).toHaveLength(5);
+    expect(new Set(matches.map((m: any) => m.dye.itemID)).size).toBe(5);
+    for (let i = 1; i < matches.length; i++) {
+      expect(matches[i - 1].distance).toBeLessThanOrEqual(matches[i].distance);
+    }
+  });
+
+  it('applies excludeIds and dye filters', async () => {
+    const { body: base } = await getJson('/v1/mix?hex1=FF0000&hex2=0000FF');
+    const excludeId = base.data.matches[0].dye.itemID;
+
+    const { body } = await getJson(`/v1/mix?hex1=FF0000&hex2=0000FF&excludeIds=${excludeId}&pastel=false`);
+
+    expect(body.data.matches[0].dye.itemID).not.toBe(excludeId);
+    expect(body.data.matches[0].dye.isPastel).toBe(false);
+  });
+
+  it('returns 400 for invalid parameters', async () => {
+    const { res: r1 } = await getJson('/v1/mix?hex1=FF0000');
+    const { res: r2 } = await getJson('/v1/mix?hex1=FF0000&hex2=0000FF&ratio=1.5');
+    const { res: r3 } = await getJson('/v1/mix?hex1=FF0000&hex2=0000FF&mode=hsv');
+    const { res: r4 } = await getJson('/v1/mix?hex1=FF0000&hex2=0000FF&count=11');
+
+    expect(r1.status).toBe(400);
+    expect(r2.status).toBe(400);
+    expect(r3.status).toBe(400);
+    expect(r4.status).toBe(400);
+  });
+});
@@ -0,0 +1,281 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import app from '../../src/index.js';
+import { buildOpenApiDocument } from '../../src/routes/openapi.js';
+import { serializeDye } from '../../src/lib/dye-serializer.js';
+import { dyeService } from '../../src/lib/services.js';
+import { fetchMarketPrices } from '../../src/lib/universalis.js';
+import { createMockEnv, createMockUniversalisProxy } from '../test-utils.js';
+
+const env = createMockEnv();
+const doc = buildOpenApiDocument();
+
+type Schema = Record<string, any>;
+type Operation = { parameters?: Schema[]; requestBody?: Schema; responses: Record<string, Schema> };
+
+const operations = Object.entries(doc.paths).flatMap(([path, item]) =>
+  Object.entries(item).map(([method, op]) => ({ path, method, op: op as unknown as Operation })),
+);
+
+// Every probe comes from its own client IP so the suite never trips the rate limiter
+let requestCount = 0;
+function request(path: string, init: RequestInit = {}) {
+  requestCount++;
+  const ip = `198.51.${Math.floor(requestCount / 250)}.${requestCount % 250}`;
+  return app.request(path, { ...init, headers: { 'CF-Connecting-IP': ip, ...init.headers } }, env);
+}
+
+/** Documented example request: path params and every parameter with an example */
+function exampleUrl(path: string, op: Operation, overrides: Record<string, string> = {}): string {
+  let url = path;
+  const params = new URLSearchParams();
+  for (const param of op.parameters ?? []) {
+    if (param.in === 'path') {
+      url = url.replace(`{${param.name}}`, String(overrides[param.name] ?? param.example));
+    } else if (param.name in overrides) {
+      params.set(param.name, overrides[param.name]);
+    } else if (param.example !== undefined) {
+      params.set(param.name, String(param.example));
+    }
+  }
+  for (const [name, value] of Object.entries(overrides)) {
+    if (!params.has(name) && !(op.parameters ?? []).some((p) => p.in === 'path' && p.name === name)) {
+      params.set(name, value);
+    }
+  }
+  const qs = params.toString();
+  return qs ? `${url}?${qs}` : url;
+}
+
+function resolve(schema: Schema): Schema {
+  if (schema.$ref) {
+    const [, , section, name] = (schema.$ref as string).split('/');
+    return resolve((doc.components as Record<string, Record<string, Schema>>)[section][name]);
+  }
+  if (schema.allOf) {
+    const parts = (schema.allOf as Schema[]).map(resolve);
+    return {
+      type: 'object',
+      required: parts.flatMap((p) => p.required ?? []),
+      properties: Object.assign({}, ...parts.map((p) => p.properties ?? {})),
+    };
+  }
+  return schema;
+}
+
+/** Minimal validator for the JSON Schema subset the document uses; returns error paths */
+function validate(value: unknown, raw: Schema, at = '$'): string[] {
+  const schema = resolve(raw);
+  if (schema.oneOf) {
+    const ok = (schema.oneOf as Schema[]).some((s) => validate(value, s, at).length === 0);
+    return ok ? [] : [`${at}: matches no oneOf branch`];
+  }
+  if ('const' in schema && value !== schema.const) return [`${at}: expected ${schema.const}`];
+  if (schema.enum && !schema.enum.includes(value)) return [`${at}: ${String(value)} not in enum`];
+
+  switch (schema.type) {
+    case 'null':
+      return value === null ? [] : [`${at}: expected null`];
+    case 'string':
+      return typeof value === 'string' ? [] : [`${at}: expected string`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${at}: expected boolean`];
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${at}: expected integer`];
+    case 'number':
+      return typeof value === 'number' ? [] : [`${at}: expected number`];
+    case 'array':
+      if (!Array.isArray(value)) return [`${at}: expected array`];
+      return value.flatMap((item, i) => (schema.items ? validate(item, schema.items, `${at}[${i}]`) : []));
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${at}: expected object`];
+      const record = value as Record<string, unknown>;
+      const errors = (schema.required ?? [])
+        .filter((key: string) => !(key in record))
+        .map((key: string) => `${at}.${key}: missing`);
+      if (schema.properties) {
+        for (const [key, item] of Object.entries(record)) {
+          const property = schema.properties[key];
+          if (!property) errors.push(`${at}.${key}: undocumented`);
+          else errors.push(...validate(item, property, `${at}.${key}`));
+        }
+      }
+      return errors;
+    }
+    default:
+      return [];
+  }
+}
+
+function successSchema(op: Operation): Schema {
+  return op.responses['200'].content['application/json'].schema;
+}
+
+describe('GET /v1/openapi.json', () => {
+  it('serves the OpenAPI 3.1 document', async () => {
+    const res = await request('/v1/openapi.json');
+    const body = await res.json() as any;
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Cache-Control')).toContain('max-age=3600');
+    expect(body.openapi).toBe('3.1.0');
+    expect(body).toEqual(JSON.parse(JSON.stringify(doc)));
+  });
+
+  it('tracks the package version', () => {
+    const pkg = JSON.parse(readFileSync(join(dirname(fileURLToPath(import.meta.url)), '../../package.json'), 'utf8'));
+
+    expect(doc.info.version).toBe(pkg.version);
+  });
+
+  it('matches the committed openapi.json (update with `pnpm test -u` for contract changes)', async () => {
+    await expect(`${JSON.stringify(doc, null, 2)}\n`).toMatchFileSnapshot('../../openapi.json');
+  });
+});
+
+describe('OpenAPI coverage', () => {
+  const registered = new Set(
+    app.routes
+      .filter((r) => r.path.startsWith('/v1/') && r.method !== 'ALL')
+      .map((r) => `${r.method} ${r.path.replace(/:(\w+)/g, '{$1}')}`),
+  );
+  const documented = new Set(operations.map(({ path, method }) => `${method.toUpperCase()} ${path}`));
+
+  it('documents every registered route', () => {
+    expect([...registered].filter((r) => !documented.has(r))).toEqual([]);
+  });
+
+  it('documents no route that does not exist', () => {
+    expect([...documented].filter((r) => !registered.has(r))).toEqual([]);
+  });
+
+  it('gives every operation a unique operationId', () => {
+    const ids = operations.map(({ op }) => (op as Schema).operationId);
+
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
+
+describe('OpenAPI schemas match the serializers', () => {
+  it('Dye covers every serializeDye field', () => {
+    const dye = dyeService.getAllDyes()[0];
+    const schema = resolve({ $ref: '#/components/schemas/Dye' });
+
+    expect(Object.keys(schema.properties).sort()).toEqual(Object.keys(serializeDye(dye, 'name')).sort());
+    expect(validate(serializeDye(dye), schema)).toEqual([]);
+  });
+
+  it('MarketPrice covers every market field', async () => {
+    const prices = await fetchMarketPrices(
+      createMockEnv({ UNIVERSALIS_PROXY: createMockUniversalisProxy() }),
+      'Balmung',
+      [5729],
+    );
+    const price = prices.get(5729);
+
+    expect(validate(price, { $ref: '#/components/schemas/MarketPrice' })).toEqual([]);
+    expect(Object.keys(resolve({ $ref: '#/components/schemas/MarketPrice' }).properties).sort())
+      .toEqual(Object.keys(price!).sort());
+  });
+
+  it.each(operations.filter(({ method }) => method === 'get'))(
+    '$path example response matches its schema',
+    async ({ path, op }) => {
+      const res = await request(exampleUrl(path, op));
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(validate(body, successSchema(op))).toEqual([]);
+    },
+  );
+
+  it.each(operations.filter(({ op }) => op.responses['304']))(
+    '$path example response honours its documented 304',
+    async ({ path, op }) => {
+      const etag = (await request(exampleUrl(path, op))).headers.get('ETag');
+      const res = await request(exampleUrl(path, op), { headers: { 'If-None-Match': etag ?? '' } });
+
+      expect(etag).not.toBeNull();
+      expect(res.status).toBe(304);
+    },
+  );
+
+  it('non-English responses match their schemas', async () => {
+    const op = doc.paths['/v1/match/closest'].get as Operation;
+    const res = await request(exampleUrl('/v1/match/closest', op, { locale: 'ja' }));
+
+    expect(validate(await res.json(), successSchema(op))).toEqual([]);
+  });
+
+  it('POST /v1/match/batch example response matches its schema', async () => {
+    const op = doc.paths['/v1/match/batch'].post as Operation;
+    const res = await request('/v1/match/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ colors: ['FF0000', { hex: '00FF00', count: 2 }] }),
+    });
+
+    expect(validate(await res.json(), successSchema(op))).toEqual([]);
+  });
+
+  it('error responses match the Error schema', async () => {
+    const res = await request('/v1/match/closest?hex=nothex');
+
+    expect(res.status).toBe(400);
+    expect(validate(await res.json(), { $ref: '#/components/schemas/Error' })).toEqual([]);
+  });
+});
+
+describe('OpenAPI parameters match the validators', () => {
+  // Each documented constraint is probed against the live route: out-of-range
+  // and unknown values must be rejected, every documented enum value accepted
+  const probes = operations.flatMap(({ path, method, op }) =>
+    (op.parameters ?? []).map((param) => ({ path, method, op, param, label: `${method.toUpperCase()} ${path} ${param.name}` })),
+  );
+
+  async function status(path: string, method: string, op: Operation, overrides: Record<string, string>) {
+    const res = await request(exampleUrl(path, op, overrides), { method: method.toUpperCase() });
+    return res.status;
+  }
+
+  it.each(probes.filter(({ param }) => param.schema.minimum !== undefined))(
+    '$label rejects values below its minimum',
+    async ({ path, method, op, param }) => {
+      expect(await status(path, method, op, { [param.name]: String(param.schema.minimum - 1) })).toBe(400);
+    },
+  );
+
+  it.each(probes.filter(({ param }) => param.schema.maximum !== undefined))(
+    '$label rejects values above its maximum',
+    async ({ path, method, op, param }) => {
+      expect(await status(path, method, op, { [param.name]: String(param.schema.maximum + 1) })).toBe(400);
+    },
+  );
+
+  it.each(probes.filter(({ param }) => param.schema.enum || param.schema.items?.enum))(
+    '$label accepts exactly its documented values',
+    async ({ path, method, op, param }) => {
+      expect(await status(path, method, op, { [param.name]: 'not-a-valid-value' })).toBe(400);
+      if (method !== 'get') return;
+      for (const value of param.schema.enum ?? param.schema.items.enum) {
+        expect(await status(path, method, op, { [param.name]: String(value) })).toBe(200);
+      }
+    },
+  );
+
+  it.each(probes.filter(({ param }) => param.schema.type === 'boolean' || param.schema.pattern))(
+    '$label rejects malformed values',
+    async ({ path, method, op, param }) => {
+      expect(await status(path, method, op, { [param.name]: '!!' })).toBe(400);
+    },
+  );
+
+  it.each(probes.filter(({ param }) => param.required && param.in === 'query'))(
+    '$label is required',
+    async ({ path, method, op, param }) => {
+      expect(await status(path, method, op, { [param.name]: '' })).toBe(400);
+    },
+  );
+});
@@ -3,6 +3,7 @@
  * Provides mock environment and request helpers for Hono app testing.
  */
 
+import { vi } from 'vitest';
 import { createMockKV } from '@xivdyetools/test-utils';
 import type { Env } from '../src/types.js';
 
@@ -23,4 +24,46 @@ export function buildRequest(path: string, options?: RequestInit): Request {
   return new Request(`http://localhost${path}`, options);
 }
 
+/**
+ * Mock UNIVERSALIS_PROXY service binding. Answers /api/v2/aggregated/:scope/:ids
+ * with a world-scoped NQ min listing of `priceFor(itemId)` for every requested
+ * item; items priced `null` are returned without listings. Answers
+ * /api/v2/listings/:scope/:ids in Universalis' current-data shape with
+ * `listingsCount` 7 (0 for unlisted items).
+ */
+export function createMockUniversalisProxy(
+  priceFor: (itemId: number) => number | null = () => 1000,
+  status = 200,
+) {
+  const fetch = vi.fn(async (request: Request) => {
+    if (status !== 200) {
+      return new Response(JSON.stringify({ error: 'Invalid datacenter or world name' }), { status });
+    }
+    const { pathname } = new URL(request.url);
+    const ids = pathname.split('/').pop()!.split(',').map(Number);
+    if (pathname.startsWith('/api/v2/listings/')) {
+      const items = ids.map((itemID) => ({ itemID, listingsCount: priceFor(itemID) === null ? 0 : 7 }));
+      const body = items.length === 1
+        ? items[0]
+        : { itemIDs: ids, items: Object.fromEntries(items.map((item) => [item.itemID, item])) };
+      return new Response(JSON.stringify(body));
+    }
+    const results = ids.flatMap((itemId) => {
+      const price = priceFor(itemId);
+      if (price === null) return [];
+      return [{
+        itemId,
+        nq: {
+          minListing: { world: { price } },
+          averageSalePrice: { world: { price: price * 1.5 } },
+        },
+        hq: {},
+        worldUploadTimes: [{ worldId: 1, timestamp: 1700000000000 }],
+      }];
+    });
+    return new Response(JSON.stringify({ results, failedItems: [] }));
+  });
+  return { fetch } as unknown as Fetcher & { fetch: typeof fetch };
+}
+
 export { createMockKV };
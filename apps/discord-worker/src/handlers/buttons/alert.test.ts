@@ -0,0 +1,74 @@
+/**
+ * Tests for Price Alert Button Handlers
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleAlertUnsubscribe, createAlertUnsubscribeButton, ALERT_UNSUBSCRIBE_CUSTOM_ID } from './alert.js';
+import type { Env } from '../../types/env.js';
+
+const mockClearAlerts = vi.fn();
+vi.mock('../../services/price-alerts.js', () => ({
+    clearAlerts: (...args: unknown[]) => mockClearAlerts(...args),
+}));
+
+vi.mock('../../services/bot-i18n.js', () => ({
+    createUserTranslator: vi.fn(async () => ({
+        t: (key: string) => (key === 'alert.unsubscribed' ? 'You will no longer receive price alerts.' : key),
+        getLocale: () => 'en',
+    })),
+}));
+
+interface InteractionResponseBody {
+    type: number;
+    data?: {
+        content?: string;
+        flags?: number;
+    };
+}
+
+describe('buttons/alert.ts', () => {
+    const env = { KV: {} as KVNamespace } as Env;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockClearAlerts.mockResolvedValue(2);
+    });
+
+    describe('createAlertUnsubscribeButton', () => {
+        it('should build a gray button with the unsubscribe custom_id', () => {
+            const row = createAlertUnsubscribeButton('Unsubscribe');
+
+            expect(row.type).toBe(1);
+            expect(row.components[0]).toMatchObject({
+                type: 2,
+                style: 2,
+                label: 'Unsubscribe',
+                custom_id: ALERT_UNSUBSCRIBE_CUSTOM_ID,
+            });
+        });
+    });
+
+    describe('handleAlertUnsubscribe', () => {
+        it('should clear the DM user\'s alerts and confirm ephemerally', async () => {
+            const response = await handleAlertUnsubscribe({ user: { id: 'user-1' } }, env);
+            const body = (await response.json()) as InteractionResponseBody;
+
+            expect(mockClearAlerts).toHaveBeenCalledWith(env.KV, 'user-1', undefined);
+            expect(body.data?.content).toBe('You will no longer receive price alerts.');
+            expect(body.data?.flags).toBe(64);
+        });
+
+        it('should use the member user when clicked in a server', async () => {
+            await handleAlertUnsubscribe({ member: { user: { id: 'user-2' } } }, env);
+
+            expect(mockClearAlerts).toHaveBeenCalledWith(env.KV, 'user-2', undefined);
+        });
+
+        it('should not clear anything without a user', async () => {
+            const response = await handleAlertUnsubscribe({}, env);
+            const body = (await response.json()) as InteractionResponseBody;
+
+            expect(mockClearAlerts).not.toHaveBeenCalled();
+            expect(body.data?.content).toBe('Could not identify user.');
+        });
+    });
+});
@@ -0,0 +1,65 @@
+/**
+ * Price Alert Button Handlers
+ *
+ * The "Unsubscribe" button attached to price alert DMs (sent by the scheduled
+ * check). Clicking it removes all of the user's /alert entries, so stopping
+ * the DMs never requires finding a server with the bot.
+ *
+ * Button ID format:
+ * - alert_unsubscribe_all - Remove every alert for the clicking user
+ */
+
+import type { ExtendedLogger } from '@xivdyetools/logger';
+import type { Env } from '../../types/env.js';
+import { ephemeralResponse, type DiscordActionRow } from '../../utils/response.js';
+import { createUserTranslator } from '../../services/bot-i18n.js';
+import { clearAlerts } from '../../services/price-alerts.js';
+
+/** custom_id of the unsubscribe button on alert DMs */
+export const ALERT_UNSUBSCRIBE_CUSTOM_ID = 'alert_unsubscribe_all';
+
+interface ButtonInteraction {
+  locale?: string;
+  member?: { user: { id: string } };
+  user?: { id: string };
+}
+
+/**
+ * Create the action row with the unsubscribe button for an alert DM
+ *
+ * @param label - Localized button label
+ */
+export function createAlertUnsubscribeButton(label: string): DiscordActionRow {
+  return {
+    type: 1, // ACTION_ROW
+    components: [
+      {
+        type: 2, // BUTTON
+        style: 2, // SECONDARY (gray)
+        label,
+        custom_id: ALERT_UNSUBSCRIBE_CUSTOM_ID,
+      },
+    ],
+  };
+}
+
+/**
+ * Handle alert_unsubscribe_all button
+ *
+ * DM interactions carry `user` rather than `member`.
+ */
+export async function handleAlertUnsubscribe(
+  interaction: ButtonInteraction,
+  env: Env,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const userId = interaction.member?.user?.id ?? interaction.user?.id;
+  if (!userId) {
+    return ephemeralResponse('Could not identify user.');
+  }
+
+  const t = await createUserTranslator(env.KV, userId, interaction.locale, logger);
+  await clearAlerts(env.KV, userId, logger);
+
+  return ephemeralResponse(t.t('alert.unsubscribed'));
+}
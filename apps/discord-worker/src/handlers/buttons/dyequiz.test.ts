@@ -0,0 +1,75 @@
+/**
+ * Tests for Dye Quiz Button Handlers
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleQuizAnswerButton, QUIZ_ANSWER_PREFIX } from './dyequiz.js';
+import type { Env } from '../../types/env.js';
+
+const mockAnswerRound = vi.fn();
+vi.mock('../commands/dyequiz.js', () => ({
+    answerRound: (...args: unknown[]) => mockAnswerRound(...args),
+}));
+
+vi.mock('../../services/bot-i18n.js', () => ({
+    createUserTranslator: vi.fn(async () => ({
+        t: (key: string) => key,
+        getLocale: () => 'en',
+    })),
+}));
+
+interface InteractionResponseBody {
+    type: number;
+    data?: {
+        content?: string;
+        flags?: number;
+    };
+}
+
+describe('buttons/dyequiz.ts', () => {
+    const env = { KV: {} as KVNamespace } as Env;
+    const ctx = { waitUntil: vi.fn() } as unknown as ExecutionContext;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockAnswerRound.mockResolvedValue(new Response(JSON.stringify({ type: 4, data: { content: 'scored' } })));
+    });
+
+    it('should answer the round with the dye on the button', async () => {
+        await handleQuizAnswerButton(
+            { guild_id: 'guild-1', member: { user: { id: 'user-1' } }, data: { custom_id: `${QUIZ_ANSWER_PREFIX}1a2b3c4d_5729` } },
+            env,
+            ctx
+        );
+
+        expect(mockAnswerRound).toHaveBeenCalledWith(
+            env,
+            ctx,
+            '1a2b3c4d',
+            'user-1',
+            expect.objectContaining({ itemID: 5729 }),
+            expect.anything(),
+            undefined
+        );
+    });
+
+    it('should treat a malformed button as an expired round', async () => {
+        const response = await handleQuizAnswerButton(
+            { member: { user: { id: 'user-1' } }, data: { custom_id: `${QUIZ_ANSWER_PREFIX}1a2b3c4d_999999` } },
+            env,
+            ctx
+        );
+        const body = (await response.json()) as InteractionResponseBody;
+
+        expect(mockAnswerRound).not.toHaveBeenCalled();
+        expect(body.data?.content).toBe('dyequiz.expired');
+        expect(body.data?.flags).toBe(64);
+    });
+
+    it('should not answer without a user', async () => {
+        const response = await handleQuizAnswerButton({ data: { custom_id: `${QUIZ_ANSWER_PREFIX}1a2b3c4d_5729` } }, env, ctx);
+        const body = (await response.json()) as InteractionResponseBody;
+
+        expect(mockAnswerRound).not.toHaveBeenCalled();
+        expect(body.data?.content).toBe('Could not identify user.');
+    });
+});
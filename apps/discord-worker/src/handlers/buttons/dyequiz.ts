@@ -0,0 +1,55 @@
+/**
+ * Dye Quiz Button Handlers
+ *
+ * The answer buttons under a /dyequiz round. Any server member can answer,
+ * once per round; the result is sent privately so other players aren't
+ * tipped off.
+ *
+ * Button ID format:
+ * - answer_dyequiz_{hash}_{itemID} - Answer the round stored under {hash}
+ */
+
+import type { ExtendedLogger } from '@xivdyetools/logger';
+import type { Env } from '../../types/env.js';
+import { ephemeralResponse } from '../../utils/response.js';
+import { createUserTranslator } from '../../services/bot-i18n.js';
+import { parseCustomId } from '../../services/component-context.js';
+import { getDyeById } from '../../services/budget/index.js';
+import { QUIZ_COMMAND } from '../../services/dyequiz.js';
+import { answerRound } from '../commands/dyequiz.js';
+
+/** custom_id prefix of the answer buttons */
+export const QUIZ_ANSWER_PREFIX = `answer_${QUIZ_COMMAND}_`;
+
+interface ButtonInteraction {
+  guild_id?: string;
+  locale?: string;
+  member?: { user: { id: string } };
+  user?: { id: string };
+  data?: { custom_id?: string };
+}
+
+/**
+ * Handle answer_dyequiz_* buttons
+ */
+export async function handleQuizAnswerButton(
+  interaction: ButtonInteraction,
+  env: Env,
+  ctx: ExecutionContext,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const userId = interaction.member?.user?.id ?? interaction.user?.id;
+  if (!userId) {
+    return ephemeralResponse('Could not identify user.');
+  }
+
+  const t = await createUserTranslator(env.KV, userId, interaction.locale, logger, interaction.guild_id);
+
+  const parsed = parseCustomId(interaction.data?.custom_id ?? '');
+  const guess = parsed?.value ? getDyeById(parseInt(parsed.value, 10)) : null;
+  if (!parsed || !guess) {
+    return ephemeralResponse(t.t('dyequiz.expired'));
+  }
+
+  return answerRound(env, ctx, parsed.hash, userId, guess, t, logger);
+}
@@ -16,7 +16,20 @@ vi.mock('./copy.js', () => ({
     createHexButton: vi.fn(),
 }));
 
+vi.mock('./alert.js', () => ({
+    ALERT_UNSUBSCRIBE_CUSTOM_ID: 'alert_unsubscribe_all',
+    handleAlertUnsubscribe: vi.fn(async () => new Response(JSON.stringify({ type: 4, data: { content: 'unsubscribed' } }))),
+    createAlertUnsubscribeButton: vi.fn(),
+}));
+
+vi.mock('./dyequiz.js', () => ({
+    QUIZ_ANSWER_PREFIX: 'answer_dyequiz_',
+    handleQuizAnswerButton: vi.fn(async () => new Response(JSON.stringify({ type: 4, data: { content: 'answered' } }))),
+}));
+
 import { handleCopyHex, handleCopyRgb, handleCopyHsv } from './copy.js';
+import { handleAlertUnsubscribe } from './alert.js';
+import { handleQuizAnswerButton } from './dyequiz.js';
 
 interface InteractionResponseBody {
     type: number;
@@ -75,6 +88,35 @@ describe('buttons/index.ts', () => {
             expect(handleCopyHsv).toHaveBeenCalledWith(interaction);
         });
 
+        it('should route the alert unsubscribe button to handleAlertUnsubscribe', async () => {
+            const interaction = {
+                id: '123',
+                token: 'token',
+                application_id: 'app_id',
+                user: { id: 'user-1', username: 'user' },
+                data: { custom_id: 'alert_unsubscribe_all' },
+            };
+
+            await handleButtonInteraction(interaction, mockEnv, mockCtx);
+
+            expect(handleAlertUnsubscribe).toHaveBeenCalledWith(interaction, mockEnv, undefined);
+        });
+
+        it('should route dye quiz answer buttons to handleQuizAnswerButton', async () => {
+            const interaction = {
+                id: '123',
+                token: 'token',
+                application_id: 'app_id',
+                guild_id: 'guild-1',
+                member: { user: { id: 'user-1', username: 'user' } },
+                data: { custom_id: 'answer_dyequiz_1a2b3c4d_5729' },
+            };
+
+            await handleButtonInteraction(interaction, mockEnv, mockCtx);
+
+            expect(handleQuizAnswerButton).toHaveBeenCalledWith(interaction, mockEnv, mockCtx, undefined);
+        });
+
         it('should return ephemeral message for unknown buttons', async () => {
             const interaction = {
                 id: '123',
@@ -9,15 +9,20 @@ import type { Env } from '../../types/env.js';
 import type { ExtendedLogger } from '@xivdyetools/logger';
 import { ephemeralResponse } from '../../utils/response.js';
 import { handleCopyHex, handleCopyRgb, handleCopyHsv } from './copy.js';
+import { handleAlertUnsubscribe, ALERT_UNSUBSCRIBE_CUSTOM_ID } from './alert.js';
+import { handleQuizAnswerButton, QUIZ_ANSWER_PREFIX } from './dyequiz.js';
 
 // Re-export button creation helpers
 export { createCopyButtons, createHexButton } from './copy.js';
+export { createAlertUnsubscribeButton, ALERT_UNSUBSCRIBE_CUSTOM_ID } from './alert.js';
 
 interface ButtonInteraction {
   id: string;
   token: string;
   application_id: string;
+  guild_id?: string;
   channel_id?: string;
+  locale?: string;
   message?: {
     id: string;
     embeds?: Array<{
@@ -48,11 +53,10 @@ interface ButtonInteraction {
 /**
  * Route button interactions to appropriate handlers
  */
-// eslint-disable-next-line @typescript-eslint/require-await
 export async function handleButtonInteraction(
   interaction: ButtonInteraction,
-  _env: Env,
-  _ctx: ExecutionContext,
+  env: Env,
+  ctx: ExecutionContext,
   logger?: ExtendedLogger
 ): Promise<Response> {
   const customId = interaction.data?.custom_id || '';
@@ -74,6 +78,16 @@ export async function handleButtonInteraction(
     return handleCopyHsv(interaction);
   }
 
+  // Price alert DM buttons
+  if (customId === ALERT_UNSUBSCRIBE_CUSTOM_ID) {
+    return handleAlertUnsubscribe(interaction, env, logger);
+  }
+
+  // /dyequiz answer buttons
+  if (customId.startsWith(QUIZ_ANSWER_PREFIX)) {
+    return handleQuizAnswerButton(interaction, env, ctx, logger);
+  }
+
   // Unknown button
   if (logger) {
     logger.warn(`Unknown button custom_id: ${customId}`);
@@ -338,7 +338,9 @@ describe('about.ts', () => {
       expect(createUserTranslator).toHaveBeenCalledWith(
         mockKV,
         'user-123',
-        'ja'
+        'ja',
+        undefined,
+        undefined
       );
     });
 
@@ -92,7 +92,7 @@ export async function handleAboutCommand(
   _ctx: ExecutionContext
 ): Promise<Response> {
   const userId = interaction.member?.user?.id ?? interaction.user?.id ?? 'unknown';
-  const t = await createUserTranslator(env.KV, userId, interaction.locale);
+  const t = await createUserTranslator(env.KV, userId, interaction.locale, undefined, interaction.guild_id);
 
   // Get version from package.json (bundled at build time)
   const version = packageJson.version || '2.0.0';
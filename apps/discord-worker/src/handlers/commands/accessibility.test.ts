@@ -230,7 +230,7 @@ describe('accessibility.ts', () => {
         data: {
           name: 'accessibility',
           options: [
-            { name: 'dye1', value: 'notfound', type: 3 },
+            { name: 'dye', value: 'notfound', type: 3 },
           ],
         },
         user: { id: 'user-123' },
@@ -293,7 +293,7 @@ describe('accessibility.ts', () => {
         data: {
           name: 'accessibility',
           options: [
-            { name: 'dye1', value: 'snow white', type: 3 },
+            { name: 'dye', value: 'snow white', type: 3 },
           ],
         },
         user: { id: 'user-123' },
@@ -315,7 +315,7 @@ describe('accessibility.ts', () => {
         data: {
           name: 'accessibility',
           options: [
-            { name: 'dye1', value: '#FF5733', type: 3 },
+            { name: 'dye', value: '#FF5733', type: 3 },
           ],
         },
         user: { id: 'user-123' },
@@ -336,7 +336,7 @@ describe('accessibility.ts', () => {
         data: {
           name: 'accessibility',
           options: [
-            { name: 'dye1', value: 'FF5733', type: 3 },
+            { name: 'dye', value: 'FF5733', type: 3 },
           ],
         },
         user: { id: 'user-123' },
@@ -357,7 +357,7 @@ describe('accessibility.ts', () => {
         data: {
           name: 'accessibility',
           options: [
-            { name: 'dye1', value: 'snow white', type: 3 },
+            { name: 'dye', value: 'snow white', type: 3 },
           ],
         },
         user: { id: 'user-123' },
@@ -382,7 +382,7 @@ describe('accessibility.ts', () => {
         data: {
           name: 'accessibility',
           options: [
-            { name: 'dye1', value: 'snow white', type: 3 },
+            { name: 'dye', value: 'snow white', type: 3 },
             { name: 'vision', value: 'protanopia', type: 3 },
           ],
         },
@@ -410,7 +410,7 @@ describe('accessibility.ts', () => {
         data: {
           name: 'accessibility',
           options: [
-            { name: 'dye1', value: 'snow white', type: 3 },
+            { name: 'dye', value: 'snow white', type: 3 },
             { name: 'dye2', value: 'soot black', type: 3 },
           ],
         },
@@ -432,7 +432,7 @@ describe('accessibility.ts', () => {
         data: {
           name: 'accessibility',
           options: [
-            { name: 'dye1', value: 'snow white', type: 3 },
+            { name: 'dye', value: 'snow white', type: 3 },
             { name: 'dye2', value: 'soot black', type: 3 },
           ],
         },
@@ -456,7 +456,7 @@ describe('accessibility.ts', () => {
         data: {
           name: 'accessibility',
           options: [
-            { name: 'dye1', value: '#FFFFFF', type: 3 },
+            { name: 'dye', value: '#FFFFFF', type: 3 },
             { name: 'dye2', value: '#000000', type: 3 },
             { name: 'dye3', value: '#FF0000', type: 3 },
             { name: 'dye4', value: '#00FF00', type: 3 },
@@ -484,7 +484,7 @@ describe('accessibility.ts', () => {
         data: {
           name: 'accessibility',
           options: [
-            { name: 'dye1', value: 'snow white', type: 3 },
+            { name: 'dye', value: 'snow white', type: 3 },
           ],
         },
         user: { id: 'user-123' },
@@ -516,7 +516,7 @@ describe('accessibility.ts', () => {
         data: {
           name: 'accessibility',
           options: [
-            { name: 'dye1', value: 'facewear', type: 3 },
+            { name: 'dye', value: 'facewear', type: 3 },
           ],
         },
         user: { id: 'user-123' },
@@ -543,7 +543,7 @@ describe('accessibility.ts', () => {
         data: {
           name: 'accessibility',
           options: [
-            { name: 'dye1', value: 'snow white', type: 3 },
+            { name: 'dye', value: 'snow white', type: 3 },
           ],
         },
         user: { id: 'user-123' },
@@ -570,7 +570,7 @@ describe('accessibility.ts', () => {
         data: {
           name: 'accessibility',
           options: [
-            { name: 'dye1', value: 'snow white', type: 3 },
+            { name: 'dye', value: 'snow white', type: 3 },
           ],
         },
         user: { id: 'user-123' },
@@ -596,7 +596,7 @@ describe('accessibility.ts', () => {
         data: {
           name: 'accessibility',
           options: [
-            { name: 'dye1', value: 'snow white', type: 3 },
+            { name: 'dye', value: 'snow white', type: 3 },
           ],
         },
         user: { id: 'user-123' },
@@ -612,7 +612,9 @@ describe('accessibility.ts', () => {
       expect(createUserTranslator).toHaveBeenCalledWith(
         mockEnv.KV,
         'user-123',
-        'ja'
+        'ja',
+        undefined,
+        undefined
       );
     });
   });
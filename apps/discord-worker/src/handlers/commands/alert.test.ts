@@ -0,0 +1,281 @@
+/**
+ * Tests for /alert command handler
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleAlertCommand, handleAlertAutocomplete } from './alert.js';
+import type { DiscordInteraction, Env, InteractionResponseBody } from '../../types/env.js';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+const mockValidateWorld = vi.fn();
+const mockIsUniversalisEnabled = vi.fn();
+vi.mock('../../services/budget/index.js', () => ({
+    getDyeById: (id: number) => (id === 5729 ? { id: 1, itemID: 5729, name: 'Pure White', hex: '#F9F8F4' } : undefined),
+    getDyeByName: (name: string) =>
+        name.toLowerCase() === 'pure white' ? { id: 1, itemID: 5729, name: 'Pure White', hex: '#F9F8F4' } : undefined,
+    getDyeAutocomplete: vi.fn(() => [{ name: 'Pure White', value: '5729' }]),
+    isUniversalisEnabled: (...args: unknown[]) => mockIsUniversalisEnabled(...args),
+    validateWorld: (...args: unknown[]) => mockValidateWorld(...args),
+    getWorldAutocomplete: vi.fn(async () => [{ name: 'Cactuar', value: 'Cactuar' }]),
+}));
+
+const mockGetAlerts = vi.fn();
+const mockAddAlert = vi.fn();
+const mockRemoveAlert = vi.fn();
+const mockClearAlerts = vi.fn();
+vi.mock('../../services/price-alerts.js', () => ({
+    MAX_ALERTS_PER_USER: 10,
+    ALERT_COOLDOWN_HOURS: 12,
+    getAlerts: (...args: unknown[]) => mockGetAlerts(...args),
+    addAlert: (...args: unknown[]) => mockAddAlert(...args),
+    removeAlert: (...args: unknown[]) => mockRemoveAlert(...args),
+    clearAlerts: (...args: unknown[]) => mockClearAlerts(...args),
+    isAlertCoolingDown: () => false,
+}));
+
+let mockPrefs: Record<string, unknown> = {};
+vi.mock('../../services/bot-i18n.js', () => ({
+    createUserTranslatorWithPrefs: vi.fn(async () => ({
+        t: {
+            t: (key: string, vars?: Record<string, unknown>) => (vars ? `${key} ${JSON.stringify(vars)}` : key),
+            getLocale: () => 'en',
+        },
+        prefs: mockPrefs,
+    })),
+}));
+
+vi.mock('../../services/i18n.js', () => ({
+    initializeLocale: vi.fn(),
+    getLocalizedDyeName: (_id: number, name: string) => name,
+}));
+
+vi.mock('../../services/emoji.js', () => ({
+    getDyeEmoji: () => undefined,
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+const env = { KV: {} as KVNamespace } as Env;
+const ctx = {} as ExecutionContext;
+
+function interactionFor(subcommand: string, options: Array<Record<string, unknown>> = []): DiscordInteraction {
+    return {
+        id: 'interaction-1',
+        application_id: 'app-id',
+        type: 2,
+        token: 'test-token',
+        member: { user: { id: 'user-1' } },
+        data: {
+            name: 'alert',
+            options: [{ name: subcommand, type: 1, options }],
+        },
+    } as DiscordInteraction;
+}
+
+async function bodyOf(response: Response): Promise<InteractionResponseBody> {
+    return (await response.json()) as InteractionResponseBody;
+}
+
+describe('alert.ts', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockPrefs = {};
+        mockIsUniversalisEnabled.mockReturnValue(true);
+        mockValidateWorld.mockImplementation(async (_env: Env, world: string) =>
+            world.toLowerCase() === 'cactuar' ? 'Cactuar' : null
+        );
+        mockGetAlerts.mockResolvedValue([]);
+    });
+
+    describe('/alert add', () => {
+        it('should store the alert with the validated world', async () => {
+            mockAddAlert.mockResolvedValue({ success: true, alert: { id: 'abc12345' } });
+
+            const response = await handleAlertCommand(
+                interactionFor('add', [
+                    { name: 'dye', value: '5729' },
+                    { name: 'max_price', value: 50000 },
+                    { name: 'world', value: 'cactuar' },
+                ]),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(mockAddAlert).toHaveBeenCalledWith(env.KV, 'user-1', 5729, 'Cactuar', 50000, undefined);
+            expect(body.data?.flags).toBe(64);
+            expect(body.data?.embeds?.[0].description).toContain('alert.added');
+        });
+
+        it('should fall back to the saved world preference', async () => {
+            mockPrefs = { world: 'Cactuar' };
+            mockAddAlert.mockResolvedValue({ success: true, alert: { id: 'abc12345' }, updated: true });
+
+            const response = await handleAlertCommand(
+                interactionFor('add', [
+                    { name: 'dye', value: 'Pure White' },
+                    { name: 'max_price', value: 50000 },
+                ]),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(mockAddAlert).toHaveBeenCalledWith(env.KV, 'user-1', 5729, 'Cactuar', 50000, undefined);
+            expect(body.data?.embeds?.[0].description).toContain('alert.updated');
+        });
+
+        it('should ask for a world when none is given or saved', async () => {
+            const response = await handleAlertCommand(
+                interactionFor('add', [
+                    { name: 'dye', value: '5729' },
+                    { name: 'max_price', value: 50000 },
+                ]),
+                env,
+                ctx
+            );
+
+            expect((await bodyOf(response)).data?.content).toBe('alert.errors.missingWorld');
+            expect(mockAddAlert).not.toHaveBeenCalled();
+        });
+
+        it('should reject unknown worlds', async () => {
+            const response = await handleAlertCommand(
+                interactionFor('add', [
+                    { name: 'dye', value: '5729' },
+                    { name: 'max_price', value: 50000 },
+                    { name: 'world', value: 'Atlantis' },
+                ]),
+                env,
+                ctx
+            );
+
+            expect((await bodyOf(response)).data?.content).toContain('budget.errors.worldNotFound');
+        });
+
+        it('should reject unknown dyes', async () => {
+            const response = await handleAlertCommand(
+                interactionFor('add', [
+                    { name: 'dye', value: 'Not A Dye' },
+                    { name: 'max_price', value: 50000 },
+                    { name: 'world', value: 'Cactuar' },
+                ]),
+                env,
+                ctx
+            );
+
+            expect((await bodyOf(response)).data?.content).toContain('budget.errors.dyeNotFound');
+        });
+
+        it('should report the per-user limit', async () => {
+            mockAddAlert.mockResolvedValue({ success: false, reason: 'limitReached' });
+
+            const response = await handleAlertCommand(
+                interactionFor('add', [
+                    { name: 'dye', value: '5729' },
+                    { name: 'max_price', value: 50000 },
+                    { name: 'world', value: 'Cactuar' },
+                ]),
+                env,
+                ctx
+            );
+
+            expect((await bodyOf(response)).data?.content).toBe('alert.errors.limitReached {"max":10}');
+        });
+
+        it('should explain when market prices are unavailable', async () => {
+            mockIsUniversalisEnabled.mockReturnValue(false);
+
+            const response = await handleAlertCommand(
+                interactionFor('add', [{ name: 'dye', value: '5729' }]),
+                env,
+                ctx
+            );
+
+            expect((await bodyOf(response)).data?.content).toBe('budget.errors.notConfigured');
+        });
+    });
+
+    describe('/alert list', () => {
+        it('should show the empty state', async () => {
+            const response = await handleAlertCommand(interactionFor('list'), env, ctx);
+
+            expect((await bodyOf(response)).data?.content).toBe('alert.listEmpty');
+        });
+
+        it('should list each alert', async () => {
+            mockGetAlerts.mockResolvedValue([
+                { id: 'abc12345', itemId: 5729, world: 'Cactuar', maxPrice: 50000, createdAt: '' },
+            ]);
+
+            const response = await handleAlertCommand(interactionFor('list'), env, ctx);
+            const embed = (await bodyOf(response)).data?.embeds?.[0];
+
+            expect(embed?.description).toContain('Pure White');
+            expect(embed?.footer?.text).toContain('"count":1');
+        });
+    });
+
+    describe('/alert remove', () => {
+        it('should confirm the removed alert', async () => {
+            mockRemoveAlert.mockResolvedValue({ id: 'abc12345', itemId: 5729, world: 'Cactuar', maxPrice: 1, createdAt: '' });
+
+            const response = await handleAlertCommand(
+                interactionFor('remove', [{ name: 'alert', value: 'abc12345' }]),
+                env,
+                ctx
+            );
+
+            expect(mockRemoveAlert).toHaveBeenCalledWith(env.KV, 'user-1', 'abc12345', undefined);
+            expect((await bodyOf(response)).data?.content).toContain('alert.removed');
+        });
+
+        it('should show an error for unknown alerts', async () => {
+            mockRemoveAlert.mockResolvedValue(null);
+
+            const response = await handleAlertCommand(
+                interactionFor('remove', [{ name: 'alert', value: 'missing' }]),
+                env,
+                ctx
+            );
+
+            expect((await bodyOf(response)).data?.embeds?.[0].description).toBe('alert.errors.notFound');
+        });
+    });
+
+    describe('/alert clear', () => {
+        it('should report how many alerts were removed', async () => {
+            mockClearAlerts.mockResolvedValue(3);
+
+            const response = await handleAlertCommand(interactionFor('clear'), env, ctx);
+
+            expect((await bodyOf(response)).data?.content).toBe('alert.cleared {"count":3}');
+        });
+    });
+
+    describe('handleAlertAutocomplete', () => {
+        it('should suggest the user\'s own alerts for remove', async () => {
+            mockGetAlerts.mockResolvedValue([
+                { id: 'abc12345', itemId: 5729, world: 'Cactuar', maxPrice: 50000, createdAt: '' },
+            ]);
+
+            const response = await handleAlertAutocomplete(
+                interactionFor('remove', [{ name: 'alert', value: 'white', focused: true }]),
+                env
+            );
+            const body = (await response.json()) as { type: number; data: { choices: Array<{ value: string }> } };
+
+            expect(body.type).toBe(8);
+            expect(body.data.choices).toEqual([expect.objectContaining({ value: 'abc12345' })]);
+        });
+
+        it('should return no choices without a focused option', async () => {
+            const response = await handleAlertAutocomplete(interactionFor('add'), env);
+            const body = (await response.json()) as { data: { choices: unknown[] } };
+
+            expect(body.data.choices).toEqual([]);
+        });
+    });
+});
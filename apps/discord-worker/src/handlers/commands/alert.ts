@@ -0,0 +1,318 @@
+/**
+ * /alert Command Handler
+ *
+ * Market price alerts: the bot DMs the user when a dye's lowest market board
+ * listing on a world/datacenter drops to or below their Gil threshold. The
+ * prices are checked by the scheduled handler (handlers/scheduled).
+ *
+ * Subcommands:
+ * - /alert add <dye> <max_price> [world] - Watch a dye (world defaults to /budget set_world)
+ * - /alert list - Show your alerts
+ * - /alert remove <alert> - Stop one alert
+ * - /alert clear - Stop all alerts
+ */
+
+import type { ExtendedLogger } from '@xivdyetools/logger';
+import { ephemeralResponse, errorEmbed, type DiscordEmbed } from '../../utils/response.js';
+import { createUserTranslatorWithPrefs, type Translator } from '../../services/bot-i18n.js';
+import { initializeLocale, getLocalizedDyeName } from '../../services/i18n.js';
+import { getDyeEmoji } from '../../services/emoji.js';
+import {
+  getDyeById,
+  getDyeByName,
+  getDyeAutocomplete,
+  isUniversalisEnabled,
+  validateWorld,
+  getWorldAutocomplete,
+} from '../../services/budget/index.js';
+import {
+  getAlerts,
+  addAlert,
+  removeAlert,
+  clearAlerts,
+  isAlertCoolingDown,
+  MAX_ALERTS_PER_USER,
+  ALERT_COOLDOWN_HOURS,
+  type PriceAlert,
+} from '../../services/price-alerts.js';
+import { formatGil } from '../../types/budget.js';
+import type { UserPreferences } from '../../types/preferences.js';
+import type { Env, DiscordInteraction } from '../../types/env.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Gold, matching the Gil theme of /budget */
+const ALERT_COLOR = 0xf1c40f;
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Handles the /alert command and subcommands
+ */
+export async function handleAlertCommand(
+  interaction: DiscordInteraction,
+  env: Env,
+  _ctx: ExecutionContext,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const userId = interaction.member?.user?.id ?? interaction.user?.id ?? 'unknown';
+  const { t, prefs } = await createUserTranslatorWithPrefs(env.KV, userId, interaction.locale, logger, interaction.guild_id);
+  await initializeLocale(t.getLocale());
+
+  const options = interaction.data?.options || [];
+  const subcommand = options[0];
+
+  if (!subcommand || !subcommand.name) {
+    return ephemeralResponse(t.t('common.error'));
+  }
+
+  switch (subcommand.name) {
+    case 'add':
+      return handleAddSubcommand(env, subcommand.options || [], t, userId, prefs, logger);
+
+    case 'list':
+      return handleListSubcommand(env, t, userId, logger);
+
+    case 'remove':
+      return handleRemoveSubcommand(env, subcommand.options || [], t, userId, logger);
+
+    case 'clear':
+      return handleClearSubcommand(env, t, userId, logger);
+
+    default:
+      return ephemeralResponse(t.t('common.error'));
+  }
+}
+
+// ============================================================================
+// Subcommand Handlers
+// ============================================================================
+
+/**
+ * Handles /alert add <dye> <max_price> [world]
+ */
+async function handleAddSubcommand(
+  env: Env,
+  options: Array<{ name: string; value?: string | number | boolean }>,
+  t: Translator,
+  userId: string,
+  prefs: UserPreferences,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  if (!isUniversalisEnabled(env)) {
+    return ephemeralResponse(t.t('budget.errors.notConfigured'));
+  }
+
+  const dyeInput = options.find((opt) => opt.name === 'dye')?.value as string | undefined;
+  const maxPrice = options.find((opt) => opt.name === 'max_price')?.value as number | undefined;
+  const worldInput = (options.find((opt) => opt.name === 'world')?.value as string | undefined) ?? prefs.world;
+
+  if (!dyeInput) {
+    return ephemeralResponse(t.t('budget.errors.missingDye'));
+  }
+
+  // Same resolution as /budget find: numeric input is an item ID from
+  // autocomplete; Facewear (synthetic negative IDs) has no market listings
+  const dye = /^\s*\d+\s*$/.test(dyeInput) ? getDyeById(parseInt(dyeInput, 10)) : getDyeByName(dyeInput);
+  if (!dye || dye.itemID <= 0) {
+    return ephemeralResponse(t.t('budget.errors.dyeNotFound', { name: dyeInput }));
+  }
+
+  if (typeof maxPrice !== 'number' || !Number.isInteger(maxPrice) || maxPrice <= 0) {
+    return ephemeralResponse(t.t('alert.errors.invalidPrice'));
+  }
+
+  if (!worldInput) {
+    return ephemeralResponse(t.t('alert.errors.missingWorld'));
+  }
+
+  const world = await validateWorld(env, worldInput, logger);
+  if (!world) {
+    return ephemeralResponse(t.t('budget.errors.worldNotFound', { world: worldInput }));
+  }
+
+  const result = await addAlert(env.KV, userId, dye.itemID, world, maxPrice, logger);
+
+  if (!result.success) {
+    return ephemeralResponse(
+      result.reason === 'limitReached'
+        ? t.t('alert.errors.limitReached', { max: MAX_ALERTS_PER_USER })
+        : t.t('alert.errors.saveFailed')
+    );
+  }
+
+  const vars = {
+    dyeName: getLocalizedDyeName(dye.itemID, dye.name, t.getLocale()),
+    price: formatGil(maxPrice),
+    world,
+  };
+
+  return ephemeralResponse({
+    embeds: [
+      {
+        title: `🔔 ${t.t('alert.listTitle')}`,
+        description:
+          `${t.t(result.updated ? 'alert.updated' : 'alert.added', vars)}\n\n` +
+          t.t('alert.checkInterval', { hours: ALERT_COOLDOWN_HOURS }),
+        color: parseInt(dye.hex.replace('#', ''), 16),
+        footer: { text: t.t('common.footer') },
+      },
+    ],
+  });
+}
+
+/**
+ * Handles /alert list
+ */
+async function handleListSubcommand(
+  env: Env,
+  t: Translator,
+  userId: string,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const alerts = await getAlerts(env.KV, userId, logger);
+
+  if (alerts.length === 0) {
+    return ephemeralResponse(t.t('alert.listEmpty'));
+  }
+
+  const now = Date.now();
+  const lines = alerts.map((alert) => {
+    const cooling = isAlertCoolingDown(alert, now) ? ` · *${t.t('alert.coolingDown')}*` : '';
+    return `${formatAlertLine(alert, t)}${cooling}`;
+  });
+
+  const embed: DiscordEmbed = {
+    title: `🔔 ${t.t('alert.listTitle')}`,
+    description: lines.join('\n'),
+    color: ALERT_COLOR,
+    footer: { text: t.t('alert.listFooter', { count: alerts.length, max: MAX_ALERTS_PER_USER }) },
+  };
+
+  return ephemeralResponse({ embeds: [embed] });
+}
+
+/**
+ * Handles /alert remove <alert>
+ */
+async function handleRemoveSubcommand(
+  env: Env,
+  options: Array<{ name: string; value?: string | number | boolean }>,
+  t: Translator,
+  userId: string,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const alertId = options.find((opt) => opt.name === 'alert')?.value as string | undefined;
+  const removed = alertId ? await removeAlert(env.KV, userId, alertId, logger) : null;
+
+  if (!removed) {
+    return ephemeralResponse({
+      embeds: [errorEmbed(t.t('common.error'), t.t('alert.errors.notFound'))],
+    });
+  }
+
+  const dye = getDyeById(removed.itemId);
+  return ephemeralResponse(
+    t.t('alert.removed', {
+      dyeName: dye ? getLocalizedDyeName(dye.itemID, dye.name, t.getLocale()) : String(removed.itemId),
+      world: removed.world,
+    })
+  );
+}
+
+/**
+ * Handles /alert clear
+ */
+async function handleClearSubcommand(
+  env: Env,
+  t: Translator,
+  userId: string,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const count = await clearAlerts(env.KV, userId, logger);
+
+  if (count === 0) {
+    return ephemeralResponse(t.t('alert.listEmpty'));
+  }
+
+  return ephemeralResponse(t.t('alert.cleared', { count }));
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Format an alert as a list line: emoji, localized dye name, threshold, world
+ */
+export function formatAlertLine(alert: PriceAlert, t: Translator): string {
+  const dye = getDyeById(alert.itemId);
+  const emoji = dye ? getDyeEmoji(dye.itemID) : undefined;
+  const emojiPrefix = emoji ? `${emoji} ` : '';
+  const dyeName = dye ? getLocalizedDyeName(dye.itemID, dye.name, t.getLocale()) : String(alert.itemId);
+
+  return `${emojiPrefix}${t.t('alert.listEntry', { dyeName, price: formatGil(alert.maxPrice), world: alert.world })}`;
+}
+
+// ============================================================================
+// Autocomplete Handler
+// ============================================================================
+
+/**
+ * Handles autocomplete for the /alert command
+ */
+export async function handleAlertAutocomplete(
+  interaction: DiscordInteraction,
+  env: Env,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const options = interaction.data?.options || [];
+  const subcommand = options[0];
+  const userId = interaction.member?.user?.id ?? interaction.user?.id;
+
+  const focusedOption = subcommand?.options?.find((opt) => opt.focused === true) as
+    | { name: string; value?: string }
+    | undefined;
+
+  if (!focusedOption) {
+    return Response.json({ type: 8, data: { choices: [] } });
+  }
+
+  const query = String(focusedOption.value || '');
+  let choices: Array<{ name: string; value: string }> = [];
+
+  switch (focusedOption.name) {
+    case 'dye':
+      choices = getDyeAutocomplete(query, 25);
+      break;
+
+    case 'world':
+      choices = await getWorldAutocomplete(env, query, logger);
+      break;
+
+    case 'alert':
+      if (userId) {
+        const normalizedQuery = query.toLowerCase();
+        const alerts = await getAlerts(env.KV, userId, logger);
+        choices = alerts
+          .map((alert) => ({
+            name: `${getDyeById(alert.itemId)?.name ?? alert.itemId} ≤ ${formatGil(alert.maxPrice)} Gil (${alert.world})`,
+            value: alert.id,
+          }))
+          .filter((choice) => choice.name.toLowerCase().includes(normalizedQuery));
+      }
+      break;
+
+    default:
+      break;
+  }
+
+  return Response.json({
+    type: 8, // APPLICATION_COMMAND_AUTOCOMPLETE_RESULT
+    data: { choices },
+  });
+}
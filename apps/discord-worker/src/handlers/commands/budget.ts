@@ -56,7 +56,7 @@ export async function handleBudgetCommand(
 ): Promise<Response> {
   const userId = interaction.member?.user?.id ?? interaction.user?.id ?? 'unknown';
   // OPT-026 (2026-07-18 audit): one KV read yields both translator and prefs
-  const { t, prefs } = await createUserTranslatorWithPrefs(env.KV, userId, interaction.locale, logger);
+  const { t, prefs } = await createUserTranslatorWithPrefs(env.KV, userId, interaction.locale, logger, interaction.guild_id);
 
   // Get subcommand
   const options = interaction.data?.options || [];
@@ -3,6 +3,7 @@
  */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { handleCollectionCommand } from './collection.js';
+import { createShareCode } from '../../services/collection-share.js';
 import type { DiscordInteraction, Env, InteractionResponseBody } from '../../types/env.js';
 
 // ---------------------------------------------------------------------------
@@ -41,7 +42,9 @@ vi.mock('../../services/i18n.js', () => ({
 const mockStorage = vi.hoisted(() => ({
   getCollections: vi.fn(),
   getCollection: vi.fn(),
+  getCollectionById: vi.fn(),
   createCollection: vi.fn(),
+  importCollection: vi.fn(),
   deleteCollection: vi.fn(),
   renameCollection: vi.fn(),
   addDyeToCollection: vi.fn(),
@@ -55,6 +58,18 @@ vi.mock('../../services/user-storage.js', () => ({
   MAX_COLLECTION_NAME_LENGTH: 20,
 }));
 
+// /collection publish hands off to the /preset submit flow
+const mockProcessSubmit = vi.hoisted(() => vi.fn());
+vi.mock('./preset.js', () => ({ processSubmitCommand: mockProcessSubmit }));
+
+const mockIsApiEnabled = vi.hoisted(() => vi.fn(() => true));
+vi.mock('../../services/preset-api.js', () => ({ isApiEnabled: mockIsApiEnabled }));
+
+// Sync is covered by services/library-sync.test.ts; run the command directly
+vi.mock('../../services/library-sync.js', () => ({
+  withLibrarySync: (_env: unknown, _ctx: unknown, _userId: string, operation: () => Promise<Response>) => operation(),
+}));
+
 vi.mock('../../services/bot-i18n.js', () => ({
   createUserTranslator: vi.fn(async () => translator),
   createTranslator: () => translator,
@@ -95,6 +110,15 @@ const translator = {
       'collection.createHint': 'use /collection create',
       'collection.showHint': 'use /collection show',
       'collection.renamed': `${vars?.oldName} -> ${vars?.newName}`,
+      'collection.share.title': `share ${vars?.name}`,
+      'collection.share.description': `share hint ${vars?.name}`,
+      'collection.share.notConfigured': 'sharing not configured',
+      'collection.import.imported': `imported ${vars?.name} (${vars?.count})`,
+      'collection.import.invalidCode': 'invalid code',
+      'collection.import.unavailable': 'collection unavailable',
+      'collection.import.nameHint': 'pick another name',
+      'collection.publish.dyeCount': `needs ${vars?.min}-${vars?.max} dyes, has ${vars?.count}`,
+      'collection.publish.needsDescription': 'needs description',
     };
     return table[key] ?? key;
   },
@@ -110,6 +134,7 @@ const env: Env = {
   DISCORD_CLIENT_ID: 'app',
   DISCORD_TOKEN: 'token',
   PRESETS_API_URL: 'https://test-api.example.com',
+  COLLECTION_SHARE_SECRET: 'test-collection-share-secret-0123456789',
 } as unknown as Env;
 
 const ctx: ExecutionContext = {
@@ -662,4 +687,134 @@ describe('/collection command', () => {
     const body = (await res.json()) as InteractionResponseBody;
     expect(body.data!.embeds![0].description).toContain('failed to save');
   });
+
+  describe('share / import / publish', () => {
+    const ownerId = '123456789012345678';
+    const shared = {
+      id: '0f8e2c1a-3b4d-4e5f-8a9b-0c1d2e3f4a5b',
+      name: 'Shared',
+      description: 'A shared set',
+      dyes: [1, 2],
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    };
+
+    function run(name: string, options: Array<{ name: string; value: string }>, userId = 'u1') {
+      const interaction: DiscordInteraction = {
+        ...baseInteraction,
+        member: { user: { id: userId, username: 't' } },
+        data: { ...baseInteraction.data, options: [{ type: 1, name, options }] },
+      };
+      return handleCollectionCommand(interaction, env, ctx);
+    }
+
+    it('shares a collection as a signed code', async () => {
+      mockStorage.getCollection.mockResolvedValueOnce(shared);
+
+      const res = await run('share', [{ name: 'name', value: 'shared' }], ownerId);
+      const body = (await res.json()) as InteractionResponseBody;
+
+      const expected = await createShareCode({ ownerId, collectionId: shared.id }, env.COLLECTION_SHARE_SECRET!);
+      expect(body.data!.flags).toBe(64);
+      expect(body.data!.embeds![0].description).toContain(expected!);
+    });
+
+    it('refuses to share when no secret is configured', async () => {
+      const interaction: DiscordInteraction = {
+        ...baseInteraction,
+        member: { user: { id: ownerId, username: 't' } },
+        data: { ...baseInteraction.data, options: [{ type: 1, name: 'share', options: [{ name: 'name', value: 'Shared' }] }] },
+      };
+      const res = await handleCollectionCommand(interaction, { ...env, COLLECTION_SHARE_SECRET: undefined }, ctx);
+      const body = (await res.json()) as InteractionResponseBody;
+
+      expect(body.data!.embeds![0].description).toContain('sharing not configured');
+      expect(mockStorage.getCollection).not.toHaveBeenCalled();
+    });
+
+    it('imports a shared collection from its code', async () => {
+      const code = await createShareCode({ ownerId, collectionId: shared.id }, env.COLLECTION_SHARE_SECRET!);
+      mockStorage.getCollectionById.mockResolvedValueOnce(shared);
+      mockStorage.importCollection.mockResolvedValueOnce({ success: true, collection: { ...shared, name: 'Copy' } });
+
+      const res = await run('import', [{ name: 'code', value: code! }, { name: 'name', value: 'Copy' }]);
+      const body = (await res.json()) as InteractionResponseBody;
+
+      expect(mockStorage.getCollectionById).toHaveBeenCalledWith(env.KV, ownerId, shared.id);
+      expect(mockStorage.importCollection).toHaveBeenCalledWith(env.KV, 'u1', shared, 'Copy');
+      expect(body.data!.embeds![0].description).toContain('imported Copy (2)');
+    });
+
+    it('rejects a tampered code without reading storage', async () => {
+      const code = await createShareCode({ ownerId, collectionId: shared.id }, env.COLLECTION_SHARE_SECRET!);
+      const tampered = `${code!.slice(0, -1)}${code!.endsWith('A') ? 'B' : 'A'}`;
+
+      const res = await run('import', [{ name: 'code', value: tampered }]);
+      const body = (await res.json()) as InteractionResponseBody;
+
+      expect(body.data!.embeds![0].description).toContain('invalid code');
+      expect(mockStorage.getCollectionById).not.toHaveBeenCalled();
+    });
+
+    it('reports a deleted shared collection', async () => {
+      const code = await createShareCode({ ownerId, collectionId: shared.id }, env.COLLECTION_SHARE_SECRET!);
+      mockStorage.getCollectionById.mockResolvedValueOnce(null);
+
+      const res = await run('import', [{ name: 'code', value: code! }]);
+      const body = (await res.json()) as InteractionResponseBody;
+
+      expect(body.data!.embeds![0].description).toContain('collection unavailable');
+    });
+
+    it('explains import limits and name clashes', async () => {
+      const code = await createShareCode({ ownerId, collectionId: shared.id }, env.COLLECTION_SHARE_SECRET!);
+      mockStorage.getCollectionById.mockResolvedValue(shared);
+      mockStorage.importCollection
+        .mockResolvedValueOnce({ success: false, reason: 'alreadyExists' })
+        .mockResolvedValueOnce({ success: false, reason: 'limitReached' });
+
+      const clash = (await (await run('import', [{ name: 'code', value: code! }])).json()) as InteractionResponseBody;
+      const full = (await (await run('import', [{ name: 'code', value: code! }])).json()) as InteractionResponseBody;
+
+      expect(clash.data!.embeds![0].description).toContain('collection exists: Shared');
+      expect(clash.data!.embeds![0].description).toContain('pick another name');
+      expect(full.data!.embeds![0].description).toContain('collection limit 5');
+      mockStorage.getCollectionById.mockReset();
+    });
+
+    it('publishes a collection through the preset submit flow', async () => {
+      mockStorage.getCollection.mockResolvedValueOnce(shared);
+
+      const res = await run('publish', [
+        { name: 'name', value: 'Shared' },
+        { name: 'category', value: 'aesthetics' },
+        { name: 'tags', value: 'cozy, winter' },
+      ]);
+      const body = (await res.json()) as InteractionResponseBody;
+
+      expect(body.type).toBe(5);
+      expect(ctx.waitUntil).toHaveBeenCalled();
+      expect(mockProcessSubmit).toHaveBeenCalledWith(expect.anything(), env, translator, 'u1', 't', {
+        name: 'Shared',
+        description: 'A shared set',
+        category_id: 'aesthetics',
+        dyes: [1, 2],
+        tags: ['cozy', 'winter'],
+      });
+    });
+
+    it('requires a preset-sized collection and a description to publish', async () => {
+      mockStorage.getCollection
+        .mockResolvedValueOnce({ ...shared, dyes: [1] })
+        .mockResolvedValueOnce({ ...shared, description: undefined });
+      const options = [{ name: 'name', value: 'Shared' }, { name: 'category', value: 'community' }];
+
+      const tooFew = (await (await run('publish', options)).json()) as InteractionResponseBody;
+      const noDescription = (await (await run('publish', options)).json()) as InteractionResponseBody;
+
+      expect(tooFew.data!.embeds![0].description).toContain('needs 2-5 dyes, has 1');
+      expect(noDescription.data!.embeds![0].description).toContain('needs description');
+      expect(mockProcessSubmit).not.toHaveBeenCalled();
+    });
+  });
 });
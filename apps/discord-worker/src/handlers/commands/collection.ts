@@ -9,11 +9,13 @@
  */
 
 import type { Dye } from '@xivdyetools/types';
-import { messageResponse, errorEmbed } from '../../utils/response.js';
+import { messageResponse, deferredResponse, errorEmbed } from '../../utils/response.js';
 import {
   getCollections,
   getCollection,
+  getCollectionById,
   createCollection,
+  importCollection,
   deleteCollection,
   renameCollection,
   addDyeToCollection,
@@ -26,6 +28,11 @@ import { getDyeEmoji } from '../../services/emoji.js';
 import { resolveDyeInput, dyeService } from '../../utils/color.js';
 import { createUserTranslator, createTranslator, type Translator } from '../../services/bot-i18n.js';
 import { discordLocaleToLocaleCode, initializeLocale, getLocalizedDyeName } from '../../services/i18n.js';
+import { createShareCode, parseShareCode } from '../../services/collection-share.js';
+import { withLibrarySync } from '../../services/library-sync.js';
+import { isApiEnabled } from '../../services/preset-api.js';
+import { processSubmitCommand } from './preset.js';
+import { CATEGORY_DISPLAY, type PresetCategory } from '../../types/preset.js';
 import type { Env, DiscordInteraction } from '../../types/env.js';
 
 // ============================================================================
@@ -38,6 +45,10 @@ const DEPRECATION_NOTICE = '⚠️ **This command is deprecated.** Use `/preset`
 /** Color for deprecation warning embeds */
 const DEPRECATION_COLOR = 0xfee75c; // Yellow
 
+/** Dye count a preset accepts, for /collection publish */
+const MIN_PRESET_DYES = 2;
+const MAX_PRESET_DYES = 5;
+
 // ============================================================================
 // Main Handler
 // ============================================================================
@@ -50,7 +61,7 @@ const DEPRECATION_COLOR = 0xfee75c; // Yellow
 export async function handleCollectionCommand(
   interaction: DiscordInteraction,
   env: Env,
-  _ctx: ExecutionContext
+  ctx: ExecutionContext
 ): Promise<Response> {
   const userId = interaction.member?.user?.id ?? interaction.user?.id;
 
@@ -64,7 +75,7 @@ export async function handleCollectionCommand(
   }
 
   // Get translator for user's locale
-  const t = await createUserTranslator(env.KV, userId, interaction.locale);
+  const t = await createUserTranslator(env.KV, userId, interaction.locale, undefined, interaction.guild_id);
 
   // Initialize xivdyetools-core localization for dye names
   const locale = t.getLocale();
@@ -81,34 +92,46 @@ export async function handleCollectionCommand(
     });
   }
 
-  switch (subcommand.name) {
-    case 'create':
-      return handleCreate(env, userId, t, subcommand.options);
+  // Collections are shared with the web app (services/library-sync)
+  return withLibrarySync(env, ctx, userId, async () => {
+    switch (subcommand.name) {
+      case 'create':
+        return handleCreate(env, userId, t, subcommand.options);
 
-    case 'delete':
-      return handleDelete(env, userId, t, subcommand.options);
+      case 'delete':
+        return handleDelete(env, userId, t, subcommand.options);
 
-    case 'add':
-      return handleAdd(env, userId, t, subcommand.options);
+      case 'add':
+        return handleAdd(env, userId, t, subcommand.options);
 
-    case 'remove':
-      return handleRemove(env, userId, t, subcommand.options);
+      case 'remove':
+        return handleRemove(env, userId, t, subcommand.options);
 
-    case 'show':
-      return handleShow(env, userId, t, subcommand.options);
+      case 'show':
+        return handleShow(env, userId, t, subcommand.options);
 
-    case 'list':
-      return handleList(env, userId, t);
+      case 'list':
+        return handleList(env, userId, t);
 
-    case 'rename':
-      return handleRename(env, userId, t, subcommand.options);
+      case 'rename':
+        return handleRename(env, userId, t, subcommand.options);
 
-    default:
-      return messageResponse({
-        embeds: [errorEmbed(t.t('common.error'), `Unknown subcommand: ${subcommand.name}`)],
-        flags: 64,
-      });
-  }
+      case 'share':
+        return handleShare(env, userId, t, subcommand.options);
+
+      case 'import':
+        return handleImport(env, userId, t, subcommand.options);
+
+      case 'publish':
+        return handlePublish(interaction, env, ctx, userId, t, subcommand.options);
+
+      default:
+        return messageResponse({
+          embeds: [errorEmbed(t.t('common.error'), `Unknown subcommand: ${subcommand.name}`)],
+          flags: 64,
+        });
+    }
+  });
 }
 
 // ============================================================================
@@ -594,3 +617,237 @@ async function handleRename(
     flags: 64,
   });
 }
+
+/**
+ * Handle /collection share <name>
+ */
+async function handleShare(
+  env: Env,
+  userId: string,
+  t: Translator,
+  options?: Array<{ name: string; value?: string | number | boolean }>
+): Promise<Response> {
+  const name = options?.find((opt) => opt.name === 'name')?.value as string | undefined;
+
+  if (!name) {
+    return messageResponse({
+      embeds: [errorEmbed(t.t('common.error'), t.t('errors.missingName'))],
+      flags: 64,
+    });
+  }
+
+  if (!env.COLLECTION_SHARE_SECRET) {
+    return messageResponse({
+      embeds: [errorEmbed(t.t('common.error'), t.t('collection.share.notConfigured'))],
+      flags: 64,
+    });
+  }
+
+  const collection = await getCollection(env.KV, userId, name);
+
+  if (!collection) {
+    return messageResponse({
+      embeds: [{
+        title: '❌ ' + t.t('common.error'),
+        description: DEPRECATION_NOTICE + t.t('collection.notFound', { name }),
+        color: DEPRECATION_COLOR,
+        footer: { text: 'Use /preset instead' },
+      }],
+      flags: 64,
+    });
+  }
+
+  const code = await createShareCode({ ownerId: userId, collectionId: collection.id }, env.COLLECTION_SHARE_SECRET);
+
+  if (!code) {
+    return messageResponse({
+      embeds: [errorEmbed(t.t('common.error'), t.t('errors.failedToSave'))],
+      flags: 64,
+    });
+  }
+
+  return messageResponse({
+    embeds: [{
+      title: '🔗 ' + t.t('collection.share.title', { name: collection.name }),
+      description: DEPRECATION_NOTICE +
+        `\`\`\`\n${code}\n\`\`\`\n` +
+        t.t('collection.share.description', { name: collection.name }),
+      color: DEPRECATION_COLOR,
+      footer: { text: 'Use /collection publish to share it as a community preset' },
+    }],
+    flags: 64,
+  });
+}
+
+/**
+ * Handle /collection import <code> [name]
+ */
+async function handleImport(
+  env: Env,
+  userId: string,
+  t: Translator,
+  options?: Array<{ name: string; value?: string | number | boolean }>
+): Promise<Response> {
+  const code = options?.find((opt) => opt.name === 'code')?.value as string | undefined;
+  const newName = options?.find((opt) => opt.name === 'name')?.value as string | undefined;
+
+  if (!code) {
+    return messageResponse({
+      embeds: [errorEmbed(t.t('common.error'), t.t('errors.missingInput'))],
+      flags: 64,
+    });
+  }
+
+  if (!env.COLLECTION_SHARE_SECRET) {
+    return messageResponse({
+      embeds: [errorEmbed(t.t('common.error'), t.t('collection.share.notConfigured'))],
+      flags: 64,
+    });
+  }
+
+  const target = await parseShareCode(code, env.COLLECTION_SHARE_SECRET);
+  const source = target ? await getCollectionById(env.KV, target.ownerId, target.collectionId) : null;
+
+  if (!source) {
+    return messageResponse({
+      embeds: [errorEmbed(
+        t.t('common.error'),
+        target ? t.t('collection.import.unavailable') : t.t('collection.import.invalidCode')
+      )],
+      flags: 64,
+    });
+  }
+
+  const result = await importCollection(env.KV, userId, source, newName);
+
+  if (!result.success || !result.collection) {
+    let message: string;
+    switch (result.reason) {
+      case 'alreadyExists':
+        message = `${t.t('collection.alreadyExists', { name: newName ?? source.name })}\n${t.t('collection.import.nameHint')}`;
+        break;
+      case 'nameTooLong':
+        message = t.t('collection.nameTooLong', { max: MAX_COLLECTION_NAME_LENGTH });
+        break;
+      case 'limitReached':
+        message = t.t('collection.limitReached', { max: MAX_COLLECTIONS });
+        break;
+      default:
+        message = t.t('errors.failedToSave');
+    }
+
+    return messageResponse({
+      embeds: [{
+        title: '❌ ' + t.t('common.error'),
+        description: DEPRECATION_NOTICE + message,
+        color: DEPRECATION_COLOR,
+        footer: { text: 'Use /preset instead' },
+      }],
+      flags: 64,
+    });
+  }
+
+  const { collection } = result;
+
+  return messageResponse({
+    embeds: [{
+      title: '✅ ' + t.t('common.success'),
+      description: DEPRECATION_NOTICE +
+        t.t('collection.import.imported', { name: collection.name, count: collection.dyes.length }),
+      color: DEPRECATION_COLOR,
+      footer: { text: `Use /collection show ${collection.name} to view it` },
+    }],
+    flags: 64,
+  });
+}
+
+/**
+ * Handle /collection publish <name> <category> [description] [tags]
+ *
+ * Submits the collection through the same flow as /preset submit.
+ */
+async function handlePublish(
+  interaction: DiscordInteraction,
+  env: Env,
+  ctx: ExecutionContext,
+  userId: string,
+  t: Translator,
+  options?: Array<{ name: string; value?: string | number | boolean }>
+): Promise<Response> {
+  const name = options?.find((opt) => opt.name === 'name')?.value as string | undefined;
+  const category = options?.find((opt) => opt.name === 'category')?.value as string | undefined;
+  const descriptionOption = options?.find((opt) => opt.name === 'description')?.value as string | undefined;
+  const tagsRaw = options?.find((opt) => opt.name === 'tags')?.value as string | undefined;
+
+  if (!name || !category || !(category in CATEGORY_DISPLAY)) {
+    return messageResponse({
+      embeds: [errorEmbed(t.t('common.error'), t.t('errors.missingInput'))],
+      flags: 64,
+    });
+  }
+
+  if (!isApiEnabled(env)) {
+    return messageResponse({
+      embeds: [errorEmbed(t.t('common.error'), t.t('preset.apiDisabled'))],
+      flags: 64,
+    });
+  }
+
+  const collection = await getCollection(env.KV, userId, name);
+
+  if (!collection) {
+    return messageResponse({
+      embeds: [{
+        title: '❌ ' + t.t('common.error'),
+        description: DEPRECATION_NOTICE + t.t('collection.notFound', { name }),
+        color: DEPRECATION_COLOR,
+        footer: { text: 'Use /preset instead' },
+      }],
+      flags: 64,
+    });
+  }
+
+  if (collection.dyes.length < MIN_PRESET_DYES || collection.dyes.length > MAX_PRESET_DYES) {
+    return messageResponse({
+      embeds: [errorEmbed(t.t('common.error'), t.t('collection.publish.dyeCount', {
+        min: MIN_PRESET_DYES,
+        max: MAX_PRESET_DYES,
+        count: collection.dyes.length,
+      }))],
+      flags: 64,
+    });
+  }
+
+  const description = descriptionOption ?? collection.description;
+  if (!description) {
+    return messageResponse({
+      embeds: [errorEmbed(t.t('common.error'), t.t('collection.publish.needsDescription'))],
+      flags: 64,
+    });
+  }
+
+  const userName =
+    interaction.member?.user?.global_name ||
+    interaction.member?.user?.username ||
+    interaction.user?.global_name ||
+    interaction.user?.username ||
+    'Unknown';
+
+  const tags = tagsRaw
+    ? tagsRaw.split(',').map((tag) => tag.trim()).filter((tag) => tag.length > 0).slice(0, 10)
+    : [];
+
+  const deferResponse = deferredResponse();
+
+  ctx.waitUntil(
+    processSubmitCommand(interaction, env, t, userId, userName, {
+      name: collection.name,
+      description,
+      category_id: category as PresetCategory,
+      dyes: collection.dyes,
+      tags,
+    })
+  );
+
+  return deferResponse;
+}
@@ -568,7 +568,9 @@ describe('comparison.ts', () => {
       expect(createUserTranslator).toHaveBeenCalledWith(
         mockEnv.KV,
         'user-123',
-        'de'
+        'de',
+        undefined,
+        undefined
       );
     });
 
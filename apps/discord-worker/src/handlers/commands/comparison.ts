@@ -1,26 +1,27 @@
 /**
  * /comparison Command Handler (Adapter)
  *
- * Thin adapter: extracts Discord options, delegates to executeComparison(),
- * renders the PNG, and formats the Discord response with emojis.
+ * Thin adapter: resolves Discord options against the shared
+ * comparisonCommand, runs it with Discord emojis, and sends the rendered
+ * output.
  */
 
-import type { Dye } from '@xivdyetools/types';
 import type { ExtendedLogger } from '@xivdyetools/logger';
 import { deferredResponse, errorEmbed } from '../../utils/response.js';
-import { resolveColorInput as resolveColor } from '../../utils/color.js';
 import { safeEditOriginalResponse } from '../../utils/discord-api.js';
-import { renderSvgToPng } from '../../services/svg/renderer.js';
 import { getDyeEmoji } from '../../services/emoji.js';
 import { createUserTranslator, createTranslator } from '../../services/bot-i18n.js';
-import { initializeLocale, getLocalizedDyeName, type LocaleCode } from '../../services/i18n.js';
-import { executeComparison } from '@xivdyetools/bot-logic';
+import type { LocaleCode } from '../../services/i18n.js';
+import { comparisonCommand, resolveOptions, type OptionValues } from '@xivdyetools/bot-logic';
+import {
+  getOptionValues,
+  optionErrorEmbed,
+  runErrorEmbed,
+  toDiscordMessage,
+} from '../../services/command-output.js';
 import type { Env, DiscordInteraction } from '../../types/env.js';
 
-function resolveColorInput(input: string): Dye | null {
-  const resolved = resolveColor(input, { excludeFacewear: true, findClosestForHex: true });
-  return resolved?.dye ?? null;
-}
+type ComparisonValues = OptionValues<typeof comparisonCommand.options>;
 
 export async function handleComparisonCommand(
   interaction: DiscordInteraction,
@@ -29,90 +30,44 @@ export async function handleComparisonCommand(
   logger?: ExtendedLogger
 ): Promise<Response> {
   const userId = interaction.member?.user?.id ?? interaction.user?.id ?? 'unknown';
-  const t = await createUserTranslator(env.KV, userId, interaction.locale);
-
-  const options = interaction.data?.options || [];
-  const dye1Input = options.find((opt) => opt.name === 'dye1')?.value as string | undefined;
-  const dye2Input = options.find((opt) => opt.name === 'dye2')?.value as string | undefined;
-  const dye3Input = options.find((opt) => opt.name === 'dye3')?.value as string | undefined;
-  const dye4Input = options.find((opt) => opt.name === 'dye4')?.value as string | undefined;
+  const t = await createUserTranslator(env.KV, userId, interaction.locale, logger, interaction.guild_id);
 
-  if (!dye1Input || !dye2Input) {
+  // Hex codes snap to the closest dye; every unresolved input is listed
+  const options = resolveOptions(comparisonCommand, getOptionValues(interaction));
+  if (!options.ok) {
     return Response.json({
       type: 4,
-      data: { embeds: [errorEmbed(t.t('common.error'), t.t('errors.missingInput'))], flags: 64 },
+      data: { embeds: [optionErrorEmbed(options.errors, t)], flags: 64 },
     });
   }
 
-  const resolvedDyes: Array<{ input: string; dye: Dye | null }> = [
-    { input: dye1Input, dye: resolveColorInput(dye1Input) },
-    { input: dye2Input, dye: resolveColorInput(dye2Input) },
-  ];
-  if (dye3Input) resolvedDyes.push({ input: dye3Input, dye: resolveColorInput(dye3Input) });
-  if (dye4Input) resolvedDyes.push({ input: dye4Input, dye: resolveColorInput(dye4Input) });
-
-  const failures = resolvedDyes.filter((r) => r.dye === null);
-  if (failures.length > 0) {
-    const failedInputs = failures.map((f) => `"${f.input}"`).join(', ');
-    return Response.json({
-      type: 4,
-      data: {
-        embeds: [errorEmbed(t.t('common.error'), t.t('errors.invalidColor', { input: failedInputs }))],
-        flags: 64,
-      },
-    });
-  }
-
-  const dyes = resolvedDyes.map((r) => r.dye as Dye);
-  const locale = t.getLocale();
   const deferResponse = deferredResponse();
-  ctx.waitUntil(processComparisonCommand(interaction, env, dyes, locale, logger));
+  ctx.waitUntil(processComparisonCommand(interaction, env, options.values, t.getLocale(), logger));
   return deferResponse;
 }
 
 async function processComparisonCommand(
   interaction: DiscordInteraction,
   env: Env,
-  dyes: Dye[],
+  values: ComparisonValues,
   locale: LocaleCode,
   logger?: ExtendedLogger
 ): Promise<void> {
   const t = createTranslator(locale);
-  await initializeLocale(locale);
 
-  const result = await executeComparison({ dyes, locale });
+  const result = await comparisonCommand.run(values, { locale, dyeEmoji: getDyeEmoji });
 
   if (!result.ok) {
     if (logger) logger.error('Comparison command failed');
     await safeEditOriginalResponse(env.DISCORD_CLIENT_ID, interaction.token, {
-      embeds: [errorEmbed(t.t('common.error'), t.t('errors.generationFailed'))],
+      embeds: [runErrorEmbed(result, t)],
     });
     return;
   }
 
   try {
-    const pngBuffer = await renderSvgToPng(result.svgString, { scale: 2 });
-
-    // Build Discord embed description with platform-specific emojis
-    const dyeList = dyes
-      .map((dye, i) => {
-        const emoji = getDyeEmoji(dye.id);
-        const emojiPrefix = emoji ? `${emoji} ` : '';
-        const localizedName = getLocalizedDyeName(dye.itemID, dye.name, locale);
-        return `**${i + 1}.** ${emojiPrefix}${localizedName} (\`${dye.hex.toUpperCase()}\`)`;
-      })
-      .join('\n');
-
-    await safeEditOriginalResponse(env.DISCORD_CLIENT_ID, interaction.token, {
-      embeds: [{
-        title: result.embed.title,
-        description: dyeList,
-        color: result.embed.color,
-        image: { url: 'attachment://image.png' },
-        footer: { text: result.embed.footer ?? t.t('common.footer') },
-      }],
-      file: { name: 'comparison.png', data: pngBuffer, contentType: 'image/png' },
-    });
+    const message = await toDiscordMessage(result.output, logger);
+    await safeEditOriginalResponse(env.DISCORD_CLIENT_ID, interaction.token, message);
   } catch (error) {
     if (logger) logger.error('Comparison render error', error instanceof Error ? error : undefined);
     await safeEditOriginalResponse(env.DISCORD_CLIENT_ID, interaction.token, {
@@ -0,0 +1,277 @@
+/**
+ * Tests for /dye-of-the-day command handler
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { handleDyeOfTheDayCommand, handleDyeOfTheDayAutocomplete } from './dye-of-the-day.js';
+import { DOTD_KEY_PREFIX } from '../../services/dye-of-the-day.js';
+import type { DiscordInteraction, Env, InteractionResponseBody } from '../../types/env.js';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+vi.mock('@xivdyetools/bot-logic', () => ({
+    selectDyeOfTheDay: () => ({
+        dateKey: '2026-06-01',
+        dye: { id: 1, itemID: 13114, name: 'Pure White', hex: '#F9F8F4', category: 'White' },
+        harmonyType: 'triadic',
+    }),
+    getDateKey: (date: Date) => date.toISOString().slice(0, 10),
+}));
+
+const mockValidateWorld = vi.fn();
+const mockIsUniversalisEnabled = vi.fn();
+vi.mock('../../services/budget/index.js', () => ({
+    isUniversalisEnabled: (...args: unknown[]) => mockIsUniversalisEnabled(...args),
+    validateWorld: (...args: unknown[]) => mockValidateWorld(...args),
+    getWorldAutocomplete: vi.fn(async () => [{ name: 'Cactuar', value: 'Cactuar' }]),
+}));
+
+vi.mock('../../services/bot-i18n.js', () => ({
+    createUserTranslator: vi.fn(async () => ({
+        t: (key: string, vars?: Record<string, unknown>) => (vars ? `${key} ${JSON.stringify(vars)}` : key),
+        getLocale: () => 'en',
+    })),
+}));
+
+vi.mock('../../services/i18n.js', () => ({
+    initializeLocale: vi.fn(),
+    getLocalizedDyeName: (_id: number, name: string) => name,
+}));
+
+vi.mock('../../services/emoji.js', () => ({
+    getDyeEmoji: () => undefined,
+}));
+
+vi.mock('./match-image-message.js', () => ({
+    MATCH_IMAGE_MESSAGE_COMMAND: 'Match dyes in this image',
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+const SUBSCRIPTION_KEY = `${DOTD_KEY_PREFIX}guild-1`;
+const MANAGE_GUILD = '32';
+
+function createMockKV() {
+    const store = new Map<string, string>();
+    return {
+        get: vi.fn(async (key: string) => store.get(key) ?? null),
+        put: vi.fn(async (key: string, value: string) => {
+            store.set(key, value);
+        }),
+        delete: vi.fn(async (key: string) => {
+            store.delete(key);
+        }),
+        _store: store,
+    } as unknown as KVNamespace & { _store: Map<string, string> };
+}
+
+let kv: ReturnType<typeof createMockKV>;
+let env: Env;
+const ctx = { waitUntil: vi.fn() } as unknown as ExecutionContext;
+
+function interactionWith(
+    subcommand: string,
+    options: Array<Record<string, unknown>> = [],
+    overrides: Partial<DiscordInteraction> = {}
+): DiscordInteraction {
+    return {
+        id: 'interaction-1',
+        application_id: 'app-id',
+        type: 2,
+        token: 'test-token',
+        guild_id: 'guild-1',
+        member: { user: { id: 'admin-1' }, permissions: MANAGE_GUILD },
+        data: { name: 'dye-of-the-day', options: [{ name: subcommand, type: 1, options }] },
+        ...overrides,
+    } as DiscordInteraction;
+}
+
+async function bodyOf(response: Response): Promise<InteractionResponseBody> {
+    return (await response.json()) as InteractionResponseBody;
+}
+
+function stored(): Record<string, unknown> | null {
+    const raw = kv._store.get(SUBSCRIPTION_KEY);
+    return raw ? JSON.parse(raw) : null;
+}
+
+describe('dye-of-the-day.ts', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-06-01T10:00:00.000Z'));
+        kv = createMockKV();
+        env = { KV: kv } as unknown as Env;
+        mockIsUniversalisEnabled.mockReturnValue(true);
+        mockValidateWorld.mockImplementation(async (_env: Env, world: string) =>
+            world.toLowerCase() === 'cactuar' ? 'Cactuar' : null
+        );
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe('access checks', () => {
+        it('should reject use outside a server', async () => {
+            const response = await handleDyeOfTheDayCommand(
+                interactionWith('status', [], { guild_id: undefined, member: undefined, user: { id: 'u', username: 'u' } } as never),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(body.data?.flags).toBe(64);
+            expect(body.data?.embeds?.[0].description).toBe('serverSettings.errors.guildOnly');
+        });
+
+        it('should reject members without Manage Server', async () => {
+            const response = await handleDyeOfTheDayCommand(
+                interactionWith('subscribe', [{ name: 'channel', value: 'chan-1' }], {
+                    member: { user: { id: 'member-1' }, permissions: '2048' },
+                } as never),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(body.data?.embeds?.[0].description).toBe('serverSettings.errors.noPermission');
+            expect(kv.put).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('subscribe', () => {
+        it('should save the channel with the default hour', async () => {
+            const response = await handleDyeOfTheDayCommand(
+                interactionWith('subscribe', [{ name: 'channel', value: 'chan-1' }]),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(stored()).toMatchObject({ guildId: 'guild-1', channelId: 'chan-1', hour: 15, subscribedBy: 'admin-1' });
+            expect(body.data?.flags).toBe(64);
+            // Today at 15:00 UTC
+            expect(body.data?.content).toContain('<t:1780326000:f>');
+            expect(body.data?.content).toContain('dyeOfTheDay.subscribe.noWorldNote');
+        });
+
+        it('should validate and save the world', async () => {
+            const response = await handleDyeOfTheDayCommand(
+                interactionWith('subscribe', [
+                    { name: 'channel', value: 'chan-1' },
+                    { name: 'hour', value: 8 },
+                    { name: 'world', value: 'cactuar' },
+                ]),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(stored()).toMatchObject({ hour: 8, world: 'Cactuar' });
+            expect(body.data?.content).toContain('dyeOfTheDay.subscribe.worldNote {"world":"Cactuar"}');
+            // Past the hour and not yet posted: the next half-hourly run
+            expect(body.data?.content).toContain('<t:1780308000:f>');
+        });
+
+        it('should mention the server world when none is given', async () => {
+            kv._store.set('guild-prefs:v1:guild-1', JSON.stringify({ world: 'Aether' }));
+
+            const response = await handleDyeOfTheDayCommand(
+                interactionWith('subscribe', [{ name: 'channel', value: 'chan-1' }]),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(body.data?.content).toContain('dyeOfTheDay.subscribe.worldNote {"world":"Aether"}');
+            expect(stored()?.world).toBeUndefined();
+        });
+
+        it('should reject an unknown world', async () => {
+            const response = await handleDyeOfTheDayCommand(
+                interactionWith('subscribe', [
+                    { name: 'channel', value: 'chan-1' },
+                    { name: 'world', value: 'Nowhere' },
+                ]),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(body.data?.embeds?.[0].description).toContain('budget.errors.worldNotFound');
+            expect(stored()).toBeNull();
+        });
+
+        it('should reject an out-of-range hour', async () => {
+            const response = await handleDyeOfTheDayCommand(
+                interactionWith('subscribe', [
+                    { name: 'channel', value: 'chan-1' },
+                    { name: 'hour', value: 24 },
+                ]),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(body.data?.embeds?.[0].description).toBe('dyeOfTheDay.errors.invalidHour');
+            expect(stored()).toBeNull();
+        });
+    });
+
+    describe('unsubscribe', () => {
+        it('should remove the subscription', async () => {
+            kv._store.set(SUBSCRIPTION_KEY, JSON.stringify({ guildId: 'guild-1', channelId: 'chan-1', hour: 15 }));
+
+            const response = await handleDyeOfTheDayCommand(interactionWith('unsubscribe'), env, ctx);
+            const body = await bodyOf(response);
+
+            expect(stored()).toBeNull();
+            expect(body.data?.content).toBe('dyeOfTheDay.unsubscribe.success {"channel":"<#chan-1>"}');
+        });
+
+        it('should say when the server is not subscribed', async () => {
+            const response = await handleDyeOfTheDayCommand(interactionWith('unsubscribe'), env, ctx);
+            const body = await bodyOf(response);
+
+            expect(body.data?.content).toBe('dyeOfTheDay.notSubscribed');
+        });
+    });
+
+    describe('status', () => {
+        it('should show the subscription and today\'s dye', async () => {
+            kv._store.set(
+                SUBSCRIPTION_KEY,
+                JSON.stringify({ guildId: 'guild-1', channelId: 'chan-1', hour: 9, lastPostedDate: '2026-06-01' })
+            );
+
+            const response = await handleDyeOfTheDayCommand(interactionWith('status'), env, ctx);
+            const body = await bodyOf(response);
+            const fields = body.data?.embeds?.[0].fields ?? [];
+
+            expect(fields.map((f) => f.value)).toEqual([
+                '<#chan-1>',
+                // Posted today: tomorrow at 09:00 UTC
+                '<t:1780390800:f>',
+                '*serverSettings.show.notSet*',
+                '2026-06-01',
+                'Pure White',
+            ]);
+        });
+    });
+
+    describe('autocomplete', () => {
+        it('should suggest worlds', async () => {
+            const interaction = {
+                ...interactionWith('subscribe', [{ name: 'world', value: 'cac', focused: true }]),
+                type: 4,
+            } as DiscordInteraction;
+
+            const response = await handleDyeOfTheDayAutocomplete(interaction, env);
+            const body = (await response.json()) as { data: { choices: unknown[] } };
+
+            expect(body.data.choices).toEqual([{ name: 'Cactuar', value: 'Cactuar' }]);
+        });
+    });
+});
@@ -0,0 +1,265 @@
+/**
+ * /dye-of-the-day Command Handler
+ *
+ * Lets server administrators (Manage Server permission) subscribe a channel
+ * to the daily Dye of the Day post. The posts themselves are sent by the
+ * scheduled handler (handlers/scheduled/dye-of-the-day.ts).
+ *
+ * Subcommands:
+ * - /dye-of-the-day subscribe <channel> [hour] [world] - Post daily in a channel
+ * - /dye-of-the-day unsubscribe - Stop the daily post
+ * - /dye-of-the-day status - Show the subscription and today's dye
+ *
+ * All replies are ephemeral.
+ */
+
+import type { ExtendedLogger } from '@xivdyetools/logger';
+import { selectDyeOfTheDay, getDateKey } from '@xivdyetools/bot-logic';
+import { ephemeralResponse, errorEmbed } from '../../utils/response.js';
+import { createUserTranslator, type Translator } from '../../services/bot-i18n.js';
+import { initializeLocale, getLocalizedDyeName } from '../../services/i18n.js';
+import { getDyeEmoji } from '../../services/emoji.js';
+import { canManageGuild, getGuildSettings } from '../../services/guild-settings.js';
+import { isUniversalisEnabled, validateWorld, getWorldAutocomplete } from '../../services/budget/index.js';
+import {
+  getSubscription,
+  subscribe,
+  unsubscribe,
+  isPostDue,
+  DEFAULT_POST_HOUR,
+  type DyeOfTheDaySubscription,
+} from '../../services/dye-of-the-day.js';
+import type { Env, DiscordInteraction } from '../../types/env.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Embed color for the status display (Discord blurple) */
+const DOTD_COLOR = 0x5865f2;
+
+/** Cron interval from wrangler.toml (every 30 minutes) */
+const CRON_INTERVAL_MS = 30 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type SubcommandOptions = Array<{ name: string; value?: string | number | boolean }>;
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Handles the /dye-of-the-day command and subcommands
+ */
+export async function handleDyeOfTheDayCommand(
+  interaction: DiscordInteraction,
+  env: Env,
+  _ctx: ExecutionContext,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const userId = interaction.member?.user?.id ?? interaction.user?.id ?? 'unknown';
+  const guildId = interaction.guild_id;
+  const t = await createUserTranslator(env.KV, userId, interaction.locale, logger, guildId);
+
+  if (!guildId) {
+    return errorResponse(t, t.t('serverSettings.errors.guildOnly'));
+  }
+
+  // Same server-side re-check as /server-settings: default_member_permissions
+  // can be overridden by server owners
+  if (!canManageGuild(interaction.member?.permissions)) {
+    return errorResponse(t, t.t('serverSettings.errors.noPermission'));
+  }
+
+  const subcommand = interaction.data?.options?.[0];
+  const options: SubcommandOptions = subcommand?.options || [];
+
+  switch (subcommand?.name) {
+    case 'subscribe':
+      return handleSubscribeSubcommand(env, guildId, userId, options, t, logger);
+
+    case 'unsubscribe':
+      return handleUnsubscribeSubcommand(env, guildId, t, logger);
+
+    case 'status':
+      return handleStatusSubcommand(env, guildId, t, logger);
+
+    default:
+      return errorResponse(t, t.t('errors.missingSubcommand'));
+  }
+}
+
+// ============================================================================
+// Subcommand Handlers
+// ============================================================================
+
+/**
+ * Handles /dye-of-the-day subscribe <channel> [hour] [world]
+ */
+async function handleSubscribeSubcommand(
+  env: Env,
+  guildId: string,
+  userId: string,
+  options: SubcommandOptions,
+  t: Translator,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const channelId = options.find((opt) => opt.name === 'channel')?.value as string | undefined;
+  const hour = (options.find((opt) => opt.name === 'hour')?.value as number | undefined) ?? DEFAULT_POST_HOUR;
+  const worldInput = options.find((opt) => opt.name === 'world')?.value as string | undefined;
+
+  if (!channelId) {
+    return errorResponse(t, t.t('dyeOfTheDay.errors.missingChannel'));
+  }
+
+  if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+    return errorResponse(t, t.t('dyeOfTheDay.errors.invalidHour'));
+  }
+
+  let world: string | undefined;
+  if (worldInput) {
+    if (!isUniversalisEnabled(env)) {
+      return errorResponse(t, t.t('budget.errors.notConfigured'));
+    }
+    world = (await validateWorld(env, worldInput, logger)) ?? undefined;
+    if (!world) {
+      return errorResponse(t, t.t('budget.errors.worldNotFound', { world: worldInput }));
+    }
+  }
+
+  const subscription = await subscribe(env.KV, guildId, { channelId, hour, world }, userId, logger);
+  if (!subscription) {
+    return errorResponse(t, t.t('dyeOfTheDay.errors.saveFailed'));
+  }
+
+  const priceWorld = world ?? (await getGuildSettings(env.KV, guildId, logger)).world;
+  const lines = [
+    t.t('dyeOfTheDay.subscribe.success', {
+      channel: `<#${channelId}>`,
+      time: formatNextPost(subscription, new Date()),
+    }),
+    priceWorld
+      ? t.t('dyeOfTheDay.subscribe.worldNote', { world: priceWorld })
+      : t.t('dyeOfTheDay.subscribe.noWorldNote'),
+    t.t('dyeOfTheDay.subscribe.permissionsNote'),
+  ];
+
+  return ephemeralResponse(lines.join('\n'));
+}
+
+/**
+ * Handles /dye-of-the-day unsubscribe
+ */
+async function handleUnsubscribeSubcommand(
+  env: Env,
+  guildId: string,
+  t: Translator,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const subscription = await getSubscription(env.KV, guildId, logger);
+  if (!subscription) {
+    return ephemeralResponse(t.t('dyeOfTheDay.notSubscribed'));
+  }
+
+  const success = await unsubscribe(env.KV, guildId, logger);
+  if (!success) {
+    return errorResponse(t, t.t('dyeOfTheDay.errors.saveFailed'));
+  }
+
+  return ephemeralResponse(t.t('dyeOfTheDay.unsubscribe.success', { channel: `<#${subscription.channelId}>` }));
+}
+
+/**
+ * Handles /dye-of-the-day status
+ */
+async function handleStatusSubcommand(
+  env: Env,
+  guildId: string,
+  t: Translator,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const subscription = await getSubscription(env.KV, guildId, logger);
+  if (!subscription) {
+    return ephemeralResponse(t.t('dyeOfTheDay.notSubscribed'));
+  }
+
+  const now = new Date();
+  const locale = t.getLocale();
+  await initializeLocale(locale);
+
+  const pick = selectDyeOfTheDay(now);
+  const todayValue = pick
+    ? `${getDyeEmoji(pick.dye.id) ?? ''} ${getLocalizedDyeName(pick.dye.itemID, pick.dye.name, locale)}`.trim()
+    : '—';
+  const world = subscription.world ?? (await getGuildSettings(env.KV, guildId, logger)).world;
+
+  return ephemeralResponse({
+    embeds: [
+      {
+        title: `📅 ${t.t('dyeOfTheDay.status.title')}`,
+        color: DOTD_COLOR,
+        fields: [
+          { name: t.t('dyeOfTheDay.status.channel'), value: `<#${subscription.channelId}>`, inline: true },
+          { name: t.t('dyeOfTheDay.status.nextPost'), value: formatNextPost(subscription, now), inline: true },
+          { name: t.t('dyeOfTheDay.status.world'), value: world ?? `*${t.t('serverSettings.show.notSet')}*`, inline: true },
+          {
+            name: t.t('dyeOfTheDay.status.lastPosted'),
+            value: subscription.lastPostedDate ?? `*${t.t('dyeOfTheDay.status.never')}*`,
+            inline: true,
+          },
+          { name: t.t('dyeOfTheDay.status.today'), value: todayValue, inline: true },
+        ],
+      },
+    ],
+  });
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function errorResponse(t: Translator, message: string): Response {
+  return ephemeralResponse({ embeds: [errorEmbed(t.t('common.error'), message)] });
+}
+
+/**
+ * Next post time as a Discord timestamp, shown in each viewer's own timezone
+ */
+function formatNextPost(subscription: DyeOfTheDaySubscription, now: Date): string {
+  const dateKey = getDateKey(now);
+  let next = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), subscription.hour);
+
+  if (subscription.lastPostedDate === dateKey) {
+    next += DAY_MS;
+  } else if (isPostDue(subscription, now, dateKey)) {
+    // Already due: goes out on the next half-hourly cron run
+    next = Math.ceil(now.getTime() / CRON_INTERVAL_MS) * CRON_INTERVAL_MS;
+  }
+
+  return `<t:${Math.floor(next / 1000)}:f>`;
+}
+
+// ============================================================================
+// Autocomplete Handler
+// ============================================================================
+
+/**
+ * Handles autocomplete for /dye-of-the-day subscribe world
+ */
+export async function handleDyeOfTheDayAutocomplete(
+  interaction: DiscordInteraction,
+  env: Env,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const subcommand = interaction.data?.options?.[0];
+  const focusedOption = subcommand?.options?.find((opt) => opt.focused === true);
+  const query = String(focusedOption?.value || '');
+
+  const choices = focusedOption?.name === 'world' ? await getWorldAutocomplete(env, query, logger) : [];
+
+  return Response.json({
+    type: 8, // APPLICATION_COMMAND_AUTOCOMPLETE_RESULT
+    data: { choices },
+  });
+}
@@ -33,7 +33,7 @@ export async function handleDyeCommand(
   ctx: ExecutionContext
 ): Promise<Response> {
   const userId = interaction.member?.user?.id ?? interaction.user?.id ?? 'unknown';
-  const t = await createUserTranslator(env.KV, userId, interaction.locale);
+  const t = await createUserTranslator(env.KV, userId, interaction.locale, undefined, interaction.guild_id);
   const locale = t.getLocale();
   await initializeLocale(locale);
 
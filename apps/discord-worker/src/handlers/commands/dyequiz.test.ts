@@ -0,0 +1,265 @@
+/**
+ * Tests for /dyequiz command handler
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleDyeQuizCommand, handleDyeQuizAutocomplete } from './dyequiz.js';
+import { getContext } from '../../services/component-context.js';
+import { getChannelRound, isQuizRoundState, type QuizRoundState } from '../../services/dyequiz.js';
+import { dyeService } from '../../utils/color.js';
+import type { DiscordInteraction, Env, InteractionResponseBody } from '../../types/env.js';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+vi.mock('../../services/svg/renderer.js', () => ({
+    renderSvgToPng: vi.fn(async () => new Uint8Array([1, 2, 3])),
+}));
+
+const mockEditOriginalResponse = vi.fn();
+vi.mock('../../utils/discord-api.js', () => ({
+    safeEditOriginalResponse: (...args: unknown[]) => mockEditOriginalResponse(...args),
+}));
+
+vi.mock('../../services/bot-i18n.js', () => {
+    const translator = {
+        t: (key: string, vars?: Record<string, unknown>) => (vars ? `${key} ${JSON.stringify(vars)}` : key),
+        getLocale: () => 'en',
+    };
+    return {
+        createUserTranslator: vi.fn(async () => translator),
+        createTranslator: vi.fn(() => translator),
+    };
+});
+
+vi.mock('../../services/i18n.js', () => ({
+    initializeLocale: vi.fn(),
+    getLocalizedDyeName: (_id: number, name: string) => name,
+}));
+
+vi.mock('../../services/emoji.js', () => ({
+    getDyeEmoji: () => undefined,
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+function createMockKV() {
+    const store = new Map<string, string>();
+    const metadata = new Map<string, unknown>();
+    return {
+        get: vi.fn(async (key: string) => store.get(key) ?? null),
+        put: vi.fn(async (key: string, value: string, options?: { metadata?: unknown }) => {
+            store.set(key, value);
+            if (options?.metadata) metadata.set(key, options.metadata);
+        }),
+        delete: vi.fn(async (key: string) => {
+            store.delete(key);
+        }),
+        list: vi.fn(async ({ prefix }: { prefix: string }) => ({
+            keys: [...store.keys()]
+                .filter((k) => k.startsWith(prefix))
+                .map((name) => ({ name, metadata: metadata.get(name) })),
+            list_complete: true,
+        })),
+        _store: store,
+    } as unknown as KVNamespace & { _store: Map<string, string> };
+}
+
+let kv: ReturnType<typeof createMockKV>;
+let env: Env;
+let pending: Promise<unknown>[];
+const ctx = {
+    waitUntil: vi.fn((promise: Promise<unknown>) => {
+        pending.push(promise);
+    }),
+} as unknown as ExecutionContext;
+
+function interactionWith(
+    subcommand: string,
+    options: Array<Record<string, unknown>> = [],
+    overrides: Partial<DiscordInteraction> = {}
+): DiscordInteraction {
+    return {
+        id: 'interaction-1',
+        application_id: 'app-id',
+        type: 2,
+        token: 'round-token',
+        guild_id: 'guild-1',
+        channel_id: 'chan-1',
+        member: { user: { id: 'host' } },
+        data: { name: 'dyequiz', options: [{ name: subcommand, type: 1, options }] },
+        ...overrides,
+    } as DiscordInteraction;
+}
+
+function guessAs(userId: string, dye: string): DiscordInteraction {
+    return interactionWith('guess', [{ name: 'dye', type: 3, value: dye }], { member: { user: { id: userId } } } as never);
+}
+
+async function bodyOf(response: Response): Promise<InteractionResponseBody> {
+    return (await response.json()) as InteractionResponseBody;
+}
+
+async function settle(): Promise<void> {
+    await Promise.all(pending);
+    pending = [];
+}
+
+/** Start a round and return its stored state */
+async function startRound(options: Array<Record<string, unknown>> = []): Promise<QuizRoundState> {
+    const response = await handleDyeQuizCommand(interactionWith('start', options), env, ctx);
+    expect((await bodyOf(response)).type).toBe(5); // DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE
+    await settle();
+
+    const hash = await getChannelRound(kv, 'chan-1');
+    const context = hash ? await getContext(kv, hash) : null;
+    if (!context || !isQuizRoundState(context.data)) throw new Error('Round was not stored');
+    return context.data;
+}
+
+function dyeName(itemId: number): string {
+    return dyeService.getDyeById(itemId)?.name ?? '';
+}
+
+describe('dyequiz.ts', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        kv = createMockKV();
+        env = { KV: kv, DISCORD_CLIENT_ID: 'app-id' } as unknown as Env;
+        pending = [];
+    });
+
+    it('should reject use outside a server channel', async () => {
+        const response = await handleDyeQuizCommand(
+            interactionWith('start', [], { guild_id: undefined, member: undefined, user: { id: 'u', username: 'u' } } as never),
+            env,
+            ctx
+        );
+
+        const body = await bodyOf(response);
+        expect(body.data?.flags).toBe(64);
+        expect(body.data?.embeds?.[0]?.description).toBe('dyequiz.errors.guildOnly');
+    });
+
+    describe('start', () => {
+        it('should post the swatch with one answer button per choice', async () => {
+            const state = await startRound([{ name: 'difficulty', type: 3, value: 'hard' }]);
+
+            expect(state).toMatchObject({ guildId: 'guild-1', channelId: 'chan-1', difficulty: 'hard', pool: 'all' });
+            expect(state.choiceItemIds).toHaveLength(5);
+            expect(state.choiceItemIds).toContain(state.answerItemId);
+
+            const [appId, token, payload] = mockEditOriginalResponse.mock.calls[0];
+            expect(appId).toBe('app-id');
+            expect(token).toBe('round-token');
+            expect(payload.file.name).toBe('dyequiz.png');
+
+            const buttons = payload.components[0].components;
+            expect(buttons.map((b: { label: string }) => b.label)).toEqual(state.choiceItemIds.map(dyeName));
+            expect(buttons[0].custom_id).toMatch(/^answer_dyequiz_[0-9a-f]{8}_\d+$/);
+            expect(buttons.some((b: { emoji?: unknown }) => b.emoji)).toBe(false);
+        });
+
+        it('should note the vision type and ignore unknown choices', async () => {
+            const state = await startRound([
+                { name: 'vision', type: 3, value: 'tritanopia' },
+                { name: 'pool', type: 3, value: 'not-a-pool' },
+            ]);
+
+            expect(state.vision).toBe('tritanopia');
+            expect(state.pool).toBe('all');
+            const description = mockEditOriginalResponse.mock.calls[0][2].embeds[0].description;
+            expect(description).toContain('dyequiz.visionNote');
+        });
+
+        it('should show an error when the round cannot be posted', async () => {
+            const { renderSvgToPng } = await import('../../services/svg/renderer.js');
+            vi.mocked(renderSvgToPng).mockRejectedValueOnce(new Error('render failed'));
+
+            await handleDyeQuizCommand(interactionWith('start'), env, ctx);
+            await settle();
+
+            const payload = mockEditOriginalResponse.mock.calls[0][2];
+            expect(payload.embeds[0].description).toBe('dyequiz.errors.startFailed');
+        });
+    });
+
+    describe('guess', () => {
+        it('should tell the player when no round is open', async () => {
+            const body = await bodyOf(await handleDyeQuizCommand(guessAs('p1', 'Snow White'), env, ctx));
+
+            expect(body.data?.content).toBe('dyequiz.noRound');
+            expect(body.data?.flags).toBe(64);
+        });
+
+        it('should reject an unknown dye', async () => {
+            const body = await bodyOf(await handleDyeQuizCommand(guessAs('p1', 'Not A Dye'), env, ctx));
+
+            expect(body.data?.embeds?.[0]?.description).toContain('dyequiz.errors.unknownDye');
+        });
+
+        it('should score a right answer privately and reveal it on the round message', async () => {
+            const state = await startRound();
+            mockEditOriginalResponse.mockClear();
+
+            const body = await bodyOf(await handleDyeQuizCommand(guessAs('p1', String(state.answerItemId)), env, ctx));
+            await settle();
+
+            expect(body.data?.flags).toBe(64);
+            expect(body.data?.content).toContain('dyequiz.correct');
+            expect(body.data?.content).toContain('dyequiz.total {"points":150}');
+
+            const [, token, payload] = mockEditOriginalResponse.mock.calls[0];
+            expect(token).toBe('round-token');
+            expect(payload.components).toEqual([]);
+            expect(payload.embeds[0].description).toContain('dyequiz.solved.description');
+            expect(payload.embeds[0].image.url).toBe('attachment://dyequiz.png');
+        });
+
+        it('should accept a typed dye name and keep the round open after a miss', async () => {
+            const state = await startRound();
+            mockEditOriginalResponse.mockClear();
+            const wrong = state.choiceItemIds.find((id) => id !== state.answerItemId) as number;
+
+            const body = await bodyOf(await handleDyeQuizCommand(guessAs('p1', dyeName(wrong)), env, ctx));
+            await settle();
+
+            expect(body.data?.content).toMatch(/dyequiz\.(close|miss)/);
+            expect(mockEditOriginalResponse).not.toHaveBeenCalled();
+
+            const again = await bodyOf(await handleDyeQuizCommand(guessAs('p1', String(state.answerItemId)), env, ctx));
+            expect(again.data?.content).toContain('dyequiz.alreadyAnswered');
+        });
+    });
+
+    describe('leaderboard', () => {
+        it('should say when nobody has scored', async () => {
+            const body = await bodyOf(await handleDyeQuizCommand(interactionWith('leaderboard'), env, ctx));
+
+            expect(body.data?.content).toBe('dyequiz.leaderboard.empty');
+        });
+
+        it('should list players by points', async () => {
+            const state = await startRound();
+            await handleDyeQuizCommand(guessAs('p1', String(state.answerItemId)), env, ctx);
+            await settle();
+
+            const body = await bodyOf(await handleDyeQuizCommand(interactionWith('leaderboard'), env, ctx));
+
+            expect(body.data?.flags).toBeUndefined();
+            expect(body.data?.embeds?.[0]?.description).toContain('🥇 <@p1>');
+        });
+    });
+
+    describe('autocomplete', () => {
+        it('should suggest dyes for the guess option', async () => {
+            const response = handleDyeQuizAutocomplete(
+                interactionWith('guess', [{ name: 'dye', type: 3, value: 'snow', focused: true }])
+            );
+
+            const body = (await response.json()) as { type: number; data: { choices: Array<{ name: string }> } };
+            expect(body.type).toBe(8);
+            expect(body.data.choices.some((choice) => choice.name.includes('Snow White'))).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,470 @@
+/**
+ * /dyequiz Command Handler
+ *
+ * A dye guessing game for servers. `start` posts a swatch of a hidden dye
+ * with answer buttons; players answer once per round, either with a button
+ * or with `/dyequiz guess` (any dye, via autocomplete). The right dye scores
+ * full points plus a streak bonus and closes the round; near-misses earn
+ * partial credit by ΔE. Scores are kept per server.
+ *
+ * Subcommands:
+ * - /dyequiz start [difficulty] [pool] [vision] - Post a new round in this channel
+ * - /dyequiz guess <dye> - Answer the channel's open round
+ * - /dyequiz leaderboard - Top players in this server
+ *
+ * Round state lives in component-context storage (services/dyequiz.ts);
+ * answer buttons are routed through handlers/buttons/dyequiz.ts.
+ */
+
+import type { ExtendedLogger } from '@xivdyetools/logger';
+import type { Dye } from '@xivdyetools/types';
+import {
+  executeDyeQuiz,
+  QUIZ_DIFFICULTIES,
+  QUIZ_POOLS,
+  type QuizDifficulty,
+  type QuizPool,
+  type VisionType,
+} from '@xivdyetools/bot-logic';
+import {
+  deferredResponse,
+  ephemeralResponse,
+  messageResponse,
+  errorEmbed,
+  type DiscordActionRow,
+  type DiscordEmbed,
+} from '../../utils/response.js';
+import { safeEditOriginalResponse } from '../../utils/discord-api.js';
+import { renderSvgToPng } from '../../services/svg/renderer.js';
+import { createTranslator, createUserTranslator, type Translator } from '../../services/bot-i18n.js';
+import { initializeLocale, getLocalizedDyeName, type LocaleCode } from '../../services/i18n.js';
+import { getDyeEmoji } from '../../services/emoji.js';
+import { getDyeById, getDyeByName, getDyeAutocomplete } from '../../services/budget/index.js';
+import { storeContext, buildCustomId, CONTEXT_TTL } from '../../services/component-context.js';
+import {
+  getChannelRound,
+  setChannelRound,
+  submitQuizAnswer,
+  getLeaderboard,
+  QUIZ_COMMAND,
+  type QuizRoundState,
+  type QuizAnswerOutcome,
+} from '../../services/dyequiz.js';
+import type { Env, DiscordInteraction } from '../../types/env.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Embed color for rounds and the leaderboard (Discord blurple) */
+const QUIZ_COLOR = 0x5865f2;
+
+/** Embed color for a solved round (green) */
+const SOLVED_COLOR = 0x57f287;
+
+/** Swatch attachment name on the round message */
+const SWATCH_FILENAME = 'dyequiz.png';
+
+const DEFAULT_DIFFICULTY: QuizDifficulty = 'normal';
+const DEFAULT_POOL: QuizPool = 'all';
+
+/** Vision types offered by `start` (named by the accessibility.* keys) */
+const QUIZ_VISION_TYPES: readonly VisionType[] = ['protanopia', 'deuteranopia', 'tritanopia'];
+
+type SubcommandOptions = Array<{ name: string; value?: string | number | boolean }>;
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Handles the /dyequiz command and subcommands
+ */
+export async function handleDyeQuizCommand(
+  interaction: DiscordInteraction,
+  env: Env,
+  ctx: ExecutionContext,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const userId = interaction.member?.user?.id ?? interaction.user?.id ?? 'unknown';
+  const guildId = interaction.guild_id;
+  const t = await createUserTranslator(env.KV, userId, interaction.locale, logger, guildId);
+
+  // Scores are per server, so rounds only run in server channels
+  if (!guildId || !interaction.channel_id) {
+    return errorResponse(t, t.t('dyequiz.errors.guildOnly'));
+  }
+
+  const subcommand = interaction.data?.options?.[0];
+  const options: SubcommandOptions = subcommand?.options || [];
+
+  switch (subcommand?.name) {
+    case 'start':
+      return handleStartSubcommand(interaction, env, ctx, guildId, interaction.channel_id, userId, options, t, logger);
+
+    case 'guess':
+      return handleGuessSubcommand(env, ctx, interaction.channel_id, userId, options, t, logger);
+
+    case 'leaderboard':
+      return handleLeaderboardSubcommand(env, guildId, t);
+
+    default:
+      return errorResponse(t, t.t('errors.missingSubcommand'));
+  }
+}
+
+// ============================================================================
+// Subcommand Handlers
+// ============================================================================
+
+/**
+ * Handles /dyequiz start [difficulty] [pool] [vision]
+ */
+function handleStartSubcommand(
+  interaction: DiscordInteraction,
+  env: Env,
+  ctx: ExecutionContext,
+  guildId: string,
+  channelId: string,
+  userId: string,
+  options: SubcommandOptions,
+  t: Translator,
+  logger?: ExtendedLogger
+): Response {
+  const difficulty = parseChoice(options, 'difficulty', QUIZ_DIFFICULTIES) ?? DEFAULT_DIFFICULTY;
+  const pool = parseChoice(options, 'pool', QUIZ_POOLS) ?? DEFAULT_POOL;
+  const vision = parseChoice(options, 'vision', QUIZ_VISION_TYPES);
+
+  const result = executeDyeQuiz({ difficulty, pool, vision });
+  if (!result.ok) {
+    return errorResponse(t, t.t('dyequiz.errors.poolTooSmall'));
+  }
+
+  const { round } = result;
+  const state: QuizRoundState = {
+    guildId,
+    channelId,
+    locale: t.getLocale(),
+    difficulty,
+    pool,
+    vision,
+    answerItemId: round.answer.itemID,
+    choiceItemIds: round.choices.map((dye) => dye.itemID),
+  };
+
+  const deferResponse = deferredResponse();
+  ctx.waitUntil(postRound(interaction, env, userId, state, round.choices, result.svgString, logger));
+  return deferResponse;
+}
+
+/**
+ * Store the round, then replace the "thinking…" message with the swatch and buttons
+ */
+async function postRound(
+  interaction: DiscordInteraction,
+  env: Env,
+  userId: string,
+  state: QuizRoundState,
+  choices: Dye[],
+  svgString: string,
+  logger?: ExtendedLogger
+): Promise<void> {
+  const t = createTranslator(state.locale);
+  await initializeLocale(state.locale);
+
+  try {
+    // The interaction token lets answers reveal the solution on this message later
+    const hash = await storeContext(
+      env.KV,
+      {
+        command: QUIZ_COMMAND,
+        userId,
+        interactionToken: interaction.token,
+        applicationId: env.DISCORD_CLIENT_ID,
+        data: state,
+      },
+      CONTEXT_TTL.STANDARD,
+      logger
+    );
+    await setChannelRound(env.KV, state.channelId, hash, logger);
+
+    const pngBuffer = await renderSvgToPng(svgString, { scale: 2 });
+
+    await safeEditOriginalResponse(
+      env.DISCORD_CLIENT_ID,
+      interaction.token,
+      {
+        embeds: [buildRoundEmbed(state, t)],
+        components: buildAnswerButtons(hash, choices, state.locale),
+        file: { name: SWATCH_FILENAME, data: pngBuffer, contentType: 'image/png' },
+      },
+      logger
+    );
+  } catch (error) {
+    if (logger) logger.error('Dye quiz start failed', error instanceof Error ? error : undefined);
+    await safeEditOriginalResponse(
+      env.DISCORD_CLIENT_ID,
+      interaction.token,
+      { embeds: [errorEmbed(t.t('common.error'), t.t('dyequiz.errors.startFailed'))] },
+      logger
+    );
+  }
+}
+
+/**
+ * Handles /dyequiz guess <dye>
+ */
+async function handleGuessSubcommand(
+  env: Env,
+  ctx: ExecutionContext,
+  channelId: string,
+  userId: string,
+  options: SubcommandOptions,
+  t: Translator,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const input = String(options.find((opt) => opt.name === 'dye')?.value ?? '').trim();
+
+  // Autocomplete submits the item ID; typed names are looked up
+  const dye = /^\d+$/.test(input) ? getDyeById(parseInt(input, 10)) : getDyeByName(input);
+  if (!dye) {
+    return errorResponse(t, t.t('dyequiz.errors.unknownDye', { input }));
+  }
+
+  const hash = await getChannelRound(env.KV, channelId);
+  if (!hash) {
+    return ephemeralResponse(t.t('dyequiz.noRound'));
+  }
+
+  return answerRound(env, ctx, hash, userId, dye, t, logger);
+}
+
+/**
+ * Handles /dyequiz leaderboard
+ */
+async function handleLeaderboardSubcommand(env: Env, guildId: string, t: Translator): Promise<Response> {
+  const entries = await getLeaderboard(env.KV, guildId);
+
+  if (entries.length === 0) {
+    return ephemeralResponse(t.t('dyequiz.leaderboard.empty'));
+  }
+
+  const medals = ['🥇', '🥈', '🥉'];
+  const lines = entries.map((entry, index) => {
+    const rank = medals[index] ?? `**${index + 1}.**`;
+    return `${rank} <@${entry.userId}> — ${t.t('dyequiz.leaderboard.line', {
+      points: entry.points,
+      bestStreak: entry.bestStreak,
+    })}`;
+  });
+
+  // Mentions inside embeds render as names without pinging anyone
+  return messageResponse({
+    embeds: [
+      {
+        title: `🏆 ${t.t('dyequiz.leaderboard.title')}`,
+        description: lines.join('\n'),
+        color: QUIZ_COLOR,
+        footer: { text: t.t('common.footer') },
+      },
+    ],
+  });
+}
+
+// ============================================================================
+// Answering (shared with the answer buttons)
+// ============================================================================
+
+/**
+ * Score an answer and reply privately with the result
+ *
+ * When the answer solves the round, the round message is edited in the
+ * background to reveal the dye and remove its buttons.
+ */
+export async function answerRound(
+  env: Env,
+  ctx: ExecutionContext,
+  hash: string,
+  userId: string,
+  guess: Dye,
+  t: Translator,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const outcome = await submitQuizAnswer(env.KV, hash, userId, guess, logger);
+  await initializeLocale(t.getLocale());
+
+  if (outcome.status === 'scored' && outcome.solved) {
+    ctx.waitUntil(revealSolvedRound(outcome, userId, logger));
+  }
+
+  return ephemeralResponse(formatOutcome(outcome, t));
+}
+
+/**
+ * Edit the round message: show the answer and who named it, drop the buttons
+ */
+async function revealSolvedRound(
+  outcome: Extract<QuizAnswerOutcome, { status: 'scored' }>,
+  userId: string,
+  logger?: ExtendedLogger
+): Promise<void> {
+  const { round, answer } = outcome;
+  const state = round.data;
+  const t = createTranslator(state.locale);
+  await initializeLocale(state.locale);
+
+  await safeEditOriginalResponse(
+    round.applicationId,
+    round.interactionToken,
+    {
+      embeds: [
+        {
+          ...buildRoundEmbed(state, t),
+          title: `✅ ${t.t('dyequiz.solved.title')}`,
+          description: t.t('dyequiz.solved.description', {
+            user: `<@${userId}>`,
+            dye: formatDyeName(answer, state.locale, true),
+            hex: answer.hex.toUpperCase(),
+          }),
+          color: SOLVED_COLOR,
+          // The swatch uploaded with the round stays attached to the message
+          image: { url: `attachment://${SWATCH_FILENAME}` },
+        },
+      ],
+      components: [],
+    },
+    logger
+  );
+}
+
+/**
+ * Private reply text for an answer outcome
+ */
+function formatOutcome(outcome: QuizAnswerOutcome, t: Translator): string {
+  const locale = t.getLocale();
+
+  switch (outcome.status) {
+    case 'expired':
+      return t.t('dyequiz.expired');
+
+    case 'closed':
+      return t.t('dyequiz.closed', {
+        dye: formatDyeName(outcome.answer, locale, true),
+        user: `<@${outcome.solvedBy}>`,
+      });
+
+    case 'alreadyAnswered':
+      return t.t('dyequiz.alreadyAnswered', { points: outcome.points });
+
+    case 'scored': {
+      const { score, guess, stats } = outcome;
+      const lines: string[] = [];
+
+      if (score.correct) {
+        lines.push(t.t('dyequiz.correct', { dye: formatDyeName(guess, locale, true), points: score.points }));
+        if (score.streakBonus > 0) {
+          lines.push(t.t('dyequiz.streakBonus', { streak: score.streak, bonus: score.streakBonus }));
+        }
+      } else {
+        const values = {
+          guess: formatDyeName(guess, locale, false),
+          deltaE: score.deltaE.toFixed(1),
+          points: score.points,
+        };
+        lines.push(score.points > 0 ? t.t('dyequiz.close', values) : t.t('dyequiz.miss', values));
+      }
+
+      lines.push(t.t('dyequiz.total', { points: stats.points }));
+      return lines.join('\n');
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function errorResponse(t: Translator, message: string): Response {
+  return ephemeralResponse({ embeds: [errorEmbed(t.t('common.error'), message)] });
+}
+
+/**
+ * Read a choice option, ignoring values outside the allowed list
+ */
+function parseChoice<T extends string>(
+  options: SubcommandOptions,
+  name: string,
+  allowed: readonly T[]
+): T | undefined {
+  const value = options.find((opt) => opt.name === name)?.value;
+  return allowed.find((choice) => choice === value);
+}
+
+/**
+ * Localized dye name; the emoji is a color swatch, so it is only shown once
+ * the answer is out
+ */
+function formatDyeName(dye: Dye, locale: LocaleCode, withEmoji: boolean): string {
+  const name = getLocalizedDyeName(dye.itemID, dye.name, locale);
+  const emoji = withEmoji ? getDyeEmoji(dye.id) : undefined;
+  return emoji ? `${emoji} ${name}` : name;
+}
+
+function buildRoundEmbed(state: QuizRoundState, t: Translator): DiscordEmbed {
+  const lines = [
+    t.t('dyequiz.prompt'),
+    '',
+    t.t('dyequiz.settings', {
+      difficulty: t.t(`dyequiz.difficulty.${state.difficulty}`),
+      pool: t.t(`dyequiz.pool.${state.pool}`),
+    }),
+  ];
+  if (state.vision) {
+    lines.push(t.t('dyequiz.visionNote', { vision: t.t(`accessibility.${state.vision}`) }));
+  }
+
+  return {
+    title: `🎨 ${t.t('dyequiz.title')}`,
+    description: lines.join('\n'),
+    color: QUIZ_COLOR,
+    image: { url: 'attachment://image.png' },
+    footer: { text: t.t('dyequiz.footer') },
+  };
+}
+
+/**
+ * One button per choice, labelled with the dye name only (no swatch emoji)
+ */
+function buildAnswerButtons(hash: string, choices: Dye[], locale: LocaleCode): DiscordActionRow[] {
+  return [
+    {
+      type: 1, // ACTION_ROW
+      components: choices.map((dye) => ({
+        type: 2 as const, // BUTTON
+        style: 2 as const, // SECONDARY (gray)
+        label: getLocalizedDyeName(dye.itemID, dye.name, locale),
+        custom_id: buildCustomId('answer', QUIZ_COMMAND, hash, String(dye.itemID)),
+      })),
+    },
+  ];
+}
+
+// ============================================================================
+// Autocomplete Handler
+// ============================================================================
+
+/**
+ * Handles autocomplete for /dyequiz guess dye
+ */
+export function handleDyeQuizAutocomplete(interaction: DiscordInteraction): Response {
+  const subcommand = interaction.data?.options?.[0];
+  const focusedOption = subcommand?.options?.find((opt) => opt.focused === true);
+  const query = String(focusedOption?.value || '');
+
+  const choices = focusedOption?.name === 'dye' ? getDyeAutocomplete(query, 25) : [];
+
+  return Response.json({
+    type: 8, // APPLICATION_COMMAND_AUTOCOMPLETE_RESULT
+    data: { choices },
+  });
+}
@@ -44,6 +44,7 @@ import { generatePaletteGrid, type PaletteEntry, type PaletteGridLabels } from '
 import { renderSvgToPng } from '../../services/svg/renderer.js';
 import { validateAndFetchImage, processImageForExtraction } from '../../services/image/index.js';
 import { getMatchQuality as getImageMatchQuality } from '../../types/image.js';
+import { buildRecolorAttachment } from './match-image.js';
 import type { Env, DiscordInteraction } from '../../types/env.js';
 
 // ============================================================================
@@ -251,7 +252,7 @@ async function handleColorSubcommand(
   options: Array<{ name: string; value?: string | number | boolean }>
 ): Promise<Response> {
   const userId = interaction.member?.user?.id ?? interaction.user?.id ?? 'unknown';
-  const t = await createUserTranslator(env.KV, userId, interaction.locale);
+  const t = await createUserTranslator(env.KV, userId, interaction.locale, undefined, interaction.guild_id);
 
   // Initialize localization for dye names
   const locale = t.getLocale();
@@ -456,10 +457,11 @@ async function handleImageSubcommand(
   // Get the image attachment option
   const imageOption = options.find((opt) => opt.name === 'image');
   const colorsOption = options.find((opt) => opt.name === 'colors');
+  const recolor = options.find((opt) => opt.name === 'recolor')?.value === true;
 
   // Get translator for validation errors (before deferring)
   const t = userId
-    ? await createUserTranslator(env.KV, userId, interaction.locale)
+    ? await createUserTranslator(env.KV, userId, interaction.locale, logger, interaction.guild_id)
     : createTranslator(discordLocaleToLocaleCode(interaction.locale ?? 'en') ?? 'en');
 
   // Validate image attachment
@@ -501,7 +503,7 @@ async function handleImageSubcommand(
 
   // Process in background
   ctx.waitUntil(
-    processImageExtraction(interaction, env, attachment.url, colorCount, locale, logger)
+    processImageExtraction(interaction, env, attachment.url, colorCount, locale, logger, recolor)
   );
 
   return deferResponse;
@@ -516,7 +518,8 @@ async function processImageExtraction(
   imageUrl: string,
   colorCount: number,
   locale: LocaleCode,
-  logger?: ExtendedLogger
+  logger?: ExtendedLogger,
+  recolor = false
 ): Promise<void> {
   const t = createTranslator(locale);
 
@@ -604,8 +607,12 @@ async function processImageExtraction(
 
     // Step 9: Build description
     const description = buildImageMatchDescription(matches, t);
+    const color = parseInt(matches[0].matchedDye.hex.replace('#', ''), 16);
+
+    // Step 10: Recolor preview (optional; the palette still goes out if it fails)
+    const preview = recolor ? await buildRecolorAttachment(buffer, matches, color, t, logger) : null;
 
-    // Step 10: Send response
+    // Step 11: Send response
     await safeEditOriginalResponse(env.DISCORD_CLIENT_ID, interaction.token, {
       embeds: [
         {
@@ -613,18 +620,20 @@ async function processImageExtraction(
             ? t.t('matchImage.closestMatch')
             : t.t('matchImage.topMatches', { count: matches.length }),
           description,
-          color: parseInt(matches[0].matchedDye.hex.replace('#', ''), 16),
+          color,
           image: { url: 'attachment://image.png' },
           footer: {
             text: `${t.t('common.footer')} • ${t.t('matchImage.extractionMethod')}`,
           },
         },
+        ...(preview ? [preview.embed] : []),
       ],
       file: {
         name: 'extractor-image.png',
         data: pngBuffer,
         contentType: 'image/png',
       },
+      ...(preview && { files: [preview.file] }),
     });
   } catch (error) {
     if (logger) {
@@ -48,6 +48,10 @@ vi.mock('../../services/user-storage.js');
 vi.mock('../../services/emoji.js');
 vi.mock('../../services/bot-i18n.js');
 vi.mock('../../services/i18n.js');
+// Sync is covered by services/library-sync.test.ts; run the command directly
+vi.mock('../../services/library-sync.js', () => ({
+  withLibrarySync: (_env: unknown, _ctx: unknown, _userId: string, operation: () => Promise<Response>) => operation(),
+}));
 
 // Import modules (response helpers are NOT mocked)
 import {
@@ -18,6 +18,7 @@ import {
   MAX_FAVORITES,
 } from '../../services/user-storage.js';
 import { getDyeEmoji } from '../../services/emoji.js';
+import { withLibrarySync } from '../../services/library-sync.js';
 import { resolveDyeInput, dyeService } from '../../utils/color.js';
 import { createUserTranslator, type Translator } from '../../services/bot-i18n.js';
 import { initializeLocale, getLocalizedDyeName, getLocalizedCategory } from '../../services/i18n.js';
@@ -45,7 +46,7 @@ const DEPRECATION_COLOR = 0xfee75c; // Yellow
 export async function handleFavoritesCommand(
   interaction: DiscordInteraction,
   env: Env,
-  _ctx: ExecutionContext
+  ctx: ExecutionContext
 ): Promise<Response> {
   const userId = interaction.member?.user?.id ?? interaction.user?.id;
 
@@ -57,7 +58,7 @@ export async function handleFavoritesCommand(
   }
 
   // Get translator for user's locale
-  const t = await createUserTranslator(env.KV, userId, interaction.locale);
+  const t = await createUserTranslator(env.KV, userId, interaction.locale, undefined, interaction.guild_id);
 
   // Initialize xivdyetools-core localization for dye names using translator's resolved locale
   await initializeLocale(t.getLocale());
@@ -73,25 +74,28 @@ export async function handleFavoritesCommand(
     });
   }
 
-  switch (subcommand.name) {
-    case 'add':
-      return handleAddFavorite(env, userId, t, subcommand.options);
+  // Favorites are shared with the web app (services/library-sync)
+  return withLibrarySync(env, ctx, userId, async () => {
+    switch (subcommand.name) {
+      case 'add':
+        return handleAddFavorite(env, userId, t, subcommand.options);
 
-    case 'remove':
-      return handleRemoveFavorite(env, userId, t, subcommand.options);
+      case 'remove':
+        return handleRemoveFavorite(env, userId, t, subcommand.options);
 
-    case 'list':
-      return handleListFavorites(env, userId, t);
+      case 'list':
+        return handleListFavorites(env, userId, t);
 
-    case 'clear':
-      return handleClearFavorites(env, userId, t);
+      case 'clear':
+        return handleClearFavorites(env, userId, t);
 
-    default:
-      return messageResponse({
-        embeds: [errorEmbed(t.t('common.error'), `Unknown subcommand: ${subcommand.name}`)],
-        flags: 64,
-      });
-  }
+      default:
+        return messageResponse({
+          embeds: [errorEmbed(t.t('common.error'), `Unknown subcommand: ${subcommand.name}`)],
+          flags: 64,
+        });
+    }
+  });
 }
 
 // ============================================================================
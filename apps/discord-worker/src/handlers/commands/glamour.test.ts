@@ -0,0 +1,436 @@
+/**
+ * Tests for /glamour command handler
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleGlamourCommand, handleGlamourAutocomplete, suggestSecondaryDye } from './glamour.js';
+import type { DiscordInteraction, Env, InteractionResponseBody } from '../../types/env.js';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+const DYES: Record<
+    number,
+    { id: number; itemID: number; name: string; hex: string; consolidationType?: 'A' | null }
+> = {
+    5729: { id: 1, itemID: 5729, name: 'Pure White', hex: '#F9F8F4' },
+    5730: { id: 2, itemID: 5730, name: 'Jet Black', hex: '#1E1E1E' },
+    5731: { id: 3, itemID: 5731, name: 'Dalamud Red', hex: '#AA1111' },
+    // Patch 7.5 Type-A dye, listed under the Standard Spectrum Dye (52254)
+    5740: { id: 4, itemID: 5740, name: 'Coral Pink', hex: '#CC6D71', consolidationType: 'A' },
+};
+
+const mockValidateWorld = vi.fn();
+const mockIsUniversalisEnabled = vi.fn();
+const mockFetchPricesBatched = vi.fn();
+vi.mock('../../services/budget/index.js', () => ({
+    getDyeById: (id: number) => DYES[id] ?? null,
+    getDyeByName: (name: string) => Object.values(DYES).find((d) => d.name.toLowerCase() === name.toLowerCase()) ?? null,
+    getDyeAutocomplete: vi.fn(() => [{ name: 'Pure White', value: '5729' }]),
+    isUniversalisEnabled: (...args: unknown[]) => mockIsUniversalisEnabled(...args),
+    validateWorld: (...args: unknown[]) => mockValidateWorld(...args),
+    getWorldAutocomplete: vi.fn(async () => [{ name: 'Cactuar', value: 'Cactuar' }]),
+    fetchPricesBatched: (...args: unknown[]) => mockFetchPricesBatched(...args),
+    // Pass-through cache: always call the fetcher
+    fetchWithCache: async (
+        _world: string,
+        ids: number[],
+        fetcher: (ids: number[]) => Promise<Map<number, unknown>>
+    ) => ({ prices: await fetcher(ids) }),
+}));
+
+const mockGetGlamourPlan = vi.fn();
+const mockSetGlamourSlot = vi.fn();
+const mockSetGlamourSlots = vi.fn();
+const mockClearGlamourSlot = vi.fn();
+const mockClearGlamourPlan = vi.fn();
+vi.mock('../../services/user-storage.js', () => ({
+    GLAMOUR_SLOTS: ['head', 'body', 'hands', 'legs', 'feet', 'weapon', 'accessories'],
+    getGlamourPlan: (...args: unknown[]) => mockGetGlamourPlan(...args),
+    setGlamourSlot: (...args: unknown[]) => mockSetGlamourSlot(...args),
+    setGlamourSlots: (...args: unknown[]) => mockSetGlamourSlots(...args),
+    clearGlamourSlot: (...args: unknown[]) => mockClearGlamourSlot(...args),
+    clearGlamourPlan: (...args: unknown[]) => mockClearGlamourPlan(...args),
+}));
+
+// Harmony suggestions: every color's complement is Jet Black
+vi.mock('../../utils/color.js', () => ({
+    dyeService: {
+        findComplementaryPair: vi.fn(() => DYES[5730]),
+        findAnalogousDyes: vi.fn(() => [DYES[5729], DYES[5731]]),
+        findTriadicDyes: vi.fn(() => []),
+        findSplitComplementaryDyes: vi.fn(() => []),
+        findTetradicDyes: vi.fn(() => []),
+        findSquareDyes: vi.fn(() => []),
+        findMonochromaticDyes: vi.fn(() => []),
+    },
+}));
+
+const mockGenerateGlamourPlanCard = vi.fn((_options: unknown) => '<svg></svg>');
+vi.mock('@xivdyetools/svg', () => ({
+    generateGlamourPlanCard: (options: unknown) => mockGenerateGlamourPlanCard(options),
+}));
+
+vi.mock('../../services/svg/renderer.js', () => ({
+    renderSvgToPng: vi.fn(async () => new Uint8Array([1, 2, 3])),
+}));
+
+const mockEditOriginalResponse = vi.fn();
+vi.mock('../../utils/discord-api.js', () => ({
+    safeEditOriginalResponse: (...args: unknown[]) => mockEditOriginalResponse(...args),
+}));
+
+let mockPrefs: Record<string, unknown> = {};
+vi.mock('../../services/bot-i18n.js', () => ({
+    createUserTranslatorWithPrefs: vi.fn(async () => ({
+        t: {
+            t: (key: string, vars?: Record<string, unknown>) => (vars ? `${key} ${JSON.stringify(vars)}` : key),
+            getLocale: () => 'en',
+        },
+        prefs: mockPrefs,
+    })),
+}));
+
+vi.mock('../../services/i18n.js', () => ({
+    initializeLocale: vi.fn(),
+    getLocalizedDyeName: (_id: number, name: string) => name,
+}));
+
+vi.mock('../../services/emoji.js', () => ({
+    getDyeEmoji: () => undefined,
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+const env = { KV: {} as KVNamespace, DISCORD_CLIENT_ID: 'app-id' } as Env;
+
+function createCtx() {
+    const pending: Promise<unknown>[] = [];
+    return {
+        ctx: { waitUntil: (promise: Promise<unknown>) => pending.push(promise) } as unknown as ExecutionContext,
+        settle: () => Promise.all(pending),
+    };
+}
+
+function interactionFor(subcommand: string, options: Array<Record<string, unknown>> = []): DiscordInteraction {
+    return {
+        id: 'interaction-1',
+        application_id: 'app-id',
+        type: 2,
+        token: 'test-token',
+        member: { user: { id: 'user-1' } },
+        data: {
+            name: 'glamour',
+            options: [{ name: subcommand, type: 1, options }],
+        },
+    } as DiscordInteraction;
+}
+
+async function bodyOf(response: Response): Promise<InteractionResponseBody> {
+    return (await response.json()) as InteractionResponseBody;
+}
+
+function priceMap(entries: Array<[number, number]>) {
+    return new Map(entries.map(([itemID, currentMinPrice]) => [itemID, { itemID, currentMinPrice }]));
+}
+
+interface CardCall {
+    rows: Array<{ slotLabel: string; secondary: { itemID: number } | null; secondarySuggested?: boolean; cost: number | null }>;
+    totalCost: number | null;
+}
+
+function lastCard(): CardCall {
+    return mockGenerateGlamourPlanCard.mock.calls.at(-1)?.[0] as CardCall;
+}
+
+describe('glamour.ts', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockPrefs = {};
+        mockIsUniversalisEnabled.mockReturnValue(true);
+        mockValidateWorld.mockImplementation(async (_env: Env, world: string) =>
+            world.toLowerCase() === 'cactuar' ? 'Cactuar' : null
+        );
+        mockGetGlamourPlan.mockResolvedValue(null);
+        mockSetGlamourSlot.mockResolvedValue(true);
+        mockSetGlamourSlots.mockResolvedValue(true);
+    });
+
+    describe('/glamour set', () => {
+        it('should save both channels of the slot', async () => {
+            const { ctx } = createCtx();
+            const response = await handleGlamourCommand(
+                interactionFor('set', [
+                    { name: 'slot', value: 'head' },
+                    { name: 'primary', value: '5729' },
+                    { name: 'secondary', value: 'Jet Black' },
+                ]),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(mockSetGlamourSlot).toHaveBeenCalledWith(env.KV, 'user-1', 'head', { primary: 5729, secondary: 5730 }, undefined);
+            expect(body.data?.flags).toBe(64);
+            expect(body.data?.content).toContain('glamour.slotSet');
+            expect(body.data?.content).toContain('Pure White / Jet Black');
+        });
+
+        it('should leave the secondary channel undyed when omitted', async () => {
+            const { ctx } = createCtx();
+            await handleGlamourCommand(
+                interactionFor('set', [
+                    { name: 'slot', value: 'body' },
+                    { name: 'primary', value: '5731' },
+                ]),
+                env,
+                ctx
+            );
+
+            expect(mockSetGlamourSlot).toHaveBeenCalledWith(env.KV, 'user-1', 'body', { primary: 5731 }, undefined);
+        });
+
+        it('should reject unknown dyes', async () => {
+            const { ctx } = createCtx();
+            const response = await handleGlamourCommand(
+                interactionFor('set', [
+                    { name: 'slot', value: 'head' },
+                    { name: 'primary', value: 'Not A Dye' },
+                ]),
+                env,
+                ctx
+            );
+
+            expect((await bodyOf(response)).data?.content).toContain('budget.errors.dyeNotFound');
+            expect(mockSetGlamourSlot).not.toHaveBeenCalled();
+        });
+
+        it('should report save failures', async () => {
+            mockSetGlamourSlot.mockResolvedValue(false);
+            const { ctx } = createCtx();
+
+            const response = await handleGlamourCommand(
+                interactionFor('set', [
+                    { name: 'slot', value: 'head' },
+                    { name: 'primary', value: '5729' },
+                ]),
+                env,
+                ctx
+            );
+
+            expect((await bodyOf(response)).data?.content).toBe('glamour.errors.saveFailed');
+        });
+    });
+
+    describe('/glamour show', () => {
+        it('should show the empty state', async () => {
+            const { ctx } = createCtx();
+            const response = await handleGlamourCommand(interactionFor('show'), env, ctx);
+
+            expect((await bodyOf(response)).data?.content).toBe('glamour.planEmpty');
+        });
+
+        it('should render every slot with per-slot and total cost', async () => {
+            mockGetGlamourPlan.mockResolvedValue({
+                slots: { head: { primary: 5729, secondary: 5730 }, body: { primary: 5731 } },
+                updatedAt: '',
+            });
+            mockFetchPricesBatched.mockResolvedValue(priceMap([[5729, 1000], [5730, 2000], [5731, 500]]));
+            const { ctx, settle } = createCtx();
+
+            const response = await handleGlamourCommand(
+                interactionFor('show', [{ name: 'world', value: 'Cactuar' }]),
+                env,
+                ctx
+            );
+            await settle();
+
+            expect((await bodyOf(response)).type).toBe(5);
+            expect(mockFetchPricesBatched).toHaveBeenCalledWith(env, 'Cactuar', [5729, 5730, 5731], undefined);
+
+            const card = lastCard();
+            expect(card.rows).toHaveLength(7);
+            expect(card.rows[0].cost).toBe(3000);
+            expect(card.rows[1].cost).toBe(500);
+            expect(card.rows[2].cost).toBeNull();
+            expect(card.totalCost).toBe(3500);
+
+            const payload = mockEditOriginalResponse.mock.calls[0][2];
+            expect(payload.file.name).toBe('glamour.png');
+            expect(payload.embeds[0].description).toContain('budget.worldUsed');
+        });
+
+        it('should price consolidated dyes by their market item ID', async () => {
+            mockGetGlamourPlan.mockResolvedValue({
+                slots: { head: { primary: 5740, secondary: 5729 }, body: { primary: 5740 } },
+                updatedAt: '',
+            });
+            mockFetchPricesBatched.mockResolvedValue(priceMap([[52254, 216], [5729, 1000]]));
+            const { ctx, settle } = createCtx();
+
+            await handleGlamourCommand(interactionFor('show', [{ name: 'world', value: 'Cactuar' }]), env, ctx);
+            await settle();
+
+            expect(mockFetchPricesBatched).toHaveBeenCalledWith(env, 'Cactuar', [52254, 5729], undefined);
+            expect(lastCard().rows[0].cost).toBe(1216);
+            expect(lastCard().rows[1].cost).toBe(216);
+            expect(lastCard().totalCost).toBe(1432);
+        });
+
+        it('should render without prices when no world is known', async () => {
+            mockGetGlamourPlan.mockResolvedValue({ slots: { head: { primary: 5729 } }, updatedAt: '' });
+            const { ctx, settle } = createCtx();
+
+            await handleGlamourCommand(interactionFor('show'), env, ctx);
+            await settle();
+
+            expect(mockFetchPricesBatched).not.toHaveBeenCalled();
+            expect(lastCard().totalCost).toBeNull();
+            expect(mockEditOriginalResponse.mock.calls[0][2].embeds[0].description).toContain('glamour.noWorld');
+        });
+
+        it('should still render the card when the price fetch fails', async () => {
+            mockPrefs = { world: 'Cactuar' };
+            mockGetGlamourPlan.mockResolvedValue({ slots: { head: { primary: 5729 } }, updatedAt: '' });
+            mockFetchPricesBatched.mockRejectedValue(new Error('Universalis down'));
+            const { ctx, settle } = createCtx();
+
+            await handleGlamourCommand(interactionFor('show'), env, ctx);
+            await settle();
+
+            expect(lastCard().totalCost).toBeNull();
+            expect(mockEditOriginalResponse.mock.calls[0][2].embeds[0].description).toContain('glamour.pricesUnavailable');
+        });
+
+        it('should count dyes without a listed price', async () => {
+            mockGetGlamourPlan.mockResolvedValue({
+                slots: { head: { primary: 5729, secondary: 5730 } },
+                updatedAt: '',
+            });
+            mockFetchPricesBatched.mockResolvedValue(priceMap([[5729, 1000]]));
+            const { ctx, settle } = createCtx();
+
+            await handleGlamourCommand(interactionFor('show', [{ name: 'world', value: 'Cactuar' }]), env, ctx);
+            await settle();
+
+            expect(lastCard().rows[0].cost).toBeNull();
+            expect(lastCard().totalCost).toBe(1000);
+            expect(mockEditOriginalResponse.mock.calls[0][2].embeds[0].description).toContain(
+                'glamour.missingPrices {"count":1}'
+            );
+        });
+    });
+
+    describe('/glamour harmonize', () => {
+        it('should require at least one primary dye', async () => {
+            const { ctx } = createCtx();
+            const response = await handleGlamourCommand(interactionFor('harmonize'), env, ctx);
+
+            expect((await bodyOf(response)).data?.content).toBe('glamour.errors.noPrimaries');
+        });
+
+        it('should preview suggestions without saving them', async () => {
+            mockGetGlamourPlan.mockResolvedValue({ slots: { head: { primary: 5729 } }, updatedAt: '' });
+            const { ctx, settle } = createCtx();
+
+            const response = await handleGlamourCommand(interactionFor('harmonize'), env, ctx);
+            await settle();
+
+            expect((await bodyOf(response)).type).toBe(5);
+            expect(mockSetGlamourSlots).not.toHaveBeenCalled();
+            expect(lastCard().rows[0].secondary?.itemID).toBe(5730);
+            expect(lastCard().rows[0].secondarySuggested).toBe(true);
+            expect(mockEditOriginalResponse.mock.calls[0][2].embeds[0].description).toContain('glamour.applyHint');
+        });
+
+        it('should save suggestions with apply', async () => {
+            mockGetGlamourPlan.mockResolvedValue({ slots: { head: { primary: 5729, secondary: 5731 } }, updatedAt: '' });
+            const { ctx, settle } = createCtx();
+
+            await handleGlamourCommand(interactionFor('harmonize', [{ name: 'apply', value: true }]), env, ctx);
+            await settle();
+
+            expect(mockSetGlamourSlots).toHaveBeenCalledWith(
+                env.KV,
+                'user-1',
+                { head: { primary: 5729, secondary: 5730 } },
+                undefined
+            );
+            expect(lastCard().rows[0].secondarySuggested).toBe(false);
+            expect(mockEditOriginalResponse.mock.calls[0][2].embeds[0].description).toContain('glamour.applied');
+        });
+
+        it('should report when the harmony type has no suggestions', async () => {
+            mockGetGlamourPlan.mockResolvedValue({ slots: { head: { primary: 5729 } }, updatedAt: '' });
+            const { ctx } = createCtx();
+
+            const response = await handleGlamourCommand(
+                interactionFor('harmonize', [{ name: 'type', value: 'triadic' }]),
+                env,
+                ctx
+            );
+
+            expect((await bodyOf(response)).data?.content).toBe('glamour.errors.noSuggestions');
+        });
+    });
+
+    describe('/glamour clear', () => {
+        it('should clear a single slot', async () => {
+            mockClearGlamourSlot.mockResolvedValue(true);
+            const { ctx } = createCtx();
+
+            const response = await handleGlamourCommand(interactionFor('clear', [{ name: 'slot', value: 'feet' }]), env, ctx);
+
+            expect(mockClearGlamourSlot).toHaveBeenCalledWith(env.KV, 'user-1', 'feet', undefined);
+            expect((await bodyOf(response)).data?.content).toContain('glamour.slotCleared');
+        });
+
+        it('should explain when the slot was not dyed', async () => {
+            mockClearGlamourSlot.mockResolvedValue(false);
+            const { ctx } = createCtx();
+
+            const response = await handleGlamourCommand(interactionFor('clear', [{ name: 'slot', value: 'feet' }]), env, ctx);
+
+            expect((await bodyOf(response)).data?.content).toContain('glamour.errors.slotEmpty');
+        });
+
+        it('should clear the whole plan without a slot', async () => {
+            mockClearGlamourPlan.mockResolvedValue(true);
+            const { ctx } = createCtx();
+
+            const response = await handleGlamourCommand(interactionFor('clear'), env, ctx);
+
+            expect((await bodyOf(response)).data?.content).toBe('glamour.planCleared');
+        });
+    });
+
+    describe('suggestSecondaryDye', () => {
+        it('should skip the primary dye itself', () => {
+            const suggestion = suggestSecondaryDye(DYES[5729] as never, 'analogous');
+            expect(suggestion?.itemID).toBe(5731);
+        });
+    });
+
+    describe('handleGlamourAutocomplete', () => {
+        it('should suggest dyes for the dye options', async () => {
+            const response = await handleGlamourAutocomplete(
+                interactionFor('set', [{ name: 'primary', value: 'white', focused: true }]),
+                env
+            );
+            const body = (await response.json()) as { type: number; data: { choices: Array<{ value: string }> } };
+
+            expect(body.type).toBe(8);
+            expect(body.data.choices).toEqual([{ name: 'Pure White', value: '5729' }]);
+        });
+
+        it('should suggest worlds for the world option', async () => {
+            const response = await handleGlamourAutocomplete(
+                interactionFor('show', [{ name: 'world', value: 'cac', focused: true }]),
+                env
+            );
+            const body = (await response.json()) as { data: { choices: Array<{ value: string }> } };
+
+            expect(body.data.choices).toEqual([{ name: 'Cactuar', value: 'Cactuar' }]);
+        });
+    });
+});
@@ -0,0 +1,610 @@
+/**
+ * /glamour Command Handler
+ *
+ * Dual-channel outfit planner. Since Dawntrail every gear piece takes a
+ * primary and a secondary dye; this command keeps one plan per user (stored
+ * with favorites and collections in user-storage) and renders it as a
+ * slot-by-slot card with the plan's market cost.
+ *
+ * Subcommands:
+ * - /glamour set <slot> <primary> [secondary] - Dye a slot (replaces both channels)
+ * - /glamour show [world] - Render the plan with market prices
+ * - /glamour harmonize [type] [apply] [world] - Suggest secondary dyes from each primary
+ * - /glamour clear [slot] - Clear one slot, or the whole plan
+ */
+
+import type { ExtendedLogger } from '@xivdyetools/logger';
+import type { Dye } from '@xivdyetools/types';
+import { getMarketItemID } from '@xivdyetools/core';
+import { generateGlamourPlanCard, type GlamourPlanLabels, type GlamourPlanRow } from '@xivdyetools/svg';
+import { deferredResponse, errorEmbed, ephemeralResponse } from '../../utils/response.js';
+import { safeEditOriginalResponse } from '../../utils/discord-api.js';
+import { dyeService } from '../../utils/color.js';
+import { renderSvgToPng } from '../../services/svg/renderer.js';
+import { createUserTranslatorWithPrefs, type Translator } from '../../services/bot-i18n.js';
+import { initializeLocale, getLocalizedDyeName } from '../../services/i18n.js';
+import { getDyeEmoji } from '../../services/emoji.js';
+import {
+  getDyeById,
+  getDyeByName,
+  getDyeAutocomplete,
+  isUniversalisEnabled,
+  validateWorld,
+  getWorldAutocomplete,
+  fetchPricesBatched,
+  fetchWithCache,
+} from '../../services/budget/index.js';
+import {
+  getGlamourPlan,
+  setGlamourSlot,
+  setGlamourSlots,
+  clearGlamourSlot,
+  clearGlamourPlan,
+  GLAMOUR_SLOTS,
+  type GlamourPlan,
+  type GlamourSlot,
+  type GlamourSlotDyes,
+} from '../../services/user-storage.js';
+import type { DyePriceData } from '../../types/budget.js';
+import type { UserPreferences } from '../../types/preferences.js';
+import type { Env, DiscordInteraction } from '../../types/env.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default width for generated images */
+const IMAGE_WIDTH = 800;
+
+/** Translation keys for harmony type names (shared with /harmony) */
+const HARMONY_TYPE_KEYS = {
+  complementary: 'harmony.complementary',
+  analogous: 'harmony.analogous',
+  triadic: 'harmony.triadic',
+  'split-complementary': 'harmony.splitComplementary',
+  tetradic: 'harmony.tetradic',
+  square: 'harmony.square',
+  monochromatic: 'harmony.monochromatic',
+} as const;
+
+type HarmonyType = keyof typeof HARMONY_TYPE_KEYS;
+
+/** Two-tone outfits read best with an opposite accent */
+const DEFAULT_HARMONY_TYPE: HarmonyType = 'complementary';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type CommandOptions = Array<{ name: string; value?: string | number | boolean }>;
+
+/**
+ * A resolved slot ready for rendering
+ */
+interface PlanEntry {
+  slot: GlamourSlot;
+  primary: Dye | null;
+  secondary: Dye | null;
+  secondarySuggested?: boolean;
+}
+
+/**
+ * What to put around the card
+ */
+interface CardOptions {
+  title: string;
+  descriptionLines: string[];
+  /** Embed accent color (first primary dye) */
+  color: number;
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Handles the /glamour command and subcommands
+ */
+export async function handleGlamourCommand(
+  interaction: DiscordInteraction,
+  env: Env,
+  ctx: ExecutionContext,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const userId = interaction.member?.user?.id ?? interaction.user?.id ?? 'unknown';
+  const { t, prefs } = await createUserTranslatorWithPrefs(env.KV, userId, interaction.locale, logger, interaction.guild_id);
+  await initializeLocale(t.getLocale());
+
+  const options = interaction.data?.options || [];
+  const subcommand = options[0];
+
+  if (!subcommand || !subcommand.name) {
+    return ephemeralResponse(t.t('common.error'));
+  }
+
+  switch (subcommand.name) {
+    case 'set':
+      return handleSetSubcommand(env, subcommand.options || [], t, userId, logger);
+
+    case 'show':
+      return handleShowSubcommand(interaction, env, ctx, subcommand.options || [], t, userId, prefs, logger);
+
+    case 'harmonize':
+      return handleHarmonizeSubcommand(interaction, env, ctx, subcommand.options || [], t, userId, prefs, logger);
+
+    case 'clear':
+      return handleClearSubcommand(env, subcommand.options || [], t, userId, logger);
+
+    default:
+      return ephemeralResponse(t.t('common.error'));
+  }
+}
+
+// ============================================================================
+// Subcommand Handlers
+// ============================================================================
+
+/**
+ * Handles /glamour set <slot> <primary> [secondary]
+ */
+async function handleSetSubcommand(
+  env: Env,
+  options: CommandOptions,
+  t: Translator,
+  userId: string,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const slot = parseSlot(options.find((opt) => opt.name === 'slot')?.value);
+  const primaryInput = options.find((opt) => opt.name === 'primary')?.value as string | undefined;
+  const secondaryInput = options.find((opt) => opt.name === 'secondary')?.value as string | undefined;
+
+  if (!slot) {
+    return ephemeralResponse(t.t('common.error'));
+  }
+
+  if (!primaryInput) {
+    return ephemeralResponse(t.t('budget.errors.missingDye'));
+  }
+
+  const primary = resolvePlanDye(primaryInput);
+  if (!primary) {
+    return ephemeralResponse(t.t('budget.errors.dyeNotFound', { name: primaryInput }));
+  }
+
+  const secondary = secondaryInput ? resolvePlanDye(secondaryInput) : null;
+  if (secondaryInput && !secondary) {
+    return ephemeralResponse(t.t('budget.errors.dyeNotFound', { name: secondaryInput }));
+  }
+
+  const dyes: GlamourSlotDyes = { primary: primary.itemID };
+  if (secondary) dyes.secondary = secondary.itemID;
+
+  const saved = await setGlamourSlot(env.KV, userId, slot, dyes, logger);
+  if (!saved) {
+    return ephemeralResponse(t.t('glamour.errors.saveFailed'));
+  }
+
+  const dyeList = [primary, secondary]
+    .filter((dye): dye is Dye => dye !== null)
+    .map((dye) => formatDyeMention(dye, t))
+    .join(' / ');
+
+  return ephemeralResponse(t.t('glamour.slotSet', { slot: t.t(`glamour.slots.${slot}`), dyes: dyeList }));
+}
+
+/**
+ * Handles /glamour show [world]
+ */
+async function handleShowSubcommand(
+  interaction: DiscordInteraction,
+  env: Env,
+  ctx: ExecutionContext,
+  options: CommandOptions,
+  t: Translator,
+  userId: string,
+  prefs: UserPreferences,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const plan = await getGlamourPlan(env.KV, userId, logger);
+  if (!plan || Object.keys(plan.slots).length === 0) {
+    return ephemeralResponse(t.t('glamour.planEmpty'));
+  }
+
+  const entries = resolvePlanEntries(plan);
+  const worldInput = (options.find((opt) => opt.name === 'world')?.value as string | undefined) ?? prefs.world;
+
+  ctx.waitUntil(
+    processPlanCard(
+      interaction,
+      env,
+      entries,
+      { title: t.t('glamour.title'), descriptionLines: [], color: planColor(entries) },
+      worldInput,
+      t,
+      logger
+    )
+  );
+
+  return deferredResponse();
+}
+
+/**
+ * Handles /glamour harmonize [type] [apply] [world]
+ *
+ * Suggests a secondary dye for every slot with a primary dye, using the
+ * harmony generator on the primary's color. With `apply`, the suggestions
+ * replace the saved secondaries.
+ */
+async function handleHarmonizeSubcommand(
+  interaction: DiscordInteraction,
+  env: Env,
+  ctx: ExecutionContext,
+  options: CommandOptions,
+  t: Translator,
+  userId: string,
+  prefs: UserPreferences,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const typeInput = options.find((opt) => opt.name === 'type')?.value as string | undefined;
+  const harmonyType = parseHarmonyType(typeInput);
+  const apply = options.find((opt) => opt.name === 'apply')?.value === true;
+  const worldInput = (options.find((opt) => opt.name === 'world')?.value as string | undefined) ?? prefs.world;
+
+  const plan = await getGlamourPlan(env.KV, userId, logger);
+  const entries = plan ? resolvePlanEntries(plan) : [];
+  const withPrimary = entries.filter((entry) => entry.primary !== null);
+
+  if (withPrimary.length === 0) {
+    return ephemeralResponse(t.t('glamour.errors.noPrimaries'));
+  }
+
+  const updates: Partial<Record<GlamourSlot, GlamourSlotDyes>> = {};
+  for (const entry of withPrimary) {
+    const suggestion = suggestSecondaryDye(entry.primary as Dye, harmonyType);
+    if (suggestion) {
+      entry.secondary = suggestion;
+      entry.secondarySuggested = !apply;
+      updates[entry.slot] = { primary: (entry.primary as Dye).itemID, secondary: suggestion.itemID };
+    }
+  }
+
+  const suggestedCount = Object.keys(updates).length;
+  if (suggestedCount === 0) {
+    return ephemeralResponse(t.t('glamour.errors.noSuggestions'));
+  }
+
+  if (apply && !(await setGlamourSlots(env.KV, userId, updates, logger))) {
+    return ephemeralResponse(t.t('glamour.errors.saveFailed'));
+  }
+
+  const typeName = t.t(HARMONY_TYPE_KEYS[harmonyType]);
+  const descriptionLines = [
+    t.t('glamour.harmonized', { type: typeName, count: suggestedCount }),
+    apply ? t.t('glamour.applied') : t.t('glamour.applyHint'),
+  ];
+
+  ctx.waitUntil(
+    processPlanCard(
+      interaction,
+      env,
+      entries,
+      { title: t.t('glamour.harmonizedTitle', { type: typeName }), descriptionLines, color: planColor(entries) },
+      worldInput,
+      t,
+      logger
+    )
+  );
+
+  return deferredResponse();
+}
+
+/**
+ * Handles /glamour clear [slot]
+ */
+async function handleClearSubcommand(
+  env: Env,
+  options: CommandOptions,
+  t: Translator,
+  userId: string,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const slot = parseSlot(options.find((opt) => opt.name === 'slot')?.value);
+
+  if (!slot) {
+    const cleared = await clearGlamourPlan(env.KV, userId, logger);
+    return ephemeralResponse(cleared ? t.t('glamour.planCleared') : t.t('glamour.errors.saveFailed'));
+  }
+
+  const slotName = t.t(`glamour.slots.${slot}`);
+  const cleared = await clearGlamourSlot(env.KV, userId, slot, logger);
+
+  return ephemeralResponse(
+    cleared ? t.t('glamour.slotCleared', { slot: slotName }) : t.t('glamour.errors.slotEmpty', { slot: slotName })
+  );
+}
+
+// ============================================================================
+// Card Rendering
+// ============================================================================
+
+/**
+ * Background processing: price the plan, render the card, edit the deferred reply
+ */
+async function processPlanCard(
+  interaction: DiscordInteraction,
+  env: Env,
+  entries: PlanEntry[],
+  card: CardOptions,
+  worldInput: string | undefined,
+  t: Translator,
+  logger?: ExtendedLogger
+): Promise<void> {
+  try {
+    const locale = t.getLocale();
+    const descriptionLines = [...card.descriptionLines];
+
+    // Market prices are optional: the card still renders without them
+    let prices: Map<number, DyePriceData> | null = null;
+    let world: string | null = null;
+
+    if (!isUniversalisEnabled(env)) {
+      descriptionLines.push(t.t('budget.errors.notConfigured'));
+    } else if (!worldInput) {
+      descriptionLines.push(t.t('glamour.noWorld'));
+    } else {
+      world = await validateWorld(env, worldInput, logger);
+      if (!world) {
+        descriptionLines.push(t.t('budget.errors.worldNotFound', { world: worldInput }));
+      } else {
+        prices = await fetchPlanPrices(env, world, entries, logger);
+        if (!prices) {
+          descriptionLines.push(t.t('glamour.pricesUnavailable'));
+        }
+      }
+    }
+
+    // Per-slot and total cost (one dye per dyed channel)
+    let totalCost: number | null = prices ? 0 : null;
+    let missingCount = 0;
+    const dyeNames: Record<number, string> = {};
+
+    const rows: GlamourPlanRow[] = entries.map((entry) => {
+      let slotCost: number | null = prices ? 0 : null;
+
+      for (const dye of [entry.primary, entry.secondary]) {
+        if (!dye) continue;
+        dyeNames[dye.itemID] = getLocalizedDyeName(dye.itemID, dye.name, locale);
+
+        if (!prices) continue;
+        const price = prices.get(getMarketItemID(dye));
+        if (price) {
+          totalCost = (totalCost ?? 0) + price.currentMinPrice;
+          if (slotCost !== null) slotCost += price.currentMinPrice;
+        } else {
+          missingCount++;
+          slotCost = null;
+        }
+      }
+
+      return {
+        slotLabel: t.t(`glamour.slots.${entry.slot}`),
+        primary: entry.primary,
+        secondary: entry.secondary,
+        secondarySuggested: entry.secondarySuggested,
+        // An undyed slot costs nothing, but "0 Gil" on it is just noise
+        cost: entry.primary || entry.secondary ? slotCost : null,
+      };
+    });
+
+    if (prices && world) {
+      descriptionLines.push(t.t('budget.worldUsed', { world }));
+      if (missingCount > 0) {
+        descriptionLines.push(t.t('glamour.missingPrices', { count: missingCount }));
+      }
+    }
+
+    const labels: GlamourPlanLabels = {
+      title: card.title,
+      subtitle: world && prices ? t.t('budget.worldUsed', { world }) : '',
+      totalCostLabel: t.t('glamour.totalCost'),
+      gilAmountTemplate: t.t('budget.gilAmount'),
+      primaryLabel: t.t('glamour.primary'),
+      secondaryLabel: t.t('glamour.secondary'),
+      undyed: t.t('glamour.undyed'),
+      suggested: t.t('glamour.suggested'),
+      dyeNames,
+    };
+
+    const svg = generateGlamourPlanCard({ rows, totalCost, labels, width: IMAGE_WIDTH });
+    const pngBuffer = await renderSvgToPng(svg, { scale: 2 }, logger);
+
+    await safeEditOriginalResponse(env.DISCORD_CLIENT_ID, interaction.token, {
+      embeds: [
+        {
+          title: card.title,
+          description: descriptionLines.join('\n') || undefined,
+          color: card.color,
+          image: { url: 'attachment://glamour.png' },
+          footer: { text: t.t('common.footer') },
+        },
+      ],
+      file: {
+        name: 'glamour.png',
+        data: pngBuffer,
+        contentType: 'image/png',
+      },
+    });
+  } catch (error) {
+    if (logger) {
+      logger.error('Glamour card error', error instanceof Error ? error : undefined);
+    }
+
+    await safeEditOriginalResponse(env.DISCORD_CLIENT_ID, interaction.token, {
+      embeds: [errorEmbed(t.t('common.error'), t.t('errors.generationFailed'))],
+    });
+  }
+}
+
+/**
+ * Fetch prices for every dye in the plan through the shared price cache
+ *
+ * @returns Prices keyed by market item ID (see `getMarketItemID`), or null
+ *   when Universalis failed
+ */
+async function fetchPlanPrices(
+  env: Env,
+  world: string,
+  entries: PlanEntry[],
+  logger?: ExtendedLogger
+): Promise<Map<number, DyePriceData> | null> {
+  const itemIds = new Set<number>();
+  for (const entry of entries) {
+    if (entry.primary) itemIds.add(getMarketItemID(entry.primary));
+    if (entry.secondary) itemIds.add(getMarketItemID(entry.secondary));
+  }
+
+  try {
+    const { prices } = await fetchWithCache(
+      world,
+      [...itemIds],
+      (ids) => fetchPricesBatched(env, world, ids, logger),
+      logger
+    );
+    return prices;
+  } catch (error) {
+    if (logger) {
+      logger.warn('Glamour price fetch failed', { world, error: error instanceof Error ? error.message : String(error) });
+    }
+    return null;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Suggest a secondary dye for a primary using the harmony generator
+ *
+ * Takes the first harmony dye that isn't the primary itself and can be
+ * bought (Facewear entries have synthetic, non-tradeable item IDs).
+ */
+export function suggestSecondaryDye(primary: Dye, type: HarmonyType): Dye | null {
+  const candidates = getHarmonyDyes(primary.hex, type);
+  return candidates.find((dye) => dye.id !== primary.id && dye.itemID > 0) ?? null;
+}
+
+/**
+ * Harmony dyes for a base color (same mapping as /harmony)
+ */
+function getHarmonyDyes(hex: string, type: HarmonyType): Dye[] {
+  switch (type) {
+    case 'complementary': {
+      const complement = dyeService.findComplementaryPair(hex);
+      return complement ? [complement] : [];
+    }
+    case 'analogous':
+      return dyeService.findAnalogousDyes(hex);
+    case 'triadic':
+      return dyeService.findTriadicDyes(hex);
+    case 'split-complementary':
+      return dyeService.findSplitComplementaryDyes(hex);
+    case 'tetradic':
+      return dyeService.findTetradicDyes(hex);
+    case 'square':
+      return dyeService.findSquareDyes(hex);
+    case 'monochromatic':
+      return dyeService.findMonochromaticDyes(hex, 5);
+  }
+}
+
+/**
+ * Resolve the saved plan into display order, one entry per slot
+ */
+function resolvePlanEntries(plan: GlamourPlan): PlanEntry[] {
+  return GLAMOUR_SLOTS.map((slot) => {
+    const dyes = plan.slots[slot];
+    return {
+      slot,
+      primary: dyes ? getDyeById(dyes.primary) : null,
+      secondary: dyes?.secondary ? getDyeById(dyes.secondary) : null,
+    };
+  });
+}
+
+/**
+ * Resolve dye input the same way as /budget: numeric input is an item ID
+ * from autocomplete; Facewear (no market listings) is rejected
+ */
+function resolvePlanDye(input: string): Dye | null {
+  const dye = /^\s*\d+\s*$/.test(input) ? getDyeById(parseInt(input, 10)) : getDyeByName(input);
+  return dye && dye.itemID > 0 ? dye : null;
+}
+
+/**
+ * Validate a harmony type option value
+ */
+function parseHarmonyType(value: string | undefined): HarmonyType {
+  return (Object.keys(HARMONY_TYPE_KEYS) as HarmonyType[]).find((type) => type === value) ?? DEFAULT_HARMONY_TYPE;
+}
+
+/**
+ * Validate a slot option value
+ */
+function parseSlot(value: string | number | boolean | undefined): GlamourSlot | null {
+  return GLAMOUR_SLOTS.find((slot) => slot === value) ?? null;
+}
+
+/**
+ * Emoji + localized name for reply text
+ */
+function formatDyeMention(dye: Dye, t: Translator): string {
+  const emoji = getDyeEmoji(dye.itemID);
+  const name = getLocalizedDyeName(dye.itemID, dye.name, t.getLocale());
+  return emoji ? `${emoji} ${name}` : name;
+}
+
+/**
+ * Embed color: the first dyed slot's primary, else the default blurple
+ */
+function planColor(entries: PlanEntry[]): number {
+  const first = entries.find((entry) => entry.primary)?.primary;
+  return first ? parseInt(first.hex.replace('#', ''), 16) : 0x5865f2;
+}
+
+// ============================================================================
+// Autocomplete Handler
+// ============================================================================
+
+/**
+ * Handles autocomplete for the /glamour command
+ */
+export async function handleGlamourAutocomplete(
+  interaction: DiscordInteraction,
+  env: Env,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const options = interaction.data?.options || [];
+  const subcommand = options[0];
+
+  const focusedOption = subcommand?.options?.find((opt) => opt.focused === true) as
+    | { name: string; value?: string }
+    | undefined;
+
+  let choices: Array<{ name: string; value: string }> = [];
+
+  if (focusedOption) {
+    const query = String(focusedOption.value || '');
+
+    if (focusedOption.name === 'primary' || focusedOption.name === 'secondary') {
+      choices = getDyeAutocomplete(query, 25);
+    } else if (focusedOption.name === 'world') {
+      choices = await getWorldAutocomplete(env, query, logger);
+    }
+  }
+
+  return Response.json({
+    type: 8, // APPLICATION_COMMAND_AUTOCOMPLETE_RESULT
+    data: { choices },
+  });
+}
@@ -0,0 +1,261 @@
+/**
+ * Tests for /glamourer-import command handler
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleGlamourerImportCommand, handleGlamourerImportAutocomplete } from './glamourer-import.js';
+import type { DiscordInteraction, Env, InteractionResponseBody } from '../../types/env.js';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+const pureWhite = { id: 1, itemID: 13114, stainID: 101, name: 'Pure White', hex: '#F9F8F4' };
+const jetBlack = { id: 2, itemID: 13115, stainID: 102, name: 'Jet Black', hex: '#1E1E1E' };
+// Patch 7.5 Type-A dye, listed under the Standard Spectrum Dye (52254)
+const coralPink = { id: 3, itemID: 5740, stainID: 12, name: 'Coral Pink', hex: '#CC6D71', consolidationType: 'A' };
+
+const mockDecode = vi.fn();
+vi.mock('@xivdyetools/bot-logic', () => ({
+    decodeGlamourerDesign: (...args: unknown[]) => mockDecode(...args),
+}));
+
+const mockValidateWorld = vi.fn();
+const mockIsUniversalisEnabled = vi.fn();
+const mockFetchPricesBatched = vi.fn();
+vi.mock('../../services/budget/index.js', () => ({
+    isUniversalisEnabled: (...args: unknown[]) => mockIsUniversalisEnabled(...args),
+    validateWorld: (...args: unknown[]) => mockValidateWorld(...args),
+    getWorldAutocomplete: vi.fn(async () => [{ name: 'Cactuar', value: 'Cactuar' }]),
+    fetchPricesBatched: (...args: unknown[]) => mockFetchPricesBatched(...args),
+    // Pass-through cache: always call the fetcher
+    fetchWithCache: async (
+        _world: string,
+        ids: number[],
+        fetcher: (ids: number[]) => Promise<Map<number, unknown>>
+    ) => ({ prices: await fetcher(ids) }),
+}));
+
+const mockEditOriginalResponse = vi.fn();
+vi.mock('../../utils/discord-api.js', () => ({
+    safeEditOriginalResponse: (...args: unknown[]) => mockEditOriginalResponse(...args),
+}));
+
+let mockPrefs: Record<string, unknown> = {};
+vi.mock('../../services/bot-i18n.js', () => ({
+    createUserTranslatorWithPrefs: vi.fn(async () => ({
+        t: {
+            t: (key: string, vars?: Record<string, unknown>) => (vars ? `${key} ${JSON.stringify(vars)}` : key),
+            getLocale: () => 'en',
+        },
+        prefs: mockPrefs,
+    })),
+}));
+
+vi.mock('../../services/i18n.js', () => ({
+    initializeLocale: vi.fn(),
+    getLocalizedDyeName: (_id: number, name: string) => name,
+}));
+
+vi.mock('../../services/emoji.js', () => ({
+    getDyeEmoji: () => undefined,
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+const env = { KV: {} as KVNamespace, DISCORD_CLIENT_ID: 'app-id' } as Env;
+
+function createCtx() {
+    const pending: Promise<unknown>[] = [];
+    return {
+        ctx: { waitUntil: (promise: Promise<unknown>) => pending.push(promise) } as unknown as ExecutionContext,
+        settle: () => Promise.all(pending),
+    };
+}
+
+function interactionWith(options: Array<Record<string, unknown>>): DiscordInteraction {
+    return {
+        id: 'interaction-1',
+        application_id: 'app-id',
+        type: 2,
+        token: 'test-token',
+        member: { user: { id: 'user-1' } },
+        data: { name: 'glamourer-import', options },
+    } as DiscordInteraction;
+}
+
+async function bodyOf(response: Response): Promise<InteractionResponseBody> {
+    return (await response.json()) as InteractionResponseBody;
+}
+
+function decoded(overrides: Record<string, unknown> = {}) {
+    return {
+        ok: true,
+        version: 6,
+        slots: [
+            { slot: 'head', itemId: 1, stainIds: [101, 102], primary: pureWhite, secondary: jetBlack },
+            { slot: 'body', itemId: 2, stainIds: [101, 0], primary: pureWhite, secondary: null },
+        ],
+        unknownStainIds: [],
+        ...overrides,
+    };
+}
+
+function editedDescription(): string {
+    return mockEditOriginalResponse.mock.calls[0][2].embeds[0].description as string;
+}
+
+describe('glamourer-import.ts', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockPrefs = {};
+        mockIsUniversalisEnabled.mockReturnValue(true);
+        mockValidateWorld.mockImplementation(async (_env: Env, world: string) =>
+            world.toLowerCase() === 'cactuar' ? 'Cactuar' : null
+        );
+        mockDecode.mockResolvedValue(decoded());
+    });
+
+    it('should list each slot with its dyes and prices', async () => {
+        mockFetchPricesBatched.mockResolvedValue(
+            new Map([
+                [13114, { itemID: 13114, currentMinPrice: 60000 }],
+                [13115, { itemID: 13115, currentMinPrice: 30000 }],
+            ])
+        );
+        const { ctx, settle } = createCtx();
+
+        const response = await handleGlamourerImportCommand(
+            interactionWith([
+                { name: 'design', value: 'BkSt...' },
+                { name: 'world', value: 'Cactuar' },
+            ]),
+            env,
+            ctx
+        );
+        await settle();
+
+        expect((await bodyOf(response)).type).toBe(5);
+        expect(mockDecode).toHaveBeenCalledWith('BkSt...');
+        expect(mockFetchPricesBatched).toHaveBeenCalledWith(env, 'Cactuar', [13114, 13115], undefined);
+
+        const description = editedDescription();
+        expect(description).toContain('**glamourerImport.slots.head** — Pure White');
+        expect(description).toContain('Jet Black');
+        expect(description).toContain('**glamourerImport.slots.body** — Pure White');
+        expect(description).toContain('glamour.undyed');
+        // 60,000 × 2 + 30,000
+        expect(description).toContain('budget.gilAmount {"amount":"150,000"}');
+    });
+
+    it('should price consolidated dyes by their market item ID', async () => {
+        mockDecode.mockResolvedValue(
+            decoded({
+                slots: [{ slot: 'head', itemId: 1, stainIds: [12, 101], primary: coralPink, secondary: pureWhite }],
+            })
+        );
+        mockFetchPricesBatched.mockResolvedValue(
+            new Map([
+                [52254, { itemID: 52254, currentMinPrice: 216 }],
+                [13114, { itemID: 13114, currentMinPrice: 60000 }],
+            ])
+        );
+        const { ctx, settle } = createCtx();
+
+        await handleGlamourerImportCommand(
+            interactionWith([
+                { name: 'design', value: 'x' },
+                { name: 'world', value: 'Cactuar' },
+            ]),
+            env,
+            ctx
+        );
+        await settle();
+
+        expect(mockFetchPricesBatched).toHaveBeenCalledWith(env, 'Cactuar', [52254, 13114], undefined);
+        const description = editedDescription();
+        expect(description).toContain('Coral Pink · budget.gilAmount {"amount":"216"}');
+        expect(description).toContain('budget.gilAmount {"amount":"60,216"}');
+        expect(description).not.toContain('glamour.missingPrices');
+    });
+
+    it('should use the saved world preference', async () => {
+        mockPrefs = { world: 'Cactuar' };
+        mockFetchPricesBatched.mockResolvedValue(new Map());
+        const { ctx, settle } = createCtx();
+
+        await handleGlamourerImportCommand(interactionWith([{ name: 'design', value: 'x' }]), env, ctx);
+        await settle();
+
+        expect(mockFetchPricesBatched).toHaveBeenCalled();
+        expect(editedDescription()).toContain('glamour.missingPrices {"count":3}');
+    });
+
+    it('should list dyes without prices when no world is set', async () => {
+        const { ctx, settle } = createCtx();
+
+        await handleGlamourerImportCommand(interactionWith([{ name: 'design', value: 'x' }]), env, ctx);
+        await settle();
+
+        expect(mockFetchPricesBatched).not.toHaveBeenCalled();
+        expect(editedDescription()).toContain('glamour.noWorld');
+        expect(editedDescription()).not.toContain('glamour.totalCost');
+    });
+
+    it('should note stain IDs that match no dye', async () => {
+        mockDecode.mockResolvedValue(
+            decoded({
+                slots: [{ slot: 'feet', itemId: 3, stainIds: [200, 0], primary: null, secondary: null }],
+                unknownStainIds: [200],
+            })
+        );
+        const { ctx, settle } = createCtx();
+
+        await handleGlamourerImportCommand(interactionWith([{ name: 'design', value: 'x' }]), env, ctx);
+        await settle();
+
+        expect(editedDescription()).toContain('`#200`');
+        expect(editedDescription()).toContain('glamourerImport.unknownStains {"ids":"200"}');
+    });
+
+    it('should reply privately for invalid design strings', async () => {
+        mockDecode.mockResolvedValue({ ok: false, error: 'INVALID_FORMAT', errorMessage: 'bad' });
+        const { ctx } = createCtx();
+
+        const response = await handleGlamourerImportCommand(interactionWith([{ name: 'design', value: 'x' }]), env, ctx);
+        const body = await bodyOf(response);
+
+        expect(body.data?.flags).toBe(64);
+        expect(body.data?.content).toBe('glamourerImport.errors.invalid');
+    });
+
+    it('should explain legacy Glamourer formats', async () => {
+        mockDecode.mockResolvedValue({ ok: false, error: 'UNSUPPORTED_VERSION', errorMessage: 'old', version: 3 });
+        const { ctx } = createCtx();
+
+        const response = await handleGlamourerImportCommand(interactionWith([{ name: 'design', value: 'x' }]), env, ctx);
+
+        expect((await bodyOf(response)).data?.content).toBe('glamourerImport.errors.unsupportedVersion {"version":3}');
+    });
+
+    it('should report designs without dyes', async () => {
+        mockDecode.mockResolvedValue(decoded({ slots: [] }));
+        const { ctx } = createCtx();
+
+        const response = await handleGlamourerImportCommand(interactionWith([{ name: 'design', value: 'x' }]), env, ctx);
+
+        expect((await bodyOf(response)).data?.content).toBe('glamourerImport.noDyes');
+    });
+
+    describe('handleGlamourerImportAutocomplete', () => {
+        it('should suggest worlds', async () => {
+            const response = await handleGlamourerImportAutocomplete(
+                interactionWith([{ name: 'world', value: 'cac', focused: true }]),
+                env
+            );
+            const body = (await response.json()) as { type: number; data: { choices: Array<{ value: string }> } };
+
+            expect(body.type).toBe(8);
+            expect(body.data.choices).toEqual([{ name: 'Cactuar', value: 'Cactuar' }]);
+        });
+    });
+});
@@ -0,0 +1,261 @@
+/**
+ * /glamourer-import Command Handler
+ *
+ * Decodes a Glamourer (or Mare Synchronos) design string and lists the dyes
+ * on each equipment slot, with market prices when a world is known.
+ *
+ * Usage: /glamourer-import <design> [world]
+ */
+
+import type { ExtendedLogger } from '@xivdyetools/logger';
+import type { Dye } from '@xivdyetools/types';
+import { getMarketItemID } from '@xivdyetools/core';
+import { decodeGlamourerDesign, type GlamourerDecodeResult, type GlamourerSlotDyes } from '@xivdyetools/bot-logic';
+import { deferredResponse, errorEmbed, ephemeralResponse } from '../../utils/response.js';
+import { safeEditOriginalResponse } from '../../utils/discord-api.js';
+import { createUserTranslatorWithPrefs, type Translator } from '../../services/bot-i18n.js';
+import { initializeLocale, getLocalizedDyeName } from '../../services/i18n.js';
+import { getDyeEmoji } from '../../services/emoji.js';
+import {
+  isUniversalisEnabled,
+  validateWorld,
+  getWorldAutocomplete,
+  fetchPricesBatched,
+  fetchWithCache,
+} from '../../services/budget/index.js';
+import { formatGil, type DyePriceData } from '../../types/budget.js';
+import type { Env, DiscordInteraction } from '../../types/env.js';
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Handles the /glamourer-import command
+ */
+export async function handleGlamourerImportCommand(
+  interaction: DiscordInteraction,
+  env: Env,
+  ctx: ExecutionContext,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const userId = interaction.member?.user?.id ?? interaction.user?.id ?? 'unknown';
+  const { t, prefs } = await createUserTranslatorWithPrefs(env.KV, userId, interaction.locale, logger, interaction.guild_id);
+  await initializeLocale(t.getLocale());
+
+  const options = interaction.data?.options || [];
+  const designInput = options.find((opt) => opt.name === 'design')?.value as string | undefined;
+  const worldInput = (options.find((opt) => opt.name === 'world')?.value as string | undefined) ?? prefs.world;
+
+  if (!designInput) {
+    return ephemeralResponse(t.t('glamourerImport.errors.invalid'));
+  }
+
+  // Decoding is local and fast; bad strings get an immediate private reply
+  const result = await decodeGlamourerDesign(designInput);
+  if (!result.ok) {
+    return ephemeralResponse(getDecodeErrorMessage(result, t));
+  }
+
+  if (result.slots.length === 0) {
+    return ephemeralResponse(t.t('glamourerImport.noDyes'));
+  }
+
+  ctx.waitUntil(processImport(interaction, env, result.slots, result.unknownStainIds, worldInput, t, logger));
+
+  return deferredResponse();
+}
+
+// ============================================================================
+// Background Processing
+// ============================================================================
+
+/**
+ * Price the design's dyes and edit the deferred reply with the breakdown
+ */
+async function processImport(
+  interaction: DiscordInteraction,
+  env: Env,
+  slots: GlamourerSlotDyes[],
+  unknownStainIds: number[],
+  worldInput: string | undefined,
+  t: Translator,
+  logger?: ExtendedLogger
+): Promise<void> {
+  try {
+    const notes: string[] = [];
+    let prices: Map<number, DyePriceData> | null = null;
+    let world: string | null = null;
+
+    if (!isUniversalisEnabled(env)) {
+      notes.push(t.t('budget.errors.notConfigured'));
+    } else if (!worldInput) {
+      notes.push(t.t('glamour.noWorld'));
+    } else {
+      world = await validateWorld(env, worldInput, logger);
+      if (!world) {
+        notes.push(t.t('budget.errors.worldNotFound', { world: worldInput }));
+      } else {
+        prices = await fetchDesignPrices(env, world, slots, logger);
+        if (!prices) {
+          notes.push(t.t('glamour.pricesUnavailable'));
+        }
+      }
+    }
+
+    // One dye per dyed channel
+    let totalCost = 0;
+    let missingCount = 0;
+
+    const lines = slots.map((entry) => {
+      const channels = [entry.primary, entry.secondary].map((dye, index) => {
+        if (!dye) {
+          return entry.stainIds[index] > 0 ? `\`#${entry.stainIds[index]}\`` : t.t('glamour.undyed');
+        }
+
+        let label = formatDye(dye, t);
+        if (prices) {
+          const price = prices.get(getMarketItemID(dye));
+          if (price) {
+            totalCost += price.currentMinPrice;
+            label += ` · ${t.t('budget.gilAmount', { amount: formatGil(price.currentMinPrice) })}`;
+          } else {
+            missingCount++;
+          }
+        }
+        return label;
+      });
+
+      return `**${t.t(`glamourerImport.slots.${entry.slot}`)}** — ${channels.join(' / ')}`;
+    });
+
+    const description = [t.t('glamourerImport.summary', { count: slots.length }), '', ...lines];
+
+    if (prices && world) {
+      description.push(
+        '',
+        `**${t.t('glamour.totalCost')}:** ${t.t('budget.gilAmount', { amount: formatGil(totalCost) })}`,
+        t.t('budget.worldUsed', { world })
+      );
+      if (missingCount > 0) {
+        notes.push(t.t('glamour.missingPrices', { count: missingCount }));
+      }
+    }
+
+    if (unknownStainIds.length > 0) {
+      notes.push(t.t('glamourerImport.unknownStains', { ids: unknownStainIds.join(', ') }));
+    }
+
+    if (notes.length > 0) {
+      description.push('', ...notes);
+    }
+
+    const firstDye = slots.find((entry) => entry.primary)?.primary;
+
+    await safeEditOriginalResponse(env.DISCORD_CLIENT_ID, interaction.token, {
+      embeds: [
+        {
+          title: t.t('glamourerImport.title'),
+          description: description.join('\n'),
+          color: firstDye ? parseInt(firstDye.hex.replace('#', ''), 16) : 0x5865f2,
+          footer: { text: t.t('common.footer') },
+        },
+      ],
+    });
+  } catch (error) {
+    if (logger) {
+      logger.error('Glamourer import error', error instanceof Error ? error : undefined);
+    }
+
+    await safeEditOriginalResponse(env.DISCORD_CLIENT_ID, interaction.token, {
+      embeds: [errorEmbed(t.t('common.error'), t.t('errors.generationFailed'))],
+    });
+  }
+}
+
+/**
+ * Fetch prices for every dye in the design through the shared price cache
+ *
+ * @returns Prices keyed by market item ID (see `getMarketItemID`), or null
+ *   when Universalis failed
+ */
+async function fetchDesignPrices(
+  env: Env,
+  world: string,
+  slots: GlamourerSlotDyes[],
+  logger?: ExtendedLogger
+): Promise<Map<number, DyePriceData> | null> {
+  const itemIds = new Set<number>();
+  for (const entry of slots) {
+    // Facewear-style dyes have no market listings
+    if (entry.primary && entry.primary.itemID > 0) itemIds.add(getMarketItemID(entry.primary));
+    if (entry.secondary && entry.secondary.itemID > 0) itemIds.add(getMarketItemID(entry.secondary));
+  }
+
+  try {
+    const { prices } = await fetchWithCache(
+      world,
+      [...itemIds],
+      (ids) => fetchPricesBatched(env, world, ids, logger),
+      logger
+    );
+    return prices;
+  } catch (error) {
+    if (logger) {
+      logger.warn('Glamourer import price fetch failed', {
+        world,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return null;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getDecodeErrorMessage(result: Extract<GlamourerDecodeResult, { ok: false }>, t: Translator): string {
+  switch (result.error) {
+    case 'UNSUPPORTED_VERSION':
+      return t.t('glamourerImport.errors.unsupportedVersion', { version: result.version ?? '?' });
+    case 'TOO_LARGE':
+      return t.t('glamourerImport.errors.tooLarge');
+    default:
+      return t.t('glamourerImport.errors.invalid');
+  }
+}
+
+/**
+ * Emoji + localized name for the breakdown
+ */
+function formatDye(dye: Dye, t: Translator): string {
+  const emoji = getDyeEmoji(dye.itemID);
+  const name = getLocalizedDyeName(dye.itemID, dye.name, t.getLocale());
+  return emoji ? `${emoji} ${name}` : name;
+}
+
+// ============================================================================
+// Autocomplete Handler
+// ============================================================================
+
+/**
+ * Handles autocomplete for the /glamourer-import world option
+ */
+export async function handleGlamourerImportAutocomplete(
+  interaction: DiscordInteraction,
+  env: Env,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  // Top-level command (no subcommands): the focused option sits at the first level
+  const options = (interaction.data?.options || []) as Array<{ name: string; value?: string; focused?: boolean }>;
+  const focusedOption = options.find((opt) => opt.focused === true);
+
+  const choices =
+    focusedOption?.name === 'world' ? await getWorldAutocomplete(env, String(focusedOption.value || ''), logger) : [];
+
+  return Response.json({
+    type: 8, // APPLICATION_COMMAND_AUTOCOMPLETE_RESULT
+    data: { choices },
+  });
+}
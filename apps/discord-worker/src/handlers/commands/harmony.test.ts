@@ -332,6 +332,33 @@ describe('handleHarmonyCommand', () => {
     expect(response.status).toBe(200);
   });
 
+  it('sends the rendered wheel with dye emojis', async () => {
+    const { ctx, waitUntilCalls } = createContext();
+
+    const interaction = {
+      ...baseInteraction,
+      data: {
+        options: [
+          { name: 'color', value: '#FF0000' },
+          { name: 'type', value: 'triadic' },
+        ]
+      },
+    } as unknown as DiscordInteraction;
+
+    await handleHarmonyCommand(interaction, env, ctx);
+    await Promise.all(waitUntilCalls);
+
+    expect(editOriginalResponseMock).toHaveBeenCalledWith('client-123', 'token-abc', {
+      embeds: [
+        expect.objectContaining({
+          description: expect.stringContaining('**1.** 🎨 '),
+          image: { url: 'attachment://harmony-triadic.png' },
+        }),
+      ],
+      files: [{ name: 'harmony-triadic.png', data: new Uint8Array([1]), contentType: 'image/png' }],
+    });
+  });
+
   it('handles rendering error gracefully', async () => {
     const { ctx, waitUntilCalls } = createContext();
     renderSvgToPngMock.mockRejectedValueOnce(new Error('Render failed'));
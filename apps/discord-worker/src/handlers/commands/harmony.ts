@@ -1,24 +1,35 @@
 /**
  * /harmony Command Handler (Adapter)
  *
- * Thin adapter: extracts Discord options, delegates to executeHarmony(),
- * renders the PNG, and formats the Discord response with emojis.
+ * Thin adapter: resolves Discord options against the shared harmonyCommand,
+ * runs it with the user's dye filters and Discord emojis, and sends the
+ * rendered output.
  */
 
-import type { HarmonyColorSpace, MatchingMethod } from '@xivdyetools/core';
 import type { ExtendedLogger } from '@xivdyetools/logger';
-import type { DyeTypeFilters } from '@xivdyetools/types';
 import { deferredResponse, errorEmbed } from '../../utils/response.js';
-import { resolveColorInput } from '../../utils/color.js';
 import { safeEditOriginalResponse } from '../../utils/discord-api.js';
-import { renderSvgToPng } from '../../services/svg/renderer.js';
 import { getDyeEmoji } from '../../services/emoji.js';
 import { createUserTranslator, createTranslator } from '../../services/bot-i18n.js';
-import { initializeLocale, getLocalizedDyeName, type LocaleCode } from '../../services/i18n.js';
-import { executeHarmony, getHarmonyTypeChoices, type HarmonyType } from '@xivdyetools/bot-logic';
-import { getUserPreferences } from '../../services/preferences.js';
+import type { LocaleCode } from '../../services/i18n.js';
+import {
+  harmonyCommand,
+  getHarmonyTypeChoices,
+  resolveOptions,
+  type OptionValues,
+} from '@xivdyetools/bot-logic';
+import type { DyeTypeFilters } from '@xivdyetools/types';
+import { getEffectivePreferences } from '../../services/preferences.js';
+import {
+  getOptionValues,
+  optionErrorEmbed,
+  runErrorEmbed,
+  toDiscordMessage,
+} from '../../services/command-output.js';
 import type { Env, DiscordInteraction } from '../../types/env.js';
 
+type HarmonyValues = OptionValues<typeof harmonyCommand.options>;
+
 export async function handleHarmonyCommand(
   interaction: DiscordInteraction,
   env: Env,
@@ -26,58 +37,21 @@ export async function handleHarmonyCommand(
   logger?: ExtendedLogger
 ): Promise<Response> {
   const userId = interaction.member?.user?.id ?? interaction.user?.id ?? 'unknown';
-  const t = await createUserTranslator(env.KV, userId, interaction.locale);
-
-  const options = interaction.data?.options || [];
-  const colorOption = options.find((opt) => opt.name === 'color');
-  const typeOption = options.find((opt) => opt.name === 'type');
-  const colorSpaceOption = options.find((opt) => opt.name === 'color_space');
-  const companionsOption = options.find((opt) => opt.name === 'companions');
-  const matchingOption = options.find((opt) => opt.name === 'matching');
-  const strictOption = options.find((opt) => opt.name === 'strict_matching');
-  const preventDupOption = options.find((opt) => opt.name === 'prevent_duplicates');
-
-  const colorInput = colorOption?.value as string | undefined;
-  const harmonyType = (typeOption?.value as HarmonyType) || 'triadic';
-  const colorSpace = (colorSpaceOption?.value as HarmonyColorSpace) || undefined;
-  const companionCount = (companionsOption?.value as number) ?? undefined;
-  const matchingMethod = (matchingOption?.value as MatchingMethod) ?? undefined;
-  const strictMatching = (strictOption?.value as boolean) ?? undefined;
-  const preventDuplicates = (preventDupOption?.value as boolean) ?? undefined;
-
-  if (!colorInput) {
-    return Response.json({
-      type: 4,
-      data: { embeds: [errorEmbed(t.t('common.error'), t.t('errors.missingInput'))], flags: 64 },
-    });
-  }
+  const t = await createUserTranslator(env.KV, userId, interaction.locale, logger, interaction.guild_id);
+  const prefs = await getEffectivePreferences(env.KV, userId, interaction.guild_id, logger);
 
-  const resolved = resolveColorInput(colorInput, { excludeFacewear: false });
-  if (!resolved) {
+  // Omitted `matching` falls back to the user's preference
+  const options = resolveOptions(harmonyCommand, getOptionValues(interaction), { preferences: prefs });
+  if (!options.ok) {
     return Response.json({
       type: 4,
-      data: {
-        embeds: [errorEmbed(t.t('common.error'), t.t('errors.invalidColor', { input: colorInput }))],
-        flags: 64,
-      },
+      data: { embeds: [optionErrorEmbed(options.errors, t)], flags: 64 },
     });
   }
 
-  const locale = t.getLocale();
-  const harmonyOptions = colorSpace ? { colorSpace } : undefined;
   const deferResponse = deferredResponse();
-  const prefs = await getUserPreferences(env.KV, userId, logger);
-
-  // Resolve matching method: explicit option > pref > undefined (let executeHarmony default).
-  const effectiveMatching: MatchingMethod | undefined = matchingMethod ?? prefs.matching;
-
   ctx.waitUntil(
-    processHarmonyCommand(
-      interaction, env,
-      resolved.hex, resolved.name, resolved.id, resolved.itemID ?? undefined,
-      harmonyType, locale, logger, harmonyOptions, prefs.dyeFilters,
-      companionCount, effectiveMatching, strictMatching, preventDuplicates
-    )
+    processHarmonyCommand(interaction, env, options.values, t.getLocale(), prefs.dyeFilters, logger)
   );
   return deferResponse;
 }
@@ -85,74 +59,26 @@ export async function handleHarmonyCommand(
 async function processHarmonyCommand(
   interaction: DiscordInteraction,
   env: Env,
-  baseHex: string,
-  baseName: string | undefined,
-  baseId: number | undefined,
-  baseItemID: number | undefined,
-  harmonyType: HarmonyType,
+  values: HarmonyValues,
   locale: LocaleCode,
-  logger?: ExtendedLogger,
-  harmonyOptions?: { colorSpace?: HarmonyColorSpace },
   dyeFilters?: DyeTypeFilters,
-  companionCount?: number,
-  matchingMethod?: MatchingMethod,
-  strictMatching?: boolean,
-  preventDuplicates?: boolean
+  logger?: ExtendedLogger
 ): Promise<void> {
   const t = createTranslator(locale);
-  await initializeLocale(locale);
 
-  const result = await executeHarmony({
-    baseHex, baseName, baseId, baseItemID, harmonyType, locale,
-    harmonyOptions,
-    dyeFilters,
-    companionCount,
-    matchingMethod,
-    strictMatching,
-    preventDuplicates,
-  });
+  const result = await harmonyCommand.run(values, { locale, dyeFilters, dyeEmoji: getDyeEmoji });
 
   if (!result.ok) {
-    if (result.error === 'NO_MATCHES') {
-      await safeEditOriginalResponse(env.DISCORD_CLIENT_ID, interaction.token, {
-        embeds: [errorEmbed(t.t('common.error'), t.t('errors.noMatchFound'))],
-      });
-    } else {
-      if (logger) logger.error('Harmony command error');
-      await safeEditOriginalResponse(env.DISCORD_CLIENT_ID, interaction.token, {
-        embeds: [errorEmbed(t.t('common.error'), t.t('errors.generationFailed'))],
-      });
-    }
+    if (logger && result.error !== 'NO_MATCHES') logger.error('Harmony command error');
+    await safeEditOriginalResponse(env.DISCORD_CLIENT_ID, interaction.token, {
+      embeds: [runErrorEmbed(result, t)],
+    });
     return;
   }
 
   try {
-    const pngBuffer = await renderSvgToPng(result.svgString, { scale: 2 });
-
-    // Build description with Discord emojis
-    const dyeList = result.harmonyDyes
-      .map((dye, i) => {
-        const emoji = getDyeEmoji(dye.id);
-        const emojiPrefix = emoji ? `${emoji} ` : '';
-        const localizedName = getLocalizedDyeName(dye.itemID, dye.name, locale);
-        return `**${i + 1}.** ${emojiPrefix}${localizedName} (\`${dye.hex.toUpperCase()}\`)`;
-      })
-      .join('\n');
-
-    const baseEmoji = baseId ? getDyeEmoji(baseId) : undefined;
-    const baseEmojiPrefix = baseEmoji ? `${baseEmoji} ` : '';
-    const baseColorText = `${t.t('harmony.baseColor')}: ${baseEmojiPrefix}**${result.baseName}** (\`${baseHex.toUpperCase()}\`)`;
-
-    await safeEditOriginalResponse(env.DISCORD_CLIENT_ID, interaction.token, {
-      embeds: [{
-        title: result.embed.title,
-        description: `${baseColorText}\n\n${dyeList}`,
-        color: result.embed.color,
-        image: { url: 'attachment://image.png' },
-        footer: { text: result.embed.footer ?? t.t('common.footer') },
-      }],
-      file: { name: `harmony-${harmonyType}.png`, data: pngBuffer, contentType: 'image/png' },
-    });
+    const message = await toDiscordMessage(result.output, logger);
+    await safeEditOriginalResponse(env.DISCORD_CLIENT_ID, interaction.token, message);
   } catch (error) {
     if (logger) logger.error('Harmony render error', error instanceof Error ? error : undefined);
     await safeEditOriginalResponse(env.DISCORD_CLIENT_ID, interaction.token, {
@@ -25,6 +25,9 @@ export { handleSwatchCommand } from './swatch.js';
 export { handleMatchCommand } from './match.js';
 export { handleMatchImageCommand } from './match-image.js';
 
+// Message context-menu commands
+export { handleMatchImageMessageCommand, MATCH_IMAGE_MESSAGE_COMMAND } from './match-image-message.js';
+
 export { handleAccessibilityCommand } from './accessibility.js';
 export { handleManualCommand } from './manual.js';
 export { handleComparisonCommand } from './comparison.js';
@@ -34,3 +37,9 @@ export { handleCollectionCommand } from './collection.js';
 export { handlePresetCommand } from './preset.js';
 export { handleStatsCommand } from './stats.js';
 export { handleBudgetCommand, handleBudgetAutocomplete } from './budget.js';
+export { handleAlertCommand, handleAlertAutocomplete } from './alert.js';
+export { handleGlamourCommand, handleGlamourAutocomplete } from './glamour.js';
+export { handleGlamourerImportCommand, handleGlamourerImportAutocomplete } from './glamourer-import.js';
+export { handleServerSettingsCommand, handleServerSettingsAutocomplete, formatCommandName } from './server-settings.js';
+export { handleDyeOfTheDayCommand, handleDyeOfTheDayAutocomplete } from './dye-of-the-day.js';
+export { handleDyeQuizCommand, handleDyeQuizAutocomplete } from './dyequiz.js';
@@ -59,7 +59,7 @@ export async function handleLanguageCommand(
   }
 
   // Get translator for user's current locale
-  const t = await createUserTranslator(env.KV, userId, interaction.locale);
+  const t = await createUserTranslator(env.KV, userId, interaction.locale, undefined, interaction.guild_id);
 
   // Extract subcommand
   const options = interaction.data?.options || [];
@@ -240,7 +240,7 @@ export async function handleManualCommand(
   const userId = interaction.member?.user?.id ?? interaction.user?.id ?? 'unknown';
 
   // Get translator for user's locale
-  const t = await createUserTranslator(env.KV, userId, interaction.locale);
+  const t = await createUserTranslator(env.KV, userId, interaction.locale, undefined, interaction.guild_id);
 
   // Check for topic option
   const options = interaction.data?.options || [];
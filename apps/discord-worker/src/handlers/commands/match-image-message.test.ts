@@ -0,0 +1,217 @@
+/**
+ * Tests for the "Match dyes in this image" message command handler
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleMatchImageMessageCommand, findMessageImageUrl } from './match-image-message.js';
+import type { DiscordInteraction, Env, InteractionResponseBody } from '../../types/env.js';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+const mockProcessMatchImageCommand = vi.fn().mockResolvedValue(undefined);
+vi.mock('./match-image.js', () => ({
+    MIN_COLORS: 1,
+    MAX_COLORS: 5,
+    DEFAULT_COLORS: 1,
+    processMatchImageCommand: (...args: unknown[]) => mockProcessMatchImageCommand(...args),
+}));
+
+const mockGetEffectivePreferences = vi.fn().mockResolvedValue({});
+vi.mock('../../services/preferences.js', () => ({
+    getEffectivePreferences: (...args: unknown[]) => mockGetEffectivePreferences(...args),
+}));
+
+vi.mock('../../services/i18n.js', () => ({
+    discordLocaleToLocaleCode: (locale: string) => locale?.split('-')[0] || 'en',
+}));
+
+const translator = {
+    t: (key: string) => {
+        const map: Record<string, string> = {
+            'common.error': 'Error',
+            'matchImage.noImageInMessage': 'No image in message',
+        };
+        return map[key] ?? key;
+    },
+    getLocale: () => 'ja',
+};
+
+vi.mock('../../services/bot-i18n.js', () => ({
+    createUserTranslator: vi.fn(async () => translator),
+    createTranslator: vi.fn(() => translator),
+}));
+
+// ---------------------------------------------------------------------------
+// Test data
+// ---------------------------------------------------------------------------
+const imageAttachment = {
+    id: 'att-1',
+    filename: 'screenshot.png',
+    size: 1000,
+    url: 'https://cdn.discordapp.com/attachments/1/2/screenshot.png',
+    proxy_url: 'https://media.discordapp.net/attachments/1/2/screenshot.png',
+    content_type: 'image/png',
+};
+
+function interactionFor(message: Record<string, unknown>): DiscordInteraction {
+    return {
+        id: 'interaction-1',
+        application_id: 'app-id',
+        type: 2,
+        token: 'test-token',
+        locale: 'ja',
+        member: { user: { id: 'user-1' } },
+        data: {
+            name: 'Match dyes in this image',
+            type: 3,
+            target_id: 'message-1',
+            resolved: {
+                messages: {
+                    'message-1': { id: 'message-1', channel_id: 'channel-1', ...message },
+                },
+            },
+        },
+    };
+}
+
+const env = {
+    KV: {} as KVNamespace,
+    DISCORD_CLIENT_ID: 'client-id',
+} as Env;
+
+const ctx: ExecutionContext = {
+    waitUntil: vi.fn((promise: Promise<unknown>) => {
+        promise.catch(() => { });
+    }),
+    passThroughOnException: vi.fn(),
+} as unknown as ExecutionContext;
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('"Match dyes in this image" message command', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockGetEffectivePreferences.mockResolvedValue({});
+    });
+
+    it('defers and processes the first image attachment', async () => {
+        const interaction = interactionFor({ attachments: [imageAttachment] });
+
+        const res = await handleMatchImageMessageCommand(interaction, env, ctx);
+        const body = (await res.json()) as InteractionResponseBody;
+
+        expect(body.type).toBe(5); // DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE
+        expect(ctx.waitUntil).toHaveBeenCalled();
+        expect(mockProcessMatchImageCommand).toHaveBeenCalledWith(
+            interaction, env, imageAttachment.url, 1, 'ja', undefined, undefined
+        );
+    });
+
+    it('applies the count and matching method preferences', async () => {
+        mockGetEffectivePreferences.mockResolvedValue({ count: 3, matching: 'ciede2000' });
+
+        await handleMatchImageMessageCommand(interactionFor({ attachments: [imageAttachment] }), env, ctx);
+
+        const [, , , colorCount, , , matchingMethod] = mockProcessMatchImageCommand.mock.calls[0];
+        expect(colorCount).toBe(3);
+        expect(matchingMethod).toBe('ciede2000');
+    });
+
+    it('clamps the count preference to the /match_image maximum', async () => {
+        mockGetEffectivePreferences.mockResolvedValue({ count: 10 });
+
+        await handleMatchImageMessageCommand(interactionFor({ attachments: [imageAttachment] }), env, ctx);
+
+        expect(mockProcessMatchImageCommand.mock.calls[0][3]).toBe(5);
+    });
+
+    it('returns an ephemeral error when the message has no image', async () => {
+        const interaction = interactionFor({
+            attachments: [{ ...imageAttachment, filename: 'notes.txt', content_type: 'text/plain' }],
+            embeds: [{ type: 'rich' }],
+        });
+
+        const res = await handleMatchImageMessageCommand(interaction, env, ctx);
+        const body = (await res.json()) as InteractionResponseBody;
+
+        expect(body.type).toBe(4);
+        expect(body.data!.embeds![0].description).toBe('No image in message');
+        expect(body.data!.flags).toBe(64);
+        expect(mockProcessMatchImageCommand).not.toHaveBeenCalled();
+    });
+
+    it('returns an ephemeral error when the target message is not resolved', async () => {
+        const interaction = interactionFor({});
+        interaction.data!.resolved = {};
+
+        const res = await handleMatchImageMessageCommand(interaction, env, ctx);
+        const body = (await res.json()) as InteractionResponseBody;
+
+        expect(body.data!.flags).toBe(64);
+        expect(mockProcessMatchImageCommand).not.toHaveBeenCalled();
+    });
+});
+
+describe('findMessageImageUrl', () => {
+    const base = { id: 'message-1', channel_id: 'channel-1' };
+
+    it('skips non-image attachments', () => {
+        const url = findMessageImageUrl({
+            ...base,
+            attachments: [
+                { ...imageAttachment, id: 'att-0', filename: 'log.txt', content_type: 'text/plain' },
+                imageAttachment,
+            ],
+        });
+
+        expect(url).toBe(imageAttachment.url);
+    });
+
+    it('recognises images by extension when the content type is missing', () => {
+        const { content_type: _omit, ...attachment } = imageAttachment;
+
+        expect(findMessageImageUrl({ ...base, attachments: [attachment] })).toBe(imageAttachment.url);
+    });
+
+    it('prefers attachments over embeds', () => {
+        const url = findMessageImageUrl({
+            ...base,
+            attachments: [imageAttachment],
+            embeds: [{ image: { url: 'https://example.com/a.png', proxy_url: 'https://media.discordapp.net/external/a.png' } }],
+        });
+
+        expect(url).toBe(imageAttachment.url);
+    });
+
+    it('uses the proxy URL of an embed image', () => {
+        const url = findMessageImageUrl({
+            ...base,
+            embeds: [
+                { type: 'rich' },
+                { image: { url: 'https://example.com/a.png', proxy_url: 'https://media.discordapp.net/external/a.png' } },
+            ],
+        });
+
+        expect(url).toBe('https://media.discordapp.net/external/a.png');
+    });
+
+    it('uses the thumbnail of a bare image link', () => {
+        const url = findMessageImageUrl({
+            ...base,
+            embeds: [{ type: 'image', thumbnail: { url: 'https://example.com/b.jpg', proxy_url: 'https://media.discordapp.net/external/b.jpg' } }],
+        });
+
+        expect(url).toBe('https://media.discordapp.net/external/b.jpg');
+    });
+
+    it('ignores thumbnails of link previews', () => {
+        const url = findMessageImageUrl({
+            ...base,
+            embeds: [{ type: 'article', thumbnail: { url: 'https://example.com/c.jpg', proxy_url: 'https://media.discordapp.net/external/c.jpg' } }],
+        });
+
+        expect(url).toBeNull();
+    });
+});
@@ -0,0 +1,107 @@
+/**
+ * "Match dyes in this image" Message Command Handler
+ *
+ * Message context-menu version of /match_image: right-click a message →
+ * Apps → "Match dyes in this image". Uses the first image attachment of the
+ * target message, falling back to its first embedded image, so screenshots
+ * that are already in the channel don't have to be re-uploaded.
+ *
+ * Message commands take no options, so the color count and matching method
+ * come from the user's /preferences (language too, via the translator).
+ */
+
+import type { ExtendedLogger } from '@xivdyetools/logger';
+import { deferredResponse, errorEmbed } from '../../utils/response.js';
+import { createTranslator, createUserTranslator } from '../../services/bot-i18n.js';
+import { discordLocaleToLocaleCode } from '../../services/i18n.js';
+import { getEffectivePreferences } from '../../services/preferences.js';
+import { processMatchImageCommand, DEFAULT_COLORS, MAX_COLORS, MIN_COLORS } from './match-image.js';
+import type { Env, DiscordInteraction } from '../../types/env.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Registered name of the message command (also its menu label) */
+export const MATCH_IMAGE_MESSAGE_COMMAND = 'Match dyes in this image';
+
+/** File extensions treated as images when an attachment has no content type */
+const IMAGE_EXTENSION_PATTERN = /\.(png|jpe?g|gif|webp)$/i;
+
+type TargetMessage = NonNullable<
+  NonNullable<NonNullable<DiscordInteraction['data']>['resolved']>['messages']
+>[string];
+
+// ============================================================================
+// Command Handler
+// ============================================================================
+
+/**
+ * Handles the "Match dyes in this image" message command
+ */
+export async function handleMatchImageMessageCommand(
+  interaction: DiscordInteraction,
+  env: Env,
+  ctx: ExecutionContext,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const userId = interaction.member?.user?.id ?? interaction.user?.id;
+
+  const t = userId
+    ? await createUserTranslator(env.KV, userId, interaction.locale, logger, interaction.guild_id)
+    : createTranslator(discordLocaleToLocaleCode(interaction.locale ?? 'en') ?? 'en');
+
+  const targetId = interaction.data?.target_id;
+  const message = targetId ? interaction.data?.resolved?.messages?.[targetId] : undefined;
+  const imageUrl = message ? findMessageImageUrl(message) : null;
+
+  if (!imageUrl) {
+    return Response.json({
+      type: 4, // CHANNEL_MESSAGE_WITH_SOURCE
+      data: {
+        embeds: [errorEmbed(t.t('common.error'), t.t('matchImage.noImageInMessage'))],
+        flags: 64, // Ephemeral
+      },
+    });
+  }
+
+  // No options on message commands - the count preference (1-10) is clamped
+  // to what /match_image supports; without one, extract a single color as
+  // /match_image does
+  const prefs = userId ? await getEffectivePreferences(env.KV, userId, interaction.guild_id, logger) : {};
+  const colorCount = Math.max(MIN_COLORS, Math.min(MAX_COLORS, prefs.count ?? DEFAULT_COLORS));
+
+  const deferResponse = deferredResponse();
+
+  ctx.waitUntil(
+    processMatchImageCommand(interaction, env, imageUrl, colorCount, t.getLocale(), logger, prefs.matching)
+  );
+
+  return deferResponse;
+}
+
+/**
+ * Pick the image to analyze from a message: the first image attachment, else
+ * the first embed image (or the thumbnail of a bare image link).
+ *
+ * Embeds use Discord's proxy URL - the original URL can point anywhere, and
+ * only the Discord CDN passes image validation.
+ */
+export function findMessageImageUrl(message: TargetMessage): string | null {
+  const attachment = message.attachments?.find((a) =>
+    a.content_type ? a.content_type.startsWith('image/') : IMAGE_EXTENSION_PATTERN.test(a.filename)
+  );
+  if (attachment) {
+    return attachment.url;
+  }
+
+  for (const embed of message.embeds ?? []) {
+    const image = embed.image ?? (embed.type === 'image' ? embed.thumbnail : undefined);
+    const url = image?.proxy_url ?? image?.url;
+    if (url) {
+      return url;
+    }
+  }
+
+  return null;
+}
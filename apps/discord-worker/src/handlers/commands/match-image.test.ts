@@ -93,6 +93,11 @@ vi.mock('../../services/image/index.js', () => ({
     processImageForExtraction: (...args: unknown[]) => mockProcessImageForExtraction(...args),
 }));
 
+const mockCreateRecolorPreview = vi.fn().mockResolvedValue(new Uint8Array([0x89, 0x50, 0x4E, 0x47]));
+vi.mock('../../services/recolor-preview.js', () => ({
+    createRecolorPreview: (...args: unknown[]) => mockCreateRecolorPreview(...args),
+}));
+
 vi.mock('../../types/image.js', () => ({
     getMatchQuality: (distance: number) => ({
         shortLabel: distance === 0 ? 'PERFECT' : distance < 10 ? 'EXCELLENT' : 'GOOD',
@@ -105,6 +110,7 @@ vi.mock('../../types/image.js', () => ({
 // ---------------------------------------------------------------------------
 const translator = {
     t: (key: string, vars?: Record<string, unknown>) => {
+        const count = typeof vars?.count === 'number' ? vars.count : 1;
         const map: Record<string, string> = {
             'common.error': 'Error',
             'common.footer': 'Footer',
@@ -113,10 +119,12 @@ const translator = {
             'matchImage.noColors': 'No colors found',
             'matchImage.extractionFailed': 'Extraction failed',
             'matchImage.colorMatch': 'Color Match',
-            'matchImage.colorPalette': `Color Palette (${String(vars?.count ?? 1)} colors)`,
+            'matchImage.colorPalette': `Color Palette (${count} colors)`,
             'matchImage.closestMatch': 'Closest Match',
-            'matchImage.topMatches': `Top ${String(vars?.count ?? 1)} Matches`,
+            'matchImage.topMatches': `Top ${count} Matches`,
             'matchImage.extractionMethod': 'K-means clustering',
+            'matchImage.recolorTitle': 'Recolor Preview',
+            'matchImage.recolorDescription': 'Original and recolored',
             'matchImage.processingFailed': 'Processing failed',
             'matchImage.onlyDiscord': 'Only Discord images allowed',
             'matchImage.imageTooLarge': 'Image too large',
@@ -866,4 +874,69 @@ describe('/match_image command', () => {
         expect(res).toBeDefined();
         expect(ctx.waitUntil).toHaveBeenCalled();
     });
+    describe('recolor option', () => {
+        const recolorInteraction = (recolor: boolean): DiscordInteraction => ({
+            ...baseInteraction,
+            data: {
+                ...baseInteraction.data,
+                options: [
+                    { name: 'image', value: 'attachment-id-123' },
+                    { name: 'recolor', value: recolor },
+                ],
+                resolved: {
+                    attachments: {
+                        'attachment-id-123': {
+                            id: 'attachment-id-123',
+                            filename: 'test.png',
+                            url: 'https://cdn.discordapp.com/attachments/test.png',
+                            proxy_url: 'https://media.discordapp.net/attachments/test.png',
+                            size: 1000,
+                            content_type: 'image/png',
+                        },
+                    },
+                },
+            },
+        });
+
+        it('does not render a preview by default', async () => {
+            await handleMatchImageCommand(recolorInteraction(false), env, ctx);
+            await new Promise((resolve) => setTimeout(resolve, 100));
+
+            expect(mockCreateRecolorPreview).not.toHaveBeenCalled();
+            const options = mockEditOriginalResponse.mock.calls[0][2];
+            expect(options.embeds).toHaveLength(1);
+            expect(options.files).toBeUndefined();
+        });
+
+        it('attaches the recolor preview next to the palette', async () => {
+            await handleMatchImageCommand(recolorInteraction(true), env, ctx);
+            await new Promise((resolve) => setTimeout(resolve, 100));
+
+            expect(mockCreateRecolorPreview).toHaveBeenCalledWith(
+                expect.any(Uint8Array),
+                [expect.objectContaining({ matchedDye: expect.objectContaining({ id: 1 }) })]
+            );
+            const options = mockEditOriginalResponse.mock.calls[0][2];
+            expect(options.embeds).toHaveLength(2);
+            expect(options.embeds[1].title).toBe('Recolor Preview');
+            expect(options.embeds[1].image.url).toBe('attachment://recolor-preview.png');
+            expect(options.files).toEqual([
+                expect.objectContaining({ name: 'recolor-preview.png', contentType: 'image/png' }),
+            ]);
+        });
+
+        it('still sends the palette when the preview fails', async () => {
+            mockCreateRecolorPreview.mockRejectedValueOnce(new Error('decode failed'));
+            const mockLogger = { error: vi.fn() };
+
+            await handleMatchImageCommand(recolorInteraction(true), env, ctx, mockLogger as any);
+            await new Promise((resolve) => setTimeout(resolve, 100));
+
+            expect(mockLogger.error).toHaveBeenCalledWith('Recolor preview failed', expect.any(Error));
+            const options = mockEditOriginalResponse.mock.calls[0][2];
+            expect(options.embeds).toHaveLength(1);
+            expect(options.embeds[0].title).toBe('Closest Match');
+            expect(options.files).toBeUndefined();
+        });
+    });
 });
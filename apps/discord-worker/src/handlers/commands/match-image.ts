@@ -9,6 +9,7 @@
  * - Quality indicators (PERFECT/EXCELLENT/GOOD/FAIR/APPROX)
  * - Visual palette grid showing extracted vs matched colors
  * - Dominance percentages for each color
+ * - Optional recolor preview (original next to the image in its matched dyes)
  */
 
 import {
@@ -17,16 +18,18 @@ import {
 } from '@xivdyetools/core';
 import { dyeService } from '../../utils/color.js';
 import type { ExtendedLogger } from '@xivdyetools/logger';
-import { deferredResponse, errorEmbed } from '../../utils/response.js';
+import { deferredResponse, errorEmbed, type DiscordEmbed } from '../../utils/response.js';
 import { safeEditOriginalResponse } from '../../utils/discord-api.js';
 import { generatePaletteGrid, type PaletteEntry, type PaletteGridLabels } from '@xivdyetools/svg';
 import { renderSvgToPng } from '../../services/svg/renderer.js';
 import { getDyeEmoji } from '../../services/emoji.js';
 import { validateAndFetchImage, processImageForExtraction } from '../../services/image/index.js';
+import { createRecolorPreview } from '../../services/recolor-preview.js';
 import { getMatchQuality } from '../../types/image.js';
 import { createTranslator, createUserTranslator, type Translator } from '../../services/bot-i18n.js';
 import { discordLocaleToLocaleCode, initializeLocale, getLocalizedDyeName, type LocaleCode } from '../../services/i18n.js';
 import type { Env, DiscordInteraction } from '../../types/env.js';
+import type { MatchingMethod } from '../../types/preferences.js';
 
 // ============================================================================
 // Service Initialization
@@ -39,13 +42,13 @@ const paletteService = new PaletteService();
 // ============================================================================
 
 /** Minimum colors to extract */
-const MIN_COLORS = 1;
+export const MIN_COLORS = 1;
 
 /** Maximum colors to extract */
-const MAX_COLORS = 5;
+export const MAX_COLORS = 5;
 
 /** Default number of colors */
-const DEFAULT_COLORS = 1;
+export const DEFAULT_COLORS = 1;
 
 // ============================================================================
 // Command Handler
@@ -69,10 +72,11 @@ export async function handleMatchImageCommand(
   // Get the image attachment option
   const imageOption = options.find((opt) => opt.name === 'image');
   const colorsOption = options.find((opt) => opt.name === 'colors');
+  const recolor = options.find((opt) => opt.name === 'recolor')?.value === true;
 
   // Get translator for validation errors (before deferring)
   const t = userId
-    ? await createUserTranslator(env.KV, userId, interaction.locale)
+    ? await createUserTranslator(env.KV, userId, interaction.locale, logger, interaction.guild_id)
     : createTranslator(discordLocaleToLocaleCode(interaction.locale ?? 'en') ?? 'en');
 
   // Validate image attachment
@@ -114,21 +118,29 @@ export async function handleMatchImageCommand(
   const deferResponse = deferredResponse();
 
   // Process in background
-  ctx.waitUntil(processMatchImageCommand(interaction, env, attachment.url, colorCount, locale, logger));
+  ctx.waitUntil(
+    processMatchImageCommand(interaction, env, attachment.url, colorCount, locale, logger, undefined, recolor)
+  );
 
   return deferResponse;
 }
 
 /**
  * Background processing for match_image command
+ *
+ * Also used by the "Match dyes in this image" message command, which passes
+ * the user's preferred matching method (core's default, OKLAB, otherwise).
+ * With `recolor`, a second image shows the picture recolored in its matched dyes.
  */
-async function processMatchImageCommand(
+export async function processMatchImageCommand(
   interaction: DiscordInteraction,
   env: Env,
   imageUrl: string,
   colorCount: number,
   locale: LocaleCode,
-  logger?: ExtendedLogger
+  logger?: ExtendedLogger,
+  matchingMethod?: MatchingMethod,
+  recolor = false
 ): Promise<void> {
   const t = createTranslator(locale);
 
@@ -162,6 +174,7 @@ async function processMatchImageCommand(
       colorCount,
       maxIterations: 25,
       maxSamples: 10000,
+      matchingMethod,
     });
 
     if (matches.length === 0) {
@@ -211,25 +224,31 @@ async function processMatchImageCommand(
 
     // Step 9: Build description
     const description = buildMatchDescription(matches, t);
+    const color = parseInt(matches[0].matchedDye.hex.replace('#', ''), 16);
 
-    // Step 10: Send response
+    // Step 10: Recolor preview (optional; the palette still goes out if it fails)
+    const preview = recolor ? await buildRecolorAttachment(buffer, matches, color, t, logger) : null;
+
+    // Step 11: Send response
     await safeEditOriginalResponse(env.DISCORD_CLIENT_ID, interaction.token, {
       embeds: [
         {
           title: colorCount === 1 ? t.t('matchImage.closestMatch') : t.t('matchImage.topMatches', { count: matches.length }),
           description,
-          color: parseInt(matches[0].matchedDye.hex.replace('#', ''), 16),
+          color,
           image: { url: 'attachment://image.png' },
           footer: {
             text: `${t.t('common.footer')} • ${t.t('matchImage.extractionMethod')}`,
           },
         },
+        ...(preview ? [preview.embed] : []),
       ],
       file: {
         name: 'match-image.png',
         data: pngBuffer,
         contentType: 'image/png',
       },
+      ...(preview && { files: [preview.file] }),
     });
   } catch (error) {
     if (logger) {
@@ -257,6 +276,38 @@ async function processMatchImageCommand(
   }
 }
 
+/**
+ * Render the recolor preview and the embed that shows it
+ *
+ * Shared with /extractor image. Returns null (after logging) if rendering
+ * fails, so the palette reply is never lost to the preview.
+ */
+export async function buildRecolorAttachment(
+  buffer: Uint8Array,
+  matches: PaletteMatch[],
+  color: number,
+  t: Translator,
+  logger?: ExtendedLogger
+): Promise<{ embed: DiscordEmbed; file: { name: string; data: Uint8Array; contentType: string } } | null> {
+  try {
+    const data = await createRecolorPreview(buffer, matches);
+    return {
+      embed: {
+        title: t.t('matchImage.recolorTitle'),
+        description: t.t('matchImage.recolorDescription'),
+        color,
+        image: { url: 'attachment://recolor-preview.png' },
+      },
+      file: { name: 'recolor-preview.png', data, contentType: 'image/png' },
+    };
+  } catch (error) {
+    if (logger) {
+      logger.error('Recolor preview failed', error instanceof Error ? error : undefined);
+    }
+    return null;
+  }
+}
+
 /**
  * Build description text for matches
  */
@@ -12,7 +12,7 @@ import { createCopyButtons } from '../buttons/index.js';
 import { createUserTranslator, type Translator } from '../../services/bot-i18n.js';
 import { initializeLocale, getLocalizedDyeName } from '../../services/i18n.js';
 import { executeMatch } from '@xivdyetools/bot-logic';
-import { getUserPreferences } from '../../services/preferences.js';
+import { getEffectivePreferences } from '../../services/preferences.js';
 import type { Env, DiscordInteraction } from '../../types/env.js';
 
 export async function handleMatchCommand(
@@ -21,7 +21,7 @@ export async function handleMatchCommand(
   _ctx: ExecutionContext
 ): Promise<Response> {
   const userId = interaction.member?.user?.id ?? interaction.user?.id ?? 'unknown';
-  const t = await createUserTranslator(env.KV, userId, interaction.locale);
+  const t = await createUserTranslator(env.KV, userId, interaction.locale, undefined, interaction.guild_id);
   const locale = t.getLocale();
   await initializeLocale(locale);
 
@@ -40,7 +40,7 @@ export async function handleMatchCommand(
     colorInput,
     count: matchCount,
     locale,
-    dyeFilters: (await getUserPreferences(env.KV, userId)).dyeFilters,
+    dyeFilters: (await getEffectivePreferences(env.KV, userId, interaction.guild_id)).dyeFilters,
   });
 
   if (!result.ok) {
@@ -71,7 +71,7 @@ export async function handlePresetCommand(
     interaction.user?.global_name ||
     interaction.user?.username ||
     'Unknown';
-  const t = await createUserTranslator(env.KV, userId, interaction.locale);
+  const t = await createUserTranslator(env.KV, userId, interaction.locale, logger, interaction.guild_id);
 
   // Check if API is enabled
   if (!presetApi.isApiEnabled(env)) {
@@ -437,7 +437,12 @@ async function handleSubmitSubcommand(
   return deferResponse;
 }
 
-async function processSubmitCommand(
+/**
+ * Submit a preset and replace the deferred reply with the outcome
+ *
+ * Also used by /collection publish.
+ */
+export async function processSubmitCommand(
   interaction: DiscordInteraction,
   env: Env,
   t: Translator,
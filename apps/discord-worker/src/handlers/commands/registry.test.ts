@@ -0,0 +1,56 @@
+/**
+ * Tests for the Discord command registry
+ */
+import { describe, it, expect } from 'vitest';
+import {
+    SHARED_COMMANDS,
+    toDiscordCommand,
+    type DiscordCommandOptionJson,
+} from '@xivdyetools/bot-logic';
+import { DISCORD_COMMANDS } from './registry.js';
+
+/** Every option, subcommand and group in a command's JSON */
+function allOptions(options: DiscordCommandOptionJson[] = []): DiscordCommandOptionJson[] {
+    return options.flatMap((option) => [option, ...allOptions(option.options)]);
+}
+
+describe('handlers/commands/registry.ts', () => {
+    it('registers the shared bot-logic commands as defined there', () => {
+        for (const [name, command] of SHARED_COMMANDS) {
+            expect(DISCORD_COMMANDS.get(name)).toBe(command);
+        }
+    });
+
+    it('registers the message context-menu command', () => {
+        expect(toDiscordCommand(DISCORD_COMMANDS.get('Match dyes in this image')!)).toEqual({
+            name: 'Match dyes in this image',
+            type: 3,
+        });
+    });
+
+    it('limits /server-settings and /dye-of-the-day to server managers', () => {
+        for (const name of ['server-settings', 'dye-of-the-day']) {
+            expect(toDiscordCommand(DISCORD_COMMANDS.get(name)!)).toMatchObject({
+                default_member_permissions: '32',
+                contexts: [0],
+            });
+        }
+        expect(toDiscordCommand(DISCORD_COMMANDS.get('dyequiz')!)).toMatchObject({ contexts: [0] });
+    });
+
+    it('stays within Discord limits', () => {
+        const commands = [...DISCORD_COMMANDS.values()].map(toDiscordCommand);
+
+        expect(commands.length).toBeLessThanOrEqual(100);
+        for (const command of commands) {
+            expect(command.description?.length ?? 0).toBeLessThanOrEqual(100);
+            expect(command.options?.length ?? 0).toBeLessThanOrEqual(25);
+            for (const option of allOptions(command.options)) {
+                expect(option.name).toMatch(/^[a-z0-9_-]{1,32}$/);
+                expect(option.description.length).toBeLessThanOrEqual(100);
+                expect(option.options?.length ?? 0).toBeLessThanOrEqual(25);
+                expect(option.choices?.length ?? 0).toBeLessThanOrEqual(25);
+            }
+        }
+    });
+});
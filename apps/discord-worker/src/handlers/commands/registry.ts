@@ -0,0 +1,1341 @@
+/**
+ * Discord Command Registry
+ *
+ * Every application command the bot registers, in registration order: the
+ * shared bot-logic commands (run on every platform) and the Discord-only
+ * commands, declared as option specs. scripts/register-commands.ts turns
+ * this list into Discord's JSON with toDiscordCommand().
+ *
+ * @module handlers/commands/registry
+ */
+
+import {
+  accessibilityCommand,
+  comparisonCommand,
+  createCommandRegistry,
+  gradientCommand,
+  harmonyCommand,
+  MATCHING_CHOICES,
+  mixerCommand,
+  type CommandOption,
+  type CommandSpec,
+  type MessageCommandSpec,
+} from '@xivdyetools/bot-logic';
+
+/** Bot languages, as offered by /preferences and /server-settings */
+const LANGUAGE_CHOICES = [
+  { name: '🇺🇸 English', value: 'en' },
+  { name: '🇯🇵 日本語 (Japanese)', value: 'ja' },
+  { name: '🇩🇪 Deutsch (German)', value: 'de' },
+  { name: '🇫🇷 Français (French)', value: 'fr' },
+  { name: '🇰🇷 한국어 (Korean)', value: 'ko' },
+  { name: '🇨🇳 中文 (Chinese)', value: 'zh' },
+] as const;
+
+/** Default matching methods, as offered by /preferences and /server-settings */
+const PREFERENCE_MATCHING_CHOICES = [
+  { name: 'RGB - Euclidean RGB distance', value: 'rgb' },
+  { name: 'CIE76 - CIELAB Euclidean', value: 'cie76' },
+  { name: 'CIEDE2000 - Industry standard', value: 'ciede2000' },
+  { name: 'OKLAB - Modern perceptual (recommended)', value: 'oklab' },
+  { name: 'HyAB - Hybrid distance', value: 'hyab' },
+  { name: 'OKLCH Weighted - Weighted L/C/H', value: 'oklch-weighted' },
+] as const;
+
+/** Character color palettes for /swatch */
+const CHARACTER_COLOR_CHOICES = [
+  { name: '👤 Skin Tone', value: 'skin' },
+  { name: '💇 Hair Color', value: 'hair' },
+  { name: '👁️ Eye Color', value: 'eye' },
+  { name: '✨ Hair Highlight', value: 'highlight' },
+  { name: '💋 Lip Color (Dark)', value: 'lip_dark' },
+  { name: '💋 Lip Color (Light)', value: 'lip_light' },
+  { name: '🎭 Tattoo/Limbal Ring', value: 'tattoo' },
+  { name: '🎨 Face Paint (Dark)', value: 'facepaint_dark' },
+  { name: '🎨 Face Paint (Light)', value: 'facepaint_light' },
+] as const;
+
+/** Character genders for /swatch */
+const GENDER_CHOICES = [
+  { name: 'Male', value: 'male' },
+  { name: 'Female', value: 'female' },
+] as const;
+
+/** Matching methods for /swatch */
+const SWATCH_MATCHING_CHOICES = [
+  { name: 'OKLAB - Modern perceptual (default)', value: 'oklab' },
+  { name: 'RGB - Simple Euclidean', value: 'rgb' },
+  { name: 'CIE76 - CIELAB distance', value: 'cie76' },
+  { name: 'CIEDE2000 - Industry standard', value: 'ciede2000' },
+  { name: 'HyAB - Hybrid for large differences', value: 'hyab' },
+  { name: 'OKLCH Weighted - Weighted L/C/H', value: 'oklch-weighted' },
+] as const;
+
+/** Community preset categories */
+const PRESET_CATEGORY_CHOICES = [
+  { name: '⚔️ FFXIV Jobs', value: 'jobs' },
+  { name: '🏛️ Grand Companies', value: 'grand-companies' },
+  { name: '🍂 Seasons', value: 'seasons' },
+  { name: '🎉 FFXIV Events', value: 'events' },
+  { name: '🎨 Aesthetics', value: 'aesthetics' },
+  { name: '🌐 Community', value: 'community' },
+] as const;
+
+/** Gear slots for /glamour */
+const GEAR_SLOT_CHOICES = [
+  { name: 'Head', value: 'head' },
+  { name: 'Body', value: 'body' },
+  { name: 'Hands', value: 'hands' },
+  { name: 'Legs', value: 'legs' },
+  { name: 'Feet', value: 'feet' },
+  { name: 'Weapon', value: 'weapon' },
+  { name: 'Accessories', value: 'accessories' },
+] as const;
+
+/** Market price world, falling back to the saved preference */
+const PRICE_WORLD_OPTION = {
+  name: 'world',
+  description: 'World or datacenter for prices (uses saved preference if not set)',
+  type: 'string',
+  autocomplete: true,
+} as const satisfies CommandOption;
+
+/**
+ * All slash commands for the bot, plus message context-menu commands
+ * V4.0.0 command set
+ */
+export const DISCORD_COMMANDS = createCommandRegistry<CommandSpec | MessageCommandSpec>([
+  // =========================================================================
+  // General
+  // =========================================================================
+  {
+    name: 'about',
+    description: 'Show information about the XIV Dye Tools bot',
+  },
+
+  // =========================================================================
+  // Color Analysis
+  // =========================================================================
+  harmonyCommand,
+
+  {
+    name: 'dye',
+    description: 'Search and explore FFXIV dyes',
+    subcommands: [
+      {
+        name: 'search',
+        description: 'Search for dyes by name',
+        options: [
+          {
+            name: 'query',
+            description: 'Search term (dye name)',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+        ],
+      },
+      {
+        name: 'info',
+        description: 'Get detailed information about a specific dye',
+        options: [
+          {
+            name: 'name',
+            description: 'Dye name',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+        ],
+      },
+      {
+        name: 'list',
+        description: 'List dyes by category',
+        options: [
+          {
+            name: 'category',
+            description: 'Dye category',
+            type: 'string',
+            choices: [
+              { name: 'Red Dyes', value: 'Reds' },
+              { name: 'Brown Dyes', value: 'Browns' },
+              { name: 'Yellow Dyes', value: 'Yellows' },
+              { name: 'Green Dyes', value: 'Greens' },
+              { name: 'Blue Dyes', value: 'Blues' },
+              { name: 'Purple Dyes', value: 'Purples' },
+              { name: 'Neutral (White/Black)', value: 'Neutral' },
+              { name: 'Special Dyes', value: 'Special' },
+            ],
+          },
+        ],
+      },
+      {
+        name: 'random',
+        description: 'Show 5 randomly selected dyes',
+        options: [
+          {
+            name: 'unique_categories',
+            description: 'Limit to 1 dye per category (default: false)',
+            type: 'boolean',
+          },
+        ],
+      },
+    ],
+  },
+
+  // =========================================================================
+  // Color Extraction & Matching
+  // =========================================================================
+  {
+    name: 'extractor',
+    description: 'Extract colors from inputs and find matching FFXIV dyes',
+    subcommands: [
+      {
+        name: 'color',
+        description: 'Find the closest FFXIV dye(s) to a color',
+        options: [
+          {
+            name: 'color',
+            description: 'Color to match (hex code like #FF5733 or dye name)',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+          {
+            name: 'count',
+            description: 'Number of matches to show (1-10)',
+            type: 'integer',
+            min: 1,
+            max: 10,
+          },
+          {
+            name: 'matching',
+            description: 'Color matching algorithm',
+            type: 'string',
+            choices: MATCHING_CHOICES,
+          },
+          {
+            name: 'prevent_duplicates',
+            description: 'Avoid showing the same dye twice across results',
+            type: 'boolean',
+          },
+        ],
+      },
+      {
+        name: 'image',
+        description: 'Extract colors from an image and find matching dyes',
+        options: [
+          { name: 'image', description: 'Image to analyze', type: 'attachment', required: true },
+          {
+            name: 'colors',
+            description: 'Number of colors to extract (3-10)',
+            type: 'integer',
+            min: 3,
+            max: 10,
+          },
+          {
+            name: 'vibrancy_boost',
+            description: 'Boost vibrancy of extracted colors (default: true)',
+            type: 'boolean',
+          },
+          {
+            name: 'matching',
+            description: 'Color matching algorithm',
+            type: 'string',
+            choices: MATCHING_CHOICES,
+          },
+          {
+            name: 'prevent_duplicates',
+            description: 'Avoid mapping multiple slots to the same dye (default: true)',
+            type: 'boolean',
+          },
+          {
+            name: 'recolor',
+            description: 'Also show the image recolored in its matched dyes',
+            type: 'boolean',
+          },
+        ],
+      },
+    ],
+  },
+
+  // /gradient - Color gradient between two colors
+  gradientCommand,
+
+  // /mixer - Dye blending with color science
+  mixerCommand,
+
+  // =========================================================================
+  // Utility Commands
+  // =========================================================================
+  accessibilityCommand,
+
+  {
+    name: 'manual',
+    description: 'Show help and usage guide for all commands',
+    options: [
+      {
+        name: 'topic',
+        description: 'Specific help topic',
+        type: 'string',
+        choices: [
+          { name: '📸 Image Matching Tips', value: 'match_image' },
+        ],
+      },
+    ],
+  },
+
+  // /stats - Bot usage statistics (5 subcommands)
+  {
+    name: 'stats',
+    description: 'Display bot usage statistics and information',
+    subcommands: [
+      { name: 'summary', description: 'Show basic bot information (public)' },
+      { name: 'overview', description: 'Show usage metrics (admin only)' },
+      { name: 'commands', description: 'Show per-command breakdown (admin only)' },
+      { name: 'preferences', description: 'Show preference adoption rates (admin only)' },
+      { name: 'health', description: 'Show system health status (admin only)' },
+    ],
+  },
+
+  // /preferences - Unified settings management
+  {
+    name: 'preferences',
+    description: 'Manage your personal bot preferences',
+    subcommands: [
+      { name: 'show', description: 'Display your current preferences' },
+      {
+        name: 'set',
+        description: 'Set one or more preferences (all options are optional)',
+        options: [
+          {
+            name: 'language',
+            description: 'UI language for dye names and messages',
+            type: 'string',
+            choices: LANGUAGE_CHOICES,
+          },
+          {
+            name: 'blending',
+            description: 'Default blending mode for /mixer',
+            type: 'string',
+            choices: [
+              { name: 'RGB - Additive channel averaging', value: 'rgb' },
+              { name: 'LAB - Perceptually uniform CIELAB', value: 'lab' },
+              { name: 'OKLAB - Modern perceptual (recommended)', value: 'oklab' },
+              { name: 'RYB - Traditional artist color wheel', value: 'ryb' },
+              { name: 'HSL - Hue-Saturation-Lightness', value: 'hsl' },
+              { name: 'Spectral - Kubelka-Munk physics', value: 'spectral' },
+            ],
+          },
+          {
+            name: 'matching',
+            description: 'Default color matching method',
+            type: 'string',
+            choices: PREFERENCE_MATCHING_CHOICES,
+          },
+          {
+            name: 'count',
+            description: 'Default number of results (1-10)',
+            type: 'integer',
+            min: 1,
+            max: 10,
+          },
+          {
+            name: 'clan',
+            description: 'Default clan for /swatch (e.g., Midlander, Raen)',
+            type: 'string',
+            autocomplete: true,
+          },
+          {
+            name: 'gender',
+            description: 'Default gender for /swatch',
+            type: 'string',
+            choices: [
+              { name: '♂️ Male', value: 'male' },
+              { name: '♀️ Female', value: 'female' },
+            ],
+          },
+          {
+            name: 'world',
+            description: 'Default world/datacenter for market prices',
+            type: 'string',
+            autocomplete: true,
+          },
+          { name: 'market', description: 'Show Market Board prices by default', type: 'boolean' },
+          {
+            name: 'show_hex',
+            description: 'Show hex color codes on result cards',
+            type: 'boolean',
+          },
+          { name: 'show_rgb', description: 'Show RGB values on result cards', type: 'boolean' },
+          { name: 'show_hsv', description: 'Show HSV values on result cards', type: 'boolean' },
+          { name: 'show_lab', description: 'Show LAB values on result cards', type: 'boolean' },
+          {
+            name: 'show_deltae',
+            description: 'Show Delta-E color distance on result cards',
+            type: 'boolean',
+          },
+          {
+            name: 'show_acquisition',
+            description: 'Show dye acquisition source on result cards',
+            type: 'boolean',
+          },
+        ],
+      },
+      {
+        name: 'reset',
+        description: 'Reset a preference to default (or all if no key specified)',
+        options: [
+          {
+            name: 'key',
+            description: 'Preference to reset (omit for all)',
+            type: 'string',
+            choices: [
+              { name: 'Language', value: 'language' },
+              { name: 'Blending Mode', value: 'blending' },
+              { name: 'Matching Method', value: 'matching' },
+              { name: 'Result Count', value: 'count' },
+              { name: 'Default Clan', value: 'clan' },
+              { name: 'Default Gender', value: 'gender' },
+              { name: 'Market World', value: 'world' },
+              { name: 'Show Prices', value: 'market' },
+              { name: 'Show Hex', value: 'show_hex' },
+              { name: 'Show RGB', value: 'show_rgb' },
+              { name: 'Show HSV', value: 'show_hsv' },
+              { name: 'Show LAB', value: 'show_lab' },
+              { name: 'Show Delta-E', value: 'show_deltae' },
+              { name: 'Show Acquisition', value: 'show_acquisition' },
+              { name: 'Dye Filters', value: 'filters' },
+            ],
+          },
+        ],
+      },
+      {
+        name: 'filters',
+        description: 'Manage dye type filters for search results',
+        subcommands: [
+          {
+            name: 'set',
+            description: 'Set dye type filters (all options are optional)',
+            options: [
+              { name: 'metallic', description: 'Exclude metallic dyes', type: 'boolean' },
+              { name: 'pastel', description: 'Exclude pastel dyes', type: 'boolean' },
+              { name: 'dark', description: 'Exclude dark dyes', type: 'boolean' },
+              { name: 'cosmic', description: 'Exclude cosmic dyes', type: 'boolean' },
+              { name: 'ishgardian', description: 'Exclude Ishgardian dyes', type: 'boolean' },
+              {
+                name: 'expensive',
+                description: 'Exclude expensive dyes (Pure White / Jet Black)',
+                type: 'boolean',
+              },
+              { name: 'vendor', description: 'Exclude vendor-sold dyes', type: 'boolean' },
+              { name: 'craft', description: 'Exclude crafted dyes', type: 'boolean' },
+            ],
+          },
+          { name: 'show', description: 'Display your current dye filter settings' },
+          { name: 'reset', description: 'Clear all dye filters' },
+        ],
+      },
+    ],
+  },
+
+  // /server-settings - Server-level defaults (Manage Server only)
+  {
+    name: 'server-settings',
+    description: 'Manage bot defaults for this server',
+    guildOnly: true,
+    requiresManageServer: true,
+    subcommands: [
+      { name: 'show', description: "Display this server's settings" },
+      {
+        name: 'set',
+        description: "Set server defaults (members' own /preferences still win)",
+        options: [
+          {
+            name: 'language',
+            description: 'Default language for members without a language preference',
+            type: 'string',
+            choices: LANGUAGE_CHOICES,
+          },
+          {
+            name: 'world',
+            description: 'Default world or datacenter for market prices',
+            type: 'string',
+            autocomplete: true,
+          },
+          {
+            name: 'matching',
+            description: 'Default color matching method',
+            type: 'string',
+            choices: PREFERENCE_MATCHING_CHOICES,
+          },
+          {
+            name: 'ephemeral',
+            description: 'Make every bot reply visible only to the member who ran the command',
+            type: 'boolean',
+          },
+        ],
+      },
+      {
+        name: 'disable',
+        description: 'Disable a command in this server',
+        options: [
+          {
+            name: 'command',
+            description: 'Command to disable',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+        ],
+      },
+      {
+        name: 'enable',
+        description: 'Re-enable a disabled command',
+        options: [
+          {
+            name: 'command',
+            description: 'Command to enable',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+        ],
+      },
+      {
+        name: 'reset',
+        description: 'Reset a server setting (or all of them)',
+        options: [
+          {
+            name: 'key',
+            description: 'Setting to reset (leave empty to reset all)',
+            type: 'string',
+            choices: [
+              { name: 'Language', value: 'language' },
+              { name: 'Market World', value: 'world' },
+              { name: 'Matching Method', value: 'matching' },
+              { name: 'Private Replies', value: 'ephemeral' },
+              { name: 'Disabled Commands', value: 'disabled_commands' },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+
+  // /dye-of-the-day - Daily dye post in a channel (Manage Server only)
+  {
+    name: 'dye-of-the-day',
+    description: 'Post a featured dye in a channel every day',
+    guildOnly: true,
+    requiresManageServer: true,
+    subcommands: [
+      {
+        name: 'subscribe',
+        description: 'Post the Dye of the Day in a channel',
+        options: [
+          {
+            name: 'channel',
+            description: 'Channel to post in (the bot needs Send Messages, Embed Links and Attach Files)',
+            type: 'channel',
+            required: true,
+            channelTypes: ['text', 'announcement'],
+          },
+          {
+            name: 'hour',
+            description: 'Hour of the day to post, in UTC (default 15)',
+            type: 'integer',
+            min: 0,
+            max: 23,
+          },
+          {
+            name: 'world',
+            description: 'World or datacenter for the market price (default: server setting)',
+            type: 'string',
+            autocomplete: true,
+          },
+        ],
+      },
+      { name: 'unsubscribe', description: 'Stop the daily post' },
+      { name: 'status', description: "Show this server's Dye of the Day subscription" },
+    ],
+  },
+
+  // /dyequiz - Dye guessing game with a per-server leaderboard
+  {
+    name: 'dyequiz',
+    description: 'Guess the dye from its color swatch',
+    guildOnly: true,
+    subcommands: [
+      {
+        name: 'start',
+        description: 'Start a new round in this channel',
+        options: [
+          {
+            name: 'difficulty',
+            description: 'How close the answer choices are (default: Normal)',
+            type: 'string',
+            choices: [
+              { name: 'Easy (3 clearly different choices)', value: 'easy' },
+              { name: 'Normal (4 choices)', value: 'normal' },
+              { name: 'Hard (5 look-alike choices)', value: 'hard' },
+            ],
+          },
+          {
+            name: 'pool',
+            description: 'Which dyes the round can use (default: all)',
+            type: 'string',
+            choices: [
+              { name: 'All dyes', value: 'all' },
+              { name: 'Metallic', value: 'metallic' },
+              { name: 'Pastel', value: 'pastel' },
+              { name: 'Dark', value: 'dark' },
+              { name: 'Cosmic Exploration', value: 'cosmic' },
+              { name: 'Ishgardian Restoration', value: 'ishgardian' },
+            ],
+          },
+          {
+            name: 'vision',
+            description: 'Show the swatch as seen with a color vision deficiency',
+            type: 'string',
+            choices: [
+              { name: 'Protanopia (red-blind)', value: 'protanopia' },
+              { name: 'Deuteranopia (green-blind)', value: 'deuteranopia' },
+              { name: 'Tritanopia (blue-blind)', value: 'tritanopia' },
+            ],
+          },
+        ],
+      },
+      {
+        name: 'guess',
+        description: "Answer this channel's open round",
+        options: [
+          {
+            name: 'dye',
+            description: 'Your guess',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+        ],
+      },
+      { name: 'leaderboard', description: "Show this server's top quiz players" },
+    ],
+  },
+
+  // /swatch - Character color matching
+  {
+    name: 'swatch',
+    description: 'Match FFXIV character colors (skin, hair, eyes) to available dyes',
+    subcommands: [
+      {
+        name: 'color',
+        description: 'Match a character color by its index',
+        options: [
+          {
+            name: 'type',
+            description: 'Character color type',
+            type: 'string',
+            required: true,
+            choices: CHARACTER_COLOR_CHOICES,
+          },
+          {
+            name: 'index',
+            description: 'Color index (0-191, or 0-95 for lips/facepaint)',
+            type: 'integer',
+            required: true,
+            min: 0,
+            max: 191,
+          },
+          { name: 'clan', description: 'Character clan (required for skin/hair)', type: 'string' },
+          {
+            name: 'gender',
+            description: 'Character gender (required for skin/hair)',
+            type: 'string',
+            choices: GENDER_CHOICES,
+          },
+          {
+            name: 'matching',
+            description: 'Color matching algorithm',
+            type: 'string',
+            choices: SWATCH_MATCHING_CHOICES,
+          },
+          {
+            name: 'count',
+            description: 'Number of dye matches to show (1-10)',
+            type: 'integer',
+            min: 1,
+            max: 10,
+          },
+        ],
+      },
+      {
+        name: 'grid',
+        description: 'Match a character color by grid position (row/column)',
+        options: [
+          {
+            name: 'type',
+            description: 'Character color type',
+            type: 'string',
+            required: true,
+            choices: CHARACTER_COLOR_CHOICES,
+          },
+          {
+            name: 'row',
+            description: 'Grid row (1-24 for most, 1-12 for lips/facepaint)',
+            type: 'integer',
+            required: true,
+            min: 1,
+            max: 24,
+          },
+          {
+            name: 'col',
+            description: 'Grid column (1-8)',
+            type: 'integer',
+            required: true,
+            min: 1,
+            max: 8,
+          },
+          { name: 'clan', description: 'Character clan (required for skin/hair)', type: 'string' },
+          {
+            name: 'gender',
+            description: 'Character gender (required for skin/hair)',
+            type: 'string',
+            choices: GENDER_CHOICES,
+          },
+          {
+            name: 'matching',
+            description: 'Color matching algorithm',
+            type: 'string',
+            choices: SWATCH_MATCHING_CHOICES,
+          },
+          {
+            name: 'count',
+            description: 'Number of dye matches to show (1-10)',
+            type: 'integer',
+            min: 1,
+            max: 10,
+          },
+        ],
+      },
+    ],
+  },
+
+  // =========================================================================
+  // Comparison & Settings
+  // =========================================================================
+  comparisonCommand,
+
+  {
+    name: 'language',
+    description: '[DEPRECATED: Use /preferences] Manage your language preference',
+    subcommands: [
+      {
+        name: 'set',
+        description: 'Set your preferred language',
+        options: [
+          {
+            name: 'locale',
+            description: 'Language to use',
+            type: 'string',
+            required: true,
+            choices: [
+              { name: 'English', value: 'en' },
+              { name: '日本語 (Japanese)', value: 'ja' },
+              { name: 'Deutsch (German)', value: 'de' },
+              { name: 'Français (French)', value: 'fr' },
+              { name: '한국어 (Korean)', value: 'ko' },
+              { name: '中文 (Chinese)', value: 'zh' },
+            ],
+          },
+        ],
+      },
+      { name: 'show', description: 'Show your current language setting' },
+      { name: 'reset', description: 'Reset to use Discord client language' },
+    ],
+  },
+
+  // Re-registered for share codes; existing collections remain usable
+  {
+    name: 'collection',
+    description: '[DEPRECATED: Use /preset] Manage your dye collections',
+    subcommands: [
+      {
+        name: 'create',
+        description: 'Create a new collection',
+        options: [
+          {
+            name: 'name',
+            description: 'Collection name (max 50 characters)',
+            type: 'string',
+            required: true,
+            maxLength: 50,
+          },
+          {
+            name: 'description',
+            description: 'Optional description (max 200 characters)',
+            type: 'string',
+            maxLength: 200,
+          },
+        ],
+      },
+      {
+        name: 'delete',
+        description: 'Delete a collection',
+        options: [
+          {
+            name: 'name',
+            description: 'Collection to delete',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+        ],
+      },
+      {
+        name: 'add',
+        description: 'Add a dye to a collection',
+        options: [
+          {
+            name: 'name',
+            description: 'Collection name',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+          {
+            name: 'dye',
+            description: 'Dye to add',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+        ],
+      },
+      {
+        name: 'remove',
+        description: 'Remove a dye from a collection',
+        options: [
+          {
+            name: 'name',
+            description: 'Collection name',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+          {
+            name: 'dye',
+            description: 'Dye to remove',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+        ],
+      },
+      {
+        name: 'show',
+        description: 'Show the dyes in a collection',
+        options: [
+          {
+            name: 'name',
+            description: 'Collection to show',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+        ],
+      },
+      { name: 'list', description: 'List your collections' },
+      {
+        name: 'rename',
+        description: 'Rename a collection',
+        options: [
+          {
+            name: 'name',
+            description: 'Collection to rename',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+          {
+            name: 'new_name',
+            description: 'New name (max 50 characters)',
+            type: 'string',
+            required: true,
+            maxLength: 50,
+          },
+        ],
+      },
+      {
+        name: 'share',
+        description: 'Get a code others can use to copy a collection',
+        options: [
+          {
+            name: 'name',
+            description: 'Collection to share',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+        ],
+      },
+      {
+        name: 'import',
+        description: 'Copy a shared collection into your collections',
+        options: [
+          {
+            name: 'code',
+            description: 'Share code from /collection share',
+            type: 'string',
+            required: true,
+          },
+          {
+            name: 'name',
+            description: 'Name for your copy (default: the original name)',
+            type: 'string',
+            maxLength: 50,
+          },
+        ],
+      },
+      {
+        name: 'publish',
+        description: 'Submit a collection of 2-5 dyes as a community preset',
+        options: [
+          {
+            name: 'name',
+            description: 'Collection to publish',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+          {
+            name: 'category',
+            description: 'Preset category',
+            type: 'string',
+            required: true,
+            choices: PRESET_CATEGORY_CHOICES,
+          },
+          {
+            name: 'description',
+            description: "Preset description, 10-200 characters (default: the collection's)",
+            type: 'string',
+          },
+          { name: 'tags', description: 'Comma-separated tags (optional, max 10)', type: 'string' },
+        ],
+      },
+    ],
+  },
+
+  // =========================================================================
+  // Community Presets
+  // =========================================================================
+  {
+    name: 'preset',
+    description: 'Browse, submit, and vote on community color presets',
+    subcommands: [
+      {
+        name: 'list',
+        description: 'Browse community presets',
+        options: [
+          {
+            name: 'category',
+            description: 'Filter by category',
+            type: 'string',
+            choices: PRESET_CATEGORY_CHOICES,
+          },
+          {
+            name: 'sort',
+            description: 'Sort order',
+            type: 'string',
+            choices: [
+              { name: '⭐ Most Popular', value: 'popular' },
+              { name: '🕐 Most Recent', value: 'recent' },
+              { name: '🔤 Alphabetical', value: 'name' },
+            ],
+          },
+        ],
+      },
+      {
+        name: 'show',
+        description: 'Display a specific preset',
+        options: [
+          {
+            name: 'name',
+            description: 'Preset name',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+        ],
+      },
+      {
+        name: 'random',
+        description: 'Get a random preset for inspiration',
+        options: [
+          {
+            name: 'category',
+            description: 'Filter by category',
+            type: 'string',
+            choices: PRESET_CATEGORY_CHOICES,
+          },
+        ],
+      },
+      {
+        name: 'submit',
+        description: 'Submit a new community preset',
+        options: [
+          {
+            name: 'preset_name',
+            description: 'Name for your preset (2-50 characters)',
+            type: 'string',
+            required: true,
+          },
+          {
+            name: 'description',
+            description: 'Describe your preset (10-200 characters)',
+            type: 'string',
+            required: true,
+          },
+          {
+            name: 'category',
+            description: 'Preset category',
+            type: 'string',
+            required: true,
+            choices: PRESET_CATEGORY_CHOICES,
+          },
+          {
+            name: 'dye1',
+            description: 'First dye (required)',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+          {
+            name: 'dye2',
+            description: 'Second dye (required)',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+          { name: 'dye3', description: 'Third dye (optional)', type: 'string', autocomplete: true },
+          {
+            name: 'dye4',
+            description: 'Fourth dye (optional)',
+            type: 'string',
+            autocomplete: true,
+          },
+          { name: 'dye5', description: 'Fifth dye (optional)', type: 'string', autocomplete: true },
+          { name: 'tags', description: 'Comma-separated tags (optional, max 10)', type: 'string' },
+        ],
+      },
+      {
+        name: 'vote',
+        description: 'Toggle your vote on a preset',
+        options: [
+          {
+            name: 'preset',
+            description: 'Preset to vote on',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+        ],
+      },
+      {
+        name: 'edit',
+        description: 'Edit one of your presets',
+        options: [
+          {
+            name: 'preset',
+            description: 'The preset to edit',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+          { name: 'name', description: 'New preset name (2-50 characters)', type: 'string' },
+          {
+            name: 'description',
+            description: 'New description (10-200 characters)',
+            type: 'string',
+          },
+          { name: 'tags', description: 'New tags (comma-separated)', type: 'string' },
+          { name: 'dye1', description: 'First dye', type: 'string', autocomplete: true },
+          { name: 'dye2', description: 'Second dye', type: 'string', autocomplete: true },
+          { name: 'dye3', description: 'Third dye', type: 'string', autocomplete: true },
+          { name: 'dye4', description: 'Fourth dye', type: 'string', autocomplete: true },
+          { name: 'dye5', description: 'Fifth dye', type: 'string', autocomplete: true },
+        ],
+      },
+      {
+        name: 'favorite',
+        description: 'Manage your favorite community presets',
+        subcommands: [
+          {
+            name: 'add',
+            description: 'Add a preset to your favorites',
+            options: [
+              {
+                name: 'preset_name',
+                description: 'Preset to favorite',
+                type: 'string',
+                required: true,
+                autocomplete: true,
+              },
+            ],
+          },
+          {
+            name: 'remove',
+            description: 'Remove a preset from your favorites',
+            options: [
+              {
+                name: 'preset_name',
+                description: 'Preset to unfavorite',
+                type: 'string',
+                required: true,
+                autocomplete: true,
+              },
+            ],
+          },
+          { name: 'list', description: 'List your favorited presets' },
+        ],
+      },
+      // Note: moderate, ban_user, and unban_user are now handled by
+      // xivdyetools-moderation-worker (separate bot application)
+    ],
+  },
+
+  // =========================================================================
+  // Budget/Market Integration
+  // =========================================================================
+  {
+    name: 'budget',
+    description: 'Find affordable dye alternatives using market board prices',
+    subcommands: [
+      {
+        name: 'find',
+        description: 'Find cheaper alternatives to an expensive dye',
+        options: [
+          {
+            name: 'target_dye',
+            description: 'The expensive dye you want alternatives for',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+          PRICE_WORLD_OPTION,
+          {
+            name: 'max_price',
+            description: 'Maximum price in gil (default: no limit)',
+            type: 'integer',
+            min: 100,
+            max: 10000000,
+          },
+          {
+            name: 'max_distance',
+            description: 'Maximum color distance (0-100, default: 50)',
+            type: 'integer',
+            min: 0,
+            max: 100,
+          },
+          {
+            name: 'sort_by',
+            description: 'How to sort results',
+            type: 'string',
+            choices: [
+              { name: '💰 Lowest Price', value: 'price' },
+              { name: '🎨 Best Color Match', value: 'color_match' },
+              { name: '⚖️ Best Value (Recommended)', value: 'value_score' },
+            ],
+          },
+          {
+            name: 'max_results',
+            description: 'Maximum number of alternatives to show (1-20)',
+            type: 'integer',
+            min: 1,
+            max: 20,
+          },
+        ],
+      },
+      {
+        name: 'set_world',
+        description: 'Save your preferred world/datacenter for price lookups',
+        options: [
+          {
+            name: 'world',
+            description: 'World or datacenter name',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+        ],
+      },
+      {
+        name: 'quick',
+        description: 'Quick budget check for popular expensive dyes',
+        options: [
+          {
+            name: 'preset',
+            description: 'Popular expensive dye to find alternatives for',
+            type: 'string',
+            required: true,
+            choices: [
+              { name: '⚪ Pure White', value: 'pure_white' },
+              { name: '⚫ Jet Black', value: 'jet_black' },
+              { name: '🪙 Metallic Silver', value: 'metallic_silver' },
+              { name: '🥇 Metallic Gold', value: 'metallic_gold' },
+              { name: '🌸 Pastel Pink', value: 'pastel_pink' },
+            ],
+          },
+          PRICE_WORLD_OPTION,
+        ],
+      },
+    ],
+  },
+
+  {
+    name: 'alert',
+    description: 'Get a DM when a dye drops below your price on the market board',
+    subcommands: [
+      {
+        name: 'add',
+        description: 'Watch a dye and get a DM when it is listed at or below your price',
+        options: [
+          {
+            name: 'dye',
+            description: 'The dye to watch',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+          {
+            name: 'max_price',
+            description: 'Alert when the lowest listing is at or below this price (gil)',
+            type: 'integer',
+            required: true,
+            min: 1,
+            max: 100000000,
+          },
+          {
+            name: 'world',
+            description: 'World or datacenter to watch (uses saved preference if not set)',
+            type: 'string',
+            autocomplete: true,
+          },
+        ],
+      },
+      { name: 'list', description: 'Show your price alerts' },
+      {
+        name: 'remove',
+        description: 'Stop one price alert',
+        options: [
+          {
+            name: 'alert',
+            description: 'The alert to remove',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+        ],
+      },
+      { name: 'clear', description: 'Stop all of your price alerts' },
+    ],
+  },
+
+  {
+    name: 'glamour',
+    description: 'Plan a dual-dye outfit slot by slot and see what it costs',
+    subcommands: [
+      {
+        name: 'set',
+        description: 'Dye a gear slot (replaces both channels)',
+        options: [
+          {
+            name: 'slot',
+            description: 'The gear slot to dye',
+            type: 'string',
+            required: true,
+            choices: GEAR_SLOT_CHOICES,
+          },
+          {
+            name: 'primary',
+            description: 'Dye for the primary channel',
+            type: 'string',
+            required: true,
+            autocomplete: true,
+          },
+          {
+            name: 'secondary',
+            description: 'Dye for the secondary channel (leave empty for undyed)',
+            type: 'string',
+            autocomplete: true,
+          },
+        ],
+      },
+      {
+        name: 'show',
+        description: 'Show your glamour plan with market prices',
+        options: [
+          PRICE_WORLD_OPTION,
+        ],
+      },
+      {
+        name: 'harmonize',
+        description: 'Suggest secondary dyes that harmonize with each primary',
+        options: [
+          {
+            name: 'type',
+            description: 'Harmony type (default: complementary)',
+            type: 'string',
+            choices: [
+              { name: 'Complementary (opposite colors)', value: 'complementary' },
+              { name: 'Analogous (adjacent colors)', value: 'analogous' },
+              { name: 'Triadic (3 evenly spaced)', value: 'triadic' },
+              { name: 'Split-Complementary', value: 'split-complementary' },
+              { name: 'Tetradic (4 colors)', value: 'tetradic' },
+              { name: 'Square (4 evenly spaced)', value: 'square' },
+              { name: 'Monochromatic (shades)', value: 'monochromatic' },
+            ],
+          },
+          {
+            name: 'apply',
+            description: 'Save the suggestions as your secondary dyes',
+            type: 'boolean',
+          },
+          PRICE_WORLD_OPTION,
+        ],
+      },
+      {
+        name: 'clear',
+        description: 'Clear one slot, or your whole plan',
+        options: [
+          {
+            name: 'slot',
+            description: 'The slot to clear (clears everything if not set)',
+            type: 'string',
+            choices: GEAR_SLOT_CHOICES,
+          },
+        ],
+      },
+    ],
+  },
+
+  {
+    name: 'glamourer-import',
+    description: 'See the dyes (and their prices) in a Glamourer or Mare design string',
+    options: [
+      {
+        name: 'design',
+        description: 'Design string from Glamourer\'s "Copy to Clipboard"',
+        type: 'string',
+        required: true,
+        maxLength: 6000,
+      },
+      PRICE_WORLD_OPTION,
+    ],
+  },
+
+  // =========================================================================
+  // Context Menu (right-click a message → Apps)
+  // =========================================================================
+  { kind: 'message', name: 'Match dyes in this image' },
+]);
@@ -0,0 +1,322 @@
+/**
+ * Tests for /server-settings command handler
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleServerSettingsCommand, handleServerSettingsAutocomplete } from './server-settings.js';
+import type { DiscordInteraction, Env, InteractionResponseBody } from '../../types/env.js';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+const mockValidateWorld = vi.fn();
+const mockIsUniversalisEnabled = vi.fn();
+vi.mock('../../services/budget/index.js', () => ({
+    isUniversalisEnabled: (...args: unknown[]) => mockIsUniversalisEnabled(...args),
+    validateWorld: (...args: unknown[]) => mockValidateWorld(...args),
+    getWorldAutocomplete: vi.fn(async () => [{ name: 'Cactuar', value: 'Cactuar' }]),
+}));
+
+vi.mock('../../services/bot-i18n.js', () => ({
+    createUserTranslator: vi.fn(async () => ({
+        t: (key: string, vars?: Record<string, unknown>) => (vars ? `${key} ${JSON.stringify(vars)}` : key),
+        getLocale: () => 'en',
+    })),
+}));
+
+vi.mock('./match-image-message.js', () => ({
+    MATCH_IMAGE_MESSAGE_COMMAND: 'Match dyes in this image',
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+const GUILD_KEY = 'guild-prefs:v1:guild-1';
+const MANAGE_GUILD = '32';
+
+function createMockKV() {
+    const store = new Map<string, string>();
+    return {
+        get: vi.fn(async (key: string) => store.get(key) ?? null),
+        put: vi.fn(async (key: string, value: string) => {
+            store.set(key, value);
+        }),
+        delete: vi.fn(async (key: string) => {
+            store.delete(key);
+        }),
+        _store: store,
+    } as unknown as KVNamespace & { _store: Map<string, string> };
+}
+
+let kv: ReturnType<typeof createMockKV>;
+let env: Env;
+const ctx = { waitUntil: vi.fn() } as unknown as ExecutionContext;
+
+function interactionWith(
+    subcommand: string,
+    options: Array<Record<string, unknown>> = [],
+    overrides: Partial<DiscordInteraction> = {}
+): DiscordInteraction {
+    return {
+        id: 'interaction-1',
+        application_id: 'app-id',
+        type: 2,
+        token: 'test-token',
+        guild_id: 'guild-1',
+        member: { user: { id: 'admin-1' }, permissions: MANAGE_GUILD },
+        data: { name: 'server-settings', options: [{ name: subcommand, type: 1, options }] },
+        ...overrides,
+    } as DiscordInteraction;
+}
+
+async function bodyOf(response: Response): Promise<InteractionResponseBody> {
+    return (await response.json()) as InteractionResponseBody;
+}
+
+function stored(): Record<string, unknown> | null {
+    const raw = kv._store.get(GUILD_KEY);
+    return raw ? JSON.parse(raw) : null;
+}
+
+describe('server-settings.ts', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        kv = createMockKV();
+        env = { KV: kv, DISCORD_CLIENT_ID: 'app-id' } as unknown as Env;
+        mockIsUniversalisEnabled.mockReturnValue(true);
+        mockValidateWorld.mockImplementation(async (_env: Env, world: string) =>
+            world.toLowerCase() === 'cactuar' ? 'Cactuar' : null
+        );
+    });
+
+    describe('access checks', () => {
+        it('should reject use outside a server', async () => {
+            const response = await handleServerSettingsCommand(
+                interactionWith('show', [], { guild_id: undefined, member: undefined, user: { id: 'u', username: 'u' } } as never),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(body.data?.flags).toBe(64);
+            expect(body.data?.embeds?.[0].description).toBe('serverSettings.errors.guildOnly');
+        });
+
+        it('should reject members without Manage Server', async () => {
+            const response = await handleServerSettingsCommand(
+                interactionWith('set', [{ name: 'ephemeral', value: true }], {
+                    member: { user: { id: 'member-1' }, permissions: '2048' },
+                } as never),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(body.data?.embeds?.[0].description).toBe('serverSettings.errors.noPermission');
+            expect(kv.put).not.toHaveBeenCalled();
+        });
+
+        it('should accept administrators', async () => {
+            const response = await handleServerSettingsCommand(
+                interactionWith('show', [], { member: { user: { id: 'admin-1' }, permissions: '8' } } as never),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(body.data?.embeds?.[0].title).toContain('serverSettings.title');
+        });
+    });
+
+    describe('set', () => {
+        it('should save validated values', async () => {
+            const response = await handleServerSettingsCommand(
+                interactionWith('set', [
+                    { name: 'language', value: 'fr' },
+                    { name: 'world', value: 'cactuar' },
+                    { name: 'matching', value: 'ciede2000' },
+                    { name: 'ephemeral', value: true },
+                ]),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(body.data?.flags).toBe(64);
+            expect(stored()).toMatchObject({
+                language: 'fr',
+                world: 'Cactuar',
+                matching: 'ciede2000',
+                ephemeral: true,
+                updatedBy: 'admin-1',
+            });
+        });
+
+        it('should reject an unknown world', async () => {
+            const response = await handleServerSettingsCommand(
+                interactionWith('set', [{ name: 'world', value: 'Nowhere' }]),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(body.data?.embeds?.[0].description).toContain('budget.errors.worldNotFound');
+            expect(stored()).toBeNull();
+        });
+
+        it('should store the world as typed when Universalis is disabled', async () => {
+            mockIsUniversalisEnabled.mockReturnValue(false);
+
+            await handleServerSettingsCommand(interactionWith('set', [{ name: 'world', value: ' Aether ' }]), env, ctx);
+
+            expect(mockValidateWorld).not.toHaveBeenCalled();
+            expect(stored()).toMatchObject({ world: 'Aether' });
+        });
+
+        it('should reject an invalid matching method', async () => {
+            const response = await handleServerSettingsCommand(
+                interactionWith('set', [{ name: 'matching', value: 'nope' }]),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(body.data?.embeds?.[0].description).toBe('preferences.validation.invalidMatchingMethod');
+        });
+
+        it('should require at least one option', async () => {
+            const response = await handleServerSettingsCommand(interactionWith('set'), env, ctx);
+            const body = await bodyOf(response);
+
+            expect(body.data?.embeds?.[0].description).toBe('serverSettings.set.noOptions');
+        });
+    });
+
+    describe('disable / enable', () => {
+        it('should disable a command', async () => {
+            const response = await handleServerSettingsCommand(
+                interactionWith('disable', [{ name: 'command', value: '/Budget' }]),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(body.data?.content).toContain('serverSettings.disable.success');
+            expect(body.data?.content).toContain('/budget');
+            expect(stored()).toMatchObject({ disabledCommands: ['budget'] });
+        });
+
+        it('should not disable a command twice', async () => {
+            kv._store.set(GUILD_KEY, JSON.stringify({ disabledCommands: ['budget'] }));
+
+            const response = await handleServerSettingsCommand(
+                interactionWith('disable', [{ name: 'command', value: 'budget' }]),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(body.data?.content).toContain('serverSettings.disable.already');
+            expect(kv.put).not.toHaveBeenCalled();
+        });
+
+        it('should not allow disabling /server-settings', async () => {
+            const response = await handleServerSettingsCommand(
+                interactionWith('disable', [{ name: 'command', value: 'server-settings' }]),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(body.data?.embeds?.[0].description).toContain('serverSettings.errors.unknownCommand');
+        });
+
+        it('should re-enable a disabled command', async () => {
+            kv._store.set(GUILD_KEY, JSON.stringify({ disabledCommands: ['budget', 'stats'] }));
+
+            const response = await handleServerSettingsCommand(
+                interactionWith('enable', [{ name: 'command', value: 'budget' }]),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(body.data?.content).toContain('serverSettings.enable.success');
+            expect(stored()).toMatchObject({ disabledCommands: ['stats'] });
+        });
+
+        it('should report commands that are not disabled', async () => {
+            const response = await handleServerSettingsCommand(
+                interactionWith('enable', [{ name: 'command', value: 'dye' }]),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(body.data?.content).toContain('serverSettings.enable.notDisabled');
+        });
+    });
+
+    describe('reset', () => {
+        it('should reset a single setting', async () => {
+            kv._store.set(GUILD_KEY, JSON.stringify({ language: 'de', ephemeral: true }));
+
+            const response = await handleServerSettingsCommand(
+                interactionWith('reset', [{ name: 'key', value: 'language' }]),
+                env,
+                ctx
+            );
+            const body = await bodyOf(response);
+
+            expect(body.data?.content).toContain('serverSettings.reset.single');
+            expect(stored()).toMatchObject({ ephemeral: true });
+            expect(stored()?.language).toBeUndefined();
+        });
+
+        it('should reset everything without a key', async () => {
+            kv._store.set(GUILD_KEY, JSON.stringify({ language: 'de', ephemeral: true }));
+
+            const response = await handleServerSettingsCommand(interactionWith('reset'), env, ctx);
+            const body = await bodyOf(response);
+
+            expect(body.data?.content).toBe('serverSettings.reset.all');
+            expect(stored()).toBeNull();
+        });
+    });
+
+    describe('show', () => {
+        it('should list disabled commands', async () => {
+            kv._store.set(GUILD_KEY, JSON.stringify({ disabledCommands: ['stats', 'Match dyes in this image'] }));
+
+            const response = await handleServerSettingsCommand(interactionWith('show'), env, ctx);
+            const body = await bodyOf(response);
+            const disabledField = body.data?.embeds?.[0].fields?.find((f) => f.name.includes('disabledCommands'));
+
+            expect(disabledField?.value).toBe('`/stats`, `Match dyes in this image`');
+        });
+    });
+
+    describe('autocomplete', () => {
+        it('should suggest toggleable commands', async () => {
+            const interaction = interactionWith('disable', [{ name: 'command', value: 'gla', focused: true }]);
+            const body = await bodyOf(await handleServerSettingsAutocomplete(interaction, env));
+
+            expect(body.data?.choices?.map((c) => c.value)).toEqual(['glamour', 'glamourer-import']);
+        });
+
+        it('should only suggest disabled commands when enabling', async () => {
+            kv._store.set(GUILD_KEY, JSON.stringify({ disabledCommands: ['stats'] }));
+
+            const interaction = interactionWith('enable', [{ name: 'command', value: '', focused: true }]);
+            const body = await bodyOf(await handleServerSettingsAutocomplete(interaction, env));
+
+            expect(body.data?.choices).toEqual([{ name: '/stats', value: 'stats' }]);
+        });
+
+        it('should suggest worlds', async () => {
+            const interaction = interactionWith('set', [{ name: 'world', value: 'cac', focused: true }]);
+            const body = await bodyOf(await handleServerSettingsAutocomplete(interaction, env));
+
+            expect(body.data?.choices).toEqual([{ name: 'Cactuar', value: 'Cactuar' }]);
+        });
+    });
+});
@@ -0,0 +1,389 @@
+/**
+ * /server-settings Command Handler
+ *
+ * Server-level defaults for administrators (Manage Server permission).
+ * Members' own /preferences and command options still take precedence:
+ * Command parameter → User preference → Guild preference → System default
+ *
+ * Subcommands:
+ * - show: Display the server's settings
+ * - set: Set default language / world / matching method / private replies
+ * - disable: Disable a command in this server
+ * - enable: Re-enable a disabled command
+ * - reset: Reset one setting, or all of them
+ *
+ * All replies are ephemeral.
+ *
+ * @module handlers/commands/server-settings
+ */
+
+import type { ExtendedLogger } from '@xivdyetools/logger';
+import { ephemeralResponse, errorEmbed } from '../../utils/response.js';
+import {
+  getGuildSettings,
+  updateGuildSettings,
+  resetGuildSetting,
+  canManageGuild,
+} from '../../services/guild-settings.js';
+import { isValidLocale, formatLocaleDisplay } from '../../services/i18n.js';
+import { isUniversalisEnabled, validateWorld, getWorldAutocomplete } from '../../services/budget/index.js';
+import { createUserTranslator, type Translator } from '../../services/bot-i18n.js';
+import { MATCHING_METHODS, isValidMatchingMethod } from '../../types/preferences.js';
+import {
+  GUILD_TOGGLEABLE_COMMANDS,
+  type GuildSettings,
+  type GuildSettingKey,
+} from '../../types/guild-settings.js';
+import { MATCH_IMAGE_MESSAGE_COMMAND } from './match-image-message.js';
+import type { Env, DiscordInteraction } from '../../types/env.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Embed color for settings display (Discord blurple) */
+const SETTINGS_COLOR = 0x5865f2;
+
+/** Setting display order */
+const SETTING_ORDER: GuildSettingKey[] = ['language', 'world', 'matching', 'ephemeral', 'disabledCommands'];
+
+/** Emojis for each setting */
+const SETTING_EMOJIS: Record<GuildSettingKey, string> = {
+  language: '🌐',
+  world: '🌍',
+  matching: '🔍',
+  ephemeral: '🔒',
+  disabledCommands: '🚫',
+};
+
+/** Discord option names → setting keys (option names must be lowercase) */
+const OPTION_NAME_TO_KEY: Record<string, GuildSettingKey> = {
+  language: 'language',
+  world: 'world',
+  matching: 'matching',
+  ephemeral: 'ephemeral',
+  disabled_commands: 'disabledCommands',
+};
+
+type SubcommandOptions = Array<{ name: string; value?: string | number | boolean }>;
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Handles the /server-settings command
+ */
+export async function handleServerSettingsCommand(
+  interaction: DiscordInteraction,
+  env: Env,
+  _ctx: ExecutionContext,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const userId = interaction.member?.user?.id ?? interaction.user?.id ?? 'unknown';
+  const guildId = interaction.guild_id;
+  const t = await createUserTranslator(env.KV, userId, interaction.locale, logger, guildId);
+
+  if (!guildId) {
+    return errorResponse(t, t.t('serverSettings.errors.guildOnly'));
+  }
+
+  // default_member_permissions hides the command from members, but server
+  // owners can override that in Integrations — always re-check here
+  if (!canManageGuild(interaction.member?.permissions)) {
+    return errorResponse(t, t.t('serverSettings.errors.noPermission'));
+  }
+
+  const subcommandOption = interaction.data?.options?.[0];
+  const options: SubcommandOptions = subcommandOption?.options || [];
+
+  switch (subcommandOption?.name) {
+    case 'show':
+      return handleShowSubcommand(env, guildId, t, logger);
+
+    case 'set':
+      return handleSetSubcommand(env, guildId, userId, options, t, logger);
+
+    case 'disable':
+      return handleToggleSubcommand(env, guildId, userId, options, true, t, logger);
+
+    case 'enable':
+      return handleToggleSubcommand(env, guildId, userId, options, false, t, logger);
+
+    case 'reset':
+      return handleResetSubcommand(env, guildId, userId, options, t, logger);
+
+    default:
+      return errorResponse(t, t.t('errors.missingSubcommand'));
+  }
+}
+
+// ============================================================================
+// Subcommands
+// ============================================================================
+
+/**
+ * Handles /server-settings show
+ */
+async function handleShowSubcommand(
+  env: Env,
+  guildId: string,
+  t: Translator,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const settings = await getGuildSettings(env.KV, guildId, logger);
+
+  const fields = SETTING_ORDER.map((key) => ({
+    name: `${SETTING_EMOJIS[key]} ${t.t(`serverSettings.keys.${key}`)}`,
+    value: formatSettingValue(key, settings, t),
+    inline: key !== 'disabledCommands',
+  }));
+
+  return ephemeralResponse({
+    embeds: [
+      {
+        title: `🛠️ ${t.t('serverSettings.title')}`,
+        description: t.t('serverSettings.show.description'),
+        color: SETTINGS_COLOR,
+        fields,
+        footer: { text: t.t('serverSettings.show.hint') },
+      },
+    ],
+  });
+}
+
+/**
+ * Handles /server-settings set [language] [world] [matching] [ephemeral]
+ */
+async function handleSetSubcommand(
+  env: Env,
+  guildId: string,
+  userId: string,
+  options: SubcommandOptions,
+  t: Translator,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const updates: Partial<GuildSettings> = {};
+
+  for (const opt of options) {
+    const value = opt.value;
+    switch (opt.name) {
+      case 'language':
+        if (typeof value !== 'string' || !isValidLocale(value)) {
+          return errorResponse(t, t.t('preferences.validation.invalidLanguage'));
+        }
+        updates.language = value;
+        break;
+
+      case 'world': {
+        if (typeof value !== 'string' || value.trim().length === 0) {
+          return errorResponse(t, t.t('preferences.validation.invalidWorld'));
+        }
+        // Without Universalis we can't check the name, so store it as typed
+        if (isUniversalisEnabled(env)) {
+          const world = await validateWorld(env, value, logger);
+          if (!world) {
+            return errorResponse(t, t.t('budget.errors.worldNotFound', { world: value }));
+          }
+          updates.world = world;
+        } else {
+          updates.world = value.trim();
+        }
+        break;
+      }
+
+      case 'matching':
+        if (typeof value !== 'string' || !isValidMatchingMethod(value)) {
+          return errorResponse(t, t.t('preferences.validation.invalidMatchingMethod'));
+        }
+        updates.matching = value;
+        break;
+
+      case 'ephemeral':
+        updates.ephemeral = value === true;
+        break;
+    }
+  }
+
+  const changedKeys = Object.keys(updates) as GuildSettingKey[];
+  if (changedKeys.length === 0) {
+    return errorResponse(t, t.t('serverSettings.set.noOptions'));
+  }
+
+  const saved = await updateGuildSettings(env.KV, guildId, updates, userId, logger);
+  if (!saved) {
+    return errorResponse(t, t.t('serverSettings.errors.saveFailed'));
+  }
+
+  const lines = changedKeys.map(
+    (key) =>
+      `${SETTING_EMOJIS[key]} **${t.t(`serverSettings.keys.${key}`)}** → **${formatSettingValue(key, saved, t)}**`
+  );
+
+  return ephemeralResponse({
+    embeds: [
+      {
+        title: `✅ ${t.t('serverSettings.set.success')}`,
+        description: lines.join('\n'),
+        color: 0x57f287, // Green
+        footer: { text: t.t('serverSettings.show.description') },
+      },
+    ],
+  });
+}
+
+/**
+ * Handles /server-settings disable <command> and /server-settings enable <command>
+ */
+async function handleToggleSubcommand(
+  env: Env,
+  guildId: string,
+  userId: string,
+  options: SubcommandOptions,
+  disable: boolean,
+  t: Translator,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const commandInput = String(options.find((opt) => opt.name === 'command')?.value ?? '').trim();
+  const commandName = GUILD_TOGGLEABLE_COMMANDS.find(
+    (name) => name.toLowerCase() === commandInput.replace(/^\//, '').toLowerCase()
+  );
+
+  if (!commandName) {
+    return errorResponse(t, t.t('serverSettings.errors.unknownCommand', { command: commandInput }));
+  }
+
+  const command = formatCommandName(commandName);
+  const settings = await getGuildSettings(env.KV, guildId, logger);
+  const disabled = settings.disabledCommands ?? [];
+  const isDisabled = disabled.includes(commandName);
+
+  if (disable && isDisabled) {
+    return ephemeralResponse(t.t('serverSettings.disable.already', { command }));
+  }
+  if (!disable && !isDisabled) {
+    return ephemeralResponse(t.t('serverSettings.enable.notDisabled', { command }));
+  }
+
+  const disabledCommands = disable ? [...disabled, commandName] : disabled.filter((name) => name !== commandName);
+  const saved = await updateGuildSettings(env.KV, guildId, { disabledCommands }, userId, logger);
+  if (!saved) {
+    return errorResponse(t, t.t('serverSettings.errors.saveFailed'));
+  }
+
+  return ephemeralResponse(
+    t.t(disable ? 'serverSettings.disable.success' : 'serverSettings.enable.success', { command })
+  );
+}
+
+/**
+ * Handles /server-settings reset [key]
+ */
+async function handleResetSubcommand(
+  env: Env,
+  guildId: string,
+  userId: string,
+  options: SubcommandOptions,
+  t: Translator,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const rawKey = options.find((opt) => opt.name === 'key')?.value as string | undefined;
+  const key = rawKey ? OPTION_NAME_TO_KEY[rawKey] : undefined;
+
+  if (rawKey && !key) {
+    return errorResponse(t, t.t('preferences.errors.invalidKey', { key: rawKey }));
+  }
+
+  const success = await resetGuildSetting(env.KV, guildId, userId, key, logger);
+  if (!success) {
+    return errorResponse(t, t.t('serverSettings.errors.saveFailed'));
+  }
+
+  return ephemeralResponse(
+    key
+      ? t.t('serverSettings.reset.single', { key: t.t(`serverSettings.keys.${key}`) })
+      : t.t('serverSettings.reset.all')
+  );
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function errorResponse(t: Translator, message: string): Response {
+  return ephemeralResponse({ embeds: [errorEmbed(t.t('common.error'), message)] });
+}
+
+/**
+ * Slash commands get a leading "/"; the message command keeps its menu label
+ */
+export function formatCommandName(commandName: string): string {
+  return commandName === MATCH_IMAGE_MESSAGE_COMMAND ? commandName : `/${commandName}`;
+}
+
+/**
+ * Format one setting for display
+ */
+function formatSettingValue(key: GuildSettingKey, settings: GuildSettings, t: Translator): string {
+  const notSet = `*${t.t('serverSettings.show.notSet')}*`;
+
+  switch (key) {
+    case 'language':
+      return settings.language ? formatLocaleDisplay(settings.language) : notSet;
+
+    case 'world':
+      return settings.world ?? notSet;
+
+    case 'matching': {
+      const method = MATCHING_METHODS.find((m) => m.value === settings.matching);
+      return method ? method.name : notSet;
+    }
+
+    case 'ephemeral':
+      return settings.ephemeral ? t.t('serverSettings.values.on') : t.t('serverSettings.values.off');
+
+    case 'disabledCommands':
+      return settings.disabledCommands && settings.disabledCommands.length > 0
+        ? settings.disabledCommands.map((name) => `\`${formatCommandName(name)}\``).join(', ')
+        : `*${t.t('serverSettings.show.none')}*`;
+  }
+}
+
+// ============================================================================
+// Autocomplete Handler
+// ============================================================================
+
+/**
+ * Handles autocomplete for /server-settings set world and disable/enable command
+ */
+export async function handleServerSettingsAutocomplete(
+  interaction: DiscordInteraction,
+  env: Env,
+  logger?: ExtendedLogger
+): Promise<Response> {
+  const subcommand = interaction.data?.options?.[0];
+  const focusedOption = subcommand?.options?.find((opt) => opt.focused === true);
+  const query = String(focusedOption?.value || '').toLowerCase();
+
+  let choices: Array<{ name: string; value: string }> = [];
+
+  if (focusedOption?.name === 'world') {
+    choices = await getWorldAutocomplete(env, query, logger);
+  } else if (focusedOption?.name === 'command') {
+    let candidates = GUILD_TOGGLEABLE_COMMANDS;
+    // Only offer commands that can actually be re-enabled
+    if (subcommand?.name === 'enable') {
+      const settings = await getGuildSettings(env.KV, interaction.guild_id, logger);
+      candidates = settings.disabledCommands ?? [];
+    }
+    choices = candidates
+      .filter((name) => name.toLowerCase().includes(query.replace(/^\//, '')))
+      .slice(0, 25)
+      .map((name) => ({ name: formatCommandName(name), value: name }));
+  }
+
+  return Response.json({
+    type: 8, // APPLICATION_COMMAND_AUTOCOMPLETE_RESULT
+    data: { choices },
+  });
+}
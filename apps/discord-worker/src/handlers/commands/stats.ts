@@ -69,7 +69,7 @@ export async function handleStatsCommand(
   logger?: ExtendedLogger
 ): Promise<Response> {
   const userId = interaction.member?.user?.id ?? interaction.user?.id ?? 'unknown';
-  const t = await createUserTranslator(env.KV, userId, interaction.locale);
+  const t = await createUserTranslator(env.KV, userId, interaction.locale, logger, interaction.guild_id);
 
   // Get subcommand from options
   const options = interaction.data?.options || [];
@@ -26,7 +26,7 @@ import {
 } from '../../utils/response.js';
 import { getDyeEmoji } from '../../services/emoji.js';
 import {
-  getUserPreferences,
+  getEffectivePreferences,
   resolveMatchingMethod,
   resolveCount,
 } from '../../services/preferences.js';
@@ -155,7 +155,7 @@ export async function handleSwatchCommand(
   logger?: ExtendedLogger
 ): Promise<Response> {
   const userId = interaction.member?.user?.id ?? interaction.user?.id ?? 'unknown';
-  const t = await createUserTranslator(env.KV, userId, interaction.locale);
+  const t = await createUserTranslator(env.KV, userId, interaction.locale, logger, interaction.guild_id);
 
   // Get subcommand from options
   const options = interaction.data?.options || [];
@@ -173,10 +173,10 @@ export async function handleSwatchCommand(
 
   switch (subcommand) {
     case 'color':
-      return handleColorSubcommand(env, userId, subOptions, t, logger);
+      return handleColorSubcommand(env, userId, interaction.guild_id, subOptions, t, logger);
 
     case 'grid':
-      return handleGridSubcommand(env, userId, subOptions, t, logger);
+      return handleGridSubcommand(env, userId, interaction.guild_id, subOptions, t, logger);
 
     default:
       return messageResponse({
@@ -198,6 +198,7 @@ export async function handleSwatchCommand(
 async function handleColorSubcommand(
   env: Env,
   userId: string,
+  guildId: string | undefined,
   options: Array<{ name: string; value?: string | number | boolean }>,
   t: Translator,
   logger?: ExtendedLogger
@@ -248,7 +249,7 @@ async function handleColorSubcommand(
   }
 
   // Get user preferences
-  const prefs = await getUserPreferences(env.KV, userId, logger);
+  const prefs = await getEffectivePreferences(env.KV, userId, guildId, logger);
   const matchingMethod = resolveMatchingMethod(explicitMatching, prefs);
   const count = resolveCount(explicitCount, prefs);
 
@@ -315,6 +316,7 @@ async function handleColorSubcommand(
 async function handleGridSubcommand(
   env: Env,
   userId: string,
+  guildId: string | undefined,
   options: Array<{ name: string; value?: string | number | boolean }>,
   t: Translator,
   logger?: ExtendedLogger
@@ -393,7 +395,7 @@ async function handleGridSubcommand(
   }
 
   // Get user preferences
-  const prefs = await getUserPreferences(env.KV, userId, logger);
+  const prefs = await getEffectivePreferences(env.KV, userId, guildId, logger);
   const matchingMethod = resolveMatchingMethod(explicitMatching, prefs);
   const count = resolveCount(explicitCount, prefs);
 
@@ -0,0 +1,287 @@
+/**
+ * Tests for the scheduled Dye of the Day posts
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runDyeOfTheDayPosts, MAX_POSTS_PER_RUN } from './dye-of-the-day.js';
+import { DOTD_KEY_PREFIX, type DyeOfTheDaySubscription } from '../../services/dye-of-the-day.js';
+import type { Env } from '../../types/env.js';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+const pureWhite = { id: 1, itemID: 13114, name: 'Pure White', hex: '#F9F8F4', category: 'White' };
+
+const mockExecuteDyeOfTheDay = vi.fn();
+const mockSelectDyeOfTheDay = vi.fn((): unknown => ({ dateKey: '2026-06-01', dye: pureWhite, harmonyType: 'triadic' }));
+vi.mock('@xivdyetools/bot-logic', () => ({
+    executeDyeOfTheDay: (...args: unknown[]) => mockExecuteDyeOfTheDay(...args),
+    selectDyeOfTheDay: () => mockSelectDyeOfTheDay(),
+    getDateKey: (date: Date) => date.toISOString().slice(0, 10),
+}));
+
+vi.mock('../../services/svg/renderer.js', () => ({
+    renderSvgToPng: vi.fn(async () => new Uint8Array([1, 2, 3])),
+}));
+
+const mockGetPopularPresetWithDye = vi.fn();
+vi.mock('../../services/preset-api.js', () => ({
+    isApiEnabled: () => true,
+    getPopularPresetWithDye: (...args: unknown[]) => mockGetPopularPresetWithDye(...args),
+}));
+
+const mockFetchPricesBatched = vi.fn();
+vi.mock('../../services/budget/index.js', () => ({
+    isUniversalisEnabled: () => true,
+    fetchPricesBatched: (...args: unknown[]) => mockFetchPricesBatched(...args),
+    // Pass-through cache: always call the fetcher
+    fetchWithCache: async (
+        _world: string,
+        ids: number[],
+        fetcher: (ids: number[]) => Promise<Map<number, unknown>>
+    ) => ({ prices: await fetcher(ids) }),
+}));
+
+const mockSendMessage = vi.fn();
+vi.mock('../../utils/discord-api.js', () => ({
+    sendMessage: (...args: unknown[]) => mockSendMessage(...args),
+}));
+
+vi.mock('../../services/bot-i18n.js', () => ({
+    createTranslator: (locale: string) => ({
+        t: (key: string, vars?: Record<string, unknown>) =>
+            vars ? `${locale}:${key} ${JSON.stringify(vars)}` : `${locale}:${key}`,
+        getLocale: () => locale,
+    }),
+}));
+
+vi.mock('../../services/i18n.js', () => ({
+    initializeLocale: vi.fn(),
+    getLocalizedDyeName: (_id: number, name: string) => name,
+}));
+
+vi.mock('../../services/emoji.js', () => ({
+    getDyeEmoji: () => undefined,
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+const now = new Date('2026-06-01T16:00:00.000Z');
+
+function createMockKV(
+    subscriptions: DyeOfTheDaySubscription[],
+    guildSettings: Record<string, Record<string, unknown>> = {}
+) {
+    const store = new Map<string, string>([
+        ...subscriptions.map((sub): [string, string] => [`${DOTD_KEY_PREFIX}${sub.guildId}`, JSON.stringify(sub)]),
+        ...Object.entries(guildSettings).map(([guildId, settings]): [string, string] => [
+            `guild-prefs:v1:${guildId}`,
+            JSON.stringify(settings),
+        ]),
+    ]);
+    // Schedule metadata, as services/dye-of-the-day.ts writes it
+    const metadata = new Map<string, unknown>(
+        subscriptions.map((sub) => [
+            `${DOTD_KEY_PREFIX}${sub.guildId}`,
+            { hour: sub.hour, lastPostedDate: sub.lastPostedDate },
+        ])
+    );
+
+    return {
+        get: vi.fn(async (key: string) => store.get(key) ?? null),
+        put: vi.fn(async (key: string, value: string, options?: { metadata?: unknown }) => {
+            store.set(key, value);
+            if (options?.metadata) {
+                metadata.set(key, options.metadata);
+            }
+        }),
+        delete: vi.fn(async (key: string) => {
+            store.delete(key);
+        }),
+        list: vi.fn(async ({ prefix }: { prefix: string }) => ({
+            keys: [...store.keys()]
+                .filter((k) => k.startsWith(prefix))
+                .map((name) => ({ name, metadata: metadata.get(name) })),
+            list_complete: true,
+        })),
+        _store: store,
+    } as unknown as KVNamespace & { _store: Map<string, string> };
+}
+
+function subscription(overrides: Partial<DyeOfTheDaySubscription> = {}): DyeOfTheDaySubscription {
+    return {
+        guildId: 'g1',
+        channelId: 'c1',
+        hour: 15,
+        subscribedBy: 'admin-1',
+        subscribedAt: '2026-05-01T00:00:00.000Z',
+        ...overrides,
+    };
+}
+
+function envWith(kv: KVNamespace): Env {
+    return { KV: kv, DISCORD_TOKEN: 'bot-token' } as unknown as Env;
+}
+
+function storedSubscription(kv: ReturnType<typeof createMockKV>, guildId: string): DyeOfTheDaySubscription | null {
+    const raw = kv._store.get(`${DOTD_KEY_PREFIX}${guildId}`);
+    return raw ? (JSON.parse(raw) as DyeOfTheDaySubscription) : null;
+}
+
+describe('runDyeOfTheDayPosts', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockExecuteDyeOfTheDay.mockResolvedValue({
+            ok: true,
+            dateKey: '2026-06-01',
+            dye: pureWhite,
+            harmonyType: 'triadic',
+            localizedName: 'Pure White',
+            infoCardSvg: '<svg/>',
+            harmonySvg: '<svg/>',
+            harmonyTitle: 'Triadic Harmony',
+            harmonyDyes: [pureWhite],
+        });
+        mockGetPopularPresetWithDye.mockResolvedValue({
+            id: 'p1',
+            name: 'Snowfall',
+            author_name: 'Mira',
+            vote_count: 12,
+            dyes: [13114],
+        });
+        mockFetchPricesBatched.mockResolvedValue(new Map([[13114, { itemID: 13114, currentMinPrice: 45000 }]]));
+        // Fresh Response per call: a body can only be read once
+        mockSendMessage.mockImplementation(async () => Response.json({ id: 'message' }));
+    });
+
+    it('should post the card, harmony wheel, preset and price, then mark the day posted', async () => {
+        const kv = createMockKV([subscription()], { g1: { world: 'Cactuar' } });
+
+        const summary = await runDyeOfTheDayPosts(envWith(kv), undefined, now);
+
+        expect(summary).toMatchObject({ subscriptions: 1, due: 1, posted: 1 });
+        expect(mockSendMessage).toHaveBeenCalledWith('bot-token', 'c1', expect.anything());
+
+        const payload = mockSendMessage.mock.calls[0][2];
+        expect(payload.embeds).toHaveLength(2);
+        expect(payload.embeds[0].image.url).toBe('attachment://dye-of-the-day.png');
+        expect(payload.embeds[1].title).toBe('Triadic Harmony');
+        expect(payload.embeds[1].image.url).toBe('attachment://harmony.png');
+        expect(payload.files.map((f: { name: string }) => f.name)).toEqual(['dye-of-the-day.png', 'harmony.png']);
+
+        const fieldValues = payload.embeds[0].fields.map((f: { value: string }) => f.value);
+        expect(fieldValues).toContain('45,000 Gil');
+        expect(fieldValues.some((v: string) => v.includes('Snowfall'))).toBe(true);
+        expect(mockFetchPricesBatched).toHaveBeenCalledWith(expect.anything(), 'Cactuar', [13114], undefined);
+
+        expect(storedSubscription(kv, 'g1')?.lastPostedDate).toBe('2026-06-01');
+    });
+
+    it('should skip guilds already posted today or before their hour', async () => {
+        const kv = createMockKV([
+            subscription({ guildId: 'g1', lastPostedDate: '2026-06-01' }),
+            subscription({ guildId: 'g2', hour: 20 }),
+        ]);
+
+        const summary = await runDyeOfTheDayPosts(envWith(kv), undefined, now);
+
+        expect(summary).toMatchObject({ subscriptions: 2, due: 0, posted: 0 });
+        expect(mockExecuteDyeOfTheDay).not.toHaveBeenCalled();
+        expect(mockSendMessage).not.toHaveBeenCalled();
+        // Found from key metadata alone
+        expect(kv.get).not.toHaveBeenCalled();
+    });
+
+    it('should price consolidated dyes by their market item ID', async () => {
+        mockSelectDyeOfTheDay.mockReturnValueOnce({
+            dateKey: '2026-06-01',
+            dye: { ...pureWhite, itemID: 5740, name: 'Coral Pink', consolidationType: 'A' },
+            harmonyType: 'triadic',
+        });
+        const kv = createMockKV([subscription()], { g1: { world: 'Cactuar' } });
+        mockFetchPricesBatched.mockResolvedValue(new Map([[52254, { itemID: 52254, currentMinPrice: 216 }]]));
+
+        await runDyeOfTheDayPosts(envWith(kv), undefined, now);
+
+        expect(mockFetchPricesBatched).toHaveBeenCalledWith(expect.anything(), 'Cactuar', [52254], undefined);
+        const fieldValues = mockSendMessage.mock.calls[0][2].embeds[0].fields.map((f: { value: string }) => f.value);
+        expect(fieldValues).toContain('216 Gil');
+    });
+
+    it('should render once per language and post in each server language', async () => {
+        const kv = createMockKV(
+            [subscription({ guildId: 'g1' }), subscription({ guildId: 'g2' }), subscription({ guildId: 'g3' })],
+            { g2: { language: 'ja' }, g3: { language: 'ja' } }
+        );
+
+        await runDyeOfTheDayPosts(envWith(kv), undefined, now);
+
+        expect(mockExecuteDyeOfTheDay).toHaveBeenCalledTimes(2);
+        expect(mockSendMessage).toHaveBeenCalledTimes(3);
+        expect(mockSendMessage.mock.calls[1][2].embeds[0].title).toContain('ja:dyeOfTheDay.title');
+    });
+
+    it('should prefer the subscription world and omit the price without any world', async () => {
+        const kv = createMockKV(
+            [subscription({ guildId: 'g1', world: 'Aether' }), subscription({ guildId: 'g2' })],
+            { g1: { world: 'Cactuar' } }
+        );
+        mockGetPopularPresetWithDye.mockResolvedValue(null);
+
+        await runDyeOfTheDayPosts(envWith(kv), undefined, now);
+
+        expect(mockFetchPricesBatched).toHaveBeenCalledTimes(1);
+        expect(mockFetchPricesBatched).toHaveBeenCalledWith(expect.anything(), 'Aether', [13114], undefined);
+        expect(mockSendMessage.mock.calls[1][2].embeds[0].fields).toBeUndefined();
+    });
+
+    it('should unsubscribe channels that were deleted or lost permissions', async () => {
+        const kv = createMockKV([
+            subscription({ guildId: 'deleted', channelId: 'c-deleted' }),
+            subscription({ guildId: 'noperms', channelId: 'c-noperms' }),
+        ]);
+        mockSendMessage
+            .mockResolvedValueOnce(Response.json({ code: 10003, message: 'Unknown Channel' }, { status: 404 }))
+            .mockResolvedValueOnce(Response.json({ code: 50013, message: 'Missing Permissions' }, { status: 403 }));
+
+        const summary = await runDyeOfTheDayPosts(envWith(kv), undefined, now);
+
+        expect(summary).toMatchObject({ posted: 0, unsubscribed: 2 });
+        expect(storedSubscription(kv, 'deleted')).toBeNull();
+        expect(storedSubscription(kv, 'noperms')).toBeNull();
+    });
+
+    it('should keep the subscription for a retry on transient failures', async () => {
+        const kv = createMockKV([subscription()]);
+        mockSendMessage.mockResolvedValueOnce(Response.json({ message: 'Service Unavailable' }, { status: 503 }));
+
+        const summary = await runDyeOfTheDayPosts(envWith(kv), undefined, now);
+
+        expect(summary).toMatchObject({ posted: 0, failed: 1, unsubscribed: 0 });
+        expect(storedSubscription(kv, 'g1')?.lastPostedDate).toBeUndefined();
+    });
+
+    it('should not post when the cards fail to generate', async () => {
+        const kv = createMockKV([subscription()]);
+        mockExecuteDyeOfTheDay.mockResolvedValue({ ok: false, error: 'GENERATION_FAILED', errorMessage: 'x' });
+
+        const summary = await runDyeOfTheDayPosts(envWith(kv), undefined, now);
+
+        expect(summary).toMatchObject({ posted: 0, failed: 1 });
+        expect(mockSendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should defer posts beyond the per-run limit without reading their subscriptions', async () => {
+        const subs = Array.from({ length: MAX_POSTS_PER_RUN + 3 }, (_, i) => subscription({ guildId: `g${i}` }));
+        const kv = createMockKV(subs);
+
+        const summary = await runDyeOfTheDayPosts(envWith(kv), undefined, now);
+
+        expect(summary.posted).toBe(MAX_POSTS_PER_RUN);
+        expect(summary.deferred).toBe(3);
+        const subscriptionReads = vi
+            .mocked(kv.get)
+            .mock.calls.filter(([key]) => String(key).startsWith(DOTD_KEY_PREFIX));
+        expect(subscriptionReads).toHaveLength(MAX_POSTS_PER_RUN);
+    });
+});
@@ -0,0 +1,372 @@
+/**
+ * Scheduled Dye of the Day Posts
+ *
+ * Runs on the cron trigger: for every guild subscribed with
+ * /dye-of-the-day, posts the day's dye (info card, harmony wheel for the
+ * day's harmony type, a community preset that uses it, and its market price)
+ * once its posting hour has arrived.
+ *
+ * The dye and harmony type come from the date alone (selectDyeOfTheDay), so
+ * cards are rendered once per language and the preset is looked up once per
+ * run; prices are fetched once per world through the shared price cache.
+ *
+ * Safeguards:
+ * - Due guilds are found from the subscription keys' metadata, so only the
+ *   guilds posted to in this run are read from KV
+ * - Each guild is posted to at most once per UTC day (lastPostedDate)
+ * - At most MAX_POSTS_PER_RUN channels per run (Workers subrequest budget);
+ *   the rest stay due and go out on the next run
+ * - Channels that were deleted, or that the bot can no longer see or post
+ *   in, are unsubscribed so they aren't retried forever
+ *
+ * @module handlers/scheduled/dye-of-the-day
+ */
+
+import type { ExtendedLogger } from '@xivdyetools/logger';
+import type { CommunityPreset } from '@xivdyetools/types/preset';
+import { getMarketItemID } from '@xivdyetools/core';
+import { executeDyeOfTheDay, selectDyeOfTheDay, getDateKey } from '@xivdyetools/bot-logic';
+import { createTranslator, type LocaleCode } from '../../services/bot-i18n.js';
+import { initializeLocale, getLocalizedDyeName } from '../../services/i18n.js';
+import { getDyeEmoji } from '../../services/emoji.js';
+import { renderSvgToPng } from '../../services/svg/renderer.js';
+import { getGuildSettings } from '../../services/guild-settings.js';
+import { isApiEnabled, getPopularPresetWithDye } from '../../services/preset-api.js';
+import { isUniversalisEnabled, fetchPricesBatched, fetchWithCache } from '../../services/budget/index.js';
+import {
+  getSubscription,
+  unsubscribe,
+  markPosted,
+  listDueGuildIds,
+  isPostDue,
+  type DyeOfTheDaySubscription,
+} from '../../services/dye-of-the-day.js';
+import { sendMessage, type SendMessageOptions } from '../../utils/discord-api.js';
+import type { DiscordEmbed } from '../../utils/response.js';
+import { formatGil, type DyePriceData } from '../../types/budget.js';
+import type { Env } from '../../types/env.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Channels posted to per run; each post is one Discord subrequest, and the
+ * run shares its invocation's subrequest budget with the price alert check
+ */
+export const MAX_POSTS_PER_RUN = 10;
+
+/**
+ * Discord error codes meaning the channel is gone for good:
+ * Unknown Channel, Unknown Guild (bot removed), Missing Access, Missing Permissions
+ */
+const UNREACHABLE_CHANNEL_CODES = new Set([10003, 10004, 50001, 50013]);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Outcome of one scheduled run, logged for observability
+ */
+export interface DyeOfTheDayRunSummary {
+  subscriptions: number;
+  due: number;
+  posted: number;
+  failed: number;
+  deferred: number;
+  unsubscribed: number;
+}
+
+/** Per-run context shared by every guild's post */
+interface RunContext {
+  env: Env;
+  now: Date;
+  dateKey: string;
+  itemId: number;
+  /** Universalis item ID the dye is listed under (see `getMarketItemID`) */
+  marketItemId: number;
+  logger?: ExtendedLogger;
+  preset: CommunityPreset | null;
+  /** Rendered post per language (embeds + PNGs), or null if rendering failed */
+  posts: Map<LocaleCode, Promise<RenderedPost | null>>;
+  /** Price per world, or null if the fetch failed */
+  prices: Map<string, Promise<DyePriceData | null>>;
+}
+
+interface RenderedPost {
+  t: ReturnType<typeof createTranslator>;
+  infoCard: DiscordEmbed;
+  harmony: DiscordEmbed;
+  files: NonNullable<SendMessageOptions['files']>;
+}
+
+// ============================================================================
+// Scheduled Run
+// ============================================================================
+
+/**
+ * Post the Dye of the Day to every subscribed channel that is due
+ *
+ * @param env - Environment bindings
+ * @param logger - Optional logger for structured logging
+ * @param now - Current time (injectable for tests)
+ */
+export async function runDyeOfTheDayPosts(
+  env: Env,
+  logger?: ExtendedLogger,
+  now: Date = new Date()
+): Promise<DyeOfTheDayRunSummary> {
+  const summary: DyeOfTheDayRunSummary = {
+    subscriptions: 0,
+    due: 0,
+    posted: 0,
+    failed: 0,
+    deferred: 0,
+    unsubscribed: 0,
+  };
+
+  const dateKey = getDateKey(now);
+
+  // Step 1: Find the guilds that are due from the subscription keys' metadata
+  const scan = await listDueGuildIds(env.KV, now, dateKey);
+  summary.subscriptions = scan.subscriptions;
+  summary.due = scan.dueGuildIds.length;
+
+  if (summary.due === 0) {
+    logger?.info('Dye of the Day run complete', { ...summary });
+    return summary;
+  }
+
+  const pick = selectDyeOfTheDay(now);
+  if (!pick) {
+    logger?.error('Dye of the Day skipped: no dyes available');
+    return summary;
+  }
+
+  // Step 2: Shared lookups for the day's dye
+  const context: RunContext = {
+    env,
+    now,
+    dateKey,
+    itemId: pick.dye.itemID,
+    marketItemId: getMarketItemID(pick.dye),
+    logger,
+    preset: await findPreset(env, pick.dye.itemID, logger),
+    posts: new Map(),
+    prices: new Map(),
+  };
+
+  // Step 3: Post to each due channel, reading only the subscriptions posted to
+  for (const guildId of scan.dueGuildIds) {
+    if (summary.posted + summary.failed >= MAX_POSTS_PER_RUN) {
+      summary.deferred++;
+      continue;
+    }
+
+    // Unsubscribed since the scan, or a key without metadata that isn't due
+    const subscription = await getSubscription(env.KV, guildId, logger);
+    if (!subscription || !isPostDue(subscription, now, dateKey)) continue;
+
+    const outcome = await postToGuild(context, subscription);
+    if (outcome === 'sent') {
+      summary.posted++;
+      await markPosted(env.KV, subscription, dateKey, logger);
+    } else if (outcome === 'unreachable') {
+      summary.unsubscribed++;
+      await unsubscribe(env.KV, subscription.guildId, logger);
+    } else {
+      summary.failed++;
+    }
+  }
+
+  logger?.info('Dye of the Day run complete', { ...summary, dateKey, itemId: pick.dye.itemID });
+  return summary;
+}
+
+// ============================================================================
+// Posting
+// ============================================================================
+
+/**
+ * Post the day's dye to one guild in its server language, with its world's price
+ *
+ * @returns 'sent', 'unreachable' (channel gone or no access) or 'failed' (retry next run)
+ */
+async function postToGuild(
+  context: RunContext,
+  subscription: DyeOfTheDaySubscription
+): Promise<'sent' | 'unreachable' | 'failed'> {
+  const { env, logger } = context;
+  const { guildId, channelId } = subscription;
+
+  try {
+    const settings = await getGuildSettings(env.KV, guildId, logger);
+    const locale = settings.language ?? 'en';
+
+    const post = await memoize(context.posts, locale, () => renderPost(context, locale));
+    if (!post) return 'failed';
+
+    const { t } = post;
+    const fields: NonNullable<DiscordEmbed['fields']> = [];
+
+    const world = subscription.world ?? settings.world;
+    if (world && isUniversalisEnabled(env)) {
+      const price = await memoize(context.prices, world, () => fetchPrice(context, world));
+      fields.push({
+        name: `💰 ${t.t('dyeOfTheDay.marketPrice', { world })}`,
+        value: price ? `${formatGil(price.currentMinPrice)} Gil` : t.t('dyeOfTheDay.noPrice'),
+        inline: true,
+      });
+    }
+
+    if (context.preset) {
+      const preset = context.preset;
+      fields.push({
+        name: `📋 ${t.t('dyeOfTheDay.communityPreset')}`,
+        value: t.t('dyeOfTheDay.presetLine', {
+          name: preset.name,
+          author: preset.author_name ?? 'XIV Dye Tools',
+          votes: preset.vote_count,
+        }),
+        inline: true,
+      });
+    }
+
+    const response = await sendMessage(env.DISCORD_TOKEN, channelId, {
+      embeds: [{ ...post.infoCard, fields: fields.length > 0 ? fields : undefined }, post.harmony],
+      files: post.files,
+    });
+
+    if (response.ok) return 'sent';
+    return await classifyPostFailure(response, subscription, logger);
+  } catch (error) {
+    logger?.error('Dye of the Day post failed', error instanceof Error ? error : undefined, { guildId, channelId });
+    return 'failed';
+  }
+}
+
+/**
+ * Render the day's embeds and PNGs in one language
+ */
+async function renderPost(context: RunContext, locale: LocaleCode): Promise<RenderedPost | null> {
+  const { now, dateKey, logger } = context;
+  const t = createTranslator(locale);
+  await initializeLocale(locale);
+
+  const result = await executeDyeOfTheDay({ date: now, locale });
+  if (!result.ok) {
+    logger?.error('Dye of the Day generation failed', undefined, { locale, error: result.error });
+    return null;
+  }
+
+  try {
+    const [infoCardPng, harmonyPng] = await Promise.all([
+      renderSvgToPng(result.infoCardSvg, { scale: 2 }),
+      renderSvgToPng(result.harmonySvg, { scale: 2 }),
+    ]);
+
+    const emoji = getDyeEmoji(result.dye.id);
+    const emojiPrefix = emoji ? `${emoji} ` : '';
+    const color = parseInt(result.dye.hex.replace('#', ''), 16);
+
+    const harmonyList = result.harmonyDyes
+      .map((dye) => {
+        const dyeEmoji = getDyeEmoji(dye.id);
+        return `${dyeEmoji ? `${dyeEmoji} ` : ''}${getLocalizedDyeName(dye.itemID, dye.name, locale)} (\`${dye.hex.toUpperCase()}\`)`;
+      })
+      .join('\n');
+
+    return {
+      t,
+      infoCard: {
+        title: `🎨 ${t.t('dyeOfTheDay.title', { dye: `${emojiPrefix}${result.localizedName}` })}`,
+        description: t.t('dyeOfTheDay.description', { date: dateKey }),
+        color,
+        image: { url: 'attachment://dye-of-the-day.png' },
+        footer: { text: t.t('dyeOfTheDay.footer') },
+        timestamp: context.now.toISOString(),
+      },
+      harmony: {
+        title: result.harmonyTitle,
+        description: harmonyList,
+        color,
+        image: { url: 'attachment://harmony.png' },
+      },
+      files: [
+        { name: 'dye-of-the-day.png', data: infoCardPng, contentType: 'image/png' },
+        { name: 'harmony.png', data: harmonyPng, contentType: 'image/png' },
+      ],
+    };
+  } catch (error) {
+    logger?.error('Dye of the Day render failed', error instanceof Error ? error : undefined, { locale });
+    return null;
+  }
+}
+
+/**
+ * Find a popular community preset with the day's dye (null when the presets
+ * API is unavailable or no popular preset uses it)
+ */
+async function findPreset(env: Env, itemId: number, logger?: ExtendedLogger): Promise<CommunityPreset | null> {
+  if (!isApiEnabled(env)) return null;
+
+  try {
+    return await getPopularPresetWithDye(env, itemId);
+  } catch (error) {
+    logger?.warn('Dye of the Day preset lookup failed', { itemId, error: String(error) });
+    return null;
+  }
+}
+
+/**
+ * Fetch the day's dye price on one world through the shared price cache
+ */
+async function fetchPrice(context: RunContext, world: string): Promise<DyePriceData | null> {
+  const { env, marketItemId, logger } = context;
+
+  try {
+    const { prices } = await fetchWithCache(
+      world,
+      [marketItemId],
+      (ids) => fetchPricesBatched(env, world, ids, logger),
+      logger
+    );
+    return prices.get(marketItemId) ?? null;
+  } catch (error) {
+    logger?.warn('Dye of the Day price fetch failed', { world, error: String(error) });
+    return null;
+  }
+}
+
+/**
+ * Tell "this channel is gone" (unsubscribe) apart from transient failures
+ */
+async function classifyPostFailure(
+  response: Response,
+  subscription: DyeOfTheDaySubscription,
+  logger?: ExtendedLogger
+): Promise<'unreachable' | 'failed'> {
+  const body = await response.json<{ code?: number }>().catch(() => ({ code: undefined }));
+  const { guildId, channelId } = subscription;
+
+  if ((response.status === 403 || response.status === 404) && UNREACHABLE_CHANNEL_CODES.has(body.code ?? 0)) {
+    logger?.info('Dye of the Day channel unreachable; removing subscription', { guildId, channelId, code: body.code });
+    return 'unreachable';
+  }
+
+  logger?.warn('Dye of the Day post rejected', { guildId, channelId, status: response.status, code: body.code });
+  return 'failed';
+}
+
+/**
+ * Share one in-flight lookup per key for the rest of the run
+ */
+function memoize<K, V>(cache: Map<K, Promise<V>>, key: K, load: () => Promise<V>): Promise<V> {
+  let pending = cache.get(key);
+  if (!pending) {
+    pending = load();
+    cache.set(key, pending);
+  }
+  return pending;
+}
@@ -0,0 +1,47 @@
+/**
+ * Scheduled (cron) Handlers
+ *
+ * Entry point for the worker's `scheduled` export. Cron runs don't pass
+ * through the Hono middleware, so a logger is built here the same way
+ * loggerMiddleware builds one per request.
+ *
+ * @module handlers/scheduled
+ */
+
+import { createRequestLogger } from '@xivdyetools/logger/worker';
+import type { Env } from '../../types/env.js';
+import { runPriceAlertCheck } from './price-alerts.js';
+import { runDyeOfTheDayPosts } from './dye-of-the-day.js';
+
+export { runPriceAlertCheck, MAX_DMS_PER_RUN } from './price-alerts.js';
+export type { PriceAlertRunSummary } from './price-alerts.js';
+export { runDyeOfTheDayPosts, MAX_POSTS_PER_RUN } from './dye-of-the-day.js';
+export type { DyeOfTheDayRunSummary } from './dye-of-the-day.js';
+
+/**
+ * Handle a cron trigger
+ *
+ * Every trigger in wrangler.toml runs both jobs: the /alert price check and
+ * the Dye of the Day posts (which only post once per guild per day). The
+ * jobs run independently so one failing doesn't stop the other.
+ */
+export function handleScheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): void {
+  const logger = createRequestLogger(
+    { ENVIRONMENT: 'production', SERVICE_NAME: 'xivdyetools-discord-worker' },
+    crypto.randomUUID()
+  );
+
+  logger.info('Scheduled run started', { cron: controller.cron });
+
+  ctx.waitUntil(
+    runPriceAlertCheck(env, logger, new Date(controller.scheduledTime)).catch((error: unknown) => {
+      logger.error('Price alert check failed', error instanceof Error ? error : undefined);
+    })
+  );
+
+  ctx.waitUntil(
+    runDyeOfTheDayPosts(env, logger, new Date(controller.scheduledTime)).catch((error: unknown) => {
+      logger.error('Dye of the Day posts failed', error instanceof Error ? error : undefined);
+    })
+  );
+}
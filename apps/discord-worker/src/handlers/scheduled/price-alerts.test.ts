@@ -0,0 +1,300 @@
+/**
+ * Tests for the scheduled price alert check
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runPriceAlertCheck, MAX_DMS_PER_RUN, MAX_USERS_PER_RUN } from './price-alerts.js';
+import { ALERTS_KEY_PREFIX, type PriceAlert } from '../../services/price-alerts.js';
+import type { Env } from '../../types/env.js';
+
+// ---------------------------------------------------------------------------
+// Mocks
+// ---------------------------------------------------------------------------
+const mockFetchPricesBatched = vi.fn();
+/** Mocked as a Patch 7.5 Type-A dye, listed under the Standard Spectrum Dye (52254) */
+const CONSOLIDATED_DYE_ID = 5800;
+vi.mock('../../services/budget/index.js', () => ({
+    isUniversalisEnabled: (env: Env) => Boolean(env.UNIVERSALIS_PROXY),
+    getDyeById: (id: number) => ({
+        id,
+        itemID: id,
+        name: `Dye ${id}`,
+        hex: '#FFFFFF',
+        consolidationType: id === CONSOLIDATED_DYE_ID ? 'A' : null,
+    }),
+    fetchPricesBatched: (...args: unknown[]) => mockFetchPricesBatched(...args),
+    // Pass-through cache: always call the fetcher
+    fetchWithCache: async (
+        _world: string,
+        ids: number[],
+        fetcher: (ids: number[]) => Promise<Map<number, unknown>>
+    ) => ({ prices: await fetcher(ids) }),
+}));
+
+const mockCreateDmChannel = vi.fn();
+const mockSendMessage = vi.fn();
+vi.mock('../../utils/discord-api.js', () => ({
+    createDmChannel: (...args: unknown[]) => mockCreateDmChannel(...args),
+    sendMessage: (...args: unknown[]) => mockSendMessage(...args),
+}));
+
+vi.mock('../../services/bot-i18n.js', () => ({
+    createUserTranslator: vi.fn(async () => ({
+        t: (key: string) => key,
+        getLocale: () => 'en',
+    })),
+}));
+
+vi.mock('../../services/i18n.js', () => ({
+    initializeLocale: vi.fn(),
+    getLocalizedDyeName: (_id: number, name: string) => name,
+}));
+
+vi.mock('../../services/emoji.js', () => ({
+    getDyeEmoji: () => undefined,
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+function createMockKV(alertsByUser: Record<string, PriceAlert[]>) {
+    const store = new Map<string, string>(
+        Object.entries(alertsByUser).map(([userId, alerts]) => [
+            `${ALERTS_KEY_PREFIX}${userId}`,
+            JSON.stringify(alerts),
+        ])
+    );
+
+    return {
+        get: vi.fn(async (key: string) => store.get(key) ?? null),
+        put: vi.fn(async (key: string, value: string) => {
+            store.set(key, value);
+        }),
+        delete: vi.fn(async (key: string) => {
+            store.delete(key);
+        }),
+        // Offset cursors, like services/price-alerts.test.ts
+        list: vi.fn(async ({ prefix, limit, cursor }: { prefix: string; limit: number; cursor?: string }) => {
+            const names = [...store.keys()].filter((k) => k.startsWith(prefix)).sort();
+            const start = cursor ? parseInt(cursor, 10) : 0;
+            const complete = start + limit >= names.length;
+            return {
+                keys: names.slice(start, start + limit).map((name) => ({ name })),
+                list_complete: complete,
+                cursor: complete ? undefined : String(start + limit),
+            };
+        }),
+        _store: store,
+    } as unknown as KVNamespace & { _store: Map<string, string> };
+}
+
+function alert(overrides: Partial<PriceAlert> = {}): PriceAlert {
+    return {
+        id: 'alert-01',
+        itemId: 5729,
+        world: 'Cactuar',
+        maxPrice: 50000,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        ...overrides,
+    };
+}
+
+function priceMap(entries: Array<[number, number]>) {
+    return new Map(
+        entries.map(([itemID, currentMinPrice]) => [
+            itemID,
+            { itemID, currentMinPrice, world: 'Cactuar', listingCount: 1, fetchedAt: now.toISOString() },
+        ])
+    );
+}
+
+function envWith(kv: KVNamespace): Env {
+    return {
+        KV: kv,
+        DISCORD_TOKEN: 'bot-token',
+        UNIVERSALIS_PROXY: {} as Fetcher,
+    } as unknown as Env;
+}
+
+const now = new Date('2026-06-01T12:00:00.000Z');
+
+describe('runPriceAlertCheck', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        // Fresh Response per call: a body can only be read once
+        mockCreateDmChannel.mockImplementation(async () => Response.json({ id: 'dm-channel' }));
+        mockSendMessage.mockImplementation(async () => Response.json({ id: 'message' }));
+    });
+
+    it('should do nothing when Universalis is not configured', async () => {
+        const kv = createMockKV({ u1: [alert()] });
+        const env = { ...envWith(kv), UNIVERSALIS_PROXY: undefined } as unknown as Env;
+
+        const summary = await runPriceAlertCheck(env, undefined, now);
+
+        expect(summary.users).toBe(0);
+        expect(kv.list).not.toHaveBeenCalled();
+    });
+
+    it('should DM users whose threshold was crossed and start the cooldown', async () => {
+        const kv = createMockKV({
+            u1: [alert({ id: 'cheap', itemId: 5729, maxPrice: 50000 })],
+            u2: [alert({ id: 'pricey', itemId: 5730, maxPrice: 1000 })],
+        });
+        mockFetchPricesBatched.mockResolvedValue(priceMap([[5729, 40000], [5730, 2000]]));
+
+        const summary = await runPriceAlertCheck(envWith(kv), undefined, now);
+
+        expect(summary).toMatchObject({ users: 2, dueAlerts: 2, worldsChecked: 1, notified: 1 });
+        expect(mockCreateDmChannel).toHaveBeenCalledTimes(1);
+        expect(mockCreateDmChannel).toHaveBeenCalledWith('bot-token', 'u1');
+
+        const payload = mockSendMessage.mock.calls[0][2];
+        expect(payload.embeds[0].description).toContain('alert.dmEntry');
+        expect(payload.components[0].components[0].custom_id).toBe('alert_unsubscribe_all');
+
+        const stored = JSON.parse(kv._store.get(`${ALERTS_KEY_PREFIX}u1`)!) as PriceAlert[];
+        expect(stored[0].lastNotifiedAt).toBe(now.toISOString());
+    });
+
+    it('should batch one price fetch per world across users', async () => {
+        const kv = createMockKV({
+            u1: [alert({ itemId: 5729 }), alert({ id: 'b', itemId: 5730, world: 'Aether' })],
+            u2: [alert({ itemId: 5729 }), alert({ id: 'c', itemId: 5731 })],
+        });
+        mockFetchPricesBatched.mockResolvedValue(new Map());
+
+        await runPriceAlertCheck(envWith(kv), undefined, now);
+
+        expect(mockFetchPricesBatched).toHaveBeenCalledTimes(2);
+        expect(mockFetchPricesBatched).toHaveBeenCalledWith(expect.anything(), 'Cactuar', [5729, 5731], undefined);
+        expect(mockFetchPricesBatched).toHaveBeenCalledWith(expect.anything(), 'Aether', [5730], undefined);
+    });
+
+    it('should price consolidated dyes by their market item ID', async () => {
+        const kv = createMockKV({
+            u1: [alert({ id: 'consolidated', itemId: CONSOLIDATED_DYE_ID, maxPrice: 500 })],
+        });
+        mockFetchPricesBatched.mockResolvedValue(priceMap([[52254, 216]]));
+
+        const summary = await runPriceAlertCheck(envWith(kv), undefined, now);
+
+        expect(mockFetchPricesBatched).toHaveBeenCalledWith(expect.anything(), 'Cactuar', [52254], undefined);
+        expect(summary.notified).toBe(1);
+
+        // The stored alert keeps the dye's own item ID
+        const stored = JSON.parse(kv._store.get(`${ALERTS_KEY_PREFIX}u1`)!) as PriceAlert[];
+        expect(stored[0]).toMatchObject({ itemId: CONSOLIDATED_DYE_ID, lastNotifiedAt: now.toISOString() });
+    });
+
+    it('should skip alerts still in cooldown without fetching', async () => {
+        const kv = createMockKV({
+            u1: [alert({ lastNotifiedAt: new Date(now.getTime() - 60 * 60 * 1000).toISOString() })],
+        });
+
+        const summary = await runPriceAlertCheck(envWith(kv), undefined, now);
+
+        expect(summary.dueAlerts).toBe(0);
+        expect(mockFetchPricesBatched).not.toHaveBeenCalled();
+    });
+
+    it('should keep going when one world fails to fetch', async () => {
+        const kv = createMockKV({
+            u1: [alert({ world: 'Broken' })],
+            u2: [alert({ world: 'Cactuar' })],
+        });
+        mockFetchPricesBatched.mockImplementation(async (_env: Env, world: string) => {
+            if (world === 'Broken') throw new Error('Universalis down');
+            return priceMap([[5729, 100]]);
+        });
+
+        const summary = await runPriceAlertCheck(envWith(kv), undefined, now);
+
+        expect(summary).toMatchObject({ worldsChecked: 1, worldsFailed: 1, notified: 1 });
+    });
+
+    it('should cap DMs per run and leave the rest due', async () => {
+        const users: Record<string, PriceAlert[]> = {};
+        for (let i = 0; i < MAX_DMS_PER_RUN + 3; i++) {
+            users[`u${i}`] = [alert()];
+        }
+        const kv = createMockKV(users);
+        mockFetchPricesBatched.mockResolvedValue(priceMap([[5729, 100]]));
+
+        const summary = await runPriceAlertCheck(envWith(kv), undefined, now);
+
+        expect(summary.notified).toBe(MAX_DMS_PER_RUN);
+        expect(summary.deferred).toBe(3);
+        expect(mockSendMessage).toHaveBeenCalledTimes(MAX_DMS_PER_RUN);
+    });
+
+    it('should read at most MAX_USERS_PER_RUN users and continue from the cursor', async () => {
+        const users: Record<string, PriceAlert[]> = {};
+        for (let i = 0; i < MAX_USERS_PER_RUN + 5; i++) {
+            // Cooling down, so nothing is fetched or sent
+            users[`u${String(i).padStart(3, '0')}`] = [alert({ lastNotifiedAt: now.toISOString() })];
+        }
+        const kv = createMockKV(users);
+
+        const first = await runPriceAlertCheck(envWith(kv), undefined, now);
+        const second = await runPriceAlertCheck(envWith(kv), undefined, now);
+        const third = await runPriceAlertCheck(envWith(kv), undefined, now);
+
+        expect(first).toMatchObject({ users: MAX_USERS_PER_RUN, scanComplete: false });
+        expect(second).toMatchObject({ users: 5, scanComplete: true });
+        // The scan wraps around after the last page
+        expect(third).toMatchObject({ users: MAX_USERS_PER_RUN, scanComplete: false });
+    });
+
+    it('should re-read the same page while users are deferred', async () => {
+        const users: Record<string, PriceAlert[]> = {};
+        for (let i = 0; i < MAX_USERS_PER_RUN + 5; i++) {
+            users[`u${String(i).padStart(3, '0')}`] = [alert()];
+        }
+        const kv = createMockKV(users);
+        mockFetchPricesBatched.mockResolvedValue(priceMap([[5729, 100]]));
+
+        const first = await runPriceAlertCheck(envWith(kv), undefined, now);
+        const second = await runPriceAlertCheck(envWith(kv), undefined, now);
+
+        expect(first.deferred).toBe(MAX_USERS_PER_RUN - MAX_DMS_PER_RUN);
+        // Same page: the first run's recipients are now cooling down
+        expect(second).toMatchObject({ users: MAX_USERS_PER_RUN, notified: MAX_DMS_PER_RUN });
+        expect(second.dueAlerts).toBe(MAX_USERS_PER_RUN - MAX_DMS_PER_RUN);
+    });
+
+    it('should start over when KV rejects the saved cursor', async () => {
+        const kv = createMockKV({ u1: [alert({ lastNotifiedAt: now.toISOString() })] });
+        kv._store.set('xivdye:alerts-scan:v1', 'expired');
+        vi.mocked(kv.list).mockRejectedValueOnce(new Error('Invalid cursor'));
+
+        const summary = await runPriceAlertCheck(envWith(kv), undefined, now);
+
+        expect(summary).toMatchObject({ users: 1, scanComplete: true });
+        expect(kv._store.has('xivdye:alerts-scan:v1')).toBe(false);
+    });
+
+    it('should unsubscribe users who cannot be DMed', async () => {
+        const kv = createMockKV({ u1: [alert()] });
+        mockFetchPricesBatched.mockResolvedValue(priceMap([[5729, 100]]));
+        mockSendMessage.mockResolvedValue(
+            Response.json({ code: 50007, message: 'Cannot send messages to this user' }, { status: 403 })
+        );
+
+        const summary = await runPriceAlertCheck(envWith(kv), undefined, now);
+
+        expect(summary.unsubscribed).toBe(1);
+        expect(kv._store.has(`${ALERTS_KEY_PREFIX}u1`)).toBe(false);
+    });
+
+    it('should keep alerts due after a transient DM failure', async () => {
+        const kv = createMockKV({ u1: [alert()] });
+        mockFetchPricesBatched.mockResolvedValue(priceMap([[5729, 100]]));
+        mockCreateDmChannel.mockResolvedValue(new Response('rate limited', { status: 429 }));
+
+        const summary = await runPriceAlertCheck(envWith(kv), undefined, now);
+
+        expect(summary).toMatchObject({ notified: 0, unsubscribed: 0 });
+        const stored = JSON.parse(kv._store.get(`${ALERTS_KEY_PREFIX}u1`)!) as PriceAlert[];
+        expect(stored[0].lastNotifiedAt).toBeUndefined();
+    });
+});
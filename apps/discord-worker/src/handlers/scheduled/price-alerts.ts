@@ -0,0 +1,312 @@
+/**
+ * Scheduled Price Alert Check
+ *
+ * Runs on the cron trigger: loads the next page of users' /alert entries,
+ * fetches the watched dyes' prices once per world/datacenter (through the
+ * shared price cache), and DMs each user one embed listing the alerts whose
+ * lowest listing is at or below their threshold.
+ *
+ * Safeguards:
+ * - At most MAX_USERS_PER_RUN users are read per run (one KV read each); the
+ *   KV list cursor is saved so the next run continues where this one stopped,
+ *   and the scan starts over after the last page
+ * - Alerts in their post-notification cooldown are skipped before fetching
+ * - At most MAX_DMS_PER_RUN users are messaged per run (Workers subrequest
+ *   budget); when users are deferred the cursor is not advanced, so the next
+ *   run re-reads the same page and messages them (the users just notified
+ *   are in cooldown by then)
+ * - Users who can't receive DMs are unsubscribed so they aren't retried forever
+ *
+ * @module handlers/scheduled/price-alerts
+ */
+
+import type { ExtendedLogger } from '@xivdyetools/logger';
+import type { Dye } from '@xivdyetools/types';
+import { getMarketItemID } from '@xivdyetools/core';
+import { createUserTranslator } from '../../services/bot-i18n.js';
+import { initializeLocale, getLocalizedDyeName } from '../../services/i18n.js';
+import { getDyeEmoji } from '../../services/emoji.js';
+import { isUniversalisEnabled, fetchPricesBatched, fetchWithCache, getDyeById } from '../../services/budget/index.js';
+import {
+  getAlerts,
+  clearAlerts,
+  markAlertsNotified,
+  isAlertCoolingDown,
+  listAlertUserPage,
+  getAlertScanCursor,
+  setAlertScanCursor,
+  ALERT_COOLDOWN_HOURS,
+  type AlertUserPage,
+  type PriceAlert,
+} from '../../services/price-alerts.js';
+import { createDmChannel, sendMessage } from '../../utils/discord-api.js';
+import type { DiscordEmbed } from '../../utils/response.js';
+import { createAlertUnsubscribeButton } from '../buttons/alert.js';
+import { formatGil, type DyePriceData } from '../../types/budget.js';
+import type { Env } from '../../types/env.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Users whose alerts are read per run; each is one KV read */
+export const MAX_USERS_PER_RUN = 100;
+
+/** Users messaged per run; each DM costs two Discord subrequests */
+export const MAX_DMS_PER_RUN = 20;
+
+/** Discord error code: "Cannot send messages to this user" (DMs closed / no shared server) */
+const CANNOT_DM_USER = 50007;
+
+/** Gold, matching /alert */
+const ALERT_COLOR = 0xf1c40f;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Outcome of one scheduled run, logged for observability
+ */
+export interface PriceAlertRunSummary {
+  /** Users read this run (at most MAX_USERS_PER_RUN) */
+  users: number;
+  /** Whether this run read the last page, so the next one starts over */
+  scanComplete: boolean;
+  dueAlerts: number;
+  worldsChecked: number;
+  worldsFailed: number;
+  notified: number;
+  deferred: number;
+  unsubscribed: number;
+}
+
+interface TriggeredAlert {
+  alert: PriceAlert;
+  dye: Dye;
+  price: DyePriceData;
+}
+
+// ============================================================================
+// Scheduled Run
+// ============================================================================
+
+/**
+ * Check all price alerts and DM users whose thresholds were crossed
+ *
+ * @param env - Environment bindings
+ * @param logger - Optional logger for structured logging
+ * @param now - Current time (injectable for tests)
+ */
+export async function runPriceAlertCheck(
+  env: Env,
+  logger?: ExtendedLogger,
+  now: Date = new Date()
+): Promise<PriceAlertRunSummary> {
+  const summary: PriceAlertRunSummary = {
+    users: 0,
+    scanComplete: false,
+    dueAlerts: 0,
+    worldsChecked: 0,
+    worldsFailed: 0,
+    notified: 0,
+    deferred: 0,
+    unsubscribed: 0,
+  };
+
+  if (!isUniversalisEnabled(env)) {
+    logger?.warn('Price alerts skipped: Universalis proxy not configured');
+    return summary;
+  }
+
+  // Step 1: Load the next page of users' alerts that are out of cooldown
+  const page = await listAlertPage(env, logger);
+  const userIds = page.userIds;
+  summary.users = userIds.length;
+  summary.scanComplete = page.cursor === undefined;
+
+  const dueByUser = new Map<string, PriceAlert[]>();
+  for (const userId of userIds) {
+    const alerts = await getAlerts(env.KV, userId, logger);
+    const due = alerts.filter((alert) => !isAlertCoolingDown(alert, now.getTime()));
+    if (due.length > 0) {
+      dueByUser.set(userId, due);
+      summary.dueAlerts += due.length;
+    }
+  }
+
+  // Step 2: One batched (cached) price fetch per world/datacenter, by market
+  // item ID (Patch 7.5 consolidated dyes are listed under a shared item)
+  const itemsByWorld = new Map<string, Set<number>>();
+  for (const alerts of dueByUser.values()) {
+    for (const alert of alerts) {
+      const items = itemsByWorld.get(alert.world) ?? new Set<number>();
+      items.add(getAlertMarketId(alert));
+      itemsByWorld.set(alert.world, items);
+    }
+  }
+
+  const pricesByWorld = new Map<string, Map<number, DyePriceData>>();
+  for (const [world, items] of itemsByWorld) {
+    try {
+      const { prices } = await fetchWithCache(
+        world,
+        [...items],
+        (ids) => fetchPricesBatched(env, world, ids, logger),
+        logger
+      );
+      pricesByWorld.set(world, prices);
+      summary.worldsChecked++;
+    } catch (error) {
+      // One failing world shouldn't block everyone else's alerts
+      summary.worldsFailed++;
+      logger?.error('Price alert fetch failed', error instanceof Error ? error : undefined, { world });
+    }
+  }
+
+  // Step 3: DM each user their crossed thresholds
+  for (const [userId, alerts] of dueByUser) {
+    const triggered: TriggeredAlert[] = [];
+    for (const alert of alerts) {
+      const price = pricesByWorld.get(alert.world)?.get(getAlertMarketId(alert));
+      const dye = getDyeById(alert.itemId);
+      if (price && dye && price.currentMinPrice <= alert.maxPrice) {
+        triggered.push({ alert, dye, price });
+      }
+    }
+
+    if (triggered.length === 0) continue;
+
+    if (summary.notified >= MAX_DMS_PER_RUN) {
+      summary.deferred++;
+      continue;
+    }
+
+    const outcome = await notifyUser(env, userId, triggered, logger);
+    if (outcome === 'sent') {
+      summary.notified++;
+      await markAlertsNotified(env.KV, userId, triggered.map((t) => t.alert.id), now, logger);
+    } else if (outcome === 'unreachable') {
+      summary.unsubscribed++;
+      await clearAlerts(env.KV, userId, logger);
+    }
+  }
+
+  // Step 4: Move on to the next page, unless users here are still waiting for a DM
+  if (summary.deferred === 0) {
+    await setAlertScanCursor(env.KV, page.cursor);
+  }
+
+  logger?.info('Price alert check complete', { ...summary });
+  return summary;
+}
+
+/**
+ * Read the page of alert owners at the saved cursor, starting over if KV
+ * rejects the cursor (e.g. it expired)
+ */
+async function listAlertPage(
+  env: Env,
+  logger?: ExtendedLogger
+): Promise<AlertUserPage> {
+  const cursor = await getAlertScanCursor(env.KV);
+  if (!cursor) {
+    return listAlertUserPage(env.KV, MAX_USERS_PER_RUN);
+  }
+
+  try {
+    return await listAlertUserPage(env.KV, MAX_USERS_PER_RUN, cursor);
+  } catch (error) {
+    logger?.warn('Price alert scan cursor rejected; starting over', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return listAlertUserPage(env.KV, MAX_USERS_PER_RUN);
+  }
+}
+
+/**
+ * Universalis item ID an alert's price is listed under; `alert.itemId` stays
+ * the dye's own ID for display
+ */
+function getAlertMarketId(alert: PriceAlert): number {
+  const dye = getDyeById(alert.itemId);
+  return dye ? getMarketItemID(dye) : alert.itemId;
+}
+
+// ============================================================================
+// Notification
+// ============================================================================
+
+/**
+ * Send one alert DM in the user's language
+ *
+ * @returns 'sent', 'unreachable' (the user can't be DMed) or 'failed' (retry next run)
+ */
+async function notifyUser(
+  env: Env,
+  userId: string,
+  triggered: TriggeredAlert[],
+  logger?: ExtendedLogger
+): Promise<'sent' | 'unreachable' | 'failed'> {
+  try {
+    const t = await createUserTranslator(env.KV, userId, undefined, logger);
+    const locale = t.getLocale();
+    await initializeLocale(locale);
+
+    const lines = triggered.map(({ alert, dye, price }) => {
+      const emoji = getDyeEmoji(dye.itemID);
+      const emojiPrefix = emoji ? `${emoji} ` : '';
+      return `${emojiPrefix}${t.t('alert.dmEntry', {
+        dyeName: getLocalizedDyeName(dye.itemID, dye.name, locale),
+        price: formatGil(price.currentMinPrice),
+        world: alert.world,
+        maxPrice: formatGil(alert.maxPrice),
+      })}`;
+    });
+
+    const embed: DiscordEmbed = {
+      title: `🔔 ${t.t('alert.dmTitle')}`,
+      description: `${t.t('alert.dmDescription')}\n\n${lines.join('\n')}`,
+      color: ALERT_COLOR,
+      footer: { text: t.t('alert.dmFooter', { hours: ALERT_COOLDOWN_HOURS }) },
+      timestamp: new Date().toISOString(),
+    };
+
+    const components = [createAlertUnsubscribeButton(t.t('alert.unsubscribe'))];
+
+    const channelResponse = await createDmChannel(env.DISCORD_TOKEN, userId);
+    if (!channelResponse.ok) {
+      return await classifyDmFailure(channelResponse, userId, logger);
+    }
+    const channel = await channelResponse.json<{ id: string }>();
+
+    const messageResponse = await sendMessage(env.DISCORD_TOKEN, channel.id, { embeds: [embed], components });
+    if (!messageResponse.ok) {
+      return await classifyDmFailure(messageResponse, userId, logger);
+    }
+
+    return 'sent';
+  } catch (error) {
+    logger?.error('Price alert DM failed', error instanceof Error ? error : undefined, { userId });
+    return 'failed';
+  }
+}
+
+/**
+ * Tell "this user can't be DMed" (unsubscribe them) apart from transient failures
+ */
+async function classifyDmFailure(
+  response: Response,
+  userId: string,
+  logger?: ExtendedLogger
+): Promise<'unreachable' | 'failed'> {
+  const body = await response.json<{ code?: number }>().catch(() => ({ code: undefined }));
+
+  if (response.status === 403 && body.code === CANNOT_DM_USER) {
+    logger?.info('Price alert recipient cannot be DMed; removing their alerts', { userId });
+    return 'unreachable';
+  }
+
+  logger?.warn('Price alert DM rejected', { userId, status: response.status, code: body.code });
+  return 'failed';
+}
@@ -39,12 +39,33 @@ vi.mock('./handlers/commands/index.js', () => ({
   handleStatsCommand: vi.fn(),
   handleBudgetCommand: vi.fn(),
   handleBudgetAutocomplete: vi.fn(),
+  handleAlertCommand: vi.fn(),
+  handleAlertAutocomplete: vi.fn(),
+  handleGlamourCommand: vi.fn(),
+  handleGlamourAutocomplete: vi.fn(),
+  handleGlamourerImportCommand: vi.fn(),
+  handleGlamourerImportAutocomplete: vi.fn(),
+  handleServerSettingsCommand: vi.fn(),
+  handleServerSettingsAutocomplete: vi.fn(),
+  handleDyeOfTheDayCommand: vi.fn(),
+  handleDyeOfTheDayAutocomplete: vi.fn(),
+  handleDyeQuizCommand: vi.fn(),
+  handleDyeQuizAutocomplete: vi.fn(),
+  formatCommandName: vi.fn((name: string) => `/${name}`),
+  // Message context-menu commands
+  handleMatchImageMessageCommand: vi.fn(),
+  MATCH_IMAGE_MESSAGE_COMMAND: 'Match dyes in this image',
 }));
 
 vi.mock('./handlers/buttons/index.js', () => ({
   handleButtonInteraction: vi.fn(),
 }));
 
+// The scheduled jobs pull in the WASM PNG renderer; they have their own tests
+vi.mock('./handlers/scheduled/index.js', () => ({
+  handleScheduled: vi.fn(),
+}));
+
 // Note: Modal handlers are now handled by xivdyetools-moderation-worker
 // The modals/index.js exports nothing, so we don't need to mock it
 
@@ -68,10 +89,13 @@ vi.mock('./services/preset-api.js', () => ({
 
 vi.mock('./utils/discord-api.js', () => ({
   sendMessage: vi.fn(),
+  createDmChannel: vi.fn(),
 }));
 
 vi.mock('./services/i18n.js', () => ({
   getLocalizedDyeName: vi.fn((_itemId: number, name: string) => name),
+  resolveUserLocale: vi.fn().mockResolvedValue('en'),
+  isValidLocale: vi.fn(() => true),
 }));
 
 // Mock DyeService
@@ -1345,6 +1369,14 @@ describe('index.ts', () => {
           { name: 'preset', handler: commands.handlePresetCommand },
           { name: 'stats', handler: commands.handleStatsCommand },
           { name: 'budget', handler: commands.handleBudgetCommand },
+          { name: 'alert', handler: commands.handleAlertCommand },
+          { name: 'glamour', handler: commands.handleGlamourCommand },
+          { name: 'glamourer-import', handler: commands.handleGlamourerImportCommand },
+          { name: 'server-settings', handler: commands.handleServerSettingsCommand },
+          { name: 'dye-of-the-day', handler: commands.handleDyeOfTheDayCommand },
+          { name: 'dyequiz', handler: commands.handleDyeQuizCommand },
+          // Message context-menu commands
+          { name: 'Match dyes in this image', handler: commands.handleMatchImageMessageCommand },
         ];
 
         for (const { name, handler } of commandHandlers) {
@@ -1375,6 +1407,76 @@ describe('index.ts', () => {
         }
       });
 
+      it('should rate limit the image message command with the match_image budget', async () => {
+        const { verifyDiscordRequest } = await import('./utils/verify.js');
+        const { checkRateLimit } = await import('./services/rate-limiter.js');
+        const commands = await import('./handlers/commands/index.js');
+
+        const body = JSON.stringify({
+          type: InteractionType.APPLICATION_COMMAND,
+          data: { name: 'Match dyes in this image', type: 3, target_id: 'message-1' },
+          user: { id: 'user-123' },
+        });
+        vi.mocked(verifyDiscordRequest).mockResolvedValue({ isValid: true, body, error: '' });
+        vi.mocked(checkRateLimit).mockResolvedValue({ allowed: true, remaining: 4, resetAt: Date.now() + 60000 });
+        vi.mocked(commands.handleMatchImageMessageCommand).mockResolvedValue(new Response());
+
+        await app.fetch(new Request('http://localhost/', { method: 'POST', body }), mockEnv, mockCtx);
+
+        expect(checkRateLimit).toHaveBeenCalledWith(expect.anything(), 'user-123', 'match_image');
+        expect(commands.handleMatchImageMessageCommand).toHaveBeenCalled();
+      });
+
+      it('should block commands disabled by the server', async () => {
+        const { verifyDiscordRequest } = await import('./utils/verify.js');
+        const commands = await import('./handlers/commands/index.js');
+
+        vi.mocked(mockEnv.KV.get).mockImplementation((async (key: string) =>
+          key === 'guild-prefs:v1:guild-1' ? JSON.stringify({ disabledCommands: ['harmony'] }) : null) as any);
+
+        const body = JSON.stringify({
+          type: InteractionType.APPLICATION_COMMAND,
+          data: { name: 'harmony' },
+          guild_id: 'guild-1',
+          member: { user: { id: 'user-123' }, permissions: '0' },
+        });
+        vi.mocked(verifyDiscordRequest).mockResolvedValue({ isValid: true, body, error: '' });
+
+        const res = await app.fetch(new Request('http://localhost/', { method: 'POST', body }), mockEnv, mockCtx);
+        const data = (await res.json()) as InteractionResponseBody;
+
+        expect(commands.handleHarmonyCommand).not.toHaveBeenCalled();
+        expect(data.type).toBe(InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE);
+        expect(data.data?.flags).toBe(64);
+      });
+
+      it('should make replies ephemeral when the server requires it', async () => {
+        const { verifyDiscordRequest } = await import('./utils/verify.js');
+        const { checkRateLimit } = await import('./services/rate-limiter.js');
+        const commands = await import('./handlers/commands/index.js');
+
+        vi.mocked(mockEnv.KV.get).mockImplementation((async (key: string) =>
+          key === 'guild-prefs:v1:guild-1' ? JSON.stringify({ ephemeral: true }) : null) as any);
+
+        const body = JSON.stringify({
+          type: InteractionType.APPLICATION_COMMAND,
+          data: { name: 'about' },
+          guild_id: 'guild-1',
+          member: { user: { id: 'user-123' }, permissions: '0' },
+        });
+        vi.mocked(verifyDiscordRequest).mockResolvedValue({ isValid: true, body, error: '' });
+        vi.mocked(checkRateLimit).mockResolvedValue({ allowed: true, remaining: 14, resetAt: Date.now() + 60000 });
+        vi.mocked(commands.handleAboutCommand).mockResolvedValue(
+          Response.json({ type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE, data: { content: 'hi' } })
+        );
+
+        const res = await app.fetch(new Request('http://localhost/', { method: 'POST', body }), mockEnv, mockCtx);
+        const data = (await res.json()) as InteractionResponseBody;
+
+        expect(data.data?.content).toBe('hi');
+        expect(data.data?.flags).toBe(64);
+      });
+
       it('should route stats command handler', async () => {
         const { verifyDiscordRequest } = await import('./utils/verify.js');
 
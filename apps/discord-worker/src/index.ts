@@ -13,7 +13,7 @@ import type { ExtendedLogger } from '@xivdyetools/logger';
 import type { Env } from './types/env.js';
 import { InteractionType, InteractionResponseType } from './types/env.js';
 import { verifyDiscordRequest, unauthorizedResponse, badRequestResponse, timingSafeEqual } from './utils/verify.js';
-import { pongResponse, ephemeralResponse } from './utils/response.js';
+import { pongResponse, ephemeralResponse, withEphemeralFlag } from './utils/response.js';
 import {
   handleAboutCommand,
   handleHarmonyCommand,
@@ -37,18 +37,36 @@ import {
   handleStatsCommand,
   handleBudgetCommand,
   handleBudgetAutocomplete,
+  handleAlertCommand,
+  handleAlertAutocomplete,
+  handleGlamourCommand,
+  handleGlamourAutocomplete,
+  handleGlamourerImportCommand,
+  handleGlamourerImportAutocomplete,
+  handleServerSettingsCommand,
+  handleServerSettingsAutocomplete,
+  formatCommandName,
+  handleDyeOfTheDayCommand,
+  handleDyeOfTheDayAutocomplete,
+  handleDyeQuizCommand,
+  handleDyeQuizAutocomplete,
+  // Message context-menu commands
+  handleMatchImageMessageCommand,
+  MATCH_IMAGE_MESSAGE_COMMAND,
 } from './handlers/commands/index.js';
 import { checkRateLimit, formatRateLimitMessage } from './services/rate-limiter.js';
 import { trackCommandWithKV } from './services/analytics.js';
 import { getCollections } from './services/user-storage.js';
 import { getPresetFavoriteEntries, savePresetFavoriteEntries } from './services/preset-favorites.js';
 import { handleButtonInteraction } from './handlers/buttons/index.js';
+import { handleScheduled } from './handlers/scheduled/index.js';
 import { dyeService } from './utils/color.js';
 import * as presetApi from './services/preset-api.js';
 import { sendMessage } from './utils/discord-api.js';
 import { STATUS_DISPLAY, type PresetNotificationPayload } from './types/preset.js';
 import { getLocalizedDyeName } from './services/i18n.js';
-import { createTranslator } from './services/bot-i18n.js';
+import { createTranslator, createUserTranslator } from './services/bot-i18n.js';
+import { getGuildSettings, isCommandDisabled } from './services/guild-settings.js';
 import { sendModerationNotification } from './handlers/commands/preset-notifications.js';
 import { validateEnv, logValidationErrors } from './utils/env-validation.js';
 import { requestIdMiddleware, loggerMiddleware } from '@xivdyetools/worker-middleware';
@@ -429,7 +447,7 @@ app.post('/', async (c) => {
 });
 
 /**
- * Handle slash commands
+ * Handle slash commands and context-menu commands
  */
 async function handleCommand(
   interaction: DiscordInteraction,
@@ -448,6 +466,14 @@ async function handleCommand(
 
   logger.info('Handling command', { command: commandName, userId });
 
+  // Server-level toggles from /server-settings (empty outside guilds)
+  const guildSettings = await getGuildSettings(env.KV, interaction.guild_id, logger);
+  if (commandName && isCommandDisabled(guildSettings, commandName)) {
+    logger.info('Command disabled in guild', { command: commandName, guildId: interaction.guild_id });
+    const t = await createUserTranslator(env.KV, userId, interaction.locale, logger, interaction.guild_id);
+    return ephemeralResponse(t.t('serverSettings.commandDisabled', { command: formatCommandName(commandName) }));
+  }
+
   // Check rate limit (skip for utility commands)
   if (commandName && !['about', 'manual', 'stats'].includes(commandName)) {
     const rateLimitResult = await checkRateLimit(
@@ -457,7 +483,8 @@ async function handleCommand(
         kv: env.KV, // fallback if Upstash not configured
       },
       userId,
-      commandName
+      // The message command runs the /match_image pipeline, so it shares that budget
+      commandName === MATCH_IMAGE_MESSAGE_COMMAND ? 'match_image' : commandName
     );
     if (!rateLimitResult.allowed) {
       logger.info('User rate limited', { userId, command: commandName });
@@ -515,6 +542,11 @@ async function handleCommand(
         response = await handleMatchImageCommand(interaction, env, ctx, logger);
         break;
 
+      // Message context-menu commands
+      case MATCH_IMAGE_MESSAGE_COMMAND:
+        response = await handleMatchImageMessageCommand(interaction, env, ctx, logger);
+        break;
+
       case 'accessibility':
         response = await handleAccessibilityCommand(interaction, env, ctx, logger);
         break;
@@ -551,6 +583,30 @@ async function handleCommand(
         response = await handleBudgetCommand(interaction, env, ctx, logger);
         break;
 
+      case 'alert':
+        response = await handleAlertCommand(interaction, env, ctx, logger);
+        break;
+
+      case 'glamour':
+        response = await handleGlamourCommand(interaction, env, ctx, logger);
+        break;
+
+      case 'glamourer-import':
+        response = await handleGlamourerImportCommand(interaction, env, ctx, logger);
+        break;
+
+      case 'server-settings':
+        response = await handleServerSettingsCommand(interaction, env, ctx, logger);
+        break;
+
+      case 'dye-of-the-day':
+        response = await handleDyeOfTheDayCommand(interaction, env, ctx, logger);
+        break;
+
+      case 'dyequiz':
+        response = await handleDyeQuizCommand(interaction, env, ctx, logger);
+        break;
+
       default:
         // Command not yet implemented
         response = ephemeralResponse(
@@ -578,6 +634,11 @@ async function handleCommand(
     }
   }
 
+  // Servers can make every reply private; deferred replies stay private when edited
+  if (guildSettings.ephemeral) {
+    response = await withEphemeralFlag(response);
+  }
+
   return response;
 }
 
@@ -713,6 +774,30 @@ async function handleAutocomplete(
   else if (commandName === 'budget') {
     return handleBudgetAutocomplete(interaction, env, logger);
   }
+  // Handle alert command autocomplete (returns its own Response)
+  else if (commandName === 'alert') {
+    return handleAlertAutocomplete(interaction, env, logger);
+  }
+  // Handle glamour command autocomplete (returns its own Response)
+  else if (commandName === 'glamour') {
+    return handleGlamourAutocomplete(interaction, env, logger);
+  }
+  // Handle glamourer-import command autocomplete (returns its own Response)
+  else if (commandName === 'glamourer-import') {
+    return handleGlamourerImportAutocomplete(interaction, env, logger);
+  }
+  // Handle server-settings command autocomplete (returns its own Response)
+  else if (commandName === 'server-settings') {
+    return handleServerSettingsAutocomplete(interaction, env, logger);
+  }
+  // Handle dye-of-the-day command autocomplete (returns its own Response)
+  else if (commandName === 'dye-of-the-day') {
+    return handleDyeOfTheDayAutocomplete(interaction, env, logger);
+  }
+  // Handle dyequiz command autocomplete (returns its own Response)
+  else if (commandName === 'dyequiz') {
+    return handleDyeQuizAutocomplete(interaction);
+  }
   // Handle preferences command autocomplete
   else if (commandName === 'preferences') {
     const focusedName = focusedOption?.name;
@@ -1051,4 +1136,11 @@ app.onError((err, c) => {
   );
 });
 
-export default app;
+/**
+ * Module worker export: Hono serves HTTP, cron triggers (wrangler.toml
+ * [triggers]) run the scheduled jobs.
+ */
+export default {
+  fetch: app.fetch,
+  scheduled: handleScheduled,
+};
@@ -240,7 +240,7 @@ describe('bot-i18n.ts', () => {
 
             const translator = await createUserTranslator(mockKV, 'user-123', 'en-US');
 
-            expect(resolveUserLocale).toHaveBeenCalledWith(mockKV, 'user-123', 'en-US');
+            expect(resolveUserLocale).toHaveBeenCalledWith(mockKV, 'user-123', 'en-US', undefined);
             expect(translator.getLocale()).toBe('ja');
         });
 
@@ -11,6 +11,7 @@ import type { ExtendedLogger } from '@xivdyetools/logger';
 import { resolveUserLocale } from './i18n.js';
 import { isValidLocale } from './i18n.js';
 import { getUserPreferences } from './preferences.js';
+import { getGuildSettings, applyGuildDefaults } from './guild-settings.js';
 import type { UserPreferences } from '../types/preferences.js';
 
 // Re-export from the shared package
@@ -29,14 +30,17 @@ import { Translator } from '@xivdyetools/bot-i18n';
  * @param userId        - Discord user ID
  * @param discordLocale - Discord's detected locale
  * @param logger        - Optional structured logger
+ * @param guildId       - Guild the interaction came from (server default language)
  */
 export async function createUserTranslator(
   kv: KVNamespace,
   userId: string,
   discordLocale?: string,
-  logger?: ExtendedLogger
+  logger?: ExtendedLogger,
+  guildId?: string
 ): Promise<Translator> {
-  const locale = await resolveUserLocale(kv, userId, discordLocale);
+  const guild = await getGuildSettings(kv, guildId, logger);
+  const locale = await resolveUserLocale(kv, userId, discordLocale, guild.language);
   return new Translator(locale, logger);
 }
 
@@ -49,17 +53,26 @@ export async function createUserTranslator(
  * legacy i18n preference → Discord locale → 'en' (resolveUserLocale still
  * performs the legacy/Discord fallbacks when the unified blob has no
  * language).
+ *
+ * With a guildId, the returned prefs have the server's /server-settings
+ * defaults layered underneath the user's own values, and the server language
+ * slots in before the Discord locale.
  */
 export async function createUserTranslatorWithPrefs(
   kv: KVNamespace,
   userId: string,
   discordLocale?: string,
-  logger?: ExtendedLogger
+  logger?: ExtendedLogger,
+  guildId?: string
 ): Promise<{ t: Translator; prefs: UserPreferences }> {
-  const prefs = await getUserPreferences(kv, userId, logger);
-  if (prefs.language && isValidLocale(prefs.language)) {
-    return { t: new Translator(prefs.language, logger), prefs };
+  const [userPrefs, guild] = await Promise.all([
+    getUserPreferences(kv, userId, logger),
+    getGuildSettings(kv, guildId, logger),
+  ]);
+  const prefs = applyGuildDefaults(userPrefs, guild);
+  if (userPrefs.language && isValidLocale(userPrefs.language)) {
+    return { t: new Translator(userPrefs.language, logger), prefs };
   }
-  const locale = await resolveUserLocale(kv, userId, discordLocale);
+  const locale = await resolveUserLocale(kv, userId, discordLocale, guild.language);
   return { t: new Translator(locale, logger), prefs };
 }
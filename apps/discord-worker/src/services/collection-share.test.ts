@@ -0,0 +1,52 @@
+/**
+ * Tests for Collection Share Codes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createShareCode, parseShareCode } from './collection-share.js';
+
+const secret = 'test-collection-share-secret-0123456789';
+const target = {
+  ownerId: '123456789012345678',
+  collectionId: '0f8e2c1a-3b4d-4e5f-8a9b-0c1d2e3f4a5b',
+};
+
+describe('Collection Share Codes', () => {
+  it('should round-trip the owner and collection', async () => {
+    const code = await createShareCode(target, secret);
+
+    expect(code).toMatch(/^[A-Za-z0-9_-]{32}\.[A-Za-z0-9_-]{16}$/);
+    expect(await parseShareCode(code!, secret)).toEqual(target);
+  });
+
+  it('should ignore surrounding whitespace', async () => {
+    const code = await createShareCode(target, secret);
+
+    expect(await parseShareCode(`  ${code}\n`, secret)).toEqual(target);
+  });
+
+  it('should reject a code with an edited payload', async () => {
+    const code = (await createShareCode(target, secret))!;
+    const other = (await createShareCode({ ...target, ownerId: '223456789012345678' }, secret))!;
+    const forged = `${other.split('.')[0]}.${code.split('.')[1]}`;
+
+    expect(await parseShareCode(forged, secret)).toBeNull();
+  });
+
+  it('should reject a code signed with another secret', async () => {
+    const code = (await createShareCode(target, 'another-secret-that-is-long-enough!!'))!;
+
+    expect(await parseShareCode(code, secret)).toBeNull();
+  });
+
+  it('should reject malformed codes', async () => {
+    expect(await parseShareCode('', secret)).toBeNull();
+    expect(await parseShareCode('not-a-share-code', secret)).toBeNull();
+    expect(await parseShareCode(`${'A'.repeat(32)}.${'A'.repeat(15)}`, secret)).toBeNull();
+  });
+
+  it('should not create codes for IDs it cannot pack', async () => {
+    expect(await createShareCode({ ...target, ownerId: 'user-1' }, secret)).toBeNull();
+    expect(await createShareCode({ ...target, collectionId: 'not-a-uuid' }, secret)).toBeNull();
+  });
+});
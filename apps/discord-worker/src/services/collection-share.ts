@@ -0,0 +1,148 @@
+/**
+ * Collection Share Codes
+ *
+ * A share code points at one user's collection: the owner's Discord user ID
+ * and the collection's UUID, packed into 24 bytes and signed with HMAC-SHA256
+ * (`@xivdyetools/auth`) so codes can't be forged for someone else's
+ * collection. Nothing is stored when a code is made — importing reads the
+ * owner's collection as it is at that moment, so deleting a collection
+ * retires every code for it.
+ *
+ * Format: `{payload}.{signature}` — base64url payload (32 chars), a dot, and
+ * the first 16 base64url chars (96 bits) of the signature.
+ *
+ * @module services/collection-share
+ */
+
+import { hmacSign, timingSafeEqual } from '@xivdyetools/auth';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Share code format version, bound into the signature */
+const SHARE_CODE_VERSION = 'v1';
+
+/** Domain separator so share signatures can't be replayed as other HMACs */
+const SIGNATURE_CONTEXT = `xivdye:collection-share:${SHARE_CODE_VERSION}:`;
+
+/** Length of the truncated signature (base64url chars) */
+const SIGNATURE_LENGTH = 16;
+
+/** Bytes in the payload: 8 (user ID) + 16 (collection UUID) */
+const PAYLOAD_BYTES = 24;
+
+const SNOWFLAKE_PATTERN = /^\d{17,20}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SHARE_CODE_PATTERN = /^[A-Za-z0-9_-]{32}\.[A-Za-z0-9_-]{16}$/;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What a share code points at
+ */
+export interface CollectionShareTarget {
+  /** Discord user ID of the collection's owner */
+  ownerId: string;
+  /** Collection UUID */
+  collectionId: string;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Create a share code for a collection
+ *
+ * @param target - Owner and collection to point at
+ * @param secret - COLLECTION_SHARE_SECRET (at least 32 bytes)
+ * @returns Share code, or null if the IDs can't be packed
+ */
+export async function createShareCode(target: CollectionShareTarget, secret: string): Promise<string | null> {
+  const payload = encodePayload(target);
+  if (!payload) {
+    return null;
+  }
+
+  return `${payload}.${await sign(payload, secret)}`;
+}
+
+/**
+ * Verify a share code and unpack it
+ *
+ * @param code - Share code as pasted by the user (surrounding whitespace is ignored)
+ * @param secret - COLLECTION_SHARE_SECRET
+ * @returns Owner and collection, or null if the code is malformed or its signature is wrong
+ */
+export async function parseShareCode(code: string, secret: string): Promise<CollectionShareTarget | null> {
+  const trimmed = code.trim();
+  if (!SHARE_CODE_PATTERN.test(trimmed)) {
+    return null;
+  }
+
+  const [payload, signature] = trimmed.split('.');
+  if (!(await timingSafeEqual(signature, await sign(payload, secret)))) {
+    return null;
+  }
+
+  return decodePayload(payload);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function sign(payload: string, secret: string): Promise<string> {
+  const signature = await hmacSign(`${SIGNATURE_CONTEXT}${payload}`, secret);
+  return signature.slice(0, SIGNATURE_LENGTH);
+}
+
+function encodePayload({ ownerId, collectionId }: CollectionShareTarget): string | null {
+  if (!SNOWFLAKE_PATTERN.test(ownerId) || !UUID_PATTERN.test(collectionId)) {
+    return null;
+  }
+
+  const bytes = new Uint8Array(PAYLOAD_BYTES);
+  new DataView(bytes.buffer).setBigUint64(0, BigInt(ownerId));
+
+  const hex = collectionId.replace(/-/g, '');
+  for (let i = 0; i < 16; i++) {
+    bytes[8 + i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+
+  return toBase64Url(bytes);
+}
+
+function decodePayload(payload: string): CollectionShareTarget | null {
+  const bytes = fromBase64Url(payload);
+  if (bytes.length !== PAYLOAD_BYTES) {
+    return null;
+  }
+
+  const ownerId = new DataView(bytes.buffer).getBigUint64(0).toString();
+  const hex = Array.from(bytes.slice(8), (b) => b.toString(16).padStart(2, '0')).join('');
+  const collectionId = [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join('-');
+
+  return { ownerId, collectionId };
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
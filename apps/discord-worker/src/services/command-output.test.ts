@@ -0,0 +1,156 @@
+/**
+ * Tests for the bot-logic command output adapter
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { DiscordInteraction } from '../types/env.js';
+import type { Translator } from './bot-i18n.js';
+import {
+    getOptionValues,
+    optionErrorEmbed,
+    runErrorEmbed,
+    toDiscordMessage,
+} from './command-output.js';
+
+const renderSvgToPngMock = vi.hoisted(() => vi.fn());
+
+vi.mock('./svg/renderer.js', () => ({
+    renderSvgToPng: renderSvgToPngMock,
+}));
+
+const t = {
+    t: (key: string, vars?: Record<string, string>) => (vars?.input ? `${key}: ${vars.input}` : key),
+} as unknown as Translator;
+
+describe('services/command-output.ts', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        renderSvgToPngMock.mockResolvedValue(new Uint8Array([1, 2]));
+    });
+
+    describe('getOptionValues', () => {
+        it('maps top-level options by name', () => {
+            const interaction = {
+                data: {
+                    options: [
+                        { name: 'color', value: '#FF0000' },
+                        { name: 'companions', value: 2 },
+                    ],
+                },
+            } as unknown as DiscordInteraction;
+
+            expect(getOptionValues(interaction)).toEqual({ color: '#FF0000', companions: 2 });
+        });
+
+        it('returns no values without options', () => {
+            expect(getOptionValues({ data: {} } as unknown as DiscordInteraction)).toEqual({});
+        });
+    });
+
+    describe('optionErrorEmbed', () => {
+        it('lists every color that did not resolve', () => {
+            const embed = optionErrorEmbed(
+                [
+                    { option: 'dye1', reason: 'unresolvedColor', input: 'foo' },
+                    { option: 'dye2', reason: 'unresolvedColor', input: 'bar' },
+                ],
+                t
+            );
+
+            expect(embed.title).toContain('common.error');
+            // The message wraps the input in quotes: "foo", "bar"
+            expect(embed.description).toBe('errors.invalidColor: foo", "bar');
+        });
+
+        it('reports missing options with the given message', () => {
+            const errors = [{ option: 'dye2', reason: 'missing' as const }];
+
+            expect(optionErrorEmbed(errors, t).description).toBe('errors.missingInput');
+            expect(optionErrorEmbed(errors, t, 'mixer.bothRequired').description).toBe(
+                'mixer.bothRequired'
+            );
+        });
+    });
+
+    describe('runErrorEmbed', () => {
+        it('maps NO_MATCHES to the no-match message', () => {
+            expect(runErrorEmbed({ error: 'NO_MATCHES' }, t).description).toBe('errors.noMatchFound');
+            expect(runErrorEmbed({ error: 'GENERATION_FAILED' }, t).description).toBe(
+                'errors.generationFailed'
+            );
+        });
+    });
+
+    describe('toDiscordMessage', () => {
+        it('renders attachments and shows the first in the first embed', async () => {
+            const message = await toDiscordMessage({
+                embeds: [
+                    { title: 'One', description: 'First', color: 0xff0000, footer: 'Footer' },
+                    { title: 'Two', color: 0x00ff00 },
+                ],
+                attachments: [
+                    { filename: 'wheel.png', svg: '<svg>wheel</svg>' },
+                    { filename: 'extra.png', svg: '<svg>extra</svg>' },
+                ],
+            });
+
+            expect(renderSvgToPngMock).toHaveBeenCalledWith('<svg>wheel</svg>', { scale: 2 }, undefined);
+            expect(message).toEqual({
+                embeds: [
+                    {
+                        title: 'One',
+                        description: 'First',
+                        color: 0xff0000,
+                        image: { url: 'attachment://wheel.png' },
+                        footer: { text: 'Footer' },
+                    },
+                    { title: 'Two', description: undefined, color: 0x00ff00 },
+                ],
+                files: [
+                    { name: 'wheel.png', data: new Uint8Array([1, 2]), contentType: 'image/png' },
+                    { name: 'extra.png', data: new Uint8Array([1, 2]), contentType: 'image/png' },
+                ],
+            });
+        });
+
+        it('maps buttons to action rows of five', async () => {
+            const buttons = Array.from({ length: 6 }, (_, i) => ({ label: `B${i}`, id: `btn_${i}` }));
+            const message = await toDiscordMessage({
+                embeds: [],
+                buttons: [
+                    ...buttons,
+                    { label: 'Open', url: 'https://xivdyetools.app', style: 'primary', emoji: '🔗' },
+                ],
+            });
+
+            expect(message.components).toHaveLength(2);
+            expect(message.components![0].components).toHaveLength(5);
+            expect(message.components![0].components[0]).toEqual({
+                type: 2,
+                style: 2,
+                label: 'B0',
+                custom_id: 'btn_0',
+            });
+            expect(message.components![1].components[1]).toEqual({
+                type: 2,
+                style: 5,
+                label: 'Open',
+                emoji: { name: '🔗' },
+                url: 'https://xivdyetools.app',
+            });
+        });
+
+        it('sets the ephemeral flag', async () => {
+            const message = await toDiscordMessage({ embeds: [], ephemeral: true });
+
+            expect(message).toEqual({ embeds: [], flags: 64 });
+        });
+
+        it('throws when rendering fails', async () => {
+            renderSvgToPngMock.mockRejectedValueOnce(new Error('Failed to render SVG'));
+
+            await expect(
+                toDiscordMessage({ embeds: [], attachments: [{ filename: 'a.png', svg: '<svg />' }] })
+            ).rejects.toThrow('Failed to render SVG');
+        });
+    });
+});
@@ -0,0 +1,154 @@
+/**
+ * Command output adapter — bot-logic shared commands on Discord.
+ *
+ * Reads slash-command options for `resolveOptions`, maps resolution and run
+ * failures to error embeds, and turns a `CommandOutput` into a Discord
+ * message: SVG attachments are rendered to PNG files (the first one shown in
+ * the first embed) and buttons become action rows.
+ *
+ * @module services/command-output
+ */
+
+import type { ExtendedLogger } from '@xivdyetools/logger';
+import type {
+  CommandOutput,
+  EmbedData,
+  OptionError,
+  OutputButton,
+  RawOptionValue,
+} from '@xivdyetools/bot-logic';
+import {
+  errorEmbed,
+  type DiscordActionRow,
+  type DiscordButton,
+  type DiscordEmbed,
+} from '../utils/response.js';
+import type { FollowUpOptions } from '../utils/discord-api.js';
+import { renderSvgToPng } from './svg/renderer.js';
+import type { Translator } from './bot-i18n.js';
+import type { DiscordInteraction } from '../types/env.js';
+
+/** Discord allows 5 buttons per action row and 5 rows per message */
+const BUTTONS_PER_ROW = 5;
+const MAX_ROWS = 5;
+
+const BUTTON_STYLES: Record<NonNullable<OutputButton['style']>, DiscordButton['style']> = {
+  primary: 1,
+  secondary: 2,
+  success: 3,
+  danger: 4,
+};
+
+/** A command reply ready for `messageResponse` or `safeEditOriginalResponse` */
+export interface DiscordCommandMessage {
+  embeds: DiscordEmbed[];
+  components?: DiscordActionRow[];
+  /** Rendered PNG attachments */
+  files?: NonNullable<FollowUpOptions['files']>;
+  /** Ephemeral flag; only applies to immediate responses (deferred ones are set when deferring) */
+  flags?: number;
+}
+
+/**
+ * Top-level slash-command option values by name, for `resolveOptions`.
+ */
+export function getOptionValues(
+  interaction: DiscordInteraction
+): Record<string, RawOptionValue | undefined> {
+  const options = interaction.data?.options ?? [];
+  return Object.fromEntries(options.map((opt) => [opt.name, opt.value]));
+}
+
+/**
+ * Error embed for options that failed to resolve. Colors that could not be
+ * resolved are listed together; anything else is reported as missing input,
+ * since Discord already enforces choices and ranges.
+ *
+ * @param missingMessage - Message for missing options (default: `errors.missingInput`)
+ */
+export function optionErrorEmbed(
+  errors: OptionError[],
+  t: Translator,
+  missingMessage = t.t('errors.missingInput')
+): DiscordEmbed {
+  const invalidInputs = errors
+    .filter((error) => error.reason !== 'missing' && error.input !== undefined)
+    .map((error) => error.input);
+
+  return errorEmbed(
+    t.t('common.error'),
+    invalidInputs.length > 0
+      ? t.t('errors.invalidColor', { input: invalidInputs.join('", "') })
+      : missingMessage
+  );
+}
+
+/**
+ * Error embed for a failed command run.
+ */
+export function runErrorEmbed(result: { error: string }, t: Translator): DiscordEmbed {
+  return errorEmbed(
+    t.t('common.error'),
+    result.error === 'NO_MATCHES' ? t.t('errors.noMatchFound') : t.t('errors.generationFailed')
+  );
+}
+
+/**
+ * Convert command output to a Discord message, rendering attachments at 2x.
+ *
+ * @throws When an attachment fails to render
+ */
+export async function toDiscordMessage(
+  output: CommandOutput,
+  logger?: ExtendedLogger
+): Promise<DiscordCommandMessage> {
+  const attachments = output.attachments ?? [];
+  const files = await Promise.all(
+    attachments.map(async (attachment) => ({
+      name: attachment.filename,
+      data: await renderSvgToPng(attachment.svg, { scale: 2 }, logger),
+      contentType: 'image/png',
+    }))
+  );
+
+  const embeds = output.embeds.map((embed, i) =>
+    toDiscordEmbed(embed, i === 0 ? attachments[0]?.filename : undefined)
+  );
+  const components = toActionRows(output.buttons ?? []);
+
+  return {
+    embeds,
+    ...(components.length > 0 && { components }),
+    ...(files.length > 0 && { files }),
+    ...(output.ephemeral && { flags: 64 }),
+  };
+}
+
+function toDiscordEmbed(embed: EmbedData, imageFilename?: string): DiscordEmbed {
+  return {
+    title: embed.title,
+    description: embed.description,
+    color: embed.color,
+    ...(embed.fields && { fields: embed.fields }),
+    ...(imageFilename && { image: { url: `attachment://${imageFilename}` } }),
+    ...(embed.footer && { footer: { text: embed.footer } }),
+  };
+}
+
+function toActionRows(buttons: OutputButton[]): DiscordActionRow[] {
+  const components = buttons.map(
+    (button): DiscordButton => ({
+      type: 2,
+      style: button.url ? 5 : BUTTON_STYLES[button.style ?? 'secondary'],
+      label: button.label,
+      ...(button.emoji && { emoji: { name: button.emoji } }),
+      ...(button.url ? { url: button.url } : { custom_id: button.id }),
+    })
+  );
+
+  const rows: DiscordActionRow[] = [];
+  for (let i = 0; i < components.length && rows.length < MAX_ROWS; i += BUTTONS_PER_ROW) {
+    rows.push({ type: 1, components: components.slice(i, i + BUTTONS_PER_ROW) });
+  }
+  return rows;
+}
@@ -13,23 +13,20 @@ import {
 } from './component-context.js';
 import type { ComponentContext } from './component-context.js';
 
-// Mock Cache API (caches.default)
-function createMockCache() {
-  const store = new Map<string, Response>();
+// Create mock KV namespace
+function createMockKV() {
+  const store = new Map<string, string>();
 
   return {
-    match: vi.fn(async (url: string) => {
-      const r = store.get(url);
-      return r ? r.clone() : undefined;
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    put: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
     }),
-    put: vi.fn(async (url: string, response: Response) => {
-      store.set(url, response.clone());
-    }),
-    delete: vi.fn(async (url: string) => {
-      return store.delete(url);
+    delete: vi.fn(async (key: string) => {
+      store.delete(key);
     }),
     _store: store,
-  };
+  } as unknown as KVNamespace & { _store: Map<string, string> };
 }
 
 // Mock logger
@@ -41,11 +38,10 @@ const mockLogger = {
 } as never;
 
 describe('Component Context Service', () => {
-  let mockCache: ReturnType<typeof createMockCache>;
+  let mockKV: ReturnType<typeof createMockKV>;
 
   beforeEach(() => {
-    mockCache = createMockCache();
-    vi.stubGlobal('caches', { default: mockCache });
+    mockKV = createMockKV();
     vi.clearAllMocks();
   });
 
@@ -111,7 +107,7 @@ describe('Component Context Service', () => {
     });
 
     it('parses all valid actions', () => {
-      const actions = ['algo', 'market', 'page', 'refresh', 'copy', 'vote', 'moderate'];
+      const actions = ['algo', 'market', 'page', 'refresh', 'copy', 'vote', 'moderate', 'answer'];
 
       for (const action of actions) {
         const result = parseCustomId(`${action}_cmd_hash`);
@@ -130,14 +126,14 @@ describe('Component Context Service', () => {
         data: { color1: '#FF0000' },
       };
 
-      const hash = await storeContext(context, CONTEXT_TTL.STANDARD, mockLogger);
+      const hash = await storeContext(mockKV, context, CONTEXT_TTL.STANDARD, mockLogger);
 
       expect(hash).toBeDefined();
       expect(hash.length).toBe(8); // 4 bytes = 8 hex chars
-      expect(mockCache.put).toHaveBeenCalled();
+      expect(mockKV.put).toHaveBeenCalled();
     });
 
-    it('stores with correct TTL in Cache-Control header', async () => {
+    it('stores with the TTL as KV expiration', async () => {
       const context = {
         command: 'test',
         userId: 'user',
@@ -146,23 +142,19 @@ describe('Component Context Service', () => {
         data: {},
       };
 
-      await storeContext(context, CONTEXT_TTL.PAGINATION, mockLogger);
+      await storeContext(mockKV, context, CONTEXT_TTL.PAGINATION, mockLogger);
 
-      expect(mockCache.put).toHaveBeenCalledWith(
-        expect.stringContaining('cache.xivdyetools.internal/ctx/v1/'),
-        expect.any(Response)
+      expect(mockKV.put).toHaveBeenCalledWith(
+        expect.stringMatching(/^xivdye:ctx:v1:[0-9a-f]{8}$/),
+        expect.any(String),
+        { expirationTtl: CONTEXT_TTL.PAGINATION }
       );
-
-      // Verify the Response had the correct Cache-Control header
-      const putCall = mockCache.put.mock.calls[0];
-      const storedResponse = putCall[1] as Response;
-      expect(storedResponse.headers.get('Cache-Control')).toBe(`s-maxage=${CONTEXT_TTL.PAGINATION}`);
     });
   });
 
   describe('getContext', () => {
     it('returns null when context not found', async () => {
-      const result = await getContext('nonexistent', mockLogger);
+      const result = await getContext(mockKV, 'nonexistent', mockLogger);
       expect(result).toBeNull();
     });
 
@@ -175,8 +167,8 @@ describe('Component Context Service', () => {
         data: { test: true },
       };
 
-      const hash = await storeContext(context, CONTEXT_TTL.STANDARD, mockLogger);
-      const result = await getContext(hash, mockLogger);
+      const hash = await storeContext(mockKV, context, CONTEXT_TTL.STANDARD, mockLogger);
+      const result = await getContext(mockKV, hash, mockLogger);
 
       expect(result).toBeDefined();
       expect(result?.command).toBe('mixer');
@@ -195,12 +187,9 @@ describe('Component Context Service', () => {
         expiresAt: Date.now() - 1000, // Expired 1 second ago
       };
 
-      const url = 'https://cache.xivdyetools.internal/ctx/v1/expired';
-      mockCache._store.set(url, new Response(JSON.stringify(expiredContext), {
-        headers: { 'Content-Type': 'application/json' },
-      }));
+      mockKV._store.set('xivdye:ctx:v1:expired', JSON.stringify(expiredContext));
 
-      const result = await getContext('expired', mockLogger);
+      const result = await getContext(mockKV, 'expired', mockLogger);
       expect(result).toBeNull();
     });
   });
@@ -215,9 +204,10 @@ describe('Component Context Service', () => {
         data: { mode: 'rgb' },
       };
 
-      const hash = await storeContext(context, CONTEXT_TTL.STANDARD, mockLogger);
+      const hash = await storeContext(mockKV, context, CONTEXT_TTL.STANDARD, mockLogger);
 
       const updated = await updateContext(
+        mockKV,
         hash,
         { data: { mode: 'spectral' } },
         CONTEXT_TTL.STANDARD,
@@ -230,6 +220,7 @@ describe('Component Context Service', () => {
 
     it('returns null for non-existent context', async () => {
       const result = await updateContext(
+        mockKV,
         'nonexistent',
         { data: { test: true } },
         CONTEXT_TTL.STANDARD,
@@ -1,28 +1,24 @@
 /**
  * Component Context Storage (V4)
  *
- * Stores interaction context via the Cache API for Discord message components.
+ * Stores interaction context in KV for Discord message components.
  * Since Discord custom_id is limited to 100 characters, we store
- * full context data in the Cache API and reference it via a short hash.
+ * full context data in KV and reference it via a short hash.
  *
  * Custom ID Format: {action}_{command}_{shortHash}
  * Example: algo_mixer_a1b2c3d4
  *
- * Cache Key: https://cache.xivdyetools.internal/ctx/v1/{hash}
- * TTL: 1 hour (15 minutes for pagination)
+ * KV Key: `xivdye:ctx:v1:{hash}`
+ * TTL: 15 minutes (Discord's interaction-token lifetime)
  *
  * @module services/component-context
- 
  *
- * ⚠️ BUG-075 (2026-07-18 audit) — read before wiring this module into
- * production paths (it currently has no production callers):
- *  - `caches.default` is PER-DATACENTER, not global storage. A component
- *    interaction routed via a different CF colo cannot find the context.
- *    Back this with KV (+ expirationTtl) or a Durable Object first.
- *  - Prefer NOT storing `interactionToken` at all — every component
- *    interaction arrives with its own fresh token.
- *  - Consumers of getContext must verify `context.userId` against the
- *    interacting user (the 32-bit key hash can collide).
+ * BUG-075 (2026-07-18 audit): contexts used to live in `caches.default`,
+ * which is per-datacenter — a component interaction routed via a different
+ * colo could not find its context. KV (with expirationTtl) is global.
+ * Consumers of getContext must still verify `context.userId` against the
+ * interacting user where only the invoker may act (the 32-bit key hash can
+ * collide).
  */
 
 import type { ExtendedLogger } from '@xivdyetools/logger';
@@ -31,11 +27,11 @@ import type { ExtendedLogger } from '@xivdyetools/logger';
 // Constants
 // ============================================================================
 
-/** Base URL for synthetic cache keys (not actually fetched) */
-const CACHE_BASE_URL = 'https://cache.xivdyetools.internal/ctx';
+/** KV schema version - bump to invalidate all stored contexts */
+const KV_SCHEMA_VERSION = 'v1';
 
-/** Cache schema version - bump to invalidate all cached contexts */
-const CACHE_SCHEMA_VERSION = 'v1';
+/** KV key prefix for stored contexts */
+const CONTEXT_KEY_PREFIX = `xivdye:ctx:${KV_SCHEMA_VERSION}:`;
 
 /** TTL in seconds */
 export const CONTEXT_TTL = {
@@ -67,12 +63,16 @@ export type ComponentAction =
   | 'refresh'   // Refresh with current settings
   | 'copy'      // Copy value to clipboard (via modal)
   | 'vote'      // Vote on preset
-  | 'moderate'; // Moderation action
+  | 'moderate'  // Moderation action
+  | 'answer';   // Answer a /dyequiz round
 
 /**
- * Context data stored in cache
+ * Context data stored in KV
+ *
+ * @typeParam TData - Command-specific data; commands that read it back from
+ *   KV should check its shape before narrowing to their own type
  */
-export interface ComponentContext {
+export interface ComponentContext<TData extends object = Record<string, unknown>> {
   /** Original command name */
   command: string;
   /** Original user ID (to verify authorization) */
@@ -82,7 +82,7 @@ export interface ComponentContext {
   /** Application ID for webhook URL */
   applicationId: string;
   /** Command-specific data */
-  data: Record<string, unknown>;
+  data: TData;
   /** When this context expires */
   expiresAt: number;
 }
@@ -95,21 +95,21 @@ export interface ParsedCustomId {
   action: ComponentAction;
   /** Command name */
   command: string;
-  /** Context hash (for cache lookup) */
+  /** Context hash (for KV lookup) */
   hash: string;
   /** Additional value (e.g., selected option) */
   value?: string;
 }
 
 // ============================================================================
-// Cache Key Utilities
+// Key Utilities
 // ============================================================================
 
 /**
- * Build a synthetic URL cache key for a context entry
+ * Build the KV key for a context entry
  */
-function buildContextCacheUrl(hash: string): string {
-  return `${CACHE_BASE_URL}/${CACHE_SCHEMA_VERSION}/${hash}`;
+function buildContextKey(hash: string): string {
+  return `${CONTEXT_KEY_PREFIX}${hash}`;
 }
 
 // ============================================================================
@@ -175,7 +175,7 @@ export function parseCustomId(customId: string): ParsedCustomId | null {
   const [action, command, hash, ...rest] = parts;
 
   // Validate action
-  const validActions: ComponentAction[] = ['algo', 'market', 'page', 'refresh', 'copy', 'vote', 'moderate'];
+  const validActions: ComponentAction[] = ['algo', 'market', 'page', 'refresh', 'copy', 'vote', 'moderate', 'answer'];
   if (!validActions.includes(action as ComponentAction)) {
     return null;
   }
@@ -193,15 +193,17 @@ export function parseCustomId(customId: string): ParsedCustomId | null {
 // ============================================================================
 
 /**
- * Store context data in the Cache API and return the hash
+ * Store context data in KV and return the hash
  *
+ * @param kv - KV namespace binding
  * @param context - Context data to store
  * @param ttlSeconds - TTL in seconds (default: STANDARD)
  * @param logger - Optional logger
  * @returns Short hash for the stored context
  */
-export async function storeContext(
-  context: Omit<ComponentContext, 'expiresAt'>,
+export async function storeContext<TData extends object>(
+  kv: KVNamespace,
+  context: Omit<ComponentContext<TData>, 'expiresAt'>,
   ttlSeconds: number = CONTEXT_TTL.STANDARD,
   logger?: ExtendedLogger
 ): Promise<string> {
@@ -211,22 +213,13 @@ export async function storeContext(
     const hash = await generateShortHash(hashInput);
 
     // Add expiration timestamp
-    const fullContext: ComponentContext = {
+    const fullContext: ComponentContext<TData> = {
       ...context,
       expiresAt: Date.now() + ttlSeconds * 1000,
     };
 
-    // Store in Cache API with TTL
-    const url = buildContextCacheUrl(hash);
-    const cache = caches.default;
-    const response = new Response(JSON.stringify(fullContext), {
-      headers: {
-        'Content-Type': 'application/json',
-        'Cache-Control': `s-maxage=${ttlSeconds}`,
-      },
-    });
-
-    await cache.put(url, response);
+    // Store in KV with TTL
+    await kv.put(buildContextKey(hash), JSON.stringify(fullContext), { expirationTtl: ttlSeconds });
 
     if (logger) {
       logger.debug('Stored component context', { hash, command: context.command, ttl: ttlSeconds });
@@ -242,31 +235,31 @@ export async function storeContext(
 }
 
 /**
- * Retrieve context data from the Cache API
+ * Retrieve context data from KV
  *
+ * @param kv - KV namespace binding
  * @param hash - Context hash
  * @param logger - Optional logger
  * @returns Context data or null if not found/expired
  */
 export async function getContext(
+  kv: KVNamespace,
   hash: string,
   logger?: ExtendedLogger
 ): Promise<ComponentContext | null> {
   try {
-    const url = buildContextCacheUrl(hash);
-    const cache = caches.default;
-    const response = await cache.match(url);
+    const data = await kv.get(buildContextKey(hash));
 
-    if (!response) {
+    if (!data) {
       if (logger) {
         logger.debug('Component context not found', { hash });
       }
       return null;
     }
 
-    const context: ComponentContext = await response.json();
+    const context = JSON.parse(data) as ComponentContext;
 
-    // Double-check expiration (Cache-Control should handle this, but be safe)
+    // Double-check expiration (expirationTtl should handle this, but be safe)
     if (context.expiresAt < Date.now()) {
       if (logger) {
         logger.debug('Component context expired', { hash });
@@ -284,8 +277,9 @@ export async function getContext(
 }
 
 /**
- * Update context data in the Cache API (extends TTL)
+ * Update context data in KV (extends TTL)
  *
+ * @param kv - KV namespace binding
  * @param hash - Context hash
  * @param updates - Partial updates to apply
  * @param ttlSeconds - New TTL in seconds
@@ -293,13 +287,14 @@ export async function getContext(
  * @returns Updated context or null if not found
  */
 export async function updateContext(
+  kv: KVNamespace,
   hash: string,
   updates: Partial<Pick<ComponentContext, 'data'>>,
   ttlSeconds: number = CONTEXT_TTL.STANDARD,
   logger?: ExtendedLogger
 ): Promise<ComponentContext | null> {
   try {
-    const existing = await getContext(hash, logger);
+    const existing = await getContext(kv, hash, logger);
 
     if (!existing) {
       return null;
@@ -311,16 +306,7 @@ export async function updateContext(
       expiresAt: Date.now() + ttlSeconds * 1000,
     };
 
-    const url = buildContextCacheUrl(hash);
-    const cache = caches.default;
-    const response = new Response(JSON.stringify(updated), {
-      headers: {
-        'Content-Type': 'application/json',
-        'Cache-Control': `s-maxage=${ttlSeconds}`,
-      },
-    });
-
-    await cache.put(url, response);
+    await kv.put(buildContextKey(hash), JSON.stringify(updated), { expirationTtl: ttlSeconds });
 
     if (logger) {
       logger.debug('Updated component context', { hash });
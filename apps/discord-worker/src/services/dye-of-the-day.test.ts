@@ -0,0 +1,191 @@
+/**
+ * Tests for Dye of the Day Subscription Service
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  getSubscription,
+  subscribe,
+  unsubscribe,
+  markPosted,
+  listDueGuildIds,
+  isPostDue,
+  DOTD_KEY_PREFIX,
+  type DyeOfTheDaySubscription,
+} from './dye-of-the-day.js';
+
+// Create mock KV namespace (keeps put metadata so list() can return it)
+function createMockKV() {
+  const store = new Map<string, string>();
+  const metadata = new Map<string, unknown>();
+
+  return {
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    put: vi.fn(async (key: string, value: string, options?: { metadata?: unknown }) => {
+      store.set(key, value);
+      if (options?.metadata) {
+        metadata.set(key, options.metadata);
+      }
+    }),
+    delete: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    list: vi.fn(async ({ prefix }: { prefix: string }) => ({
+      keys: [...store.keys()]
+        .filter((k) => k.startsWith(prefix))
+        .map((name) => ({ name, metadata: metadata.get(name) })),
+      list_complete: true,
+    })),
+    _store: store,
+  } as unknown as KVNamespace & { _store: Map<string, string> };
+}
+
+// Create mock logger
+function createMockLogger() {
+  return {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  } as never;
+}
+
+describe('Dye of the Day Subscription Service', () => {
+  let mockKV: ReturnType<typeof createMockKV>;
+  let mockLogger: ReturnType<typeof createMockLogger>;
+  const guildId = 'guild-123';
+
+  beforeEach(() => {
+    mockKV = createMockKV();
+    mockLogger = createMockLogger();
+  });
+
+  describe('subscribe', () => {
+    it('should store the subscription under the guild key', async () => {
+      const result = await subscribe(mockKV, guildId, { channelId: 'chan-1', hour: 9 }, 'admin-1', mockLogger);
+
+      expect(result).toMatchObject({ guildId, channelId: 'chan-1', hour: 9, subscribedBy: 'admin-1' });
+      expect(mockKV.put).toHaveBeenCalledWith(`${DOTD_KEY_PREFIX}${guildId}`, expect.any(String), {
+        metadata: { hour: 9, lastPostedDate: undefined },
+      });
+      expect(await getSubscription(mockKV, guildId)).toMatchObject({ channelId: 'chan-1', hour: 9 });
+    });
+
+    it('should keep lastPostedDate when re-subscribing', async () => {
+      const first = await subscribe(mockKV, guildId, { channelId: 'chan-1', hour: 9 }, 'admin-1');
+      await markPosted(mockKV, first!, '2026-06-01');
+
+      const result = await subscribe(
+        mockKV,
+        guildId,
+        { channelId: 'chan-2', hour: 12, world: 'Cactuar' },
+        'admin-2'
+      );
+
+      expect(result).toMatchObject({ channelId: 'chan-2', world: 'Cactuar', lastPostedDate: '2026-06-01' });
+    });
+
+    it('should return null when the write fails', async () => {
+      vi.mocked(mockKV.put).mockRejectedValueOnce(new Error('KV error'));
+
+      const result = await subscribe(mockKV, guildId, { channelId: 'chan-1', hour: 9 }, 'admin-1', mockLogger);
+
+      expect(result).toBeNull();
+      expect(vi.mocked(mockLogger as { error: () => void }).error).toHaveBeenCalled();
+    });
+  });
+
+  describe('getSubscription', () => {
+    it('should return null for unsubscribed guilds', async () => {
+      expect(await getSubscription(mockKV, guildId)).toBeNull();
+    });
+
+    it('should return null on invalid JSON', async () => {
+      mockKV._store.set(`${DOTD_KEY_PREFIX}${guildId}`, 'not json');
+
+      expect(await getSubscription(mockKV, guildId, mockLogger)).toBeNull();
+    });
+  });
+
+  describe('unsubscribe', () => {
+    it('should remove the subscription', async () => {
+      await subscribe(mockKV, guildId, { channelId: 'chan-1', hour: 9 }, 'admin-1');
+
+      expect(await unsubscribe(mockKV, guildId)).toBe(true);
+      expect(await getSubscription(mockKV, guildId)).toBeNull();
+    });
+
+    it('should return false when the delete fails', async () => {
+      vi.mocked(mockKV.delete).mockRejectedValueOnce(new Error('KV error'));
+
+      expect(await unsubscribe(mockKV, guildId, mockLogger)).toBe(false);
+    });
+  });
+
+  describe('listDueGuildIds', () => {
+    const now = new Date('2026-06-01T16:00:00Z');
+
+    it('should find due guilds from key metadata without reading subscriptions', async () => {
+      await subscribe(mockKV, 'guild-a', { channelId: 'chan-1', hour: 9 }, 'admin-1');
+      const posted = await subscribe(mockKV, 'guild-b', { channelId: 'chan-2', hour: 9 }, 'admin-1');
+      await markPosted(mockKV, posted!, '2026-06-01');
+      await subscribe(mockKV, 'guild-c', { channelId: 'chan-3', hour: 20 }, 'admin-1');
+      mockKV._store.set('guild-prefs:v1:guild-d', '{}');
+      vi.mocked(mockKV.get).mockClear();
+
+      expect(await listDueGuildIds(mockKV, now, '2026-06-01')).toEqual({
+        subscriptions: 3,
+        dueGuildIds: ['guild-a'],
+      });
+      expect(mockKV.get).not.toHaveBeenCalled();
+    });
+
+    it('should count keys without metadata as due', async () => {
+      mockKV._store.set(`${DOTD_KEY_PREFIX}guild-a`, '{}');
+
+      expect((await listDueGuildIds(mockKV, now, '2026-06-01')).dueGuildIds).toEqual(['guild-a']);
+    });
+
+    it('should follow list cursors', async () => {
+      vi.mocked(mockKV.list)
+        .mockResolvedValueOnce({
+          keys: [{ name: `${DOTD_KEY_PREFIX}guild-a`, metadata: { hour: 9 } }],
+          list_complete: false,
+          cursor: 'next',
+        } as never)
+        .mockResolvedValueOnce({
+          keys: [{ name: `${DOTD_KEY_PREFIX}guild-b`, metadata: { hour: 9 } }],
+          list_complete: true,
+        } as never);
+
+      expect((await listDueGuildIds(mockKV, now, '2026-06-01')).dueGuildIds).toEqual(['guild-a', 'guild-b']);
+      expect(mockKV.list).toHaveBeenLastCalledWith({ prefix: DOTD_KEY_PREFIX, cursor: 'next' });
+    });
+  });
+
+  describe('isPostDue', () => {
+    const subscription: DyeOfTheDaySubscription = {
+      guildId,
+      channelId: 'chan-1',
+      hour: 15,
+      subscribedBy: 'admin-1',
+      subscribedAt: '2026-05-01T00:00:00.000Z',
+    };
+
+    it('should not be due before the posting hour', () => {
+      expect(isPostDue(subscription, new Date('2026-06-01T14:59:00Z'), '2026-06-01')).toBe(false);
+    });
+
+    it('should be due from the posting hour until posted', () => {
+      expect(isPostDue(subscription, new Date('2026-06-01T15:00:00Z'), '2026-06-01')).toBe(true);
+      expect(isPostDue(subscription, new Date('2026-06-01T23:30:00Z'), '2026-06-01')).toBe(true);
+    });
+
+    it('should not be due once posted today', () => {
+      const posted = { ...subscription, lastPostedDate: '2026-06-01' };
+
+      expect(isPostDue(posted, new Date('2026-06-01T18:00:00Z'), '2026-06-01')).toBe(false);
+      expect(isPostDue(posted, new Date('2026-06-02T15:00:00Z'), '2026-06-02')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Dye of the Day Subscriptions
+ *
+ * One subscription per guild: the channel the scheduled Dye of the Day post
+ * goes to, the UTC hour it goes out, and the last date it was posted (so the
+ * half-hourly cron posts once per day). Stored under its own KV prefix so the
+ * scheduled run can kv.list() only subscribed guilds; the hour and last posted
+ * date are mirrored into KV metadata so that list alone finds the guilds that
+ * are due.
+ *
+ * KV Key: `xivdye:dotd:v1:{guildId}`
+ *
+ * @module services/dye-of-the-day
+ */
+
+import type { ExtendedLogger } from '@xivdyetools/logger';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * KV schema version for data format evolution
+ * Increment when changing the data structure stored in KV
+ */
+const KV_SCHEMA_VERSION = 'v1';
+
+/** Separate prefix so the scheduled run can kv.list() only subscribed guilds */
+export const DOTD_KEY_PREFIX = `xivdye:dotd:${KV_SCHEMA_VERSION}:`;
+
+/** Default posting hour (UTC) when the administrator doesn't pick one */
+export const DEFAULT_POST_HOUR = 15;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A guild's Dye of the Day subscription
+ */
+export interface DyeOfTheDaySubscription {
+  guildId: string;
+  /** Channel the daily post is sent to */
+  channelId: string;
+  /** UTC hour (0-23) from which the day's post goes out */
+  hour: number;
+  /** World or datacenter for the market price (falls back to the server's /server-settings world) */
+  world?: string;
+  /** Discord user ID of the administrator who subscribed */
+  subscribedBy: string;
+  /** ISO timestamp of subscription */
+  subscribedAt: string;
+  /** UTC date (YYYY-MM-DD) of the last successful post */
+  lastPostedDate?: string;
+}
+
+/** Schedule fields kept in the subscription key's KV metadata */
+type ScheduleMetadata = Pick<DyeOfTheDaySubscription, 'hour' | 'lastPostedDate'>;
+
+/**
+ * Subscribed guilds found by one scan of the subscription keys
+ */
+export interface DueGuildScan {
+  /** Number of subscribed guilds */
+  subscriptions: number;
+  /** Guilds whose post is due */
+  dueGuildIds: string[];
+}
+
+// ============================================================================
+// Subscription Functions
+// ============================================================================
+
+/**
+ * Get a guild's subscription
+ *
+ * @returns The subscription, or null if the guild isn't subscribed
+ */
+export async function getSubscription(
+  kv: KVNamespace,
+  guildId: string,
+  logger?: ExtendedLogger
+): Promise<DyeOfTheDaySubscription | null> {
+  try {
+    const data = await kv.get(`${DOTD_KEY_PREFIX}${guildId}`);
+    return data ? (JSON.parse(data) as DyeOfTheDaySubscription) : null;
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to get Dye of the Day subscription', error instanceof Error ? error : undefined);
+    }
+    return null;
+  }
+}
+
+/**
+ * Subscribe a channel, replacing any existing subscription for the guild
+ *
+ * Re-subscribing keeps lastPostedDate, so moving the post to another channel
+ * doesn't send a second post the same day.
+ *
+ * @returns The saved subscription, or null if the write failed
+ */
+export async function subscribe(
+  kv: KVNamespace,
+  guildId: string,
+  options: Pick<DyeOfTheDaySubscription, 'channelId' | 'hour' | 'world'>,
+  subscribedBy: string,
+  logger?: ExtendedLogger
+): Promise<DyeOfTheDaySubscription | null> {
+  try {
+    const existing = await getSubscription(kv, guildId, logger);
+    const subscription: DyeOfTheDaySubscription = {
+      guildId,
+      channelId: options.channelId,
+      hour: options.hour,
+      world: options.world,
+      subscribedBy,
+      subscribedAt: new Date().toISOString(),
+      lastPostedDate: existing?.lastPostedDate,
+    };
+
+    await saveSubscription(kv, subscription);
+    return subscription;
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to save Dye of the Day subscription', error instanceof Error ? error : undefined, {
+        guildId,
+      });
+    }
+    return null;
+  }
+}
+
+/**
+ * Remove a guild's subscription
+ *
+ * @returns True if removed (or there was nothing to remove)
+ */
+export async function unsubscribe(kv: KVNamespace, guildId: string, logger?: ExtendedLogger): Promise<boolean> {
+  try {
+    await kv.delete(`${DOTD_KEY_PREFIX}${guildId}`);
+    return true;
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to remove Dye of the Day subscription', error instanceof Error ? error : undefined, {
+        guildId,
+      });
+    }
+    return false;
+  }
+}
+
+/**
+ * Record that today's post went out
+ */
+export async function markPosted(
+  kv: KVNamespace,
+  subscription: DyeOfTheDaySubscription,
+  dateKey: string,
+  logger?: ExtendedLogger
+): Promise<void> {
+  try {
+    await saveSubscription(kv, { ...subscription, lastPostedDate: dateKey });
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to mark Dye of the Day posted', error instanceof Error ? error : undefined, {
+        guildId: subscription.guildId,
+      });
+    }
+  }
+}
+
+/**
+ * Save a subscription, mirroring its schedule into metadata
+ */
+async function saveSubscription(kv: KVNamespace, subscription: DyeOfTheDaySubscription): Promise<void> {
+  const metadata: ScheduleMetadata = {
+    hour: subscription.hour,
+    lastPostedDate: subscription.lastPostedDate,
+  };
+  await kv.put(`${DOTD_KEY_PREFIX}${subscription.guildId}`, JSON.stringify(subscription), { metadata });
+}
+
+/**
+ * Find the guilds whose post is due
+ *
+ * Reads only key metadata (no per-guild KV read) and follows KV list
+ * cursors, so there is no 1,000-key cap. A key without metadata counts as
+ * due; the caller checks the full subscription before posting.
+ */
+export async function listDueGuildIds(kv: KVNamespace, now: Date, dateKey: string): Promise<DueGuildScan> {
+  const scan: DueGuildScan = { subscriptions: 0, dueGuildIds: [] };
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list<ScheduleMetadata>({ prefix: DOTD_KEY_PREFIX, cursor });
+    for (const key of page.keys) {
+      scan.subscriptions++;
+      if (!key.metadata || isPostDue(key.metadata, now, dateKey)) {
+        scan.dueGuildIds.push(key.name.slice(DOTD_KEY_PREFIX.length));
+      }
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return scan;
+}
+
+/**
+ * Check whether a subscription is due for the given time
+ *
+ * Due once the posting hour has arrived and nothing was posted today, so a
+ * failed or skipped run is caught up by the next one the same day.
+ */
+export function isPostDue(schedule: ScheduleMetadata, now: Date, dateKey: string): boolean {
+  return schedule.lastPostedDate !== dateKey && now.getUTCHours() >= schedule.hour;
+}
@@ -0,0 +1,291 @@
+/**
+ * Tests for Dye Quiz Rounds and Scores
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Dye } from '@xivdyetools/types';
+import {
+  setChannelRound,
+  getChannelRound,
+  submitQuizAnswer,
+  getPlayerStats,
+  getLeaderboard,
+  QUIZ_COMMAND,
+  type QuizRoundState,
+} from './dyequiz.js';
+import { storeContext, CONTEXT_TTL } from './component-context.js';
+import { dyeService } from '../utils/color.js';
+
+// Create mock KV namespace (keeps put metadata so list() can return it)
+function createMockKV() {
+  const store = new Map<string, string>();
+  const metadata = new Map<string, unknown>();
+
+  return {
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    put: vi.fn(async (key: string, value: string, options?: { metadata?: unknown }) => {
+      store.set(key, value);
+      if (options?.metadata) {
+        metadata.set(key, options.metadata);
+      }
+    }),
+    delete: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    list: vi.fn(async ({ prefix }: { prefix: string }) => ({
+      keys: [...store.keys()]
+        .filter((k) => k.startsWith(prefix))
+        .map((name) => ({ name, metadata: metadata.get(name) })),
+      list_complete: true,
+    })),
+    _store: store,
+  } as unknown as KVNamespace & { _store: Map<string, string> };
+}
+
+// Create mock logger
+function createMockLogger() {
+  return {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  } as never;
+}
+
+function dyeByName(name: string): Dye {
+  const dye = dyeService.getAllDyes().find((d) => d.name === name);
+  if (!dye) throw new Error(`Missing test dye: ${name}`);
+  return dye;
+}
+
+describe('Dye Quiz Service', () => {
+  let mockKV: ReturnType<typeof createMockKV>;
+  let mockLogger: ReturnType<typeof createMockLogger>;
+  const guildId = 'guild-123';
+  const snowWhite = dyeByName('Snow White');
+  const pureWhite = dyeByName('Pure White');
+  const sootBlack = dyeByName('Soot Black');
+
+  async function startRound(overrides: Partial<QuizRoundState> = {}): Promise<string> {
+    const round: QuizRoundState = {
+      guildId,
+      channelId: 'chan-1',
+      locale: 'en',
+      difficulty: 'normal',
+      pool: 'all',
+      answerItemId: snowWhite.itemID,
+      choiceItemIds: [snowWhite.itemID, pureWhite.itemID, sootBlack.itemID],
+      ...overrides,
+    };
+    return storeContext(
+      mockKV,
+      {
+        command: QUIZ_COMMAND,
+        userId: 'host',
+        interactionToken: 'token',
+        applicationId: 'app',
+        data: round,
+      },
+      CONTEXT_TTL.STANDARD
+    );
+  }
+
+  beforeEach(() => {
+    mockKV = createMockKV();
+    mockLogger = createMockLogger();
+  });
+
+  describe('channel rounds', () => {
+    it('should point the channel at its newest round', async () => {
+      await setChannelRound(mockKV, 'chan-1', 'aaaa1111');
+      await setChannelRound(mockKV, 'chan-1', 'bbbb2222');
+
+      expect(await getChannelRound(mockKV, 'chan-1')).toBe('bbbb2222');
+      expect(mockKV.put).toHaveBeenLastCalledWith('xivdye:quiz:v1:round:chan-1', 'bbbb2222', {
+        expirationTtl: CONTEXT_TTL.STANDARD,
+      });
+    });
+
+    it('should return null for a channel without a round', async () => {
+      expect(await getChannelRound(mockKV, 'chan-2')).toBeNull();
+    });
+  });
+
+  describe('submitQuizAnswer', () => {
+    it('should score a right answer, close the round and save the stats', async () => {
+      const hash = await startRound();
+
+      const outcome = await submitQuizAnswer(mockKV, hash, 'user-1', snowWhite, mockLogger);
+
+      expect(outcome.status).toBe('scored');
+      if (outcome.status !== 'scored') return;
+      expect(outcome.score).toMatchObject({ correct: true, points: 150, streak: 1 });
+      expect(outcome.stats).toMatchObject({ points: 150, answered: 1, correct: 1, streak: 1, bestStreak: 1 });
+      expect(outcome.solved).toBe(true);
+
+      expect(mockKV._store.get(`xivdye:quiz:v1:solved:${hash}`)).toBe('user-1');
+      expect(mockKV._store.get(`xivdye:quiz:v1:answer:${hash}:user-1`)).toBe('150');
+    });
+
+    it('should never rewrite the round context', async () => {
+      const hash = await startRound();
+      const stored = mockKV._store.get(`xivdye:ctx:v1:${hash}`);
+
+      await submitQuizAnswer(mockKV, hash, 'user-1', pureWhite, mockLogger);
+      await submitQuizAnswer(mockKV, hash, 'user-2', snowWhite, mockLogger);
+
+      expect(mockKV._store.get(`xivdye:ctx:v1:${hash}`)).toBe(stored);
+    });
+
+    it('should keep answers that race on the same round', async () => {
+      const hash = await startRound();
+
+      // Both read the round before either writes
+      const [first, second] = await Promise.all([
+        submitQuizAnswer(mockKV, hash, 'user-1', pureWhite, mockLogger),
+        submitQuizAnswer(mockKV, hash, 'user-2', sootBlack, mockLogger),
+      ]);
+
+      expect(first.status).toBe('scored');
+      expect(second.status).toBe('scored');
+      expect(mockKV._store.has(`xivdye:quiz:v1:answer:${hash}:user-1`)).toBe(true);
+      expect(mockKV._store.has(`xivdye:quiz:v1:answer:${hash}:user-2`)).toBe(true);
+    });
+
+    it('should not let a later right answer take over a claimed round', async () => {
+      const hash = await startRound();
+      const solvedKey = `xivdye:quiz:v1:solved:${hash}`;
+      mockKV._store.set(solvedKey, 'user-1');
+      // user-2's first read of the round predates user-1's claim
+      let solvedReads = 0;
+      vi.mocked(mockKV.get).mockImplementation((async (key: string) => {
+        if (key === solvedKey && solvedReads++ === 0) return null;
+        return mockKV._store.get(key) ?? null;
+      }) as never);
+
+      const outcome = await submitQuizAnswer(mockKV, hash, 'user-2', snowWhite, mockLogger);
+
+      expect(outcome.status === 'scored' && outcome.solved).toBe(false);
+      expect(mockKV._store.get(`xivdye:quiz:v1:solved:${hash}`)).toBe('user-1');
+    });
+
+    it('should give partial credit for a near-miss and keep the round open', async () => {
+      const hash = await startRound();
+
+      const outcome = await submitQuizAnswer(mockKV, hash, 'user-1', pureWhite, mockLogger);
+
+      expect(outcome.status).toBe('scored');
+      if (outcome.status !== 'scored') return;
+      expect(outcome.score.correct).toBe(false);
+      expect(outcome.score.points).toBeGreaterThan(0);
+      expect(outcome.solved).toBe(false);
+      expect(mockKV._store.has(`xivdye:quiz:v1:solved:${hash}`)).toBe(false);
+    });
+
+    it('should allow one answer per player', async () => {
+      const hash = await startRound();
+      await submitQuizAnswer(mockKV, hash, 'user-1', sootBlack, mockLogger);
+
+      const outcome = await submitQuizAnswer(mockKV, hash, 'user-1', snowWhite, mockLogger);
+
+      expect(outcome).toEqual({ status: 'alreadyAnswered', points: 0 });
+    });
+
+    it('should report a solved round as closed', async () => {
+      const hash = await startRound();
+      await submitQuizAnswer(mockKV, hash, 'user-1', snowWhite, mockLogger);
+
+      const outcome = await submitQuizAnswer(mockKV, hash, 'user-2', snowWhite, mockLogger);
+
+      expect(outcome).toMatchObject({ status: 'closed', solvedBy: 'user-1' });
+    });
+
+    it('should report an expired round', async () => {
+      expect(await submitQuizAnswer(mockKV, 'deadbeef', 'user-1', snowWhite, mockLogger)).toEqual({
+        status: 'expired',
+      });
+    });
+
+    it('should treat a malformed round context as expired', async () => {
+      const hash = await storeContext(mockKV, {
+        command: QUIZ_COMMAND,
+        userId: 'host',
+        interactionToken: 'token',
+        applicationId: 'app',
+        data: { guildId, answerItemId: String(snowWhite.itemID) },
+      });
+
+      expect(await submitQuizAnswer(mockKV, hash, 'user-1', snowWhite, mockLogger)).toEqual({
+        status: 'expired',
+      });
+    });
+
+    it('should carry the streak across rounds and reset it on a miss', async () => {
+      await submitQuizAnswer(mockKV, await startRound(), 'user-1', snowWhite, mockLogger);
+      const second = await submitQuizAnswer(mockKV, await startRound({ channelId: 'chan-2' }), 'user-1', snowWhite);
+
+      expect(second.status === 'scored' && second.score.streakBonus).toBe(10);
+
+      await submitQuizAnswer(mockKV, await startRound({ channelId: 'chan-3' }), 'user-1', sootBlack);
+      const stats = await getPlayerStats(mockKV, guildId, 'user-1');
+      expect(stats).toMatchObject({ answered: 3, correct: 2, streak: 0, bestStreak: 2 });
+    });
+  });
+
+  describe('getPlayerStats', () => {
+    it('should return zeroed stats for a new player', async () => {
+      expect(await getPlayerStats(mockKV, guildId, 'new-user')).toMatchObject({
+        userId: 'new-user',
+        points: 0,
+        streak: 0,
+      });
+    });
+
+    it('should log and fall back to zeroed stats on a read error', async () => {
+      vi.mocked(mockKV.get).mockRejectedValueOnce(new Error('KV down'));
+
+      const stats = await getPlayerStats(mockKV, guildId, 'user-1', mockLogger);
+
+      expect(stats.points).toBe(0);
+      expect((mockLogger as unknown as { error: ReturnType<typeof vi.fn> }).error).toHaveBeenCalled();
+    });
+  });
+
+  describe('getLeaderboard', () => {
+    it('should rank players in the guild by points from key metadata', async () => {
+      await submitQuizAnswer(mockKV, await startRound(), 'user-1', pureWhite);
+      await submitQuizAnswer(mockKV, await startRound({ channelId: 'chan-2' }), 'user-2', snowWhite);
+      await submitQuizAnswer(mockKV, await startRound({ channelId: 'chan-3' }), 'user-3', sootBlack);
+      await submitQuizAnswer(
+        mockKV,
+        await startRound({ guildId: 'other-guild', channelId: 'chan-4' }),
+        'user-4',
+        snowWhite
+      );
+
+      const leaderboard = await getLeaderboard(mockKV, guildId);
+
+      // user-3 scored nothing; user-4 played in another guild
+      expect(leaderboard.map((entry) => entry.userId)).toEqual(['user-2', 'user-1']);
+      expect(leaderboard[0]).toMatchObject({ points: 150, bestStreak: 1 });
+    });
+
+    it('should follow list cursors', async () => {
+      vi.mocked(mockKV.list)
+        .mockResolvedValueOnce({
+          keys: [{ name: `xivdye:quiz:v1:score:${guildId}:a`, metadata: { points: 10, streak: 0, bestStreak: 0 } }],
+          list_complete: false,
+          cursor: 'next',
+        } as never)
+        .mockResolvedValueOnce({
+          keys: [{ name: `xivdye:quiz:v1:score:${guildId}:b`, metadata: { points: 20, streak: 1, bestStreak: 1 } }],
+          list_complete: true,
+        } as never);
+
+      const leaderboard = await getLeaderboard(mockKV, guildId);
+
+      expect(mockKV.list).toHaveBeenLastCalledWith({ prefix: `xivdye:quiz:v1:score:${guildId}:`, cursor: 'next' });
+      expect(leaderboard.map((entry) => entry.userId)).toEqual(['b', 'a']);
+    });
+  });
+});
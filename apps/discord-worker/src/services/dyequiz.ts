@@ -0,0 +1,325 @@
+/**
+ * Dye Quiz Rounds and Scores
+ *
+ * Round setup (answer, choices) lives in component-context storage, so the
+ * answer buttons and `/dyequiz guess` work across interactions; each channel
+ * keeps a pointer to its open round. The round context is never rewritten:
+ * each answer gets its own key and the solver has a per-round key, so
+ * concurrent answers can't overwrite each other the way a read-modify-write
+ * of one round blob on eventually consistent KV would. Scores are kept per
+ * player per guild, with the leaderboard fields mirrored into KV metadata so
+ * one kv.list() builds the leaderboard.
+ *
+ * KV Keys:
+ * - `xivdye:quiz:v1:score:{guildId}:{userId}` - a player's stats in a guild
+ * - `xivdye:quiz:v1:round:{channelId}` - context hash of the channel's open round
+ * - `xivdye:quiz:v1:answer:{roundId}:{userId}` - points a player scored in a round
+ * - `xivdye:quiz:v1:solved:{roundId}` - user who named the right dye (closes the round)
+ *
+ * `roundId` is the round's context hash.
+ *
+ * @module services/dyequiz
+ */
+
+import type { ExtendedLogger } from '@xivdyetools/logger';
+import type { Dye } from '@xivdyetools/types';
+import {
+  scoreDyeQuizAnswer,
+  QUIZ_DIFFICULTIES,
+  QUIZ_POOLS,
+  type DyeQuizScore,
+  type QuizDifficulty,
+  type QuizPool,
+  type VisionType,
+} from '@xivdyetools/bot-logic';
+import type { LocaleCode } from './bot-i18n.js';
+import { dyeService } from '../utils/color.js';
+import { getContext, CONTEXT_TTL, type ComponentContext } from './component-context.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * KV schema version for data format evolution
+ * Increment when changing the data structure stored in KV
+ */
+const KV_SCHEMA_VERSION = 'v1';
+
+const SCORE_KEY_PREFIX = `xivdye:quiz:${KV_SCHEMA_VERSION}:score:`;
+const ROUND_KEY_PREFIX = `xivdye:quiz:${KV_SCHEMA_VERSION}:round:`;
+const ANSWER_KEY_PREFIX = `xivdye:quiz:${KV_SCHEMA_VERSION}:answer:`;
+const SOLVED_KEY_PREFIX = `xivdye:quiz:${KV_SCHEMA_VERSION}:solved:`;
+
+/** Command name stored on round contexts and used in button custom_ids */
+export const QUIZ_COMMAND = 'dyequiz';
+
+/** Players shown on the leaderboard */
+export const LEADERBOARD_SIZE = 10;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Round state stored in the component context's `data`
+ */
+export interface QuizRoundState {
+  guildId: string;
+  channelId: string;
+  /** Server language the round was posted in */
+  locale: LocaleCode;
+  difficulty: QuizDifficulty;
+  pool: QuizPool;
+  vision?: VisionType;
+  answerItemId: number;
+  choiceItemIds: number[];
+}
+
+/**
+ * A player's quiz stats in one guild
+ */
+export interface QuizPlayerStats {
+  userId: string;
+  points: number;
+  /** Rounds answered */
+  answered: number;
+  /** Rounds answered with the right dye */
+  correct: number;
+  /** Right answers in a row (reset by a miss) */
+  streak: number;
+  bestStreak: number;
+  updatedAt: string;
+}
+
+/** Leaderboard fields kept in the score key's KV metadata */
+type LeaderboardMetadata = Pick<QuizPlayerStats, 'points' | 'streak' | 'bestStreak'>;
+
+export interface LeaderboardEntry extends LeaderboardMetadata {
+  userId: string;
+}
+
+/**
+ * Result of submitting an answer
+ */
+export type QuizAnswerOutcome =
+  | { status: 'expired' }
+  | { status: 'closed'; answer: Dye; solvedBy: string }
+  | { status: 'alreadyAnswered'; points: number }
+  | {
+      status: 'scored';
+      answer: Dye;
+      guess: Dye;
+      score: DyeQuizScore;
+      stats: QuizPlayerStats;
+      /** This answer closed the round (the first right answer to claim it) */
+      solved: boolean;
+      round: ComponentContext<QuizRoundState>;
+    };
+
+// ============================================================================
+// Rounds
+// ============================================================================
+
+/**
+ * Point a channel at its newest round (replaces any older round)
+ */
+export async function setChannelRound(
+  kv: KVNamespace,
+  channelId: string,
+  hash: string,
+  logger?: ExtendedLogger
+): Promise<void> {
+  try {
+    await kv.put(`${ROUND_KEY_PREFIX}${channelId}`, hash, { expirationTtl: CONTEXT_TTL.STANDARD });
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to save quiz round pointer', error instanceof Error ? error : undefined, { channelId });
+    }
+  }
+}
+
+/**
+ * Context hash of the channel's open round, or null if none
+ */
+export async function getChannelRound(kv: KVNamespace, channelId: string): Promise<string | null> {
+  try {
+    return await kv.get(`${ROUND_KEY_PREFIX}${channelId}`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Score a player's answer to a round and record it
+ */
+export async function submitQuizAnswer(
+  kv: KVNamespace,
+  hash: string,
+  userId: string,
+  guess: Dye,
+  logger?: ExtendedLogger
+): Promise<QuizAnswerOutcome> {
+  const context = await getContext(kv, hash, logger);
+  if (!context || context.command !== QUIZ_COMMAND || !isQuizRoundState(context.data)) {
+    return { status: 'expired' };
+  }
+
+  const round = context.data;
+  const answer = dyeService.getDyeById(round.answerItemId);
+  if (!answer) {
+    return { status: 'expired' };
+  }
+
+  const [solvedBy, previous] = await Promise.all([
+    kv.get(`${SOLVED_KEY_PREFIX}${hash}`),
+    kv.get(`${ANSWER_KEY_PREFIX}${hash}:${userId}`),
+  ]);
+
+  if (solvedBy) {
+    return { status: 'closed', answer, solvedBy };
+  }
+
+  if (previous !== null) {
+    return { status: 'alreadyAnswered', points: Number(previous) };
+  }
+
+  const stats = await getPlayerStats(kv, round.guildId, userId, logger);
+  const score = scoreDyeQuizAnswer({ answer, guess, difficulty: round.difficulty, streak: stats.streak });
+
+  await kv.put(`${ANSWER_KEY_PREFIX}${hash}:${userId}`, String(score.points), {
+    expirationTtl: CONTEXT_TTL.STANDARD,
+  });
+  const solved = score.correct && (await claimRoundSolver(kv, hash, userId));
+
+  const newStats: QuizPlayerStats = {
+    ...stats,
+    points: stats.points + score.points,
+    answered: stats.answered + 1,
+    correct: stats.correct + (score.correct ? 1 : 0),
+    streak: score.streak,
+    bestStreak: Math.max(stats.bestStreak, score.streak),
+    updatedAt: new Date().toISOString(),
+  };
+  await savePlayerStats(kv, round.guildId, newStats, logger);
+
+  return { status: 'scored', answer, guess, score, stats: newStats, solved, round: { ...context, data: round } };
+}
+
+/**
+ * Check that context data read back from KV is a quiz round
+ */
+export function isQuizRoundState(data: Record<string, unknown>): data is Record<string, unknown> & QuizRoundState {
+  return (
+    typeof data.guildId === 'string' &&
+    typeof data.channelId === 'string' &&
+    typeof data.locale === 'string' &&
+    QUIZ_DIFFICULTIES.includes(data.difficulty as QuizDifficulty) &&
+    QUIZ_POOLS.includes(data.pool as QuizPool) &&
+    typeof data.answerItemId === 'number' &&
+    Array.isArray(data.choiceItemIds) &&
+    data.choiceItemIds.every((id) => typeof id === 'number')
+  );
+}
+
+/**
+ * Record a player as the round's solver unless someone already is
+ *
+ * KV has no compare-and-set, so the condition is checked right before the
+ * write: two right answers within KV's propagation window can both claim the
+ * round, but each still keeps its own answer key and points.
+ *
+ * @returns Whether this player is the solver
+ */
+async function claimRoundSolver(kv: KVNamespace, hash: string, userId: string): Promise<boolean> {
+  const key = `${SOLVED_KEY_PREFIX}${hash}`;
+  const existing = await kv.get(key);
+  if (existing) {
+    return existing === userId;
+  }
+
+  await kv.put(key, userId, { expirationTtl: CONTEXT_TTL.STANDARD });
+  return true;
+}
+
+// ============================================================================
+// Scores
+// ============================================================================
+
+/**
+ * Get a player's stats in a guild (zeroed if they haven't played)
+ */
+export async function getPlayerStats(
+  kv: KVNamespace,
+  guildId: string,
+  userId: string,
+  logger?: ExtendedLogger
+): Promise<QuizPlayerStats> {
+  try {
+    const data = await kv.get(`${SCORE_KEY_PREFIX}${guildId}:${userId}`);
+    if (data) {
+      return JSON.parse(data) as QuizPlayerStats;
+    }
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to get quiz stats', error instanceof Error ? error : undefined);
+    }
+  }
+
+  return { userId, points: 0, answered: 0, correct: 0, streak: 0, bestStreak: 0, updatedAt: '' };
+}
+
+/**
+ * Save a player's stats, mirroring the leaderboard fields into metadata
+ */
+async function savePlayerStats(
+  kv: KVNamespace,
+  guildId: string,
+  stats: QuizPlayerStats,
+  logger?: ExtendedLogger
+): Promise<void> {
+  const metadata: LeaderboardMetadata = {
+    points: stats.points,
+    streak: stats.streak,
+    bestStreak: stats.bestStreak,
+  };
+
+  try {
+    await kv.put(`${SCORE_KEY_PREFIX}${guildId}:${stats.userId}`, JSON.stringify(stats), { metadata });
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to save quiz stats', error instanceof Error ? error : undefined, { guildId });
+    }
+  }
+}
+
+/**
+ * Top players in a guild by points
+ *
+ * Reads only key metadata and follows KV list cursors, so there is no
+ * 1,000-player cap.
+ */
+export async function getLeaderboard(
+  kv: KVNamespace,
+  guildId: string,
+  limit: number = LEADERBOARD_SIZE
+): Promise<LeaderboardEntry[]> {
+  const prefix = `${SCORE_KEY_PREFIX}${guildId}:`;
+  const entries: LeaderboardEntry[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list<LeaderboardMetadata>({ prefix, cursor });
+    for (const key of page.keys) {
+      if (key.metadata) {
+        entries.push({ userId: key.name.slice(prefix.length), ...key.metadata });
+      }
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return entries
+    .filter((entry) => entry.points > 0)
+    .sort((a, b) => b.points - a.points || b.bestStreak - a.bestStreak)
+    .slice(0, limit);
+}
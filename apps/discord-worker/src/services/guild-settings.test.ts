@@ -0,0 +1,167 @@
+/**
+ * Tests for Guild Settings Service
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  getGuildSettings,
+  updateGuildSettings,
+  resetGuildSetting,
+  applyGuildDefaults,
+  isCommandDisabled,
+  canManageGuild,
+} from './guild-settings.js';
+
+// Create mock KV namespace
+function createMockKV() {
+  const store = new Map<string, string>();
+
+  return {
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    put: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    delete: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    _store: store,
+  } as unknown as KVNamespace & { _store: Map<string, string> };
+}
+
+// Create mock logger
+function createMockLogger() {
+  return {
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+  } as never;
+}
+
+describe('Guild Settings Service', () => {
+  let mockKV: ReturnType<typeof createMockKV>;
+  let mockLogger: ReturnType<typeof createMockLogger>;
+  const guildId = 'guild-123';
+
+  beforeEach(() => {
+    mockKV = createMockKV();
+    mockLogger = createMockLogger();
+  });
+
+  describe('getGuildSettings', () => {
+    it('returns empty object outside a guild', async () => {
+      expect(await getGuildSettings(mockKV, undefined)).toEqual({});
+      expect(mockKV.get).not.toHaveBeenCalled();
+    });
+
+    it('returns empty object when nothing is stored', async () => {
+      expect(await getGuildSettings(mockKV, guildId)).toEqual({});
+    });
+
+    it('returns stored settings', async () => {
+      mockKV._store.set(`guild-prefs:v1:${guildId}`, JSON.stringify({ language: 'fr', ephemeral: true }));
+
+      expect(await getGuildSettings(mockKV, guildId)).toEqual({ language: 'fr', ephemeral: true });
+    });
+
+    it('returns empty object and logs on corrupt data', async () => {
+      mockKV._store.set(`guild-prefs:v1:${guildId}`, 'not json');
+
+      expect(await getGuildSettings(mockKV, guildId, mockLogger)).toEqual({});
+      expect((mockLogger as { error: ReturnType<typeof vi.fn> }).error).toHaveBeenCalled();
+    });
+  });
+
+  describe('updateGuildSettings', () => {
+    it('merges updates and stamps metadata', async () => {
+      await updateGuildSettings(mockKV, guildId, { language: 'de' }, 'admin-1');
+      const saved = await updateGuildSettings(mockKV, guildId, { world: 'Gilgamesh' }, 'admin-2');
+
+      expect(saved).toMatchObject({ language: 'de', world: 'Gilgamesh', updatedBy: 'admin-2', _version: 1 });
+      expect(saved?.updatedAt).toBeDefined();
+      expect(JSON.parse(mockKV._store.get(`guild-prefs:v1:${guildId}`)!)).toEqual(saved);
+    });
+
+    it('returns null when the write fails', async () => {
+      vi.mocked(mockKV.put).mockRejectedValueOnce(new Error('KV down'));
+
+      expect(await updateGuildSettings(mockKV, guildId, { ephemeral: true }, 'admin-1', mockLogger)).toBeNull();
+    });
+  });
+
+  describe('resetGuildSetting', () => {
+    it('removes a single key and keeps the rest', async () => {
+      await updateGuildSettings(mockKV, guildId, { language: 'ja', matching: 'cie76' }, 'admin-1');
+
+      expect(await resetGuildSetting(mockKV, guildId, 'admin-1', 'language')).toBe(true);
+      expect(await getGuildSettings(mockKV, guildId)).toMatchObject({ matching: 'cie76' });
+      expect((await getGuildSettings(mockKV, guildId)).language).toBeUndefined();
+    });
+
+    it('deletes the entry when the last setting is removed', async () => {
+      await updateGuildSettings(mockKV, guildId, { disabledCommands: ['stats'] }, 'admin-1');
+
+      await resetGuildSetting(mockKV, guildId, 'admin-1', 'disabledCommands');
+      expect(mockKV._store.has(`guild-prefs:v1:${guildId}`)).toBe(false);
+    });
+
+    it('deletes everything when no key is given', async () => {
+      await updateGuildSettings(mockKV, guildId, { language: 'ko', ephemeral: true }, 'admin-1');
+
+      expect(await resetGuildSetting(mockKV, guildId, 'admin-1')).toBe(true);
+      expect(mockKV.delete).toHaveBeenCalledWith(`guild-prefs:v1:${guildId}`);
+    });
+
+    it('returns false when KV fails', async () => {
+      vi.mocked(mockKV.delete).mockRejectedValueOnce(new Error('KV down'));
+
+      expect(await resetGuildSetting(mockKV, guildId, 'admin-1', undefined, mockLogger)).toBe(false);
+    });
+  });
+
+  describe('applyGuildDefaults', () => {
+    it('fills unset user preferences from the guild', () => {
+      const merged = applyGuildDefaults(
+        { blending: 'ryb' },
+        { language: 'fr', world: 'Aether', matching: 'ciede2000', ephemeral: true }
+      );
+
+      expect(merged).toEqual({ blending: 'ryb', language: 'fr', world: 'Aether', matching: 'ciede2000' });
+    });
+
+    it('keeps user preferences over guild settings', () => {
+      const merged = applyGuildDefaults({ language: 'ja', world: 'Tonberry' }, { language: 'fr', world: 'Aether' });
+
+      expect(merged.language).toBe('ja');
+      expect(merged.world).toBe('Tonberry');
+    });
+  });
+
+  describe('isCommandDisabled', () => {
+    it('checks the disabled list', () => {
+      expect(isCommandDisabled({ disabledCommands: ['budget'] }, 'budget')).toBe(true);
+      expect(isCommandDisabled({ disabledCommands: ['budget'] }, 'dye')).toBe(false);
+      expect(isCommandDisabled({}, 'budget')).toBe(false);
+    });
+  });
+
+  describe('canManageGuild', () => {
+    it('accepts Manage Server', () => {
+      expect(canManageGuild('32')).toBe(true);
+    });
+
+    it('accepts Administrator', () => {
+      expect(canManageGuild('8')).toBe(true);
+    });
+
+    it('rejects members without either permission', () => {
+      expect(canManageGuild('2048')).toBe(false);
+      expect(canManageGuild(undefined)).toBe(false);
+      expect(canManageGuild('not-a-number')).toBe(false);
+    });
+
+    it('handles bitfields beyond 53 bits', () => {
+      expect(canManageGuild((1n << 40n | 1n << 5n).toString())).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Guild Settings Service
+ *
+ * Manages per-server defaults set by administrators with /server-settings.
+ * One KV entry per guild, updated get → mutate → put like user preferences.
+ *
+ * KV Key: `guild-prefs:v1:{guildId}`
+ *
+ * @module services/guild-settings
+ */
+
+import type { ExtendedLogger } from '@xivdyetools/logger';
+import type { UserPreferences } from '../types/preferences.js';
+import {
+  PERMISSION_ADMINISTRATOR,
+  PERMISSION_MANAGE_GUILD,
+  type GuildSettings,
+  type GuildSettingKey,
+} from '../types/guild-settings.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Current schema version */
+const SCHEMA_VERSION = 1;
+
+/** KV key prefix for guild settings */
+const GUILD_PREFS_KEY_PREFIX = 'guild-prefs:v1:';
+
+// ============================================================================
+// Core Functions
+// ============================================================================
+
+/**
+ * Build a KV key for a guild's settings
+ */
+function buildGuildKey(guildId: string): string {
+  return `${GUILD_PREFS_KEY_PREFIX}${guildId}`;
+}
+
+/**
+ * Get a guild's settings
+ *
+ * @param kv - KV namespace binding
+ * @param guildId - Discord guild ID (undefined in DMs)
+ * @param logger - Optional logger for structured logging
+ * @returns Guild settings object (empty outside guilds or when unset)
+ */
+export async function getGuildSettings(
+  kv: KVNamespace,
+  guildId: string | undefined,
+  logger?: ExtendedLogger
+): Promise<GuildSettings> {
+  if (!guildId) return {};
+
+  try {
+    const data = await kv.get(buildGuildKey(guildId));
+    return data ? (JSON.parse(data) as GuildSettings) : {};
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to get guild settings', error instanceof Error ? error : undefined);
+    }
+    return {};
+  }
+}
+
+/**
+ * Merge updated values into a guild's settings
+ *
+ * Values are expected to be validated by the caller.
+ *
+ * @param kv - KV namespace binding
+ * @param guildId - Discord guild ID
+ * @param updates - Settings to change
+ * @param updatedBy - Discord user ID of the administrator
+ * @param logger - Optional logger
+ * @returns The saved settings, or null if the write failed
+ */
+export async function updateGuildSettings(
+  kv: KVNamespace,
+  guildId: string,
+  updates: Omit<GuildSettings, 'updatedAt' | 'updatedBy' | '_version'>,
+  updatedBy: string,
+  logger?: ExtendedLogger
+): Promise<GuildSettings | null> {
+  try {
+    const settings = await getGuildSettings(kv, guildId, logger);
+    const next: GuildSettings = {
+      ...settings,
+      ...updates,
+      updatedAt: new Date().toISOString(),
+      updatedBy,
+      _version: SCHEMA_VERSION,
+    };
+
+    await kv.put(buildGuildKey(guildId), JSON.stringify(next));
+    return next;
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to update guild settings', error instanceof Error ? error : undefined, { guildId });
+    }
+    return null;
+  }
+}
+
+/**
+ * Reset one guild setting, or all of them when no key is given
+ *
+ * @returns True if reset successfully
+ */
+export async function resetGuildSetting(
+  kv: KVNamespace,
+  guildId: string,
+  updatedBy: string,
+  key?: GuildSettingKey,
+  logger?: ExtendedLogger
+): Promise<boolean> {
+  try {
+    if (!key) {
+      await kv.delete(buildGuildKey(guildId));
+      return true;
+    }
+
+    const settings = await getGuildSettings(kv, guildId, logger);
+    delete settings[key];
+
+    const hasSettings = Object.keys(settings).some(
+      (k) => !k.startsWith('_') && k !== 'updatedAt' && k !== 'updatedBy'
+    );
+    if (hasSettings) {
+      settings.updatedAt = new Date().toISOString();
+      settings.updatedBy = updatedBy;
+      settings._version = SCHEMA_VERSION;
+      await kv.put(buildGuildKey(guildId), JSON.stringify(settings));
+    } else {
+      await kv.delete(buildGuildKey(guildId));
+    }
+
+    return true;
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to reset guild setting', error instanceof Error ? error : undefined, { guildId, key });
+    }
+    return false;
+  }
+}
+
+// ============================================================================
+// Resolution Helpers
+// ============================================================================
+
+/**
+ * Layer guild defaults underneath a user's own preferences
+ *
+ * Resolution order: User preference → Guild preference (system defaults
+ * still apply afterwards through the resolve* helpers in preferences.ts).
+ */
+export function applyGuildDefaults(prefs: UserPreferences, settings: GuildSettings): UserPreferences {
+  return {
+    ...prefs,
+    language: prefs.language ?? settings.language,
+    world: prefs.world ?? settings.world,
+    matching: prefs.matching ?? settings.matching,
+  };
+}
+
+/**
+ * Check whether a command is disabled in a guild
+ */
+export function isCommandDisabled(settings: GuildSettings, commandName: string): boolean {
+  return settings.disabledCommands?.includes(commandName) ?? false;
+}
+
+/**
+ * Check an interaction member's permission bitfield for Manage Server
+ *
+ * Administrators implicitly have every permission.
+ *
+ * @param permissions - `member.permissions` from the interaction (a decimal string)
+ */
+export function canManageGuild(permissions: string | undefined): boolean {
+  if (!permissions) return false;
+
+  try {
+    const bits = BigInt(permissions);
+    return (bits & PERMISSION_MANAGE_GUILD) !== 0n || (bits & PERMISSION_ADMINISTRATOR) !== 0n;
+  } catch {
+    return false;
+  }
+}
@@ -3,7 +3,7 @@
  *
  * This service handles:
  * - User language PREFERENCES stored in Cloudflare KV
- * - Locale resolution (user preference → Discord locale → default)
+ * - Locale resolution (user preference → server default → Discord locale → default)
  * - Integration with xivdyetools-core LocalizationService for DYE NAMES and CATEGORIES
  *
  * Separation from bot-i18n.ts:
@@ -115,18 +115,21 @@ async function getUserLanguagePreference(
  * Priority:
  * 1. User's unified preferences (prefs:v1:{userId})
  * 2. User's legacy preference (i18n:user:{userId})
- * 3. Discord client locale (interaction.locale)
- * 4. Default (English)
+ * 3. Server default from /server-settings
+ * 4. Discord client locale (interaction.locale)
+ * 5. Default (English)
  *
  * @param kv - KV namespace binding
  * @param userId - Discord user ID
  * @param discordLocale - Discord's detected locale
+ * @param guildLocale - The server's default language, if one is set
  * @returns Effective locale code
  */
 export async function resolveUserLocale(
   kv: KVNamespace,
   userId: string,
-  discordLocale?: string
+  discordLocale?: string,
+  guildLocale?: LocaleCode
 ): Promise<LocaleCode> {
   // 1. Check unified preferences first (V4 system)
   // Direct KV read to avoid circular dependency with preferences.ts
@@ -149,7 +152,12 @@ export async function resolveUserLocale(
     return preference;
   }
 
-  // 3. Try Discord locale
+  // 3. Server default
+  if (guildLocale && isValidLocale(guildLocale)) {
+    return guildLocale;
+  }
+
+  // 4. Try Discord locale
   if (discordLocale) {
     const mapped = discordLocaleToLocaleCode(discordLocale);
     if (mapped) {
@@ -157,7 +165,7 @@ export async function resolveUserLocale(
     }
   }
 
-  // 4. Default to English
+  // 5. Default to English
   return 'en';
 }
 
@@ -1,29 +1,7 @@
 /**
  * Tests for image services index exports
  */
-import { describe, it, expect, vi } from 'vitest';
-
-// Mock the photon WASM module
-vi.mock('@cf-wasm/photon', () => ({
-    PhotonImage: {
-        new_from_byteslice: vi.fn(() => ({
-            get_width: () => 100,
-            get_height: () => 100,
-            get_raw_pixels: () => new Uint8Array([]),
-            get_bytes: () => new Uint8Array([]),
-            free: vi.fn(),
-        })),
-    },
-    SamplingFilter: {
-        Lanczos3: 0,
-    },
-    resize: vi.fn(() => ({
-        get_width: () => 50,
-        get_height: () => 50,
-        get_raw_pixels: () => new Uint8Array([]),
-        free: vi.fn(),
-    })),
-}));
+import { describe, it, expect } from 'vitest';
 
 describe('image/index exports', () => {
     it('exports photon image processing functions', async () => {
@@ -3,11 +3,13 @@
  *
  * Provides image loading, validation, and pixel extraction
  * using WASM-based photon for Cloudflare Workers compatibility.
+ * Decoding and the size/format safeguards live in @xivdyetools/image
+ * (shared with api-worker); Discord CDN URL validation and fetching are local.
  *
  * @module services/image
  */
 
-// Photon image processing
+// Photon image processing + size/format validation (shared package)
 export {
   // Types
   type ProcessedImage,
@@ -17,24 +19,27 @@ export {
   resizeImage,
   extractPixels,
   processImageForExtraction,
+  encodePng,
+  combineSideBySide,
   getImageDimensions,
-} from './photon.js';
-
-// Image validation
-export {
   // Constants
   MAX_FILE_SIZE_BYTES,
   MAX_IMAGE_DIMENSION,
   MAX_PIXEL_COUNT,
-  FETCH_TIMEOUT_MS,
-  // URL validation
-  validateImageUrl,
   // Size validation
   validateFileSize,
   validateDimensions,
   // Format validation
   detectImageFormat,
   validateImageFormat,
+} from '@xivdyetools/image';
+
+// Discord CDN validation and fetching
+export {
+  // Constants
+  FETCH_TIMEOUT_MS,
+  // URL validation
+  validateImageUrl,
   // Fetching
   fetchImageWithTimeout,
   validateAndFetchImage,
@@ -1,19 +1,19 @@
 /**
  * Image Validation Service
  *
- * Provides security validation for image URLs and content:
+ * Provides security validation for image URLs and fetching:
  * - SSRF protection (only allow Discord CDN)
- * - File size limits
- * - Image format validation via magic bytes
+ * - Size and format checks on fetched bytes via @xivdyetools/image
  *
  * @module services/image/validators
  */
 
-import type {
-  UrlValidationResult,
-  FormatValidationResult,
-  ImageFormat,
-} from '../../types/image.js';
+import {
+  validateFileSize,
+  validateImageFormat,
+  type ImageFormat,
+} from '@xivdyetools/image';
+import type { UrlValidationResult } from '../../types/image.js';
 
 // ============================================================================
 // Constants
@@ -29,44 +29,11 @@ const ALLOWED_HOSTS = new Set([
   'media.discordapp.net',
 ]);
 
-/**
- * Maximum allowed file size (10MB)
- *
- * Workers have 128MB memory limit, and we need room for:
- * - Original image buffer
- * - Decoded pixel data (4x uncompressed)
- * - Processing overhead
- */
-export const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024; // 10MB
-
-/**
- * Maximum image dimensions (4096x4096)
- *
- * Prevents decompression bombs where a small file expands to huge pixel data
- */
-export const MAX_IMAGE_DIMENSION = 4096;
-
-/**
- * Maximum pixel count (16 megapixels)
- */
-export const MAX_PIXEL_COUNT = 16 * 1024 * 1024; // 16 million pixels
-
 /**
  * Request timeout for image fetching (10 seconds)
  */
 export const FETCH_TIMEOUT_MS = 10000;
 
-/**
- * Magic bytes for image format detection
- */
-const MAGIC_BYTES: Record<ImageFormat, number[]> = {
-  png: [0x89, 0x50, 0x4e, 0x47], // \x89PNG
-  jpeg: [0xff, 0xd8, 0xff], // \xFF\xD8\xFF
-  gif: [0x47, 0x49, 0x46], // GIF
-  webp: [0x52, 0x49, 0x46, 0x46], // RIFF (check for WEBP at offset 8)
-  bmp: [0x42, 0x4d], // BM
-};
-
 // ============================================================================
 // URL Validation
 // ============================================================================
@@ -170,142 +137,6 @@ function isPrivateHost(hostname: string): boolean {
   return privatePatterns.some((pattern) => pattern.test(hostname));
 }
 
-// ============================================================================
-// Size Validation
-// ============================================================================
-
-/**
- * Validate image file size
- *
- * @param sizeBytes - File size in bytes
- * @returns Error message if invalid, undefined if valid
- */
-export function validateFileSize(sizeBytes: number): string | undefined {
-  if (sizeBytes <= 0) {
-    return 'Image file is empty';
-  }
-
-  if (sizeBytes > MAX_FILE_SIZE_BYTES) {
-    const sizeMB = (sizeBytes / 1024 / 1024).toFixed(1);
-    const maxMB = (MAX_FILE_SIZE_BYTES / 1024 / 1024).toFixed(0);
-    return `Image too large (${sizeMB}MB). Maximum size is ${maxMB}MB`;
-  }
-
-  return undefined;
-}
-
-/**
- * Validate image dimensions
- *
- * @param width - Image width in pixels
- * @param height - Image height in pixels
- * @returns Error message if invalid, undefined if valid
- */
-export function validateDimensions(
-  width: number,
-  height: number
-): string | undefined {
-  if (width <= 0 || height <= 0) {
-    return 'Image has invalid dimensions';
-  }
-
-  if (width > MAX_IMAGE_DIMENSION || height > MAX_IMAGE_DIMENSION) {
-    return `Image too large (${width}x${height}). Maximum dimension is ${MAX_IMAGE_DIMENSION}px`;
-  }
-
-  const pixelCount = width * height;
-  if (pixelCount > MAX_PIXEL_COUNT) {
-    const megapixels = (pixelCount / 1024 / 1024).toFixed(1);
-    const maxMegapixels = (MAX_PIXEL_COUNT / 1024 / 1024).toFixed(0);
-    return `Image has too many pixels (${megapixels}MP). Maximum is ${maxMegapixels}MP`;
-  }
-
-  return undefined;
-}
-
-// ============================================================================
-// Format Validation
-// ============================================================================
-
-/**
- * Detect image format from magic bytes
- *
- * @param buffer - First 12+ bytes of the image file
- * @returns Detected format or undefined
- */
-export function detectImageFormat(buffer: Uint8Array): ImageFormat | undefined {
-  if (buffer.length < 12) {
-    return undefined;
-  }
-
-  // Check PNG
-  if (matchesMagicBytes(buffer, MAGIC_BYTES.png)) {
-    return 'png';
-  }
-
-  // Check JPEG
-  if (matchesMagicBytes(buffer, MAGIC_BYTES.jpeg)) {
-    return 'jpeg';
-  }
-
-  // Check GIF
-  if (matchesMagicBytes(buffer, MAGIC_BYTES.gif)) {
-    return 'gif';
-  }
-
-  // Check WebP (RIFF....WEBP)
-  if (
-    matchesMagicBytes(buffer, MAGIC_BYTES.webp) &&
-    buffer[8] === 0x57 && // W
-    buffer[9] === 0x45 && // E
-    buffer[10] === 0x42 && // B
-    buffer[11] === 0x50 // P
-  ) {
-    return 'webp';
-  }
-
-  // Check BMP
-  if (matchesMagicBytes(buffer, MAGIC_BYTES.bmp)) {
-    return 'bmp';
-  }
-
-  return undefined;
-}
-
-/**
- * Check if buffer starts with magic bytes
- */
-function matchesMagicBytes(buffer: Uint8Array, magic: number[]): boolean {
-  for (let i = 0; i < magic.length; i++) {
-    if (buffer[i] !== magic[i]) {
-      return false;
-    }
-  }
-  return true;
-}
-
-/**
- * Validate image format from buffer
- *
- * @param buffer - Image file buffer
- * @returns Validation result with format or error
- */
-export function validateImageFormat(buffer: Uint8Array): FormatValidationResult {
-  const format = detectImageFormat(buffer);
-
-  if (!format) {
-    return {
-      valid: false,
-      error: 'Unsupported image format. Use PNG, JPEG, GIF, WebP, or BMP',
-    };
-  }
-
-  return {
-    valid: true,
-    format,
-  };
-}
-
 // ============================================================================
 // Image Fetching
 // ============================================================================
@@ -0,0 +1,201 @@
+/**
+ * Tests for Library Sync
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { LibrarySnapshot } from '@xivdyetools/types';
+import { withLibrarySync, pullLibrary } from './library-sync.js';
+import { addFavorite, getFavorites, getCollections, type Collection } from './user-storage.js';
+import type { Env } from '../types/env.js';
+
+const mockApi = vi.hoisted(() => ({
+  isApiEnabled: vi.fn(() => true),
+  getLibrary: vi.fn(),
+  pushLibraryChanges: vi.fn(),
+}));
+vi.mock('./preset-api.js', () => mockApi);
+
+// Create mock KV namespace
+function createMockKV() {
+  const store = new Map<string, string>();
+
+  return {
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    put: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    delete: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    _store: store,
+  } as unknown as KVNamespace & { _store: Map<string, string> };
+}
+
+function collection(id: string, updatedAt = '2026-09-01T00:00:00.000Z'): Collection {
+  return { id, name: `Collection ${id}`, dyes: [5729], createdAt: '2026-09-01T00:00:00.000Z', updatedAt };
+}
+
+function snapshot(overrides: Partial<LibrarySnapshot> = {}): LibrarySnapshot {
+  return { favorites: [], collections: [], serverTime: '2026-10-01T00:00:00.000Z', ...overrides };
+}
+
+describe('Library Sync', () => {
+  const userId = '123456789012345678';
+  let kv: ReturnType<typeof createMockKV>;
+  let env: Env;
+  let pending: Promise<unknown>[];
+  const ctx = {
+    waitUntil: vi.fn((promise: Promise<unknown>) => {
+      pending.push(promise);
+    }),
+  } as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockApi.isApiEnabled.mockReturnValue(true);
+    kv = createMockKV();
+    env = { KV: kv } as unknown as Env;
+    pending = [];
+  });
+
+  describe('pullLibrary', () => {
+    it('should replace the local copy with the server library, keeping local order', async () => {
+      kv._store.set(`xivdye:favorites:v1:${userId}`, JSON.stringify([3, 1]));
+      mockApi.getLibrary.mockResolvedValueOnce(
+        snapshot({
+          favorites: [
+            { dyeId: 1, updatedAt: '2026-09-01T00:00:00.000Z' },
+            { dyeId: 2, updatedAt: '2026-09-02T00:00:00.000Z' },
+            { dyeId: 3, updatedAt: '2026-09-03T00:00:00.000Z', deleted: true },
+          ],
+          collections: [{ ...collection('web'), description: 'From the web app' }],
+        })
+      );
+
+      expect(await pullLibrary(env, userId)).toBe(true);
+
+      expect(await getFavorites(kv, userId)).toEqual([1, 2]);
+      expect(await getCollections(kv, userId)).toEqual([{ ...collection('web'), description: 'From the web app' }]);
+      expect(mockApi.pushLibraryChanges).not.toHaveBeenCalled();
+    });
+
+    it('should push local items the server has never seen', async () => {
+      kv._store.set(`xivdye:favorites:v1:${userId}`, JSON.stringify([7]));
+      kv._store.set(`xivdye:collections:v1:${userId}`, JSON.stringify([collection('old')]));
+      mockApi.getLibrary.mockResolvedValueOnce(snapshot());
+      mockApi.pushLibraryChanges.mockResolvedValueOnce({
+        success: true,
+        library: snapshot({
+          favorites: [{ dyeId: 7, updatedAt: '2026-10-01T00:00:00.000Z' }],
+          collections: [collection('old')],
+        }),
+      });
+
+      await pullLibrary(env, userId);
+
+      const [, , changes] = mockApi.pushLibraryChanges.mock.calls[0];
+      expect(changes.favorites).toEqual([{ dyeId: 7, updatedAt: expect.any(String) }]);
+      expect(changes.collections).toEqual([collection('old')]);
+      expect(await getFavorites(kv, userId)).toEqual([7]);
+    });
+
+    it('should send the outbox and clear it', async () => {
+      const outbox = { favorites: [{ dyeId: 9, updatedAt: '2026-09-09T00:00:00.000Z', deleted: true }], collections: [] };
+      kv._store.set(`xivdye:library-outbox:v1:${userId}`, JSON.stringify(outbox));
+      mockApi.getLibrary.mockResolvedValueOnce(snapshot());
+      mockApi.pushLibraryChanges.mockResolvedValueOnce({ success: true, library: snapshot() });
+
+      await pullLibrary(env, userId);
+
+      expect(mockApi.pushLibraryChanges.mock.calls[0][2]).toEqual(outbox);
+      expect(kv._store.has(`xivdye:library-outbox:v1:${userId}`)).toBe(false);
+    });
+
+    it('should give the outbox push only what the pull left of one deadline', async () => {
+      const outbox = { favorites: [{ dyeId: 9, updatedAt: '2026-09-09T00:00:00.000Z' }], collections: [] };
+      kv._store.set(`xivdye:library-outbox:v1:${userId}`, JSON.stringify(outbox));
+      vi.useFakeTimers();
+      mockApi.getLibrary.mockImplementationOnce(async () => {
+        vi.advanceTimersByTime(1200);
+        return snapshot();
+      });
+      mockApi.pushLibraryChanges.mockResolvedValueOnce({ success: true, library: snapshot() });
+
+      await pullLibrary(env, userId);
+      vi.useRealTimers();
+
+      expect(mockApi.getLibrary.mock.calls[0][2].timeout).toBe(1500);
+      expect(mockApi.pushLibraryChanges.mock.calls[0][3].timeout).toBe(300);
+    });
+
+    it('should skip the push and keep the outbox once the deadline has passed', async () => {
+      const outbox = { favorites: [{ dyeId: 9, updatedAt: '2026-09-09T00:00:00.000Z' }], collections: [] };
+      kv._store.set(`xivdye:library-outbox:v1:${userId}`, JSON.stringify(outbox));
+      vi.useFakeTimers();
+      mockApi.getLibrary.mockImplementationOnce(async () => {
+        vi.advanceTimersByTime(1500);
+        return snapshot();
+      });
+
+      const synced = await pullLibrary(env, userId);
+      vi.useRealTimers();
+
+      expect(synced).toBe(false);
+      expect(mockApi.pushLibraryChanges).not.toHaveBeenCalled();
+      expect(JSON.parse(kv._store.get(`xivdye:library-outbox:v1:${userId}`)!)).toEqual(outbox);
+    });
+
+    it('should leave the local copy alone when the API is unreachable', async () => {
+      kv._store.set(`xivdye:favorites:v1:${userId}`, JSON.stringify([1]));
+      mockApi.getLibrary.mockRejectedValueOnce(new Error('timeout'));
+
+      expect(await pullLibrary(env, userId)).toBe(false);
+      expect(await getFavorites(kv, userId)).toEqual([1]);
+    });
+  });
+
+  describe('withLibrarySync', () => {
+    it('should just run the operation when the API is not configured', async () => {
+      mockApi.isApiEnabled.mockReturnValue(false);
+
+      const result = await withLibrarySync(env, ctx, userId, async () => 'done');
+
+      expect(result).toBe('done');
+      expect(mockApi.getLibrary).not.toHaveBeenCalled();
+    });
+
+    it('should push what the operation changed after replying', async () => {
+      mockApi.getLibrary.mockResolvedValueOnce(snapshot());
+      mockApi.pushLibraryChanges.mockResolvedValueOnce({ success: true, library: snapshot() });
+
+      await withLibrarySync(env, ctx, userId, () => addFavorite(kv, userId, 5729));
+      await Promise.all(pending);
+
+      expect(ctx.waitUntil).toHaveBeenCalledTimes(1);
+      expect(mockApi.pushLibraryChanges.mock.calls[0][2]).toEqual({
+        favorites: [{ dyeId: 5729, updatedAt: expect.any(String) }],
+        collections: [],
+      });
+    });
+
+    it('should not push when nothing changed', async () => {
+      mockApi.getLibrary.mockResolvedValueOnce(snapshot());
+
+      await withLibrarySync(env, ctx, userId, () => getFavorites(kv, userId));
+
+      expect(ctx.waitUntil).not.toHaveBeenCalled();
+    });
+
+    it('should keep unpushed changes in the outbox', async () => {
+      mockApi.getLibrary.mockRejectedValueOnce(new Error('down'));
+      mockApi.pushLibraryChanges.mockRejectedValueOnce(new Error('down'));
+
+      const result = await withLibrarySync(env, ctx, userId, () => addFavorite(kv, userId, 5729));
+      await Promise.all(pending);
+
+      expect(result.success).toBe(true);
+      const outbox = JSON.parse(kv._store.get(`xivdye:library-outbox:v1:${userId}`)!);
+      expect(outbox.favorites).toEqual([{ dyeId: 5729, updatedAt: expect.any(String) }]);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Library Sync
+ *
+ * Keeps /favorites and /collection in step with the web app through the
+ * presets API's library store (`/api/v1/library`, keyed by Discord user ID).
+ *
+ * KV stays the bot's local copy. `withLibrarySync` pulls the server library
+ * into KV before a command runs, lets the command work on KV as before, then
+ * diffs KV and pushes what changed (newer write wins per item on the server).
+ * If the API can't be reached the command still runs on KV and its changes
+ * wait in a per-user outbox until the next successful sync. The diffing and
+ * merging is shared with the web app (`@xivdyetools/types` library helpers).
+ *
+ * @module services/library-sync
+ */
+
+import type { ExtendedLogger } from '@xivdyetools/logger';
+import {
+  diffLibrary,
+  hasChanges,
+  mergeChanges,
+  toLocalLibrary,
+  unsyncedItems,
+  type LibraryChanges,
+} from '@xivdyetools/types';
+import type { Env } from '../types/env.js';
+import { getLibrary, isApiEnabled, pushLibraryChanges } from './preset-api.js';
+import { readLocalLibrary, writeLocalLibrary } from './user-storage.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Pending changes that could not be pushed yet */
+const OUTBOX_KEY_PREFIX = 'xivdye:library-outbox:v1:';
+
+/**
+ * Budget for the whole pull (GET plus any outbox PUT), which runs before a
+ * non-deferred reply: keeps it well inside Discord's 3-second window
+ */
+const SYNC_DEADLINE_MS = 1500;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Run a favorites/collection operation against the synced library
+ *
+ * @param env - Environment bindings
+ * @param ctx - Execution context (the push runs after the reply)
+ * @param userId - Discord user ID
+ * @param operation - Reads and/or writes the user's library in KV
+ * @param logger - Optional logger for structured logging
+ * @returns Whatever the operation returns
+ */
+export async function withLibrarySync<T>(
+  env: Env,
+  ctx: ExecutionContext,
+  userId: string,
+  operation: () => Promise<T>,
+  logger?: ExtendedLogger
+): Promise<T> {
+  if (!isApiEnabled(env)) {
+    return operation();
+  }
+
+  await pullLibrary(env, userId, logger);
+
+  const before = await readLocalLibrary(env.KV, userId).catch(() => null);
+  const result = await operation();
+
+  // A failed read must not look like "everything was deleted"
+  if (before) {
+    const after = await readLocalLibrary(env.KV, userId).catch(() => null);
+    const changes = after ? diffLibrary(before, after, new Date().toISOString()) : null;
+    if (changes && hasChanges(changes)) {
+      ctx.waitUntil(pushChanges(env, userId, changes, logger));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Bring KV up to date with the server library
+ *
+ * Also sends anything waiting in the outbox and any KV items the server has
+ * never seen (favorites and collections made before sync existed).
+ *
+ * @returns True if KV now matches the server
+ */
+export async function pullLibrary(env: Env, userId: string, logger?: ExtendedLogger): Promise<boolean> {
+  const deadline = Date.now() + SYNC_DEADLINE_MS;
+
+  try {
+    const [local, outbox] = await Promise.all([readLocalLibrary(env.KV, userId), readOutbox(env.KV, userId)]);
+    let library = await getLibrary(env, userId, { timeout: remainingTime(deadline), logger });
+
+    const pending = mergeChanges(outbox, unsyncedItems(local, library, new Date().toISOString()));
+    if (hasChanges(pending)) {
+      // Whatever the GET left of the budget; the outbox is only cleared on success
+      const response = await pushLibraryChanges(env, userId, pending, { timeout: remainingTime(deadline), logger });
+      library = response.library;
+      if (outbox) {
+        await env.KV.delete(`${OUTBOX_KEY_PREFIX}${userId}`);
+      }
+    }
+
+    const merged = toLocalLibrary(library, local);
+    if (JSON.stringify(merged) !== JSON.stringify(local)) {
+      await writeLocalLibrary(env.KV, userId, merged);
+    }
+    return true;
+  } catch (error) {
+    if (logger) {
+      logger.warn('Library sync unavailable, using local copy', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return false;
+  }
+}
+
+/**
+ * Milliseconds left before the sync deadline
+ *
+ * @throws When the deadline has passed, so the pull falls back to the local copy
+ */
+function remainingTime(deadline: number): number {
+  const remaining = deadline - Date.now();
+  if (remaining <= 0) {
+    throw new Error('Library sync deadline exceeded');
+  }
+  return remaining;
+}
+
+// ============================================================================
+// Outbox
+// ============================================================================
+
+async function readOutbox(kv: KVNamespace, userId: string): Promise<LibraryChanges | null> {
+  const data = await kv.get(`${OUTBOX_KEY_PREFIX}${userId}`);
+  return data ? (JSON.parse(data) as LibraryChanges) : null;
+}
+
+/**
+ * Push changes, keeping them in the outbox if the API is unreachable
+ */
+async function pushChanges(
+  env: Env,
+  userId: string,
+  changes: LibraryChanges,
+  logger?: ExtendedLogger
+): Promise<void> {
+  try {
+    await pushLibraryChanges(env, userId, changes, { logger });
+  } catch (error) {
+    if (logger) {
+      logger.warn('Library push failed, keeping changes for the next sync', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    try {
+      const outbox = await readOutbox(env.KV, userId);
+      await env.KV.put(`${OUTBOX_KEY_PREFIX}${userId}`, JSON.stringify(mergeChanges(outbox, changes)));
+    } catch (outboxError) {
+      if (logger) {
+        logger.error('Failed to save library outbox', outboxError instanceof Error ? outboxError : undefined);
+      }
+    }
+  }
+}
@@ -33,6 +33,7 @@ import type {
   MatchingMethod,
   Gender,
 } from '../types/preferences.js';
+import { getGuildSettings, applyGuildDefaults } from './guild-settings.js';
 import {
   PREFERENCE_DEFAULTS,
   isValidBlendingMode,
@@ -104,6 +105,30 @@ export async function getUserPreferences(
   }
 }
 
+/**
+ * Get a user's preferences with their server's defaults layered underneath
+ *
+ * Use this wherever preferences are resolved for a command; use
+ * getUserPreferences when showing or editing the user's own values.
+ *
+ * @param kv - KV namespace binding
+ * @param userId - Discord user ID
+ * @param guildId - Guild the interaction came from (undefined in DMs)
+ * @param logger - Optional logger
+ */
+export async function getEffectivePreferences(
+  kv: KVNamespace,
+  userId: string,
+  guildId: string | undefined,
+  logger?: ExtendedLogger
+): Promise<UserPreferences> {
+  const [prefs, guild] = await Promise.all([
+    getUserPreferences(kv, userId, logger),
+    getGuildSettings(kv, guildId, logger),
+  ]);
+  return applyGuildDefaults(prefs, guild);
+}
+
 /**
  * Get a single preference value with fallback to default
  *
@@ -283,6 +308,7 @@ export async function hasPreferences(
  * Resolve the effective value for a preference
  *
  * Resolution order: Explicit parameter → User preference → System default
+ * (pass prefs from getEffectivePreferences to add the guild preference step)
  *
  * @param explicit - Explicitly provided value (from command parameter)
  * @param prefs - User preferences object
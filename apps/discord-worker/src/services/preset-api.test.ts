@@ -9,6 +9,7 @@ import {
     getPreset,
     getPresetByName,
     getRandomPreset,
+    getPopularPresetWithDye,
     getFeaturedPresets,
     submitPreset,
     deletePreset,
@@ -291,6 +292,40 @@ describe('preset-api.ts', () => {
         });
     });
 
+    describe('getPopularPresetWithDye', () => {
+        it('should return the first popular preset using the dye', async () => {
+            const env = createMockEnv({ withUrlConfig: true });
+            const mockPresets = [
+                { id: '1', name: 'Top Preset', dyes: [5729, 5730] },
+                { id: '2', name: 'Second Preset', dyes: [13114, 5729] },
+                { id: '3', name: 'Third Preset', dyes: [13114] },
+            ];
+
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: () => Promise.resolve({ presets: mockPresets, total: 3 }),
+            });
+
+            const result = await getPopularPresetWithDye(env, 13114);
+
+            expect(result).toEqual(mockPresets[1]);
+            const calledUrl = mockFetch.mock.calls[0][0];
+            expect(calledUrl).toContain('sort=popular');
+            expect(calledUrl).toContain('limit=50');
+        });
+
+        it('should return null when no popular preset uses the dye', async () => {
+            const env = createMockEnv({ withUrlConfig: true });
+
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: () => Promise.resolve({ presets: [{ id: '1', name: 'Other', dyes: [5729] }], total: 1 }),
+            });
+
+            expect(await getPopularPresetWithDye(env, 13114)).toBeNull();
+        });
+    });
+
     describe('submitPreset', () => {
         it('should submit a new preset', async () => {
             const env = createMockEnv({ withUrlConfig: true });
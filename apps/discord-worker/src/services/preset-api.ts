@@ -13,6 +13,7 @@
 import { isModeratorId } from '@xivdyetools/bot-logic';
 import type { Env } from '../types/env.js';
 import type { ExtendedLogger } from '@xivdyetools/logger';
+import type { LibraryChanges, LibrarySnapshot, LibrarySyncResponse } from '@xivdyetools/types';
 import {
   type CommunityPreset,
   type PresetListResponse,
@@ -97,6 +98,7 @@ async function request<T>(
     userName?: string;
     requestId?: string; // For distributed tracing across service bindings
     logger?: ExtendedLogger;
+    timeout?: number; // Abort after this many ms (default: no limit)
   } = {}
 ): Promise<T> {
   // Require either service binding or URL-based configuration
@@ -141,6 +143,9 @@ async function request<T>(
     headers['X-Request-Signature'] = signature;
   }
 
+  const controller = options.timeout ? new AbortController() : undefined;
+  const timeoutId = controller ? setTimeout(() => controller.abort(), options.timeout) : undefined;
+
   try {
     let response: Response;
 
@@ -152,6 +157,7 @@ async function request<T>(
           method,
           headers,
           body: options.body ? JSON.stringify(options.body) : undefined,
+          signal: controller?.signal,
         })
       );
     } else {
@@ -161,6 +167,7 @@ async function request<T>(
         method,
         headers,
         body: options.body ? JSON.stringify(options.body) : undefined,
+        signal: controller?.signal,
       });
     }
 
@@ -179,11 +186,16 @@ async function request<T>(
     if (error instanceof PresetAPIError) {
       throw error;
     }
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new PresetAPIError(408, 'Preset API request timed out');
+    }
     // Network or parsing error
     if (options.logger) {
       options.logger.error('Preset API request failed', error instanceof Error ? error : undefined);
     }
     throw new PresetAPIError(500, 'Failed to communicate with preset API', error);
+  } finally {
+    clearTimeout(timeoutId);
   }
 }
 
@@ -316,6 +328,28 @@ export async function getRandomPreset(
   return response.presets[randomIndex];
 }
 
+/**
+ * Get the most-voted approved preset that uses a dye
+ *
+ * The API has no dye filter, so this searches the top page of popular
+ * presets (the API caps a page at 50).
+ *
+ * @param itemId - FFXIV item ID of the dye (presets store item IDs)
+ * @returns Matching preset or null if none of the popular presets use it
+ */
+export async function getPopularPresetWithDye(
+  env: Env,
+  itemId: number
+): Promise<CommunityPreset | null> {
+  const response = await getPresets(env, {
+    status: 'approved',
+    sort: 'popular',
+    limit: 50,
+  });
+
+  return response.presets.find((preset) => preset.dyes.includes(itemId)) ?? null;
+}
+
 /**
  * Submit a new preset
  */
@@ -467,6 +501,41 @@ export async function getCategories(env: Env): Promise<CategoryMeta[]> {
   return response.categories;
 }
 
+// ============================================================================
+// Library Functions
+// ============================================================================
+
+/**
+ * Get a user's synced favorites and collections, tombstones included
+ */
+export async function getLibrary(
+  env: Env,
+  userDiscordId: string,
+  options: { timeout?: number; logger?: ExtendedLogger } = {}
+): Promise<LibrarySnapshot> {
+  const response = await request<LibrarySyncResponse>(env, 'GET', '/api/v1/library', {
+    userDiscordId,
+    ...options,
+  });
+  return response.library;
+}
+
+/**
+ * Push favorite/collection changes and get the merged library back
+ */
+export async function pushLibraryChanges(
+  env: Env,
+  userDiscordId: string,
+  changes: LibraryChanges,
+  options: { timeout?: number; logger?: ExtendedLogger } = {}
+): Promise<LibrarySyncResponse> {
+  return request<LibrarySyncResponse>(env, 'PUT', '/api/v1/library', {
+    body: changes,
+    userDiscordId,
+    ...options,
+  });
+}
+
 // ============================================================================
 // Moderation Functions
 // ============================================================================
@@ -0,0 +1,244 @@
+/**
+ * Tests for Price Alert Storage
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+    getAlerts,
+    addAlert,
+    removeAlert,
+    clearAlerts,
+    markAlertsNotified,
+    isAlertCoolingDown,
+    listAlertUserPage,
+    getAlertScanCursor,
+    setAlertScanCursor,
+    ALERTS_KEY_PREFIX,
+    MAX_ALERTS_PER_USER,
+    ALERT_COOLDOWN_MS,
+    type PriceAlert,
+} from './price-alerts.js';
+
+// Map-backed KV mock; list() honors limit and uses the offset as its cursor
+function createMockKV() {
+    const store = new Map<string, string>();
+
+    return {
+        get: vi.fn(async (key: string) => store.get(key) ?? null),
+        put: vi.fn(async (key: string, value: string) => {
+            store.set(key, value);
+        }),
+        delete: vi.fn(async (key: string) => {
+            store.delete(key);
+        }),
+        list: vi.fn(
+            async ({ prefix, limit = 1000, cursor }: { prefix: string; limit?: number; cursor?: string }) => {
+                const names = [...store.keys()].filter((k) => k.startsWith(prefix)).sort();
+                const start = cursor ? parseInt(cursor, 10) : 0;
+                const page = names.slice(start, start + limit);
+                const complete = start + limit >= names.length;
+                return {
+                    keys: page.map((name) => ({ name })),
+                    list_complete: complete,
+                    cursor: complete ? undefined : String(start + limit),
+                };
+            }
+        ),
+        _store: store,
+    } as unknown as KVNamespace & { _store: Map<string, string> };
+}
+
+describe('price-alerts.ts', () => {
+    let mockKV: ReturnType<typeof createMockKV>;
+    const mockUserId = 'user-123';
+    const key = `${ALERTS_KEY_PREFIX}${mockUserId}`;
+
+    beforeEach(() => {
+        mockKV = createMockKV();
+        vi.clearAllMocks();
+    });
+
+    describe('getAlerts', () => {
+        it('should return empty array when the user has no alerts', async () => {
+            expect(await getAlerts(mockKV, mockUserId)).toEqual([]);
+        });
+
+        it('should return empty array and log on corrupt data', async () => {
+            mockKV._store.set(key, 'not json');
+            const logger = { error: vi.fn() };
+
+            expect(await getAlerts(mockKV, mockUserId, logger as any)).toEqual([]);
+            expect(logger.error).toHaveBeenCalled();
+        });
+    });
+
+    describe('addAlert', () => {
+        it('should store a new alert', async () => {
+            const result = await addAlert(mockKV, mockUserId, 5729, 'Cactuar', 50000);
+
+            expect(result.success).toBe(true);
+            expect(result.updated).toBeUndefined();
+            expect(result.alert).toMatchObject({ itemId: 5729, world: 'Cactuar', maxPrice: 50000 });
+            expect(result.alert?.id).toHaveLength(8);
+
+            const stored = await getAlerts(mockKV, mockUserId);
+            expect(stored).toHaveLength(1);
+        });
+
+        it('should re-price an existing dye + world alert and reset its cooldown', async () => {
+            const first = await addAlert(mockKV, mockUserId, 5729, 'Cactuar', 50000);
+            await markAlertsNotified(mockKV, mockUserId, [first.alert!.id], new Date());
+
+            const result = await addAlert(mockKV, mockUserId, 5729, 'cactuar', 30000);
+
+            expect(result.success).toBe(true);
+            expect(result.updated).toBe(true);
+            const stored = await getAlerts(mockKV, mockUserId);
+            expect(stored).toHaveLength(1);
+            expect(stored[0].maxPrice).toBe(30000);
+            expect(stored[0].lastNotifiedAt).toBeUndefined();
+        });
+
+        it('should refuse new alerts past the per-user limit', async () => {
+            for (let i = 0; i < MAX_ALERTS_PER_USER; i++) {
+                await addAlert(mockKV, mockUserId, 5700 + i, 'Cactuar', 1000);
+            }
+
+            const result = await addAlert(mockKV, mockUserId, 9999, 'Cactuar', 1000);
+
+            expect(result).toEqual({ success: false, reason: 'limitReached' });
+        });
+
+        it('should still allow re-pricing when at the limit', async () => {
+            for (let i = 0; i < MAX_ALERTS_PER_USER; i++) {
+                await addAlert(mockKV, mockUserId, 5700 + i, 'Cactuar', 1000);
+            }
+
+            const result = await addAlert(mockKV, mockUserId, 5700, 'Cactuar', 500);
+
+            expect(result.success).toBe(true);
+            expect(result.updated).toBe(true);
+        });
+
+        it('should return an error result when KV fails', async () => {
+            vi.mocked(mockKV.put).mockRejectedValueOnce(new Error('KV down'));
+
+            const result = await addAlert(mockKV, mockUserId, 5729, 'Cactuar', 50000);
+
+            expect(result).toEqual({ success: false, reason: 'error' });
+        });
+    });
+
+    describe('removeAlert', () => {
+        it('should remove and return the alert', async () => {
+            const { alert } = await addAlert(mockKV, mockUserId, 5729, 'Cactuar', 50000);
+            await addAlert(mockKV, mockUserId, 5730, 'Cactuar', 50000);
+
+            const removed = await removeAlert(mockKV, mockUserId, alert!.id);
+
+            expect(removed?.itemId).toBe(5729);
+            expect(await getAlerts(mockKV, mockUserId)).toHaveLength(1);
+        });
+
+        it('should return null for an unknown ID', async () => {
+            await addAlert(mockKV, mockUserId, 5729, 'Cactuar', 50000);
+
+            expect(await removeAlert(mockKV, mockUserId, 'missing')).toBeNull();
+        });
+
+        it('should delete the key when the last alert is removed', async () => {
+            const { alert } = await addAlert(mockKV, mockUserId, 5729, 'Cactuar', 50000);
+
+            await removeAlert(mockKV, mockUserId, alert!.id);
+
+            expect(mockKV._store.has(key)).toBe(false);
+        });
+    });
+
+    describe('clearAlerts', () => {
+        it('should delete all alerts and return the count', async () => {
+            await addAlert(mockKV, mockUserId, 5729, 'Cactuar', 50000);
+            await addAlert(mockKV, mockUserId, 5730, 'Cactuar', 50000);
+
+            expect(await clearAlerts(mockKV, mockUserId)).toBe(2);
+            expect(mockKV._store.has(key)).toBe(false);
+        });
+
+        it('should return 0 when the user has no alerts', async () => {
+            expect(await clearAlerts(mockKV, mockUserId)).toBe(0);
+        });
+    });
+
+    describe('markAlertsNotified', () => {
+        it('should stamp only the given alerts', async () => {
+            const a = await addAlert(mockKV, mockUserId, 5729, 'Cactuar', 50000);
+            await addAlert(mockKV, mockUserId, 5730, 'Cactuar', 50000);
+            const now = new Date('2026-01-01T00:00:00Z');
+
+            await markAlertsNotified(mockKV, mockUserId, [a.alert!.id], now);
+
+            const stored = await getAlerts(mockKV, mockUserId);
+            expect(stored[0].lastNotifiedAt).toBe(now.toISOString());
+            expect(stored[1].lastNotifiedAt).toBeUndefined();
+        });
+
+        it('should not resurrect alerts removed in the meantime', async () => {
+            const a = await addAlert(mockKV, mockUserId, 5729, 'Cactuar', 50000);
+            await clearAlerts(mockKV, mockUserId);
+
+            await markAlertsNotified(mockKV, mockUserId, [a.alert!.id], new Date());
+
+            expect(mockKV._store.has(key)).toBe(false);
+            expect(mockKV.put).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('isAlertCoolingDown', () => {
+        const alert: PriceAlert = {
+            id: 'abc12345',
+            itemId: 5729,
+            world: 'Cactuar',
+            maxPrice: 50000,
+            createdAt: '2026-01-01T00:00:00.000Z',
+        };
+
+        it('should be false for alerts that never fired', () => {
+            expect(isAlertCoolingDown(alert, Date.now())).toBe(false);
+        });
+
+        it('should be true within the cooldown and false after it', () => {
+            const notified = { ...alert, lastNotifiedAt: '2026-01-01T00:00:00.000Z' };
+            const notifiedMs = Date.parse(notified.lastNotifiedAt);
+
+            expect(isAlertCoolingDown(notified, notifiedMs + ALERT_COOLDOWN_MS - 1)).toBe(true);
+            expect(isAlertCoolingDown(notified, notifiedMs + ALERT_COOLDOWN_MS)).toBe(false);
+        });
+    });
+
+    describe('listAlertUserPage', () => {
+        it('should page through alert owners with cursors', async () => {
+            for (const userId of ['u1', 'u2', 'u3', 'u4', 'u5']) {
+                await addAlert(mockKV, userId, 5729, 'Cactuar', 50000);
+            }
+            mockKV._store.set('xivdye:favorites:v1:u6', '[]');
+
+            const first = await listAlertUserPage(mockKV, 3);
+            const second = await listAlertUserPage(mockKV, 3, first.cursor);
+
+            expect(first).toEqual({ userIds: ['u1', 'u2', 'u3'], cursor: '3' });
+            expect(second).toEqual({ userIds: ['u4', 'u5'], cursor: undefined });
+        });
+    });
+
+    describe('alert scan cursor', () => {
+        it('should save, read and clear the cursor outside the alert prefix', async () => {
+            await setAlertScanCursor(mockKV, 'abc');
+
+            expect(await getAlertScanCursor(mockKV)).toBe('abc');
+            expect((await listAlertUserPage(mockKV, 10)).userIds).toEqual([]);
+
+            await setAlertScanCursor(mockKV, undefined);
+
+            expect(await getAlertScanCursor(mockKV)).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,320 @@
+/**
+ * Price Alert Storage
+ *
+ * Per-user market price alerts ("DM me when Pure White is listed at or below
+ * 50,000 Gil on Cactuar") stored in Cloudflare KV, one JSON blob per user.
+ * The scheduled price check (handlers/scheduled/price-alerts.ts) lists the
+ * users with alerts a page at a time and reads each blob.
+ *
+ * Shares user-storage's single-blob design and its BUG-036 caveat: two
+ * concurrent mutations for the same user can drop one write. Alert edits are
+ * rare and user-driven, so this is accepted here too.
+ *
+ * @module services/price-alerts
+ */
+
+import type { ExtendedLogger } from '@xivdyetools/logger';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * KV schema version for data format evolution
+ * Increment when changing the data structure stored in KV
+ */
+const KV_SCHEMA_VERSION = 'v1';
+
+/** Separate prefix so the scheduled check can kv.list() only alert owners */
+export const ALERTS_KEY_PREFIX = `xivdye:alerts:${KV_SCHEMA_VERSION}:`;
+
+/** Scan position of the scheduled check; outside ALERTS_KEY_PREFIX so it isn't listed as a user */
+const ALERT_SCAN_CURSOR_KEY = `xivdye:alerts-scan:${KV_SCHEMA_VERSION}`;
+
+/** Maximum number of price alerts per user */
+export const MAX_ALERTS_PER_USER = 10;
+
+/** After an alert fires, it stays quiet for this many hours even if the price stays low */
+export const ALERT_COOLDOWN_HOURS = 12;
+
+/** {@link ALERT_COOLDOWN_HOURS} in milliseconds */
+export const ALERT_COOLDOWN_MS = ALERT_COOLDOWN_HOURS * 60 * 60 * 1000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A market price alert
+ */
+export interface PriceAlert {
+  /** Short identifier, unique per user */
+  id: string;
+  /** FFXIV item ID of the dye */
+  itemId: number;
+  /** Validated world or datacenter name */
+  world: string;
+  /** Alert when the lowest listing is at or below this many Gil */
+  maxPrice: number;
+  /** ISO timestamp of creation */
+  createdAt: string;
+  /** ISO timestamp of the last DM for this alert (drives the cooldown) */
+  lastNotifiedAt?: string;
+}
+
+/**
+ * Result of adding an alert
+ *
+ * Adding an alert for a dye + world that is already watched replaces its
+ * price (`updated: true`) instead of creating a duplicate.
+ */
+export interface AddAlertResult {
+  success: boolean;
+  alert?: PriceAlert;
+  updated?: boolean;
+  reason?: 'limitReached' | 'error';
+}
+
+// ============================================================================
+// Alert Functions
+// ============================================================================
+
+/**
+ * Get a user's price alerts
+ *
+ * @param kv - KV namespace binding
+ * @param userId - Discord user ID
+ * @param logger - Optional logger for structured logging
+ * @returns Array of alerts (empty if none)
+ */
+export async function getAlerts(
+  kv: KVNamespace,
+  userId: string,
+  logger?: ExtendedLogger
+): Promise<PriceAlert[]> {
+  try {
+    const data = await kv.get(`${ALERTS_KEY_PREFIX}${userId}`);
+    if (!data) return [];
+    return JSON.parse(data) as PriceAlert[];
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to get price alerts', error instanceof Error ? error : undefined);
+    }
+    return [];
+  }
+}
+
+/**
+ * Add (or re-price) a price alert
+ *
+ * @param kv - KV namespace binding
+ * @param userId - Discord user ID
+ * @param itemId - FFXIV item ID of the dye
+ * @param world - Validated world or datacenter name
+ * @param maxPrice - Gil threshold
+ * @param logger - Optional logger for structured logging
+ * @returns Result of the operation
+ */
+export async function addAlert(
+  kv: KVNamespace,
+  userId: string,
+  itemId: number,
+  world: string,
+  maxPrice: number,
+  logger?: ExtendedLogger
+): Promise<AddAlertResult> {
+  try {
+    const alerts = await getAlerts(kv, userId, logger);
+
+    const existing = alerts.find(
+      (a) => a.itemId === itemId && a.world.toLowerCase() === world.toLowerCase()
+    );
+    if (existing) {
+      existing.maxPrice = maxPrice;
+      // A new threshold deserves a fresh check, not the old cooldown
+      delete existing.lastNotifiedAt;
+      await saveAlerts(kv, userId, alerts);
+      return { success: true, alert: existing, updated: true };
+    }
+
+    if (alerts.length >= MAX_ALERTS_PER_USER) {
+      return { success: false, reason: 'limitReached' };
+    }
+
+    const alert: PriceAlert = {
+      id: crypto.randomUUID().slice(0, 8),
+      itemId,
+      world,
+      maxPrice,
+      createdAt: new Date().toISOString(),
+    };
+    alerts.push(alert);
+    await saveAlerts(kv, userId, alerts);
+
+    return { success: true, alert };
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to add price alert', error instanceof Error ? error : undefined);
+    }
+    return { success: false, reason: 'error' };
+  }
+}
+
+/**
+ * Remove a price alert
+ *
+ * @param kv - KV namespace binding
+ * @param userId - Discord user ID
+ * @param alertId - Alert ID to remove
+ * @param logger - Optional logger for structured logging
+ * @returns The removed alert, or null if not found
+ */
+export async function removeAlert(
+  kv: KVNamespace,
+  userId: string,
+  alertId: string,
+  logger?: ExtendedLogger
+): Promise<PriceAlert | null> {
+  try {
+    const alerts = await getAlerts(kv, userId, logger);
+    const index = alerts.findIndex((a) => a.id === alertId);
+
+    if (index === -1) {
+      return null;
+    }
+
+    const [removed] = alerts.splice(index, 1);
+    await saveAlerts(kv, userId, alerts);
+
+    return removed;
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to remove price alert', error instanceof Error ? error : undefined);
+    }
+    return null;
+  }
+}
+
+/**
+ * Remove all of a user's price alerts
+ *
+ * Used by /alert clear, the unsubscribe button on alert DMs, and the
+ * scheduled check when a user can no longer be DMed.
+ *
+ * @returns Number of alerts removed
+ */
+export async function clearAlerts(
+  kv: KVNamespace,
+  userId: string,
+  logger?: ExtendedLogger
+): Promise<number> {
+  try {
+    const alerts = await getAlerts(kv, userId, logger);
+    await kv.delete(`${ALERTS_KEY_PREFIX}${userId}`);
+    return alerts.length;
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to clear price alerts', error instanceof Error ? error : undefined);
+    }
+    return 0;
+  }
+}
+
+/**
+ * Record that alerts were just sent, starting their cooldown
+ *
+ * Re-reads the blob so alerts the user removed in the meantime stay removed.
+ */
+export async function markAlertsNotified(
+  kv: KVNamespace,
+  userId: string,
+  alertIds: string[],
+  notifiedAt: Date,
+  logger?: ExtendedLogger
+): Promise<void> {
+  try {
+    const alerts = await getAlerts(kv, userId, logger);
+    const ids = new Set(alertIds);
+    let changed = false;
+
+    for (const alert of alerts) {
+      if (ids.has(alert.id)) {
+        alert.lastNotifiedAt = notifiedAt.toISOString();
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      await saveAlerts(kv, userId, alerts);
+    }
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to mark price alerts notified', error instanceof Error ? error : undefined);
+    }
+  }
+}
+
+/**
+ * Whether an alert is still in its post-notification cooldown
+ */
+export function isAlertCoolingDown(alert: PriceAlert, now: number): boolean {
+  if (!alert.lastNotifiedAt) return false;
+  return now - Date.parse(alert.lastNotifiedAt) < ALERT_COOLDOWN_MS;
+}
+
+/**
+ * One page of users with at least one alert
+ */
+export interface AlertUserPage {
+  userIds: string[];
+  /** KV list cursor for the next page; undefined once the last page is read */
+  cursor?: string;
+}
+
+/**
+ * List up to `limit` users with at least one alert, starting at a KV list cursor
+ *
+ * The scheduled check reads one page per run and saves the cursor, so a large
+ * user base is spread across runs instead of read in one.
+ */
+export async function listAlertUserPage(
+  kv: KVNamespace,
+  limit: number,
+  cursor?: string
+): Promise<AlertUserPage> {
+  const page = await kv.list({ prefix: ALERTS_KEY_PREFIX, limit, cursor });
+  return {
+    userIds: page.keys.map((key) => key.name.slice(ALERTS_KEY_PREFIX.length)),
+    cursor: page.list_complete ? undefined : page.cursor,
+  };
+}
+
+/**
+ * Get the saved scan position of the scheduled check (undefined = start over)
+ */
+export async function getAlertScanCursor(kv: KVNamespace): Promise<string | undefined> {
+  return (await kv.get(ALERT_SCAN_CURSOR_KEY)) ?? undefined;
+}
+
+/**
+ * Save where the next scheduled check starts, or clear it to start over
+ */
+export async function setAlertScanCursor(kv: KVNamespace, cursor: string | undefined): Promise<void> {
+  if (cursor) {
+    await kv.put(ALERT_SCAN_CURSOR_KEY, cursor);
+  } else {
+    await kv.delete(ALERT_SCAN_CURSOR_KEY);
+  }
+}
+
+/**
+ * Save a user's alerts, deleting the key when none are left so the
+ * scheduled check doesn't list the user
+ */
+async function saveAlerts(kv: KVNamespace, userId: string, alerts: PriceAlert[]): Promise<void> {
+  if (alerts.length === 0) {
+    await kv.delete(`${ALERTS_KEY_PREFIX}${userId}`);
+    return;
+  }
+  await kv.put(`${ALERTS_KEY_PREFIX}${userId}`, JSON.stringify(alerts));
+}
@@ -0,0 +1,54 @@
+/**
+ * Tests for Recolor Preview
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { PaletteMatch } from '@xivdyetools/core';
+import { createRecolorPreview, PREVIEW_MAX_DIMENSION } from './recolor-preview.js';
+
+const mockImage = vi.hoisted(() => ({
+  processImageForExtraction: vi.fn(),
+  combineSideBySide: vi.fn(),
+  encodePng: vi.fn(),
+}));
+vi.mock('./image/index.js', () => mockImage);
+
+const mockRecolorPixels = vi.hoisted(() => vi.fn());
+vi.mock('@xivdyetools/core', () => ({
+  PaletteService: { recolorPixels: mockRecolorPixels },
+}));
+
+describe('Recolor Preview', () => {
+  const original = { pixels: new Uint8Array([200, 30, 30, 255]), width: 1, height: 1 };
+  const matches = [
+    { extracted: { r: 200, g: 30, b: 30 }, matchedDye: { hex: '#3050C0' }, distance: 40, dominance: 100 },
+  ] as unknown as PaletteMatch[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockImage.processImageForExtraction.mockResolvedValue(original);
+    mockRecolorPixels.mockReturnValue(new Uint8ClampedArray([60, 70, 190, 255]));
+    mockImage.combineSideBySide.mockReturnValue({ ...original, width: 10 });
+    mockImage.encodePng.mockReturnValue(new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+  });
+
+  it('should decode the image at preview size and recolor it with the matches', async () => {
+    await createRecolorPreview(new Uint8Array([1, 2, 3]), matches);
+
+    expect(mockImage.processImageForExtraction).toHaveBeenCalledWith(new Uint8Array([1, 2, 3]), {
+      maxDimension: PREVIEW_MAX_DIMENSION,
+    });
+    expect(mockRecolorPixels).toHaveBeenCalledWith(original.pixels, matches);
+  });
+
+  it('should place the original left of the recolored image and encode a PNG', async () => {
+    const png = await createRecolorPreview(new Uint8Array([1, 2, 3]), matches);
+
+    const [[left, right]] = mockImage.combineSideBySide.mock.calls[0];
+    expect(left).toBe(original);
+    expect(Array.from(right.pixels)).toEqual([60, 70, 190, 255]);
+    expect(right).toMatchObject({ width: 1, height: 1 });
+    expect(mockImage.encodePng).toHaveBeenCalledWith({ ...original, width: 10 });
+    expect(png).toEqual(new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Recolor Preview
+ *
+ * Renders "what this image would look like in these dyes": each extracted
+ * color of a /match_image or /extractor image palette is swapped for its
+ * matched dye, keeping the photo's lightness (PaletteService.recolorPixels),
+ * and the result is placed next to the original in one PNG.
+ *
+ * @module services/recolor-preview
+ */
+
+import { PaletteService, type PaletteMatch } from '@xivdyetools/core';
+import { combineSideBySide, encodePng, processImageForExtraction } from './image/index.js';
+
+/** Longest side of each half of the preview, in pixels */
+export const PREVIEW_MAX_DIMENSION = 320;
+
+/** Transparent gap between the original and the recolored image */
+const PREVIEW_GAP = 8;
+
+/**
+ * Build an original | recolored PNG for a matched palette
+ *
+ * @param buffer - Image file bytes (already validated and fetched)
+ * @param matches - Palette matches whose dyes replace the extracted colors
+ * @returns PNG file bytes
+ */
+export async function createRecolorPreview(buffer: Uint8Array, matches: PaletteMatch[]): Promise<Uint8Array> {
+  const original = await processImageForExtraction(buffer, { maxDimension: PREVIEW_MAX_DIMENSION });
+  const recolored = PaletteService.recolorPixels(original.pixels, matches);
+
+  return encodePng(
+    combineSideBySide(
+      [original, { ...original, pixels: new Uint8Array(recolored.buffer) }],
+      PREVIEW_GAP
+    )
+  );
+}
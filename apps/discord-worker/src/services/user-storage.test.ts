@@ -15,6 +15,14 @@ import {
     renameCollection,
     addDyeToCollection,
     removeDyeFromCollection,
+    getCollectionById,
+    importCollection,
+    getGlamourPlan,
+    setGlamourSlot,
+    setGlamourSlots,
+    clearGlamourSlot,
+    clearGlamourPlan,
+    GLAMOUR_SLOTS,
     MAX_FAVORITES,
     MAX_COLLECTIONS,
     MAX_DYES_PER_COLLECTION,
@@ -471,6 +479,185 @@ describe('user-storage.ts', () => {
         });
     });
 
+    describe('getCollectionById', () => {
+        it('should find a collection by its ID', async () => {
+            const { collection } = await createCollection(mockKV, mockUserId, 'My Dyes');
+
+            const found = await getCollectionById(mockKV, mockUserId, collection!.id);
+            expect(found?.name).toBe('My Dyes');
+        });
+
+        it('should return null for an unknown ID', async () => {
+            const found = await getCollectionById(mockKV, mockUserId, 'missing-id');
+            expect(found).toBeNull();
+        });
+    });
+
+    describe('importCollection', () => {
+        const source = { name: 'Shared', description: 'From a friend', dyes: [5729, 5730, 5729] };
+
+        it('should copy a collection under a new ID without duplicate dyes', async () => {
+            const result = await importCollection(mockKV, mockUserId, source);
+
+            expect(result.success).toBe(true);
+            expect(result.collection?.name).toBe('Shared');
+            expect(result.collection?.description).toBe('From a friend');
+            expect(result.collection?.dyes).toEqual([5729, 5730]);
+            expect(await getCollection(mockKV, mockUserId, 'Shared')).toEqual(result.collection);
+        });
+
+        it('should use the given name for the copy', async () => {
+            const result = await importCollection(mockKV, mockUserId, source, 'My Copy');
+            expect(result.collection?.name).toBe('My Copy');
+        });
+
+        it('should cap the dye list', async () => {
+            const dyes = Array.from({ length: MAX_DYES_PER_COLLECTION + 5 }, (_, i) => 1000 + i);
+
+            const result = await importCollection(mockKV, mockUserId, { name: 'Big', dyes });
+            expect(result.collection?.dyes).toHaveLength(MAX_DYES_PER_COLLECTION);
+        });
+
+        it('should reject a name that is already taken', async () => {
+            await createCollection(mockKV, mockUserId, 'Shared');
+
+            const result = await importCollection(mockKV, mockUserId, source);
+            expect(result).toEqual({ success: false, reason: 'alreadyExists' });
+        });
+
+        it('should reject when at the collection limit', async () => {
+            for (let i = 0; i < MAX_COLLECTIONS; i++) {
+                await createCollection(mockKV, mockUserId, `Collection ${i}`);
+            }
+
+            const result = await importCollection(mockKV, mockUserId, source);
+            expect(result).toEqual({ success: false, reason: 'limitReached' });
+        });
+
+        it('should truncate a long name during sanitization', async () => {
+            const result = await importCollection(mockKV, mockUserId, source, 'a'.repeat(MAX_COLLECTION_NAME_LENGTH + 10));
+            expect(result.collection?.name.length).toBeLessThanOrEqual(MAX_COLLECTION_NAME_LENGTH);
+        });
+
+        it('should return error reason on KV error', async () => {
+            mockKV.put = vi.fn().mockRejectedValue(new Error('KV error'));
+
+            const result = await importCollection(mockKV, mockUserId, source);
+            expect(result).toEqual({ success: false, reason: 'error' });
+        });
+    });
+
+    // ==========================================================================
+    // Glamour Plan Tests
+    // ==========================================================================
+
+    describe('getGlamourPlan', () => {
+        it('should return null when no plan is saved', async () => {
+            const plan = await getGlamourPlan(mockKV, mockUserId);
+            expect(plan).toBeNull();
+        });
+
+        it('should return null on KV error', async () => {
+            mockKV.get = vi.fn().mockRejectedValue(new Error('KV error'));
+
+            const plan = await getGlamourPlan(mockKV, mockUserId);
+            expect(plan).toBeNull();
+        });
+    });
+
+    describe('setGlamourSlot', () => {
+        it('should save both channels of a slot', async () => {
+            const result = await setGlamourSlot(mockKV, mockUserId, 'head', { primary: 5729, secondary: 5730 });
+
+            expect(result).toBe(true);
+
+            const plan = await getGlamourPlan(mockKV, mockUserId);
+            expect(plan?.slots.head).toEqual({ primary: 5729, secondary: 5730 });
+            expect(plan?.updatedAt).toBeTruthy();
+        });
+
+        it('should replace the slot and keep other slots', async () => {
+            await setGlamourSlot(mockKV, mockUserId, 'head', { primary: 5729, secondary: 5730 });
+            await setGlamourSlot(mockKV, mockUserId, 'body', { primary: 5731 });
+            await setGlamourSlot(mockKV, mockUserId, 'head', { primary: 5732 });
+
+            const plan = await getGlamourPlan(mockKV, mockUserId);
+            expect(plan?.slots).toEqual({ head: { primary: 5732 }, body: { primary: 5731 } });
+        });
+
+        it('should return false on KV error', async () => {
+            mockKV.put = vi.fn().mockRejectedValue(new Error('KV error'));
+
+            const result = await setGlamourSlot(mockKV, mockUserId, 'head', { primary: 5729 });
+            expect(result).toBe(false);
+        });
+    });
+
+    describe('setGlamourSlots', () => {
+        it('should update several slots in one write', async () => {
+            await setGlamourSlot(mockKV, mockUserId, 'legs', { primary: 5733 });
+
+            const result = await setGlamourSlots(mockKV, mockUserId, {
+                head: { primary: 5729, secondary: 5730 },
+                feet: { primary: 5731, secondary: 5732 },
+            });
+
+            expect(result).toBe(true);
+            expect(mockKV.put).toHaveBeenCalledTimes(2);
+
+            const plan = await getGlamourPlan(mockKV, mockUserId);
+            expect(Object.keys(plan?.slots ?? {})).toHaveLength(3);
+        });
+    });
+
+    describe('clearGlamourSlot', () => {
+        it('should remove one slot', async () => {
+            await setGlamourSlots(mockKV, mockUserId, { head: { primary: 5729 }, body: { primary: 5730 } });
+
+            const result = await clearGlamourSlot(mockKV, mockUserId, 'head');
+
+            expect(result).toBe(true);
+            const plan = await getGlamourPlan(mockKV, mockUserId);
+            expect(plan?.slots).toEqual({ body: { primary: 5730 } });
+        });
+
+        it('should delete the plan when the last slot is cleared', async () => {
+            await setGlamourSlot(mockKV, mockUserId, 'head', { primary: 5729 });
+
+            await clearGlamourSlot(mockKV, mockUserId, 'head');
+
+            expect(mockKV.delete).toHaveBeenCalled();
+            expect(await getGlamourPlan(mockKV, mockUserId)).toBeNull();
+        });
+
+        it('should return false if the slot is not dyed', async () => {
+            const result = await clearGlamourSlot(mockKV, mockUserId, 'weapon');
+            expect(result).toBe(false);
+        });
+    });
+
+    describe('clearGlamourPlan', () => {
+        it('should delete the whole plan', async () => {
+            await setGlamourSlot(mockKV, mockUserId, 'head', { primary: 5729 });
+
+            const result = await clearGlamourPlan(mockKV, mockUserId);
+
+            expect(result).toBe(true);
+            expect(await getGlamourPlan(mockKV, mockUserId)).toBeNull();
+        });
+
+        it('should return false on KV error', async () => {
+            mockKV.delete = vi.fn().mockRejectedValue(new Error('KV error'));
+
+            const result = await clearGlamourPlan(mockKV, mockUserId);
+            expect(result).toBe(false);
+        });
+    });
+
+    it('should list gear slots in display order', () => {
+        expect(GLAMOUR_SLOTS).toEqual(['head', 'body', 'hands', 'legs', 'feet', 'weapon', 'accessories']);
+    });
+
     // ==========================================================================
     // Logger Coverage Tests
     // ==========================================================================
@@ -1,7 +1,7 @@
 /**
  * User Storage Service
  *
- * Manages user favorites and collections using Cloudflare KV.
+ * Manages user favorites, collections and glamour plans using Cloudflare KV.
  *
  * @module services/user-storage
   *
@@ -17,6 +17,7 @@
  */
 
 import type { ExtendedLogger } from '@xivdyetools/logger';
+import type { LocalLibrary } from '@xivdyetools/types';
 import { sanitizeCollectionName, sanitizeCollectionDescription } from '../utils/sanitize.js';
 
 // ============================================================================
@@ -31,6 +32,7 @@ const KV_SCHEMA_VERSION = 'v1';
 
 const FAVORITES_KEY_PREFIX = `xivdye:favorites:${KV_SCHEMA_VERSION}:`;
 const COLLECTIONS_KEY_PREFIX = `xivdye:collections:${KV_SCHEMA_VERSION}:`;
+const GLAMOUR_KEY_PREFIX = `xivdye:glamour:${KV_SCHEMA_VERSION}:`;
 
 /** Maximum number of favorite dyes per user */
 export const MAX_FAVORITES = 20;
@@ -47,6 +49,9 @@ export const MAX_COLLECTION_NAME_LENGTH = 50;
 /** Maximum length for collection descriptions */
 export const MAX_DESCRIPTION_LENGTH = 200;
 
+/** Gear slots of a glamour plan, in display order */
+export const GLAMOUR_SLOTS = ['head', 'body', 'hands', 'legs', 'feet', 'weapon', 'accessories'] as const;
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -77,6 +82,28 @@ export interface Collection {
   updatedAt: string;
 }
 
+/**
+ * A gear slot of a glamour plan
+ */
+export type GlamourSlot = (typeof GLAMOUR_SLOTS)[number];
+
+/**
+ * The two dye channels of a gear slot (Dawntrail dual dyeing), as item IDs
+ */
+export interface GlamourSlotDyes {
+  primary: number;
+  secondary?: number;
+}
+
+/**
+ * A user's outfit plan: one entry per dyed slot
+ */
+export interface GlamourPlan {
+  slots: Partial<Record<GlamourSlot, GlamourSlotDyes>>;
+  /** ISO timestamp of last update */
+  updatedAt: string;
+}
+
 // ============================================================================
 // Favorites Functions
 // ============================================================================
@@ -529,3 +556,267 @@ export async function removeDyeFromCollection(
     return false;
   }
 }
+
+/**
+ * Get a specific collection by ID
+ *
+ * @param kv - KV namespace binding
+ * @param userId - Discord user ID of the owner
+ * @param collectionId - Collection UUID
+ * @param logger - Optional logger for structured logging
+ * @returns Collection or null if not found
+ */
+export async function getCollectionById(
+  kv: KVNamespace,
+  userId: string,
+  collectionId: string,
+  logger?: ExtendedLogger
+): Promise<Collection | null> {
+  const collections = await getCollections(kv, userId, logger);
+  return collections.find((c) => c.id === collectionId) ?? null;
+}
+
+/**
+ * Copy a collection (e.g. one shared by another user) into a user's collections
+ *
+ * The copy gets a new ID and timestamps. Duplicate dyes are dropped and the
+ * dye list is capped at MAX_DYES_PER_COLLECTION.
+ *
+ * @param kv - KV namespace binding
+ * @param userId - Discord user ID to copy into
+ * @param source - Collection to copy
+ * @param name - Name for the copy (defaults to the source's name)
+ * @param logger - Optional logger for structured logging
+ * @returns Result with the new collection if successful
+ */
+export async function importCollection(
+  kv: KVNamespace,
+  userId: string,
+  source: Pick<Collection, 'name' | 'description' | 'dyes'>,
+  name?: string,
+  logger?: ExtendedLogger
+): Promise<{ success: boolean; collection?: Collection; reason?: string }> {
+  try {
+    // SECURITY: Sanitize again — the source may predate current sanitization rules
+    const sanitizedName = sanitizeCollectionName(name ?? source.name);
+    const sanitizedDescription = source.description ? sanitizeCollectionDescription(source.description) : undefined;
+
+    // Reject empty names after sanitization
+    if (!sanitizedName || sanitizedName.length === 0) {
+      return { success: false, reason: 'invalidName' };
+    }
+
+    // Validate name length
+    if (sanitizedName.length > MAX_COLLECTION_NAME_LENGTH) {
+      return { success: false, reason: 'nameTooLong' };
+    }
+
+    const collections = await getCollections(kv, userId, logger);
+
+    // Check for duplicate name
+    if (collections.some((c) => c.name.toLowerCase() === sanitizedName.toLowerCase())) {
+      return { success: false, reason: 'alreadyExists' };
+    }
+
+    // Check limit
+    if (collections.length >= MAX_COLLECTIONS) {
+      return { success: false, reason: 'limitReached' };
+    }
+
+    const now = new Date().toISOString();
+    const collection: Collection = {
+      id: crypto.randomUUID(),
+      name: sanitizedName,
+      description: sanitizedDescription || undefined,
+      dyes: [...new Set(source.dyes)].slice(0, MAX_DYES_PER_COLLECTION),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    collections.push(collection);
+    await kv.put(`${COLLECTIONS_KEY_PREFIX}${userId}`, JSON.stringify(collections));
+
+    return { success: true, collection };
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to import collection', error instanceof Error ? error : undefined);
+    }
+    return { success: false, reason: 'error' };
+  }
+}
+
+// ============================================================================
+// Library Functions (used by services/library-sync)
+// ============================================================================
+
+/**
+ * Read a user's favorites and collections (the bot's local library copy)
+ *
+ * Unlike getFavorites / getCollections this throws on KV errors, so library
+ * sync can tell an empty library from a failed read.
+ *
+ * @param kv - KV namespace binding
+ * @param userId - Discord user ID
+ */
+export async function readLocalLibrary(kv: KVNamespace, userId: string): Promise<LocalLibrary> {
+  const [favorites, collections] = await Promise.all([
+    kv.get(`${FAVORITES_KEY_PREFIX}${userId}`),
+    kv.get(`${COLLECTIONS_KEY_PREFIX}${userId}`),
+  ]);
+
+  return {
+    favorites: favorites ? (JSON.parse(favorites) as number[]) : [],
+    collections: collections ? (JSON.parse(collections) as Collection[]) : [],
+  };
+}
+
+/**
+ * Replace a user's favorites and collections (e.g. with the synced library)
+ *
+ * @param kv - KV namespace binding
+ * @param userId - Discord user ID
+ * @param library - Favorites and collections to store
+ */
+export async function writeLocalLibrary(kv: KVNamespace, userId: string, library: LocalLibrary): Promise<void> {
+  await Promise.all([
+    library.favorites.length > 0
+      ? kv.put(`${FAVORITES_KEY_PREFIX}${userId}`, JSON.stringify(library.favorites))
+      : kv.delete(`${FAVORITES_KEY_PREFIX}${userId}`),
+    kv.put(`${COLLECTIONS_KEY_PREFIX}${userId}`, JSON.stringify(library.collections)),
+  ]);
+}
+
+// ============================================================================
+// Glamour Plan Functions
+// ============================================================================
+
+/**
+ * Get a user's glamour plan
+ *
+ * @param kv - KV namespace binding
+ * @param userId - Discord user ID
+ * @param logger - Optional logger for structured logging
+ * @returns The plan, or null if the user has none
+ */
+export async function getGlamourPlan(
+  kv: KVNamespace,
+  userId: string,
+  logger?: ExtendedLogger
+): Promise<GlamourPlan | null> {
+  try {
+    const data = await kv.get(`${GLAMOUR_KEY_PREFIX}${userId}`);
+    if (!data) return null;
+    return JSON.parse(data) as GlamourPlan;
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to get glamour plan', error instanceof Error ? error : undefined);
+    }
+    return null;
+  }
+}
+
+/**
+ * Set the dyes of one slot (replacing both channels)
+ *
+ * @param kv - KV namespace binding
+ * @param userId - Discord user ID
+ * @param slot - Gear slot
+ * @param dyes - Primary and optional secondary dye item IDs
+ * @param logger - Optional logger for structured logging
+ * @returns True if saved
+ */
+export async function setGlamourSlot(
+  kv: KVNamespace,
+  userId: string,
+  slot: GlamourSlot,
+  dyes: GlamourSlotDyes,
+  logger?: ExtendedLogger
+): Promise<boolean> {
+  return setGlamourSlots(kv, userId, { [slot]: dyes }, logger);
+}
+
+/**
+ * Set the dyes of several slots at once (e.g. applying harmony suggestions)
+ *
+ * Slots not listed keep their current dyes.
+ *
+ * @returns True if saved
+ */
+export async function setGlamourSlots(
+  kv: KVNamespace,
+  userId: string,
+  slots: Partial<Record<GlamourSlot, GlamourSlotDyes>>,
+  logger?: ExtendedLogger
+): Promise<boolean> {
+  try {
+    const plan = (await getGlamourPlan(kv, userId, logger)) ?? { slots: {}, updatedAt: '' };
+    plan.slots = { ...plan.slots, ...slots };
+    plan.updatedAt = new Date().toISOString();
+
+    await kv.put(`${GLAMOUR_KEY_PREFIX}${userId}`, JSON.stringify(plan));
+    return true;
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to save glamour plan', error instanceof Error ? error : undefined);
+    }
+    return false;
+  }
+}
+
+/**
+ * Clear one slot of a user's glamour plan
+ *
+ * @returns True if the slot was dyed and is now cleared, false if it was empty
+ */
+export async function clearGlamourSlot(
+  kv: KVNamespace,
+  userId: string,
+  slot: GlamourSlot,
+  logger?: ExtendedLogger
+): Promise<boolean> {
+  try {
+    const plan = await getGlamourPlan(kv, userId, logger);
+    if (!plan?.slots[slot]) {
+      return false;
+    }
+
+    delete plan.slots[slot];
+    plan.updatedAt = new Date().toISOString();
+
+    if (Object.keys(plan.slots).length === 0) {
+      await kv.delete(`${GLAMOUR_KEY_PREFIX}${userId}`);
+    } else {
+      await kv.put(`${GLAMOUR_KEY_PREFIX}${userId}`, JSON.stringify(plan));
+    }
+
+    return true;
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to clear glamour slot', error instanceof Error ? error : undefined);
+    }
+    return false;
+  }
+}
+
+/**
+ * Clear a user's whole glamour plan
+ *
+ * @param kv - KV namespace binding
+ * @param userId - Discord user ID
+ * @param logger - Optional logger for structured logging
+ */
+export async function clearGlamourPlan(
+  kv: KVNamespace,
+  userId: string,
+  logger?: ExtendedLogger
+): Promise<boolean> {
+  try {
+    await kv.delete(`${GLAMOUR_KEY_PREFIX}${userId}`);
+    return true;
+  } catch (error) {
+    if (logger) {
+      logger.error('Failed to clear glamour plan', error instanceof Error ? error : undefined);
+    }
+    return false;
+  }
+}
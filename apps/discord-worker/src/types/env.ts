@@ -28,6 +28,9 @@ export interface Env {
   /** HMAC secret for verifying GitHub webhook signatures */
   GITHUB_WEBHOOK_SECRET?: string;
 
+  /** HMAC key for /collection share codes (at least 32 bytes; sharing is off when unset) */
+  COLLECTION_SHARE_SECRET?: string;
+
   /** Discord channel ID for changelog announcements */
   ANNOUNCEMENT_CHANNEL_ID?: string;
 
@@ -129,6 +132,7 @@ export interface DiscordInteraction {
       avatar?: string;
       global_name?: string;
     };
+    permissions?: string; // Member's permission bitfield in the channel (decimal string)
   };
   user?: {
     id: string;
@@ -142,6 +146,7 @@ export interface DiscordInteraction {
     name?: string;
     type?: number;
     custom_id?: string; // For button/modal interactions
+    target_id?: string; // For context-menu commands: the right-clicked message/user
     options?: Array<{
       name: string;
       type?: number;
@@ -181,6 +186,28 @@ export interface DiscordInteraction {
           height?: number;
         }
       >;
+      /** Target message of a message context-menu command, keyed by target_id */
+      messages?: Record<
+        string,
+        {
+          id: string;
+          channel_id: string;
+          attachments?: Array<{
+            id: string;
+            filename: string;
+            size: number;
+            url: string;
+            proxy_url: string;
+            content_type?: string;
+          }>;
+          embeds?: Array<{
+            type?: string;
+            url?: string;
+            image?: { url: string; proxy_url?: string };
+            thumbnail?: { url: string; proxy_url?: string };
+          }>;
+        }
+      >;
     };
   };
 }
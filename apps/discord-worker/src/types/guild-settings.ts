@@ -0,0 +1,91 @@
+/**
+ * Guild Settings Types
+ *
+ * Server-level defaults configured by server administrators with
+ * /server-settings. Stored in a single KV key per guild:
+ * `guild-prefs:v1:{guildId}`
+ *
+ * @module types/guild-settings
+ */
+
+import type { LocaleCode } from '../services/i18n.js';
+import type { MatchingMethod } from './preferences.js';
+
+/**
+ * All guild setting keys that can be set or reset
+ */
+export type GuildSettingKey = 'language' | 'world' | 'matching' | 'ephemeral' | 'disabledCommands';
+
+/**
+ * Guild settings object stored in KV
+ *
+ * All fields are optional. language, world and matching act as defaults
+ * between a member's own preference and the system default:
+ * Command parameter → User preference → Guild preference → System default
+ */
+export interface GuildSettings {
+  /** Default UI language for members without a language preference */
+  language?: LocaleCode;
+
+  /** Default FFXIV world or datacenter for market data */
+  world?: string;
+
+  /** Default color matching method */
+  matching?: MatchingMethod;
+
+  /** Send every command reply as ephemeral (visible only to the invoker) */
+  ephemeral?: boolean;
+
+  /** Command names members cannot use in this server */
+  disabledCommands?: string[];
+
+  /** ISO timestamp of last update */
+  updatedAt?: string;
+
+  /** Discord user ID of the administrator who last changed the settings */
+  updatedBy?: string;
+
+  /** Schema version for future migrations */
+  _version?: number;
+}
+
+/**
+ * Commands a server can disable.
+ *
+ * /server-settings itself is deliberately absent so administrators can
+ * never lock themselves out.
+ */
+export const GUILD_TOGGLEABLE_COMMANDS: string[] = [
+  'about',
+  'accessibility',
+  'alert',
+  'budget',
+  'collection',
+  'comparison',
+  'dye',
+  'dyequiz',
+  'extractor',
+  'favorites',
+  'glamour',
+  'glamourer-import',
+  'gradient',
+  'harmony',
+  'language',
+  'manual',
+  'match',
+  'match_image',
+  'mixer',
+  'preferences',
+  'preset',
+  'stats',
+  'swatch',
+  // Message context-menu command (MATCH_IMAGE_MESSAGE_COMMAND)
+  'Match dyes in this image',
+];
+
+/**
+ * Discord permission bits checked by /server-settings
+ * @see https://discord.com/developers/docs/topics/permissions#permissions-bitwise-permission-flags
+ */
+export const PERMISSION_ADMINISTRATOR = 1n << 3n;
+export const PERMISSION_MANAGE_GUILD = 1n << 5n;
@@ -6,6 +6,8 @@
  * @module types/image
  */
 
+// Format types are owned by the shared image package
+export type { ImageFormat, FormatValidationResult } from '@xivdyetools/image';
 
 // ============================================================================
 // Validation Types
@@ -23,23 +25,6 @@ export interface UrlValidationResult {
   error?: string;
 }
 
-/**
- * Result of image format validation
- */
-export interface FormatValidationResult {
-  /** Whether the format is valid */
-  valid: boolean;
-  /** Detected format (if valid) */
-  format?: ImageFormat;
-  /** Error message (if invalid) */
-  error?: string;
-}
-
-/**
- * Supported image formats
- */
-export type ImageFormat = 'png' | 'jpeg' | 'gif' | 'webp' | 'bmp';
-
 /**
  * Match quality based on color distance
  */
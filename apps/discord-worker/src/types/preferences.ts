@@ -48,7 +48,7 @@ export type PreferenceKey =
  * User preferences object stored in KV
  *
  * All fields are optional - if not set, system defaults are used.
- * Resolution order: Command parameter → User preference → System default
+ * Resolution order: Command parameter → User preference → Guild preference → System default
  */
 export interface UserPreferences {
   /** UI language preference */
@@ -259,6 +259,40 @@ describe('discord-api.ts', () => {
             expect(payload.embeds[0].image).toBeUndefined();
         });
 
+        it('should upload additional files after the main file', async () => {
+            const options: FollowUpOptions = {
+                embeds: [
+                    { title: 'Palette', image: { url: 'attachment://image.png' } },
+                    { title: 'Preview', image: { url: 'attachment://preview.png' } },
+                ],
+                file: {
+                    name: 'palette.png',
+                    data: new Uint8Array([1]),
+                    contentType: 'image/png',
+                },
+                files: [
+                    {
+                        name: 'preview.png',
+                        data: new Uint8Array([2]),
+                        contentType: 'image/png',
+                    },
+                ],
+            };
+
+            await editOriginalResponse(mockApplicationId, mockInteractionToken, options);
+
+            const formData = mockFetch.mock.calls[0][1].body as FormData;
+            const payload = JSON.parse(formData.get('payload_json') as string);
+
+            expect(payload.attachments).toEqual([
+                { id: 0, filename: 'palette.png' },
+                { id: 1, filename: 'preview.png' },
+            ]);
+            expect(payload.embeds[0].image.url).toBe('attachment://palette.png');
+            expect(payload.embeds[1].image.url).toBe('attachment://preview.png');
+            expect(formData.get('files[1]')).toBeInstanceOf(Blob);
+        });
+
         it('should handle embeds without file for edit (else branch)', async () => {
             // This test specifically targets the else branch at lines 249-250
             // where we have embeds but no file in the multipart path
@@ -328,6 +362,27 @@ describe('discord-api.ts', () => {
             expect(body.embeds).toHaveLength(1);
             expect(body.components).toHaveLength(1);
         });
+
+        it('should send attachments as multipart form data', async () => {
+            await sendMessage(mockBotToken, mockChannelId, {
+                embeds: [{ title: 'Card', image: { url: 'attachment://card.png' } }],
+                files: [
+                    { name: 'card.png', data: new Uint8Array([1]), contentType: 'image/png' },
+                    { name: 'wheel.png', data: new Uint8Array([2]), contentType: 'image/png' },
+                ],
+            });
+
+            const [, init] = mockFetch.mock.calls[0];
+            expect(init.headers).toEqual({ Authorization: `Bot ${mockBotToken}` });
+            const formData = init.body as FormData;
+            const payload = JSON.parse(formData.get('payload_json') as string);
+            expect(payload.attachments).toEqual([
+                { id: 0, filename: 'card.png' },
+                { id: 1, filename: 'wheel.png' },
+            ]);
+            expect(payload.embeds[0].image.url).toBe('attachment://card.png');
+            expect(formData.get('files[1]')).toBeInstanceOf(Blob);
+        });
     });
 
     describe('editMessage', () => {
@@ -32,6 +32,12 @@ export interface FollowUpOptions {
     data: Uint8Array;
     contentType: string;
   };
+  /** More attachments after `file`, referenced from embeds as `attachment://{name}` (edits only) */
+  files?: Array<{
+    name: string;
+    data: Uint8Array;
+    contentType: string;
+  }>;
   /** Make the message ephemeral (only visible to user) */
   ephemeral?: boolean;
 }
@@ -142,7 +148,7 @@ export async function editOriginalResponse(
   const url = `${DISCORD_API_BASE}/webhooks/${applicationId}/${interactionToken}/messages/@original`;
 
   // If there's a file, use multipart form data
-  if (options.file) {
+  if (options.file || options.files?.length) {
     return editResponseWithFile(url, options);
   }
 
@@ -170,6 +176,7 @@ async function editResponseWithFile(
   options: FollowUpOptions
 ): Promise<Response> {
   const formData = new FormData();
+  const files = [...(options.file ? [options.file] : []), ...(options.files ?? [])];
 
   // Build the payload_json part
   const payload: Record<string, unknown> = {};
@@ -177,13 +184,13 @@ async function editResponseWithFile(
   if (options.content) payload.content = options.content;
 
   // Handle embeds with image attachments
-  // Note: options.file is guaranteed truthy since this function is only called when file exists
+  // Note: files is non-empty since this function is only called when a file exists
   if (options.embeds) {
     payload.embeds = options.embeds.map((embed) => {
       if (embed.image?.url === 'attachment://image.png') {
         return {
           ...embed,
-          image: { url: `attachment://${options.file!.name}` },
+          image: { url: `attachment://${files[0].name}` },
         };
       }
       return embed;
@@ -193,22 +200,15 @@ async function editResponseWithFile(
   if (options.components) payload.components = options.components;
 
   // Add attachments metadata
-  if (options.file) {
-    payload.attachments = [
-      {
-        id: 0,
-        filename: options.file.name,
-      },
-    ];
-  }
+  payload.attachments = files.map((file, id) => ({ id, filename: file.name }));
 
   formData.append('payload_json', JSON.stringify(payload));
 
-  // Add the file
-  if (options.file) {
-    const blob = new Blob([options.file.data], { type: options.file.contentType });
-    formData.append('files[0]', blob, options.file.name);
-  }
+  // Add the files
+  files.forEach((file, id) => {
+    const blob = new Blob([file.data], { type: file.contentType });
+    formData.append(`files[${id}]`, blob, file.name);
+  });
 
   return fetch(url, {
     method: 'PATCH',
@@ -315,6 +315,12 @@ export interface SendMessageOptions {
   content?: string;
   embeds?: DiscordEmbed[];
   components?: DiscordActionRow[];
+  /** File attachments, referenced from embeds as `attachment://{name}` */
+  files?: Array<{
+    name: string;
+    data: Uint8Array;
+    contentType: string;
+  }>;
 }
 
 /**
@@ -337,6 +343,25 @@ export async function sendMessage(
   if (options.embeds) body.embeds = options.embeds;
   if (options.components) body.components = options.components;
 
+  // With attachments, send multipart form data
+  if (options.files && options.files.length > 0) {
+    const formData = new FormData();
+    body.attachments = options.files.map((file, id) => ({ id, filename: file.name }));
+    formData.append('payload_json', JSON.stringify(body));
+    options.files.forEach((file, id) => {
+      formData.append(`files[${id}]`, new Blob([file.data], { type: file.contentType }), file.name);
+    });
+
+    return fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bot ${botToken}`,
+      },
+      body: formData,
+      signal: AbortSignal.timeout(DISCORD_WEBHOOK_FILE_TIMEOUT),
+    });
+  }
+
   // DISCORD-HIGH-002: Add 5 second timeout to prevent worker hang
   return fetch(url, {
     method: 'POST',
@@ -383,3 +408,27 @@ export async function editMessage(
   });
 }
 
+
+/**
+ * Opens (or returns the existing) DM channel with a user.
+ * Requires bot token authentication. The channel ID is in the JSON body's `id`.
+ *
+ * @param botToken - Discord bot token
+ * @param userId - Recipient's Discord user ID
+ */
+export async function createDmChannel(
+  botToken: string,
+  userId: string
+): Promise<Response> {
+  const url = `${DISCORD_API_BASE}/users/@me/channels`;
+
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bot ${botToken}`,
+    },
+    body: JSON.stringify({ recipient_id: userId }),
+    signal: AbortSignal.timeout(5000),
+  });
+}
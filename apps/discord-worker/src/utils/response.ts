@@ -121,6 +121,32 @@ export function deferredResponse(ephemeral = false): Response {
   });
 }
 
+/**
+ * Makes a command's initial response ephemeral (for servers that enable
+ * private replies in /server-settings).
+ *
+ * Applies to immediate and deferred message responses; edits to a deferred
+ * response inherit its visibility. Any other response is returned unchanged.
+ */
+export async function withEphemeralFlag(response: Response): Promise<Response> {
+  if (!response.headers.get('content-type')?.includes('application/json')) {
+    return response;
+  }
+
+  const body = await response.clone().json<{ type: InteractionResponseType; data?: InteractionResponseData }>();
+  if (
+    body.type !== InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE &&
+    body.type !== InteractionResponseType.DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE
+  ) {
+    return response;
+  }
+
+  return Response.json(
+    { ...body, data: { ...body.data, flags: (body.data?.flags ?? 0) | MessageFlags.EPHEMERAL } },
+    { status: response.status }
+  );
+}
+
 /**
  * Creates an error embed with consistent styling.
  */
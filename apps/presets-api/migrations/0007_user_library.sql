@@ -0,0 +1,29 @@
+-- Migration 0007: Synced favorites and collections
+--
+-- One store for a user's favorites and collections, shared by the web app and
+-- the Discord bot through /api/v1/library. Rows are keyed by Discord user ID.
+-- Each row carries its own updated_at (newer write wins per item); deletions
+-- are kept as tombstones (deleted = 1) so a surface that was offline can't
+-- resurrect them.
+
+CREATE TABLE IF NOT EXISTS user_favorites (
+  user_discord_id TEXT NOT NULL,
+  dye_id INTEGER NOT NULL,
+  updated_at TEXT NOT NULL,
+  deleted INTEGER NOT NULL DEFAULT 0,
+
+  PRIMARY KEY (user_discord_id, dye_id)
+);
+
+CREATE TABLE IF NOT EXISTS user_collections (
+  user_discord_id TEXT NOT NULL,
+  id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  dyes TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  deleted INTEGER NOT NULL DEFAULT 0,
+
+  PRIMARY KEY (user_discord_id, id)
+);
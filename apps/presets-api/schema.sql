@@ -171,3 +171,30 @@ CREATE TABLE IF NOT EXISTS failed_notifications (
 CREATE INDEX IF NOT EXISTS idx_failed_notifications_unresolved
   ON failed_notifications(resolved_at)
   WHERE resolved_at IS NULL;
+
+-- ============================================
+-- USER LIBRARY TABLES (Migration 0007)
+-- Favorites and collections synced between the web app and the Discord bot.
+-- Newer updated_at wins per item; deleted = 1 rows are tombstones.
+-- ============================================
+CREATE TABLE IF NOT EXISTS user_favorites (
+  user_discord_id TEXT NOT NULL,              -- Discord user ID
+  dye_id INTEGER NOT NULL,                    -- Dye item ID
+  updated_at TEXT NOT NULL,                   -- Last favorited / unfavorited
+  deleted INTEGER NOT NULL DEFAULT 0,         -- 1 = unfavorited (tombstone)
+
+  PRIMARY KEY (user_discord_id, dye_id)
+);
+
+CREATE TABLE IF NOT EXISTS user_collections (
+  user_discord_id TEXT NOT NULL,              -- Discord user ID
+  id TEXT NOT NULL,                           -- Chosen by the creating surface
+  name TEXT NOT NULL,                         -- 1-50 characters
+  description TEXT,                           -- Up to 200 characters
+  dyes TEXT NOT NULL,                         -- JSON array of dye item IDs
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,                   -- Last change or deletion
+  deleted INTEGER NOT NULL DEFAULT 0,         -- 1 = deleted (tombstone)
+
+  PRIMARY KEY (user_discord_id, id)
+);
@@ -0,0 +1,105 @@
+/**
+ * Library Handler
+ * Routes for syncing a user's favorites and collections between the web app
+ * and the Discord bot
+ */
+
+import { Hono, type Context } from 'hono';
+import { isValidSnowflake, type LibrarySyncResponse } from '@xivdyetools/types';
+import type { Env, AuthContext } from '../types.js';
+import { requireAuth } from '../middleware/auth.js';
+import { applyLibraryChanges, getLibrary, validateLibraryChanges } from '../services/library-service.js';
+import {
+  ErrorCode,
+  errorResponse,
+  internalErrorResponse,
+  invalidJsonResponse,
+  validationErrorResponse,
+} from '../utils/api-response.js';
+
+type Variables = {
+  auth: AuthContext;
+};
+
+export const libraryRouter = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+/**
+ * The library is keyed by Discord user ID, so web accounts need a linked
+ * Discord account (bot requests always carry one)
+ */
+function requireDiscordId(c: Context<{ Bindings: Env; Variables: Variables }>): string | Response {
+  const { discordId } = c.get('auth');
+
+  if (!discordId || !isValidSnowflake(discordId)) {
+    return errorResponse(
+      c,
+      ErrorCode.FORBIDDEN,
+      'A linked Discord account is required to sync favorites and collections',
+      403
+    );
+  }
+
+  return discordId;
+}
+
+// ============================================
+// ROUTES
+// ============================================
+
+/**
+ * GET /api/v1/library
+ * Get the user's favorites and collections, tombstones included
+ */
+libraryRouter.get('/', async (c) => {
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  const discordId = requireDiscordId(c);
+  if (discordId instanceof Response) return discordId;
+
+  try {
+    const library = await getLibrary(c.env.DB, discordId);
+    return c.json<LibrarySyncResponse>({ success: true, library });
+  } catch (error) {
+    console.error('Failed to read library:', error);
+    return internalErrorResponse(c, 'Failed to read library');
+  }
+});
+
+/**
+ * PUT /api/v1/library
+ * Merge changes from one surface and return the merged library
+ */
+libraryRouter.put('/', async (c) => {
+  const authError = requireAuth(c);
+  if (authError) return authError;
+
+  const discordId = requireDiscordId(c);
+  if (discordId instanceof Response) return discordId;
+
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return invalidJsonResponse(c);
+  }
+
+  const validation = validateLibraryChanges(body);
+  if ('error' in validation) {
+    return validationErrorResponse(c, validation.error);
+  }
+
+  try {
+    const { library, rejected } = await applyLibraryChanges(c.env.DB, discordId, validation.changes);
+    const hasRejections = rejected.favorites.length > 0 || rejected.collections.length > 0;
+
+    return c.json<LibrarySyncResponse>({
+      success: true,
+      library,
+      ...(hasRejections && { rejected }),
+    });
+  } catch (error) {
+    console.error('Failed to apply library changes:', error);
+    return internalErrorResponse(c, 'Failed to save library');
+  }
+});
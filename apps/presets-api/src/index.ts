@@ -12,6 +12,7 @@ import { presetsRouter } from './handlers/presets.js';
 import { votesRouter } from './handlers/votes.js';
 import { categoriesRouter } from './handlers/categories.js';
 import { moderationRouter } from './handlers/moderation.js';
+import { libraryRouter } from './handlers/library.js';
 
 // Import middleware
 import { authMiddleware } from './middleware/auth.js';
@@ -122,7 +123,7 @@ app.use(
 
       return null;
     },
-    allowMethods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
     allowHeaders: ['Content-Type', 'Authorization', 'X-User-Discord-ID', 'X-User-Discord-Name'],
     exposeHeaders: ['X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-RateLimit-Reset', 'Retry-After'],
     // ARCH-002: 1-hour maxAge (was 24h) so CORS policy changes propagate within an hour
@@ -203,6 +204,7 @@ app.route('/api/v1/presets', presetsRouter);
 app.route('/api/v1/votes', votesRouter);
 app.route('/api/v1/categories', categoriesRouter);
 app.route('/api/v1/moderation', moderationRouter);
+app.route('/api/v1/library', libraryRouter);
 
 // ============================================
 // ERROR HANDLING
@@ -27,6 +27,7 @@ interface ExtendedJWTPayload {
   exp: number;
   iss?: string;
   type?: 'access' | 'refresh';
+  discord_id?: string;
   username?: string;
   global_name?: string | null;
   avatar?: string | null;
@@ -130,6 +131,7 @@ export async function authMiddleware(
             isAuthenticated: true,
             isModerator: checkModerator(userDiscordId, c.env.MODERATOR_IDS),
             userDiscordId: userDiscordId || undefined,
+            discordId: userDiscordId || undefined,
             userName: userName || undefined,
             authSource: 'bot',
           };
@@ -165,6 +167,7 @@ export async function authMiddleware(
             isAuthenticated: true,
             isModerator: checkModerator(userDiscordId, c.env.MODERATOR_IDS),
             userDiscordId: userDiscordId || undefined,
+            discordId: userDiscordId || undefined,
             userName: userName || undefined,
             authSource: 'bot',
           };
@@ -183,6 +186,7 @@ export async function authMiddleware(
           isAuthenticated: true,
           isModerator: checkModerator(jwtPayload.sub, c.env.MODERATOR_IDS),
           userDiscordId: jwtPayload.sub,
+          discordId: jwtPayload.discord_id,
           userName: displayName,
           authSource: 'web',
         };
@@ -0,0 +1,331 @@
+/**
+ * Library Service
+ * Favorites and collections synced between the web app and the Discord bot
+ *
+ * Each item carries its own updatedAt and the newer write wins per item
+ * (ties keep the stored copy, so replays are harmless). Deletions are stored
+ * as tombstones so a surface that was offline can't bring an item back.
+ */
+
+import type { LibraryChanges, LibrarySnapshot, SyncedCollection, SyncedFavorite } from '@xivdyetools/types';
+import type { UserCollectionRow, UserFavoriteRow } from '../types.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Library limits - the larger of the web app's and the bot's own limits, so
+ * neither surface loses items it was allowed to keep
+ */
+export const LIBRARY_LIMITS = {
+  favorites: 40,
+  collections: 50,
+  dyesPerCollection: 20,
+  nameMaxLength: 50,
+  descriptionMaxLength: 200,
+  /** Favorites + collections (tombstones included) in one request */
+  changesPerRequest: 250,
+} as const;
+
+/** Collection IDs: web app `col_…` IDs and bot UUIDs both fit */
+const COLLECTION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Result of applying a batch of changes
+ */
+export interface ApplyLibraryResult {
+  library: LibrarySnapshot;
+  /** Live items refused because the user was at a limit */
+  rejected: {
+    favorites: number[];
+    collections: string[];
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Clamp a client timestamp to the server clock so a skewed device can't win
+ * every future conflict. Returns null for unparseable values.
+ */
+function normalizeTimestamp(value: unknown, now: number): string | null {
+  if (typeof value !== 'string') return null;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return null;
+  return new Date(Math.min(time, now)).toISOString();
+}
+
+function isDyeId(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function validateFavorite(value: unknown, now: number): SyncedFavorite | string {
+  if (!value || typeof value !== 'object') return 'Each favorite must be an object';
+  const item = value as Record<string, unknown>;
+
+  if (!isDyeId(item.dyeId)) return 'Favorite dyeId must be a positive integer';
+
+  const updatedAt = normalizeTimestamp(item.updatedAt, now);
+  if (!updatedAt) return 'Favorite updatedAt must be an ISO 8601 timestamp';
+
+  return { dyeId: item.dyeId, updatedAt, ...(item.deleted === true && { deleted: true }) };
+}
+
+function validateCollection(value: unknown, now: number): SyncedCollection | string {
+  if (!value || typeof value !== 'object') return 'Each collection must be an object';
+  const item = value as Record<string, unknown>;
+
+  if (typeof item.id !== 'string' || !COLLECTION_ID_PATTERN.test(item.id)) {
+    return 'Collection id must be 1-64 letters, digits, "-" or "_"';
+  }
+
+  const updatedAt = normalizeTimestamp(item.updatedAt, now);
+  if (!updatedAt) return 'Collection updatedAt must be an ISO 8601 timestamp';
+  const createdAt = normalizeTimestamp(item.createdAt, now) ?? updatedAt;
+
+  // Tombstones only need to identify the collection
+  if (item.deleted === true) {
+    return { id: item.id, name: '', dyes: [], createdAt, updatedAt, deleted: true };
+  }
+
+  const name = typeof item.name === 'string' ? item.name.trim() : '';
+  if (!name || name.length > LIBRARY_LIMITS.nameMaxLength) {
+    return `Collection name must be 1-${LIBRARY_LIMITS.nameMaxLength} characters`;
+  }
+
+  let description: string | undefined;
+  if (item.description !== undefined && item.description !== null) {
+    if (typeof item.description !== 'string') return 'Collection description must be a string';
+    description = item.description.trim() || undefined;
+    if (description && description.length > LIBRARY_LIMITS.descriptionMaxLength) {
+      return `Collection description must be ${LIBRARY_LIMITS.descriptionMaxLength} characters or less`;
+    }
+  }
+
+  if (!Array.isArray(item.dyes) || !item.dyes.every(isDyeId)) {
+    return 'Collection dyes must be an array of positive integers';
+  }
+  const dyes = [...new Set(item.dyes)];
+  if (dyes.length > LIBRARY_LIMITS.dyesPerCollection) {
+    return `Collections can hold at most ${LIBRARY_LIMITS.dyesPerCollection} dyes`;
+  }
+
+  return { id: item.id, name, ...(description && { description }), dyes, createdAt, updatedAt };
+}
+
+/**
+ * Validate a PUT /api/v1/library body
+ *
+ * @returns The normalized changes, or an error message
+ */
+export function validateLibraryChanges(
+  body: unknown,
+  now: number = Date.now()
+): { changes: Required<LibraryChanges> } | { error: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Body must be an object with favorites and/or collections' };
+  }
+  const { favorites = [], collections = [] } = body as Record<string, unknown>;
+
+  if (!Array.isArray(favorites) || !Array.isArray(collections)) {
+    return { error: 'favorites and collections must be arrays' };
+  }
+  if (favorites.length + collections.length > LIBRARY_LIMITS.changesPerRequest) {
+    return { error: `At most ${LIBRARY_LIMITS.changesPerRequest} changes per request` };
+  }
+
+  const changes: Required<LibraryChanges> = { favorites: [], collections: [] };
+
+  for (const value of favorites) {
+    const favorite = validateFavorite(value, now);
+    if (typeof favorite === 'string') return { error: favorite };
+    changes.favorites.push(favorite);
+  }
+
+  for (const value of collections) {
+    const collection = validateCollection(value, now);
+    if (typeof collection === 'string') return { error: collection };
+    changes.collections.push(collection);
+  }
+
+  return { changes };
+}
+
+// ============================================================================
+// Row Conversion
+// ============================================================================
+
+function rowToFavorite(row: UserFavoriteRow): SyncedFavorite {
+  return {
+    dyeId: row.dye_id,
+    updatedAt: row.updated_at,
+    ...(row.deleted === 1 && { deleted: true }),
+  };
+}
+
+/**
+ * Convert a collection row. A corrupt dyes column reads as an empty
+ * collection rather than failing the whole library.
+ */
+function rowToCollection(row: UserCollectionRow): SyncedCollection {
+  let dyes: number[] = [];
+  try {
+    const parsed: unknown = JSON.parse(row.dyes);
+    if (Array.isArray(parsed)) dyes = parsed.filter(isDyeId);
+  } catch {
+    console.error(`User collection ${row.id}: invalid JSON in 'dyes' column`);
+  }
+
+  return {
+    id: row.id,
+    name: row.name,
+    ...(row.description && { description: row.description }),
+    dyes,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    ...(row.deleted === 1 && { deleted: true }),
+  };
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Get a user's library, tombstones included
+ */
+export async function getLibrary(db: D1Database, userDiscordId: string): Promise<LibrarySnapshot> {
+  const [favorites, collections] = await Promise.all([
+    db
+      .prepare(
+        'SELECT * FROM user_favorites WHERE user_discord_id = ? ORDER BY updated_at ASC, dye_id ASC'
+      )
+      .bind(userDiscordId)
+      .all<UserFavoriteRow>(),
+    db
+      .prepare('SELECT * FROM user_collections WHERE user_discord_id = ? ORDER BY created_at ASC, id ASC')
+      .bind(userDiscordId)
+      .all<UserCollectionRow>(),
+  ]);
+
+  return {
+    favorites: (favorites.results || []).map(rowToFavorite),
+    collections: (collections.results || []).map(rowToCollection),
+    serverTime: new Date().toISOString(),
+  };
+}
+
+/**
+ * Apply changes from one surface and return the merged library
+ *
+ * A change is written only if it is newer than the stored item; the upserts
+ * repeat that check in SQL so a concurrent request from the other surface
+ * can't be overwritten by an older change. Items that would take the user
+ * past a limit are skipped and reported in `rejected`.
+ */
+export async function applyLibraryChanges(
+  db: D1Database,
+  userDiscordId: string,
+  changes: Required<LibraryChanges>
+): Promise<ApplyLibraryResult> {
+  const current = await getLibrary(db, userDiscordId);
+  const rejected: ApplyLibraryResult['rejected'] = { favorites: [], collections: [] };
+  const statements: D1PreparedStatement[] = [];
+
+  // Favorites - tombstones first so they free room for additions
+  const storedFavorites = new Map(current.favorites.map((f) => [f.dyeId, f]));
+  let liveFavorites = current.favorites.filter((f) => !f.deleted).length;
+  const favoriteChanges = [...changes.favorites].sort((a, b) => Number(!a.deleted) - Number(!b.deleted));
+
+  for (const change of favoriteChanges) {
+    const stored = storedFavorites.get(change.dyeId);
+    if (stored && stored.updatedAt >= change.updatedAt) continue;
+
+    const wasLive = !!stored && !stored.deleted;
+    if (!change.deleted && !wasLive) {
+      if (liveFavorites >= LIBRARY_LIMITS.favorites) {
+        rejected.favorites.push(change.dyeId);
+        continue;
+      }
+      liveFavorites++;
+    } else if (change.deleted && wasLive) {
+      liveFavorites--;
+    }
+
+    storedFavorites.set(change.dyeId, change);
+    statements.push(
+      db
+        .prepare(
+          `INSERT INTO user_favorites (user_discord_id, dye_id, updated_at, deleted)
+           VALUES (?, ?, ?, ?)
+           ON CONFLICT (user_discord_id, dye_id) DO UPDATE
+           SET updated_at = excluded.updated_at, deleted = excluded.deleted
+           WHERE excluded.updated_at > user_favorites.updated_at`
+        )
+        .bind(userDiscordId, change.dyeId, change.updatedAt, change.deleted ? 1 : 0)
+    );
+  }
+
+  // Collections - same rules
+  const storedCollections = new Map(current.collections.map((c) => [c.id, c]));
+  let liveCollections = current.collections.filter((c) => !c.deleted).length;
+  const collectionChanges = [...changes.collections].sort(
+    (a, b) => Number(!a.deleted) - Number(!b.deleted)
+  );
+
+  for (const change of collectionChanges) {
+    const stored = storedCollections.get(change.id);
+    if (stored && stored.updatedAt >= change.updatedAt) continue;
+
+    const wasLive = !!stored && !stored.deleted;
+    if (!change.deleted && !wasLive) {
+      if (liveCollections >= LIBRARY_LIMITS.collections) {
+        rejected.collections.push(change.id);
+        continue;
+      }
+      liveCollections++;
+    } else if (change.deleted && wasLive) {
+      liveCollections--;
+    }
+
+    // A tombstone keeps the last known name so the row stays readable
+    const name = change.deleted ? (stored?.name ?? '') : change.name;
+    storedCollections.set(change.id, change);
+    statements.push(
+      db
+        .prepare(
+          `INSERT INTO user_collections
+             (user_discord_id, id, name, description, dyes, created_at, updated_at, deleted)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT (user_discord_id, id) DO UPDATE
+           SET name = excluded.name, description = excluded.description, dyes = excluded.dyes,
+               updated_at = excluded.updated_at, deleted = excluded.deleted
+           WHERE excluded.updated_at > user_collections.updated_at`
+        )
+        .bind(
+          userDiscordId,
+          change.id,
+          name,
+          change.description ?? null,
+          JSON.stringify(change.dyes),
+          stored?.createdAt ?? change.createdAt,
+          change.updatedAt,
+          change.deleted ? 1 : 0
+        )
+    );
+  }
+
+  if (statements.length === 0) {
+    return { library: current, rejected };
+  }
+
+  await db.batch(statements);
+  return { library: await getLibrary(db, userDiscordId), rejected };
+}
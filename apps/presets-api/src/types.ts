@@ -112,3 +112,21 @@ export interface VoteRow {
   user_discord_id: string;
   created_at: string;
 }
+
+export interface UserFavoriteRow {
+  user_discord_id: string;
+  dye_id: number;
+  updated_at: string;
+  deleted: number; // SQLite boolean (0 or 1)
+}
+
+export interface UserCollectionRow {
+  user_discord_id: string;
+  id: string;
+  name: string;
+  description: string | null;
+  dyes: string; // JSON string
+  created_at: string;
+  updated_at: string;
+  deleted: number; // SQLite boolean (0 or 1)
+}
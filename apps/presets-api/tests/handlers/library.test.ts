@@ -0,0 +1,160 @@
+/**
+ * Library Handler Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Hono } from 'hono';
+import { libraryRouter } from '../../src/handlers/library';
+import { authMiddleware } from '../../src/middleware/auth';
+import type { Env, AuthContext } from '../../src/types';
+import {
+    createMockEnv,
+    createMockD1Database,
+    createTestJWT,
+    authHeaders,
+} from '../test-utils';
+
+type Variables = {
+    auth: AuthContext;
+};
+
+const DISCORD_ID = '123456789012345678';
+
+describe('LibraryHandler', () => {
+    let app: Hono<{ Bindings: Env; Variables: Variables }>;
+    let env: Env;
+    let mockDb: ReturnType<typeof createMockD1Database>;
+
+    beforeEach(() => {
+        mockDb = createMockD1Database();
+        mockDb._setupMock((query) => {
+            if (query.includes('SELECT * FROM user_favorites')) {
+                return [{ user_discord_id: DISCORD_ID, dye_id: 5729, updated_at: '2026-09-01T00:00:00.000Z', deleted: 0 }];
+            }
+            if (query.includes('SELECT * FROM')) return [];
+            return null;
+        });
+        env = createMockEnv({ DB: mockDb as unknown as D1Database });
+
+        app = new Hono<{ Bindings: Env; Variables: Variables }>();
+        app.use('*', authMiddleware);
+        app.route('/api/v1/library', libraryRouter);
+
+        vi.clearAllMocks();
+    });
+
+    function webToken(discordId?: string): Promise<string> {
+        const payload = { sub: 'internal-uuid', username: 'webuser', ...(discordId && { discord_id: discordId }) };
+        return createTestJWT(env.JWT_SECRET!, payload);
+    }
+
+    describe('GET /api/v1/library', () => {
+        it('should require authentication', async () => {
+            const res = await app.request('/api/v1/library', {}, env);
+
+            expect(res.status).toBe(401);
+        });
+
+        it('should return the library for a bot request', async () => {
+            const res = await app.request(
+                '/api/v1/library',
+                { headers: authHeaders('test-bot-secret', DISCORD_ID) },
+                env
+            );
+            const body = (await res.json()) as { success: boolean; library: { favorites: unknown[] } };
+
+            expect(res.status).toBe(200);
+            expect(body.success).toBe(true);
+            expect(body.library.favorites).toEqual([{ dyeId: 5729, updatedAt: '2026-09-01T00:00:00.000Z' }]);
+        });
+
+        it('should key web requests by the linked Discord ID, not the account ID', async () => {
+            const token = await webToken(DISCORD_ID);
+
+            const res = await app.request('/api/v1/library', { headers: authHeaders(token) }, env);
+
+            expect(res.status).toBe(200);
+            expect(mockDb._bindings[0]).toEqual([DISCORD_ID]);
+        });
+
+        it('should refuse web accounts without a linked Discord account', async () => {
+            const token = await webToken();
+
+            const res = await app.request('/api/v1/library', { headers: authHeaders(token) }, env);
+            const body = (await res.json()) as { error: string };
+
+            expect(res.status).toBe(403);
+            expect(body.error).toBe('FORBIDDEN');
+        });
+    });
+
+    describe('PUT /api/v1/library', () => {
+        it('should apply changes and return the merged library', async () => {
+            const res = await app.request(
+                '/api/v1/library',
+                {
+                    method: 'PUT',
+                    headers: { ...authHeaders('test-bot-secret', DISCORD_ID), 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ favorites: [{ dyeId: 5730, updatedAt: '2026-09-02T00:00:00.000Z' }] }),
+                },
+                env
+            );
+            const body = (await res.json()) as { success: boolean; rejected?: unknown };
+
+            expect(res.status).toBe(200);
+            expect(body.success).toBe(true);
+            expect(body.rejected).toBeUndefined();
+            expect(mockDb._queries.some((q) => q.includes('INSERT INTO user_favorites'))).toBe(true);
+        });
+
+        it('should reject invalid JSON', async () => {
+            const res = await app.request(
+                '/api/v1/library',
+                {
+                    method: 'PUT',
+                    headers: { ...authHeaders('test-bot-secret', DISCORD_ID), 'Content-Type': 'application/json' },
+                    body: '{not json',
+                },
+                env
+            );
+
+            expect(res.status).toBe(400);
+        });
+
+        it('should reject invalid changes', async () => {
+            const res = await app.request(
+                '/api/v1/library',
+                {
+                    method: 'PUT',
+                    headers: { ...authHeaders('test-bot-secret', DISCORD_ID), 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ favorites: [{ dyeId: 'red' }] }),
+                },
+                env
+            );
+            const body = (await res.json()) as { error: string };
+
+            expect(res.status).toBe(400);
+            expect(body.error).toBe('VALIDATION_ERROR');
+        });
+
+        it('should return 500 when the database fails', async () => {
+            const spy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            mockDb._setupMock(() => {
+                throw new Error('D1 down');
+            });
+
+            const res = await app.request(
+                '/api/v1/library',
+                {
+                    method: 'PUT',
+                    headers: { ...authHeaders('test-bot-secret', DISCORD_ID), 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ favorites: [] }),
+                },
+                env
+            );
+
+            expect(res.status).toBe(500);
+            spy.mockRestore();
+        });
+    });
+});
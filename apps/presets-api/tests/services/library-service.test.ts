@@ -0,0 +1,258 @@
+/**
+ * Library Service Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    applyLibraryChanges,
+    getLibrary,
+    validateLibraryChanges,
+    LIBRARY_LIMITS,
+} from '../../src/services/library-service';
+import type { UserCollectionRow, UserFavoriteRow } from '../../src/types';
+import { createMockD1Database } from '../test-utils';
+
+const USER_ID = '123456789012345678';
+const NOW = Date.parse('2026-10-01T12:00:00.000Z');
+
+function favoriteRow(dyeId: number, updatedAt: string, deleted = 0): UserFavoriteRow {
+    return { user_discord_id: USER_ID, dye_id: dyeId, updated_at: updatedAt, deleted };
+}
+
+function collectionRow(id: string, updatedAt: string, overrides: Partial<UserCollectionRow> = {}): UserCollectionRow {
+    return {
+        user_discord_id: USER_ID,
+        id,
+        name: `Collection ${id}`,
+        description: null,
+        dyes: '[5729]',
+        created_at: '2026-09-01T00:00:00.000Z',
+        updated_at: updatedAt,
+        deleted: 0,
+        ...overrides,
+    };
+}
+
+describe('LibraryService', () => {
+    let db: ReturnType<typeof createMockD1Database>;
+    let favorites: UserFavoriteRow[];
+    let collections: UserCollectionRow[];
+
+    beforeEach(() => {
+        db = createMockD1Database();
+        favorites = [];
+        collections = [];
+        db._setupMock((query) => {
+            if (query.includes('SELECT * FROM user_favorites')) return favorites;
+            if (query.includes('SELECT * FROM user_collections')) return collections;
+            return null;
+        });
+        vi.clearAllMocks();
+    });
+
+    const writes = (table: string) => db._queries.filter((q) => q.includes(`INSERT INTO ${table}`));
+
+    // ============================================
+    // validateLibraryChanges
+    // ============================================
+
+    describe('validateLibraryChanges', () => {
+        it('should normalize timestamps and drop duplicate dyes', () => {
+            const result = validateLibraryChanges(
+                {
+                    favorites: [{ dyeId: 5729, updatedAt: '2026-09-30T10:00:00Z' }],
+                    collections: [
+                        {
+                            id: 'col_1_abc',
+                            name: '  Reds  ',
+                            description: '',
+                            dyes: [1, 2, 1],
+                            createdAt: '2026-09-30T10:00:00Z',
+                            updatedAt: '2026-09-30T11:00:00Z',
+                        },
+                    ],
+                },
+                NOW
+            );
+
+            expect(result).toEqual({
+                changes: {
+                    favorites: [{ dyeId: 5729, updatedAt: '2026-09-30T10:00:00.000Z' }],
+                    collections: [
+                        {
+                            id: 'col_1_abc',
+                            name: 'Reds',
+                            dyes: [1, 2],
+                            createdAt: '2026-09-30T10:00:00.000Z',
+                            updatedAt: '2026-09-30T11:00:00.000Z',
+                        },
+                    ],
+                },
+            });
+        });
+
+        it('should clamp timestamps from the future to the server clock', () => {
+            const result = validateLibraryChanges(
+                { favorites: [{ dyeId: 1, updatedAt: '2030-01-01T00:00:00Z' }] },
+                NOW
+            );
+
+            expect('changes' in result && result.changes.favorites[0].updatedAt).toBe(new Date(NOW).toISOString());
+        });
+
+        it('should accept collection tombstones without a name', () => {
+            const result = validateLibraryChanges(
+                { collections: [{ id: 'abc', deleted: true, updatedAt: '2026-09-30T10:00:00Z' }] },
+                NOW
+            );
+
+            expect('changes' in result && result.changes.collections[0]).toMatchObject({ id: 'abc', deleted: true });
+        });
+
+        it('should reject malformed input', () => {
+            expect(validateLibraryChanges(null, NOW)).toHaveProperty('error');
+            expect(validateLibraryChanges({ favorites: 'nope' }, NOW)).toHaveProperty('error');
+            expect(validateLibraryChanges({ favorites: [{ dyeId: -1, updatedAt: '2026-09-30T10:00:00Z' }] }, NOW)).toHaveProperty('error');
+            expect(validateLibraryChanges({ favorites: [{ dyeId: 1, updatedAt: 'yesterday' }] }, NOW)).toHaveProperty('error');
+            expect(
+                validateLibraryChanges(
+                    { collections: [{ id: 'bad id!', name: 'x', dyes: [], updatedAt: '2026-09-30T10:00:00Z' }] },
+                    NOW
+                )
+            ).toHaveProperty('error');
+            expect(
+                validateLibraryChanges(
+                    { collections: [{ id: 'a', name: 'x'.repeat(LIBRARY_LIMITS.nameMaxLength + 1), dyes: [], updatedAt: '2026-09-30T10:00:00Z' }] },
+                    NOW
+                )
+            ).toHaveProperty('error');
+        });
+
+        it('should cap the number of changes per request', () => {
+            const favorites = Array.from({ length: LIBRARY_LIMITS.changesPerRequest + 1 }, (_, i) => ({
+                dyeId: i + 1,
+                updatedAt: '2026-09-30T10:00:00Z',
+            }));
+
+            expect(validateLibraryChanges({ favorites }, NOW)).toHaveProperty('error');
+        });
+    });
+
+    // ============================================
+    // getLibrary
+    // ============================================
+
+    describe('getLibrary', () => {
+        it('should map rows, keeping tombstones', async () => {
+            favorites = [favoriteRow(1, '2026-09-01T00:00:00.000Z'), favoriteRow(2, '2026-09-02T00:00:00.000Z', 1)];
+            collections = [collectionRow('a', '2026-09-01T00:00:00.000Z', { description: 'Warm' })];
+
+            const library = await getLibrary(db as unknown as D1Database, USER_ID);
+
+            expect(library.favorites).toEqual([
+                { dyeId: 1, updatedAt: '2026-09-01T00:00:00.000Z' },
+                { dyeId: 2, updatedAt: '2026-09-02T00:00:00.000Z', deleted: true },
+            ]);
+            expect(library.collections[0]).toMatchObject({ id: 'a', description: 'Warm', dyes: [5729] });
+            expect(db._bindings[0]).toEqual([USER_ID]);
+        });
+
+        it('should read a corrupt dyes column as an empty collection', async () => {
+            const spy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            collections = [collectionRow('a', '2026-09-01T00:00:00.000Z', { dyes: '{not json' })];
+
+            const library = await getLibrary(db as unknown as D1Database, USER_ID);
+
+            expect(library.collections[0].dyes).toEqual([]);
+            spy.mockRestore();
+        });
+    });
+
+    // ============================================
+    // applyLibraryChanges
+    // ============================================
+
+    describe('applyLibraryChanges', () => {
+        it('should write changes newer than the stored items', async () => {
+            favorites = [favoriteRow(1, '2026-09-01T00:00:00.000Z')];
+
+            await applyLibraryChanges(db as unknown as D1Database, USER_ID, {
+                favorites: [{ dyeId: 1, updatedAt: '2026-09-05T00:00:00.000Z', deleted: true }],
+                collections: [],
+            });
+
+            expect(writes('user_favorites')).toHaveLength(1);
+            expect(db._bindings[db._queries.indexOf(writes('user_favorites')[0])]).toEqual([
+                USER_ID,
+                1,
+                '2026-09-05T00:00:00.000Z',
+                1,
+            ]);
+        });
+
+        it('should ignore changes that are not newer', async () => {
+            collections = [collectionRow('a', '2026-09-05T00:00:00.000Z')];
+
+            const result = await applyLibraryChanges(db as unknown as D1Database, USER_ID, {
+                favorites: [],
+                collections: [
+                    { id: 'a', name: 'Old', dyes: [], createdAt: '2026-09-01T00:00:00.000Z', updatedAt: '2026-09-05T00:00:00.000Z' },
+                ],
+            });
+
+            expect(writes('user_collections')).toHaveLength(0);
+            expect(result.library.collections[0].name).toBe('Collection a');
+        });
+
+        it('should keep the stored creation time and last name for tombstones', async () => {
+            collections = [collectionRow('a', '2026-09-05T00:00:00.000Z')];
+
+            await applyLibraryChanges(db as unknown as D1Database, USER_ID, {
+                favorites: [],
+                collections: [
+                    { id: 'a', name: '', dyes: [], createdAt: '2026-09-09T00:00:00.000Z', updatedAt: '2026-09-09T00:00:00.000Z', deleted: true },
+                ],
+            });
+
+            const bindings = db._bindings[db._queries.indexOf(writes('user_collections')[0])];
+            expect(bindings).toEqual([
+                USER_ID,
+                'a',
+                'Collection a',
+                null,
+                '[]',
+                '2026-09-01T00:00:00.000Z',
+                '2026-09-09T00:00:00.000Z',
+                1,
+            ]);
+        });
+
+        it('should reject additions past the favorites limit, after applying removals', async () => {
+            favorites = Array.from({ length: LIBRARY_LIMITS.favorites }, (_, i) =>
+                favoriteRow(i + 1, '2026-09-01T00:00:00.000Z')
+            );
+
+            const result = await applyLibraryChanges(db as unknown as D1Database, USER_ID, {
+                favorites: [
+                    { dyeId: 900, updatedAt: '2026-09-05T00:00:00.000Z' },
+                    { dyeId: 901, updatedAt: '2026-09-05T00:00:00.000Z' },
+                    { dyeId: 1, updatedAt: '2026-09-05T00:00:00.000Z', deleted: true },
+                ],
+                collections: [],
+            });
+
+            expect(result.rejected.favorites).toEqual([901]);
+            expect(writes('user_favorites')).toHaveLength(2);
+        });
+
+        it('should not touch the database when nothing changed', async () => {
+            const result = await applyLibraryChanges(db as unknown as D1Database, USER_ID, {
+                favorites: [],
+                collections: [],
+            });
+
+            expect(result.rejected).toEqual({ favorites: [], collections: [] });
+            expect(db._queries.every((q) => q.startsWith('SELECT'))).toBe(true);
+        });
+    });
+});
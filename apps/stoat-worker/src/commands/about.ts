@@ -3,26 +3,23 @@
  * `!xd about` → shows bot info, features, and getting started
  */
 
+import { createTranslator } from '@xivdyetools/bot-i18n';
 import type { CommandContext } from '../router.js';
 
 export async function handleAboutCommand(ctx: CommandContext): Promise<void> {
+  const t = createTranslator(ctx.locale);
   await ctx.message.channel?.sendMessage({
     embeds: [
       {
-        title: '🎨 XIV Dye Tools — Stoat Edition',
+        title: t.t('stoat.about.title'),
         description:
-          'An FFXIV dye matching and color analysis bot.\n\n' +
-          '**Features**\n' +
-          '• Color matching & extraction\n' +
-          '• Dye blending (6 algorithms)\n' +
-          '• Color harmony generation\n' +
-          '• Accessibility analysis\n' +
-          '• 6-language support\n\n' +
-          '**Quick Start**\n' +
-          '`!xd info Pure White`  ← Try this first!\n' +
-          '`!xd random`  ← Discover new dyes\n' +
-          '`!xd help`  ← Full command list\n\n' +
-          'React with ❓ on any bot message for help with that command.\n\n' +
+          `${t.t('stoat.about.intro')}\n\n` +
+          `**${t.t('stoat.about.features')}**\n${t.t('stoat.about.featureList')}\n\n` +
+          `**${t.t('stoat.about.quickStart')}**\n` +
+          `\`!xd info Pure White\`  ← ${t.t('stoat.about.tryFirst')}\n` +
+          `\`!xd random\`  ← ${t.t('stoat.about.discover')}\n` +
+          `\`!xd help\`  ← ${t.t('stoat.about.fullList')}\n\n` +
+          `${t.t('stoat.about.reactionHelp')}\n\n` +
           '[Web App](https://xivdyetools.com) • [Docs](https://docs.xivdyetools.com)',
         colour: '#5865F2',
       },
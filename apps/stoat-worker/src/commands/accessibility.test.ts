@@ -0,0 +1,95 @@
+/**
+ * Tests for commands/accessibility.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { accessibilityCommand } from '@xivdyetools/bot-logic';
+import { handleAccessibilityCommand } from './accessibility.js';
+import { createMockMessage } from '../test-utils/revolt-mocks.js';
+import { MessageContextStore } from '../services/message-context.js';
+import { MemoryStore } from '../services/storage/index.js';
+import type { CommandContext } from '../router.js';
+import type { ParsedCommand } from './parser.js';
+import type { BotConfig } from '../config.js';
+
+function createAccessibilityContext(rawArgs: string[] = []): CommandContext {
+  const config: BotConfig = {
+    botToken: 'test-token',
+    authorizedUsers: [],
+  };
+  const parsed: ParsedCommand = {
+    prefix: '!xd',
+    command: 'a11y',
+    subcommand: null,
+    rawArgs,
+  };
+  const message = createMockMessage({ content: `!xd a11y ${rawArgs.join(' ')}`.trim() });
+  return {
+    message: message as any,
+    parsed,
+    config,
+    locale: 'en',
+    messageContextStore: new MessageContextStore(),
+    store: new MemoryStore(),
+  };
+}
+
+function sentMessage(ctx: CommandContext): any {
+  return (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+}
+
+describe('handleAccessibilityCommand', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  it('sends usage when no dye is provided', async () => {
+    const ctx = createAccessibilityContext([]);
+    await handleAccessibilityCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('Usage: `!xd a11y');
+  });
+
+  it('simulates color vision deficiencies for a single dye', async () => {
+    const ctx = createAccessibilityContext(['Dalamud', 'Red']);
+    await handleAccessibilityCommand(ctx);
+
+    const description = sentMessage(ctx).embeds[0].description;
+    expect(description).toMatch(/protanopia/i);
+    expect(description).toMatch(/tritanopia/i);
+  });
+
+  it('limits the simulation to the requested vision type', async () => {
+    const run = vi.spyOn(accessibilityCommand, 'run');
+    const ctx = createAccessibilityContext(['Dalamud', 'Red', 'deuteranopia']);
+    await handleAccessibilityCommand(ctx);
+
+    const values = run.mock.calls[0][0];
+    expect(values.vision).toBe('deuteranopia');
+    expect(values.dye.name).toBe('Dalamud Red');
+    expect(values.dye2).toBeUndefined();
+  });
+
+  it('checks contrast between several dyes', async () => {
+    const ctx = createAccessibilityContext(['Snow', 'White', '>', 'Soot', 'Black']);
+    await handleAccessibilityCommand(ctx);
+
+    expect(sentMessage(ctx).embeds[0].description).toContain('Soot Black');
+  });
+
+  it('snaps a hex color to its closest dye', async () => {
+    const ctx = createAccessibilityContext(['#FEFEFE', '>', 'Soot', 'Black']);
+    await handleAccessibilityCommand(ctx);
+
+    expect(sentMessage(ctx).embeds[0].description).toContain('Pure White');
+  });
+
+  it('sends usage when more dyes are given than the command accepts', async () => {
+    const dyes = Array.from({ length: 7 }, () => 'Snow White').join(' > ');
+    const ctx = createAccessibilityContext(dyes.split(' '));
+    await handleAccessibilityCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('1-6 dyes');
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Accessibility command — colorblind simulation or contrast check.
+ * `!xd a11y <dye> [vision]` → how one dye looks under color vision deficiencies.
+ * `!xd a11y <dye> > <dye> [> <dye> ...]` → WCAG contrast between 2-6 dyes.
+ *
+ * Runs the shared bot-logic `accessibilityCommand`; dyes are resolved here
+ * first so ambiguous names get Stoat's disambiguation list. The simulation or
+ * contrast matrix is rendered into the reply embed when image uploads are
+ * available.
+ */
+
+import { accessibilityCommand, resolveOptions } from '@xivdyetools/bot-logic';
+import { createTranslator } from '@xivdyetools/bot-i18n';
+import type { CommandContext } from '../router.js';
+import { assignTrailingArgs, parseMultiDyeArgs, parseSingleDyeArgs } from './parser.js';
+import { resolveColorArgs } from '../services/dye-resolver.js';
+import { sendCommandOutput } from '../services/command-output.js';
+import { formatErrorReply, formatResolutionFailure } from '../services/response-formatter.js';
+
+const USAGE = '!xd a11y <dye> [vision]  or  !xd a11y <dye> > <dye> [> <dye> ...]';
+
+/** One dye per color option of the shared command (`dye`, `dye2`, ...). */
+const DYE_OPTIONS = accessibilityCommand.options
+  .filter((option) => option.type === 'color')
+  .map((option) => option.name);
+
+/**
+ * Handle the `!xd accessibility` / `!xd a11y` command.
+ */
+export async function handleAccessibilityCommand(ctx: CommandContext): Promise<void> {
+  let { dyeSegments, trailingArgs } = parseMultiDyeArgs(ctx.parsed.rawArgs);
+
+  // A single dye may be followed by a vision type, which only the
+  // single-dye parser splits off
+  if (dyeSegments.length === 1) {
+    const { dyeName, trailingArgs: singleTrailing } = parseSingleDyeArgs(ctx.parsed.rawArgs);
+    dyeSegments = [dyeName];
+    trailingArgs = singleTrailing;
+  }
+
+  if (dyeSegments.length === 0 || dyeSegments.length > DYE_OPTIONS.length) {
+    await sendUsageError(ctx);
+    return;
+  }
+
+  // Hex codes snap to their closest dye, as the shared options require dyes
+  const { locale } = ctx;
+  const resolved = resolveColorArgs(dyeSegments, locale, { requireDye: true });
+  if (!resolved.ok) {
+    await ctx.message.channel?.sendMessage(
+      formatResolutionFailure(ctx.message.id, resolved.failure, ctx.locale),
+    );
+    return;
+  }
+
+  const dyes = Object.fromEntries(
+    resolved.colors.map((color, i) => [DYE_OPTIONS[i], color] as const),
+  );
+  const options = resolveOptions(accessibilityCommand, {
+    ...assignTrailingArgs(accessibilityCommand.options, trailingArgs),
+    ...dyes,
+  });
+  // Only fails if the shared option list stops accepting resolved dyes
+  if (!options.ok) {
+    await sendUsageError(ctx);
+    return;
+  }
+
+  const result = await accessibilityCommand.run(options.values, { locale });
+  if (!result.ok) {
+    await ctx.message.channel?.sendMessage(
+      formatErrorReply(ctx.message.id, result.errorMessage, ctx.locale),
+    );
+    return;
+  }
+
+  await sendCommandOutput(ctx, result.output);
+}
+
+/**
+ * Reply with the dye count message and usage.
+ */
+async function sendUsageError(ctx: CommandContext): Promise<void> {
+  const msg = formatErrorReply(
+    ctx.message.id,
+    createTranslator(ctx.locale).t('stoat.accessibility.missingDyes', {
+      max: DYE_OPTIONS.length,
+    }),
+    ctx.locale,
+    USAGE,
+  );
+  await ctx.message.channel?.sendMessage(msg);
+}
@@ -0,0 +1,140 @@
+/**
+ * Tests for commands/budget.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleBudgetFindCommand } from './budget.js';
+import { UniversalisError } from '../services/universalis-client.js';
+import { createMockMessage } from '../test-utils/revolt-mocks.js';
+import { MessageContextStore } from '../services/message-context.js';
+import { MemoryStore } from '../services/storage/index.js';
+import type { CommandContext } from '../router.js';
+import type { ParsedCommand } from './parser.js';
+import type { BotConfig } from '../config.js';
+
+const mockUniversalis = vi.hoisted(() => ({
+  resolveWorld: vi.fn(),
+  fetchMinPrices: vi.fn(),
+}));
+vi.mock('../services/universalis-client.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/universalis-client.js')>()),
+  ...mockUniversalis,
+}));
+
+function createBudgetContext(rawArgs: string[] = []): CommandContext {
+  const config: BotConfig = {
+    botToken: 'test-token',
+    authorizedUsers: [],
+    universalisApiUrl: 'https://universalis.example',
+  };
+  const parsed: ParsedCommand = {
+    prefix: '!xd',
+    command: 'budget',
+    subcommand: 'find',
+    rawArgs,
+  };
+  const message = createMockMessage({ content: `!xd budget find ${rawArgs.join(' ')}`.trim() });
+  return {
+    message: message as any,
+    parsed,
+    config,
+    locale: 'en',
+    messageContextStore: new MessageContextStore(),
+    store: new MemoryStore(),
+  };
+}
+
+function sentMessage(ctx: CommandContext): any {
+  return (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+}
+
+describe('handleBudgetFindCommand', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUniversalis.resolveWorld.mockImplementation((_url: string, input: string) =>
+      Promise.resolve(input.toLowerCase() === 'cactuar' ? 'Cactuar' : null),
+    );
+    mockUniversalis.fetchMinPrices.mockImplementation(
+      (_url: string, _world: string, ids: number[]) =>
+        Promise.resolve(new Map(ids.map((id, i) => [id, i === 0 ? 40_000 : 1_000 + i]))),
+    );
+  });
+
+  it('sends usage without a dye and world', async () => {
+    const ctx = createBudgetContext(['Cactuar']);
+    await handleBudgetFindCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('Usage: `!xd budget find');
+    expect(mockUniversalis.resolveWorld).not.toHaveBeenCalled();
+  });
+
+  it('lists cheaper alternatives priced on the world', async () => {
+    const ctx = createBudgetContext(['Pure', 'White', 'cactuar']);
+    await handleBudgetFindCommand(ctx);
+
+    expect(mockUniversalis.resolveWorld).toHaveBeenCalledWith(
+      'https://universalis.example',
+      'cactuar',
+    );
+    const embed = sentMessage(ctx).embeds[0];
+    expect(embed.title).toBe('Budget Alternatives for Pure White');
+    expect(embed.description).toContain('40,000 Gil');
+    expect(embed.description).toContain('Prices from Cactuar');
+    expect(embed.description).toContain('**1.**');
+  });
+
+  it('shows the loading indicator while prices are fetched', async () => {
+    const ctx = createBudgetContext(['Pure', 'White', 'Cactuar']);
+    await handleBudgetFindCommand(ctx);
+
+    expect(ctx.message.react).toHaveBeenCalledWith(encodeURIComponent('⏳'));
+    expect(ctx.message.unreact).toHaveBeenCalledWith(encodeURIComponent('⏳'));
+  });
+
+  it('reports unknown worlds', async () => {
+    const ctx = createBudgetContext(['Pure', 'White', 'Atlantis']);
+    await handleBudgetFindCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('Could not find world or datacenter "Atlantis"');
+    expect(mockUniversalis.fetchMinPrices).not.toHaveBeenCalled();
+  });
+
+  it('reports rate limiting from Universalis', async () => {
+    mockUniversalis.fetchMinPrices.mockRejectedValue(new UniversalisError(429, 'Too many'));
+    const ctx = createBudgetContext(['Pure', 'White', 'Cactuar']);
+    await handleBudgetFindCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('Too many requests');
+  });
+
+  it('reports other Universalis failures', async () => {
+    mockUniversalis.resolveWorld.mockRejectedValue(new UniversalisError(0, 'timeout'));
+    const ctx = createBudgetContext(['Pure', 'White', 'Cactuar']);
+    await handleBudgetFindCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('Could not fetch market board data');
+  });
+
+  it('uses the preferred world when the whole input is a dye', async () => {
+    const ctx = createBudgetContext(['Pure', 'White']);
+    await ctx.store.put('prefs:v1:user-01', JSON.stringify({ world: 'Cactuar' }));
+    await handleBudgetFindCommand(ctx);
+
+    expect(mockUniversalis.resolveWorld).toHaveBeenCalledWith(
+      'https://universalis.example',
+      'Cactuar',
+    );
+    expect(sentMessage(ctx).embeds[0].title).toBe('Budget Alternatives for Pure White');
+  });
+
+  it('lets an explicit world override the preferred one', async () => {
+    const ctx = createBudgetContext(['Pure', 'White', 'Atlantis']);
+    await ctx.store.put('prefs:v1:user-01', JSON.stringify({ world: 'Cactuar' }));
+    await handleBudgetFindCommand(ctx);
+
+    expect(mockUniversalis.resolveWorld).toHaveBeenCalledWith(
+      'https://universalis.example',
+      'Atlantis',
+    );
+  });
+});
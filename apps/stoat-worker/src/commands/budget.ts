@@ -0,0 +1,161 @@
+/**
+ * Budget command — cheaper dyes that look like an expensive one.
+ * `!xd budget find <dye> <world>` → up to 5 alternatives priced on the
+ * world or data center's market board (via Universalis).
+ * The world can be left out when the user has set a preferred world.
+ */
+
+import { getLocalizedDyeName, initializeLocale } from '@xivdyetools/bot-logic';
+import { createTranslator, type LocaleCode } from '@xivdyetools/bot-i18n';
+import type { CommandContext } from '../router.js';
+import { DEFAULT_UNIVERSALIS_API_URL } from '../config.js';
+import { parseSingleDyeArgs } from './parser.js';
+import { resolveColorArg } from '../services/dye-resolver.js';
+import { getUserPreferences } from '../services/preferences.js';
+import { resolveWorld, UniversalisError } from '../services/universalis-client.js';
+import { findCheaperAlternatives, type BudgetResult } from '../services/budget-calculator.js';
+import { withLoadingIndicator } from '../services/loading-indicator.js';
+import { formatErrorReply, formatResolutionFailure } from '../services/response-formatter.js';
+
+const USAGE = '!xd budget find <dye> [world or data center]';
+
+/**
+ * Handle the `!xd budget find <dye> <world>` command.
+ */
+export async function handleBudgetFindCommand(ctx: CommandContext): Promise<void> {
+  const tokens = ctx.parsed.rawArgs;
+  const baseUrl = ctx.config.universalisApiUrl ?? DEFAULT_UNIVERSALIS_API_URL;
+
+  const { locale } = ctx;
+  const t = createTranslator(locale);
+
+  const prefs = await getUserPreferences(ctx.store, ctx.message.authorId);
+  const args = splitDyeAndWorld(tokens, prefs.world, locale);
+  if (!args) {
+    const msg = formatErrorReply(
+      ctx.message.id,
+      t.t('stoat.budget.missingArgs'),
+      ctx.locale,
+      USAGE,
+    );
+    await ctx.message.channel?.sendMessage(msg);
+    return;
+  }
+  const { dyeName, worldInput } = args;
+
+  const resolved = resolveColorArg(dyeName, locale, { requireDye: true });
+  if (!resolved.ok) {
+    await ctx.message.channel?.sendMessage(
+      formatResolutionFailure(ctx.message.id, resolved.failure, ctx.locale),
+    );
+    return;
+  }
+  const targetDye = resolved.color.dye;
+  if (!targetDye || targetDye.itemID <= 0) {
+    const msg = formatErrorReply(
+      ctx.message.id,
+      t.t('budget.errors.dyeNotFound', { name: dyeName }),
+      ctx.locale,
+    );
+    await ctx.message.channel?.sendMessage(msg);
+    return;
+  }
+
+  let result: BudgetResult | null;
+  try {
+    result = await withLoadingIndicator(ctx.message, async () => {
+      const world = await resolveWorld(baseUrl, worldInput);
+      return world ? findCheaperAlternatives(baseUrl, targetDye, world) : null;
+    });
+  } catch (error) {
+    const text =
+      error instanceof UniversalisError && error.status === 429
+        ? t.t('budget.errors.rateLimited')
+        : t.t('budget.errors.apiError');
+    await ctx.message.channel?.sendMessage(formatErrorReply(ctx.message.id, text, ctx.locale));
+    return;
+  }
+
+  if (!result) {
+    const msg = formatErrorReply(
+      ctx.message.id,
+      t.t('budget.errors.worldNotFound', { world: worldInput }),
+      ctx.locale,
+      USAGE,
+    );
+    await ctx.message.channel?.sendMessage(msg);
+    return;
+  }
+
+  await initializeLocale(locale);
+
+  const lines = [
+    `**${t.t('budget.targetPrice')}:** ${
+      result.targetPrice !== null
+        ? `${formatGil(result.targetPrice)} Gil`
+        : t.t('budget.noListings')
+    }`,
+    t.t('budget.worldUsed', { world: result.world }),
+    '',
+  ];
+
+  if (result.alternatives.length > 0) {
+    lines.push(t.t('budget.foundAlternatives', { count: result.alternatives.length }));
+    result.alternatives.forEach((alt, i) => {
+      const name = getLocalizedDyeName(alt.dye.itemID, alt.dye.name, locale);
+      const savings =
+        alt.savings > 0 ? ` • ${t.t('budget.savings')}: ${formatGil(alt.savings)} Gil` : '';
+      lines.push(
+        `**${i + 1}.** **${name}** (\`${alt.dye.hex.toUpperCase()}\`) • ${formatGil(alt.price)} Gil${savings} • Δ ${alt.colorDistance.toFixed(1)}`,
+      );
+    });
+  } else {
+    lines.push(t.t('budget.noAlternatives'));
+  }
+
+  lines.push('', `*${t.t('common.footer')}*`);
+
+  await ctx.message.channel?.sendMessage({
+    embeds: [
+      {
+        title: t.t('budget.findTitle', {
+          dyeName: getLocalizedDyeName(targetDye.itemID, targetDye.name, locale),
+        }),
+        description: lines.join('\n'),
+        colour: targetDye.hex,
+      },
+    ],
+    replies: [{ id: ctx.message.id, mention: false }],
+  });
+}
+
+/**
+ * Split the arguments into a dye name and a world. World and data center
+ * names are single words, so the world is the last token, unless the user
+ * has a preferred world and the whole input already names a dye
+ * (`!xd budget find Snow White`).
+ *
+ * @returns null if no world was given and none is preferred
+ */
+function splitDyeAndWorld(
+  tokens: string[],
+  preferredWorld: string | undefined,
+  locale: LocaleCode,
+): { dyeName: string; worldInput: string } | null {
+  if (preferredWorld && tokens.length > 0) {
+    const dyeName = tokens.join(' ');
+    if (resolveColorArg(dyeName, locale, { requireDye: true }).ok) {
+      return { dyeName, worldInput: preferredWorld };
+    }
+  }
+
+  if (tokens.length < 2) return null;
+  return {
+    dyeName: parseSingleDyeArgs(tokens.slice(0, -1)).dyeName,
+    worldInput: tokens[tokens.length - 1],
+  };
+}
+
+function formatGil(amount: number): string {
+  return amount.toLocaleString('en-US');
+}
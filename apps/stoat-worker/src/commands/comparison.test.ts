@@ -0,0 +1,81 @@
+/**
+ * Tests for commands/comparison.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleComparisonCommand } from './comparison.js';
+import { createMockMessage } from '../test-utils/revolt-mocks.js';
+import { MessageContextStore } from '../services/message-context.js';
+import { MemoryStore } from '../services/storage/index.js';
+import type { CommandContext } from '../router.js';
+import type { ParsedCommand } from './parser.js';
+import type { BotConfig } from '../config.js';
+
+function createComparisonContext(rawArgs: string[] = []): CommandContext {
+  const config: BotConfig = {
+    botToken: 'test-token',
+    authorizedUsers: [],
+  };
+  const parsed: ParsedCommand = {
+    prefix: '!xd',
+    command: 'comparison',
+    subcommand: null,
+    rawArgs,
+  };
+  const message = createMockMessage({ content: `!xd comparison ${rawArgs.join(' ')}`.trim() });
+  return {
+    message: message as any,
+    parsed,
+    config,
+    locale: 'en',
+    messageContextStore: new MessageContextStore(),
+    store: new MemoryStore(),
+  };
+}
+
+function sentMessage(ctx: CommandContext): any {
+  return (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+}
+
+describe('handleComparisonCommand', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sends usage for a single dye', async () => {
+    const ctx = createComparisonContext(['Snow', 'White']);
+    await handleComparisonCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('Please provide 2-4 dyes');
+  });
+
+  it('sends usage for more than 4 dyes', async () => {
+    const ctx = createComparisonContext('a > b > c > d > e'.split(' '));
+    await handleComparisonCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('Please provide 2-4 dyes');
+  });
+
+  it("sends the dye count error in the author's language", async () => {
+    const ctx = { ...createComparisonContext(['Snow', 'White']), locale: 'fr' as const };
+    await handleComparisonCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('Veuillez indiquer 2 à 4 teintures');
+  });
+
+  it('lists the compared dyes', async () => {
+    const ctx = createComparisonContext(['Snow', 'White', '>', 'Soot', 'Black']);
+    await handleComparisonCommand(ctx);
+
+    const embed = sentMessage(ctx).embeds[0];
+    expect(embed.description).toContain('Snow White');
+    expect(embed.description).toContain('Soot Black');
+  });
+
+  it('snaps hex codes to their closest dye', async () => {
+    const ctx = createComparisonContext(['#FFFFFF', '>', 'Soot', 'Black']);
+    await handleComparisonCommand(ctx);
+
+    expect(sentMessage(ctx).embeds[0].description).toContain('**1.**');
+  });
+});
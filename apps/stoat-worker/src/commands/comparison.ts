@@ -0,0 +1,79 @@
+/**
+ * Comparison command — compare 2-4 dyes side by side.
+ * `!xd comparison <dye> > <dye> [> <dye> ...]` → dye list with color values.
+ *
+ * Runs the shared bot-logic `comparisonCommand`; dye segments are resolved
+ * here first so ambiguous names get Stoat's disambiguation list. The
+ * comparison grid is rendered into the reply embed when image uploads are available.
+ */
+
+import { comparisonCommand, resolveOptions } from '@xivdyetools/bot-logic';
+import { createTranslator } from '@xivdyetools/bot-i18n';
+import type { CommandContext } from '../router.js';
+import { parseMultiDyeArgs } from './parser.js';
+import { resolveColorArgs } from '../services/dye-resolver.js';
+import { sendCommandOutput } from '../services/command-output.js';
+import { formatErrorReply, formatResolutionFailure } from '../services/response-formatter.js';
+
+const USAGE = '!xd comparison <dye> > <dye> [> <dye> ...]';
+
+const MIN_DYES = 2;
+const MAX_DYES = 4;
+
+/**
+ * Handle the `!xd comparison <dye> > <dye> [> <dye> ...]` command.
+ */
+export async function handleComparisonCommand(ctx: CommandContext): Promise<void> {
+  const { dyeSegments } = parseMultiDyeArgs(ctx.parsed.rawArgs);
+
+  if (dyeSegments.length < MIN_DYES || dyeSegments.length > MAX_DYES) {
+    await sendDyeCountError(ctx);
+    return;
+  }
+
+  const { locale } = ctx;
+  const resolved = resolveColorArgs(dyeSegments, locale, { requireDye: true });
+  if (!resolved.ok) {
+    await ctx.message.channel?.sendMessage(
+      formatResolutionFailure(ctx.message.id, resolved.failure, ctx.locale),
+    );
+    return;
+  }
+
+  // Segments map to the dye1..dye4 options in order
+  const options = resolveOptions(
+    comparisonCommand,
+    Object.fromEntries(resolved.colors.map((color, i) => [`dye${i + 1}`, color])),
+  );
+  // Only fails if the shared option list stops matching MIN_DYES..MAX_DYES
+  if (!options.ok) {
+    await sendDyeCountError(ctx);
+    return;
+  }
+
+  const result = await comparisonCommand.run(options.values, { locale });
+  if (!result.ok) {
+    await ctx.message.channel?.sendMessage(
+      formatErrorReply(ctx.message.id, result.errorMessage, ctx.locale),
+    );
+    return;
+  }
+
+  await sendCommandOutput(ctx, result.output);
+}
+
+/**
+ * Reply with the supported dye count and usage.
+ */
+async function sendDyeCountError(ctx: CommandContext): Promise<void> {
+  const msg = formatErrorReply(
+    ctx.message.id,
+    createTranslator(ctx.locale).t('stoat.comparison.missingDyes', {
+      min: MIN_DYES,
+      max: MAX_DYES,
+    }),
+    ctx.locale,
+    USAGE,
+  );
+  await ctx.message.channel?.sendMessage(msg);
+}
@@ -0,0 +1,136 @@
+/**
+ * Tests for commands/dye.ts
+ *
+ * Covers the search, list and random subcommands.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleSearchCommand, handleListCommand, handleRandomCommand } from './dye.js';
+import { createMockMessage } from '../test-utils/revolt-mocks.js';
+import { MessageContextStore } from '../services/message-context.js';
+import { MemoryStore } from '../services/storage/index.js';
+import type { CommandContext } from '../router.js';
+import type { ParsedCommand } from './parser.js';
+import type { BotConfig } from '../config.js';
+
+function createDyeContext(subcommand: string, rawArgs: string[] = []): CommandContext {
+  const config: BotConfig = {
+    botToken: 'test-token',
+    authorizedUsers: [],
+  };
+  const parsed: ParsedCommand = {
+    prefix: '!xd',
+    command: 'dye',
+    subcommand,
+    rawArgs,
+  };
+  const message = createMockMessage({ content: `!xd ${subcommand} ${rawArgs.join(' ')}`.trim() });
+  return {
+    message: message as any,
+    parsed,
+    config,
+    locale: 'en',
+    messageContextStore: new MessageContextStore(),
+    store: new MemoryStore(),
+  };
+}
+
+function sentMessage(ctx: CommandContext): any {
+  return (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+}
+
+describe('handleSearchCommand', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sends usage when no query is provided', async () => {
+    const ctx = createDyeContext('search');
+    await handleSearchCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('Usage: `!xd search <query>`');
+  });
+
+  it('lists matching dyes with a result count', async () => {
+    const ctx = createDyeContext('search', ['snow']);
+    await handleSearchCommand(ctx);
+
+    const embed = sentMessage(ctx).embeds[0];
+    expect(embed.title).toBe('Search Results for "snow"');
+    expect(embed.description).toContain('**Snow White**');
+    expect(embed.description).toContain('!xd info');
+  });
+
+  it('caps the list at 10 results', async () => {
+    const ctx = createDyeContext('search', ['e']);
+    await handleSearchCommand(ctx);
+
+    const embed = sentMessage(ctx).embeds[0];
+    expect(embed.description.match(/\(`#/g)).toHaveLength(10);
+    expect(embed.description).toMatch(/\.\.\.and \d+ more results/);
+  });
+
+  it('reports queries without results', async () => {
+    const ctx = createDyeContext('search', ['xyzzyplugh12345']);
+    await handleSearchCommand(ctx);
+
+    expect(sentMessage(ctx).embeds[0].title).toContain('No dyes found');
+  });
+});
+
+describe('handleListCommand', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('summarizes the categories without an argument', async () => {
+    const ctx = createDyeContext('list');
+    await handleListCommand(ctx);
+
+    const embed = sentMessage(ctx).embeds[0];
+    expect(embed.title).toBe('Dye Categories');
+    expect(embed.description).not.toContain('Facewear');
+  });
+
+  it('lists the dyes of a category case-insensitively', async () => {
+    const ctx = createDyeContext('list', ['reds']);
+    await handleListCommand(ctx);
+
+    const embed = sentMessage(ctx).embeds[0];
+    expect(embed.title).toContain('Reds');
+    expect(embed.description).toContain('**Dalamud Red**');
+  });
+
+  it('reports unknown categories', async () => {
+    const ctx = createDyeContext('list', ['Plaid']);
+    await handleListCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('No dyes found in the "Plaid" category');
+  });
+});
+
+describe('handleRandomCommand', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows 5 random dyes', async () => {
+    const ctx = createDyeContext('random');
+    await handleRandomCommand(ctx);
+
+    const embed = sentMessage(ctx).embeds[0];
+    expect(embed.description).toContain('**5.**');
+    expect(embed.colour).toMatch(/^#[0-9A-F]{6}$/i);
+  });
+
+  it('picks one dye per category with "unique"', async () => {
+    const ctx = createDyeContext('random', ['unique']);
+    await handleRandomCommand(ctx);
+
+    const lines = sentMessage(ctx).embeds[0].description.split('\n');
+    const categories = lines
+      .filter((line: string) => /^\*\*\d\.\*\*/.test(line))
+      .map((line: string) => line.split(' • ').pop());
+    expect(new Set(categories).size).toBe(categories.length);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Dye browsing commands.
+ * `!xd search <query>` → dyes whose name matches a search term
+ * `!xd list [category]` → dye categories, or the dyes in one category
+ * `!xd random [unique]` → 5 random dyes, optionally one per category
+ */
+
+import {
+  dyeService,
+  executeRandom,
+  getLocalizedCategory,
+  getLocalizedDyeName,
+  initializeLocale,
+} from '@xivdyetools/bot-logic';
+import type { Dye } from '@xivdyetools/types';
+import { createTranslator, type LocaleCode } from '@xivdyetools/bot-i18n';
+import type { CommandContext } from '../router.js';
+import { formatErrorReply, colorToHex, type StoatEmbed } from '../services/response-formatter.js';
+
+/** Search results shown before collapsing into "...and N more" */
+const MAX_SEARCH_RESULTS = 10;
+
+/** Embed colour when there is no dye to take it from */
+const NEUTRAL_COLOR = 0x808080;
+
+const INFO_HINT = 'Use `!xd info <name>` for detailed information';
+
+/**
+ * Handle the `!xd search <query>` command.
+ */
+export async function handleSearchCommand(ctx: CommandContext): Promise<void> {
+  const query = ctx.parsed.rawArgs.join(' ').trim();
+
+  if (!query) {
+    const msg = formatErrorReply(
+      ctx.message.id,
+      createTranslator(ctx.locale).t('stoat.search.missingQuery'),
+      ctx.locale,
+      '!xd search <query>',
+    );
+    await ctx.message.channel?.sendMessage(msg);
+    return;
+  }
+
+  const { locale } = ctx;
+  const t = createTranslator(locale);
+  await initializeLocale(locale);
+
+  const results = dyeService.searchByName(query).filter((d) => d.category !== 'Facewear');
+
+  if (results.length === 0) {
+    await sendEmbed(ctx, {
+      title: t.t('dye.search.noResults', { query }),
+      description: t.t('dye.search.tryDifferent'),
+      colour: colorToHex(NEUTRAL_COLOR),
+    });
+    return;
+  }
+
+  const dyeList = results
+    .slice(0, MAX_SEARCH_RESULTS)
+    .map((d) => formatDyeListItem(d, locale))
+    .join('\n');
+  const foundText =
+    results.length === 1
+      ? t.t('dye.search.foundCount', { count: results.length })
+      : t.t('dye.search.foundCountPlural', { count: results.length });
+  const moreText =
+    results.length > MAX_SEARCH_RESULTS
+      ? `\n\n*${t.t('dye.search.moreResults', { count: results.length - MAX_SEARCH_RESULTS })}*`
+      : '';
+
+  await sendEmbed(ctx, {
+    title: t.t('dye.search.resultsTitle', { query }),
+    description: `${foundText}\n\n${dyeList}${moreText}\n\n*${INFO_HINT}*`,
+    colour: results[0].hex,
+  });
+}
+
+/**
+ * Handle the `!xd list [category]` command.
+ */
+export async function handleListCommand(ctx: CommandContext): Promise<void> {
+  const category = ctx.parsed.rawArgs.join(' ').trim();
+
+  const { locale } = ctx;
+  const t = createTranslator(locale);
+  await initializeLocale(locale);
+
+  const allDyes = dyeService.getAllDyes().filter((d) => d.category !== 'Facewear');
+
+  if (category) {
+    const categoryDyes = allDyes.filter((d) => d.category.toLowerCase() === category.toLowerCase());
+    if (categoryDyes.length === 0) {
+      const msg = formatErrorReply(
+        ctx.message.id,
+        t.t('dye.list.noDyesInCategory', { category }),
+        ctx.locale,
+        '!xd list [category]',
+      );
+      await ctx.message.channel?.sendMessage(msg);
+      return;
+    }
+
+    const dyeList = categoryDyes.map((d) => formatDyeListItem(d, locale)).join('\n');
+    await sendEmbed(ctx, {
+      title: t.t('dye.list.categoryTitle', {
+        category: getLocalizedCategory(categoryDyes[0].category, locale),
+      }),
+      description: `${t.t('dye.list.dyesInCategory', { count: categoryDyes.length })}\n\n${dyeList}\n\n*${INFO_HINT}*`,
+      colour: categoryDyes[0].hex,
+    });
+    return;
+  }
+
+  const categories = new Map<string, number>();
+  for (const dye of allDyes) {
+    categories.set(dye.category, (categories.get(dye.category) ?? 0) + 1);
+  }
+  const categoryList = Array.from(categories.entries())
+    .map(
+      ([cat, count]) => `**${getLocalizedCategory(cat, locale)}**: ${count} ${t.t('common.dyes')}`,
+    )
+    .join('\n');
+
+  await sendEmbed(ctx, {
+    title: t.t('dye.list.categoriesTitle'),
+    description:
+      `${t.t('dye.list.categorySummary', { total: allDyes.length, count: categories.size })}\n\n${categoryList}` +
+      '\n\n*Use `!xd list <category>` to see the dyes in a category*',
+    colour: colorToHex(NEUTRAL_COLOR),
+  });
+}
+
+/**
+ * Handle the `!xd random [unique]` command.
+ */
+export async function handleRandomCommand(ctx: CommandContext): Promise<void> {
+  const uniqueCategories = ctx.parsed.rawArgs.some((arg) => arg.toLowerCase() === 'unique');
+
+  const { locale } = ctx;
+  const t = createTranslator(locale);
+  const result = await executeRandom({ locale, count: 5, uniqueCategories });
+
+  if (!result.ok) {
+    await ctx.message.channel?.sendMessage(
+      formatErrorReply(ctx.message.id, result.errorMessage, ctx.locale),
+    );
+    return;
+  }
+
+  const dyeList = result.dyes
+    .map((dye, i) => {
+      const localizedName = getLocalizedDyeName(dye.itemID, dye.name, locale);
+      const localizedCategory = getLocalizedCategory(dye.category, locale);
+      return `**${i + 1}.** **${localizedName}** (\`${dye.hex.toUpperCase()}\`) • ${localizedCategory}`;
+    })
+    .join('\n');
+
+  await sendEmbed(ctx, {
+    title: result.title,
+    description:
+      `${t.t('dye.random.description', { count: result.dyes.length })}\n\n${dyeList}` +
+      `\n\n*${INFO_HINT} • ${t.t('dye.random.runAgainHint')}*`,
+    colour: result.dyes[0].hex,
+  });
+}
+
+/**
+ * Send a single embed as a reply to the command message.
+ */
+async function sendEmbed(ctx: CommandContext, embed: StoatEmbed): Promise<void> {
+  await ctx.message.channel?.sendMessage({
+    embeds: [embed],
+    replies: [{ id: ctx.message.id, mention: false }],
+  });
+}
+
+function formatDyeListItem(dye: Dye, locale: LocaleCode): string {
+  const localizedName = getLocalizedDyeName(dye.itemID, dye.name, locale);
+  return `**${localizedName}** (\`${dye.hex.toUpperCase()}\`)`;
+}
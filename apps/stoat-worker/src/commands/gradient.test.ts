@@ -0,0 +1,77 @@
+/**
+ * Tests for commands/gradient.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleGradientCommand } from './gradient.js';
+import { createMockMessage } from '../test-utils/revolt-mocks.js';
+import { MessageContextStore } from '../services/message-context.js';
+import { MemoryStore } from '../services/storage/index.js';
+import type { CommandContext } from '../router.js';
+import type { ParsedCommand } from './parser.js';
+import type { BotConfig } from '../config.js';
+
+function createGradientContext(rawArgs: string[] = []): CommandContext {
+  const config: BotConfig = {
+    botToken: 'test-token',
+    authorizedUsers: [],
+  };
+  const parsed: ParsedCommand = {
+    prefix: '!xd',
+    command: 'gradient',
+    subcommand: null,
+    rawArgs,
+  };
+  const message = createMockMessage({ content: `!xd gradient ${rawArgs.join(' ')}`.trim() });
+  return {
+    message: message as any,
+    parsed,
+    config,
+    locale: 'en',
+    messageContextStore: new MessageContextStore(),
+    store: new MemoryStore(),
+  };
+}
+
+function sentMessage(ctx: CommandContext): any {
+  return (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+}
+
+describe('handleGradientCommand', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sends usage when only one color is provided', async () => {
+    const ctx = createGradientContext(['Snow', 'White']);
+    await handleGradientCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('Usage: `!xd gradient');
+  });
+
+  it('defaults to 6 steps', async () => {
+    const ctx = createGradientContext(['Snow', 'White', '>', 'Soot', 'Black']);
+    await handleGradientCommand(ctx);
+
+    const embed = sentMessage(ctx).embeds[0];
+    expect(embed.description).toContain('**6.**');
+    expect(embed.description).not.toContain('**7.**');
+  });
+
+  it('clamps the step count and reads the interpolation mode', async () => {
+    const ctx = createGradientContext(['Snow', 'White', '>', '#000000', '50', 'oklch']);
+    await handleGradientCommand(ctx);
+
+    const embed = sentMessage(ctx).embeds[0];
+    expect(embed.description).toContain('**12.**');
+    expect(embed.description).not.toContain('**13.**');
+    expect(embed.description).toContain('OKLCH');
+  });
+
+  it('sends a no-match reply when a color does not resolve', async () => {
+    const ctx = createGradientContext(['Snow', 'White', '>', 'xyzzyplugh12345']);
+    await handleGradientCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('No dye found matching "xyzzyplugh12345"');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Gradient command — dyes along a gradient between two colors.
+ * `!xd gradient <dye> > <dye> [steps] [mode]` → closest dye for each step.
+ *
+ * Runs the shared bot-logic `gradientCommand`; both colors are resolved here
+ * first so ambiguous names get Stoat's disambiguation list. The gradient bar
+ * is rendered into the reply embed when image uploads are available.
+ */
+
+import { gradientCommand, resolveOptions } from '@xivdyetools/bot-logic';
+import { createTranslator } from '@xivdyetools/bot-i18n';
+import type { CommandContext } from '../router.js';
+import { assignTrailingArgs, parseMultiDyeArgs } from './parser.js';
+import { resolveColorArgs } from '../services/dye-resolver.js';
+import { getUserPreferences } from '../services/preferences.js';
+import { sendCommandOutput } from '../services/command-output.js';
+import { formatErrorReply, formatResolutionFailure } from '../services/response-formatter.js';
+
+const USAGE = '!xd gradient <dye> > <dye> [steps] [mode]';
+
+/**
+ * Handle the `!xd gradient <dye> > <dye> [steps] [mode]` command.
+ */
+export async function handleGradientCommand(ctx: CommandContext): Promise<void> {
+  const { dyeSegments, trailingArgs } = parseMultiDyeArgs(ctx.parsed.rawArgs);
+
+  if (dyeSegments.length !== 2) {
+    await sendUsageError(ctx);
+    return;
+  }
+
+  const { locale } = ctx;
+  const resolved = resolveColorArgs(dyeSegments, locale);
+  if (!resolved.ok) {
+    await ctx.message.channel?.sendMessage(
+      formatResolutionFailure(ctx.message.id, resolved.failure, ctx.locale),
+    );
+    return;
+  }
+
+  // Steps are clamped to 2-12; omitted `matching` falls back to the user's preference
+  const [startColor, endColor] = resolved.colors;
+  const prefs = await getUserPreferences(ctx.store, ctx.message.authorId);
+  const options = resolveOptions(
+    gradientCommand,
+    {
+      ...assignTrailingArgs(gradientCommand.options, trailingArgs),
+      start_color: startColor,
+      end_color: endColor,
+    },
+    { preferences: prefs },
+  );
+  // Only fails if the shared option list stops accepting resolved colors
+  if (!options.ok) {
+    await sendUsageError(ctx);
+    return;
+  }
+
+  const result = await gradientCommand.run(options.values, { locale });
+  if (!result.ok) {
+    await ctx.message.channel?.sendMessage(
+      formatErrorReply(ctx.message.id, result.errorMessage, ctx.locale),
+    );
+    return;
+  }
+
+  await sendCommandOutput(ctx, result.output);
+}
+
+/**
+ * Reply with the missing colors message and usage.
+ */
+async function sendUsageError(ctx: CommandContext): Promise<void> {
+  const msg = formatErrorReply(
+    ctx.message.id,
+    createTranslator(ctx.locale).t('stoat.gradient.missingColors'),
+    ctx.locale,
+    USAGE,
+  );
+  await ctx.message.channel?.sendMessage(msg);
+}
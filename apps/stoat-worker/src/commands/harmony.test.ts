@@ -0,0 +1,91 @@
+/**
+ * Tests for commands/harmony.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleHarmonyCommand } from './harmony.js';
+import { createMockMessage } from '../test-utils/revolt-mocks.js';
+import { MessageContextStore } from '../services/message-context.js';
+import { MemoryStore } from '../services/storage/index.js';
+import type { CommandContext } from '../router.js';
+import type { ParsedCommand } from './parser.js';
+import type { BotConfig } from '../config.js';
+
+function createHarmonyContext(rawArgs: string[] = []): CommandContext {
+  const config: BotConfig = {
+    botToken: 'test-token',
+    authorizedUsers: [],
+  };
+  const parsed: ParsedCommand = {
+    prefix: '!xd',
+    command: 'harmony',
+    subcommand: null,
+    rawArgs,
+  };
+  const message = createMockMessage({ content: `!xd harmony ${rawArgs.join(' ')}`.trim() });
+  return {
+    message: message as any,
+    parsed,
+    config,
+    locale: 'en',
+    messageContextStore: new MessageContextStore(),
+    store: new MemoryStore(),
+  };
+}
+
+function sentMessage(ctx: CommandContext): any {
+  return (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+}
+
+describe('handleHarmonyCommand', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sends usage when no dye is provided', async () => {
+    const ctx = createHarmonyContext([]);
+    await handleHarmonyCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('Usage: `!xd harmony');
+  });
+
+  it("replies in the author's language when no dye is provided", async () => {
+    const ctx = { ...createHarmonyContext([]), locale: 'de' as const };
+    await handleHarmonyCommand(ctx);
+
+    const { content } = sentMessage(ctx);
+    expect(content).toContain('Bitte gib einen Farbstoff oder eine Farbe an.');
+    expect(content).toContain('Verwendung: `!xd harmony');
+  });
+
+  it('defaults to a triadic harmony', async () => {
+    const ctx = createHarmonyContext(['Snow', 'White']);
+    await handleHarmonyCommand(ctx);
+
+    const call = sentMessage(ctx);
+    expect(call.embeds[0].title).toMatch(/triadic/i);
+    expect(call.embeds[0].colour).toMatch(/^#[0-9a-f]{6}$/i);
+    expect(call.replies).toEqual([{ id: 'msg-01', mention: false }]);
+  });
+
+  it('reads the harmony type from trailing args', async () => {
+    const ctx = createHarmonyContext(['Snow', 'White', 'complementary', 'oklch']);
+    await handleHarmonyCommand(ctx);
+
+    expect(sentMessage(ctx).embeds[0].title).toMatch(/complementary/i);
+  });
+
+  it('accepts a raw hex color', async () => {
+    const ctx = createHarmonyContext(['#FF5733']);
+    await handleHarmonyCommand(ctx);
+
+    expect(sentMessage(ctx).embeds).toHaveLength(1);
+  });
+
+  it('sends a no-match reply for an unknown dye', async () => {
+    const ctx = createHarmonyContext(['xyzzyplugh12345']);
+    await handleHarmonyCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('No dye found');
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Harmony command — dyes that form a color harmony with a base color.
+ * `!xd harmony <dye> [type] [color_space] [companions]` → harmony dye list.
+ *
+ * Runs the shared bot-logic `harmonyCommand`; the color is resolved here
+ * first so ambiguous names get Stoat's disambiguation list. The harmony wheel
+ * is rendered into the reply embed when image uploads are available.
+ */
+
+import { harmonyCommand, resolveOptions } from '@xivdyetools/bot-logic';
+import { createTranslator } from '@xivdyetools/bot-i18n';
+import type { CommandContext } from '../router.js';
+import { assignTrailingArgs, parseSingleDyeArgs } from './parser.js';
+import { resolveColorArg } from '../services/dye-resolver.js';
+import { getUserPreferences } from '../services/preferences.js';
+import { sendCommandOutput } from '../services/command-output.js';
+import { formatErrorReply, formatResolutionFailure } from '../services/response-formatter.js';
+
+const USAGE = '!xd harmony <dye> [type] [color_space]';
+
+/**
+ * Handle the `!xd harmony <dye> [type] [color_space] [companions]` command.
+ */
+export async function handleHarmonyCommand(ctx: CommandContext): Promise<void> {
+  const { dyeName, trailingArgs } = parseSingleDyeArgs(ctx.parsed.rawArgs);
+
+  if (!dyeName) {
+    await sendUsageError(ctx);
+    return;
+  }
+
+  const { locale } = ctx;
+  const resolved = resolveColorArg(dyeName, locale);
+  if (!resolved.ok) {
+    await ctx.message.channel?.sendMessage(
+      formatResolutionFailure(ctx.message.id, resolved.failure, ctx.locale),
+    );
+    return;
+  }
+
+  // Omitted `matching` falls back to the user's preference
+  const prefs = await getUserPreferences(ctx.store, ctx.message.authorId);
+  const options = resolveOptions(
+    harmonyCommand,
+    { ...assignTrailingArgs(harmonyCommand.options, trailingArgs), color: resolved.color },
+    { preferences: prefs },
+  );
+  // Only fails if the shared option list stops accepting a resolved color
+  if (!options.ok) {
+    await sendUsageError(ctx);
+    return;
+  }
+
+  const result = await harmonyCommand.run(options.values, { locale });
+  if (!result.ok) {
+    await ctx.message.channel?.sendMessage(
+      formatErrorReply(ctx.message.id, result.errorMessage, ctx.locale),
+    );
+    return;
+  }
+
+  await sendCommandOutput(ctx, result.output);
+}
+
+/**
+ * Reply with the missing color message and usage.
+ */
+async function sendUsageError(ctx: CommandContext): Promise<void> {
+  const msg = formatErrorReply(
+    ctx.message.id,
+    createTranslator(ctx.locale).t('stoat.harmony.missingColor'),
+    ctx.locale,
+    USAGE,
+  );
+  await ctx.message.channel?.sendMessage(msg);
+}
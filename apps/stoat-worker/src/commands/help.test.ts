@@ -8,6 +8,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { handleHelpCommand } from './help.js';
 import { createMockMessage } from '../test-utils/revolt-mocks.js';
 import { MessageContextStore } from '../services/message-context.js';
+import { MemoryStore } from '../services/storage/index.js';
 import type { CommandContext } from '../router.js';
 import type { ParsedCommand } from './parser.js';
 import type { BotConfig } from '../config.js';
@@ -28,7 +29,9 @@ function createHelpContext(rawArgs: string[] = []): CommandContext {
     message: message as any,
     parsed,
     config,
+    locale: 'en',
     messageContextStore: new MessageContextStore(),
+    store: new MemoryStore(),
   };
 }
 
@@ -112,6 +115,36 @@ describe('handleHelpCommand', () => {
     expect(call.content).toContain('about');
   });
 
+  it('shares help entries between command aliases', async () => {
+    const ctx = createHelpContext(['compare']);
+    await handleHelpCommand(ctx);
+
+    const call = (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(call.content).toContain('!xivdye comparison');
+  });
+
+  it('sends command-specific help for "budget"', async () => {
+    const ctx = createHelpContext(['budget']);
+    await handleHelpCommand(ctx);
+
+    const call = (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(call.content).toContain('budget find <dye> [world]');
+  });
+
+  it('sends command-specific help for "prefs" and "prefix"', async () => {
+    const prefsCtx = createHelpContext(['preferences']);
+    await handleHelpCommand(prefsCtx);
+    const prefsCall = (prefsCtx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock
+      .calls[0][0];
+    expect(prefsCall.content).toContain('!xd prefs set <key> <value>');
+
+    const prefixCtx = createHelpContext(['prefix']);
+    await handleHelpCommand(prefixCtx);
+    const prefixCall = (prefixCtx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock
+      .calls[0][0];
+    expect(prefixCall.content).toContain('Requires Manage Server');
+  });
+
   it('falls back to overview for unknown topic', async () => {
     const ctx = createHelpContext(['nonexistent']);
     await handleHelpCommand(ctx);
@@ -127,4 +160,32 @@ describe('handleHelpCommand', () => {
     const call = (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
     expect(call.content).toContain('!xd info');
   });
+
+  it('sends the overview in the context locale', async () => {
+    const ctx = { ...createHelpContext(), locale: 'ja' as const };
+    await handleHelpCommand(ctx);
+
+    const call = (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(call.content).toContain('コマンドリファレンス');
+    expect(call.content).toContain('`!xd info <dye>`  染料の色の値を表示');
+  });
+
+  it('localizes command-specific help but keeps the syntax', async () => {
+    const ctx = { ...createHelpContext(['gradient']), locale: 'fr' as const };
+    await handleHelpCommand(ctx);
+
+    const call = (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(call.content).toContain('**!xivdye gradient <dye1> > <dye2> [steps] [mode]**');
+    expect(call.content).toContain('Génère un dégradé');
+    expect(call.content).toContain('Exemples:');
+  });
+
+  it('sends command-specific help for "server"', async () => {
+    const ctx = createHelpContext(['server']);
+    await handleHelpCommand(ctx);
+
+    const call = (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(call.content).toContain('!xd server set <key> <value>');
+    expect(call.content).toContain('Requires Manage Server');
+  });
 });
@@ -2,111 +2,260 @@
  * Help command — sends a command reference via reply.
  * `!xd help` → brief command overview
  * `!xd help <command>` → detailed help for a specific command
+ *
+ * Descriptions come from bot-i18n's `stoat.help` strings; command syntax,
+ * option values and examples are the same in every language.
  */
 
+import { createTranslator, type Translator } from '@xivdyetools/bot-i18n';
 import type { CommandContext } from '../router.js';
 
-const HELP_OVERVIEW = `**XIV Dye Tools — Command Reference**
+/** One line of the overview: command syntax and its `stoat.help.summary` key */
+type OverviewLine = [usage: string, summary: string];
 
-**Dye Lookup**
-  \`!xd info <dye>\`              Look up a dye's color values
-  \`!xd search <query>\`          Search dyes by name
-  \`!xd list [category]\`         List dyes in a category
-  \`!xd random\`                  Show 5 random dyes
+/** Overview sections, keyed by their `stoat.help.sections` key */
+const HELP_OVERVIEW: Array<[section: string, lines: OverviewLine[]]> = [
+  [
+    'dyeLookup',
+    [
+      ['!xd info <dye>', 'info'],
+      ['!xd search <query>', 'search'],
+      ['!xd list [category]', 'list'],
+      ['!xd random [unique]', 'random'],
+    ],
+  ],
+  [
+    'colorTools',
+    [
+      ['!xivdye harmony <dye> [type]', 'harmony'],
+      ['!xivdye gradient <dye> > <dye> [steps]', 'gradient'],
+      ['!xivdye mixer <dye> > <dye> [mode]', 'mixer'],
+      ['!xivdye compare <dye> > <dye> [> ...]', 'compare'],
+      ['!xivdye match <color> [count]', 'match'],
+      ['!xivdye extract', 'extract'],
+    ],
+  ],
+  ['accessibility', [['!xivdye a11y <dye> [dye2..4]', 'a11y']]],
+  ['marketBoard', [['!xivdye budget find <dye> [world]', 'budget']]],
+  [
+    'settings',
+    [
+      ['!xivdye prefs', 'prefs'],
+      ['!xivdye prefs set <key> <value>', 'prefsSet'],
+      ['!xivdye prefs reset [key]', 'prefsReset'],
+      ['!xivdye server [set <key> <value> | reset]', 'server'],
+      ['!xivdye prefix [set <prefix> | reset]', 'prefix'],
+    ],
+  ],
+];
 
-**Color Tools**
-  \`!xivdye harmony <dye> [type]\`              Color harmonies
-  \`!xivdye gradient <dye> > <dye> [steps]\`    Color gradients
-  \`!xivdye mixer <dye> > <dye> [mode]\`        Blend two dyes
-  \`!xivdye comparison <dye> > <dye> [> ...]\`  Compare dyes side-by-side
-  \`!xivdye match <color>\`                     Find closest dye to a color
-  \`!xivdye extract\`                           Extract colors from an image
-
-**Accessibility**
-  \`!xivdye a11y <dye> [dye2..4]\`             Colorblind simulation / contrast
-
-**Settings**
-  \`!xivdye prefs\`                             Show your preferences
-  \`!xivdye prefs set <key> <value>\`           Update a preference
+/**
+ * Detailed help for one command.
+ */
+interface CommandHelp {
+  /** Syntax lines, shown in bold */
+  usage: string[];
+  /** Option lists, as a `stoat.help.labels` key and the accepted values */
+  options?: Array<[label: string, values: string]>;
+  /** Per-key value lists, for commands that take `<key> <value>` */
+  keys?: Array<[key: string, values: string]>;
+  /** Example invocations */
+  examples?: string[];
+}
 
-Tip: Use \`!xd\` as a shortcut for \`!xivdye\`.
-     Dye names, ItemIDs (e.g., 5729), and localized names are all accepted.
-     Use \`>\` to separate multiple dyes: \`!xivdye gradient Pure White > Jet Black\``;
+/** Detailed help, keyed by topic (and by `stoat.help.details` key) */
+const COMMAND_HELP: Record<string, CommandHelp> = {
+  info: {
+    usage: ['!xd info <dye>'],
+    examples: ['!xd info Snow White', '!xd info 5729', '!xd info スノウホワイト'],
+  },
 
-const COMMAND_HELP: Record<string, string> = {
-  info: `**!xd info <dye>**
-Look up a dye's color values (HEX, RGB, HSV, LAB).
-Accepts dye names, ItemIDs, or localized names.
+  search: {
+    usage: ['!xd search <query>'],
+    examples: ['!xd search white', '!xd search dalamud'],
+  },
 
-Examples:
-  \`!xd info Snow White\`
-  \`!xd info 5729\`
-  \`!xd info スノウホワイト\``,
+  list: {
+    usage: ['!xd list [category]'],
+    examples: ['!xd list', '!xd list Reds'],
+  },
 
-  harmony: `**!xivdye harmony <dye> [type] [color_space]**
-Generate a color harmony wheel.
+  random: {
+    usage: ['!xd random [unique]'],
+    examples: ['!xd random', '!xd random unique'],
+  },
 
-Types: triadic, complementary, analogous, split-complementary, tetradic, square, monochromatic
+  harmony: {
+    usage: ['!xivdye harmony <dye> [type] [color_space]'],
+    options: [
+      [
+        'types',
+        'triadic, complementary, analogous, split-complementary, tetradic, square, monochromatic',
+      ],
+      ['colorSpaces', 'hsv, oklch, lch, hsl'],
+    ],
+    examples: [
+      '!xd harmony Pure White',
+      '!xd harmony Pure White complementary',
+      '!xd harmony Pure White triadic oklch',
+    ],
+  },
 
-Examples:
-  \`!xd harmony Pure White\`
-  \`!xd harmony Pure White complementary\`
-  \`!xd harmony Pure White triadic oklch\``,
+  match: {
+    usage: ['!xivdye match <color> [count]'],
+    examples: ['!xd match #FF5733', '!xd match coral 5'],
+  },
 
-  match: `**!xivdye match <color>**
-Find the closest FFXIV dye to any color.
-Accepts hex codes, dye names, and CSS color names.
+  gradient: {
+    usage: ['!xivdye gradient <dye1> > <dye2> [steps] [mode]'],
+    options: [['modes', 'rgb, hsv, lab, oklch, lch, oklab, ryb, hsl, spectral']],
+    examples: [
+      '!xivdye gradient Pure White > Jet Black',
+      '!xivdye gradient Pure White > Jet Black 5 oklch',
+    ],
+  },
 
-Examples:
-  \`!xd match #FF5733\`
-  \`!xd match coral\``,
+  mixer: {
+    usage: ['!xivdye mixer <dye1> > <dye2> [mode] [count]'],
+    options: [['modes', 'rgb, lab, oklab, ryb, hsl, spectral']],
+    examples: [
+      '!xivdye mixer Snow White > Jet Black',
+      '!xivdye mixer Snow White > Jet Black spectral',
+    ],
+  },
 
-  gradient: `**!xivdye gradient <dye1> > <dye2> [steps] [mode]**
-Generate a color gradient between two dyes.
+  comparison: {
+    usage: ['!xivdye comparison <dye1> > <dye2> [> dye3 ...]'],
+    examples: [
+      '!xivdye comparison Snow White > Pure White',
+      '!xivdye comparison Snow White > Pure White > Pearl White',
+    ],
+  },
 
-Examples:
-  \`!xivdye gradient Pure White > Jet Black\`
-  \`!xivdye gradient Pure White > Jet Black 5 oklch\``,
+  a11y: {
+    usage: ['!xivdye a11y <dye> [vision]', '!xivdye a11y <dye1> > <dye2> [> dye3 ...]'],
+    options: [['visionTypes', 'protanopia, deuteranopia, tritanopia, achromatopsia']],
+    examples: [
+      '!xd a11y Dalamud Red',
+      '!xd a11y Dalamud Red deuteranopia',
+      '!xd a11y Snow White > Jet Black',
+    ],
+  },
 
-  mixer: `**!xivdye mixer <dye1> > <dye2> [mode]**
-Blend two dye colors.
+  budget: {
+    usage: ['!xivdye budget find <dye> [world]'],
+    examples: [
+      '!xd budget find Pure White Cactuar',
+      '!xd budget find Jet Black Crystal',
+      '!xd budget find Pure White',
+    ],
+  },
 
-Modes: rgb, lab, oklab, ryb, hsl, spectral
+  prefs: {
+    usage: ['!xd prefs [show]', '!xd prefs set <key> <value>', '!xd prefs reset [key]'],
+    keys: [
+      ['language', 'en, ja, de, fr, ko, zh'],
+      ['matching', 'rgb, cie76, ciede2000, oklab, hyab, oklch-weighted'],
+      ['blending', 'rgb, lab, oklab, ryb, hsl, spectral'],
+      ['count', '1-10'],
+      ['world', 'Cactuar, Crystal, …'],
+    ],
+    examples: [
+      '!xd prefs set blending spectral',
+      '!xd prefs set world Cactuar',
+      '!xd prefs reset world',
+    ],
+  },
 
-Examples:
-  \`!xivdye mixer Snow White > Jet Black\`
-  \`!xivdye mixer Snow White > Jet Black spectral\``,
+  server: {
+    usage: ['!xd server [show]', '!xd server set <key> <value>', '!xd server reset [key]'],
+    keys: [
+      ['language', 'en, ja, de, fr, ko, zh'],
+      ['prefix', '?, $, dye, …'],
+    ],
+    examples: ['!xd server set language fr', '!xd server reset language'],
+  },
 
-  comparison: `**!xivdye comparison <dye1> > <dye2> [> dye3 ...]]**
-Compare dyes side-by-side.
+  prefix: {
+    usage: ['!xd prefix [show]', '!xd prefix set <prefix>', '!xd prefix reset'],
+    examples: ['!xd prefix set ?', '?help', '!xd prefix reset'],
+  },
 
-Examples:
-  \`!xivdye comparison Snow White > Pure White\`
-  \`!xivdye comparison Snow White > Pure White > Pearl White\``,
+  ping: { usage: ['!xd ping'] },
 
-  ping: `**!xd ping**
-Check bot connectivity and response latency.`,
+  help: { usage: ['!xd help [command]'] },
 
-  help: `**!xd help [command]**
-Show this help message, or detailed help for a specific command.`,
+  about: { usage: ['!xd about'] },
+};
 
-  about: `**!xd about**
-Show bot information and quick start guide.`,
+/** Alternate command names that share a help entry */
+const HELP_ALIASES: Record<string, string> = {
+  compare: 'comparison',
+  accessibility: 'a11y',
+  preferences: 'prefs',
 };
 
 export async function handleHelpCommand(ctx: CommandContext): Promise<void> {
-  const topic = ctx.parsed.rawArgs[0]?.toLowerCase();
-
-  if (topic && COMMAND_HELP[topic]) {
-    await ctx.message.channel?.sendMessage({
-      content: COMMAND_HELP[topic],
-      replies: [{ id: ctx.message.id, mention: false }],
-    });
-    return;
-  }
+  const t = createTranslator(ctx.locale);
+  const arg = ctx.parsed.rawArgs[0]?.toLowerCase();
+  const topic = arg ? (HELP_ALIASES[arg] ?? arg) : undefined;
+  const help = topic ? COMMAND_HELP[topic] : undefined;
 
   await ctx.message.channel?.sendMessage({
-    content: HELP_OVERVIEW,
+    content: topic && help ? formatCommandHelp(t, topic, help) : formatOverview(t),
     replies: [{ id: ctx.message.id, mention: false }],
   });
 }
+
+/**
+ * Build the command overview.
+ */
+function formatOverview(t: Translator): string {
+  const sections = HELP_OVERVIEW.map(([section, lines]) => {
+    const body = lines.map(
+      ([usage, summary]) => `  \`${usage}\`  ${t.t(`stoat.help.summary.${summary}`)}`,
+    );
+    return `**${t.t(`stoat.help.sections.${section}`)}**\n${body.join('\n')}`;
+  });
+
+  return [
+    `**${t.t('stoat.help.title')}**`,
+    ...sections,
+    [
+      t.t('stoat.help.tips.shortcut'),
+      t.t('stoat.help.tips.inputs'),
+      t.t('stoat.help.tips.separator', {
+        example: '`!xivdye gradient Pure White > Jet Black`',
+      }),
+    ].join('\n'),
+  ].join('\n\n');
+}
+
+/**
+ * Build the detailed help for one command.
+ */
+function formatCommandHelp(t: Translator, topic: string, help: CommandHelp): string {
+  const blocks = [
+    [...help.usage.map((usage) => `**${usage}**`), t.t(`stoat.help.details.${topic}`)].join('\n'),
+  ];
+
+  if (help.options) {
+    blocks.push(
+      help.options
+        .map(([label, values]) => `${t.t(`stoat.help.labels.${label}`)}: ${values}`)
+        .join('\n'),
+    );
+  }
+
+  if (help.keys) {
+    const lines = help.keys.map(([key, values]) => `  \`${key}\`  ${values}`);
+    blocks.push(`${t.t('stoat.help.labels.keys')}:\n${lines.join('\n')}`);
+  }
+
+  if (help.examples) {
+    const lines = help.examples.map((example) => `  \`${example}\``);
+    blocks.push(`${t.t('stoat.help.examples')}:\n${lines.join('\n')}`);
+  }
+
+  return blocks.join('\n\n');
+}
@@ -14,6 +14,9 @@ import { createMockClient, createMockMessage } from '../test-utils/revolt-mocks.
 import { routeCommand, type CommandContext } from '../router.js';
 import { parseCommand } from './parser.js';
 import { MessageContextStore } from '../services/message-context.js';
+import { MemoryStore } from '../services/storage/index.js';
+import { getServerSettings, clearServerSettingsCache } from '../services/server-settings.js';
+import { getUserPreferences, resolveLocale } from '../services/preferences.js';
 import type { BotConfig } from '../config.js';
 
 // We test the messageCreate handler logic inline rather than importing index.ts
@@ -25,30 +28,45 @@ function createConfig(): BotConfig {
 
 describe('messageCreate handler logic', () => {
   let messageContextStore: MessageContextStore;
+  let store: MemoryStore;
   let config: BotConfig;
 
   beforeEach(() => {
     vi.clearAllMocks();
-    messageContextStore = new MessageContextStore();
+    clearServerSettingsCache();
+    store = new MemoryStore();
+    messageContextStore = new MessageContextStore(store);
     config = createConfig();
   });
 
   /** Simulate the same handler logic as index.ts messageCreate */
   async function handleMessage(
-    message: { id: string; content: string | null; authorId: string; channelId: string; channel?: any },
+    message: {
+      id: string;
+      content: string | null;
+      authorId: string;
+      channelId: string;
+      channel?: any;
+      server?: { id: string };
+    },
     botUserId: string,
   ): Promise<void> {
     if (message.authorId === botUserId) return;
     if (!message.content) return;
 
-    const parsed = parseCommand(message.content);
+    const settings = await getServerSettings(store, message.server?.id);
+    const parsed = parseCommand(message.content, settings.prefix);
     if (!parsed) return;
 
+    const locale = resolveLocale(await getUserPreferences(store, message.authorId), settings);
+
     await routeCommand({
       message: message as any,
       parsed,
       config,
+      locale,
       messageContextStore,
+      store,
     });
   }
 
@@ -82,6 +100,20 @@ describe('messageCreate handler logic', () => {
     expect(message.channel.sendMessage).toHaveBeenCalled();
   });
 
+  it("routes commands using the server's custom prefix", async () => {
+    await store.put('server-prefs:v1:server-01', JSON.stringify({ prefix: '?' }));
+    const message = createMockMessage({ content: '?ping', server: { id: 'server-01' } });
+    await handleMessage(message, 'bot-01');
+    expect(message.channel.sendMessage).toHaveBeenCalled();
+  });
+
+  it('ignores custom prefixes from other servers', async () => {
+    await store.put('server-prefs:v1:server-01', JSON.stringify({ prefix: '?' }));
+    const message = createMockMessage({ content: '?ping', server: { id: 'server-02' } });
+    await handleMessage(message, 'bot-01');
+    expect(message.channel.sendMessage).not.toHaveBeenCalled();
+  });
+
   it('sends error for unknown commands', async () => {
     const message = createMockMessage({ content: '!xd nonexistent' });
     await handleMessage(message, 'bot-01');
@@ -89,6 +121,21 @@ describe('messageCreate handler logic', () => {
     const call = message.channel.sendMessage.mock.calls[0][0];
     expect(call.content).toContain('Unknown command');
   });
+
+  it("replies in the server's default language", async () => {
+    await store.put('server-prefs:v1:server-01', JSON.stringify({ language: 'fr' }));
+    const message = createMockMessage({ content: '!xd nonexistent', server: { id: 'server-01' } });
+    await handleMessage(message, 'bot-01');
+    expect(message.channel.sendMessage.mock.calls[0][0].content).toContain('Commande inconnue');
+  });
+
+  it("prefers the author's own language over the server default", async () => {
+    await store.put('server-prefs:v1:server-01', JSON.stringify({ language: 'fr' }));
+    const message = createMockMessage({ content: '!xd nonexistent', server: { id: 'server-01' } });
+    await store.put(`prefs:v1:${message.authorId}`, JSON.stringify({ language: 'ja' }));
+    await handleMessage(message, 'bot-01');
+    expect(message.channel.sendMessage.mock.calls[0][0].content).toContain('不明なコマンド');
+  });
 });
 
 describe('shutdown handler', () => {
@@ -7,9 +7,11 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { initializeLocale } from '@xivdyetools/bot-logic';
 import { handleInfoCommand } from './info.js';
 import { createMockMessage } from '../test-utils/revolt-mocks.js';
 import { MessageContextStore } from '../services/message-context.js';
+import { MemoryStore } from '../services/storage/index.js';
 import type { CommandContext } from '../router.js';
 import type { ParsedCommand } from './parser.js';
 import type { BotConfig } from '../config.js';
@@ -43,7 +45,9 @@ function createInfoContext(rawArgs: string[] = []): CommandContext {
     message: message as any,
     parsed,
     config,
+    locale: 'en',
     messageContextStore: new MessageContextStore(),
+    store: new MemoryStore(),
   };
 }
 
@@ -82,6 +86,24 @@ describe('handleInfoCommand', () => {
     expect(lastCall.embeds?.[0] ?? lastCall.content).toBeDefined();
   });
 
+  it("shows the dye's localized name in the reader's language", async () => {
+    await initializeLocale('ja');
+    const ctx = { ...createInfoContext(['Snow', 'White']), locale: 'ja' as const };
+    await handleInfoCommand(ctx);
+
+    const call = (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(call.masquerade.name).toBe('スノウホワイト');
+  });
+
+  it('localizes the missing-dye error', async () => {
+    const ctx = { ...createInfoContext([]), locale: 'fr' as const };
+    await handleInfoCommand(ctx);
+
+    const call = (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(call.content).toContain('Veuillez indiquer un nom de teinture');
+    expect(call.content).toContain('Utilisation: `!xd info <dye name or ItemID>`');
+  });
+
   it('stores message context after successful info', async () => {
     const ctx = createInfoContext(['Snow', 'White']);
     await handleInfoCommand(ctx);
@@ -2,20 +2,20 @@
  * Dye info command — look up a dye's color values.
  * `!xd info <dye>` → shows dye info card with color values.
  *
- * This is the first end-to-end command: resolve dye → build embed → send response.
- * Image rendering (SVG→PNG) is deferred to a future implementation step.
+ * Resolve dye → build embed → render the info card → send response.
+ * The card falls back to a text-only embed when it can't be rendered.
  */
 
 import { executeDyeInfo } from '@xivdyetools/bot-logic';
 import type { Dye } from '@xivdyetools/types';
-import type { LocaleCode } from '@xivdyetools/bot-i18n';
+import { createTranslator, type LocaleCode } from '@xivdyetools/bot-i18n';
 import type { CommandContext } from '../router.js';
 import { parseSingleDyeArgs } from './parser.js';
 import { resolveDyeInputMulti } from '../services/dye-resolver.js';
+import { sendImageReply } from '../services/image-reply.js';
 import {
   formatErrorReply,
-  formatDisambiguationList,
-  formatNoMatchReply,
+  formatResolutionFailure,
   colorToHex,
 } from '../services/response-formatter.js';
 
@@ -24,42 +24,34 @@ import {
  */
 export async function handleInfoCommand(ctx: CommandContext): Promise<void> {
   const { dyeName } = parseSingleDyeArgs(ctx.parsed.rawArgs);
+  const { locale } = ctx;
+  const t = createTranslator(locale);
 
   if (!dyeName) {
     const msg = formatErrorReply(
       ctx.message.id,
-      'Please provide a dye name or ItemID.',
+      t.t('stoat.info.missingDye'),
+      locale,
       '!xd info <dye name or ItemID>',
     );
     await ctx.message.channel?.sendMessage(msg);
     return;
   }
 
-  const locale: LocaleCode = 'en'; // TODO: resolve from user preferences
   const resolution = resolveDyeInputMulti(dyeName, locale);
 
   // Handle resolution result
   switch (resolution.kind) {
-    case 'none': {
-      const msg = formatNoMatchReply(ctx.message.id, resolution.query, resolution.suggestions);
-      await ctx.message.channel?.sendMessage(msg);
-      return;
-    }
-
+    case 'none':
     case 'disambiguation': {
-      const msg = formatDisambiguationList(
-        ctx.message.id,
-        resolution.query,
-        resolution.dyes.map((d) => ({ name: d.name ?? '', itemID: d.itemID ?? null })),
-        resolution.total,
-      );
+      const msg = formatResolutionFailure(ctx.message.id, resolution, locale);
       await ctx.message.channel?.sendMessage(msg);
       return;
     }
 
     case 'single': {
       if (!resolution.dye.dye) {
-        const msg = formatErrorReply(ctx.message.id, 'Could not resolve to a specific dye.');
+        const msg = formatErrorReply(ctx.message.id, t.t('stoat.info.unresolved'), ctx.locale);
         await ctx.message.channel?.sendMessage(msg);
         return;
       }
@@ -90,12 +82,11 @@ async function sendDyeInfoResponse(
   const result = await executeDyeInfo({ dye, locale });
 
   if (!result.ok) {
-    const msg = formatErrorReply(ctx.message.id, result.errorMessage);
+    const msg = formatErrorReply(ctx.message.id, result.errorMessage, ctx.locale);
     await ctx.message.channel?.sendMessage(msg);
     return;
   }
 
-  // For now, send text-based response (SVG→PNG rendering is a future step)
   const embed = {
     title: result.embed.title,
     description: result.embed.description,
@@ -106,14 +97,21 @@ async function sendDyeInfoResponse(
   // reaction listener is registered yet, so they were dead affordances
   // inviting clicks that did nothing. Re-add `interactions.reactions` (with
   // DYE_INFO_REACTIONS) together with a `messageReactionAdd` handler.
-  const sent = await ctx.message.channel?.sendMessage({
-    embeds: [embed],
-    replies: [{ id: ctx.message.id, mention: false }],
-    masquerade: {
-      name: result.dye.name,
-      colour: result.dye.hex,
+  const sent = await sendImageReply(
+    ctx,
+    {
+      embeds: [embed],
+      replies: [{ id: ctx.message.id, mention: false }],
+      masquerade: {
+        name: result.localizedName,
+        colour: result.dye.hex,
+      },
+    },
+    {
+      svgString: result.svgString,
+      filename: `dye-${result.dye.name.toLowerCase().replace(/\s+/g, '-')}.png`,
     },
-  });
+  );
 
   // Track message context for future reaction handling.
   // BUG-038: keyed by the BOT REPLY's message ID — reactions live on the
@@ -121,7 +119,7 @@ async function sendDyeInfoResponse(
   // by the user's message ID (a key no handler would ever look up) and
   // overwrote the same entry for every dye in the multi-match loop.
   if (sent) {
-    ctx.messageContextStore.set(sent.id, {
+    await ctx.messageContextStore.set(sent.id, {
       command: 'dye-info',
       dyeId: result.dye.id,
       dyeHex: result.dye.hex,
@@ -0,0 +1,76 @@
+/**
+ * Tests for commands/match.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleMatchCommand } from './match.js';
+import { createMockMessage } from '../test-utils/revolt-mocks.js';
+import { MessageContextStore } from '../services/message-context.js';
+import { MemoryStore } from '../services/storage/index.js';
+import type { CommandContext } from '../router.js';
+import type { ParsedCommand } from './parser.js';
+import type { BotConfig } from '../config.js';
+
+function createMatchContext(rawArgs: string[] = []): CommandContext {
+  const config: BotConfig = {
+    botToken: 'test-token',
+    authorizedUsers: [],
+  };
+  const parsed: ParsedCommand = {
+    prefix: '!xd',
+    command: 'match',
+    subcommand: null,
+    rawArgs,
+  };
+  const message = createMockMessage({ content: `!xd match ${rawArgs.join(' ')}`.trim() });
+  return {
+    message: message as any,
+    parsed,
+    config,
+    locale: 'en',
+    messageContextStore: new MessageContextStore(),
+    store: new MemoryStore(),
+  };
+}
+
+function sentMessage(ctx: CommandContext): any {
+  return (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+}
+
+describe('handleMatchCommand', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sends usage when no color is provided', async () => {
+    const ctx = createMatchContext([]);
+    await handleMatchCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('Usage: `!xd match');
+  });
+
+  it('flattens the single-match fields into the description', async () => {
+    const ctx = createMatchContext(['#FF5733']);
+    await handleMatchCommand(ctx);
+
+    const embed = sentMessage(ctx).embeds[0];
+    expect(embed.description).toContain('#FF5733');
+    expect(embed.description).toMatch(/^\*\*.+\*\*\n/);
+  });
+
+  it('lists several matches when a count is given', async () => {
+    const ctx = createMatchContext(['coral', '3']);
+    await handleMatchCommand(ctx);
+
+    const embed = sentMessage(ctx).embeds[0];
+    expect(embed.description).toContain('**3.**');
+    expect(embed.description).not.toContain('**4.**');
+  });
+
+  it('reports colors that cannot be resolved', async () => {
+    const ctx = createMatchContext(['xyzzyplugh12345']);
+    await handleMatchCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('Could not resolve color');
+  });
+});
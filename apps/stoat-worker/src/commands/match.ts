@@ -0,0 +1,51 @@
+/**
+ * Match command — find the dyes closest to any color.
+ * `!xd match <color> [count]` → closest dye(s) to a hex code, dye or CSS color.
+ */
+
+import { executeMatch } from '@xivdyetools/bot-logic';
+import { createTranslator } from '@xivdyetools/bot-i18n';
+import type { CommandContext } from '../router.js';
+import { parseSingleDyeArgs } from './parser.js';
+import { formatErrorReply, formatEmbedReply } from '../services/response-formatter.js';
+
+const USAGE = '!xd match <color> [count]';
+
+/** Result count bounds, matching the Discord command */
+const MAX_COUNT = 10;
+
+/**
+ * Handle the `!xd match <color> [count]` command.
+ */
+export async function handleMatchCommand(ctx: CommandContext): Promise<void> {
+  const { dyeName: colorInput, trailingArgs } = parseSingleDyeArgs(ctx.parsed.rawArgs);
+
+  if (!colorInput) {
+    const msg = formatErrorReply(
+      ctx.message.id,
+      createTranslator(ctx.locale).t('stoat.match.missingColor'),
+      ctx.locale,
+      USAGE,
+    );
+    await ctx.message.channel?.sendMessage(msg);
+    return;
+  }
+
+  const count = trailingArgs.find((arg) => /^\d+$/.test(arg));
+
+  const { locale } = ctx;
+  const result = await executeMatch({
+    colorInput,
+    count: count ? Math.min(Math.max(parseInt(count, 10), 1), MAX_COUNT) : 1,
+    locale,
+  });
+
+  if (!result.ok) {
+    await ctx.message.channel?.sendMessage(
+      formatErrorReply(ctx.message.id, result.errorMessage, ctx.locale),
+    );
+    return;
+  }
+
+  await ctx.message.channel?.sendMessage(formatEmbedReply(ctx.message.id, result.embed));
+}
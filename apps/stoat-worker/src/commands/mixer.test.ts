@@ -0,0 +1,92 @@
+/**
+ * Tests for commands/mixer.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handleMixerCommand } from './mixer.js';
+import { createMockMessage } from '../test-utils/revolt-mocks.js';
+import { MessageContextStore } from '../services/message-context.js';
+import { MemoryStore } from '../services/storage/index.js';
+import type { CommandContext } from '../router.js';
+import type { ParsedCommand } from './parser.js';
+import type { BotConfig } from '../config.js';
+
+function createMixerContext(rawArgs: string[] = []): CommandContext {
+  const config: BotConfig = {
+    botToken: 'test-token',
+    authorizedUsers: [],
+  };
+  const parsed: ParsedCommand = {
+    prefix: '!xd',
+    command: 'mixer',
+    subcommand: null,
+    rawArgs,
+  };
+  const message = createMockMessage({ content: `!xd mixer ${rawArgs.join(' ')}`.trim() });
+  return {
+    message: message as any,
+    parsed,
+    config,
+    locale: 'en',
+    messageContextStore: new MessageContextStore(),
+    store: new MemoryStore(),
+  };
+}
+
+function sentMessage(ctx: CommandContext): any {
+  return (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+}
+
+describe('handleMixerCommand', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sends usage when only one color is provided', async () => {
+    const ctx = createMixerContext(['Snow', 'White']);
+    await handleMixerCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('Usage: `!xd mixer');
+  });
+
+  it('blends in RGB and lists 5 matches by default', async () => {
+    const ctx = createMixerContext(['Snow', 'White', '>', 'Soot', 'Black']);
+    await handleMixerCommand(ctx);
+
+    const embed = sentMessage(ctx).embeds[0];
+    expect(embed.description).toContain('RGB');
+    expect(embed.description).toContain('**5.**');
+  });
+
+  it('reads the blending mode and count from trailing args', async () => {
+    const ctx = createMixerContext(['Snow', 'White', '>', 'Soot', 'Black', 'spectral', '2']);
+    await handleMixerCommand(ctx);
+
+    const embed = sentMessage(ctx).embeds[0];
+    expect(embed.description).toMatch(/spectral/i);
+    expect(embed.description).toContain('**2.**');
+    expect(embed.description).not.toContain('**3.**');
+  });
+
+  it('uses the blending mode and count from user preferences', async () => {
+    const ctx = createMixerContext(['Snow', 'White', '>', 'Soot', 'Black']);
+    await ctx.store.put('prefs:v1:user-01', JSON.stringify({ blending: 'spectral', count: 3 }));
+    await handleMixerCommand(ctx);
+
+    const embed = sentMessage(ctx).embeds[0];
+    expect(embed.description).toMatch(/spectral/i);
+    expect(embed.description).toContain('**3.**');
+    expect(embed.description).not.toContain('**4.**');
+  });
+
+  it('lets trailing args override user preferences', async () => {
+    const ctx = createMixerContext(['Snow', 'White', '>', 'Soot', 'Black', 'rgb', '2']);
+    await ctx.store.put('prefs:v1:user-01', JSON.stringify({ blending: 'spectral', count: 8 }));
+    await handleMixerCommand(ctx);
+
+    const embed = sentMessage(ctx).embeds[0];
+    expect(embed.description).not.toMatch(/spectral/i);
+    expect(embed.description).toContain('**2.**');
+    expect(embed.description).not.toContain('**3.**');
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Mixer command — blend two colors and find the closest dyes to the result.
+ * `!xd mixer <dye> > <dye> [mode] [count]` → blended color + matching dyes.
+ *
+ * Runs the shared bot-logic `mixerCommand`; both colors are resolved here
+ * first so ambiguous names get Stoat's disambiguation list. Blending mode,
+ * count and matching method fall back to the user's preferences.
+ */
+
+import { mixerCommand, resolveOptions } from '@xivdyetools/bot-logic';
+import { createTranslator } from '@xivdyetools/bot-i18n';
+import type { CommandContext } from '../router.js';
+import { assignTrailingArgs, parseMultiDyeArgs } from './parser.js';
+import { resolveColorArgs } from '../services/dye-resolver.js';
+import { getUserPreferences } from '../services/preferences.js';
+import { sendCommandOutput } from '../services/command-output.js';
+import { formatErrorReply, formatResolutionFailure } from '../services/response-formatter.js';
+
+const USAGE = '!xd mixer <dye> > <dye> [mode] [count]';
+
+/**
+ * Handle the `!xd mixer <dye> > <dye> [mode] [count]` command.
+ */
+export async function handleMixerCommand(ctx: CommandContext): Promise<void> {
+  const { dyeSegments, trailingArgs } = parseMultiDyeArgs(ctx.parsed.rawArgs);
+
+  if (dyeSegments.length !== 2) {
+    await sendUsageError(ctx);
+    return;
+  }
+
+  const { locale } = ctx;
+  const resolved = resolveColorArgs(dyeSegments, locale);
+  if (!resolved.ok) {
+    await ctx.message.channel?.sendMessage(
+      formatResolutionFailure(ctx.message.id, resolved.failure, ctx.locale),
+    );
+    return;
+  }
+
+  const [dye1, dye2] = resolved.colors;
+  const prefs = await getUserPreferences(ctx.store, ctx.message.authorId);
+  const options = resolveOptions(
+    mixerCommand,
+    { ...assignTrailingArgs(mixerCommand.options, trailingArgs), dye1, dye2 },
+    { preferences: prefs },
+  );
+  // Only fails if the shared option list stops accepting resolved colors
+  if (!options.ok) {
+    await sendUsageError(ctx);
+    return;
+  }
+
+  const result = await mixerCommand.run(options.values, { locale });
+  if (!result.ok) {
+    await ctx.message.channel?.sendMessage(
+      formatErrorReply(ctx.message.id, result.errorMessage, ctx.locale),
+    );
+    return;
+  }
+
+  await sendCommandOutput(ctx, result.output);
+}
+
+/**
+ * Reply with the missing colors message and usage.
+ */
+async function sendUsageError(ctx: CommandContext): Promise<void> {
+  const msg = formatErrorReply(
+    ctx.message.id,
+    createTranslator(ctx.locale).t('stoat.mixer.missingColors'),
+    ctx.locale,
+    USAGE,
+  );
+  await ctx.message.channel?.sendMessage(msg);
+}
@@ -6,7 +6,13 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { parseCommand, parseSingleDyeArgs, parseMultiDyeArgs } from './parser.js';
+import {
+  assignTrailingArgs,
+  parseCommand,
+  parseSingleDyeArgs,
+  parseMultiDyeArgs,
+} from './parser.js';
+import type { CommandOption } from '@xivdyetools/bot-logic';
 
 // ════════════════════════════════════════════════════════════════════════
 // parseCommand
@@ -51,6 +57,45 @@ describe('parseCommand', () => {
       expect(result!.subcommand).toBeNull();
       expect(result!.rawArgs).toEqual([]);
     });
+
+    it('recognizes a custom server prefix', () => {
+      const result = parseCommand('?Harmony Pure White', '?');
+      expect(result).not.toBeNull();
+      expect(result!.prefix).toBe('?');
+      expect(result!.command).toBe('harmony');
+    });
+
+    it('keeps the built-in prefixes alongside a custom prefix', () => {
+      expect(parseCommand('!xd ping', '?')!.prefix).toBe('!xd');
+      expect(parseCommand('!xivdye ping', '?')!.prefix).toBe('!xivdye');
+    });
+
+    it('requires whitespace after a word-like custom prefix', () => {
+      expect(parseCommand('!dyeping', '!dye')).toBeNull();
+      expect(parseCommand('!dye ping', '!dye')!.command).toBe('ping');
+    });
+
+    it('ignores a lone custom prefix', () => {
+      expect(parseCommand('?', '?')).toBeNull();
+      expect(parseCommand('!xd', '!xd')!.command).toBe('help');
+    });
+
+    it('matches a custom prefix case-insensitively', () => {
+      expect(parseCommand('!DYE ping', '!dye')!.command).toBe('ping');
+    });
+
+    it('routes prefs and prefix subcommands', () => {
+      expect(parseCommand('!xd prefs set language ja')).toMatchObject({
+        command: 'prefs',
+        subcommand: 'set',
+        rawArgs: ['language', 'ja'],
+      });
+      expect(parseCommand('!xd prefix set ?')).toMatchObject({
+        command: 'prefix',
+        subcommand: 'set',
+        rawArgs: ['?'],
+      });
+    });
   });
 
   // ── Short aliases ──────────────────────────────────────────────────
@@ -204,6 +249,17 @@ describe('parseSingleDyeArgs', () => {
     expect(result).toEqual({ dyeName: 'Sunset Orange', trailingArgs: ['5', 'oklch'] });
   });
 
+  it('splits HSV color spaces and vision types', () => {
+    expect(parseSingleDyeArgs(['Jet', 'Black', 'square', 'hsv'])).toEqual({
+      dyeName: 'Jet Black',
+      trailingArgs: ['square', 'hsv'],
+    });
+    expect(parseSingleDyeArgs(['Dalamud', 'Red', 'deuteranopia'])).toEqual({
+      dyeName: 'Dalamud Red',
+      trailingArgs: ['deuteranopia'],
+    });
+  });
+
   it('treats a single word as the dye name', () => {
     const result = parseSingleDyeArgs(['turquoise']);
     expect(result).toEqual({ dyeName: 'turquoise', trailingArgs: [] });
@@ -271,3 +327,51 @@ describe('parseMultiDyeArgs', () => {
     });
   });
 });
+
+// ════════════════════════════════════════════════════════════════════════
+// assignTrailingArgs
+// ════════════════════════════════════════════════════════════════════════
+
+describe('assignTrailingArgs', () => {
+  const options: CommandOption[] = [
+    { name: 'color', description: 'Color', type: 'color', required: true },
+    {
+      name: 'type',
+      description: 'Type',
+      type: 'string',
+      choices: [
+        { name: 'Triadic', value: 'triadic' },
+        { name: 'Complementary', value: 'complementary' },
+      ],
+    },
+    {
+      name: 'matching',
+      description: 'Matching',
+      type: 'string',
+      choices: [
+        { name: 'OKLab', value: 'oklab' },
+        { name: 'RGB', value: 'rgb' },
+      ],
+    },
+    { name: 'count', description: 'Count', type: 'integer', min: 1, max: 10 },
+  ];
+
+  it('assigns words to the option whose choices include them', () => {
+    expect(assignTrailingArgs(options, ['RGB', 'complementary'])).toEqual({
+      type: 'complementary',
+      matching: 'rgb',
+    });
+  });
+
+  it('clamps whole numbers to the integer option range', () => {
+    expect(assignTrailingArgs(options, ['25'])).toEqual({ count: 10 });
+    expect(assignTrailingArgs(options, ['0'])).toEqual({ count: 1 });
+  });
+
+  it('keeps the first value for each option and ignores unknown words', () => {
+    expect(assignTrailingArgs(options, ['triadic', 'complementary', 'foo', '3', '4'])).toEqual({
+      type: 'triadic',
+      count: 3,
+    });
+  });
+});
@@ -2,12 +2,14 @@
  * Command parser for prefix-based Stoat bot commands.
  *
  * Handles:
- * - Dual prefix: `!xivdye` and `!xd`
+ * - Dual prefix: `!xivdye` and `!xd`, plus an optional per-server custom prefix
  * - Subcommand routing
  * - Greedy dye name matching
  * - `>` separator for multi-dye commands
  */
 
+import type { CommandOption } from '@xivdyetools/bot-logic';
+
 /** Recognized prefixes (case-insensitive) */
 const PREFIXES = ['!xivdye', '!xd'] as const;
 
@@ -45,6 +47,8 @@ const COMMANDS_WITH_SUBCOMMANDS = new Set([
   'stats',
   'admin',
   'prefs',
+  'prefix',
+  'server',
   'preset',
   'budget',
   'swatch',
@@ -64,18 +68,26 @@ const SHORT_ALIASES: Record<string, { command: string; subcommand: string | null
 /**
  * Parse a raw message content string into a structured command.
  * Returns null if the message doesn't match a known prefix.
+ *
+ * @param customPrefix - The server's custom prefix, accepted alongside the
+ *   built-in ones (which always work, so a server can't lock itself out)
  */
-export function parseCommand(content: string): ParsedCommand | null {
+export function parseCommand(content: string, customPrefix?: string): ParsedCommand | null {
   const trimmed = content.trim();
   const lower = trimmed.toLowerCase();
 
+  const custom = customPrefix?.toLowerCase();
+  const prefixes = custom ? [custom, ...PREFIXES] : PREFIXES;
+
   // Find matching prefix
   let matchedPrefix: string | null = null;
-  for (const prefix of PREFIXES) {
+  for (const prefix of prefixes) {
     if (lower.startsWith(prefix)) {
-      // Must be followed by whitespace or end of string
       const afterPrefix = trimmed[prefix.length];
-      if (afterPrefix === undefined || afterPrefix === ' ') {
+      // Word-like prefixes must be followed by whitespace or end of string;
+      // a symbol custom prefix can be followed directly by the command (`?ping`)
+      const isSymbolPrefix = prefix === custom && !/[a-z0-9]$/.test(prefix);
+      if (afterPrefix === undefined || afterPrefix === ' ' || isSymbolPrefix) {
         matchedPrefix = prefix;
         break;
       }
@@ -87,6 +99,10 @@ export function parseCommand(content: string): ParsedCommand | null {
   // Extract everything after the prefix
   const rest = trimmed.slice(matchedPrefix.length).trim();
   if (rest.length === 0) {
+    // A lone custom prefix (e.g. someone just typing `?`) isn't a command
+    if (matchedPrefix === custom && !(PREFIXES as readonly string[]).includes(custom)) {
+      return null;
+    }
     // Just the prefix, no command — treat as help
     return { prefix: matchedPrefix, command: 'help', subcommand: null, rawArgs: [] };
   }
@@ -203,6 +219,7 @@ const OPTION_VALUES = new Set([
   'hsl',
   'spectral',
   // Color spaces
+  'hsv',
   'oklch',
   'lch',
   // Harmony types
@@ -213,6 +230,11 @@ const OPTION_VALUES = new Set([
   'tetradic',
   'square',
   'monochromatic',
+  // Vision types
+  'protanopia',
+  'deuteranopia',
+  'tritanopia',
+  'achromatopsia',
 ]);
 
 /**
@@ -258,3 +280,34 @@ export function parseSingleDyeArgs(tokens: string[]): {
     trailingArgs: trailing,
   };
 }
+
+/**
+ * Assign trailing args (`triadic`, `oklch`, `3`) to a shared command's
+ * options, for `resolveOptions`. Each word fills the first unfilled option
+ * whose choices include it; whole numbers fill the first integer option,
+ * clamped to its range. Words no option accepts are ignored.
+ */
+export function assignTrailingArgs(
+  options: readonly CommandOption[],
+  trailingArgs: string[],
+): Record<string, string | number> {
+  const values: Record<string, string | number> = {};
+
+  for (const arg of trailingArgs.map((a) => a.toLowerCase())) {
+    const option = options.find((opt) => {
+      if (opt.name in values) return false;
+      if (/^\d+$/.test(arg)) return opt.type === 'integer';
+      return opt.type === 'string' && opt.choices?.some((choice) => choice.value === arg);
+    });
+    if (!option) continue;
+
+    if (option.type === 'integer') {
+      const value = parseInt(arg, 10);
+      values[option.name] = Math.min(Math.max(value, option.min ?? value), option.max ?? value);
+    } else {
+      values[option.name] = arg;
+    }
+  }
+
+  return values;
+}
@@ -0,0 +1,150 @@
+/**
+ * Tests for commands/prefix.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  handlePrefixShowCommand,
+  handlePrefixSetCommand,
+  handlePrefixResetCommand,
+} from './prefix.js';
+import { createMockMember, createMockMessage } from '../test-utils/revolt-mocks.js';
+import { MessageContextStore } from '../services/message-context.js';
+import { MemoryStore } from '../services/storage/index.js';
+import { clearServerSettingsCache, getServerSettings } from '../services/server-settings.js';
+import type { CommandContext } from '../router.js';
+import type { ParsedCommand } from './parser.js';
+import type { BotConfig } from '../config.js';
+
+function createPrefixContext(
+  subcommand: string | null,
+  rawArgs: string[] = [],
+  options: { inServer?: boolean; canManage?: boolean; authorizedUsers?: string[] } = {},
+): CommandContext {
+  const { inServer = true, canManage = true, authorizedUsers = [] } = options;
+  const config: BotConfig = {
+    botToken: 'test-token',
+    authorizedUsers,
+  };
+  const parsed: ParsedCommand = {
+    prefix: '!xd',
+    command: 'prefix',
+    subcommand,
+    rawArgs,
+  };
+  const message = createMockMessage({
+    content: `!xd prefix ${rawArgs.join(' ')}`.trim(),
+    ...(inServer && { server: { id: 'server-01' }, member: createMockMember(canManage) }),
+  });
+  return {
+    message: message as any,
+    parsed,
+    config,
+    locale: 'en',
+    messageContextStore: new MessageContextStore(),
+    store: new MemoryStore(),
+  };
+}
+
+function sentMessage(ctx: CommandContext): any {
+  return (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+}
+
+describe('prefix commands', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearServerSettingsCache();
+  });
+
+  describe('handlePrefixShowCommand', () => {
+    it('shows the built-in prefixes when no custom prefix is set', async () => {
+      const ctx = createPrefixContext(null);
+      await handlePrefixShowCommand(ctx);
+
+      const embed = sentMessage(ctx).embeds[0];
+      expect(embed.description).toContain('`!xivdye`, `!xd`');
+      expect(embed.description).toContain('*Not set*');
+    });
+
+    it('shows the custom prefix', async () => {
+      const ctx = createPrefixContext('show');
+      await ctx.store.put('server-prefs:v1:server-01', JSON.stringify({ prefix: '?' }));
+      await handlePrefixShowCommand(ctx);
+
+      expect(sentMessage(ctx).embeds[0].description).toContain('**Custom:** `?`');
+    });
+  });
+
+  describe('handlePrefixSetCommand', () => {
+    it('saves a valid prefix for the server', async () => {
+      const ctx = createPrefixContext('set', ['?']);
+      await handlePrefixSetCommand(ctx);
+
+      expect(sentMessage(ctx).embeds[0].title).toBe('Prefix Updated');
+      expect(await getServerSettings(ctx.store, 'server-01')).toMatchObject({
+        prefix: '?',
+        updatedBy: 'user-01',
+      });
+      expect(ctx.message.member?.hasPermission).toHaveBeenCalledWith(
+        ctx.message.server,
+        'ManageServer',
+      );
+    });
+
+    it.each([[[]], [['<@bot>']], [['waytoolong']], [['two', 'words']]])(
+      'rejects invalid prefix %j',
+      async (rawArgs) => {
+        const ctx = createPrefixContext('set', rawArgs);
+        await handlePrefixSetCommand(ctx);
+
+        expect(sentMessage(ctx).content).toContain('A prefix must be 1-8 characters');
+        expect(await getServerSettings(ctx.store, 'server-01')).toEqual({});
+      },
+    );
+
+    it('requires the Manage Server permission', async () => {
+      const ctx = createPrefixContext('set', ['?'], { canManage: false });
+      await handlePrefixSetCommand(ctx);
+
+      expect(sentMessage(ctx).content).toContain('Manage Server');
+      expect(await getServerSettings(ctx.store, 'server-01')).toEqual({});
+    });
+
+    it('allows bot admins without the permission', async () => {
+      const ctx = createPrefixContext('set', ['?'], {
+        canManage: false,
+        authorizedUsers: ['user-01'],
+      });
+      await handlePrefixSetCommand(ctx);
+
+      expect((await getServerSettings(ctx.store, 'server-01')).prefix).toBe('?');
+    });
+
+    it('only works in servers', async () => {
+      const ctx = createPrefixContext('set', ['?'], { inServer: false });
+      await handlePrefixSetCommand(ctx);
+
+      expect(sentMessage(ctx).content).toContain('only be set in a server');
+    });
+  });
+
+  describe('handlePrefixResetCommand', () => {
+    it('removes the custom prefix', async () => {
+      const ctx = createPrefixContext('reset');
+      await ctx.store.put('server-prefs:v1:server-01', JSON.stringify({ prefix: '?' }));
+      await handlePrefixResetCommand(ctx);
+
+      expect(sentMessage(ctx).embeds[0].title).toBe('Prefix Reset');
+      expect(await getServerSettings(ctx.store, 'server-01')).toEqual({});
+    });
+
+    it('requires the Manage Server permission', async () => {
+      const ctx = createPrefixContext('reset', [], { canManage: false });
+      await ctx.store.put('server-prefs:v1:server-01', JSON.stringify({ prefix: '?' }));
+      await handlePrefixResetCommand(ctx);
+
+      expect(sentMessage(ctx).content).toContain('Manage Server');
+      expect((await getServerSettings(ctx.store, 'server-01')).prefix).toBe('?');
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Prefix commands — a per-server custom command prefix.
+ * `!xd prefix` / `!xd prefix show` → current prefixes
+ * `!xd prefix set <prefix>` → accept a custom prefix in this server
+ * `!xd prefix reset` → remove the custom prefix
+ *
+ * The built-in `!xivdye` and `!xd` prefixes always keep working, so a
+ * server can't lock itself out of the bot with a bad prefix.
+ */
+
+import { createTranslator, type Translator } from '@xivdyetools/bot-i18n';
+import type { CommandContext } from '../router.js';
+import {
+  getServerSettings,
+  resetServerSetting,
+  updateServerSettings,
+} from '../services/server-settings.js';
+import { requireManager, type ManagerCheckMessages } from '../services/server-permissions.js';
+import { formatErrorReply, type StoatEmbed } from '../services/response-formatter.js';
+import { MAX_PREFIX_LENGTH, isValidPrefix } from '../types/server-settings.js';
+
+const SET_USAGE = '!xd prefix set <prefix>';
+
+/** Embed colour for prefix replies */
+const PREFIX_COLOR = '#5865f2';
+
+/**
+ * Handle the `!xd prefix [show]` command.
+ */
+export async function handlePrefixShowCommand(ctx: CommandContext): Promise<void> {
+  const t = createTranslator(ctx.locale);
+  const settings = await getServerSettings(ctx.store, ctx.message.server?.id);
+
+  const lines = [`**${t.t('stoat.prefix.builtIn')}:** \`!xivdye\`, \`!xd\``];
+  lines.push(
+    settings.prefix
+      ? `**${t.t('stoat.prefix.custom')}:** \`${settings.prefix}\``
+      : `**${t.t('stoat.prefix.custom')}:** *${t.t('serverSettings.show.notSet')}*`,
+  );
+
+  await sendEmbed(ctx, {
+    title: t.t('stoat.prefix.title'),
+    description:
+      `${lines.join('\n')}\n\n*` +
+      (ctx.message.server
+        ? t.t('stoat.prefix.setHint', { usage: SET_USAGE, example: '!xd prefix set ?' })
+        : t.t('stoat.prefix.serverOnly')) +
+      '*',
+    colour: PREFIX_COLOR,
+  });
+}
+
+/**
+ * Handle the `!xd prefix set <prefix>` command.
+ */
+export async function handlePrefixSetCommand(ctx: CommandContext): Promise<void> {
+  const t = createTranslator(ctx.locale);
+  const manager = await requireManager(ctx, managerMessages(t));
+  if (!manager) return;
+
+  const [prefix] = ctx.parsed.rawArgs;
+  if (!prefix || ctx.parsed.rawArgs.length > 1 || !isValidPrefix(prefix)) {
+    const msg = formatErrorReply(
+      ctx.message.id,
+      t.t('stoat.prefix.invalid', { max: MAX_PREFIX_LENGTH }),
+      ctx.locale,
+      SET_USAGE,
+    );
+    await ctx.message.channel?.sendMessage(msg);
+    return;
+  }
+
+  const settings = await updateServerSettings(
+    ctx.store,
+    manager.serverId,
+    { prefix },
+    manager.userId,
+  );
+  if (!settings) {
+    await ctx.message.channel?.sendMessage(
+      formatErrorReply(ctx.message.id, t.t('serverSettings.errors.saveFailed'), ctx.locale),
+    );
+    return;
+  }
+
+  await sendEmbed(ctx, {
+    title: t.t('stoat.prefix.updatedTitle'),
+    description: `${t.t('stoat.prefix.updated', { prefix, example: prefixExample(prefix) })}\n\n*${t.t('stoat.prefix.builtInsKeepWorking')}*`,
+    colour: PREFIX_COLOR,
+  });
+}
+
+/**
+ * Handle the `!xd prefix reset` command.
+ */
+export async function handlePrefixResetCommand(ctx: CommandContext): Promise<void> {
+  const t = createTranslator(ctx.locale);
+  const manager = await requireManager(ctx, managerMessages(t));
+  if (!manager) return;
+
+  const ok = await resetServerSetting(ctx.store, manager.serverId, manager.userId, 'prefix');
+  if (!ok) {
+    await ctx.message.channel?.sendMessage(
+      formatErrorReply(ctx.message.id, t.t('serverSettings.errors.saveFailed'), ctx.locale),
+    );
+    return;
+  }
+
+  await sendEmbed(ctx, {
+    title: t.t('stoat.prefix.resetTitle'),
+    description: t.t('stoat.prefix.reset'),
+    colour: PREFIX_COLOR,
+  });
+}
+
+/**
+ * How to call `help` with a prefix: symbol prefixes are typed directly
+ * before the command (`?help`), word prefixes take a space (`dye help`).
+ */
+function prefixExample(prefix: string): string {
+  return /[a-z0-9]$/i.test(prefix) ? `${prefix} help` : `${prefix}help`;
+}
+
+function managerMessages(t: Translator): ManagerCheckMessages {
+  return {
+    serverOnly: t.t('stoat.prefix.serverOnly'),
+    noPermission: t.t('stoat.prefix.noPermission'),
+  };
+}
+
+/**
+ * Send a single embed as a reply to the command message.
+ */
+async function sendEmbed(ctx: CommandContext, embed: StoatEmbed): Promise<void> {
+  await ctx.message.channel?.sendMessage({
+    embeds: [embed],
+    replies: [{ id: ctx.message.id, mention: false }],
+  });
+}
@@ -0,0 +1,179 @@
+/**
+ * Tests for commands/prefs.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { handlePrefsShowCommand, handlePrefsSetCommand, handlePrefsResetCommand } from './prefs.js';
+import { createMockMessage } from '../test-utils/revolt-mocks.js';
+import { MessageContextStore } from '../services/message-context.js';
+import { MemoryStore } from '../services/storage/index.js';
+import { getUserPreferences } from '../services/preferences.js';
+import type { CommandContext } from '../router.js';
+import type { ParsedCommand } from './parser.js';
+import type { BotConfig } from '../config.js';
+
+const mockUniversalis = vi.hoisted(() => ({
+  resolveWorld: vi.fn(),
+}));
+vi.mock('../services/universalis-client.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/universalis-client.js')>()),
+  ...mockUniversalis,
+}));
+
+function createPrefsContext(subcommand: string | null, rawArgs: string[] = []): CommandContext {
+  const config: BotConfig = {
+    botToken: 'test-token',
+    authorizedUsers: [],
+  };
+  const parsed: ParsedCommand = {
+    prefix: '!xd',
+    command: 'prefs',
+    subcommand,
+    rawArgs,
+  };
+  const message = createMockMessage({ content: `!xd prefs ${rawArgs.join(' ')}`.trim() });
+  return {
+    message: message as any,
+    parsed,
+    config,
+    locale: 'en',
+    messageContextStore: new MessageContextStore(),
+    store: new MemoryStore(),
+  };
+}
+
+function sentMessage(ctx: CommandContext): any {
+  return (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+}
+
+describe('handlePrefsShowCommand', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows defaults when nothing is set', async () => {
+    const ctx = createPrefsContext(null);
+    await handlePrefsShowCommand(ctx);
+
+    const embed = sentMessage(ctx).embeds[0];
+    expect(embed.title).toBe('Current Preferences');
+    expect(embed.description).toContain('**Blending Mode:** *Default (`rgb`)*');
+    expect(embed.description).toContain('**Market World:** *Not set*');
+  });
+
+  it('shows stored preferences', async () => {
+    const ctx = createPrefsContext('show');
+    await ctx.store.put('prefs:v1:user-01', JSON.stringify({ language: 'ja', count: 8 }));
+    await handlePrefsShowCommand(ctx);
+
+    const embed = sentMessage(ctx).embeds[0];
+    expect(embed.description).toContain('**Language:** `ja`');
+    expect(embed.description).toContain('**Result Count:** `8`');
+  });
+});
+
+describe('handlePrefsSetCommand', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUniversalis.resolveWorld.mockImplementation((_url: string, input: string) =>
+      Promise.resolve(input.toLowerCase() === 'cactuar' ? 'Cactuar' : null),
+    );
+  });
+
+  it('sends usage without a value', async () => {
+    const ctx = createPrefsContext('set', ['language']);
+    await handlePrefsSetCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('Usage: `!xd prefs set <key> <value>`');
+  });
+
+  it('rejects unknown keys', async () => {
+    const ctx = createPrefsContext('set', ['theme', 'dark']);
+    await handlePrefsSetCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('Unknown preference key: theme');
+  });
+
+  it('stores a valid preference', async () => {
+    const ctx = createPrefsContext('set', ['Blending', 'OKLAB']);
+    await handlePrefsSetCommand(ctx);
+
+    expect(sentMessage(ctx).embeds[0].description).toContain(
+      '**Blending Mode** has been set to **oklab**.',
+    );
+    expect((await getUserPreferences(ctx.store, 'user-01')).blending).toBe('oklab');
+  });
+
+  it('confirms a language change in the new language', async () => {
+    const ctx = createPrefsContext('set', ['language', 'de']);
+    await handlePrefsSetCommand(ctx);
+
+    expect(sentMessage(ctx).embeds[0].title).toBe('Einstellung aktualisiert');
+    expect((await getUserPreferences(ctx.store, 'user-01')).language).toBe('de');
+  });
+
+  it('lists valid options for an invalid blending mode', async () => {
+    const ctx = createPrefsContext('set', ['blending', 'paint']);
+    await handlePrefsSetCommand(ctx);
+
+    const content = sentMessage(ctx).content;
+    expect(content).toContain('Invalid blending mode');
+    expect(content).toContain('`spectral`');
+    expect(await getUserPreferences(ctx.store, 'user-01')).toEqual({});
+  });
+
+  it('stores the canonical world name', async () => {
+    const ctx = createPrefsContext('set', ['world', 'cactuar']);
+    await handlePrefsSetCommand(ctx);
+
+    expect((await getUserPreferences(ctx.store, 'user-01')).world).toBe('Cactuar');
+  });
+
+  it('rejects unknown worlds', async () => {
+    const ctx = createPrefsContext('set', ['world', 'Atlantis']);
+    await handlePrefsSetCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('Invalid world');
+    expect(await getUserPreferences(ctx.store, 'user-01')).toEqual({});
+  });
+
+  it('keeps the world as typed when Universalis is unavailable', async () => {
+    mockUniversalis.resolveWorld.mockRejectedValue(new Error('timeout'));
+    const ctx = createPrefsContext('set', ['world', 'Balmung']);
+    await handlePrefsSetCommand(ctx);
+
+    expect((await getUserPreferences(ctx.store, 'user-01')).world).toBe('Balmung');
+  });
+});
+
+describe('handlePrefsResetCommand', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('resets a single preference', async () => {
+    const ctx = createPrefsContext('reset', ['language']);
+    await ctx.store.put('prefs:v1:user-01', JSON.stringify({ language: 'ja', count: 8 }));
+    await handlePrefsResetCommand(ctx);
+
+    expect(sentMessage(ctx).embeds[0].title).toBe('Preference Reset');
+    expect(await getUserPreferences(ctx.store, 'user-01')).toMatchObject({ count: 8 });
+    expect((await getUserPreferences(ctx.store, 'user-01')).language).toBeUndefined();
+  });
+
+  it('resets all preferences without a key', async () => {
+    const ctx = createPrefsContext('reset');
+    await ctx.store.put('prefs:v1:user-01', JSON.stringify({ language: 'ja' }));
+    await handlePrefsResetCommand(ctx);
+
+    expect(sentMessage(ctx).embeds[0].title).toBe('All Preferences Reset');
+    expect(await getUserPreferences(ctx.store, 'user-01')).toEqual({});
+  });
+
+  it('rejects unknown keys', async () => {
+    const ctx = createPrefsContext('reset', ['theme']);
+    await handlePrefsResetCommand(ctx);
+
+    expect(sentMessage(ctx).content).toContain('Unknown preference key: theme');
+  });
+});
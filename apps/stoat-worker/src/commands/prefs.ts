@@ -0,0 +1,214 @@
+/**
+ * Preferences commands — per-user defaults for Stoat commands.
+ * `!xd prefs` / `!xd prefs show` → current preferences
+ * `!xd prefs set <key> <value>` → update one preference
+ * `!xd prefs reset [key]` → reset one or all preferences
+ *
+ * Stored with the same schema as the Discord bot's /preferences.
+ */
+
+import { BLENDING_MODES } from '@xivdyetools/color-blending';
+import { createTranslator, type Translator } from '@xivdyetools/bot-i18n';
+import type { CommandContext } from '../router.js';
+import { DEFAULT_UNIVERSALIS_API_URL } from '../config.js';
+import { getUserPreferences, resetPreference, setPreference } from '../services/preferences.js';
+import { resolveWorld } from '../services/universalis-client.js';
+import { formatErrorReply, type StoatEmbed } from '../services/response-formatter.js';
+import {
+  MATCHING_METHODS,
+  PREFERENCE_DEFAULTS,
+  PREFERENCE_KEYS,
+  isPreferenceKey,
+  type PreferenceKey,
+} from '../types/preferences.js';
+
+const SET_USAGE = '!xd prefs set <key> <value>';
+const RESET_USAGE = '!xd prefs reset [key]';
+
+/** Embed colour for preference replies */
+const PREFS_COLOR = '#5865f2';
+
+/** Valid values listed when a blending mode or matching method is rejected */
+const VALID_OPTIONS: Partial<Record<PreferenceKey, readonly string[]>> = {
+  matching: MATCHING_METHODS,
+  blending: BLENDING_MODES.map((m) => m.value),
+};
+
+/**
+ * Handle the `!xd prefs [show]` command.
+ */
+export async function handlePrefsShowCommand(ctx: CommandContext): Promise<void> {
+  const t = createTranslator(ctx.locale);
+  const prefs = await getUserPreferences(ctx.store, ctx.message.authorId);
+
+  const lines = PREFERENCE_KEYS.map((key) => {
+    const value = prefs[key];
+    if (value !== undefined) {
+      return `**${t.t(`preferences.keys.${key}`)}:** \`${String(value)}\``;
+    }
+    const fallback =
+      key === 'world'
+        ? t.t('preferences.show.notSet')
+        : `${t.t('preferences.show.default')} (\`${String(PREFERENCE_DEFAULTS[key])}\`)`;
+    return `**${t.t(`preferences.keys.${key}`)}:** *${fallback}*`;
+  });
+
+  await sendEmbed(ctx, {
+    title: t.t('preferences.show.title'),
+    description:
+      `${t.t('preferences.show.description')}\n\n${lines.join('\n')}` +
+      `\n\n*${t.t('stoat.prefs.hint', { usage: SET_USAGE, example: '!xd prefs set language ja' })}*`,
+    colour: PREFS_COLOR,
+  });
+}
+
+/**
+ * Handle the `!xd prefs set <key> <value>` command.
+ */
+export async function handlePrefsSetCommand(ctx: CommandContext): Promise<void> {
+  const userId = ctx.message.authorId;
+  if (!userId) return;
+
+  const [rawKey, ...valueTokens] = ctx.parsed.rawArgs;
+  let t = createTranslator(ctx.locale);
+
+  if (!rawKey || valueTokens.length === 0) {
+    const msg = formatErrorReply(
+      ctx.message.id,
+      `${t.t('stoat.prefs.missingValue')}\n${keysHint(t)}`,
+      ctx.locale,
+      SET_USAGE,
+    );
+    await ctx.message.channel?.sendMessage(msg);
+    return;
+  }
+
+  const key = findPreferenceKey(rawKey);
+  if (!key) {
+    const msg = formatErrorReply(
+      ctx.message.id,
+      `${t.t('preferences.errors.invalidKey', { key: rawKey })}\n${keysHint(t)}`,
+      ctx.locale,
+      SET_USAGE,
+    );
+    await ctx.message.channel?.sendMessage(msg);
+    return;
+  }
+
+  let value = valueTokens.join(' ');
+
+  // Store the canonical world name, so budget lookups don't depend on casing
+  if (key === 'world') {
+    try {
+      const world = await resolveWorld(
+        ctx.config.universalisApiUrl ?? DEFAULT_UNIVERSALIS_API_URL,
+        value,
+      );
+      if (!world) {
+        const msg = formatErrorReply(
+          ctx.message.id,
+          t.t('preferences.validation.invalidWorld'),
+          ctx.locale,
+        );
+        await ctx.message.channel?.sendMessage(msg);
+        return;
+      }
+      value = world;
+    } catch {
+      // Universalis is unavailable; keep the name as typed
+    }
+  }
+
+  const result = await setPreference(ctx.store, userId, key, value);
+  if (!result.success) {
+    const msg = formatErrorReply(
+      ctx.message.id,
+      validationMessage(t, key, result.reason),
+      ctx.locale,
+    );
+    await ctx.message.channel?.sendMessage(msg);
+    return;
+  }
+
+  // Confirm a language change in the newly chosen language
+  if (key === 'language' && result.prefs.language) {
+    t = createTranslator(result.prefs.language);
+  }
+
+  await sendEmbed(ctx, {
+    title: t.t('preferences.set.success'),
+    description: `${t.t('preferences.set.updated', {
+      key: t.t(`preferences.keys.${key}`),
+      value: String(result.prefs[key]),
+    })}\n\n*${t.t('preferences.set.overrideNote')}*`,
+    colour: PREFS_COLOR,
+  });
+}
+
+/**
+ * Handle the `!xd prefs reset [key]` command.
+ */
+export async function handlePrefsResetCommand(ctx: CommandContext): Promise<void> {
+  const userId = ctx.message.authorId;
+  if (!userId) return;
+
+  const [rawKey] = ctx.parsed.rawArgs;
+  const t = createTranslator(ctx.locale);
+
+  const key = rawKey ? findPreferenceKey(rawKey) : null;
+  if (rawKey && !key) {
+    const msg = formatErrorReply(
+      ctx.message.id,
+      `${t.t('preferences.errors.invalidKey', { key: rawKey })}\n${keysHint(t)}`,
+      ctx.locale,
+      RESET_USAGE,
+    );
+    await ctx.message.channel?.sendMessage(msg);
+    return;
+  }
+
+  const ok = await resetPreference(ctx.store, userId, key ?? undefined);
+  if (!ok) {
+    await ctx.message.channel?.sendMessage(
+      formatErrorReply(ctx.message.id, t.t('preferences.reset.failed'), ctx.locale),
+    );
+    return;
+  }
+
+  await sendEmbed(ctx, {
+    title: key ? t.t('preferences.reset.success') : t.t('preferences.reset.allTitle'),
+    description: key
+      ? t.t('preferences.reset.single', { key: t.t(`preferences.keys.${key}`) })
+      : t.t('preferences.reset.allDescription'),
+    colour: PREFS_COLOR,
+  });
+}
+
+/**
+ * Match a key case-insensitively (`Language` → `language`).
+ */
+function findPreferenceKey(rawKey: string): PreferenceKey | null {
+  const key = rawKey.toLowerCase();
+  return isPreferenceKey(key) ? key : null;
+}
+
+function keysHint(t: Translator): string {
+  return `${t.t('stoat.help.labels.keys')}: ${PREFERENCE_KEYS.map((k) => `\`${k}\``).join(', ')}`;
+}
+
+function validationMessage(t: Translator, key: PreferenceKey, reason: string): string {
+  const options = VALID_OPTIONS[key];
+  return t.t(`preferences.validation.${reason}`, {
+    options: options ? options.map((v) => `\`${v}\``).join(', ') : '',
+  });
+}
+
+/**
+ * Send a single embed as a reply to the command message.
+ */
+async function sendEmbed(ctx: CommandContext, embed: StoatEmbed): Promise<void> {
+  await ctx.message.channel?.sendMessage({
+    embeds: [embed],
+    replies: [{ id: ctx.message.id, mention: false }],
+  });
+}
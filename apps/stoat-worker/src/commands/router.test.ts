@@ -6,6 +6,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { routeCommand, type CommandContext } from '../router.js';
 import { createMockMessage } from '../test-utils/revolt-mocks.js';
 import { MessageContextStore } from '../services/message-context.js';
+import { MemoryStore } from '../services/storage/index.js';
 import type { ParsedCommand } from './parser.js';
 import type { BotConfig } from '../config.js';
 
@@ -34,7 +35,9 @@ function createTestContext(overrides?: {
     message: message as any,
     parsed,
     config,
+    locale: 'en',
     messageContextStore: new MessageContextStore(),
+    store: new MemoryStore(),
   };
 }
 
@@ -72,6 +75,20 @@ describe('routeCommand', () => {
     );
   });
 
+  it('replies to unknown commands in the context locale', async () => {
+    const ctx = {
+      ...createTestContext({ parsed: { command: 'nonexistent' } }),
+      locale: 'fr' as const,
+    };
+    await routeCommand(ctx);
+
+    expect(ctx.message.channel?.sendMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        content: expect.stringContaining('Commande inconnue `nonexistent`'),
+      }),
+    );
+  });
+
   it('routes compound command keys (dye.info)', async () => {
     const ctx = createTestContext({
       parsed: { command: 'dye', subcommand: 'info', rawArgs: ['Snow', 'White'] },
@@ -82,4 +99,60 @@ describe('routeCommand', () => {
     await routeCommand(ctx);
     expect(ctx.message.channel?.sendMessage).toHaveBeenCalled();
   });
+
+  it.each([
+    ['harmony', null, ['Snow', 'White']],
+    ['gradient', null, ['Snow', 'White', '>', 'Soot', 'Black']],
+    ['mixer', null, ['Snow', 'White', '>', 'Soot', 'Black']],
+    ['match', null, ['#FF5733']],
+    ['compare', null, ['Snow', 'White', '>', 'Soot', 'Black']],
+    ['a11y', null, ['Dalamud', 'Red']],
+    ['dye', 'search', ['white']],
+    ['dye', 'list', []],
+    ['dye', 'random', []],
+  ])('routes %s %s to a handler', async (command, subcommand, rawArgs) => {
+    const ctx = createTestContext({ parsed: { command, subcommand, rawArgs } });
+    await routeCommand(ctx);
+
+    const call = (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(call.content ?? '').not.toContain('Unknown command');
+    expect(call.embeds).toHaveLength(1);
+  });
+
+  it('routes budget.find', async () => {
+    const ctx = createTestContext({
+      parsed: { command: 'budget', subcommand: 'find', rawArgs: [] },
+    });
+    await routeCommand(ctx);
+
+    expect(ctx.message.channel?.sendMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ content: expect.stringContaining('!xd budget find') }),
+    );
+  });
+
+  it.each([
+    ['prefs', null],
+    ['prefs', 'show'],
+    ['prefix', null],
+    ['prefix', 'show'],
+  ])('routes %s.%s to a settings embed', async (command, subcommand) => {
+    const ctx = createTestContext({ parsed: { command, subcommand, rawArgs: [] } });
+    await routeCommand(ctx);
+
+    const call = (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(call.embeds).toHaveLength(1);
+  });
+
+  it('routes prefs.set', async () => {
+    const ctx = createTestContext({
+      parsed: { command: 'prefs', subcommand: 'set', rawArgs: ['count', '3'] },
+    });
+    await routeCommand(ctx);
+
+    expect(ctx.message.channel?.sendMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        embeds: [expect.objectContaining({ title: 'Preference Updated' })],
+      }),
+    );
+  });
 });
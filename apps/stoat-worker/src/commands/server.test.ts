@@ -0,0 +1,174 @@
+/**
+ * Tests for commands/server.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  handleServerShowCommand,
+  handleServerSetCommand,
+  handleServerResetCommand,
+} from './server.js';
+import { createMockMember, createMockMessage } from '../test-utils/revolt-mocks.js';
+import { MessageContextStore } from '../services/message-context.js';
+import { MemoryStore } from '../services/storage/index.js';
+import { clearServerSettingsCache, getServerSettings } from '../services/server-settings.js';
+import type { CommandContext } from '../router.js';
+import type { ParsedCommand } from './parser.js';
+import type { BotConfig } from '../config.js';
+
+function createServerContext(
+  subcommand: string | null,
+  rawArgs: string[] = [],
+  options: { inServer?: boolean; canManage?: boolean } = {},
+): CommandContext {
+  const { inServer = true, canManage = true } = options;
+  const config: BotConfig = {
+    botToken: 'test-token',
+    authorizedUsers: [],
+  };
+  const parsed: ParsedCommand = {
+    prefix: '!xd',
+    command: 'server',
+    subcommand,
+    rawArgs,
+  };
+  const message = createMockMessage({
+    content: `!xd server ${rawArgs.join(' ')}`.trim(),
+    ...(inServer && { server: { id: 'server-01' }, member: createMockMember(canManage) }),
+  });
+  return {
+    message: message as any,
+    parsed,
+    config,
+    locale: 'en',
+    messageContextStore: new MessageContextStore(),
+    store: new MemoryStore(),
+  };
+}
+
+function sentMessage(ctx: CommandContext): any {
+  return (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0];
+}
+
+describe('server commands', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearServerSettingsCache();
+  });
+
+  describe('handleServerShowCommand', () => {
+    it('shows unset defaults', async () => {
+      const ctx = createServerContext(null);
+      await handleServerShowCommand(ctx);
+
+      const embed = sentMessage(ctx).embeds[0];
+      expect(embed.title).toBe('Server Settings');
+      expect(embed.description).toContain('**Language:** *Not set*');
+      expect(embed.description).toContain('**Command Prefix:** *Not set*');
+    });
+
+    it('shows stored settings', async () => {
+      const ctx = createServerContext('show');
+      await ctx.store.put(
+        'server-prefs:v1:server-01',
+        JSON.stringify({ language: 'fr', prefix: '?' }),
+      );
+      await handleServerShowCommand(ctx);
+
+      const { description } = sentMessage(ctx).embeds[0];
+      expect(description).toContain('**Language:** `fr`');
+      expect(description).toContain('**Command Prefix:** `?`');
+    });
+
+    it('only works in servers', async () => {
+      const ctx = createServerContext(null, [], { inServer: false });
+      await handleServerShowCommand(ctx);
+
+      expect(sentMessage(ctx).content).toContain('only be used inside a server');
+    });
+  });
+
+  describe('handleServerSetCommand', () => {
+    it('saves the server language', async () => {
+      const ctx = createServerContext('set', ['Language', 'FR']);
+      await handleServerSetCommand(ctx);
+
+      expect(sentMessage(ctx).embeds[0].description).toBe('**Language:** `fr`');
+      expect(await getServerSettings(ctx.store, 'server-01')).toMatchObject({
+        language: 'fr',
+        updatedBy: 'user-01',
+      });
+    });
+
+    it('saves the server prefix', async () => {
+      const ctx = createServerContext('set', ['prefix', '?']);
+      await handleServerSetCommand(ctx);
+
+      expect((await getServerSettings(ctx.store, 'server-01')).prefix).toBe('?');
+    });
+
+    it('rejects unsupported languages', async () => {
+      const ctx = createServerContext('set', ['language', 'xx']);
+      await handleServerSetCommand(ctx);
+
+      expect(sentMessage(ctx).content).toContain('Invalid language');
+      expect(await getServerSettings(ctx.store, 'server-01')).toEqual({});
+    });
+
+    it('rejects unknown keys', async () => {
+      const ctx = createServerContext('set', ['theme', 'dark']);
+      await handleServerSetCommand(ctx);
+
+      const { content } = sentMessage(ctx);
+      expect(content).toContain('Unknown server setting: theme');
+      expect(content).toContain('`language`, `prefix`');
+    });
+
+    it('sends usage without a value', async () => {
+      const ctx = createServerContext('set', ['language']);
+      await handleServerSetCommand(ctx);
+
+      expect(sentMessage(ctx).content).toContain('Usage: `!xd server set <key> <value>`');
+    });
+
+    it('requires the Manage Server permission', async () => {
+      const ctx = createServerContext('set', ['language', 'fr'], { canManage: false });
+      await handleServerSetCommand(ctx);
+
+      expect(sentMessage(ctx).content).toContain('Manage Server');
+      expect(await getServerSettings(ctx.store, 'server-01')).toEqual({});
+    });
+  });
+
+  describe('handleServerResetCommand', () => {
+    it('resets a single setting', async () => {
+      const ctx = createServerContext('reset', ['language']);
+      await ctx.store.put(
+        'server-prefs:v1:server-01',
+        JSON.stringify({ language: 'fr', prefix: '?' }),
+      );
+      await handleServerResetCommand(ctx);
+
+      expect(sentMessage(ctx).embeds[0].description).toContain('**Language** has been reset');
+      const settings = await getServerSettings(ctx.store, 'server-01');
+      expect(settings.language).toBeUndefined();
+      expect(settings.prefix).toBe('?');
+    });
+
+    it('resets all settings without a key', async () => {
+      const ctx = createServerContext('reset');
+      await ctx.store.put('server-prefs:v1:server-01', JSON.stringify({ language: 'fr' }));
+      await handleServerResetCommand(ctx);
+
+      expect(sentMessage(ctx).embeds[0].description).toBe('All server settings have been reset.');
+      expect(await getServerSettings(ctx.store, 'server-01')).toEqual({});
+    });
+
+    it('rejects unknown keys', async () => {
+      const ctx = createServerContext('reset', ['theme']);
+      await handleServerResetCommand(ctx);
+
+      expect(sentMessage(ctx).content).toContain('Unknown server setting: theme');
+    });
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Server commands — defaults for everyone in a server.
+ * `!xd server` / `!xd server show` → current server settings
+ * `!xd server set <key> <value>` → update one setting
+ * `!xd server reset [key]` → reset one or all settings
+ *
+ * Members' own `!xd prefs` take precedence over these defaults.
+ */
+
+import { createTranslator, type Translator } from '@xivdyetools/bot-i18n';
+import type { CommandContext } from '../router.js';
+import {
+  getServerSettings,
+  resetServerSetting,
+  updateServerSettings,
+} from '../services/server-settings.js';
+import { requireManager, type ManagerCheckMessages } from '../services/server-permissions.js';
+import { formatErrorReply, type StoatEmbed } from '../services/response-formatter.js';
+import { isValidLocale } from '../types/preferences.js';
+import {
+  MAX_PREFIX_LENGTH,
+  SERVER_SETTING_KEYS,
+  isServerSettingKey,
+  isValidPrefix,
+  type ServerSettingKey,
+  type ServerSettings,
+} from '../types/server-settings.js';
+
+const SET_USAGE = '!xd server set <key> <value>';
+const RESET_USAGE = '!xd server reset [key]';
+
+/** Embed colour for server setting replies */
+const SERVER_COLOR = '#5865f2';
+
+/**
+ * Handle the `!xd server [show]` command.
+ */
+export async function handleServerShowCommand(ctx: CommandContext): Promise<void> {
+  const t = createTranslator(ctx.locale);
+  if (!ctx.message.server) {
+    await ctx.message.channel?.sendMessage(
+      formatErrorReply(ctx.message.id, t.t('serverSettings.errors.guildOnly'), ctx.locale),
+    );
+    return;
+  }
+
+  const settings = await getServerSettings(ctx.store, ctx.message.server.id);
+  const lines = SERVER_SETTING_KEYS.map((key) => {
+    const value = settings[key];
+    return value !== undefined
+      ? `**${t.t(`serverSettings.keys.${key}`)}:** \`${value}\``
+      : `**${t.t(`serverSettings.keys.${key}`)}:** *${t.t('serverSettings.show.notSet')}*`;
+  });
+
+  await sendEmbed(ctx, {
+    title: t.t('serverSettings.title'),
+    description:
+      `${t.t('stoat.server.description')}\n\n${lines.join('\n')}` +
+      `\n\n*${t.t('stoat.server.hint', { usage: SET_USAGE })}*`,
+    colour: SERVER_COLOR,
+  });
+}
+
+/**
+ * Handle the `!xd server set <key> <value>` command.
+ */
+export async function handleServerSetCommand(ctx: CommandContext): Promise<void> {
+  const t = createTranslator(ctx.locale);
+  const manager = await requireManager(ctx, managerMessages(t));
+  if (!manager) return;
+
+  const [rawKey, ...valueTokens] = ctx.parsed.rawArgs;
+  if (!rawKey || valueTokens.length === 0) {
+    const msg = formatErrorReply(
+      ctx.message.id,
+      `${t.t('stoat.server.missingValue')}\n${keysHint(t)}`,
+      ctx.locale,
+      SET_USAGE,
+    );
+    await ctx.message.channel?.sendMessage(msg);
+    return;
+  }
+
+  const key = findServerSettingKey(rawKey);
+  if (!key) {
+    const msg = formatErrorReply(
+      ctx.message.id,
+      `${t.t('stoat.server.invalidKey', { key: rawKey })}\n${keysHint(t)}`,
+      ctx.locale,
+      SET_USAGE,
+    );
+    await ctx.message.channel?.sendMessage(msg);
+    return;
+  }
+
+  const updates = validateSetting(key, valueTokens.join(' '));
+  if (!updates) {
+    const error =
+      key === 'language'
+        ? t.t('preferences.validation.invalidLanguage')
+        : t.t('stoat.prefix.invalid', { max: MAX_PREFIX_LENGTH });
+    await ctx.message.channel?.sendMessage(
+      formatErrorReply(ctx.message.id, error, ctx.locale, SET_USAGE),
+    );
+    return;
+  }
+
+  const settings = await updateServerSettings(ctx.store, manager.serverId, updates, manager.userId);
+  if (!settings) {
+    await ctx.message.channel?.sendMessage(
+      formatErrorReply(ctx.message.id, t.t('serverSettings.errors.saveFailed'), ctx.locale),
+    );
+    return;
+  }
+
+  await sendEmbed(ctx, {
+    title: t.t('serverSettings.set.success'),
+    description: `**${t.t(`serverSettings.keys.${key}`)}:** \`${String(settings[key])}\``,
+    colour: SERVER_COLOR,
+  });
+}
+
+/**
+ * Handle the `!xd server reset [key]` command.
+ */
+export async function handleServerResetCommand(ctx: CommandContext): Promise<void> {
+  const t = createTranslator(ctx.locale);
+  const manager = await requireManager(ctx, managerMessages(t));
+  if (!manager) return;
+
+  const [rawKey] = ctx.parsed.rawArgs;
+  const key = rawKey ? findServerSettingKey(rawKey) : null;
+  if (rawKey && !key) {
+    const msg = formatErrorReply(
+      ctx.message.id,
+      `${t.t('stoat.server.invalidKey', { key: rawKey })}\n${keysHint(t)}`,
+      ctx.locale,
+      RESET_USAGE,
+    );
+    await ctx.message.channel?.sendMessage(msg);
+    return;
+  }
+
+  const ok = await resetServerSetting(
+    ctx.store,
+    manager.serverId,
+    manager.userId,
+    key ?? undefined,
+  );
+  if (!ok) {
+    await ctx.message.channel?.sendMessage(
+      formatErrorReply(ctx.message.id, t.t('serverSettings.errors.saveFailed'), ctx.locale),
+    );
+    return;
+  }
+
+  await sendEmbed(ctx, {
+    title: t.t('serverSettings.title'),
+    description: key
+      ? t.t('serverSettings.reset.single', { key: t.t(`serverSettings.keys.${key}`) })
+      : t.t('serverSettings.reset.all'),
+    colour: SERVER_COLOR,
+  });
+}
+
+/**
+ * Match a key case-insensitively (`Language` → `language`).
+ */
+function findServerSettingKey(rawKey: string): ServerSettingKey | null {
+  const key = rawKey.toLowerCase();
+  return isServerSettingKey(key) ? key : null;
+}
+
+/**
+ * Validate a raw value and convert it to its stored form.
+ *
+ * @returns The settings to merge, or null if the value was rejected
+ */
+function validateSetting(
+  key: ServerSettingKey,
+  value: string,
+): Pick<ServerSettings, ServerSettingKey> | null {
+  const trimmed = value.trim();
+  switch (key) {
+    case 'language': {
+      const code = trimmed.toLowerCase();
+      return isValidLocale(code) ? { language: code } : null;
+    }
+    case 'prefix':
+      return isValidPrefix(trimmed) ? { prefix: trimmed } : null;
+  }
+}
+
+function keysHint(t: Translator): string {
+  return `${t.t('stoat.help.labels.keys')}: ${SERVER_SETTING_KEYS.map((k) => `\`${k}\``).join(', ')}`;
+}
+
+function managerMessages(t: Translator): ManagerCheckMessages {
+  return {
+    serverOnly: t.t('serverSettings.errors.guildOnly'),
+    noPermission: t.t('serverSettings.errors.noPermission'),
+  };
+}
+
+/**
+ * Send a single embed as a reply to the command message.
+ */
+async function sendEmbed(ctx: CommandContext, embed: StoatEmbed): Promise<void> {
+  await ctx.message.channel?.sendMessage({
+    embeds: [embed],
+    replies: [{ id: ctx.message.id, mention: false }],
+  });
+}
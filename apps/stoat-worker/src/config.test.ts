@@ -3,7 +3,13 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { loadConfig, isValidUlid, isAuthorized } from './config.js';
+import {
+  loadConfig,
+  isValidUlid,
+  isAuthorized,
+  DEFAULT_UNIVERSALIS_API_URL,
+  DEFAULT_DATABASE_PATH,
+} from './config.js';
 
 describe('isValidUlid', () => {
   it('accepts valid Stoat ULIDs', () => {
@@ -34,6 +40,10 @@ describe('loadConfig', () => {
     vi.stubEnv('STATS_AUTHORIZED_USERS', '');
     vi.stubEnv('UPSTASH_REDIS_REST_URL', '');
     vi.stubEnv('UPSTASH_REDIS_REST_TOKEN', '');
+    vi.stubEnv('UNIVERSALIS_API_URL', '');
+    vi.stubEnv('AUTUMN_URL', '');
+    vi.stubEnv('STORAGE_BACKEND', '');
+    vi.stubEnv('DATABASE_PATH', '');
   });
 
   afterEach(() => {
@@ -79,6 +89,48 @@ describe('loadConfig', () => {
     expect(config.upstashRedisUrl).toBe('https://redis.example.com');
     expect(config.upstashRedisToken).toBe('secret');
   });
+
+  it('defaults the Universalis API URL', () => {
+    expect(loadConfig().universalisApiUrl).toBe(DEFAULT_UNIVERSALIS_API_URL);
+
+    vi.stubEnv('UNIVERSALIS_API_URL', 'https://universalis-proxy.example');
+    expect(loadConfig().universalisApiUrl).toBe('https://universalis-proxy.example');
+  });
+
+  it('leaves the Autumn URL to the Stoat API unless overridden', () => {
+    expect(loadConfig().autumnUrl).toBeUndefined();
+
+    vi.stubEnv('AUTUMN_URL', 'https://autumn.example');
+    expect(loadConfig().autumnUrl).toBe('https://autumn.example');
+  });
+
+  it('defaults to SQLite storage at the default path', () => {
+    const config = loadConfig();
+    expect(config.storageBackend).toBe('sqlite');
+    expect(config.databasePath).toBe(DEFAULT_DATABASE_PATH);
+
+    vi.stubEnv('DATABASE_PATH', '/var/lib/stoat/bot.db');
+    expect(loadConfig().databasePath).toBe('/var/lib/stoat/bot.db');
+  });
+
+  it('defaults to Redis storage when Upstash is configured', () => {
+    vi.stubEnv('UPSTASH_REDIS_REST_URL', 'https://redis.example.com');
+    vi.stubEnv('UPSTASH_REDIS_REST_TOKEN', 'secret');
+    expect(loadConfig().storageBackend).toBe('redis');
+
+    vi.stubEnv('STORAGE_BACKEND', 'sqlite');
+    expect(loadConfig().storageBackend).toBe('sqlite');
+  });
+
+  it('throws for an invalid STORAGE_BACKEND', () => {
+    vi.stubEnv('STORAGE_BACKEND', 'postgres');
+    expect(() => loadConfig()).toThrow('Invalid STORAGE_BACKEND "postgres"');
+  });
+
+  it('throws for Redis storage without Upstash credentials', () => {
+    vi.stubEnv('STORAGE_BACKEND', 'redis');
+    expect(() => loadConfig()).toThrow('UPSTASH_REDIS_REST_URL');
+  });
 });
 
 describe('isAuthorized', () => {
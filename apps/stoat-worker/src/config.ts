@@ -1,3 +1,5 @@
+import type { StorageBackend } from './services/storage/types.js';
+
 /**
  * Configuration loaded from environment variables.
  */
@@ -10,8 +12,24 @@ export interface BotConfig {
   upstashRedisUrl?: string;
   /** Upstash Redis REST token */
   upstashRedisToken?: string;
+  /** Universalis API base URL for market board prices */
+  universalisApiUrl?: string;
+  /** Autumn file server URL override (defaults to the one advertised by the Stoat API) */
+  autumnUrl?: string;
+  /** Where preferences, server settings and message contexts are persisted */
+  storageBackend?: StorageBackend;
+  /** SQLite database file for the sqlite backend */
+  databasePath?: string;
 }
 
+/** Public Universalis API, used unless UNIVERSALIS_API_URL overrides it */
+export const DEFAULT_UNIVERSALIS_API_URL = 'https://universalis.app';
+
+/** SQLite file used unless DATABASE_PATH overrides it */
+export const DEFAULT_DATABASE_PATH = './data/bot.db';
+
+const STORAGE_BACKENDS: readonly StorageBackend[] = ['memory', 'sqlite', 'redis'];
+
 /** Stoat ULIDs use Crockford's Base32 — no I, L, O, U */
 const ULID_PATTERN = /^[0-9A-HJKMNP-TV-Z]{26}$/;
 
@@ -43,11 +61,32 @@ export function loadConfig(): BotConfig {
     }
   }
 
+  const upstashRedisUrl = process.env.UPSTASH_REDIS_REST_URL;
+  const upstashRedisToken = process.env.UPSTASH_REDIS_REST_TOKEN;
+
+  // Redis when Upstash is configured (no disk needed), otherwise a local SQLite file
+  const storageBackend = (process.env.STORAGE_BACKEND ||
+    (upstashRedisUrl && upstashRedisToken ? 'redis' : 'sqlite')) as StorageBackend;
+  if (!STORAGE_BACKENDS.includes(storageBackend)) {
+    throw new Error(
+      `Invalid STORAGE_BACKEND "${storageBackend}" (expected ${STORAGE_BACKENDS.join(', ')})`,
+    );
+  }
+  if (storageBackend === 'redis' && !(upstashRedisUrl && upstashRedisToken)) {
+    throw new Error(
+      'STORAGE_BACKEND=redis requires UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN',
+    );
+  }
+
   return {
     botToken,
     authorizedUsers,
-    upstashRedisUrl: process.env.UPSTASH_REDIS_REST_URL,
-    upstashRedisToken: process.env.UPSTASH_REDIS_REST_TOKEN,
+    upstashRedisUrl,
+    upstashRedisToken,
+    universalisApiUrl: process.env.UNIVERSALIS_API_URL || DEFAULT_UNIVERSALIS_API_URL,
+    autumnUrl: process.env.AUTUMN_URL || undefined,
+    storageBackend,
+    databasePath: process.env.DATABASE_PATH || DEFAULT_DATABASE_PATH,
   };
 }
 
@@ -8,11 +8,17 @@
  */
 
 import { Client } from 'revolt.js';
+import { createTranslator } from '@xivdyetools/bot-i18n';
+import { initializeLocale } from '@xivdyetools/bot-logic';
 import { createLibraryLogger } from '@xivdyetools/logger';
 import { loadConfig } from './config.js';
 import { parseCommand } from './commands/parser.js';
 import { routeCommand } from './router.js';
 import { MessageContextStore } from './services/message-context.js';
+import { ImageUploader } from './services/autumn-client.js';
+import { createStore } from './services/storage/index.js';
+import { getServerSettings } from './services/server-settings.js';
+import { getUserPreferences, resolveLocale } from './services/preferences.js';
 
 const logger = createLibraryLogger('stoat');
 
@@ -29,11 +35,19 @@ async function main(): Promise<void> {
   logger.info('Configuration loaded');
 
   // ── Shared services ────────────────────────────────────────────────
-  const messageContextStore = new MessageContextStore();
+  const store = await createStore(config);
+  logger.info(`Storage backend: ${config.storageBackend ?? 'sqlite'}`);
+  const messageContextStore = new MessageContextStore(store);
 
   // ── Client setup ───────────────────────────────────────────────────
   const client = new Client();
 
+  // Autumn's URL comes from the API root, which revolt.js fetches on login
+  const imageUploader = new ImageUploader(
+    config.botToken,
+    () => config.autumnUrl ?? client.configuration?.features.autumn.url,
+  );
+
   // ── Ready event ────────────────────────────────────────────────────
   client.on('ready', () => {
     logger.info(`Logged in as ${client.user?.username ?? 'unknown'}`);
@@ -51,8 +65,9 @@ async function main(): Promise<void> {
     // Ignore system messages (no content)
     if (!message.content) return;
 
-    // Parse the message for a command
-    const parsed = parseCommand(message.content);
+    // Parse the message for a command, accepting the server's custom prefix
+    const settings = await getServerSettings(store, message.server?.id);
+    const parsed = parseCommand(message.content, settings.prefix);
     if (!parsed) return;
 
     logger.debug(`Command: ${parsed.command}${parsed.subcommand ? `.${parsed.subcommand}` : ''}`, {
@@ -61,12 +76,21 @@ async function main(): Promise<void> {
       args: parsed.rawArgs,
     });
 
+    // Reply in the author's language, else the server's default
+    const locale = resolveLocale(await getUserPreferences(store, message.authorId), settings);
+
     try {
+      // Load localized dye names before any handler asks for them
+      await initializeLocale(locale);
+
       await routeCommand({
         message,
         parsed,
         config,
+        locale,
         messageContextStore,
+        store,
+        imageUploader,
       });
     } catch (error) {
       logger.error('Unhandled error in command handler', {
@@ -78,7 +102,7 @@ async function main(): Promise<void> {
       // Best-effort error reply to the user
       try {
         await message.channel?.sendMessage({
-          content: 'An unexpected error occurred. Please try again later.',
+          content: createTranslator(locale).t('stoat.unexpectedError'),
           replies: [{ id: message.id, mention: false }],
         });
       } catch {
@@ -91,7 +115,14 @@ async function main(): Promise<void> {
   // ── Graceful shutdown ──────────────────────────────────────────────
   const shutdown = (): void => {
     logger.info('Shutting down...');
-    process.exit(0);
+    store
+      .close()
+      .catch((error: unknown) => {
+        logger.warn('Failed to close storage', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => process.exit(0));
   };
 
   process.on('SIGINT', shutdown);
@@ -6,14 +6,40 @@
  */
 
 import type { Message } from 'revolt.js';
+import { createTranslator, type LocaleCode } from '@xivdyetools/bot-i18n';
 import type { ParsedCommand } from './commands/parser.js';
 import type { BotConfig } from './config.js';
 import type { MessageContextStore } from './services/message-context.js';
+import type { ImageUploader } from './services/autumn-client.js';
+import type { KeyValueStore } from './services/storage/index.js';
 
 import { handlePingCommand } from './commands/ping.js';
 import { handleHelpCommand } from './commands/help.js';
 import { handleAboutCommand } from './commands/about.js';
 import { handleInfoCommand } from './commands/info.js';
+import { handleSearchCommand, handleListCommand, handleRandomCommand } from './commands/dye.js';
+import { handleHarmonyCommand } from './commands/harmony.js';
+import { handleGradientCommand } from './commands/gradient.js';
+import { handleMixerCommand } from './commands/mixer.js';
+import { handleMatchCommand } from './commands/match.js';
+import { handleComparisonCommand } from './commands/comparison.js';
+import { handleAccessibilityCommand } from './commands/accessibility.js';
+import { handleBudgetFindCommand } from './commands/budget.js';
+import {
+  handlePrefsShowCommand,
+  handlePrefsSetCommand,
+  handlePrefsResetCommand,
+} from './commands/prefs.js';
+import {
+  handleServerShowCommand,
+  handleServerSetCommand,
+  handleServerResetCommand,
+} from './commands/server.js';
+import {
+  handlePrefixShowCommand,
+  handlePrefixSetCommand,
+  handlePrefixResetCommand,
+} from './commands/prefix.js';
 
 /**
  * Context passed to every command handler.
@@ -27,8 +53,14 @@ export interface CommandContext {
   parsed: ParsedCommand;
   /** Bot configuration (admin list, feature flags, etc.) */
   config: BotConfig;
+  /** Reply language: the author's preference, else the server default, else English */
+  locale: LocaleCode;
   /** Per-message context store for reaction-based interactions */
   messageContextStore: MessageContextStore;
+  /** Persistent store for user preferences and server settings */
+  store: KeyValueStore;
+  /** Autumn uploader for rendered cards; replies are text-only without it */
+  imageUploader?: ImageUploader;
 }
 
 /** Handler function signature for all commands */
@@ -41,7 +73,12 @@ export type CommandHandler = (ctx: CommandContext) => Promise<void>;
  * - `ping` → handlePingCommand
  * - `help` → handleHelpCommand
  * - `about` → handleAboutCommand
- * - `dye.info` → handleInfoCommand
+ * - `dye.info` / `dye.search` / `dye.list` / `dye.random` → dye lookup handlers
+ * - `harmony`, `gradient`, `mixer`, `match`, `comparison`, `accessibility` → color tools
+ * - `budget.find` → handleBudgetFindCommand
+ * - `prefs` / `prefs.show` / `prefs.set` / `prefs.reset` → user preferences
+ * - `server` / `server.show` / `server.set` / `server.reset` → server defaults
+ * - `prefix` / `prefix.show` / `prefix.set` / `prefix.reset` → server command prefix
  *
  * Unknown commands receive a brief error reply.
  */
@@ -59,8 +96,9 @@ export async function routeCommand(ctx: CommandContext): Promise<void> {
   }
 
   // Fallback: unknown command
+  const t = createTranslator(ctx.locale);
   await ctx.message.channel?.sendMessage({
-    content: `Unknown command \`${routeKey}\`. Try \`!xd help\` for a list of commands.`,
+    content: t.t('stoat.unknownCommand', { command: routeKey }),
     replies: [{ id: ctx.message.id, mention: false }],
   });
 }
@@ -81,4 +119,34 @@ const COMMAND_ROUTES: Record<string, CommandHandler> = {
 
   // Dye lookup commands
   'dye.info': handleInfoCommand,
+  'dye.search': handleSearchCommand,
+  'dye.list': handleListCommand,
+  'dye.random': handleRandomCommand,
+
+  // Color tools
+  harmony: handleHarmonyCommand,
+  gradient: handleGradientCommand,
+  mixer: handleMixerCommand,
+  match: handleMatchCommand,
+  comparison: handleComparisonCommand,
+  compare: handleComparisonCommand,
+  accessibility: handleAccessibilityCommand,
+  a11y: handleAccessibilityCommand,
+
+  // Market board
+  'budget.find': handleBudgetFindCommand,
+
+  // Settings
+  prefs: handlePrefsShowCommand,
+  'prefs.show': handlePrefsShowCommand,
+  'prefs.set': handlePrefsSetCommand,
+  'prefs.reset': handlePrefsResetCommand,
+  server: handleServerShowCommand,
+  'server.show': handleServerShowCommand,
+  'server.set': handleServerSetCommand,
+  'server.reset': handleServerResetCommand,
+  prefix: handlePrefixShowCommand,
+  'prefix.show': handlePrefixShowCommand,
+  'prefix.set': handlePrefixSetCommand,
+  'prefix.reset': handlePrefixResetCommand,
 };
@@ -0,0 +1,75 @@
+/**
+ * Tests for autumn-client.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ImageUploader, AutumnError } from './autumn-client.js';
+
+const AUTUMN_URL = 'https://autumn.example';
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+describe('ImageUploader', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('uploads the PNG as multipart form data and returns the file ID', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ id: 'file-01' })));
+    const uploader = new ImageUploader('bot-token', () => `${AUTUMN_URL}/`);
+
+    await expect(uploader.uploadPng(PNG, 'harmony.png')).resolves.toBe('file-01');
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe(`${AUTUMN_URL}/attachments`);
+    expect(init.method).toBe('POST');
+    expect(init.headers).toEqual({ 'X-Bot-Token': 'bot-token' });
+    const file = (init.body as FormData).get('file') as File;
+    expect(file.name).toBe('harmony.png');
+    expect(file.type).toBe('image/png');
+    expect(file.size).toBe(PNG.length);
+  });
+
+  it('looks up the Autumn URL on each upload', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ id: 'file-01' })));
+    const client: { autumnUrl?: string } = {};
+    const uploader = new ImageUploader('bot-token', () => client.autumnUrl);
+
+    await expect(uploader.uploadPng(PNG, 'a.png')).rejects.toThrow('Autumn URL is not known yet');
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    client.autumnUrl = AUTUMN_URL;
+    await expect(uploader.uploadPng(PNG, 'a.png')).resolves.toBe('file-01');
+  });
+
+  it('throws AutumnError with the status on a rejected upload', async () => {
+    fetchMock.mockResolvedValue(new Response('Payload Too Large', { status: 413 }));
+    const uploader = new ImageUploader('bot-token', () => AUTUMN_URL);
+
+    const error = await uploader.uploadPng(PNG, 'a.png').catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(AutumnError);
+    expect((error as AutumnError).status).toBe(413);
+  });
+
+  it('wraps network failures in AutumnError', async () => {
+    fetchMock.mockRejectedValue(new Error('ECONNRESET'));
+    const uploader = new ImageUploader('bot-token', () => AUTUMN_URL);
+
+    await expect(uploader.uploadPng(PNG, 'a.png')).rejects.toThrow(
+      'Autumn upload failed: ECONNRESET',
+    );
+  });
+
+  it('rejects a response without a file ID', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({})));
+    const uploader = new ImageUploader('bot-token', () => AUTUMN_URL);
+
+    await expect(uploader.uploadPng(PNG, 'a.png')).rejects.toBeInstanceOf(AutumnError);
+  });
+});
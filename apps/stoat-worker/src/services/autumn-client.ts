@@ -0,0 +1,80 @@
+/**
+ * Autumn (Stoat/Revolt file server) upload client.
+ *
+ * Stoat messages can't carry file bytes directly: files are uploaded to
+ * Autumn first, and the returned ID is referenced from the message's
+ * `attachments` or an embed's `media` field.
+ */
+
+/** Timeout for a single upload (ms) */
+const UPLOAD_TIMEOUT = 15_000;
+
+/** Autumn bucket for message attachments and embed media */
+const ATTACHMENTS_TAG = 'attachments';
+
+/**
+ * Error thrown when an Autumn upload fails or times out.
+ */
+export class AutumnError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'AutumnError';
+  }
+}
+
+/**
+ * Uploads rendered images to Autumn on behalf of the bot.
+ *
+ * The Autumn URL is looked up on every upload because revolt.js only learns
+ * it from the API root once the client has connected.
+ */
+export class ImageUploader {
+  constructor(
+    private readonly botToken: string,
+    private readonly getAutumnUrl: () => string | undefined,
+  ) {}
+
+  /**
+   * Upload a PNG and return its Autumn file ID.
+   *
+   * @throws AutumnError if Autumn is unavailable or rejects the upload
+   */
+  async uploadPng(png: Uint8Array, filename: string): Promise<string> {
+    const autumnUrl = this.getAutumnUrl();
+    if (!autumnUrl) {
+      throw new AutumnError(0, 'Autumn URL is not known yet');
+    }
+
+    // slice() copies into a plain ArrayBuffer, which Blob requires
+    const form = new FormData();
+    form.append('file', new Blob([png.slice()], { type: 'image/png' }), filename);
+
+    let response: Response;
+    try {
+      response = await fetch(`${autumnUrl.replace(/\/+$/, '')}/${ATTACHMENTS_TAG}`, {
+        method: 'POST',
+        headers: { 'X-Bot-Token': this.botToken },
+        body: form,
+        signal: AbortSignal.timeout(UPLOAD_TIMEOUT),
+      });
+    } catch (error) {
+      throw new AutumnError(
+        0,
+        `Autumn upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+
+    if (!response.ok) {
+      throw new AutumnError(response.status, `Autumn upload failed with ${response.status}`);
+    }
+
+    const { id } = (await response.json()) as { id?: string };
+    if (!id) {
+      throw new AutumnError(response.status, 'Autumn response did not include a file ID');
+    }
+    return id;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Tests for budget-calculator.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { getMarketItemID } from '@xivdyetools/core';
+import { dyeService } from '@xivdyetools/bot-logic';
+import type { Dye } from '@xivdyetools/types';
+import { findCheaperAlternatives } from './budget-calculator.js';
+
+const mockFetchMinPrices = vi.hoisted(() => vi.fn());
+vi.mock('./universalis-client.js', () => ({ fetchMinPrices: mockFetchMinPrices }));
+
+describe('findCheaperAlternatives', () => {
+  const target = dyeService.searchByName('Pure White')[0];
+
+  /** Price every requested item: the target at 50,000 Gil, others by ID */
+  function priceAll(overrides: Record<number, number> = {}): void {
+    mockFetchMinPrices.mockImplementation((_url: string, _world: string, ids: number[]) =>
+      Promise.resolve(
+        new Map(
+          ids.map((id) => [
+            id,
+            overrides[id] ?? (id === getMarketItemID(target) ? 50_000 : id % 1000),
+          ]),
+        ),
+      ),
+    );
+  }
+
+  beforeEach(() => {
+    mockFetchMinPrices.mockReset();
+  });
+
+  it('returns at most 5 cheaper, tradeable alternatives ranked by value score', async () => {
+    priceAll();
+
+    const result = await findCheaperAlternatives('https://u.example', target, 'Cactuar');
+
+    expect(result.targetPrice).toBe(50_000);
+    expect(result.world).toBe('Cactuar');
+    expect(result.alternatives.length).toBeGreaterThan(0);
+    expect(result.alternatives.length).toBeLessThanOrEqual(5);
+    for (const alt of result.alternatives) {
+      expect(alt.dye.itemID).toBeGreaterThan(0);
+      expect(alt.price).toBeLessThan(50_000);
+      expect(alt.colorDistance).toBeLessThanOrEqual(50);
+      expect(alt.savings).toBe(50_000 - alt.price);
+    }
+    const scores = result.alternatives.map((alt) => alt.valueScore);
+    expect(scores).toEqual([...scores].sort((a, b) => a - b));
+  });
+
+  it('skips dyes that cost as much as the target', async () => {
+    priceAll();
+    const first = (await findCheaperAlternatives('https://u.example', target, 'Cactuar'))
+      .alternatives[0].dye as Dye;
+
+    priceAll({ [getMarketItemID(first)]: 50_000 });
+    const result = await findCheaperAlternatives('https://u.example', target, 'Cactuar');
+
+    expect(result.alternatives.map((alt) => alt.dye.id)).not.toContain(first.id);
+  });
+
+  it('keeps alternatives without savings when the target has no listings', async () => {
+    mockFetchMinPrices.mockImplementation((_url: string, _world: string, ids: number[]) =>
+      Promise.resolve(
+        new Map(ids.filter((id) => id !== getMarketItemID(target)).map((id) => [id, 500])),
+      ),
+    );
+
+    const result = await findCheaperAlternatives('https://u.example', target, 'Cactuar');
+
+    expect(result.targetPrice).toBeNull();
+    expect(result.alternatives.every((alt) => alt.savings === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Budget calculator — cheaper dyes that look close to an expensive one.
+ *
+ * Same scoring as the Discord bot's `/budget find`: candidates within a
+ * color distance of the target are priced on the market board, and the ones
+ * cheaper than the target are ranked by a value score balancing looks and price.
+ */
+
+import { ColorService, getMarketItemID } from '@xivdyetools/core';
+import { dyeService } from '@xivdyetools/bot-logic';
+import type { Dye } from '@xivdyetools/types';
+import { fetchMinPrices } from './universalis-client.js';
+
+/** Maximum color distance for an alternative */
+const MAX_DISTANCE = 50;
+
+/** Number of alternatives to return */
+const RESULT_LIMIT = 5;
+
+/** A cheaper dye close in color to the target */
+export interface BudgetAlternative {
+  dye: Dye;
+  price: number;
+  colorDistance: number;
+  /** Gil saved compared to the target (0 when the target has no listings) */
+  savings: number;
+  /** Lower is better: colorDistance * 2 + price / 1000 */
+  valueScore: number;
+}
+
+/** Result of a budget search */
+export interface BudgetResult {
+  targetDye: Dye;
+  /** Lowest listing for the target, or null if it has none */
+  targetPrice: number | null;
+  alternatives: BudgetAlternative[];
+  world: string;
+}
+
+/**
+ * Find cheaper alternatives to a dye on a world or data center.
+ *
+ * @param baseUrl - Universalis API base URL
+ * @param targetDye - The dye to find alternatives for (must be tradeable)
+ * @param world - Canonical world or data center name
+ */
+export async function findCheaperAlternatives(
+  baseUrl: string,
+  targetDye: Dye,
+  world: string,
+): Promise<BudgetResult> {
+  // Pre-filter by color so only plausible candidates are priced
+  const candidates = dyeService
+    .getAllDyes()
+    .filter((dye) => dye.itemID > 0 && dye.itemID !== targetDye.itemID)
+    .map((dye) => ({ dye, colorDistance: ColorService.getColorDistance(targetDye.hex, dye.hex) }))
+    .filter(({ colorDistance }) => colorDistance <= MAX_DISTANCE);
+
+  const targetMarketId = getMarketItemID(targetDye);
+  const marketIds = new Set([targetMarketId, ...candidates.map(({ dye }) => getMarketItemID(dye))]);
+  const prices = await fetchMinPrices(baseUrl, world, Array.from(marketIds));
+
+  const targetPrice = prices.get(targetMarketId) ?? null;
+  const alternatives: BudgetAlternative[] = [];
+
+  for (const { dye, colorDistance } of candidates) {
+    const price = prices.get(getMarketItemID(dye));
+    if (price === undefined) continue;
+    if (targetPrice !== null && price >= targetPrice) continue;
+
+    alternatives.push({
+      dye,
+      price,
+      colorDistance,
+      savings: targetPrice !== null ? targetPrice - price : 0,
+      valueScore: colorDistance * 2 + price / 1000,
+    });
+  }
+
+  alternatives.sort((a, b) => a.valueScore - b.valueScore);
+
+  return {
+    targetDye,
+    targetPrice,
+    alternatives: alternatives.slice(0, RESULT_LIMIT),
+    world,
+  };
+}
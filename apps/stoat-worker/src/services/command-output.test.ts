@@ -0,0 +1,83 @@
+/**
+ * Tests for command-output.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { sendCommandOutput } from './command-output.js';
+import { sendImageReply } from './image-reply.js';
+import { MessageContextStore } from './message-context.js';
+import { MemoryStore } from './storage/index.js';
+import { createMockMessage } from '../test-utils/revolt-mocks.js';
+import type { CommandContext } from '../router.js';
+import type { StoatMessage } from './response-formatter.js';
+
+vi.mock('./image-reply.js', () => ({
+  sendImageReply: vi.fn().mockResolvedValue({ id: 'sent-msg-01' }),
+}));
+
+const EMBED = { title: 'Comparison', description: 'Two dyes', color: 0xececec };
+
+function createOutputContext(): CommandContext {
+  return {
+    message: createMockMessage() as any,
+    parsed: { prefix: '!xd', command: 'comparison', subcommand: null, rawArgs: [] },
+    config: { botToken: 'test-token', authorizedUsers: [] },
+    locale: 'en',
+    messageContextStore: new MessageContextStore(),
+    store: new MemoryStore(),
+  };
+}
+
+function sentMessage(ctx: CommandContext): StoatMessage {
+  return (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock
+    .calls[0][0] as StoatMessage;
+}
+
+describe('sendCommandOutput', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sends embeds as a reply', async () => {
+    const ctx = createOutputContext();
+    await sendCommandOutput(ctx, { embeds: [EMBED] });
+
+    expect(sendImageReply).not.toHaveBeenCalled();
+    expect(sentMessage(ctx)).toEqual({
+      embeds: [{ title: 'Comparison', description: 'Two dyes', colour: '#ececec' }],
+      replies: [{ id: 'msg-01', mention: false }],
+    });
+  });
+
+  it('renders the first attachment into the reply', async () => {
+    const ctx = createOutputContext();
+    const sent = await sendCommandOutput(ctx, {
+      embeds: [EMBED],
+      attachments: [{ filename: 'comparison.png', svg: '<svg/>' }],
+    });
+
+    expect(sent).toEqual({ id: 'sent-msg-01' });
+    expect(sendImageReply).toHaveBeenCalledWith(
+      ctx,
+      expect.objectContaining({ embeds: [expect.objectContaining({ title: 'Comparison' })] }),
+      { svgString: '<svg/>', filename: 'comparison.png' },
+    );
+  });
+
+  it('turns link buttons into Markdown links and drops action buttons', async () => {
+    const ctx = createOutputContext();
+    await sendCommandOutput(ctx, {
+      embeds: [EMBED, { title: 'Second', color: 0 }],
+      buttons: [
+        { label: 'Open in web app', url: 'https://xivdyetools.app', emoji: '🌐' },
+        { label: 'Refresh', id: 'refresh' },
+      ],
+    });
+
+    const { embeds } = sentMessage(ctx);
+    expect(embeds?.[0].description).toBe(
+      'Two dyes\n\n[🌐 Open in web app](https://xivdyetools.app)',
+    );
+    expect(embeds?.[1].description).toBe('');
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Command output adapter — send a bot-logic `CommandOutput` as a Stoat reply.
+ *
+ * Stoat has no message components or ephemeral replies, so link buttons
+ * become Markdown links under the first embed, action buttons are dropped
+ * and `ephemeral` is ignored. The first attachment is rendered into the
+ * first embed via `sendImageReply`.
+ */
+
+import type { Message } from 'revolt.js';
+import type { CommandOutput } from '@xivdyetools/bot-logic';
+import type { CommandContext } from '../router.js';
+import { sendImageReply } from './image-reply.js';
+import { formatEmbed, type StoatEmbed, type StoatMessage } from './response-formatter.js';
+
+/**
+ * Send `output` as a reply to the command message.
+ *
+ * @returns The sent message, if the channel is available
+ */
+export async function sendCommandOutput(
+  ctx: CommandContext,
+  output: CommandOutput,
+): Promise<Message | undefined> {
+  const reply: StoatMessage = {
+    embeds: withLinks(output.embeds.map(formatEmbed), output),
+    replies: [{ id: ctx.message.id, mention: false }],
+  };
+
+  const [image] = output.attachments ?? [];
+  if (!image) {
+    return ctx.message.channel?.sendMessage(reply);
+  }
+  return sendImageReply(ctx, reply, { svgString: image.svg, filename: image.filename });
+}
+
+/**
+ * Append link buttons to the first embed's description.
+ */
+function withLinks(embeds: StoatEmbed[], output: CommandOutput): StoatEmbed[] {
+  const links = (output.buttons ?? [])
+    .filter((button) => button.url)
+    .map((button) => `[${button.emoji ? `${button.emoji} ` : ''}${button.label}](${button.url})`);
+  if (links.length === 0 || embeds.length === 0) return embeds;
+
+  const [first, ...rest] = embeds;
+  const description = [first.description, links.join(' • ')].filter(Boolean).join('\n\n');
+  return [{ ...first, description }, ...rest];
+}
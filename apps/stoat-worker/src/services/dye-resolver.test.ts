@@ -8,6 +8,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import {
   resolveDyeInputMulti,
+  resolveColorArg,
+  resolveColorArgs,
   MULTI_MATCH_THRESHOLD,
   MAX_DISAMBIGUATION_RESULTS,
   type DyeResolutionResult,
@@ -211,3 +213,55 @@ describe('resolveDyeInputMulti', () => {
     });
   });
 });
+
+describe('resolveColorArg', () => {
+  it('keeps hex codes as raw colors', () => {
+    const result = resolveColorArg('#ff5733');
+    expect(result).toEqual({ ok: true, color: { hex: '#FF5733' } });
+  });
+
+  it('keeps CSS color names as raw colors', () => {
+    const result = resolveColorArg('BlueViolet');
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.color).toEqual({ hex: '#8A2BE2' });
+    }
+  });
+
+  it('resolves dye names to the dye', () => {
+    const result = resolveColorArg('Dalamud Red');
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.color.dye?.name).toBe('Dalamud Red');
+    }
+  });
+
+  it('snaps hex codes to the closest dye with requireDye', () => {
+    const result = resolveColorArg('#FFFFFF', 'en', { requireDye: true });
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.color.dye).toBeDefined();
+    }
+  });
+
+  it('fails with suggestions for unknown input', () => {
+    const result = resolveColorArg('xyzzyplugh12345');
+    expect(result).toMatchObject({ ok: false, failure: { kind: 'none' } });
+  });
+});
+
+describe('resolveColorArgs', () => {
+  it('resolves every argument in order', () => {
+    const result = resolveColorArgs(['#000000', 'Dalamud Red']);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.colors.map((c) => c.hex)).toEqual(['#000000', expect.any(String)]);
+      expect(result.colors[1].name).toBe('Dalamud Red');
+    }
+  });
+
+  it('stops at the first argument that does not resolve', () => {
+    const result = resolveColorArgs(['Dalamud Red', 'xyzzyplugh12345']);
+    expect(result).toMatchObject({ ok: false, failure: { query: 'xyzzyplugh12345' } });
+  });
+});
@@ -124,6 +124,63 @@ export function resolveDyeInputMulti(
   };
 }
 
+/**
+ * Result of resolving the color argument of a color tool command.
+ */
+export type ColorArgResult =
+  | { ok: true; color: ResolvedColor }
+  | { ok: false; failure: Exclude<DyeResolutionResult, { kind: 'single' }> };
+
+/**
+ * Resolve one color argument for a color tool (harmony, gradient, mixer, ...).
+ *
+ * Hex codes and CSS color names stay raw colors, as they do on Discord.
+ * Anything else must resolve to exactly one dye. With `requireDye`, hex and
+ * CSS inputs snap to their closest dye instead (for comparison, budget,
+ * accessibility).
+ */
+export function resolveColorArg(
+  input: string,
+  locale: LocaleCode = 'en',
+  options: { requireDye?: boolean } = {},
+): ColorArgResult {
+  const trimmed = input.trim();
+
+  if (!options.requireDye) {
+    const raw = resolveColorInput(trimmed);
+    if (raw && !raw.dye) {
+      return { ok: true, color: raw };
+    }
+  }
+
+  const resolution = resolveDyeInputMulti(trimmed, locale);
+  if (resolution.kind !== 'single') {
+    return { ok: false, failure: resolution };
+  }
+  if (options.requireDye && !resolution.dye.dye) {
+    return { ok: false, failure: { kind: 'none', query: trimmed, suggestions: [] } };
+  }
+  return { ok: true, color: resolution.dye };
+}
+
+/**
+ * Resolve every `>`-separated color argument of a multi-dye command,
+ * stopping at the first one that doesn't resolve.
+ */
+export function resolveColorArgs(
+  inputs: string[],
+  locale: LocaleCode = 'en',
+  options: { requireDye?: boolean } = {},
+): { ok: true; colors: ResolvedColor[] } | Extract<ColorArgResult, { ok: false }> {
+  const colors: ResolvedColor[] = [];
+  for (const input of inputs) {
+    const resolved = resolveColorArg(input, locale, options);
+    if (!resolved.ok) return resolved;
+    colors.push(resolved.color);
+  }
+  return { ok: true, colors };
+}
+
 /**
  * Get "did you mean?" suggestions for a misspelled input.
  * Uses a lightweight case-insensitive substring/prefix check.
@@ -0,0 +1,28 @@
+/**
+ * Tests for fonts.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getFontBuffers, FONT_FAMILIES } from './fonts.js';
+
+describe('getFontBuffers', () => {
+  it('loads the brand and CJK fonts', () => {
+    const buffers = getFontBuffers();
+
+    expect(buffers).toHaveLength(5);
+    for (const buffer of buffers) {
+      // TrueType files start with the 0x00010000 sfnt version
+      expect(Array.from(buffer.slice(0, 4))).toEqual([0x00, 0x01, 0x00, 0x00]);
+    }
+  });
+
+  it('caches the buffers', () => {
+    expect(getFontBuffers()).toBe(getFontBuffers());
+  });
+});
+
+describe('FONT_FAMILIES', () => {
+  it('names the default body font', () => {
+    expect(FONT_FAMILIES.body).toBe('Onest');
+  });
+});
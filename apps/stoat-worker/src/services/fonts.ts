@@ -0,0 +1,76 @@
+/**
+ * Font loading for SVG-to-PNG rendering with resvg-wasm.
+ *
+ * Uses the Discord worker's bundled fonts, read from disk on first use:
+ * - Space Grotesk: Headers (variable weight 300-700)
+ * - Onest: Body text, labels (variable weight 100-900)
+ * - Habibi: Hex codes (static, regular weight only)
+ * - Noto Sans SC / KR subsets: Japanese, Chinese and Korean dye names
+ *
+ * The files live only in apps/discord-worker/src/fonts (the CJK subsets are
+ * generated there by scripts/subset-cjk-fonts.py); the build script copies
+ * them into dist/fonts.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const FONT_FILES = [
+  'SpaceGrotesk-VariableFont_wght.ttf',
+  'Onest-VariableFont_wght.ttf',
+  'Habibi-Regular.ttf',
+  'NotoSansSC-Subset.ttf',
+  'NotoSansKR-Subset.ttf',
+];
+
+/**
+ * Where the fonts live relative to this module:
+ * src/services/fonts.ts → apps/discord-worker/src/fonts (tsx / vitest),
+ * dist/index.js → dist/fonts (tsup bundle, copied by the build script).
+ */
+const FONT_DIR_CANDIDATES = [
+  new URL('../../../discord-worker/src/fonts/', import.meta.url),
+  new URL('./fonts/', import.meta.url),
+];
+
+// Cache font buffers so the files are only read once per process
+let fontBuffersCache: Uint8Array[] | null = null;
+
+/**
+ * Returns font file data as Uint8Array buffers for resvg-wasm.
+ * Buffers are cached after first call.
+ *
+ * @throws If the font directory cannot be found
+ */
+export function getFontBuffers(): Uint8Array[] {
+  if (fontBuffersCache) {
+    return fontBuffersCache;
+  }
+
+  const fontDir = FONT_DIR_CANDIDATES.map((url) => fileURLToPath(url)).find((dir) =>
+    existsSync(join(dir, FONT_FILES[0])),
+  );
+  if (!fontDir) {
+    throw new Error('Font files not found; expected apps/discord-worker/src/fonts or dist/fonts');
+  }
+
+  fontBuffersCache = FONT_FILES.map((file) => new Uint8Array(readFileSync(join(fontDir, file))));
+  return fontBuffersCache;
+}
+
+/**
+ * Font family names as they appear in the font metadata.
+ */
+export const FONT_FAMILIES = {
+  /** Space Grotesk - for headers and titles */
+  header: 'Space Grotesk',
+  /** Onest - for body text and labels */
+  body: 'Onest',
+  /** Habibi - for hex codes and monospace-like text */
+  mono: 'Habibi',
+  /** Noto Sans SC - for CJK (Chinese/Japanese) text */
+  cjk: 'Noto Sans SC',
+  /** Noto Sans KR - for Korean text */
+  kr: 'Noto Sans KR',
+} as const;
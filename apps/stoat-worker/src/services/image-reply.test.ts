@@ -0,0 +1,111 @@
+/**
+ * Tests for image-reply.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { sendImageReply } from './image-reply.js';
+import { renderSvgToPng } from './renderer.js';
+import { ImageUploader } from './autumn-client.js';
+import { MessageContextStore } from './message-context.js';
+import { MemoryStore } from './storage/index.js';
+import { createMockMessage } from '../test-utils/revolt-mocks.js';
+import type { CommandContext } from '../router.js';
+import type { StoatMessage } from './response-formatter.js';
+
+vi.mock('./renderer.js', () => ({
+  renderSvgToPng: vi.fn().mockResolvedValue(new Uint8Array([0x89, 0x50, 0x4e, 0x47])),
+}));
+
+const IMAGE = { svgString: '<svg/>', filename: 'harmony-triadic.png' };
+
+function createImageContext(imageUploader?: ImageUploader): CommandContext {
+  return {
+    message: createMockMessage() as any,
+    parsed: { prefix: '!xd', command: 'harmony', subcommand: null, rawArgs: [] },
+    config: { botToken: 'test-token', authorizedUsers: [] },
+    locale: 'en',
+    messageContextStore: new MessageContextStore(),
+    store: new MemoryStore(),
+    imageUploader,
+  };
+}
+
+function createUploader(upload: () => Promise<string>): ImageUploader {
+  const uploader = new ImageUploader('test-token', () => 'https://autumn.example');
+  vi.spyOn(uploader, 'uploadPng').mockImplementation(upload);
+  return uploader;
+}
+
+function createReply(): StoatMessage {
+  return {
+    embeds: [{ title: 'Triadic', colour: '#ececec' }, { title: 'Second' }],
+    replies: [{ id: 'msg-01', mention: false }],
+  };
+}
+
+function sentMessage(ctx: CommandContext): StoatMessage {
+  return (ctx.message.channel?.sendMessage as ReturnType<typeof vi.fn>).mock
+    .calls[0][0] as StoatMessage;
+}
+
+describe('sendImageReply', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sets the uploaded image as the first embed media', async () => {
+    const ctx = createImageContext(createUploader(() => Promise.resolve('file-01')));
+
+    const sent = await sendImageReply(ctx, createReply(), IMAGE);
+
+    expect(sent).toEqual({ id: 'sent-msg-01' });
+    expect(renderSvgToPng).toHaveBeenCalledWith('<svg/>', { scale: 2 });
+    expect(ctx.imageUploader?.uploadPng).toHaveBeenCalledWith(
+      expect.any(Uint8Array),
+      'harmony-triadic.png',
+    );
+    const message = sentMessage(ctx);
+    expect(message.embeds?.[0]).toEqual({ title: 'Triadic', colour: '#ececec', media: 'file-01' });
+    expect(message.embeds?.[1]).toEqual({ title: 'Second' });
+    expect(message.replies).toEqual([{ id: 'msg-01', mention: false }]);
+  });
+
+  it('shows the loading indicator while rendering', async () => {
+    const ctx = createImageContext(createUploader(() => Promise.resolve('file-01')));
+
+    await sendImageReply(ctx, createReply(), IMAGE);
+
+    expect(ctx.message.react).toHaveBeenCalledOnce();
+    expect(ctx.message.unreact).toHaveBeenCalledOnce();
+  });
+
+  it('sends the text-only reply without rendering when there is no uploader', async () => {
+    const ctx = createImageContext();
+
+    await sendImageReply(ctx, createReply(), IMAGE);
+
+    expect(renderSvgToPng).not.toHaveBeenCalled();
+    expect(sentMessage(ctx)).toEqual(createReply());
+  });
+
+  it('falls back to the text-only reply when rendering fails', async () => {
+    vi.mocked(renderSvgToPng).mockRejectedValueOnce(new Error('Failed to render SVG'));
+    const ctx = createImageContext(createUploader(() => Promise.resolve('file-01')));
+
+    await sendImageReply(ctx, createReply(), IMAGE);
+
+    expect(ctx.imageUploader?.uploadPng).not.toHaveBeenCalled();
+    expect(sentMessage(ctx)).toEqual(createReply());
+  });
+
+  it('falls back to the text-only reply when the upload fails', async () => {
+    const ctx = createImageContext(
+      createUploader(() => Promise.reject(new Error('Autumn upload failed with 500'))),
+    );
+
+    await sendImageReply(ctx, createReply(), IMAGE);
+
+    expect(sentMessage(ctx)).toEqual(createReply());
+    expect(ctx.message.unreact).toHaveBeenCalledOnce();
+  });
+});
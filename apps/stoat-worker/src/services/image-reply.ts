@@ -0,0 +1,67 @@
+/**
+ * Image replies — render a command's SVG card to PNG, upload it to Autumn
+ * and show it as the reply embed's media.
+ *
+ * Rendering is best effort: if the uploader isn't configured or rendering or
+ * uploading fails, the same reply is sent text-only so the user still gets
+ * the result.
+ */
+
+import type { Message } from 'revolt.js';
+import { createLibraryLogger } from '@xivdyetools/logger';
+import type { CommandContext } from '../router.js';
+import { renderSvgToPng } from './renderer.js';
+import { withLoadingIndicator } from './loading-indicator.js';
+import type { StoatMessage } from './response-formatter.js';
+
+const logger = createLibraryLogger('stoat');
+
+/** The card to attach to a reply */
+export interface ReplyImage {
+  /** SVG card from @xivdyetools/svg (via bot-logic) */
+  svgString: string;
+  /** File name shown when the image is opened or downloaded */
+  filename: string;
+}
+
+/**
+ * Send `reply` with `image` rendered into its first embed,
+ * falling back to the text-only reply if the image can't be produced.
+ *
+ * @returns The sent message, if the channel is available
+ */
+export async function sendImageReply(
+  ctx: CommandContext,
+  reply: StoatMessage,
+  image: ReplyImage,
+): Promise<Message | undefined> {
+  const media = await renderAndUpload(ctx, image);
+
+  const message: StoatMessage =
+    media && reply.embeds?.length
+      ? { ...reply, embeds: [{ ...reply.embeds[0], media }, ...reply.embeds.slice(1)] }
+      : reply;
+
+  return ctx.message.channel?.sendMessage(message);
+}
+
+/**
+ * Render and upload the image, returning its Autumn ID or null on failure.
+ */
+async function renderAndUpload(ctx: CommandContext, image: ReplyImage): Promise<string | null> {
+  const uploader = ctx.imageUploader;
+  if (!uploader) return null;
+
+  try {
+    return await withLoadingIndicator(ctx.message, async () => {
+      const png = await renderSvgToPng(image.svgString, { scale: 2 });
+      return uploader.uploadPng(png, image.filename);
+    });
+  } catch (error) {
+    logger.warn('Image reply failed, sending text only', {
+      command: ctx.parsed.command,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
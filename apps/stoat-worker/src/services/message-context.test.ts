@@ -4,6 +4,7 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { MessageContextStore } from './message-context.js';
+import { MemoryStore } from './storage/index.js';
 
 describe('MessageContextStore', () => {
   let store: MessageContextStore;
@@ -13,55 +14,104 @@ describe('MessageContextStore', () => {
     vi.useRealTimers();
   });
 
-  it('stores and retrieves context', () => {
+  it('stores and retrieves context', async () => {
     const data = { command: 'dye-info', dyeId: 42, dyeHex: '#FF0000', createdAt: Date.now() };
-    store.set('msg-01', data);
-    expect(store.get('msg-01')).toEqual(data);
+    await store.set('msg-01', data);
+    expect(await store.get('msg-01')).toEqual(data);
   });
 
-  it('returns undefined for unknown message', () => {
-    expect(store.get('unknown')).toBeUndefined();
+  it('returns undefined for unknown message', async () => {
+    expect(await store.get('unknown')).toBeUndefined();
   });
 
-  it('deletes context', () => {
-    store.set('msg-01', { command: 'test', createdAt: Date.now() });
-    store.delete('msg-01');
-    expect(store.get('msg-01')).toBeUndefined();
+  it('deletes context', async () => {
+    await store.set('msg-01', { command: 'test', createdAt: Date.now() });
+    await store.delete('msg-01');
+    expect(await store.get('msg-01')).toBeUndefined();
   });
 
-  it('evicts expired entries on get', () => {
+  it('evicts expired entries on get', async () => {
     vi.useFakeTimers();
     const now = Date.now();
 
-    store.set('msg-old', { command: 'old', createdAt: now });
+    await store.set('msg-old', { command: 'old', createdAt: now });
 
     // Advance past TTL (1 hour)
     vi.advanceTimersByTime(61 * 60 * 1000);
 
-    expect(store.get('msg-old')).toBeUndefined();
+    expect(await store.get('msg-old')).toBeUndefined();
   });
 
-  it('does not evict entries within TTL', () => {
+  it('does not evict entries within TTL', async () => {
     vi.useFakeTimers();
     const now = Date.now();
 
-    store.set('msg-recent', { command: 'recent', createdAt: now });
+    await store.set('msg-recent', { command: 'recent', createdAt: now });
 
     // Advance 30 minutes (within 1-hour TTL)
     vi.advanceTimersByTime(30 * 60 * 1000);
 
-    expect(store.get('msg-recent')).toBeDefined();
+    expect(await store.get('msg-recent')).toBeDefined();
   });
 
-  it('evicts oldest entries when capacity is exceeded', () => {
+  it('evicts oldest entries when capacity is exceeded', async () => {
     // Fill to capacity (default 500) + 1
     for (let i = 0; i < 501; i++) {
-      store.set(`msg-${i}`, { command: `cmd-${i}`, createdAt: Date.now() });
+      await store.set(`msg-${i}`, { command: `cmd-${i}`, createdAt: Date.now() });
     }
 
     // The first entry should have been evicted
-    expect(store.get('msg-0')).toBeUndefined();
+    expect(await store.get('msg-0')).toBeUndefined();
     // The latest entry should still exist
-    expect(store.get('msg-500')).toBeDefined();
+    expect(await store.get('msg-500')).toBeDefined();
+  });
+
+  describe('with a backing store', () => {
+    let backing: MemoryStore;
+
+    beforeEach(() => {
+      backing = new MemoryStore();
+      store = new MessageContextStore(backing);
+    });
+
+    it('writes contexts through to the store', async () => {
+      await store.set('msg-01', { command: 'dye-info', dyeId: 42, createdAt: Date.now() });
+      expect(await backing.get('msgctx:v1:msg-01')).toContain('"dyeId":42');
+    });
+
+    it('restores contexts after a restart', async () => {
+      const data = { command: 'dye-info', dyeId: 42, createdAt: Date.now() };
+      await store.set('msg-01', data);
+
+      const restarted = new MessageContextStore(backing);
+      expect(restarted.size).toBe(0);
+      expect(await restarted.get('msg-01')).toEqual(data);
+      expect(restarted.size).toBe(1);
+    });
+
+    it('restores contexts evicted from memory', async () => {
+      for (let i = 0; i < 501; i++) {
+        await store.set(`msg-${i}`, { command: `cmd-${i}`, createdAt: Date.now() });
+      }
+      expect(await store.get('msg-0')).toBeDefined();
+    });
+
+    it('deletes contexts from the store', async () => {
+      await store.set('msg-01', { command: 'test', createdAt: Date.now() });
+      await store.delete('msg-01');
+      expect(await backing.get('msgctx:v1:msg-01')).toBeNull();
+    });
+
+    it('does not persist contexts that have already expired', async () => {
+      await store.set('msg-old', { command: 'old', createdAt: Date.now() - 2 * 60 * 60 * 1000 });
+      expect(await backing.get('msgctx:v1:msg-old')).toBeNull();
+    });
+
+    it('keeps working in memory when the store fails', async () => {
+      vi.spyOn(backing, 'put').mockRejectedValue(new Error('disk full'));
+      const data = { command: 'dye-info', createdAt: Date.now() };
+      await store.set('msg-01', data);
+      expect(await store.get('msg-01')).toEqual(data);
+    });
   });
 });
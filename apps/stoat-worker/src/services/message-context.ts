@@ -5,6 +5,11 @@
  * enabling reaction-based interactions (e.g., 🎨 → show HEX value).
  */
 
+import { createLibraryLogger } from '@xivdyetools/logger';
+import type { KeyValueStore } from './storage/index.js';
+
+const logger = createLibraryLogger('stoat');
+
 /** Context stored for each bot message */
 export interface MessageContext {
   /** The command that generated this message */
@@ -19,41 +24,79 @@ export interface MessageContext {
   createdAt: number;
 }
 
-/** Maximum number of contexts to track */
+/** Maximum number of contexts kept in memory */
 const MAX_CONTEXTS = 500;
 
 /** TTL for message contexts (1 hour) */
 const CONTEXT_TTL_MS = 60 * 60 * 1000;
 
+/** Key prefix for persisted contexts */
+const CONTEXT_KEY_PREFIX = 'msgctx:v1:';
+
 /**
  * Simple LRU-ish context store for message → dye mapping.
  * Used to handle reaction interactions on bot messages.
+ *
+ * Recent contexts are kept in memory; with a backing store they are also
+ * written through to it, so reactions on messages sent before a restart
+ * still resolve.
  */
 export class MessageContextStore {
   private readonly contexts = new Map<string, MessageContext>();
 
+  /**
+   * @param store - Persistent store to write through to (memory-only if omitted)
+   */
+  constructor(private readonly store?: KeyValueStore) {}
+
   /**
    * Store context for a bot message.
    */
-  set(messageId: string, context: MessageContext): void {
-    // Evict oldest entries if at capacity
-    if (this.contexts.size >= MAX_CONTEXTS) {
-      const oldest = this.contexts.keys().next().value;
-      if (oldest) this.contexts.delete(oldest);
+  async set(messageId: string, context: MessageContext): Promise<void> {
+    this.remember(messageId, context);
+
+    if (!this.store) return;
+
+    const ttlSeconds = Math.ceil((context.createdAt + CONTEXT_TTL_MS - Date.now()) / 1000);
+    if (ttlSeconds <= 0) return;
+
+    try {
+      await this.store.put(buildContextKey(messageId), JSON.stringify(context), {
+        expirationTtl: ttlSeconds,
+      });
+    } catch (error) {
+      // Non-critical — the context still works until the next restart
+      logger.warn('Failed to persist message context', {
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
-    this.contexts.set(messageId, context);
   }
 
   /**
    * Get context for a message, if it exists and hasn't expired.
    */
-  get(messageId: string): MessageContext | undefined {
-    const ctx = this.contexts.get(messageId);
+  async get(messageId: string): Promise<MessageContext | undefined> {
+    let ctx = this.contexts.get(messageId);
+
+    if (!ctx && this.store) {
+      try {
+        const data = await this.store.get(buildContextKey(messageId));
+        if (data) {
+          ctx = JSON.parse(data) as MessageContext;
+          this.remember(messageId, ctx);
+        }
+      } catch (error) {
+        logger.warn('Failed to load message context', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
     if (!ctx) return undefined;
 
     // Check TTL
     if (Date.now() - ctx.createdAt > CONTEXT_TTL_MS) {
-      this.contexts.delete(messageId);
+      await this.delete(messageId);
       return undefined;
     }
 
@@ -63,14 +106,35 @@ export class MessageContextStore {
   /**
    * Delete context for a message.
    */
-  delete(messageId: string): void {
+  async delete(messageId: string): Promise<void> {
     this.contexts.delete(messageId);
+
+    try {
+      await this.store?.delete(buildContextKey(messageId));
+    } catch (error) {
+      logger.warn('Failed to delete message context', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
   }
 
   /**
-   * Get the current number of tracked contexts.
+   * Get the current number of contexts held in memory.
    */
   get size(): number {
     return this.contexts.size;
   }
+
+  private remember(messageId: string, context: MessageContext): void {
+    // Evict oldest entries if at capacity
+    if (this.contexts.size >= MAX_CONTEXTS) {
+      const oldest = this.contexts.keys().next().value;
+      if (oldest) this.contexts.delete(oldest);
+    }
+    this.contexts.set(messageId, context);
+  }
+}
+
+function buildContextKey(messageId: string): string {
+  return `${CONTEXT_KEY_PREFIX}${messageId}`;
 }
@@ -0,0 +1,163 @@
+/**
+ * Tests for the user preferences service
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  getUserPreferences,
+  setPreference,
+  resetPreference,
+  resolveBlendingMode,
+  resolveMatchingMethod,
+  resolveCount,
+  resolveLocale,
+  validatePreferenceValue,
+} from './preferences.js';
+import { MemoryStore } from './storage/index.js';
+
+describe('preferences service', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+  });
+
+  describe('getUserPreferences', () => {
+    it('returns an empty object when nothing is set', async () => {
+      expect(await getUserPreferences(store, 'user-01')).toEqual({});
+    });
+
+    it('returns an empty object without a user ID', async () => {
+      expect(await getUserPreferences(store, undefined)).toEqual({});
+    });
+
+    it('reads the Discord-compatible key', async () => {
+      await store.put('prefs:v1:user-01', JSON.stringify({ language: 'ja', _version: 1 }));
+      expect(await getUserPreferences(store, 'user-01')).toMatchObject({ language: 'ja' });
+    });
+
+    it('returns an empty object when the store fails', async () => {
+      vi.spyOn(store, 'get').mockRejectedValue(new Error('disk I/O error'));
+      expect(await getUserPreferences(store, 'user-01')).toEqual({});
+    });
+  });
+
+  describe('setPreference', () => {
+    it('stores a normalized value with metadata', async () => {
+      const result = await setPreference(store, 'user-01', 'blending', 'OKLAB');
+
+      expect(result.success).toBe(true);
+      const prefs = await getUserPreferences(store, 'user-01');
+      expect(prefs.blending).toBe('oklab');
+      expect(prefs._version).toBe(1);
+      expect(prefs.updatedAt).toBeDefined();
+    });
+
+    it('keeps other preferences', async () => {
+      await setPreference(store, 'user-01', 'language', 'de');
+      await setPreference(store, 'user-01', 'count', '3');
+
+      expect(await getUserPreferences(store, 'user-01')).toMatchObject({
+        language: 'de',
+        count: 3,
+      });
+    });
+
+    it('rejects invalid values without writing', async () => {
+      const result = await setPreference(store, 'user-01', 'count', '11');
+
+      expect(result).toEqual({ success: false, reason: 'invalidCount' });
+      expect(await store.get('prefs:v1:user-01')).toBeNull();
+    });
+
+    it('reports store failures', async () => {
+      vi.spyOn(store, 'put').mockRejectedValue(new Error('disk full'));
+      expect(await setPreference(store, 'user-01', 'language', 'ja')).toEqual({
+        success: false,
+        reason: 'error',
+      });
+    });
+  });
+
+  describe('resetPreference', () => {
+    beforeEach(async () => {
+      await setPreference(store, 'user-01', 'language', 'ja');
+      await setPreference(store, 'user-01', 'count', '8');
+    });
+
+    it('resets a single preference', async () => {
+      expect(await resetPreference(store, 'user-01', 'language')).toBe(true);
+
+      const prefs = await getUserPreferences(store, 'user-01');
+      expect(prefs.language).toBeUndefined();
+      expect(prefs.count).toBe(8);
+    });
+
+    it('deletes the entry when the last preference is reset', async () => {
+      await resetPreference(store, 'user-01', 'language');
+      await resetPreference(store, 'user-01', 'count');
+      expect(await store.get('prefs:v1:user-01')).toBeNull();
+    });
+
+    it('resets everything without a key', async () => {
+      expect(await resetPreference(store, 'user-01')).toBe(true);
+      expect(await getUserPreferences(store, 'user-01')).toEqual({});
+    });
+
+    it('returns false when the store fails', async () => {
+      vi.spyOn(store, 'delete').mockRejectedValue(new Error('disk I/O error'));
+      expect(await resetPreference(store, 'user-01')).toBe(false);
+    });
+  });
+
+  describe('resolution helpers', () => {
+    it('prefers explicit arguments', () => {
+      const prefs = { blending: 'ryb', matching: 'hyab', count: 3 } as const;
+      expect(resolveBlendingMode('lab', prefs)).toBe('lab');
+      expect(resolveMatchingMethod('cie76', prefs)).toBe('cie76');
+      expect(resolveCount(7, prefs)).toBe(7);
+    });
+
+    it('falls back to preferences', () => {
+      const prefs = { blending: 'ryb', matching: 'hyab', count: 3 } as const;
+      expect(resolveBlendingMode(undefined, prefs)).toBe('ryb');
+      expect(resolveMatchingMethod('nope', prefs)).toBe('hyab');
+      expect(resolveCount(undefined, prefs)).toBe(3);
+    });
+
+    it('falls back to system defaults', () => {
+      expect(resolveBlendingMode(undefined, {})).toBe('rgb');
+      expect(resolveMatchingMethod(undefined, {})).toBe('oklab');
+      expect(resolveCount(undefined, {})).toBe(5);
+    });
+
+    it('resolves the locale from the user, then the server, then English', () => {
+      expect(resolveLocale({ language: 'ja' }, { language: 'fr' })).toBe('ja');
+      expect(resolveLocale({}, { language: 'fr' })).toBe('fr');
+      expect(resolveLocale({}, {})).toBe('en');
+    });
+  });
+
+  describe('validatePreferenceValue', () => {
+    it.each([
+      ['language', 'JA', 'ja'],
+      ['matching', 'CIEDE2000', 'ciede2000'],
+      ['blending', 'spectral', 'spectral'],
+      ['count', '10', 10],
+      ['world', ' Balmung ', 'Balmung'],
+    ] as const)('accepts %s = %s', (key, value, expected) => {
+      expect(validatePreferenceValue(key, value)).toEqual({ valid: true, value: expected });
+    });
+
+    it.each([
+      ['language', 'xx', 'invalidLanguage'],
+      ['matching', 'euclid', 'invalidMatchingMethod'],
+      ['blending', 'paint', 'invalidBlendingMode'],
+      ['count', '0', 'invalidCount'],
+      ['count', '2.5', 'invalidCount'],
+      ['world', '  ', 'invalidWorld'],
+    ] as const)('rejects %s = %s', (key, value, reason) => {
+      expect(validatePreferenceValue(key, value)).toEqual({ valid: false, reason });
+    });
+  });
+});
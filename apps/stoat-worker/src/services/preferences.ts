@@ -0,0 +1,232 @@
+/**
+ * User preferences service.
+ *
+ * Stores all of a user's preferences in a single JSON entry, with the same
+ * key and schema as the Discord bot's unified preferences.
+ *
+ * Key: `prefs:v1:{userId}`
+ *
+ * @module services/preferences
+ */
+
+import type { LocaleCode } from '@xivdyetools/bot-i18n';
+import { createLibraryLogger } from '@xivdyetools/logger';
+import type { KeyValueStore } from './storage/index.js';
+import type { ServerSettings } from '../types/server-settings.js';
+import {
+  PREFERENCE_DEFAULTS,
+  isValidBlendingMode,
+  isValidCount,
+  isValidLocale,
+  isValidMatchingMethod,
+  type BlendingMode,
+  type MatchingMethod,
+  type PreferenceKey,
+  type UserPreferences,
+} from '../types/preferences.js';
+
+const logger = createLibraryLogger('stoat');
+
+/** Current schema version */
+const SCHEMA_VERSION = 1;
+
+/** Key prefix for unified preferences */
+const PREFS_KEY_PREFIX = 'prefs:v1:';
+
+function buildPrefsKey(userId: string): string {
+  return `${PREFS_KEY_PREFIX}${userId}`;
+}
+
+/**
+ * Get a user's complete preferences object.
+ * Returns an empty object if none are set (defaults apply) or the store fails.
+ *
+ * @param userId - Stoat user ID (undefined for messages without an author)
+ */
+export async function getUserPreferences(
+  store: KeyValueStore,
+  userId: string | undefined,
+): Promise<UserPreferences> {
+  if (!userId) return {};
+
+  try {
+    const data = await store.get(buildPrefsKey(userId));
+    return data ? (JSON.parse(data) as UserPreferences) : {};
+  } catch (error) {
+    logger.error('Failed to get user preferences', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {};
+  }
+}
+
+/**
+ * Validate and set a single preference.
+ *
+ * @param value - Raw value as typed by the user
+ * @returns The stored preferences, or the reason the value was rejected
+ */
+export async function setPreference(
+  store: KeyValueStore,
+  userId: string,
+  key: PreferenceKey,
+  value: string,
+): Promise<{ success: true; prefs: UserPreferences } | { success: false; reason: string }> {
+  const validation = validatePreferenceValue(key, value);
+  if (!validation.valid) {
+    return { success: false, reason: validation.reason };
+  }
+
+  try {
+    const prefs = await getUserPreferences(store, userId);
+    const next: UserPreferences = {
+      ...prefs,
+      [key]: validation.value,
+      updatedAt: new Date().toISOString(),
+      _version: SCHEMA_VERSION,
+    };
+
+    await store.put(buildPrefsKey(userId), JSON.stringify(next));
+    return { success: true, prefs: next };
+  } catch (error) {
+    logger.error('Failed to set preference', {
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { success: false, reason: 'error' };
+  }
+}
+
+/**
+ * Reset one preference to its default, or all of them when no key is given.
+ *
+ * @returns True if reset successfully
+ */
+export async function resetPreference(
+  store: KeyValueStore,
+  userId: string,
+  key?: PreferenceKey,
+): Promise<boolean> {
+  try {
+    if (!key) {
+      await store.delete(buildPrefsKey(userId));
+      return true;
+    }
+
+    const prefs = await getUserPreferences(store, userId);
+    delete prefs[key];
+
+    const hasPrefs = Object.keys(prefs).some((k) => !k.startsWith('_') && k !== 'updatedAt');
+    if (hasPrefs) {
+      prefs.updatedAt = new Date().toISOString();
+      prefs._version = SCHEMA_VERSION;
+      await store.put(buildPrefsKey(userId), JSON.stringify(prefs));
+    } else {
+      await store.delete(buildPrefsKey(userId));
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Failed to reset preference', {
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+// ============================================================================
+// Resolution Helpers
+// ============================================================================
+
+/**
+ * Resolve reply language: user preference → server default → English
+ */
+export function resolveLocale(prefs: UserPreferences, server: ServerSettings): LocaleCode {
+  return prefs.language ?? server.language ?? PREFERENCE_DEFAULTS.language;
+}
+
+/**
+ * Resolve blending mode: explicit argument → user preference → default
+ */
+export function resolveBlendingMode(
+  explicit: string | undefined,
+  prefs: UserPreferences,
+): BlendingMode {
+  if (explicit && isValidBlendingMode(explicit)) {
+    return explicit;
+  }
+  return prefs.blending ?? PREFERENCE_DEFAULTS.blending;
+}
+
+/**
+ * Resolve matching method: explicit argument → user preference → default
+ */
+export function resolveMatchingMethod(
+  explicit: string | undefined,
+  prefs: UserPreferences,
+): MatchingMethod {
+  if (explicit && isValidMatchingMethod(explicit)) {
+    return explicit;
+  }
+  return prefs.matching ?? PREFERENCE_DEFAULTS.matching;
+}
+
+/**
+ * Resolve result count: explicit argument → user preference → default
+ */
+export function resolveCount(explicit: number | undefined, prefs: UserPreferences): number {
+  if (explicit !== undefined && isValidCount(explicit)) {
+    return explicit;
+  }
+  return prefs.count ?? PREFERENCE_DEFAULTS.count;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a raw preference value and convert it to its stored form
+ */
+export function validatePreferenceValue(
+  key: PreferenceKey,
+  value: string,
+): { valid: true; value: UserPreferences[PreferenceKey] } | { valid: false; reason: string } {
+  const trimmed = value.trim();
+
+  switch (key) {
+    case 'language': {
+      const code = trimmed.toLowerCase();
+      return isValidLocale(code)
+        ? { valid: true, value: code }
+        : { valid: false, reason: 'invalidLanguage' };
+    }
+
+    case 'matching': {
+      const method = trimmed.toLowerCase();
+      return isValidMatchingMethod(method)
+        ? { valid: true, value: method }
+        : { valid: false, reason: 'invalidMatchingMethod' };
+    }
+
+    case 'blending': {
+      const mode = trimmed.toLowerCase();
+      return isValidBlendingMode(mode)
+        ? { valid: true, value: mode }
+        : { valid: false, reason: 'invalidBlendingMode' };
+    }
+
+    case 'count': {
+      const count = /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : NaN;
+      return isValidCount(count)
+        ? { valid: true, value: count }
+        : { valid: false, reason: 'invalidCount' };
+    }
+
+    case 'world':
+      return trimmed.length > 0
+        ? { valid: true, value: trimmed }
+        : { valid: false, reason: 'invalidWorld' };
+  }
+}
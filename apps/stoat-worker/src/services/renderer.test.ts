@@ -0,0 +1,46 @@
+/**
+ * Tests for renderer.ts
+ *
+ * Renders for real: the WASM binary and fonts are read from disk in Node,
+ * so this also checks they can be found.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { initRenderer, renderSvgToPng } from './renderer.js';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const SVG =
+  '<svg xmlns="http://www.w3.org/2000/svg" width="40" height="20">' +
+  '<rect width="40" height="20" fill="#ECECEC"/>' +
+  '<text x="2" y="14" font-family="Onest" font-size="12">スノウ</text>' +
+  '</svg>';
+
+/** Read width and height from the PNG IHDR chunk */
+function pngSize(png: Uint8Array): { width: number; height: number } {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+describe('renderer', () => {
+  it('initializes once across concurrent calls', async () => {
+    await expect(Promise.all([initRenderer(), initRenderer()])).resolves.toBeDefined();
+  });
+
+  it('renders an SVG to a PNG at 2x by default', async () => {
+    const png = await renderSvgToPng(SVG);
+
+    expect(Array.from(png.slice(0, 8))).toEqual(PNG_SIGNATURE);
+    expect(pngSize(png)).toEqual({ width: 80, height: 40 });
+  });
+
+  it('honours the scale option', async () => {
+    const png = await renderSvgToPng(SVG, { scale: 1 });
+
+    expect(pngSize(png)).toEqual({ width: 40, height: 20 });
+  });
+
+  it('wraps invalid SVG in a render error', async () => {
+    await expect(renderSvgToPng('<not-svg')).rejects.toThrow('Failed to render SVG');
+  });
+});
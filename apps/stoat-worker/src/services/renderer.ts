@@ -0,0 +1,93 @@
+/**
+ * SVG to PNG renderer.
+ *
+ * Uses resvg-wasm (the same renderer as the Discord worker) so cards look
+ * identical on both platforms. In Node the WASM binary is read from the
+ * package on disk instead of being bundled by wrangler.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { Resvg, initWasm } from '@resvg/resvg-wasm';
+import { getFontBuffers, FONT_FAMILIES } from './fonts.js';
+
+const require = createRequire(import.meta.url);
+
+// Track WASM initialization state
+let wasmInitialized = false;
+let wasmInitPromise: Promise<void> | null = null;
+
+/**
+ * Initializes the WASM module.
+ * Safe to call multiple times - will only initialize once.
+ */
+export async function initRenderer(): Promise<void> {
+  if (wasmInitialized) return;
+
+  if (wasmInitPromise) {
+    await wasmInitPromise;
+    return;
+  }
+
+  wasmInitPromise = (async (): Promise<void> => {
+    try {
+      const wasm = await readFile(require.resolve('@resvg/resvg-wasm/index_bg.wasm'));
+      await initWasm(wasm);
+      wasmInitialized = true;
+    } catch (error) {
+      throw new Error(
+        `Failed to initialize SVG renderer: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { cause: error },
+      );
+    }
+  })();
+
+  // Reset the cached promise on failure so the next render retries init
+  // instead of re-awaiting the same rejection for the life of the process
+  wasmInitPromise.catch(() => {
+    wasmInitPromise = null;
+  });
+
+  await wasmInitPromise;
+}
+
+/**
+ * Renders an SVG string to a PNG buffer.
+ *
+ * @param svgString - SVG content to render
+ * @param options - Rendering options
+ */
+export async function renderSvgToPng(
+  svgString: string,
+  options: {
+    /** Scale factor (2 = 2x resolution) */
+    scale?: number;
+    /** Background color (default: transparent) */
+    background?: string;
+  } = {},
+): Promise<Uint8Array> {
+  await initRenderer();
+
+  const { scale = 2, background } = options;
+
+  try {
+    const resvg = new Resvg(svgString, {
+      fitTo: {
+        mode: 'zoom',
+        value: scale,
+      },
+      background,
+      font: {
+        fontBuffers: getFontBuffers(),
+        defaultFontFamily: FONT_FAMILIES.body,
+      },
+    });
+
+    return resvg.render().asPng();
+  } catch (error) {
+    throw new Error(
+      `Failed to render SVG: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      { cause: error },
+    );
+  }
+}
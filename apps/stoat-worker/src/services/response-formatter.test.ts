@@ -5,10 +5,14 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import { initializeLocale } from '@xivdyetools/bot-logic';
 import {
   formatErrorReply,
   formatDisambiguationList,
   formatNoMatchReply,
+  formatResolutionFailure,
+  formatEmbed,
+  formatEmbedReply,
   colorToHex,
   DYE_INFO_REACTIONS,
 } from './response-formatter.js';
@@ -28,21 +32,26 @@ describe('DYE_INFO_REACTIONS', () => {
 
 describe('formatErrorReply', () => {
   it('returns a reply with error content', () => {
-    const result = formatErrorReply('msg-01', 'Something went wrong');
+    const result = formatErrorReply('msg-01', 'Something went wrong', 'en');
     expect(result.content).toBe('Something went wrong');
     expect(result.replies).toEqual([{ id: 'msg-01', mention: false }]);
   });
 
   it('appends usage hint when provided', () => {
-    const result = formatErrorReply('msg-01', 'Missing argument', '!xd info <dye>');
+    const result = formatErrorReply('msg-01', 'Missing argument', 'en', '!xd info <dye>');
     expect(result.content).toContain('Missing argument');
     expect(result.content).toContain('Usage: `!xd info <dye>`');
   });
 
   it('does not include usage line when omitted', () => {
-    const result = formatErrorReply('msg-01', 'Oops');
+    const result = formatErrorReply('msg-01', 'Oops', 'en');
     expect(result.content).not.toContain('Usage:');
   });
+
+  it('labels the usage line in the given locale', () => {
+    const result = formatErrorReply('msg-01', 'Oops', 'de', '!xd info <dye>');
+    expect(result.content).toContain('Verwendung: `!xd info <dye>`');
+  });
 });
 
 describe('formatDisambiguationList', () => {
@@ -114,6 +123,100 @@ describe('formatNoMatchReply', () => {
   });
 });
 
+describe('formatResolutionFailure', () => {
+  it('sends suggestions when nothing matched', () => {
+    const result = formatResolutionFailure('msg-01', {
+      kind: 'none',
+      query: 'whte',
+      suggestions: ['Snow White'],
+    });
+    expect(result.content).toContain('No dye found matching "whte"');
+    expect(result.content).toContain('Did you mean: Snow White?');
+  });
+
+  it('lists the candidates when several dyes matched', () => {
+    const result = formatResolutionFailure('msg-01', {
+      kind: 'multiple',
+      query: 'white',
+      dyes: [
+        { hex: '#ffffff', name: 'Snow White', itemID: 5729 },
+        { hex: '#f9f8f4', name: 'Pure White', itemID: 5730 },
+      ],
+    });
+    expect(result.content).toContain('Found 2 dyes matching "white"');
+    expect(result.content).toContain('1. Snow White (5729)');
+  });
+
+  it('reports the full total for a disambiguation list', () => {
+    const result = formatResolutionFailure('msg-01', {
+      kind: 'disambiguation',
+      query: 'red',
+      dyes: [{ hex: '#781a1a', name: 'Dalamud Red', itemID: 5740 }],
+      total: 15,
+    });
+    expect(result.content).toContain('Found 15 dyes matching "red"');
+  });
+
+  it('replies in the given locale with localized candidate names', async () => {
+    await initializeLocale('ja');
+    const result = formatResolutionFailure(
+      'msg-01',
+      {
+        kind: 'multiple',
+        query: 'white',
+        dyes: [
+          { hex: '#ffffff', name: 'Snow White', itemID: 5729 },
+          { hex: '#f9f8f4', name: 'Pure White', itemID: 5730 },
+        ],
+      },
+      'ja',
+    );
+    expect(result.content).toContain('「white」に一致する染料が 2 件見つかりました');
+    expect(result.content).toContain('1. スノウホワイト (5729)');
+  });
+
+  it('localizes the no-match reply', () => {
+    const result = formatResolutionFailure(
+      'msg-01',
+      { kind: 'none', query: 'blanc', suggestions: [] },
+      'fr',
+    );
+    expect(result.content).toContain('Aucune teinture ne correspond à « blanc »');
+  });
+});
+
+describe('formatEmbed', () => {
+  it('converts the color and keeps title and description', () => {
+    const embed = formatEmbed({ title: 'Title', description: 'Body', color: 0xff5733 });
+    expect(embed).toEqual({ title: 'Title', description: 'Body', colour: '#ff5733' });
+  });
+
+  it('flattens fields into bold-headed Markdown blocks', () => {
+    const embed = formatEmbed({
+      title: 'Match',
+      fields: [
+        { name: 'Input', value: '`#FF5733`', inline: true },
+        { name: 'Closest', value: 'Coral Pink', inline: true },
+      ],
+      color: 0,
+    });
+    expect(embed.description).toBe('**Input**\n`#FF5733`\n\n**Closest**\nCoral Pink');
+  });
+
+  it('appends the footer as an italic last line', () => {
+    const embed = formatEmbed({ title: 'T', description: 'Body', color: 0, footer: 'XIV Dye Tools' });
+    expect(embed.description).toBe('Body\n\n*XIV Dye Tools*');
+  });
+});
+
+describe('formatEmbedReply', () => {
+  it('replies with the converted embed', () => {
+    const result = formatEmbedReply('msg-01', { title: 'T', color: 0xffffff });
+    expect(result.embeds).toEqual([{ title: 'T', description: '', colour: '#ffffff' }]);
+    expect(result.replies).toEqual([{ id: 'msg-01', mention: false }]);
+  });
+});
+
 describe('colorToHex', () => {
   it('formats a color number as a 6-digit hex string', () => {
     expect(colorToHex(0xff5733)).toBe('#ff5733');
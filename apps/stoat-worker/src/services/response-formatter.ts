@@ -8,6 +8,10 @@
  * - media field renders images inline in embed
  */
 
+import { createTranslator, type LocaleCode } from '@xivdyetools/bot-i18n';
+import { getLocalizedDyeName, type EmbedData, type ResolvedColor } from '@xivdyetools/bot-logic';
+import type { DyeResolutionResult } from './dye-resolver.js';
+
 /** Stoat SendableEmbed structure */
 export interface StoatEmbed {
   title?: string;
@@ -51,11 +55,12 @@ export const DYE_INFO_REACTIONS = [
 export function formatErrorReply(
   messageId: string,
   errorText: string,
+  locale: LocaleCode,
   usage?: string,
 ): StoatMessage {
   let content = errorText;
   if (usage) {
-    content += `\nUsage: \`${usage}\``;
+    content += `\n${createTranslator(locale).t('stoat.usage')}: \`${usage}\``;
   }
   return {
     content,
@@ -71,17 +76,19 @@ export function formatDisambiguationList(
   query: string,
   dyes: Array<{ name: string; itemID: number | null }>,
   total: number,
+  locale: LocaleCode = 'en',
 ): StoatMessage {
+  const t = createTranslator(locale);
   const lines = dyes.map(
     (dye, i) => `  ${i + 1}. ${dye.name}${dye.itemID && dye.itemID > 0 ? ` (${dye.itemID})` : ''}`,
   );
 
-  let content = `Found ${total} dyes matching "${query}":\n${lines.join('\n')}`;
+  let content = `${t.t('stoat.resolution.disambiguation', { total, query })}\n${lines.join('\n')}`;
   if (total > dyes.length) {
-    content += `\n  ... and ${total - dyes.length} more`;
+    content += `\n  ${t.t('stoat.resolution.more', { count: total - dyes.length })}`;
   }
-  content += '\n\nUse the full name or ItemID for an exact match.';
-  content += '\nExample: `!xd info Snow White`  or  `!xd info 5729`';
+  content += `\n\n${t.t('stoat.resolution.useExactName')}`;
+  content += `\n${t.t('stoat.resolution.example')}: \`!xd info Snow White\`  /  \`!xd info 5729\``;
 
   return {
     content,
@@ -96,12 +103,14 @@ export function formatNoMatchReply(
   messageId: string,
   query: string,
   suggestions: string[],
+  locale: LocaleCode = 'en',
 ): StoatMessage {
-  let content = `No dye found matching "${query}".`;
+  const t = createTranslator(locale);
+  let content = t.t('stoat.resolution.noMatch', { query });
   if (suggestions.length > 0) {
-    content += `\nDid you mean: ${suggestions.join(', ')}?`;
+    content += `\n${t.t('stoat.resolution.didYouMean', { suggestions: suggestions.join(', ') })}`;
   }
-  content += '\n\nTip: You can also use an ItemID (e.g. `!xd info 5743`).';
+  content += `\n\n${t.t('stoat.resolution.itemIdTip', { example: '`!xd info 5743`' })}`;
 
   return {
     content,
@@ -109,6 +118,76 @@ export function formatNoMatchReply(
   };
 }
 
+/**
+ * Reply with the right message when a dye argument didn't resolve to one dye:
+ * suggestions for no match, the candidate list for several.
+ *
+ * Candidate names are shown in `locale`, which must already be initialized
+ * with `initializeLocale` (English names are used otherwise).
+ */
+export function formatResolutionFailure(
+  messageId: string,
+  failure: Exclude<DyeResolutionResult, { kind: 'single' }>,
+  locale: LocaleCode = 'en',
+): StoatMessage {
+  if (failure.kind === 'none') {
+    return formatNoMatchReply(messageId, failure.query, failure.suggestions, locale);
+  }
+
+  return formatDisambiguationList(
+    messageId,
+    failure.query,
+    failure.dyes.map((d) => localizedCandidate(d, locale)),
+    failure.kind === 'disambiguation' ? failure.total : failure.dyes.length,
+    locale,
+  );
+}
+
+/**
+ * A disambiguation candidate with its name in the reply language.
+ */
+function localizedCandidate(
+  dye: ResolvedColor,
+  locale: LocaleCode,
+): { name: string; itemID: number | null } {
+  const name = dye.name ?? '';
+  const itemID = dye.itemID ?? null;
+  return { name: itemID ? getLocalizedDyeName(itemID, name, locale) : name, itemID };
+}
+
+/**
+ * Convert a platform-neutral bot-logic embed to a Stoat embed.
+ * Fields become bold-headed Markdown blocks and the footer an italic last line.
+ */
+export function formatEmbed(embed: EmbedData): StoatEmbed {
+  const sections: string[] = [];
+  if (embed.description) {
+    sections.push(embed.description);
+  }
+  for (const field of embed.fields ?? []) {
+    sections.push(`**${field.name}**\n${field.value}`);
+  }
+  if (embed.footer) {
+    sections.push(`*${embed.footer}*`);
+  }
+
+  return {
+    title: embed.title,
+    description: sections.join('\n\n'),
+    colour: colorToHex(embed.color),
+  };
+}
+
+/**
+ * Format a bot-logic embed as a reply to the user's message.
+ */
+export function formatEmbedReply(messageId: string, embed: EmbedData): StoatMessage {
+  return {
+    embeds: [formatEmbed(embed)],
+    replies: [{ id: messageId, mention: false }],
+  };
+}
+
 /**
  * Convert a numeric color to a CSS hex string for Stoat embed colour field.
  * @param color - Decimal color value (e.g., 0xECECEC)
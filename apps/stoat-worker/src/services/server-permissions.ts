@@ -0,0 +1,52 @@
+/**
+ * Permission checks for commands that change server-wide settings.
+ *
+ * Server managers (members with Manage Server) and bot admins may change a
+ * server's prefix and defaults; everyone else gets an error reply.
+ */
+
+import type { CommandContext } from '../router.js';
+import { isAuthorized } from '../config.js';
+import { formatErrorReply } from './response-formatter.js';
+
+/** Error replies for the two ways the check can fail */
+export interface ManagerCheckMessages {
+  /** Sent when the command was used outside a server */
+  serverOnly: string;
+  /** Sent when the author can't manage the server */
+  noPermission: string;
+}
+
+/**
+ * Check that the command was sent in a server by a member with Manage
+ * Server (or a bot admin), replying with an error otherwise.
+ *
+ * @returns The server and user IDs, or null if the caller may not change settings
+ */
+export async function requireManager(
+  ctx: CommandContext,
+  messages: ManagerCheckMessages,
+): Promise<{ serverId: string; userId: string } | null> {
+  const { message } = ctx;
+  const { server, authorId } = message;
+  if (!authorId) return null;
+
+  if (!server) {
+    await message.channel?.sendMessage(
+      formatErrorReply(message.id, messages.serverOnly, ctx.locale),
+    );
+    return null;
+  }
+
+  const canManage =
+    message.member?.hasPermission(server, 'ManageServer') === true ||
+    isAuthorized(ctx.config, authorId);
+  if (!canManage) {
+    await message.channel?.sendMessage(
+      formatErrorReply(message.id, messages.noPermission, ctx.locale),
+    );
+    return null;
+  }
+
+  return { serverId: server.id, userId: authorId };
+}
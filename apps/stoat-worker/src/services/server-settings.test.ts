@@ -0,0 +1,93 @@
+/**
+ * Tests for the server settings service
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  getServerSettings,
+  updateServerSettings,
+  resetServerSetting,
+  clearServerSettingsCache,
+} from './server-settings.js';
+import { MemoryStore } from './storage/index.js';
+
+describe('server settings service', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    clearServerSettingsCache();
+  });
+
+  it('returns empty settings outside servers', async () => {
+    const get = vi.spyOn(store, 'get');
+    expect(await getServerSettings(store, undefined)).toEqual({});
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it('returns empty settings when nothing is set', async () => {
+    expect(await getServerSettings(store, 'server-01')).toEqual({});
+  });
+
+  it('stores settings with metadata', async () => {
+    const settings = await updateServerSettings(store, 'server-01', { prefix: '?' }, 'user-01');
+
+    expect(settings).toMatchObject({ prefix: '?', updatedBy: 'user-01', _version: 1 });
+    expect(JSON.parse((await store.get('server-prefs:v1:server-01'))!)).toMatchObject({
+      prefix: '?',
+    });
+  });
+
+  it('caches reads', async () => {
+    await store.put('server-prefs:v1:server-01', JSON.stringify({ prefix: '?' }));
+    const get = vi.spyOn(store, 'get');
+
+    await getServerSettings(store, 'server-01');
+    await getServerSettings(store, 'server-01');
+
+    expect(get).toHaveBeenCalledOnce();
+  });
+
+  it('re-reads the store once the cache expires', async () => {
+    vi.useFakeTimers();
+    try {
+      await getServerSettings(store, 'server-01');
+      await store.put('server-prefs:v1:server-01', JSON.stringify({ prefix: '?' }));
+
+      vi.advanceTimersByTime(5 * 60 * 1000 + 1);
+      expect(await getServerSettings(store, 'server-01')).toEqual({ prefix: '?' });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('updates the cache on write', async () => {
+    await getServerSettings(store, 'server-01');
+    await updateServerSettings(store, 'server-01', { prefix: '$' }, 'user-01');
+
+    expect((await getServerSettings(store, 'server-01')).prefix).toBe('$');
+  });
+
+  it('returns null when a write fails', async () => {
+    vi.spyOn(store, 'put').mockRejectedValue(new Error('disk full'));
+    expect(await updateServerSettings(store, 'server-01', { prefix: '?' }, 'user-01')).toBeNull();
+  });
+
+  it('returns empty settings when the store fails', async () => {
+    vi.spyOn(store, 'get').mockRejectedValue(new Error('disk I/O error'));
+    expect(await getServerSettings(store, 'server-01')).toEqual({});
+  });
+
+  it('deletes the entry when the last setting is reset', async () => {
+    await updateServerSettings(store, 'server-01', { prefix: '?' }, 'user-01');
+
+    expect(await resetServerSetting(store, 'server-01', 'user-02', 'prefix')).toBe(true);
+    expect(await store.get('server-prefs:v1:server-01')).toBeNull();
+    expect(await getServerSettings(store, 'server-01')).toEqual({});
+  });
+
+  it('returns false when a reset fails', async () => {
+    vi.spyOn(store, 'delete').mockRejectedValue(new Error('disk I/O error'));
+    expect(await resetServerSetting(store, 'server-01', 'user-01')).toBe(false);
+  });
+});
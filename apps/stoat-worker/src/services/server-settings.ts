@@ -0,0 +1,151 @@
+/**
+ * Server settings service.
+ *
+ * Manages per-server overrides set by server managers with `!xd server` and
+ * `!xd prefix`.
+ * One entry per server, updated get → mutate → put like user preferences.
+ *
+ * Key: `server-prefs:v1:{serverId}`
+ *
+ * Settings are read for every message in a server (to match its custom
+ * prefix), so they are cached in memory; this process's own writes update
+ * the cache immediately.
+ *
+ * @module services/server-settings
+ */
+
+import { createLibraryLogger } from '@xivdyetools/logger';
+import type { KeyValueStore } from './storage/index.js';
+import type { ServerSettings } from '../types/server-settings.js';
+
+const logger = createLibraryLogger('stoat');
+
+/** Current schema version */
+const SCHEMA_VERSION = 1;
+
+/** Key prefix for server settings */
+const SERVER_PREFS_KEY_PREFIX = 'server-prefs:v1:';
+
+/** How long cached settings are trusted before re-reading the store */
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+const settingsCache = new Map<string, { settings: ServerSettings; expiry: number }>();
+
+function buildServerKey(serverId: string): string {
+  return `${SERVER_PREFS_KEY_PREFIX}${serverId}`;
+}
+
+/**
+ * Get a server's settings.
+ *
+ * @param serverId - Stoat server ID (undefined in DMs and groups)
+ * @returns Settings object (empty outside servers, when unset, or on store errors)
+ */
+export async function getServerSettings(
+  store: KeyValueStore,
+  serverId: string | undefined,
+): Promise<ServerSettings> {
+  if (!serverId) return {};
+
+  const cached = settingsCache.get(serverId);
+  if (cached && cached.expiry > Date.now()) {
+    return cached.settings;
+  }
+
+  try {
+    const data = await store.get(buildServerKey(serverId));
+    const settings = data ? (JSON.parse(data) as ServerSettings) : {};
+    settingsCache.set(serverId, { settings, expiry: Date.now() + CACHE_TTL_MS });
+    return settings;
+  } catch (error) {
+    logger.error('Failed to get server settings', {
+      serverId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {};
+  }
+}
+
+/**
+ * Merge updated values into a server's settings.
+ * Values are expected to be validated by the caller.
+ *
+ * @param updatedBy - Stoat user ID of the member making the change
+ * @returns The saved settings, or null if the write failed
+ */
+export async function updateServerSettings(
+  store: KeyValueStore,
+  serverId: string,
+  updates: Omit<ServerSettings, 'updatedAt' | 'updatedBy' | '_version'>,
+  updatedBy: string,
+): Promise<ServerSettings | null> {
+  try {
+    const settings = await getServerSettings(store, serverId);
+    const next: ServerSettings = {
+      ...settings,
+      ...updates,
+      updatedAt: new Date().toISOString(),
+      updatedBy,
+      _version: SCHEMA_VERSION,
+    };
+
+    await store.put(buildServerKey(serverId), JSON.stringify(next));
+    settingsCache.set(serverId, { settings: next, expiry: Date.now() + CACHE_TTL_MS });
+    return next;
+  } catch (error) {
+    logger.error('Failed to update server settings', {
+      serverId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Reset one server setting, or all of them when no key is given.
+ *
+ * @returns True if reset successfully
+ */
+export async function resetServerSetting(
+  store: KeyValueStore,
+  serverId: string,
+  updatedBy: string,
+  key?: keyof Omit<ServerSettings, 'updatedAt' | 'updatedBy' | '_version'>,
+): Promise<boolean> {
+  try {
+    const settings = key ? { ...(await getServerSettings(store, serverId)) } : {};
+    if (key) delete settings[key];
+
+    const hasSettings = Object.keys(settings).some(
+      (k) => !k.startsWith('_') && k !== 'updatedAt' && k !== 'updatedBy',
+    );
+    if (hasSettings) {
+      settings.updatedAt = new Date().toISOString();
+      settings.updatedBy = updatedBy;
+      settings._version = SCHEMA_VERSION;
+      await store.put(buildServerKey(serverId), JSON.stringify(settings));
+    } else {
+      await store.delete(buildServerKey(serverId));
+    }
+
+    settingsCache.set(serverId, {
+      settings: hasSettings ? settings : {},
+      expiry: Date.now() + CACHE_TTL_MS,
+    });
+    return true;
+  } catch (error) {
+    logger.error('Failed to reset server setting', {
+      serverId,
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+/**
+ * Clear the in-memory settings cache (for tests).
+ */
+export function clearServerSettingsCache(): void {
+  settingsCache.clear();
+}
@@ -0,0 +1,49 @@
+/**
+ * Tests for createStore
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createStore, MemoryStore } from './index.js';
+import { SqliteStore } from './sqlite.js';
+import { RedisStore } from './redis.js';
+import type { BotConfig } from '../../config.js';
+
+vi.mock('@upstash/redis', () => ({
+  Redis: class MockRedis {},
+}));
+
+function createConfig(overrides?: Partial<BotConfig>): BotConfig {
+  return { botToken: 'test-token', authorizedUsers: [], ...overrides };
+}
+
+describe('createStore', () => {
+  it('creates a memory store', async () => {
+    const store = await createStore(createConfig({ storageBackend: 'memory' }));
+    expect(store).toBeInstanceOf(MemoryStore);
+  });
+
+  it('creates a SQLite store at the configured path', async () => {
+    const store = await createStore(
+      createConfig({ storageBackend: 'sqlite', databasePath: ':memory:' }),
+    );
+    expect(store).toBeInstanceOf(SqliteStore);
+    await store.close();
+  });
+
+  it('creates a Redis store with Upstash credentials', async () => {
+    const store = await createStore(
+      createConfig({
+        storageBackend: 'redis',
+        upstashRedisUrl: 'https://redis.example.com',
+        upstashRedisToken: 'token',
+      }),
+    );
+    expect(store).toBeInstanceOf(RedisStore);
+  });
+
+  it('rejects the Redis backend without credentials', async () => {
+    await expect(createStore(createConfig({ storageBackend: 'redis' }))).rejects.toThrow(
+      'Upstash Redis credentials',
+    );
+  });
+});
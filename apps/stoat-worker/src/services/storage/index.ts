@@ -0,0 +1,42 @@
+/**
+ * Persistence layer for the Stoat bot.
+ *
+ * Preferences, server settings and message contexts are stored as JSON
+ * strings in a {@link KeyValueStore}. The backend is chosen at startup from
+ * the bot config, so services never know which one they are talking to.
+ */
+
+import { DEFAULT_DATABASE_PATH, type BotConfig } from '../../config.js';
+import type { KeyValueStore } from './types.js';
+import { MemoryStore } from './memory.js';
+
+export type { KeyValueStore, PutOptions, StorageBackend } from './types.js';
+export { MemoryStore };
+
+/**
+ * Create the store selected by the config.
+ *
+ * Backends are imported lazily so only the one in use is loaded
+ * (`node:sqlite` logs an experimental warning when imported).
+ */
+export async function createStore(config: BotConfig): Promise<KeyValueStore> {
+  switch (config.storageBackend) {
+    case 'redis': {
+      if (!config.upstashRedisUrl || !config.upstashRedisToken) {
+        throw new Error('The redis storage backend requires Upstash Redis credentials');
+      }
+      const { RedisStore } = await import('./redis.js');
+      return new RedisStore({ url: config.upstashRedisUrl, token: config.upstashRedisToken });
+    }
+
+    case 'memory':
+      return new MemoryStore();
+
+    // loadConfig always picks a backend; SQLite is also the default for hand-built configs
+    case 'sqlite':
+    case undefined: {
+      const { SqliteStore } = await import('./sqlite.js');
+      return new SqliteStore(config.databasePath ?? DEFAULT_DATABASE_PATH);
+    }
+  }
+}
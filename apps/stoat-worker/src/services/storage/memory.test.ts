@@ -0,0 +1,56 @@
+/**
+ * Tests for MemoryStore
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemoryStore } from './memory.js';
+
+describe('MemoryStore', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stores and retrieves values', async () => {
+    await store.put('key', 'value');
+    expect(await store.get('key')).toBe('value');
+  });
+
+  it('returns null for unknown keys', async () => {
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('overwrites existing values', async () => {
+    await store.put('key', 'first');
+    await store.put('key', 'second');
+    expect(await store.get('key')).toBe('second');
+  });
+
+  it('deletes values', async () => {
+    await store.put('key', 'value');
+    await store.delete('key');
+    expect(await store.get('key')).toBeNull();
+  });
+
+  it('expires values after their TTL', async () => {
+    vi.useFakeTimers();
+    await store.put('key', 'value', { expirationTtl: 60 });
+
+    vi.advanceTimersByTime(59_000);
+    expect(await store.get('key')).toBe('value');
+
+    vi.advanceTimersByTime(1_000);
+    expect(await store.get('key')).toBeNull();
+  });
+
+  it('clears everything on close', async () => {
+    await store.put('key', 'value');
+    await store.close();
+    expect(await store.get('key')).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * In-memory store.
+ *
+ * Nothing survives a restart — used in tests and when persistence is
+ * explicitly disabled with `STORAGE_BACKEND=memory`.
+ */
+
+import type { KeyValueStore, PutOptions } from './types.js';
+
+export class MemoryStore implements KeyValueStore {
+  private readonly entries = new Map<string, { value: string; expiresAt: number | null }>();
+
+  get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return Promise.resolve(null);
+
+    if (entry.expiresAt !== null && Date.now() >= entry.expiresAt) {
+      this.entries.delete(key);
+      return Promise.resolve(null);
+    }
+
+    return Promise.resolve(entry.value);
+  }
+
+  put(key: string, value: string, options?: PutOptions): Promise<void> {
+    const expiresAt = options?.expirationTtl ? Date.now() + options.expirationTtl * 1000 : null;
+    this.entries.set(key, { value, expiresAt });
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  close(): Promise<void> {
+    this.entries.clear();
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Tests for RedisStore
+ *
+ * Mocks @upstash/redis to check key prefixing and TTL handling.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const mockRedis = {
+  get: vi.fn(),
+  set: vi.fn().mockResolvedValue('OK'),
+  del: vi.fn().mockResolvedValue(1),
+};
+
+const constructorArgs: unknown[] = [];
+
+vi.mock('@upstash/redis', () => ({
+  Redis: class MockRedis {
+    get = mockRedis.get;
+    set = mockRedis.set;
+    del = mockRedis.del;
+    constructor(options: unknown) {
+      constructorArgs.push(options);
+    }
+  },
+}));
+
+import { RedisStore } from './redis.js';
+
+describe('RedisStore', () => {
+  let store: RedisStore;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    constructorArgs.length = 0;
+    store = new RedisStore({ url: 'https://redis.example.com', token: 'token' });
+  });
+
+  it('returns stored strings without deserializing them', async () => {
+    mockRedis.get.mockResolvedValue('{"language":"ja"}');
+
+    expect(await store.get('prefs:v1:user-01')).toBe('{"language":"ja"}');
+    expect(mockRedis.get).toHaveBeenCalledWith('stoat:prefs:v1:user-01');
+    expect(constructorArgs[0]).toMatchObject({ automaticDeserialization: false });
+  });
+
+  it('returns null for unknown keys', async () => {
+    mockRedis.get.mockResolvedValue(null);
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('sets values without expiry by default', async () => {
+    await store.put('key', 'value');
+    expect(mockRedis.set).toHaveBeenCalledWith('stoat:key', 'value');
+  });
+
+  it('passes the TTL as seconds', async () => {
+    await store.put('key', 'value', { expirationTtl: 3600 });
+    expect(mockRedis.set).toHaveBeenCalledWith('stoat:key', 'value', { ex: 3600 });
+  });
+
+  it('deletes values', async () => {
+    await store.delete('key');
+    expect(mockRedis.del).toHaveBeenCalledWith('stoat:key');
+  });
+
+  it('uses a custom key prefix', async () => {
+    const custom = new RedisStore({
+      url: 'https://redis.example.com',
+      token: 't',
+      keyPrefix: 'x:',
+    });
+    await custom.delete('key');
+    expect(mockRedis.del).toHaveBeenCalledWith('x:key');
+  });
+
+  it('propagates Redis errors', async () => {
+    mockRedis.get.mockRejectedValue(new Error('Connection refused'));
+    await expect(store.get('key')).rejects.toThrow('Connection refused');
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Upstash Redis store.
+ *
+ * For hosts without a persistent disk. Reuses the Upstash credentials
+ * already configured for rate limiting.
+ */
+
+import { Redis } from '@upstash/redis';
+import type { KeyValueStore, PutOptions } from './types.js';
+
+/** Namespaces bot data away from the rate limiter's `ratelimit:` keys */
+const DEFAULT_KEY_PREFIX = 'stoat:';
+
+export class RedisStore implements KeyValueStore {
+  private readonly redis: Redis;
+  private readonly keyPrefix: string;
+
+  constructor(options: { url: string; token: string; keyPrefix?: string }) {
+    this.redis = new Redis({
+      url: options.url,
+      token: options.token,
+      // Values are JSON strings owned by the callers; return them untouched
+      automaticDeserialization: false,
+    });
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_KEY_PREFIX;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.redis.get<string>(this.keyPrefix + key);
+  }
+
+  async put(key: string, value: string, options?: PutOptions): Promise<void> {
+    if (options?.expirationTtl) {
+      await this.redis.set(this.keyPrefix + key, value, { ex: options.expirationTtl });
+    } else {
+      await this.redis.set(this.keyPrefix + key, value);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.redis.del(this.keyPrefix + key);
+  }
+
+  close(): Promise<void> {
+    // Upstash is HTTP-based; there is no connection to close
+    return Promise.resolve();
+  }
+}
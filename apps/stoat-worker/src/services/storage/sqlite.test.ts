@@ -0,0 +1,99 @@
+/**
+ * Tests for SqliteStore
+ *
+ * Uses real `node:sqlite` databases: in-memory for most cases, and a
+ * temporary file to check that data survives reopening.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SqliteStore } from './sqlite.js';
+
+describe('SqliteStore', () => {
+  let store: SqliteStore;
+
+  beforeEach(() => {
+    store = new SqliteStore(':memory:');
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await store.close();
+  });
+
+  it('stores and retrieves values', async () => {
+    await store.put('key', '{"a":1}');
+    expect(await store.get('key')).toBe('{"a":1}');
+  });
+
+  it('returns null for unknown keys', async () => {
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('overwrites existing values and their TTL', async () => {
+    vi.useFakeTimers();
+    await store.put('key', 'first', { expirationTtl: 60 });
+    await store.put('key', 'second');
+
+    vi.advanceTimersByTime(120_000);
+    expect(await store.get('key')).toBe('second');
+  });
+
+  it('deletes values', async () => {
+    await store.put('key', 'value');
+    await store.delete('key');
+    expect(await store.get('key')).toBeNull();
+  });
+
+  it('expires values after their TTL', async () => {
+    vi.useFakeTimers();
+    await store.put('key', 'value', { expirationTtl: 60 });
+
+    vi.advanceTimersByTime(59_000);
+    expect(await store.get('key')).toBe('value');
+
+    vi.advanceTimersByTime(1_000);
+    expect(await store.get('key')).toBeNull();
+  });
+});
+
+describe('SqliteStore (file)', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'stoat-sqlite-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates missing directories and keeps data across reopening', async () => {
+    const path = join(dir, 'nested', 'bot.db');
+
+    const first = new SqliteStore(path);
+    await first.put('prefs:v1:user-01', '{"language":"ja"}');
+    await first.close();
+
+    const second = new SqliteStore(path);
+    expect(await second.get('prefs:v1:user-01')).toBe('{"language":"ja"}');
+    await second.close();
+  });
+
+  it('does not return values that expired while closed', async () => {
+    const path = join(dir, 'bot.db');
+
+    const first = new SqliteStore(path);
+    await first.put('msgctx:v1:msg-01', '{}', { expirationTtl: 1 });
+    await first.close();
+
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.now() + 2_000);
+    const second = new SqliteStore(path);
+    expect(await second.get('msgctx:v1:msg-01')).toBeNull();
+    await second.close();
+    vi.useRealTimers();
+  });
+});
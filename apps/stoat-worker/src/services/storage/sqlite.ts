@@ -0,0 +1,82 @@
+/**
+ * SQLite file store, using Node's built-in `node:sqlite`.
+ *
+ * The default backend: a single file next to the bot, no extra services.
+ * Writes are synchronous, which is fine for the bot's handful of small
+ * JSON blobs per command.
+ */
+
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { DatabaseSync, type StatementSync } from 'node:sqlite';
+import type { KeyValueStore, PutOptions } from './types.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS kv (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    expires_at INTEGER
+  )
+`;
+
+export class SqliteStore implements KeyValueStore {
+  private readonly db: DatabaseSync;
+  private readonly selectStmt: StatementSync;
+  private readonly upsertStmt: StatementSync;
+  private readonly deleteStmt: StatementSync;
+
+  /**
+   * @param path - Database file path (created with its directory if missing),
+   *   or `:memory:` for a throwaway database
+   */
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new DatabaseSync(path);
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec(SCHEMA);
+
+    this.selectStmt = this.db.prepare('SELECT value, expires_at FROM kv WHERE key = ?');
+    this.upsertStmt = this.db.prepare(
+      'INSERT INTO kv (key, value, expires_at) VALUES (?, ?, ?) ' +
+        'ON CONFLICT (key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at',
+    );
+    this.deleteStmt = this.db.prepare('DELETE FROM kv WHERE key = ?');
+
+    // Expired rows are otherwise only removed when read; clear leftovers on startup
+    this.db
+      .prepare('DELETE FROM kv WHERE expires_at IS NOT NULL AND expires_at <= ?')
+      .run(Date.now());
+  }
+
+  get(key: string): Promise<string | null> {
+    const row = this.selectStmt.get(key) as
+      { value: string; expires_at: number | null } | undefined;
+    if (!row) return Promise.resolve(null);
+
+    if (row.expires_at !== null && Date.now() >= row.expires_at) {
+      this.deleteStmt.run(key);
+      return Promise.resolve(null);
+    }
+
+    return Promise.resolve(row.value);
+  }
+
+  put(key: string, value: string, options?: PutOptions): Promise<void> {
+    const expiresAt = options?.expirationTtl ? Date.now() + options.expirationTtl * 1000 : null;
+    this.upsertStmt.run(key, value, expiresAt);
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.deleteStmt.run(key);
+    return Promise.resolve();
+  }
+
+  close(): Promise<void> {
+    this.db.close();
+    return Promise.resolve();
+  }
+}
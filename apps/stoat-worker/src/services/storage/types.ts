@@ -0,0 +1,30 @@
+/**
+ * Storage types shared by the persistence backends.
+ */
+
+/** Options for {@link KeyValueStore.put} */
+export interface PutOptions {
+  /** Seconds until the entry expires (same meaning as Cloudflare KV's `expirationTtl`) */
+  expirationTtl?: number;
+}
+
+/**
+ * Minimal string key-value store.
+ *
+ * Deliberately shaped like the Cloudflare KV namespace used by the Discord
+ * worker, so services store the same JSON blobs under the same keys
+ * (e.g. `prefs:v1:{userId}`) on both platforms.
+ */
+export interface KeyValueStore {
+  /** Get a value, or null if it is missing or expired */
+  get(key: string): Promise<string | null>;
+  /** Create or replace a value */
+  put(key: string, value: string, options?: PutOptions): Promise<void>;
+  /** Delete a value (no-op if it is missing) */
+  delete(key: string): Promise<void>;
+  /** Release connections and file handles on shutdown */
+  close(): Promise<void>;
+}
+
+/** Available storage backends */
+export type StorageBackend = 'memory' | 'sqlite' | 'redis';
@@ -0,0 +1,109 @@
+/**
+ * Tests for universalis-client.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  resolveWorld,
+  fetchMinPrices,
+  clearUniversalisCache,
+  UniversalisError,
+} from './universalis-client.js';
+
+const BASE_URL = 'https://universalis.example';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status });
+}
+
+describe('universalis-client', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    clearUniversalisCache();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('resolveWorld', () => {
+    beforeEach(() => {
+      fetchMock.mockImplementation((url: string) =>
+        Promise.resolve(
+          url.endsWith('/worlds')
+            ? jsonResponse([{ id: 57, name: 'Cactuar' }])
+            : jsonResponse([{ name: 'Aether', region: 'North-America', worlds: [57] }]),
+        ),
+      );
+    });
+
+    it('matches worlds and data centers case-insensitively', async () => {
+      expect(await resolveWorld(BASE_URL, 'cactuar')).toBe('Cactuar');
+      expect(await resolveWorld(BASE_URL, 'AETHER')).toBe('Aether');
+      expect(await resolveWorld(BASE_URL, 'Atlantis')).toBeNull();
+    });
+
+    it('caches the world list', async () => {
+      await resolveWorld(BASE_URL, 'Cactuar');
+      await resolveWorld(BASE_URL, 'Aether');
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(fetchMock.mock.calls[0][0]).toBe(`${BASE_URL}/api/v2/worlds`);
+    });
+  });
+
+  describe('fetchMinPrices', () => {
+    it('prefers the world price over wider scopes', async () => {
+      fetchMock.mockResolvedValue(
+        jsonResponse({
+          results: [
+            { itemId: 1, nq: { minListing: { world: { price: 100 }, dc: { price: 80 } } } },
+            { itemId: 2, nq: { minListing: { dc: { price: 300 } } } },
+          ],
+        }),
+      );
+
+      const prices = await fetchMinPrices(BASE_URL, 'Cactuar', [1, 2, 3]);
+
+      expect(fetchMock.mock.calls[0][0]).toBe(`${BASE_URL}/api/v2/aggregated/Cactuar/1,2,3`);
+      expect(prices).toEqual(
+        new Map([
+          [1, 100],
+          [2, 300],
+        ]),
+      );
+    });
+
+    it('serves repeat lookups from the cache, including items without listings', async () => {
+      fetchMock.mockResolvedValue(
+        jsonResponse({ results: [{ itemId: 1, nq: { minListing: { world: { price: 100 } } } }] }),
+      );
+
+      await fetchMinPrices(BASE_URL, 'Cactuar', [1, 3]);
+      const prices = await fetchMinPrices(BASE_URL, 'Cactuar', [1, 3]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(prices).toEqual(new Map([[1, 100]]));
+    });
+
+    it('throws UniversalisError with the HTTP status', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({}, 429));
+
+      await expect(fetchMinPrices(BASE_URL, 'Cactuar', [1])).rejects.toMatchObject({
+        name: 'UniversalisError',
+        status: 429,
+      });
+    });
+
+    it('wraps network failures', async () => {
+      fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+      await expect(fetchMinPrices(BASE_URL, 'Cactuar', [1])).rejects.toBeInstanceOf(
+        UniversalisError,
+      );
+    });
+  });
+});
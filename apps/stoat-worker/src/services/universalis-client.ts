@@ -0,0 +1,166 @@
+/**
+ * Universalis API client for the Stoat bot.
+ *
+ * The bot runs as a long-lived Node process, so world lists and prices are
+ * cached in module-level memory rather than an external store.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Minimum NQ listing price per scope; `world` is set for world-scoped queries */
+interface AggregatedScopes<T> {
+  world?: T;
+  dc?: T;
+  region?: T;
+}
+
+interface UniversalisAggregatedResponse {
+  results: Array<{
+    itemId: number;
+    nq?: { minListing?: AggregatedScopes<{ price: number }> };
+  }>;
+}
+
+interface UniversalisWorld {
+  id: number;
+  name: string;
+}
+
+interface UniversalisDataCenter {
+  name: string;
+  region: string;
+  worlds: number[];
+}
+
+/**
+ * Error thrown when a Universalis request fails or times out.
+ */
+export class UniversalisError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'UniversalisError';
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Timeout for a single API request (ms) */
+const REQUEST_TIMEOUT = 10_000;
+
+/** Maximum number of items per aggregated request */
+const MAX_BATCH_SIZE = 100;
+
+/** World/data center lists change only when new servers open */
+const WORLD_CACHE_TTL = 60 * 60 * 1000;
+
+/** Market prices move quickly; keep them for 5 minutes */
+const PRICE_CACHE_TTL = 5 * 60 * 1000;
+
+let worldNamesCache: { data: string[]; expiry: number } | null = null;
+const priceCache = new Map<string, { price: number | null; expiry: number }>();
+
+// ============================================================================
+// API
+// ============================================================================
+
+async function request<T>(baseUrl: string, path: string): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl.replace(/\/+$/, '')}${path}`, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+    });
+  } catch (error) {
+    throw new UniversalisError(0, error instanceof Error ? error.message : String(error));
+  }
+
+  if (!response.ok) {
+    throw new UniversalisError(response.status, `Universalis request failed: ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+/**
+ * Match a world or data center name case-insensitively.
+ *
+ * @returns The canonical name, or null if Universalis doesn't know it
+ */
+export async function resolveWorld(baseUrl: string, input: string): Promise<string | null> {
+  if (!worldNamesCache || Date.now() >= worldNamesCache.expiry) {
+    const [worlds, dataCenters] = await Promise.all([
+      request<UniversalisWorld[]>(baseUrl, '/api/v2/worlds'),
+      request<UniversalisDataCenter[]>(baseUrl, '/api/v2/data-centers'),
+    ]);
+    worldNamesCache = {
+      data: [...worlds.map((w) => w.name), ...dataCenters.map((dc) => dc.name)],
+      expiry: Date.now() + WORLD_CACHE_TTL,
+    };
+  }
+
+  const normalized = input.trim().toLowerCase();
+  return worldNamesCache.data.find((name) => name.toLowerCase() === normalized) ?? null;
+}
+
+/**
+ * Fetch the lowest NQ listing price of each item on a world or data center.
+ *
+ * @returns Map of item ID to price; items without listings are omitted
+ */
+export async function fetchMinPrices(
+  baseUrl: string,
+  world: string,
+  itemIds: number[],
+): Promise<Map<number, number>> {
+  const prices = new Map<number, number>();
+  const uncached: number[] = [];
+  const now = Date.now();
+
+  for (const itemId of itemIds) {
+    const cached = priceCache.get(`${world}:${itemId}`);
+    if (cached && now < cached.expiry) {
+      if (cached.price !== null) prices.set(itemId, cached.price);
+    } else {
+      uncached.push(itemId);
+    }
+  }
+
+  for (let i = 0; i < uncached.length; i += MAX_BATCH_SIZE) {
+    const batch = uncached.slice(i, i + MAX_BATCH_SIZE);
+    const response = await request<UniversalisAggregatedResponse>(
+      baseUrl,
+      `/api/v2/aggregated/${encodeURIComponent(world)}/${batch.join(',')}`,
+    );
+
+    const batchPrices = new Map<number, number>();
+    for (const item of response.results) {
+      // Prefer the queried scope, falling back to wider ones
+      const listing = item.nq?.minListing;
+      const price = listing?.world?.price ?? listing?.dc?.price ?? listing?.region?.price;
+      if (price != null) batchPrices.set(item.itemId, price);
+    }
+
+    // Cache misses too, so items without listings aren't refetched every time
+    for (const itemId of batch) {
+      const price = batchPrices.get(itemId) ?? null;
+      priceCache.set(`${world}:${itemId}`, { price, expiry: now + PRICE_CACHE_TTL });
+      if (price !== null) prices.set(itemId, price);
+    }
+  }
+
+  return prices;
+}
+
+/**
+ * Clear the in-memory caches (for tests).
+ */
+export function clearUniversalisCache(): void {
+  worldNamesCache = null;
+  priceCache.clear();
+}
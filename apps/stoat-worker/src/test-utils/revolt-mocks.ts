@@ -24,6 +24,23 @@ export function createMockChannel(overrides?: Partial<MockChannel>): MockChannel
   };
 }
 
+// ── Mock Server / Member ───────────────────────────────────────────────
+
+export interface MockServer {
+  id: string;
+}
+
+export interface MockMember {
+  hasPermission: Mock<(target: unknown, ...permissions: string[]) => boolean>;
+}
+
+/**
+ * Create a server member whose permission checks return `allowed`.
+ */
+export function createMockMember(allowed = false): MockMember {
+  return { hasPermission: vi.fn().mockReturnValue(allowed) };
+}
+
 // ── Mock Message ───────────────────────────────────────────────────────
 
 export interface MockMessage {
@@ -32,6 +49,10 @@ export interface MockMessage {
   authorId: string;
   channelId: string;
   channel: MockChannel;
+  /** Set for messages sent in a server channel */
+  server?: MockServer;
+  /** The author's membership, for messages sent in a server channel */
+  member?: MockMember;
   attachments: unknown[];
   react: Mock<(...args: any[]) => Promise<void>>;
   unreact: Mock<(...args: any[]) => Promise<void>>;
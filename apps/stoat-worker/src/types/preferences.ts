@@ -0,0 +1,118 @@
+/**
+ * User preference types.
+ *
+ * Mirrors the Discord bot's unified `UserPreferences` (V4) for the settings
+ * that apply to Stoat commands, stored under the same `prefs:v1:{userId}` key
+ * shape so the two bots can share a store later.
+ *
+ * @module types/preferences
+ */
+
+import type { LocaleCode } from '@xivdyetools/bot-i18n';
+import type { MatchingMethod } from '@xivdyetools/bot-logic';
+import type { BlendingMode } from '@xivdyetools/color-blending';
+
+export type { BlendingMode, MatchingMethod };
+export { isValidBlendingMode } from '@xivdyetools/color-blending';
+
+/**
+ * All preference keys that can be set with `!xd prefs set`
+ */
+export type PreferenceKey = 'language' | 'matching' | 'blending' | 'count' | 'world';
+
+/**
+ * User preferences object stored per user.
+ *
+ * All fields are optional - if not set, system defaults are used.
+ * Resolution order: Command argument → User preference → System default
+ */
+export interface UserPreferences {
+  /** UI language preference */
+  language?: LocaleCode;
+
+  /** Default color matching method for finding closest dyes */
+  matching?: MatchingMethod;
+
+  /** Default color blending mode for mixer */
+  blending?: BlendingMode;
+
+  /** Default number of results to show (1-10) */
+  count?: number;
+
+  /** Preferred FFXIV world or data center for market data */
+  world?: string;
+
+  /** ISO timestamp of last update */
+  updatedAt?: string;
+
+  /** Schema version for future migrations */
+  _version?: number;
+}
+
+/**
+ * Preference keys in display order
+ */
+export const PREFERENCE_KEYS: readonly PreferenceKey[] = [
+  'language',
+  'matching',
+  'blending',
+  'count',
+  'world',
+];
+
+/**
+ * System default values for each preference (world has no default)
+ */
+export const PREFERENCE_DEFAULTS: Required<
+  Omit<UserPreferences, 'world' | 'updatedAt' | '_version'>
+> = {
+  language: 'en',
+  matching: 'oklab',
+  blending: 'rgb',
+  count: 5,
+};
+
+/**
+ * Supported UI languages
+ */
+export const LANGUAGES: readonly LocaleCode[] = ['en', 'ja', 'de', 'fr', 'ko', 'zh'];
+
+/**
+ * Valid color matching methods
+ */
+export const MATCHING_METHODS: readonly MatchingMethod[] = [
+  'rgb',
+  'cie76',
+  'ciede2000',
+  'oklab',
+  'hyab',
+  'oklch-weighted',
+];
+
+/**
+ * Validate if a string is a valid preference key
+ */
+export function isPreferenceKey(key: string): key is PreferenceKey {
+  return (PREFERENCE_KEYS as readonly string[]).includes(key);
+}
+
+/**
+ * Validate if a string is a supported locale code
+ */
+export function isValidLocale(code: string): code is LocaleCode {
+  return (LANGUAGES as readonly string[]).includes(code);
+}
+
+/**
+ * Validate if a string is a valid matching method
+ */
+export function isValidMatchingMethod(method: string): method is MatchingMethod {
+  return (MATCHING_METHODS as readonly string[]).includes(method);
+}
+
+/**
+ * Validate if a number is a valid result count
+ */
+export function isValidCount(count: number): boolean {
+  return Number.isInteger(count) && count >= 1 && count <= 10;
+}
@@ -0,0 +1,64 @@
+/**
+ * Server Settings Types
+ *
+ * Per-server overrides configured by server managers with `!xd server` and
+ * `!xd prefix`.
+ * Stored in a single key per server: `server-prefs:v1:{serverId}`
+ *
+ * @module types/server-settings
+ */
+
+import type { LocaleCode } from '@xivdyetools/bot-i18n';
+
+/**
+ * Server settings object stored per server
+ */
+export interface ServerSettings {
+  /** Default reply language for members without their own language preference */
+  language?: LocaleCode;
+
+  /** Extra command prefix accepted in this server, alongside `!xivdye` and `!xd` */
+  prefix?: string;
+
+  /** ISO timestamp of last update */
+  updatedAt?: string;
+
+  /** Stoat user ID of the member who last changed the settings */
+  updatedBy?: string;
+
+  /** Schema version for future migrations */
+  _version?: number;
+}
+
+/**
+ * Settings a server manager can change with `!xd server set`
+ */
+export type ServerSettingKey = 'language' | 'prefix';
+
+/**
+ * Server setting keys in display order
+ */
+export const SERVER_SETTING_KEYS: readonly ServerSettingKey[] = ['language', 'prefix'];
+
+/**
+ * Validate if a string is a server setting key
+ */
+export function isServerSettingKey(key: string): key is ServerSettingKey {
+  return (SERVER_SETTING_KEYS as readonly string[]).includes(key);
+}
+
+/** Longest accepted custom prefix */
+export const MAX_PREFIX_LENGTH = 8;
+
+/**
+ * Validate a custom prefix: 1-8 characters, no whitespace, and not a
+ * mention (which would make the bot answer every ping).
+ */
+export function isValidPrefix(prefix: string): boolean {
+  return (
+    prefix.length > 0 &&
+    prefix.length <= MAX_PREFIX_LENGTH &&
+    !/\s/.test(prefix) &&
+    !prefix.startsWith('<@')
+  );
+}
@@ -10,6 +10,7 @@ describe('CACHE_CONFIGS', () => {
   describe('structure validation', () => {
     it('should have all required endpoint configurations', () => {
       expect(CACHE_CONFIGS).toHaveProperty('aggregated');
+      expect(CACHE_CONFIGS).toHaveProperty('listings');
       expect(CACHE_CONFIGS).toHaveProperty('dataCenters');
       expect(CACHE_CONFIGS).toHaveProperty('worlds');
     });
@@ -65,6 +66,19 @@ describe('CACHE_CONFIGS', () => {
     });
   });
 
+  describe('listings config', () => {
+    const config = CACHE_CONFIGS.listings;
+
+    it('should match the price data cadence', () => {
+      expect(config.cacheTtl).toBe(CACHE_CONFIGS.aggregated.cacheTtl);
+      expect(config.swrWindow).toBe(CACHE_CONFIGS.aggregated.swrWindow);
+    });
+
+    it('should have correct key prefix', () => {
+      expect(config.keyPrefix).toBe('listings');
+    });
+  });
+
   describe('dataCenters config', () => {
     const config = CACHE_CONFIGS.dataCenters;
 
@@ -117,7 +131,7 @@ describe('CACHE_CONFIGS', () => {
 
   describe('type safety', () => {
     it('should allow type-safe access to config keys', () => {
-      const keys: CacheConfigKey[] = ['aggregated', 'dataCenters', 'worlds'];
+      const keys: CacheConfigKey[] = ['aggregated', 'listings', 'dataCenters', 'worlds'];
       keys.forEach((key) => {
         expect(CACHE_CONFIGS[key]).toBeDefined();
       });
@@ -8,6 +8,7 @@ import type { CacheConfig } from '../types/cache';
  * Cache configurations by endpoint type
  *
  * - aggregated: Price data that changes frequently (5 min TTL)
+ * - listings: Current market board summaries, same cadence as prices (5 min TTL)
  * - dataCenters: Static data that rarely changes (24 hour TTL)
  * - worlds: Static data that rarely changes (24 hour TTL)
  */
@@ -23,6 +24,17 @@ export const CACHE_CONFIGS = {
     keyPrefix: 'aggregated',
   },
 
+  /**
+   * Market board summaries (listing counts) from /api/v2/listings/:datacenter/:itemIds
+   * - 5 minute TTL (listings change as often as prices)
+   * - 2 minute SWR window (serve stale while refreshing)
+   */
+  listings: {
+    cacheTtl: 300, // 5 minutes
+    swrWindow: 120, // 2 minutes
+    keyPrefix: 'listings',
+  },
+
   /**
    * Data centers list from /api/v2/data-centers
    * - 24 hour TTL (very static data)
@@ -331,6 +331,72 @@ describe('Universalis Proxy App', () => {
     });
   });
 
+  describe('GET /api/v2/listings/:datacenter/:itemIds', () => {
+    let testItemId = 40000;
+    const getUniqueItemId = () => String(++testItemId);
+
+    beforeEach(() => {
+      resetAllMocks();
+      mockFetch.mockReset();
+    });
+
+    it('should proxy the current-data endpoint with every listing but no history', async () => {
+      const itemId = getUniqueItemId();
+      const upstreamData = { itemID: Number(itemId), listingsCount: 42 };
+      mockFetch.mockResolvedValueOnce(
+        new Response(JSON.stringify(upstreamData), { status: 200 })
+      );
+
+      const request = createRequest(`/api/v2/listings/Crystal/${itemId}`);
+      const response = await app.fetch(request, mockEnv, mockCtx);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual(upstreamData);
+      const upstreamUrl = String(mockFetch.mock.calls[0][0]);
+      expect(upstreamUrl).toContain(`/crystal/${itemId}?entries=0`);
+      expect(upstreamUrl).not.toContain('listings=');
+      expect(upstreamUrl).not.toContain('/aggregated/');
+    });
+
+    it('should cache separately from aggregated prices', async () => {
+      const itemId = getUniqueItemId();
+      mockFetch.mockImplementation(async () =>
+        new Response(JSON.stringify({ itemID: Number(itemId) }), { status: 200 })
+      );
+
+      await app.fetch(createRequest(`/api/v2/aggregated/Crystal/${itemId}`), mockEnv, mockCtx);
+      await app.fetch(createRequest(`/api/v2/listings/Crystal/${itemId}`), mockEnv, mockCtx);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should apply the same validation as aggregated prices', async () => {
+      const badDc = await app.fetch(
+        createRequest('/api/v2/listings/NotARealDC/5729'),
+        mockEnv,
+        mockCtx
+      );
+      const badIds = await app.fetch(createRequest('/api/v2/listings/Crystal/0'), mockEnv, mockCtx);
+
+      expect(badDc.status).toBe(400);
+      expect(badIds.status).toBe(400);
+    });
+
+    it('should handle upstream errors', async () => {
+      const itemId = getUniqueItemId();
+      mockFetch.mockResolvedValueOnce(
+        new Response('Unavailable', { status: 503, statusText: 'Service Unavailable' })
+      );
+
+      const request = createRequest(`/api/v2/listings/Crystal/${itemId}`);
+      const response = await app.fetch(request, mockEnv, mockCtx);
+
+      expect(response.status).toBe(503);
+      const data = await response.json<Record<string, unknown>>();
+      expect(data.error).toContain('Upstream API error');
+    });
+  });
+
   describe('GET /api/v2/data-centers', () => {
     beforeEach(() => {
       resetAllMocks();
@@ -485,6 +551,7 @@ describe('Universalis Proxy App', () => {
       expect(response.status).toBe(404);
       const data = await response.json<Record<string, unknown>>();
       expect(data.error).toBe('Not Found');
+      expect(data.availableEndpoints).toContain('/api/v2/listings/:datacenter/:itemIds');
       expect(data.availableEndpoints).toContain('/api/v2/data-centers');
       expect(data.availableEndpoints).toContain('/api/v2/worlds');
     });
@@ -10,13 +10,13 @@
  * @module xivdyetools-universalis-proxy
  */
 
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import {
   requestIdMiddleware,
   loggerMiddleware,
   getLogger,
 } from '@xivdyetools/worker-middleware';
-import type { Env } from './types/cache';
+import type { CacheConfig, Env } from './types/cache';
 import { CACHE_CONFIGS } from './config/cache';
 import { isValidDatacenterOrWorld, isNameInUpstreamLists } from './config/datacenters';
 import { cachedFetch, buildCacheHeaders, UpstreamError, ResponseTooLargeError } from './services/cached-fetch';
@@ -133,9 +133,18 @@ function normalizeItemIds(itemIds: string): string {
     .join(',');
 }
 
+/** Per-route settings for the item-market proxy routes */
+interface ItemProxyRoute {
+  /** Cache settings; `keyPrefix` also prefixes the cache key */
+  config: CacheConfig;
+  /** Builds the upstream URL from the lowercased datacenter and normalized IDs */
+  upstreamUrl: (apiBase: string, datacenter: string, itemIds: string) => string;
+  /** Log operation tag */
+  operation: string;
+}
+
 /**
- * Proxy aggregated price data endpoint
- * GET /api/v2/aggregated/:datacenter/:itemIds
+ * Shared handler for the `/:datacenter/:itemIds` market routes
  *
  * Features:
  * - IP-based rate limiting
@@ -144,8 +153,11 @@ function normalizeItemIds(itemIds: string): string {
  * - Stale-while-revalidate for fast responses
  * - Normalized cache keys for better hit rates
  */
-app.get('/api/v2/aggregated/:datacenter/:itemIds', async (c) => {
-  const { datacenter, itemIds } = c.req.param();
+async function proxyItemRequest(
+  c: Context<{ Bindings: Env }>,
+  { config, upstreamUrl, operation }: ItemProxyRoute
+): Promise<Response> {
+  const { datacenter, itemIds } = c.req.param() as { datacenter: string; itemIds: string };
 
   // SECURITY: Rate limit by IP address to prevent abuse
   // BUG-066: use the shared getClientIp — it prefers the unspoofable
@@ -241,17 +253,15 @@ app.get('/api/v2/aggregated/:datacenter/:itemIds', async (c) => {
   // - Lowercase datacenter for consistency
   // - Sort item IDs so [1,2,3] and [3,1,2] hit same cache
   const normalizedIds = normalizeItemIds(itemIds);
-  const cacheKey = `aggregated:${datacenter.toLowerCase()}:${normalizedIds}`;
-  const config = CACHE_CONFIGS.aggregated;
+  const cacheKey = `${config.keyPrefix}:${datacenter.toLowerCase()}:${normalizedIds}`;
 
   try {
     const result = await cachedFetch({
       cacheKey,
       config,
-      // OPT-002: Limit per-item listings and history entries to bound response size
       // OPT-022: use the NORMALIZED ids upstream too — one canonical upstream
       // URL per logical query (better upstream cacheability, no forwarded dups)
-      upstreamUrl: `${c.env.UNIVERSALIS_API_BASE}/aggregated/${datacenter.toLowerCase()}/${normalizedIds}?listings=5&entries=5`,
+      upstreamUrl: upstreamUrl(c.env.UNIVERSALIS_API_BASE, datacenter.toLowerCase(), normalizedIds),
       // Hono types c.executionCtx with its own ExecutionContext interface, which lacks the
       // `tracing` field added in @cloudflare/workers-types 4.20260621. The runtime value is the
       // full Workers ExecutionContext, so assert it to satisfy cachedFetch's ctx parameter.
@@ -291,7 +301,7 @@ app.get('/api/v2/aggregated/:datacenter/:itemIds', async (c) => {
     // fell into the generic 502 with no hint at the cause)
     if (error instanceof ResponseTooLargeError) {
       getLogger(c)?.error('Upstream response exceeded size limit', error, {
-        operation: 'aggregated.proxy',
+        operation,
         datacenter,
       });
       return c.json(
@@ -304,7 +314,7 @@ app.get('/api/v2/aggregated/:datacenter/:itemIds', async (c) => {
     }
 
     getLogger(c)?.error('Error proxying to Universalis', error, {
-      operation: 'aggregated.proxy',
+      operation,
       datacenter,
     });
     return c.json(
@@ -315,7 +325,40 @@ app.get('/api/v2/aggregated/:datacenter/:itemIds', async (c) => {
       502
     );
   }
-});
+}
+
+/**
+ * Proxy aggregated price data endpoint
+ * GET /api/v2/aggregated/:datacenter/:itemIds
+ */
+app.get('/api/v2/aggregated/:datacenter/:itemIds', (c) =>
+  proxyItemRequest(c, {
+    config: CACHE_CONFIGS.aggregated,
+    // OPT-002: Limit per-item listings and history entries to bound response size
+    upstreamUrl: (apiBase, datacenter, itemIds) =>
+      `${apiBase}/aggregated/${datacenter}/${itemIds}?listings=5&entries=5`,
+    operation: 'aggregated.proxy',
+  })
+);
+
+/**
+ * Proxy current market board data endpoint
+ * GET /api/v2/listings/:datacenter/:itemIds
+ *
+ * Forwards Universalis' current-data endpoint, which carries `listingsCount`
+ * (the aggregated endpoint has no listing count). `listingsCount` counts the
+ * listings in the response, so listings are not limited; only the sale
+ * history is dropped upstream. The payload is the item object for a single
+ * ID, or `{ itemIDs, items: { [id]: item } }` for several.
+ */
+app.get('/api/v2/listings/:datacenter/:itemIds', (c) =>
+  proxyItemRequest(c, {
+    config: CACHE_CONFIGS.listings,
+    upstreamUrl: (apiBase, datacenter, itemIds) =>
+      `${apiBase}/${datacenter}/${itemIds}?entries=0`,
+    operation: 'listings.proxy',
+  })
+);
 
 /**
  * Proxy data centers list
@@ -402,6 +445,7 @@ app.notFound((c) => {
       message: 'The requested endpoint does not exist',
       availableEndpoints: [
         '/api/v2/aggregated/:datacenter/:itemIds',
+        '/api/v2/listings/:datacenter/:itemIds',
         '/api/v2/data-centers',
         '/api/v2/worlds',
       ],
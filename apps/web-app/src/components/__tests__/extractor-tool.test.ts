@@ -77,6 +77,8 @@ vi.mock('@services/index', () => ({
       setWorldId: vi.fn(),
       getPriceForItem: vi.fn().mockReturnValue(null),
       fetchPricesForDyes: vi.fn().mockResolvedValue(new Map()),
+      getShowPrices: vi.fn().mockReturnValue(false),
+      getPricesView: vi.fn().mockReturnValue(new Map()),
       addEventListener: vi.fn(),
       removeEventListener: vi.fn(),
     }),
@@ -364,6 +366,52 @@ describe('ExtractorTool', () => {
 
       expect(leftPanel.children.length).toBeGreaterThan(0);
     });
+
+    it('should show the recolor preview under the palette when enabled', () => {
+      const putImageData = vi.fn();
+      vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+        drawImage: vi.fn(),
+        getImageData: (_x: number, _y: number, w: number, h: number) => ({
+          data: new Uint8ClampedArray(w * h * 4).fill(255),
+        }),
+        putImageData,
+      } as unknown as CanvasRenderingContext2D);
+
+      tool = new ExtractorTool(container, { leftPanel, rightPanel });
+      tool.init();
+      const image = new Image();
+      Object.defineProperty(image, 'naturalWidth', { value: 960 });
+      Object.defineProperty(image, 'naturalHeight', { value: 480 });
+      const internals = tool as unknown as {
+        currentImage: HTMLImageElement;
+        resultsContainer: HTMLElement;
+        lastPaletteResults: unknown[];
+        renderPaletteResults: (matches: unknown[]) => void;
+      };
+      const results = document.createElement('div');
+      internals.currentImage = image;
+      internals.resultsContainer = results;
+      const matches = [
+        {
+          extracted: { r: 200, g: 40, b: 40 },
+          matchedDye: mockDyes[0],
+          distance: 10,
+          dominance: 100,
+        },
+      ];
+
+      internals.lastPaletteResults = matches;
+      internals.renderPaletteResults(matches);
+      expect(results.querySelector('.extractor-recolor-preview')).toBeNull();
+
+      tool.setConfig({ recolorPreview: true });
+
+      const canvases = results.querySelectorAll('.extractor-recolor-preview canvas');
+      expect(canvases).toHaveLength(2);
+      expect(canvases[0].getAttribute('width')).toBe('480');
+      expect(canvases[0].getAttribute('height')).toBe('240');
+      expect(putImageData).toHaveBeenCalledTimes(1);
+    });
   });
 
   // ============================================================================
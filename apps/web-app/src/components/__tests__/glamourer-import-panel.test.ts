@@ -0,0 +1,176 @@
+/**
+ * XIV Dye Tools - GlamourerImportPanel Unit Tests
+ *
+ * Tests the Glamourer design paste box used by the Budget tool.
+ * Covers decoding results, error messages, prices and dye selection.
+ *
+ * @module components/__tests__/glamourer-import-panel.test
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GlamourerImportPanel } from '../glamourer-import-panel';
+import {
+  createTestContainer,
+  cleanupTestContainer,
+  query,
+  queryAll,
+  getText,
+} from '../../__tests__/component-utils';
+
+const mockDecode = vi.fn();
+vi.mock('@xivdyetools/bot-logic', () => ({
+  decodeGlamourerDesign: (...args: unknown[]) => mockDecode(...args),
+}));
+
+vi.mock('@services/index', () => ({
+  dyeService: {},
+  formatPriceWithSuffix: (price: number) => `${price.toLocaleString()} gil`,
+  LanguageService: {
+    t: (key: string) => key,
+    tInterpolate: (key: string, params: Record<string, unknown>) =>
+      `${key} ${JSON.stringify(params)}`,
+    getDyeName: () => null,
+    subscribe: vi.fn().mockReturnValue(() => {}),
+  },
+}));
+
+const pureWhite = { id: 1, itemID: 13114, stainID: 101, name: 'Pure White', hex: '#F9F8F4' };
+const jetBlack = { id: 2, itemID: 13115, stainID: 102, name: 'Jet Black', hex: '#1E1E1E' };
+
+function decoded(overrides: Record<string, unknown> = {}) {
+  return {
+    ok: true,
+    version: 6,
+    slots: [
+      { slot: 'head', itemId: 1, stainIds: [101, 102], primary: pureWhite, secondary: jetBlack },
+      { slot: 'body', itemId: 2, stainIds: [101, 0], primary: pureWhite, secondary: null },
+    ],
+    unknownStainIds: [],
+    ...overrides,
+  };
+}
+
+describe('GlamourerImportPanel', () => {
+  let container: HTMLElement;
+  let panel: GlamourerImportPanel | null = null;
+
+  function createPanel(options = {}): GlamourerImportPanel {
+    panel = new GlamourerImportPanel(container, options);
+    panel.init();
+    return panel;
+  }
+
+  function paste(value: string): void {
+    query<HTMLTextAreaElement>(container, 'textarea')!.value = value;
+  }
+
+  beforeEach(() => {
+    container = createTestContainer();
+    vi.clearAllMocks();
+    mockDecode.mockResolvedValue(decoded());
+  });
+
+  afterEach(() => {
+    panel?.destroy();
+    panel = null;
+    cleanupTestContainer(container);
+  });
+
+  it('should render a paste box and import button', () => {
+    createPanel();
+
+    expect(query(container, 'textarea')).not.toBeNull();
+    expect(getText(query(container, 'button'))).toBe('glamourerImport.import');
+  });
+
+  it('should list each dyed slot with both channels', async () => {
+    const instance = createPanel();
+    paste('BkSt...');
+
+    await instance.importDesign();
+
+    expect(mockDecode).toHaveBeenCalledWith('BkSt...', expect.anything());
+    expect(container.textContent).toContain('glamourerImport.slots.head');
+    expect(container.textContent).toContain('Jet Black');
+    expect(container.textContent).toContain('glamourerImport.undyed');
+    expect(getText(query(container, '[role="status"]'))).toBe(
+      'glamourerImport.summary {"count":2}'
+    );
+    expect(instance.getSlots()).toHaveLength(2);
+  });
+
+  it('should show prices and a total when a price fetcher is provided', async () => {
+    const fetchPrices = vi.fn().mockResolvedValue(
+      new Map([
+        [13114, { itemID: 13114, currentMinPrice: 1000 }],
+        [13115, { itemID: 13115, currentMinPrice: 500 }],
+      ])
+    );
+    const instance = createPanel({ fetchPrices });
+    paste('x');
+
+    await instance.importDesign();
+
+    expect(fetchPrices).toHaveBeenCalledWith([pureWhite, jetBlack]);
+    // 1,000 × 2 + 500
+    expect(container.textContent).toContain('glamourerImport.total {"amount":"2,500 gil"}');
+  });
+
+  it('should select a dye when it is clicked', async () => {
+    const onDyeSelected = vi.fn();
+    const instance = createPanel({ onDyeSelected });
+    paste('x');
+
+    await instance.importDesign();
+    const dyeButtons = queryAll<HTMLButtonElement>(
+      container,
+      'button[title="glamourerImport.selectHint"]'
+    );
+    dyeButtons[1].click();
+
+    expect(dyeButtons).toHaveLength(3);
+    expect(onDyeSelected).toHaveBeenCalledWith(jetBlack);
+  });
+
+  it('should note unknown stain IDs', async () => {
+    mockDecode.mockResolvedValue(
+      decoded({
+        slots: [{ slot: 'feet', itemId: 3, stainIds: [200, 0], primary: null, secondary: null }],
+        unknownStainIds: [200],
+      })
+    );
+    const instance = createPanel();
+    paste('x');
+
+    await instance.importDesign();
+
+    expect(container.textContent).toContain('glamourerImport.unknownStain {"id":200}');
+    expect(container.textContent).toContain('glamourerImport.unknownStains {"ids":"200"}');
+  });
+
+  it('should explain unsupported versions', async () => {
+    mockDecode.mockResolvedValue({
+      ok: false,
+      error: 'UNSUPPORTED_VERSION',
+      errorMessage: 'old',
+      version: 3,
+    });
+    const instance = createPanel();
+    paste('x');
+
+    await instance.importDesign();
+
+    expect(getText(query(container, '[role="status"]'))).toBe(
+      'glamourerImport.errors.unsupportedVersion {"version":3}'
+    );
+    expect(instance.getSlots()).toEqual([]);
+  });
+
+  it('should not decode an empty paste box', async () => {
+    const instance = createPanel();
+
+    await instance.importDesign();
+
+    expect(mockDecode).not.toHaveBeenCalled();
+  });
+});
@@ -14,6 +14,7 @@ import { BaseComponent } from '@components/base-component';
 import { CollapsiblePanel } from '@components/collapsible-panel';
 import { DyeSelector } from '@components/dye-selector';
 import { MarketBoard } from '@components/market-board';
+import { GlamourerImportPanel } from '@components/glamourer-import-panel';
 import '@components/v4/result-card';
 import { ResultCard, type ResultCardData, type ContextAction } from '@components/v4/result-card';
 import {
@@ -43,6 +44,7 @@ import {
   ICON_SORT,
   ICON_DISTANCE,
   ICON_EYE,
+  ICON_IMPORT,
 } from '@shared/ui-icons';
 import { logger } from '@shared/logger';
 import { clearContainer } from '@shared/utils';
@@ -160,6 +162,8 @@ export class BudgetTool extends BaseComponent {
   private sortByPanel: CollapsiblePanel | null = null;
   private colorDistancePanel: CollapsiblePanel | null = null;
   private colorFormatsPanel: CollapsiblePanel | null = null;
+  private glamourerImportPanel: CollapsiblePanel | null = null;
+  private glamourerImport: GlamourerImportPanel | null = null;
 
   // DOM References
   private targetDyeContainer: HTMLElement | null = null;
@@ -285,6 +289,8 @@ export class BudgetTool extends BaseComponent {
     this.sortByPanel?.destroy();
     this.colorDistancePanel?.destroy();
     this.colorFormatsPanel?.destroy();
+    this.glamourerImport?.destroy();
+    this.glamourerImportPanel?.destroy();
 
     // Mobile components
     this.mobileDyeSelector?.destroy();
@@ -562,6 +568,26 @@ export class BudgetTool extends BaseComponent {
     this.renderColorFormatsOptions(colorFormatsContent);
     this.colorFormatsPanel.setContent(colorFormatsContent);
 
+    // Section 7: Glamourer Import (collapsible, default closed)
+    const glamourerContainer = this.createElement('div');
+    left.appendChild(glamourerContainer);
+    this.glamourerImportPanel = new CollapsiblePanel(glamourerContainer, {
+      title: LanguageService.t('glamourerImport.title'),
+      storageKey: 'v3_budget_glamourer_panel',
+      defaultOpen: false,
+      icon: ICON_IMPORT,
+    });
+    this.glamourerImportPanel.init();
+
+    const glamourerContent = this.createElement('div');
+    this.glamourerImport = new GlamourerImportPanel(glamourerContent, {
+      fetchPrices: (dyes) =>
+        this.marketBoard ? this.marketBoard.fetchPricesForDyes(dyes) : Promise.resolve(new Map()),
+      onDyeSelected: (dye) => this.selectDye(dye),
+    });
+    this.glamourerImport.init();
+    this.glamourerImportPanel.setContent(glamourerContent);
+
     // Section 8: Market Board (collapsible)
     const marketContainer = this.createElement('div');
     left.appendChild(marketContainer);
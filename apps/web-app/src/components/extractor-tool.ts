@@ -85,6 +85,9 @@ const STORAGE_KEYS = {
 // only bounds memory/extraction cost.
 const MAX_IMAGE_STORAGE_SIZE = 8 * 1024 * 1024;
 
+/** Longest side of each image in the recolor preview, in pixels */
+const RECOLOR_PREVIEW_MAX_DIMENSION = 480;
+
 // Alias for backward compatibility
 const ICON_UPLOAD = ICON_IMAGE;
 
@@ -124,6 +127,7 @@ export class ExtractorTool extends BaseComponent {
   private displayOptions: DisplayOptionsConfig = { ...DEFAULT_DISPLAY_OPTIONS };
   private matchingMethod: MatchingMethod = 'oklab';
   private preventDuplicates: boolean = true;
+  private recolorPreview: boolean = false;
 
   // Child components
   private imageUpload: ImageUploadDisplay | null = null;
@@ -597,6 +601,13 @@ export class ExtractorTool extends BaseComponent {
       logger.info(`[ExtractorTool] setConfig: preventDuplicates -> ${config.preventDuplicates}`);
     }
 
+    // Handle recolorPreview - re-render to show/hide the recolored image
+    if (config.recolorPreview !== undefined && config.recolorPreview !== this.recolorPreview) {
+      this.recolorPreview = config.recolorPreview;
+      needsRerender = true;
+      logger.info(`[ExtractorTool] setConfig: recolorPreview -> ${config.recolorPreview}`);
+    }
+
     // Handle dyeFilters - re-match when filters change
     if (config.dyeFilters) {
       const newFilters = config.dyeFilters;
@@ -3493,6 +3504,113 @@ export class ExtractorTool extends BaseComponent {
     }
 
     this.resultsContainer.appendChild(cardsGrid);
+
+    if (this.recolorPreview) {
+      const preview = this.renderRecolorPreview(matches);
+      if (preview) {
+        this.resultsContainer.appendChild(preview);
+      }
+    }
+  }
+
+  /**
+   * Render the loaded image next to a copy recolored in the matched dyes.
+   * Each pixel keeps its lightness and takes the hue/chroma shift of its
+   * nearest extracted color (PaletteService.recolorPixels).
+   */
+  private renderRecolorPreview(matches: PaletteMatch[]): HTMLElement | null {
+    if (!this.currentImage) return null;
+
+    const image = this.currentImage;
+    const scale = Math.min(
+      1,
+      RECOLOR_PREVIEW_MAX_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight)
+    );
+    const width = Math.max(1, Math.round(image.naturalWidth * scale));
+    const height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+    const original = this.createElement('canvas', {
+      attributes: { width: String(width), height: String(height) },
+    });
+    const recolored = this.createElement('canvas', {
+      attributes: { width: String(width), height: String(height) },
+    });
+    const originalCtx = original.getContext('2d');
+    const recoloredCtx = recolored.getContext('2d');
+    if (!originalCtx || !recoloredCtx) return null;
+
+    try {
+      originalCtx.drawImage(image, 0, 0, width, height);
+      const imageData = originalCtx.getImageData(0, 0, width, height);
+      imageData.data.set(PaletteService.recolorPixels(imageData.data, matches));
+      recoloredCtx.putImageData(imageData, 0, 0);
+    } catch (error) {
+      // Cross-origin images taint the canvas and can't be read back
+      logger.warn('[ExtractorTool] Recolor preview failed:', error);
+      return null;
+    }
+
+    const section = this.createElement('div', {
+      className: 'extractor-recolor-preview',
+      attributes: {
+        style: `
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+          margin-top: 16px;
+        `
+          .replace(/\s+/g, ' ')
+          .trim(),
+      },
+    });
+
+    section.appendChild(
+      this.createElement('h3', {
+        textContent: LanguageService.t('matcher.recolorPreview'),
+        attributes: {
+          style: `
+            margin: 0;
+            font-size: 14px;
+            font-weight: 600;
+            color: var(--theme-text, #e0e0e0);
+          `
+            .replace(/\s+/g, ' ')
+            .trim(),
+        },
+      })
+    );
+
+    const row = this.createElement('div', {
+      attributes: {
+        style: 'display: flex; flex-wrap: wrap; gap: 16px; justify-content: center;',
+      },
+    });
+
+    const figures: Array<[HTMLCanvasElement, string]> = [
+      [original, LanguageService.t('matcher.recolorOriginal')],
+      [recolored, LanguageService.t('matcher.recolorRecolored')],
+    ];
+    for (const [canvas, label] of figures) {
+      canvas.style.cssText = 'max-width: 100%; height: auto; border-radius: 8px;';
+      const figure = this.createElement('figure', {
+        attributes: {
+          style: 'margin: 0; display: flex; flex-direction: column; align-items: center; gap: 6px;',
+        },
+      });
+      figure.appendChild(canvas);
+      figure.appendChild(
+        this.createElement('figcaption', {
+          textContent: label,
+          attributes: {
+            style: 'font-size: 12px; color: var(--theme-text-muted, #a0a0a0);',
+          },
+        })
+      );
+      row.appendChild(figure);
+    }
+
+    section.appendChild(row);
+    return section;
   }
 
   /**
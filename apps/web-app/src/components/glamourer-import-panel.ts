@@ -0,0 +1,280 @@
+/**
+ * XIV Dye Tools - Glamourer Import Panel
+ *
+ * Paste box for Glamourer / Mare Synchronos design strings. Decodes the
+ * design with bot-logic's decoder and lists every dyed equipment slot with
+ * both dye channels and their market prices.
+ *
+ * Used by the Budget tool: clicking a dye makes it the budget target.
+ *
+ * @module components/glamourer-import-panel
+ */
+
+import { BaseComponent } from './base-component';
+import { LanguageService, dyeService, formatPriceWithSuffix } from '@services/index';
+import { logger } from '@shared/logger';
+import { clearContainer } from '@shared/utils';
+import {
+  decodeGlamourerDesign,
+  type GlamourerDecodeResult,
+  type GlamourerSlotDyes,
+} from '@xivdyetools/bot-logic';
+import type { Dye, PriceData } from '@xivdyetools/types';
+
+export interface GlamourerImportPanelOptions {
+  /** Fetch market prices for the imported dyes (omit to hide prices) */
+  fetchPrices?: (dyes: Dye[]) => Promise<Map<number, PriceData>>;
+  /** Called when the user clicks one of the imported dyes */
+  onDyeSelected?: (dye: Dye) => void;
+}
+
+export class GlamourerImportPanel extends BaseComponent {
+  private options: GlamourerImportPanelOptions;
+  private slots: GlamourerSlotDyes[] = [];
+  private unknownStainIds: number[] = [];
+  private priceData: Map<number, PriceData> = new Map();
+
+  // UI Elements
+  private textarea: HTMLTextAreaElement | null = null;
+  private importButton: HTMLButtonElement | null = null;
+  private statusEl: HTMLElement | null = null;
+  private resultsEl: HTMLElement | null = null;
+
+  constructor(container: HTMLElement, options: GlamourerImportPanelOptions = {}) {
+    super(container);
+    this.options = options;
+  }
+
+  renderContent(): void {
+    const wrapper = this.createElement('div', { className: 'space-y-3' });
+
+    this.textarea = this.createElement('textarea', {
+      className: 'w-full p-2 text-xs rounded-lg border font-mono resize-y',
+      attributes: {
+        rows: '3',
+        placeholder: LanguageService.t('glamourerImport.placeholder'),
+        'aria-label': LanguageService.t('glamourerImport.placeholder'),
+        spellcheck: 'false',
+        style:
+          'background: var(--theme-card-background); color: var(--theme-text); border-color: var(--theme-border);',
+      },
+    }) as HTMLTextAreaElement;
+    wrapper.appendChild(this.textarea);
+
+    this.importButton = this.createElement('button', {
+      className: 'w-full px-3 py-2 text-sm font-medium rounded-lg transition-colors',
+      textContent: LanguageService.t('glamourerImport.import'),
+      attributes: {
+        type: 'button',
+        style: 'background: var(--theme-primary); color: var(--theme-text-header);',
+      },
+    }) as HTMLButtonElement;
+    wrapper.appendChild(this.importButton);
+
+    this.statusEl = this.createElement('p', {
+      className: 'text-xs',
+      attributes: {
+        role: 'status',
+        'aria-live': 'polite',
+        style: 'color: var(--theme-text-muted);',
+      },
+    });
+    wrapper.appendChild(this.statusEl);
+
+    this.resultsEl = this.createElement('div', { className: 'space-y-2' });
+    wrapper.appendChild(this.resultsEl);
+
+    clearContainer(this.container);
+    this.container.appendChild(wrapper);
+  }
+
+  bindEvents(): void {
+    if (this.importButton) {
+      this.on(this.importButton, 'click', () => {
+        void this.importDesign();
+      });
+    }
+  }
+
+  /**
+   * Decode the pasted design, render its slots, then load prices
+   */
+  async importDesign(): Promise<void> {
+    const input = this.textarea?.value.trim() ?? '';
+    this.slots = [];
+    this.unknownStainIds = [];
+    this.priceData = new Map();
+
+    if (!input) {
+      this.renderResults();
+      this.setStatus('');
+      return;
+    }
+
+    const result = await decodeGlamourerDesign(input, dyeService);
+    if (!result.ok) {
+      this.renderResults();
+      this.setStatus(this.getErrorMessage(result));
+      return;
+    }
+
+    this.slots = result.slots;
+    this.unknownStainIds = result.unknownStainIds;
+    this.setStatus(
+      this.slots.length === 0
+        ? LanguageService.t('glamourerImport.noDyes')
+        : LanguageService.tInterpolate('glamourerImport.summary', { count: this.slots.length })
+    );
+    this.renderResults();
+
+    await this.loadPrices();
+  }
+
+  /**
+   * The slots from the last successful import
+   */
+  getSlots(): GlamourerSlotDyes[] {
+    return [...this.slots];
+  }
+
+  private async loadPrices(): Promise<void> {
+    if (!this.options.fetchPrices || this.slots.length === 0) return;
+
+    const dyes = new Map<number, Dye>();
+    for (const entry of this.slots) {
+      for (const dye of [entry.primary, entry.secondary]) {
+        if (dye && dye.itemID > 0) dyes.set(dye.itemID, dye);
+      }
+    }
+
+    try {
+      this.priceData = await this.options.fetchPrices([...dyes.values()]);
+      this.renderResults();
+    } catch (error) {
+      logger.warn('[GlamourerImportPanel] Error fetching prices:', error);
+    }
+  }
+
+  private renderResults(): void {
+    if (!this.resultsEl) return;
+    clearContainer(this.resultsEl);
+
+    for (const entry of this.slots) {
+      const row = this.createElement('div', {
+        className: 'p-2 rounded-lg space-y-1',
+        attributes: { style: 'background: var(--theme-card-background);' },
+      });
+
+      row.appendChild(
+        this.createElement('p', {
+          className: 'text-xs font-semibold',
+          textContent: LanguageService.t(`glamourerImport.slots.${entry.slot}`),
+          attributes: { style: 'color: var(--theme-text);' },
+        })
+      );
+
+      row.appendChild(this.renderChannel(entry.primary, entry.stainIds[0]));
+      row.appendChild(this.renderChannel(entry.secondary, entry.stainIds[1]));
+      this.resultsEl.appendChild(row);
+    }
+
+    // One dye per dyed channel
+    const total = this.slots
+      .flatMap((entry) => [entry.primary, entry.secondary])
+      .reduce(
+        (sum, dye) => sum + (dye ? (this.priceData.get(dye.itemID)?.currentMinPrice ?? 0) : 0),
+        0
+      );
+
+    if (total > 0) {
+      this.resultsEl.appendChild(
+        this.createElement('p', {
+          className: 'text-sm font-semibold number text-right',
+          textContent: LanguageService.tInterpolate('glamourerImport.total', {
+            amount: formatPriceWithSuffix(total),
+          }),
+          attributes: { style: 'color: var(--theme-text);' },
+        })
+      );
+    }
+
+    if (this.unknownStainIds.length > 0) {
+      this.resultsEl.appendChild(
+        this.createElement('p', {
+          className: 'text-xs',
+          textContent: LanguageService.tInterpolate('glamourerImport.unknownStains', {
+            ids: this.unknownStainIds.join(', '),
+          }),
+          attributes: { style: 'color: var(--theme-text-muted);' },
+        })
+      );
+    }
+  }
+
+  /**
+   * One dye channel: a clickable swatch + name + price, or the undyed label
+   */
+  private renderChannel(dye: Dye | null, stainId: number): HTMLElement {
+    if (!dye) {
+      return this.createElement('p', {
+        className: 'text-xs pl-7',
+        textContent:
+          stainId > 0
+            ? LanguageService.tInterpolate('glamourerImport.unknownStain', { id: stainId })
+            : LanguageService.t('glamourerImport.undyed'),
+        attributes: { style: 'color: var(--theme-text-muted);' },
+      });
+    }
+
+    const name = LanguageService.getDyeName(dye.itemID) || dye.name;
+    const button = this.createElement('button', {
+      className: 'flex items-center gap-2 w-full text-left text-xs rounded px-1 py-0.5',
+      attributes: {
+        type: 'button',
+        title: LanguageService.t('glamourerImport.selectHint'),
+        style: 'color: var(--theme-text);',
+      },
+    });
+
+    button.appendChild(
+      this.createElement('span', {
+        className: 'w-5 h-5 rounded flex-shrink-0',
+        attributes: { style: `background: ${dye.hex}; border: 1px solid var(--theme-border);` },
+      })
+    );
+    button.appendChild(
+      this.createElement('span', { className: 'flex-1 truncate', textContent: name })
+    );
+
+    const price = this.priceData.get(dye.itemID);
+    if (price) {
+      button.appendChild(
+        this.createElement('span', {
+          className: 'number',
+          textContent: formatPriceWithSuffix(price.currentMinPrice),
+          attributes: { style: 'color: var(--theme-text-muted);' },
+        })
+      );
+    }
+
+    this.on(button, 'click', () => this.options.onDyeSelected?.(dye));
+    return button;
+  }
+
+  private setStatus(message: string): void {
+    if (this.statusEl) this.statusEl.textContent = message;
+  }
+
+  private getErrorMessage(result: Extract<GlamourerDecodeResult, { ok: false }>): string {
+    switch (result.error) {
+      case 'UNSUPPORTED_VERSION':
+        return LanguageService.tInterpolate('glamourerImport.errors.unsupportedVersion', {
+          version: result.version ?? '?',
+        });
+      case 'TOO_LARGE':
+        return LanguageService.t('glamourerImport.errors.tooLarge');
+      default:
+        return LanguageService.t('glamourerImport.errors.invalid');
+    }
+  }
+}
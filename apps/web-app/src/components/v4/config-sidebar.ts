@@ -156,6 +156,7 @@ export class ConfigSidebar extends BaseLitComponent {
     sampleAreaSize: 1,
     matchingMethod: 'oklab',
     preventDuplicates: true,
+    recolorPreview: false,
     displayOptions: { ...DEFAULT_DISPLAY_OPTIONS },
     dyeFilters: { ...DEFAULT_DYE_FILTERS },
   };
@@ -1228,6 +1229,18 @@ export class ConfigSidebar extends BaseLitComponent {
           <div class="config-description">${LanguageService.t('config.preventDuplicatesDesc')}</div>
         </div>
 
+        <div class="config-group">
+          <div class="config-row">
+            <v4-toggle-switch
+              label=${LanguageService.t('config.recolorPreview')}
+              .checked=${this.extractorConfig.recolorPreview ?? false}
+              @toggle-change=${(e: CustomEvent<{ checked: boolean }>) =>
+                this.handleConfigChange('extractor', 'recolorPreview', e.detail.checked)}
+            ></v4-toggle-switch>
+          </div>
+          <div class="config-description">${LanguageService.t('config.recolorPreviewDesc')}</div>
+        </div>
+
         <v4-display-options
           .showHex=${this.globalDisplayOptions.showHex}
           .showRgb=${this.globalDisplayOptions.showRgb}
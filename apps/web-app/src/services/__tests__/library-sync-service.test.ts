@@ -0,0 +1,201 @@
+/**
+ * Tests for LibrarySyncService
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mergeChanges, type LibraryChanges, type LibrarySnapshot } from '@xivdyetools/types';
+
+const mockAuth = vi.hoisted(() => ({
+  discordId: '123456789012345678' as string | undefined,
+}));
+
+vi.mock('../auth-service', () => ({
+  authService: {
+    isAuthenticated: () => mockAuth.discordId !== undefined,
+    getUser: () =>
+      mockAuth.discordId ? { id: 'internal-uuid', discord_id: mockAuth.discordId } : null,
+    getAuthHeaders: () => ({ Authorization: 'Bearer test-token' }),
+    subscribe: (listener: () => void) => {
+      listener();
+      return () => {};
+    },
+  },
+}));
+
+type SyncModule = typeof import('../library-sync-service');
+type CollectionModule = typeof import('../collection-service');
+
+const OUTBOX_KEY = 'xivdyetools_library_outbox';
+
+describe('LibrarySyncService', () => {
+  let sync: SyncModule;
+  let CollectionService: CollectionModule['CollectionService'];
+  let server: LibrarySnapshot;
+  let online: boolean;
+  const fetchMock = vi.fn();
+  let addEventListenerSpy: ReturnType<typeof vi.spyOn>;
+
+  /**
+   * Minimal stand-in for /api/v1/library: newer change per item wins
+   */
+  function respond(_url: string, init: RequestInit): Promise<Response> {
+    if (!online) return Promise.reject(new TypeError('Failed to fetch'));
+
+    if (init.method === 'PUT') {
+      const changes = JSON.parse(init.body as string) as LibraryChanges;
+      const merged = mergeChanges(
+        { favorites: server.favorites, collections: server.collections },
+        changes
+      );
+      server = {
+        ...server,
+        favorites: merged.favorites ?? [],
+        collections: merged.collections ?? [],
+      };
+    }
+
+    return Promise.resolve(
+      new Response(JSON.stringify({ success: true, library: server }), { status: 200 })
+    );
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.resetModules();
+    localStorage.clear();
+    mockAuth.discordId = '123456789012345678';
+    server = { favorites: [], collections: [], serverTime: '2026-10-01T00:00:00.000Z' };
+    online = true;
+    fetchMock.mockReset().mockImplementation(respond);
+    vi.stubGlobal('fetch', fetchMock);
+    addEventListenerSpy = vi.spyOn(window, 'addEventListener');
+
+    sync = await import('../library-sync-service');
+    ({ CollectionService } = await import('../collection-service'));
+  });
+
+  afterEach(() => {
+    // Each test imports a fresh service; don't let earlier ones react to 'online'
+    for (const [type, listener] of addEventListenerSpy.mock.calls) {
+      window.removeEventListener(type as string, listener as EventListener);
+    }
+    addEventListenerSpy.mockRestore();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  describe('sync', () => {
+    it('should pull the server library into CollectionService', async () => {
+      server.favorites = [
+        { dyeId: 5729, updatedAt: '2026-09-01T00:00:00.000Z' },
+        { dyeId: 5730, updatedAt: '2026-09-01T00:00:00.000Z', deleted: true },
+      ];
+      server.collections = [
+        {
+          id: 'col_1',
+          name: 'From Discord',
+          dyes: [1, 2],
+          createdAt: '2026-09-01T00:00:00.000Z',
+          updatedAt: '2026-09-01T00:00:00.000Z',
+        },
+      ];
+      const service = new sync.LibrarySyncService();
+      service.initialize();
+
+      expect(await service.sync()).toBe(true);
+
+      expect(CollectionService.getFavorites()).toEqual([5729]);
+      expect(CollectionService.getCollection('col_1')?.name).toBe('From Discord');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should push local items the server has never seen', async () => {
+      CollectionService.addFavorite(7);
+      const service = new sync.LibrarySyncService();
+      service.initialize();
+
+      await service.sync();
+
+      expect(fetchMock.mock.calls[1][1].method).toBe('PUT');
+      expect(server.favorites.map((f) => f.dyeId)).toEqual([7]);
+      expect(CollectionService.getFavorites()).toEqual([7]);
+    });
+
+    it('should not sync accounts without a linked Discord account', async () => {
+      mockAuth.discordId = undefined;
+      const service = new sync.LibrarySyncService();
+      service.initialize();
+
+      expect(service.canSync()).toBe(false);
+      expect(await service.sync()).toBe(false);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('local changes', () => {
+    it('should push changes after a short delay and clear the outbox', async () => {
+      const service = new sync.LibrarySyncService();
+      service.initialize();
+      await service.sync();
+
+      CollectionService.addFavorite(5729);
+      expect(JSON.parse(localStorage.getItem(OUTBOX_KEY)!).changes.favorites).toHaveLength(1);
+
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(server.favorites).toEqual([{ dyeId: 5729, updatedAt: expect.any(String) }]);
+      expect(localStorage.getItem(OUTBOX_KEY)).toBeNull();
+    });
+
+    it('should keep changes made offline and push them when back online', async () => {
+      const service = new sync.LibrarySyncService();
+      service.initialize();
+      await service.sync();
+      online = false;
+
+      const collection = CollectionService.createCollection('Offline')!;
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(localStorage.getItem(OUTBOX_KEY)).not.toBeNull();
+      expect(CollectionService.getCollection(collection.id)).toBeDefined();
+
+      online = true;
+      window.dispatchEvent(new Event('online'));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(server.collections.map((c) => c.id)).toEqual([collection.id]);
+      expect(localStorage.getItem(OUTBOX_KEY)).toBeNull();
+    });
+
+    it('should send deletions as tombstones', async () => {
+      server.favorites = [{ dyeId: 5729, updatedAt: '2026-09-01T00:00:00.000Z' }];
+      const service = new sync.LibrarySyncService();
+      service.initialize();
+      await service.sync();
+
+      CollectionService.removeFavorite(5729);
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(server.favorites).toEqual([
+        { dyeId: 5729, updatedAt: expect.any(String), deleted: true },
+      ]);
+      expect(CollectionService.getFavorites()).toEqual([]);
+    });
+
+    it("should ignore another account's outbox", async () => {
+      localStorage.setItem(
+        OUTBOX_KEY,
+        JSON.stringify({
+          discordId: '999999999999999999',
+          changes: { favorites: [{ dyeId: 1, updatedAt: '2026-09-01T00:00:00.000Z' }] },
+        })
+      );
+      const service = new sync.LibrarySyncService();
+      service.initialize();
+
+      await service.sync();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(server.favorites).toEqual([]);
+    });
+  });
+});
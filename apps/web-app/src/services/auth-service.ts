@@ -37,6 +37,8 @@ export interface AuthUser {
   avatar: string | null;
   avatar_url: string | null;
   auth_provider?: AuthProvider;
+  /** Discord user ID (Discord logins, or XIVAuth accounts with a linked Discord account) */
+  discord_id?: string;
   primary_character?: PrimaryCharacter;
 }
 
@@ -345,6 +347,7 @@ class AuthServiceImpl {
           avatar: payload.avatar,
           avatar_url: avatarUrl,
           auth_provider: payload.auth_provider,
+          discord_id: payload.discord_id,
           primary_character: payload.primary_character,
         },
       };
@@ -476,6 +479,7 @@ class AuthServiceImpl {
         avatar: payload.avatar,
         avatar_url: avatarUrl,
         auth_provider: payload.auth_provider,
+        discord_id: payload.discord_id,
         primary_character: payload.primary_character,
       },
     };
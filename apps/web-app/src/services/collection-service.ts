@@ -695,6 +695,33 @@ export class CollectionService {
     return result;
   }
 
+  // ============================================================================
+  // Sync
+  // ============================================================================
+
+  /**
+   * Replace all favorites and collections with a synced copy
+   * Used by LibrarySyncService to apply the server library
+   */
+  static replaceLibrary(favorites: DyeId[], collections: Collection[]): void {
+    this.initialize();
+
+    if (this.favoritesData) {
+      this.favoritesData.favorites = favorites.slice(0, MAX_FAVORITES);
+    }
+    if (this.collectionsData) {
+      this.collectionsData.collections = collections
+        .slice(0, MAX_COLLECTIONS)
+        .map((collection) => ({
+          ...collection,
+          dyes: collection.dyes.slice(0, MAX_DYES_PER_COLLECTION),
+        }));
+    }
+
+    this.saveFavorites();
+    this.saveCollections();
+  }
+
   // ============================================================================
   // Subscriptions
   // ============================================================================
@@ -52,6 +52,7 @@ export {
   presetSubmissionService,
   validateSubmission,
 } from './preset-submission-service';
+export { LibrarySyncService, librarySyncService } from './library-sync-service';
 export type {
   PresetSubmission,
   SubmissionResult,
@@ -184,6 +185,13 @@ export async function initializeServices(): Promise<void> {
     await authService.initialize();
     logger.info(`✅ AuthService: ${authService.isAuthenticated() ? 'Logged in' : 'Not logged in'}`);
 
+    // Initialize LibrarySyncService (syncs favorites/collections with the Discord bot)
+    const { librarySyncService } = await import('./library-sync-service');
+    librarySyncService.initialize();
+    logger.info(
+      `✅ LibrarySyncService: ${librarySyncService.canSync() ? 'Syncing with Discord' : 'Local only'}`
+    );
+
     logger.info('🚀 All services initialized successfully');
   } catch (error) {
     logger.error('Failed to initialize services:', error);
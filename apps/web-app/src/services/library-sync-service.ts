@@ -0,0 +1,328 @@
+/**
+ * Library Sync Service
+ * Syncs favorites and collections with the Discord bot's /favorites and
+ * /collection commands through the presets API library store
+ *
+ * The store is keyed by Discord user ID, so syncing needs a Discord login (or
+ * an XIVAuth account with a linked Discord account). CollectionService stays
+ * the local copy: every change is diffed into a localStorage outbox and pushed
+ * shortly after, and the outbox survives going offline or closing the tab.
+ * The server keeps the newer change per item. The diffing and merging is
+ * shared with the Discord bot (`@xivdyetools/types` library helpers).
+ */
+
+import { logger } from '@shared/logger';
+import {
+  diffLibrary,
+  hasChanges,
+  mergeChanges,
+  toCollection,
+  toLocalLibrary,
+  unsyncedItems,
+  type LibraryChanges,
+  type LibrarySnapshot,
+  type LibrarySyncResponse,
+  type LocalLibrary,
+} from '@xivdyetools/types';
+import { authService } from './auth-service';
+import { CollectionService } from './collection-service';
+import { StorageService } from './storage-service';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Pending changes, tied to the account they were made under
+ */
+interface LibraryOutbox {
+  discordId: string;
+  changes: LibraryChanges;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+/**
+ * Presets API URL
+ */
+const PRESETS_API_URL = import.meta.env.VITE_PRESETS_API_URL || 'https://api.xivdyetools.app';
+
+/**
+ * Storage key for changes not yet pushed
+ */
+const OUTBOX_KEY = 'xivdyetools_library_outbox';
+
+/**
+ * Request timeout in milliseconds
+ */
+const REQUEST_TIMEOUT = 15000;
+
+/**
+ * Wait for a burst of edits (e.g. an import) to settle before pushing
+ */
+const PUSH_DELAY = 2000;
+
+// ============================================
+// Merging
+// ============================================
+
+/**
+ * Apply pending changes on top of a library
+ */
+function applyChanges(library: LocalLibrary, changes: LibraryChanges): LocalLibrary {
+  let favorites = [...library.favorites];
+  for (const favorite of changes.favorites ?? []) {
+    favorites = favorites.filter((id) => id !== favorite.dyeId);
+    if (!favorite.deleted) favorites.push(favorite.dyeId);
+  }
+
+  let collections = [...library.collections];
+  for (const collection of changes.collections ?? []) {
+    const index = collections.findIndex((c) => c.id === collection.id);
+    if (collection.deleted) {
+      collections = collections.filter((c) => c.id !== collection.id);
+    } else if (index >= 0) {
+      collections[index] = toCollection(collection);
+    } else {
+      collections.push(toCollection(collection));
+    }
+  }
+
+  return { favorites, collections };
+}
+
+// ============================================
+// Service
+// ============================================
+
+class LibrarySyncServiceImpl {
+  private initialized = false;
+  private last: LocalLibrary | null = null;
+  private applying = false;
+  private syncing: Promise<boolean> | null = null;
+  private pushTimer: ReturnType<typeof setTimeout> | null = null;
+  private syncedDiscordId: string | null = null;
+
+  /**
+   * Start watching CollectionService and sync whenever a Discord-linked user
+   * signs in or the browser comes back online
+   */
+  initialize(): void {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    CollectionService.subscribeFavorites(() => this.handleLocalChange());
+    CollectionService.subscribeCollections(() => this.handleLocalChange());
+
+    authService.subscribe(() => {
+      const discordId = this.getDiscordId();
+      if (discordId && discordId !== this.syncedDiscordId) {
+        this.syncedDiscordId = discordId;
+        void this.sync();
+      } else if (!discordId) {
+        this.syncedDiscordId = null;
+      }
+    });
+
+    window.addEventListener('online', () => {
+      void this.sync();
+    });
+  }
+
+  /**
+   * Whether the signed-in account can sync (needs a Discord user ID)
+   */
+  canSync(): boolean {
+    return this.getDiscordId() !== null;
+  }
+
+  /**
+   * Push pending changes and pull the server library into CollectionService
+   * @returns True if the local copy now matches the server
+   */
+  sync(): Promise<boolean> {
+    if (!this.canSync() || !navigator.onLine) {
+      return Promise.resolve(false);
+    }
+    if (this.syncing) {
+      return this.syncing;
+    }
+
+    this.syncing = this.runSync().finally(() => {
+      this.syncing = null;
+    });
+    return this.syncing;
+  }
+
+  private async runSync(): Promise<boolean> {
+    const discordId = this.getDiscordId();
+    if (!discordId) return false;
+
+    try {
+      let { library } = await this.request('GET');
+
+      const sent = mergeChanges(
+        this.readOutbox(discordId),
+        unsyncedItems(this.getLocal(), library, new Date().toISOString())
+      );
+      if (hasChanges(sent)) {
+        const response = await this.request('PUT', sent);
+        library = response.library;
+        this.removeFromOutbox(discordId, sent);
+        if (response.rejected) {
+          logger.warn('Some library changes were over the server limits:', response.rejected);
+        }
+      }
+
+      this.applySnapshot(library, discordId);
+
+      // Edits made while this sync was in flight go out with the next one
+      if (this.readOutbox(discordId)) {
+        this.schedulePush();
+      }
+      return true;
+    } catch (err) {
+      logger.warn('Library sync failed, keeping local changes for the next sync:', err);
+      return false;
+    }
+  }
+
+  /**
+   * Record what changed locally since the last notification
+   */
+  private handleLocalChange(): void {
+    const current = this.getLocal();
+    const before = this.last;
+    this.last = current;
+
+    if (!before || this.applying) return;
+
+    const discordId = this.getDiscordId();
+    if (!discordId) return;
+
+    const changes = diffLibrary(before, current, new Date().toISOString());
+    if (!hasChanges(changes)) return;
+
+    this.writeOutbox(discordId, mergeChanges(this.readOutbox(discordId), changes));
+    this.schedulePush();
+  }
+
+  private schedulePush(): void {
+    if (this.pushTimer) clearTimeout(this.pushTimer);
+    this.pushTimer = setTimeout(() => {
+      this.pushTimer = null;
+      void this.sync();
+    }, PUSH_DELAY);
+  }
+
+  /**
+   * Replace the local copy with the server library, keeping changes made
+   * while the request was in flight
+   */
+  private applySnapshot(library: LibrarySnapshot, discordId: string): void {
+    const local = this.getLocal();
+    let merged = toLocalLibrary(library, local);
+
+    const pending = this.readOutbox(discordId);
+    if (pending) {
+      merged = applyChanges(merged, pending);
+    }
+
+    if (JSON.stringify(merged) === JSON.stringify(local)) return;
+
+    this.applying = true;
+    try {
+      CollectionService.replaceLibrary(merged.favorites, merged.collections);
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  private async request(
+    method: 'GET' | 'PUT',
+    changes?: LibraryChanges
+  ): Promise<LibrarySyncResponse> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+    try {
+      const response = await fetch(`${PRESETS_API_URL}/api/v1/library`, {
+        method,
+        headers: {
+          ...(changes && { 'Content-Type': 'application/json' }),
+          ...authService.getAuthHeaders(),
+        },
+        ...(changes && { body: JSON.stringify(changes) }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Library ${method} failed with status ${response.status}`);
+      }
+
+      return (await response.json()) as LibrarySyncResponse;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private getDiscordId(): string | null {
+    if (!authService.isAuthenticated()) return null;
+    return authService.getUser()?.discord_id ?? null;
+  }
+
+  private getLocal(): LocalLibrary {
+    return {
+      favorites: CollectionService.getFavorites(),
+      collections: CollectionService.getCollections(),
+    };
+  }
+
+  // ============================================
+  // Outbox
+  // ============================================
+
+  private readOutbox(discordId: string): LibraryChanges | null {
+    const outbox = StorageService.getItem<LibraryOutbox>(OUTBOX_KEY);
+    // Never push one account's pending changes into another account
+    return outbox && outbox.discordId === discordId ? outbox.changes : null;
+  }
+
+  private writeOutbox(discordId: string, changes: LibraryChanges): void {
+    if (hasChanges(changes)) {
+      StorageService.setItem<LibraryOutbox>(OUTBOX_KEY, { discordId, changes });
+    } else {
+      StorageService.removeItem(OUTBOX_KEY);
+    }
+  }
+
+  /**
+   * Drop the changes that were pushed (or superseded by what was pushed),
+   * keeping anything edited again since
+   */
+  private removeFromOutbox(discordId: string, sent: LibraryChanges): void {
+    const outbox = this.readOutbox(discordId);
+    if (!outbox) return;
+
+    const sentFavorites = new Map((sent.favorites ?? []).map((f) => [f.dyeId, f.updatedAt]));
+    const sentCollections = new Map((sent.collections ?? []).map((c) => [c.id, c.updatedAt]));
+
+    this.writeOutbox(discordId, {
+      favorites: (outbox.favorites ?? []).filter(
+        (f) => f.updatedAt > (sentFavorites.get(f.dyeId) ?? '')
+      ),
+      collections: (outbox.collections ?? []).filter(
+        (c) => c.updatedAt > (sentCollections.get(c.id) ?? '')
+      ),
+    });
+  }
+}
+
+// ============================================
+// Export Singleton
+// ============================================
+
+export const librarySyncService = new LibrarySyncServiceImpl();
+export { LibrarySyncServiceImpl as LibrarySyncService };
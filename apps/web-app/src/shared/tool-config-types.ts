@@ -80,6 +80,8 @@ export interface ExtractorConfig {
   matchingMethod: MatchingMethod;
   /** Prevent the same dye from appearing in multiple palette slots */
   preventDuplicates: boolean;
+  /** Show the image recolored in its matched dyes next to the original */
+  recolorPreview: boolean;
   /** Display options for result cards */
   displayOptions: DisplayOptionsConfig;
   /** Dye filter configuration */
@@ -404,6 +406,7 @@ export const DEFAULT_CONFIGS: ToolConfigMap = {
     sampleAreaSize: 1,
     matchingMethod: 'oklab',
     preventDuplicates: true,
+    recolorPreview: false,
     displayOptions: { ...DEFAULT_DISPLAY_OPTIONS },
     dyeFilters: { ...DEFAULT_DYE_FILTERS },
   },
@@ -19,6 +19,7 @@ import {
 } from '@xivdyetools/svg';
 import { initializeLocale, getLocalizedDyeName } from '../localization.js';
 import type { EmbedData } from './types.js';
+import { dyeEmojiPrefix, type DyeEmojiLookup } from './emoji.js';
 
 // ============================================================================
 // Types
@@ -45,6 +46,8 @@ export interface AccessibilityInput {
   dyes: AccessibilityDye[];
   visionTypes?: VisionType[];
   locale: LocaleCode;
+  /** Platform emoji shown before dye names (Discord) */
+  dyeEmoji?: DyeEmojiLookup;
 }
 
 export type AccessibilityResult =
@@ -68,7 +71,7 @@ export type AccessibilityResult =
  * before calling this function.
  */
 export async function executeAccessibility(input: AccessibilityInput): Promise<AccessibilityResult> {
-  const { dyes, locale } = input;
+  const { dyes, locale, dyeEmoji } = input;
   const visionTypes = input.visionTypes ?? VISION_TYPES;
   const t = createTranslator(locale);
 
@@ -76,9 +79,9 @@ export async function executeAccessibility(input: AccessibilityInput): Promise<A
 
   try {
     if (dyes.length === 1) {
-      return processSingleDye(dyes[0], visionTypes, locale, t);
+      return processSingleDye(dyes[0], visionTypes, locale, t, dyeEmoji);
     } else {
-      return processMultiDye(dyes, locale, t);
+      return processMultiDye(dyes, locale, t, dyeEmoji);
     }
   } catch {
     return { ok: false, error: 'GENERATION_FAILED', errorMessage: 'Failed to generate accessibility image.' };
@@ -93,7 +96,8 @@ function processSingleDye(
   dyeInput: AccessibilityDye,
   visionTypes: VisionType[],
   locale: LocaleCode,
-  t: ReturnType<typeof createTranslator>
+  t: ReturnType<typeof createTranslator>,
+  dyeEmoji?: DyeEmojiLookup
 ): AccessibilityResult {
   const localizedName = dyeInput.itemID
     ? getLocalizedDyeName(dyeInput.itemID, dyeInput.name, locale)
@@ -106,7 +110,7 @@ function processSingleDye(
   });
 
   const description =
-    `**${localizedName}** (\`${dyeInput.hex.toUpperCase()}\`)\n\n` +
+    `${dyeEmojiPrefix(dyeEmoji, dyeInput.dye?.id)}**${localizedName}** (\`${dyeInput.hex.toUpperCase()}\`)\n\n` +
     `${t.t('accessibility.description')}\n\n` +
     `• **${t.t('accessibility.protanopia')}** - ${t.t('accessibility.protanopiaDesc')}\n` +
     `• **${t.t('accessibility.deuteranopia')}** - ${t.t('accessibility.deuteranopiaDesc')}\n` +
@@ -125,7 +129,8 @@ function processSingleDye(
 function processMultiDye(
   dyeInputs: AccessibilityDye[],
   locale: LocaleCode,
-  t: ReturnType<typeof createTranslator>
+  t: ReturnType<typeof createTranslator>,
+  dyeEmoji?: DyeEmojiLookup
 ): AccessibilityResult {
   const contrastDyes: ContrastDye[] = dyeInputs.map((d) => ({
     name: d.itemID ? getLocalizedDyeName(d.itemID, d.name, locale) : d.name,
@@ -140,7 +145,7 @@ function processMultiDye(
   const dyeList = dyeInputs
     .map((d) => {
       const localizedName = d.itemID ? getLocalizedDyeName(d.itemID, d.name, locale) : d.name;
-      return `**${localizedName}** (\`${d.hex.toUpperCase()}\`)`;
+      return `${dyeEmojiPrefix(dyeEmoji, d.dye?.id)}**${localizedName}** (\`${d.hex.toUpperCase()}\`)`;
     })
     .join('\n');
 
@@ -13,6 +13,7 @@ import { createTranslator, type LocaleCode } from '@xivdyetools/bot-i18n';
 import { generateComparisonGrid } from '@xivdyetools/svg';
 import { initializeLocale, getLocalizedDyeName } from '../localization.js';
 import type { EmbedData } from './types.js';
+import { dyeEmojiPrefix, type DyeEmojiLookup } from './emoji.js';
 
 // ============================================================================
 // Types
@@ -22,6 +23,8 @@ export interface ComparisonInput {
   /** 2-4 already-resolved Dye objects */
   dyes: Dye[];
   locale: LocaleCode;
+  /** Platform emoji shown before dye names (Discord) */
+  dyeEmoji?: DyeEmojiLookup;
 }
 
 export type ComparisonResult =
@@ -44,7 +47,7 @@ export type ComparisonResult =
  * before calling this function.
  */
 export async function executeComparison(input: ComparisonInput): Promise<ComparisonResult> {
-  const { dyes, locale } = input;
+  const { dyes, locale, dyeEmoji } = input;
   const t = createTranslator(locale);
 
   await initializeLocale(locale);
@@ -66,7 +69,7 @@ export async function executeComparison(input: ComparisonInput): Promise<Compari
     const dyeList = dyes
       .map((dye, i) => {
         const localizedName = getLocalizedDyeName(dye.itemID, dye.name, locale);
-        return `**${i + 1}.** ${localizedName} (\`${dye.hex.toUpperCase()}\`)`;
+        return `**${i + 1}.** ${dyeEmojiPrefix(dyeEmoji, dye.id)}${localizedName} (\`${dye.hex.toUpperCase()}\`)`;
       })
       .join('\n');
 
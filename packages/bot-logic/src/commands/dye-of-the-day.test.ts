@@ -0,0 +1,76 @@
+/**
+ * Dye of the Day — Unit Tests
+ *
+ * Tests for selectDyeOfTheDay, getDateKey and executeDyeOfTheDay.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { executeDyeOfTheDay, selectDyeOfTheDay, getDateKey } from './dye-of-the-day.js';
+import { HARMONY_TYPES } from './harmony.js';
+
+// ============================================================================
+// getDateKey
+// ============================================================================
+
+describe('getDateKey', () => {
+  it('formats the UTC calendar day', () => {
+    expect(getDateKey(new Date('2026-10-19T23:59:59Z'))).toBe('2026-10-19');
+    expect(getDateKey(new Date('2026-10-20T00:00:00Z'))).toBe('2026-10-20');
+  });
+});
+
+// ============================================================================
+// selectDyeOfTheDay
+// ============================================================================
+
+describe('selectDyeOfTheDay', () => {
+  it('picks the same dye and harmony all day', () => {
+    const morning = selectDyeOfTheDay(new Date('2026-10-19T00:30:00Z'));
+    const evening = selectDyeOfTheDay(new Date('2026-10-19T22:00:00Z'));
+
+    expect(morning).not.toBeNull();
+    expect(evening?.dye.itemID).toBe(morning?.dye.itemID);
+    expect(evening?.harmonyType).toBe(morning?.harmonyType);
+    expect(morning?.dateKey).toBe('2026-10-19');
+  });
+
+  it('never picks Facewear and always picks a known harmony type', () => {
+    for (let day = 1; day <= 60; day++) {
+      const pick = selectDyeOfTheDay(new Date(Date.UTC(2026, 0, day)));
+      expect(pick?.dye.category).not.toBe('Facewear');
+      expect(HARMONY_TYPES).toContain(pick?.harmonyType);
+    }
+  });
+
+  it('varies across days', () => {
+    const itemIds = new Set<number>();
+    for (let day = 1; day <= 30; day++) {
+      itemIds.add(selectDyeOfTheDay(new Date(Date.UTC(2026, 5, day)))!.dye.itemID);
+    }
+
+    expect(itemIds.size).toBeGreaterThan(15);
+  });
+});
+
+// ============================================================================
+// executeDyeOfTheDay
+// ============================================================================
+
+describe('executeDyeOfTheDay', () => {
+  it('renders the info card and harmony wheel for the pick', async () => {
+    const date = new Date('2026-10-19T12:00:00Z');
+    const pick = selectDyeOfTheDay(date)!;
+    const result = await executeDyeOfTheDay({ date, locale: 'en' });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.dye.itemID).toBe(pick.dye.itemID);
+    expect(result.harmonyType).toBe(pick.harmonyType);
+    expect(result.localizedName).toBe(pick.dye.name);
+    expect(result.infoCardSvg).toContain('<svg');
+    expect(result.harmonySvg).toContain('<svg');
+    expect(result.harmonyTitle).toContain('Harmony');
+    expect(result.harmonyDyes.length).toBeGreaterThan(0);
+  });
+});
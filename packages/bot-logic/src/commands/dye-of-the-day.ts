@@ -0,0 +1,140 @@
+/**
+ * Dye of the Day — Business Logic
+ *
+ * Picks one dye and one harmony type per calendar day (UTC) and renders the
+ * dye info card and harmony wheel for it. The pick is a pure function of the
+ * date, so every server — and every scheduled run that day — features the
+ * same dye without storing anything.
+ *
+ * Platform-agnostic: no Discord API calls, no file I/O.
+ *
+ * @module commands/dye-of-the-day
+ */
+
+import type { Dye } from '@xivdyetools/types';
+import type { LocaleCode } from '@xivdyetools/bot-i18n';
+import { dyeService } from '../input-resolution.js';
+import { executeDyeInfo } from './dye-info.js';
+import { executeHarmony, HARMONY_TYPES, type HarmonyType } from './harmony.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DyeOfTheDayInput {
+  /** Day to feature; only its UTC calendar date is used */
+  date: Date;
+  locale: LocaleCode;
+}
+
+export interface DyeOfTheDayPick {
+  /** UTC calendar date (YYYY-MM-DD) the pick was made for */
+  dateKey: string;
+  dye: Dye;
+  harmonyType: HarmonyType;
+}
+
+export type DyeOfTheDayResult =
+  | (DyeOfTheDayPick & {
+      ok: true;
+      localizedName: string;
+      /** Dye info card SVG */
+      infoCardSvg: string;
+      /** Harmony wheel SVG for {@link DyeOfTheDayPick.harmonyType} */
+      harmonySvg: string;
+      /** Localized harmony title, e.g. "Triadic Harmony" */
+      harmonyTitle: string;
+      /** Dyes suggested by the harmony wheel */
+      harmonyDyes: Dye[];
+    })
+  | { ok: false; error: 'NO_DYES' | 'GENERATION_FAILED'; errorMessage: string };
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/**
+ * Format a date as its UTC calendar day (YYYY-MM-DD)
+ */
+export function getDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * 32-bit FNV-1a hash — small, stable across runtimes, and spreads
+ * consecutive dates well enough to avoid runs of similar dyes.
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Pick the dye and harmony type for a date
+ *
+ * Facewear is excluded (it has no market listings). The pool is sorted by
+ * item ID so the pick doesn't depend on database order.
+ *
+ * @returns The pick, or null if no dyes are available
+ */
+export function selectDyeOfTheDay(date: Date): DyeOfTheDayPick | null {
+  const pool = dyeService
+    .getAllDyes()
+    .filter((dye) => dye.category !== 'Facewear')
+    .sort((a, b) => a.itemID - b.itemID);
+
+  if (pool.length === 0) return null;
+
+  const dateKey = getDateKey(date);
+  const dye = pool[hashString(dateKey) % pool.length];
+  const harmonyType = HARMONY_TYPES[hashString(`${dateKey}:harmony`) % HARMONY_TYPES.length];
+
+  return { dateKey, dye, harmonyType };
+}
+
+// ============================================================================
+// Execute
+// ============================================================================
+
+/**
+ * Pick the day's dye and render its info card and harmony wheel.
+ */
+export async function executeDyeOfTheDay(input: DyeOfTheDayInput): Promise<DyeOfTheDayResult> {
+  const { date, locale } = input;
+
+  const pick = selectDyeOfTheDay(date);
+  if (!pick) {
+    return { ok: false, error: 'NO_DYES', errorMessage: 'No dyes available.' };
+  }
+
+  const { dye, harmonyType } = pick;
+  const [info, harmony] = await Promise.all([
+    executeDyeInfo({ dye, locale }),
+    executeHarmony({
+      baseHex: dye.hex,
+      baseName: dye.name,
+      baseId: dye.id,
+      baseItemID: dye.itemID,
+      harmonyType,
+      locale,
+    }),
+  ]);
+
+  if (!info.ok || !harmony.ok) {
+    return { ok: false, error: 'GENERATION_FAILED', errorMessage: 'Failed to generate Dye of the Day cards.' };
+  }
+
+  return {
+    ok: true,
+    ...pick,
+    localizedName: info.localizedName,
+    infoCardSvg: info.svgString,
+    harmonySvg: harmony.svgString,
+    harmonyTitle: harmony.embed.title,
+    harmonyDyes: harmony.harmonyDyes,
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Dye Quiz — Unit Tests
+ *
+ * Tests for getQuizPool, executeDyeQuiz and scoreDyeQuizAnswer.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ColorConverter, ColorService } from '@xivdyetools/core';
+import { executeDyeQuiz, scoreDyeQuizAnswer, getQuizPool, QUIZ_DIFFICULTIES, QUIZ_POOLS } from './dyequiz.js';
+import { dyeService } from '../input-resolution.js';
+
+/** Deterministic random source (LCG) so rounds are reproducible */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function dyeByName(name: string) {
+  const dye = dyeService.getAllDyes().find((d) => d.name === name);
+  if (!dye) throw new Error(`Missing test dye: ${name}`);
+  return dye;
+}
+
+// ============================================================================
+// getQuizPool
+// ============================================================================
+
+describe('getQuizPool', () => {
+  it('keeps only the everyday dyes on easy', () => {
+    const pool = getQuizPool('easy', 'all');
+
+    expect(pool.length).toBeGreaterThan(10);
+    expect(pool.some((dye) => dye.isMetallic || dye.isPastel || dye.isDark || dye.isCosmic)).toBe(false);
+  });
+
+  it('restricts single-type pools to that type, even on easy', () => {
+    const metallic = getQuizPool('easy', 'metallic');
+
+    expect(metallic.length).toBeGreaterThan(0);
+    expect(metallic.every((dye) => dye.isMetallic)).toBe(true);
+    expect(metallic).toEqual(getQuizPool('hard', 'metallic'));
+    expect(getQuizPool('easy', 'ishgardian').every((dye) => dye.isIshgardian)).toBe(true);
+  });
+
+  it('has enough dyes for every difficulty and pool', () => {
+    for (const pool of QUIZ_POOLS) {
+      for (const difficulty of QUIZ_DIFFICULTIES) {
+        const result = executeDyeQuiz({ difficulty, pool, random: seededRandom(2) });
+        expect(result.ok && result.round.choices.length >= 3).toBe(true);
+      }
+    }
+  });
+
+  it('never includes Facewear', () => {
+    for (const pool of QUIZ_POOLS) {
+      expect(getQuizPool('normal', pool).some((dye) => dye.category === 'Facewear')).toBe(false);
+    }
+  });
+});
+
+// ============================================================================
+// executeDyeQuiz
+// ============================================================================
+
+describe('executeDyeQuiz', () => {
+  it('builds a round with the answer among distinct choices', () => {
+    const result = executeDyeQuiz({ difficulty: 'normal', pool: 'all', random: seededRandom(1) });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const { round } = result;
+    expect(round.choices).toHaveLength(4);
+    expect(new Set(round.choices.map((dye) => dye.itemID)).size).toBe(4);
+    expect(round.choices.some((dye) => dye.itemID === round.answer.itemID)).toBe(true);
+    expect(round.swatchHex).toBe(round.answer.hex);
+    expect(result.svgString).toContain(round.answer.hex);
+  });
+
+  it('keeps wrong choices clearly apart on easy', () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const result = executeDyeQuiz({ difficulty: 'easy', pool: 'all', random: seededRandom(seed) });
+      if (!result.ok) throw new Error(result.errorMessage);
+
+      const { answer, choices } = result.round;
+      expect(choices).toHaveLength(3);
+      for (const dye of choices.filter((d) => d.itemID !== answer.itemID)) {
+        expect(ColorConverter.getDeltaE(answer.hex, dye.hex, 'cie2000')).toBeGreaterThanOrEqual(25);
+      }
+    }
+  });
+
+  it('offers the closest neighbours on hard', () => {
+    const result = executeDyeQuiz({ difficulty: 'hard', pool: 'all', random: seededRandom(3) });
+    if (!result.ok) throw new Error(result.errorMessage);
+
+    const { answer, choices } = result.round;
+    const nearest = getQuizPool('hard', 'all')
+      .filter((dye) => dye.itemID !== answer.itemID)
+      .map((dye) => ColorConverter.getDeltaE(answer.hex, dye.hex, 'cie2000'))
+      .sort((a, b) => a - b)
+      .slice(0, 4);
+    const offered = choices
+      .filter((dye) => dye.itemID !== answer.itemID)
+      .map((dye) => ColorConverter.getDeltaE(answer.hex, dye.hex, 'cie2000'))
+      .sort((a, b) => a - b);
+
+    expect(choices).toHaveLength(5);
+    expect(offered).toEqual(nearest);
+  });
+
+  it('shows the simulated color for a vision type', () => {
+    const result = executeDyeQuiz({
+      difficulty: 'normal',
+      pool: 'all',
+      vision: 'deuteranopia',
+      random: seededRandom(5),
+    });
+    if (!result.ok) throw new Error(result.errorMessage);
+
+    const { answer, swatchHex } = result.round;
+    expect(swatchHex).toBe(ColorService.simulateColorblindnessHex(answer.hex, 'deuteranopia'));
+    expect(result.svgString).toContain(swatchHex);
+  });
+
+  it('picks every choice from a single-type pool', () => {
+    const result = executeDyeQuiz({ difficulty: 'normal', pool: 'metallic', random: seededRandom(7) });
+    if (!result.ok) throw new Error(result.errorMessage);
+
+    expect(result.round.choices.every((dye) => dye.isMetallic)).toBe(true);
+  });
+});
+
+// ============================================================================
+// scoreDyeQuizAnswer
+// ============================================================================
+
+describe('scoreDyeQuizAnswer', () => {
+  const snowWhite = dyeByName('Snow White');
+
+  it('gives full points for the right dye and grows the streak', () => {
+    const score = scoreDyeQuizAnswer({ answer: snowWhite, guess: snowWhite, difficulty: 'normal', streak: 0 });
+
+    expect(score).toMatchObject({ correct: true, points: 150, streakBonus: 0, streak: 1, deltaE: 0 });
+  });
+
+  it('adds a capped streak bonus', () => {
+    const third = scoreDyeQuizAnswer({ answer: snowWhite, guess: snowWhite, difficulty: 'easy', streak: 2 });
+    const tenth = scoreDyeQuizAnswer({ answer: snowWhite, guess: snowWhite, difficulty: 'easy', streak: 9 });
+
+    expect(third).toMatchObject({ points: 120, streakBonus: 20, streak: 3 });
+    expect(tenth).toMatchObject({ points: 150, streakBonus: 50, streak: 10 });
+  });
+
+  it('gives partial credit for a near-miss and resets the streak', () => {
+    const guess = dyeByName('Pure White');
+    const deltaE = ColorConverter.getDeltaE(snowWhite.hex, guess.hex, 'cie2000');
+    const score = scoreDyeQuizAnswer({ answer: snowWhite, guess, difficulty: 'hard', streak: 4 });
+
+    expect(deltaE).toBeLessThanOrEqual(20);
+    expect(score.correct).toBe(false);
+    expect(score.streak).toBe(0);
+    expect(score.points).toBeGreaterThan(0);
+    expect(score.points).toBeLessThan(200);
+  });
+
+  it('gives nothing for a far-off color', () => {
+    const score = scoreDyeQuizAnswer({
+      answer: snowWhite,
+      guess: dyeByName('Soot Black'),
+      difficulty: 'normal',
+      streak: 1,
+    });
+
+    expect(score).toMatchObject({ correct: false, points: 0, streak: 0 });
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Dye Quiz — Business Logic
+ *
+ * Builds guessing rounds (a swatch of a hidden dye plus answer choices) and
+ * scores guesses by how close the guessed dye's color is to the answer, so a
+ * near-miss still earns partial credit.
+ *
+ * Difficulty decides how far apart the answer choices are and which dye types
+ * are in play; the pool narrows the round to one dye type using the same
+ * DyeFilter flags as the rest of the tools. A round can also show the swatch
+ * as seen with a color vision deficiency.
+ *
+ * Platform-agnostic: no Discord API calls, no file I/O.
+ *
+ * @module commands/dyequiz
+ */
+
+import type { Dye, DyeTypeFilters } from '@xivdyetools/types';
+import { ColorConverter, ColorService, filterDyes, isDyeExcluded } from '@xivdyetools/core';
+import { createSvgDocument, rect, type VisionType } from '@xivdyetools/svg';
+import { dyeService } from '../input-resolution.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Difficulty levels, easiest first (also the `start` option choices) */
+export const QUIZ_DIFFICULTIES = ['easy', 'normal', 'hard'] as const;
+
+export type QuizDifficulty = (typeof QUIZ_DIFFICULTIES)[number];
+
+/** Dye pools a round can draw from (also the `start` option choices) */
+export const QUIZ_POOLS = ['all', 'metallic', 'pastel', 'dark', 'cosmic', 'ishgardian'] as const;
+
+export type QuizPool = (typeof QUIZ_POOLS)[number];
+
+export interface DyeQuizInput {
+  difficulty: QuizDifficulty;
+  pool: QuizPool;
+  /** Show the swatch as seen with this color vision deficiency */
+  vision?: VisionType;
+  /** Random source in [0, 1) (injectable for tests) */
+  random?: () => number;
+}
+
+export interface DyeQuizRound {
+  /** The dye players have to guess */
+  answer: Dye;
+  /** Answer choices in display order (includes the answer) */
+  choices: Dye[];
+  /** Color shown on the swatch (the answer, or its simulation under `vision`) */
+  swatchHex: string;
+  difficulty: QuizDifficulty;
+  pool: QuizPool;
+  vision?: VisionType;
+}
+
+export type DyeQuizResult =
+  | { ok: true; round: DyeQuizRound; svgString: string }
+  | { ok: false; error: 'POOL_TOO_SMALL'; errorMessage: string };
+
+export interface DyeQuizScoreInput {
+  answer: Dye;
+  guess: Dye;
+  difficulty: QuizDifficulty;
+  /** Player's streak of correct answers before this guess */
+  streak: number;
+}
+
+export interface DyeQuizScore {
+  correct: boolean;
+  /** CIEDE2000 distance between the guess and the answer */
+  deltaE: number;
+  /** Points for this guess, including the streak bonus */
+  points: number;
+  /** Part of {@link points} earned by the streak */
+  streakBonus: number;
+  /** Streak after this guess (0 after a miss) */
+  streak: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+interface DifficultyConfig {
+  /** Dye types left out of the round */
+  filters: DyeTypeFilters;
+  /** Number of answer choices, including the answer (fewer if the pool is smaller) */
+  choices: number;
+  /** Minimum ΔE between the answer and each wrong choice (0 = pick the nearest dyes) */
+  minDistance: number;
+  /** Points for a correct answer */
+  points: number;
+}
+
+const DIFFICULTIES: Record<QuizDifficulty, DifficultyConfig> = {
+  // Only the everyday dyes, with clearly different choices
+  easy: {
+    filters: {
+      excludeMetallic: true,
+      excludePastel: true,
+      excludeDark: true,
+      excludeCosmic: true,
+      excludeIshgardian: true,
+    },
+    choices: 3,
+    minDistance: 25,
+    points: 100,
+  },
+  normal: { filters: {}, choices: 4, minDistance: 10, points: 150 },
+  // Wrong choices are the answer's closest neighbours
+  hard: { filters: {}, choices: 5, minDistance: 0, points: 200 },
+};
+
+/** DyeFilter flag for each single-type pool */
+const POOL_FILTERS: Record<Exclude<QuizPool, 'all'>, keyof DyeTypeFilters> = {
+  metallic: 'excludeMetallic',
+  pastel: 'excludePastel',
+  dark: 'excludeDark',
+  cosmic: 'excludeCosmic',
+  ishgardian: 'excludeIshgardian',
+};
+
+/** Fewest answer choices a round can have (small single-type pools) */
+const MIN_CHOICES = 3;
+
+/** Share of the full points for a near-miss, by ΔE ceiling */
+const PARTIAL_CREDIT: ReadonlyArray<{ maxDeltaE: number; share: number }> = [
+  { maxDeltaE: 5, share: 0.6 },
+  { maxDeltaE: 10, share: 0.35 },
+  { maxDeltaE: 20, share: 0.15 },
+];
+
+/** Bonus per correct answer in a row after the first, and its cap */
+const STREAK_BONUS_STEP = 10;
+const STREAK_BONUS_MAX = 50;
+
+const SWATCH_WIDTH = 480;
+const SWATCH_HEIGHT = 240;
+
+// ============================================================================
+// Pool
+// ============================================================================
+
+/**
+ * Dyes a round can use for a difficulty and pool
+ *
+ * A single-type pool keeps only the dyes its DyeFilter flag would exclude
+ * (e.g. metallic-only). The difficulty's type filters don't apply to it: the
+ * types overlap, so easy's filters would leave some pools empty.
+ */
+export function getQuizPool(difficulty: QuizDifficulty, pool: QuizPool): Dye[] {
+  const dyes = dyeService.getAllDyes().filter((dye) => dye.category !== 'Facewear');
+
+  if (pool === 'all') {
+    return filterDyes(DIFFICULTIES[difficulty].filters, dyes);
+  }
+
+  const filters: DyeTypeFilters = { [POOL_FILTERS[pool]]: true };
+  return dyes.filter((dye) => isDyeExcluded(filters, dye));
+}
+
+// ============================================================================
+// Execute
+// ============================================================================
+
+/**
+ * Start a round: pick the hidden dye and its answer choices, and render the swatch.
+ */
+export function executeDyeQuiz(input: DyeQuizInput): DyeQuizResult {
+  const { difficulty, pool, vision } = input;
+  const random = input.random ?? Math.random;
+  const config = DIFFICULTIES[difficulty];
+
+  const candidates = getQuizPool(difficulty, pool);
+  if (candidates.length < MIN_CHOICES) {
+    return {
+      ok: false,
+      error: 'POOL_TOO_SMALL',
+      errorMessage: `Only ${candidates.length} dyes match this difficulty and pool.`,
+    };
+  }
+
+  const answer = candidates[Math.floor(random() * candidates.length)];
+  const others = candidates
+    .filter((dye) => dye.itemID !== answer.itemID)
+    .map((dye) => ({ dye, distance: getDeltaE(answer, dye) }));
+
+  const wrongCount = Math.min(config.choices, candidates.length) - 1;
+  let wrong: Dye[];
+  if (config.minDistance === 0) {
+    others.sort((a, b) => a.distance - b.distance);
+    wrong = others.slice(0, wrongCount).map((entry) => entry.dye);
+  } else {
+    const distinct = shuffle(
+      others.filter((entry) => entry.distance >= config.minDistance),
+      random
+    );
+    // Small pools may not have enough distinct dyes: top up with the farthest
+    const rest = others
+      .filter((entry) => entry.distance < config.minDistance)
+      .sort((a, b) => b.distance - a.distance);
+    wrong = [...distinct, ...rest].slice(0, wrongCount).map((entry) => entry.dye);
+  }
+
+  const swatchHex = vision ? ColorService.simulateColorblindnessHex(answer.hex, vision) : answer.hex;
+
+  return {
+    ok: true,
+    round: {
+      answer,
+      choices: shuffle([answer, ...wrong], random),
+      swatchHex,
+      difficulty,
+      pool,
+      vision,
+    },
+    svgString: generateSwatch(swatchHex),
+  };
+}
+
+/**
+ * Score a guess: full points for the right dye, partial credit for a close color.
+ */
+export function scoreDyeQuizAnswer(input: DyeQuizScoreInput): DyeQuizScore {
+  const { answer, guess, difficulty } = input;
+  const fullPoints = DIFFICULTIES[difficulty].points;
+  const deltaE = getDeltaE(answer, guess);
+
+  if (guess.itemID === answer.itemID) {
+    const streak = input.streak + 1;
+    const streakBonus = Math.min((streak - 1) * STREAK_BONUS_STEP, STREAK_BONUS_MAX);
+    return { correct: true, deltaE, points: fullPoints + streakBonus, streakBonus, streak };
+  }
+
+  const tier = PARTIAL_CREDIT.find((entry) => deltaE <= entry.maxDeltaE);
+  const points = tier ? Math.round(fullPoints * tier.share) : 0;
+  return { correct: false, deltaE, points, streakBonus: 0, streak: 0 };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getDeltaE(a: Dye, b: Dye): number {
+  return ColorConverter.getDeltaE(a.hex, b.hex, 'cie2000');
+}
+
+/**
+ * Fisher–Yates shuffle (returns a new array)
+ */
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * A plain rounded swatch — no name, hex or category to give the answer away
+ */
+function generateSwatch(hex: string): string {
+  return createSvgDocument(
+    SWATCH_WIDTH,
+    SWATCH_HEIGHT,
+    rect(0, 0, SWATCH_WIDTH, SWATCH_HEIGHT, hex, { rx: 24, ry: 24, stroke: '#ffffff', strokeWidth: 4 })
+  );
+}
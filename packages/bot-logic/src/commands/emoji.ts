@@ -0,0 +1,22 @@
+/**
+ * Dye emoji hook for execute functions.
+ *
+ * Platforms with custom dye emojis (Discord application emojis) pass a
+ * lookup; embeds then show each dye's emoji before its name.
+ *
+ * @module commands/emoji
+ */
+
+/** Emoji markup for a dye ID, or undefined when the dye has none */
+export type DyeEmojiLookup = (dyeId: number) => string | undefined;
+
+/**
+ * `"<emoji> "` for a dye, or an empty string without a lookup, dye ID or emoji.
+ */
+export function dyeEmojiPrefix(
+  lookup: DyeEmojiLookup | undefined,
+  dyeId: number | undefined
+): string {
+  const emoji = lookup && dyeId !== undefined ? lookup(dyeId) : undefined;
+  return emoji ? `${emoji} ` : '';
+}
@@ -18,6 +18,7 @@ import { dyeService, type ResolvedColor } from '../input-resolution.js';
 import { initializeLocale, getLocalizedDyeName } from '../localization.js';
 import { getColorDistance, getMatchQualityInfo } from '../color-math.js';
 import type { EmbedData } from './types.js';
+import { dyeEmojiPrefix, type DyeEmojiLookup } from './emoji.js';
 
 // ============================================================================
 // Types
@@ -44,6 +45,8 @@ export interface GradientInput {
   locale: LocaleCode;
   /** Optional dye type filters (e.g., exclude metallic, pastel, etc.) */
   dyeFilters?: DyeTypeFilters;
+  /** Platform emoji shown before dye names (Discord) */
+  dyeEmoji?: DyeEmojiLookup;
 }
 
 export interface GradientStepResult extends GradientStep {
@@ -190,6 +193,7 @@ export async function executeGradient(input: GradientInput): Promise<GradientRes
     colorSpace = 'hsv',
     matchingMethod = 'oklab',
     dyeFilters,
+    dyeEmoji,
   } = input;
   const t = createTranslator(locale);
 
@@ -246,7 +250,7 @@ export async function executeGradient(input: GradientInput): Promise<GradientRes
     const dyeLines = gradientSteps.map((step, i) => {
       const quality = getMatchQualityLabel(step.distance, t);
       const dyeText = step.dyeName
-        ? `**${step.dyeName}**`
+        ? `${dyeEmojiPrefix(dyeEmoji, step.dyeId)}**${step.dyeName}**`
         : `_${t.t('errors.noMatchFound')}_`;
 
       let label = '';
@@ -264,10 +268,10 @@ export async function executeGradient(input: GradientInput): Promise<GradientRes
       : endColor.name;
 
     const startText = localizedStartName
-      ? `**${localizedStartName}** (\`${startColor.hex.toUpperCase()}\`)`
+      ? `${dyeEmojiPrefix(dyeEmoji, startColor.id)}**${localizedStartName}** (\`${startColor.hex.toUpperCase()}\`)`
       : `\`${startColor.hex.toUpperCase()}\``;
     const endText = localizedEndName
-      ? `**${localizedEndName}** (\`${endColor.hex.toUpperCase()}\`)`
+      ? `${dyeEmojiPrefix(dyeEmoji, endColor.id)}**${localizedEndName}** (\`${endColor.hex.toUpperCase()}\`)`
       : `\`${endColor.hex.toUpperCase()}\``;
 
     const colorSpaceLabel = colorSpace.toUpperCase();
@@ -168,6 +168,22 @@ describe('executeHarmony', () => {
     expect(result.embed.footer).toBeDefined();
   });
 
+  it('prefixes dye names with emojis from dyeEmoji', async () => {
+    const result = await executeHarmony({
+      baseHex: BASE_HEX,
+      baseId: 1,
+      harmonyType: 'complementary',
+      locale: 'en',
+      dyeEmoji: (dyeId) => (dyeId === 1 ? '<:base:1>' : `<:dye_${dyeId}:1>`),
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.embed.description).toContain(': <:base:1> **');
+    expect(result.embed.description).toContain(`**1.** <:dye_${result.harmonyDyes[0].id}:1> `);
+  });
+
   it('works with Japanese locale', async () => {
     const result = await executeHarmony({
       baseHex: BASE_HEX,
@@ -19,6 +19,7 @@ import { generateHarmonyWheel, type HarmonyDye } from '@xivdyetools/svg';
 import { dyeService } from '../input-resolution.js';
 import { initializeLocale, getLocalizedDyeName } from '../localization.js';
 import type { EmbedData } from './types.js';
+import { dyeEmojiPrefix, type DyeEmojiLookup } from './emoji.js';
 
 // ============================================================================
 // Types
@@ -59,6 +60,8 @@ export interface HarmonyInput {
   strictMatching?: boolean;
   /** When true, deduplicates dyes by id across all output slots (default: false). */
   preventDuplicates?: boolean;
+  /** Platform emoji shown before dye names (Discord) */
+  dyeEmoji?: DyeEmojiLookup;
 }
 
 export type HarmonyResult =
@@ -141,6 +144,7 @@ export async function executeHarmony(input: HarmonyInput): Promise<HarmonyResult
     matchingMethod = 'oklab',
     strictMatching = false,
     preventDuplicates = false,
+    dyeEmoji,
   } = input;
   const t = createTranslator(locale);
 
@@ -219,7 +223,7 @@ export async function executeHarmony(input: HarmonyInput): Promise<HarmonyResult
     const dyeList = harmonyDyes
       .map((dye, i) => {
         const localizedName = getLocalizedDyeName(dye.itemID, dye.name, locale);
-        return `**${i + 1}.** ${localizedName} (\`${dye.hex.toUpperCase()}\`)`;
+        return `**${i + 1}.** ${dyeEmojiPrefix(dyeEmoji, dye.id)}${localizedName} (\`${dye.hex.toUpperCase()}\`)`;
       })
       .join('\n');
 
@@ -227,7 +231,7 @@ export async function executeHarmony(input: HarmonyInput): Promise<HarmonyResult
     const localizedBaseName = baseItemID && baseName
       ? getLocalizedDyeName(baseItemID, baseName, locale)
       : (baseName || baseHex.toUpperCase());
-    const baseColorText = `${t.t('harmony.baseColor')}: **${localizedBaseName}** (\`${baseHex.toUpperCase()}\`)`;
+    const baseColorText = `${t.t('harmony.baseColor')}: ${dyeEmojiPrefix(dyeEmoji, baseId)}**${localizedBaseName}** (\`${baseHex.toUpperCase()}\`)`;
 
     const harmonyTitle = getLocalizedHarmonyType(harmonyType, t);
 
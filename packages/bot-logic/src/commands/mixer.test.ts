@@ -174,6 +174,24 @@ describe('executeMixer', () => {
     expect(result.ok).toBe(true);
   });
 
+  it('prefixes dye names with emojis from dyeEmoji', async () => {
+    const result = await executeMixer({
+      dye1: { ...dye1, id: 1 },
+      dye2,
+      blendingMode: 'rgb',
+      locale: 'en',
+      dyeEmoji: (dyeId) => `<:dye_${dyeId}:1>`,
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.embed.description).toContain('• <:dye_1:1> **');
+    // dye2 has no ID, so no emoji
+    expect(result.embed.description).toMatch(/\n• \*\*/);
+    expect(result.embed.description).toContain(`**1.** <:dye_${result.matches[0].dye.id}:1> **`);
+  });
+
   describe('dyeFilters', () => {
     it('excludes metallic dyes when excludeMetallic is set', async () => {
       const result = await executeMixer({
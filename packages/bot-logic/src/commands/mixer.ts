@@ -17,6 +17,7 @@ import { dyeService, type ResolvedColor } from '../input-resolution.js';
 import { initializeLocale, getLocalizedDyeName } from '../localization.js';
 import { getColorDistance, getMatchQualityInfo } from '../color-math.js';
 import type { EmbedData } from './types.js';
+import { dyeEmojiPrefix, type DyeEmojiLookup } from './emoji.js';
 
 // ============================================================================
 // Types
@@ -33,6 +34,8 @@ export interface MixerInput {
   locale: LocaleCode;
   /** Optional dye type filters (e.g., exclude metallic, pastel, etc.) */
   dyeFilters?: DyeTypeFilters;
+  /** Platform emoji shown before dye names (Discord) */
+  dyeEmoji?: DyeEmojiLookup;
 }
 
 export interface MixerMatch {
@@ -89,7 +92,7 @@ function getMatchQualityLabel(distance: number, t: ReturnType<typeof createTrans
  * - Building copy buttons (Discord-specific)
  */
 export async function executeMixer(input: MixerInput): Promise<MixerResult> {
-  const { dye1, dye2, blendingMode, locale, dyeFilters, matchingMethod } = input;
+  const { dye1, dye2, blendingMode, locale, dyeFilters, matchingMethod, dyeEmoji } = input;
   const count = Math.max(1, input.count ?? 1);
   const t = createTranslator(locale);
 
@@ -129,10 +132,10 @@ export async function executeMixer(input: MixerInput): Promise<MixerResult> {
       : dye2.name;
 
     const dye1Display = dye1Name
-      ? `**${dye1Name}** (\`${dye1.hex.toUpperCase()}\`)`
+      ? `${dyeEmojiPrefix(dyeEmoji, dye1.id)}**${dye1Name}** (\`${dye1.hex.toUpperCase()}\`)`
       : `\`${dye1.hex.toUpperCase()}\``;
     const dye2Display = dye2Name
-      ? `**${dye2Name}** (\`${dye2.hex.toUpperCase()}\`)`
+      ? `${dyeEmojiPrefix(dyeEmoji, dye2.id)}**${dye2Name}** (\`${dye2.hex.toUpperCase()}\`)`
       : `\`${dye2.hex.toUpperCase()}\``;
 
     const modeDisplay = t.t(`mixer.modes.${blendingMode}`) || blendingMode;
@@ -140,7 +143,7 @@ export async function executeMixer(input: MixerInput): Promise<MixerResult> {
     const matchLines = matches.map((match, i) => {
       const localizedName = getLocalizedDyeName(match.dye.itemID, match.dye.name, locale);
       const quality = getMatchQualityLabel(match.distance, t);
-      return `**${i + 1}.** **${localizedName}** • \`${match.dye.hex.toUpperCase()}\` • ${quality} (Δ ${match.distance.toFixed(1)})`;
+      return `**${i + 1}.** ${dyeEmojiPrefix(dyeEmoji, match.dye.id)}**${localizedName}** • \`${match.dye.hex.toUpperCase()}\` • ${quality} (Δ ${match.distance.toFixed(1)})`;
     }).join('\n');
 
     const topMatchName = getLocalizedDyeName(matches[0].dye.itemID, matches[0].dye.name, locale);
@@ -0,0 +1,148 @@
+/**
+ * Shared Command Definitions — Unit Tests
+ *
+ * Runs each shared command through resolveOptions and checks its output.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveOptions, type RawOptionValue } from './resolve.js';
+import {
+  createCommandRegistry,
+  type CommandDefinition,
+  type CommandRunContext,
+} from './registry.js';
+import type { CommandRunResult } from './output.js';
+import {
+  SHARED_COMMANDS,
+  harmonyCommand,
+  gradientCommand,
+  mixerCommand,
+  accessibilityCommand,
+  comparisonCommand,
+} from './commands.js';
+
+async function run(
+  command: CommandDefinition,
+  raw: Record<string, RawOptionValue>,
+  context: Partial<CommandRunContext> = {}
+): Promise<CommandRunResult> {
+  const resolved = resolveOptions(command, raw);
+  if (!resolved.ok) throw new Error(`Unresolved options: ${JSON.stringify(resolved.errors)}`);
+  return command.run(resolved.values, { locale: 'en', ...context });
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+describe('SHARED_COMMANDS', () => {
+  it('registers each command by name', () => {
+    expect([...SHARED_COMMANDS.keys()]).toEqual([
+      'harmony',
+      'gradient',
+      'mixer',
+      'accessibility',
+      'comparison',
+    ]);
+    expect(SHARED_COMMANDS.get('harmony')).toBe(harmonyCommand);
+  });
+
+  it('rejects duplicate names', () => {
+    expect(() => createCommandRegistry([harmonyCommand, harmonyCommand])).toThrow(
+      'Duplicate command name: harmony'
+    );
+  });
+
+  it('keeps option descriptions within Discord limits', () => {
+    for (const command of SHARED_COMMANDS.values()) {
+      for (const option of command.options) {
+        expect(option.description.length).toBeLessThanOrEqual(100);
+      }
+    }
+  });
+
+  it('falls back to the matching preference wherever matching is an option', () => {
+    for (const command of SHARED_COMMANDS.values()) {
+      const matching = command.options.find((option) => option.name === 'matching');
+      if (matching) expect(matching).toMatchObject({ preference: 'matching' });
+    }
+
+    const resolved = resolveOptions(
+      gradientCommand,
+      { start_color: '#FF0000', end_color: '#0000FF' },
+      { preferences: { matching: 'ciede2000' } }
+    );
+    expect(resolved.ok && resolved.values.matching).toBe('ciede2000');
+  });
+});
+
+// ============================================================================
+// run
+// ============================================================================
+
+describe('shared command run', () => {
+  it('harmony returns the wheel as an attachment', async () => {
+    const result = await run(harmonyCommand, { color: 'Snow White', type: 'complementary' });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.output.embeds).toHaveLength(1);
+    expect(result.output.attachments?.[0].filename).toBe('harmony-complementary.png');
+    expect(result.output.attachments?.[0].svg).toContain('<svg');
+  });
+
+  it('gradient applies its defaults', async () => {
+    const result = await run(gradientCommand, { start_color: '#FF0000', end_color: '#0000FF' });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.output.attachments?.[0].filename).toBe('gradient-6-steps.png');
+  });
+
+  it('mixer returns an embed without attachments', async () => {
+    const result = await run(mixerCommand, { dye1: 'Snow White', dye2: 'Soot Black', count: 2 });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.output.embeds).toHaveLength(1);
+    expect(result.output.attachments).toBeUndefined();
+  });
+
+  it('accessibility switches to contrast mode with several dyes', async () => {
+    const single = await run(accessibilityCommand, { dye: 'Dalamud Red', vision: 'normal' });
+    const several = await run(accessibilityCommand, { dye: 'Dalamud Red', dye3: 'Snow White' });
+
+    expect(single.ok && single.output.attachments?.[0].filename).toBe('accessibility.png');
+    expect(several.ok && several.output.attachments?.[0].filename).toBe('contrast-matrix.png');
+  });
+
+  it('comparison compares the given dyes', async () => {
+    const result = await run(comparisonCommand, {
+      dye1: 'Snow White',
+      dye2: 'Soot Black',
+      dye4: '#FF0000',
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.output.embeds[0].title).toContain('3');
+    expect(result.output.attachments?.[0].filename).toBe('comparison.png');
+  });
+
+  it('passes the dye emoji lookup to the embed', async () => {
+    const result = await run(
+      comparisonCommand,
+      { dye1: 'Snow White', dye2: 'Soot Black' },
+      { dyeEmoji: (dyeId) => `<:dye_${dyeId}:1>` }
+    );
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.output.embeds[0].description).toMatch(/^\*\*1\.\*\* <:dye_\d+:1> /);
+  });
+});
@@ -0,0 +1,391 @@
+/**
+ * Shared command definitions.
+ *
+ * Color tools defined once for every platform: the option lists generate
+ * Discord's slash commands and drive argument resolution everywhere, and
+ * `run` wraps the matching `execute*` function in a `CommandOutput`.
+ *
+ * @module framework/commands
+ */
+
+import type { Dye } from '@xivdyetools/types';
+import { executeHarmony } from '../commands/harmony.js';
+import { executeGradient } from '../commands/gradient.js';
+import { executeMixer } from '../commands/mixer.js';
+import { executeComparison } from '../commands/comparison.js';
+import { executeAccessibility } from '../commands/accessibility.js';
+import type { EmbedData } from '../commands/types.js';
+import type { ResolvedColor } from '../input-resolution.js';
+import { createCommandRegistry, defineCommand, type CommandDefinition } from './registry.js';
+import type { CommandRunResult } from './output.js';
+
+/** Color matching methods, OKLAB first as the default */
+export const MATCHING_CHOICES = [
+  { name: 'OKLAB - Modern perceptual (default)', value: 'oklab' },
+  { name: 'CIEDE2000 - Industry standard', value: 'ciede2000' },
+  { name: 'CIE76 - CIELAB distance', value: 'cie76' },
+  { name: 'HyAB - Hybrid distance', value: 'hyab' },
+  { name: 'RGB - Simple Euclidean', value: 'rgb' },
+  { name: 'OKLCH Weighted - Weighted L/C/H', value: 'oklch-weighted' },
+] as const;
+
+/** Wrap an execute result's embed and SVG card as command output */
+function imageOutput(
+  result: { embed: EmbedData; svgString: string },
+  filename: string
+): CommandRunResult {
+  return {
+    ok: true,
+    output: { embeds: [result.embed], attachments: [{ filename, svg: result.svgString }] },
+  };
+}
+
+/** Colors given for optional slots, in option order */
+function presentColors(colors: Array<ResolvedColor | undefined>): ResolvedColor[] {
+  return colors.filter((color): color is ResolvedColor => color !== undefined);
+}
+
+// ============================================================================
+// Color Analysis
+// ============================================================================
+
+export const harmonyCommand = defineCommand({
+  name: 'harmony',
+  description: 'Generate harmonious dye combinations from a color',
+  options: [
+    {
+      name: 'color',
+      description: 'Base color (hex code like #FF5733 or dye name)',
+      type: 'color',
+      required: true,
+      includeFacewear: true,
+    },
+    {
+      name: 'type',
+      description: 'Type of color harmony',
+      type: 'string',
+      choices: [
+        { name: 'Complementary (opposite colors)', value: 'complementary' },
+        { name: 'Analogous (adjacent colors)', value: 'analogous' },
+        { name: 'Triadic (3 evenly spaced)', value: 'triadic' },
+        { name: 'Split-Complementary', value: 'split-complementary' },
+        { name: 'Tetradic (4 colors)', value: 'tetradic' },
+        { name: 'Square (4 evenly spaced)', value: 'square' },
+        { name: 'Monochromatic (shades)', value: 'monochromatic' },
+      ],
+      default: 'triadic',
+    },
+    {
+      name: 'color_space',
+      description: 'Color space for hue rotation',
+      type: 'string',
+      choices: [
+        { name: 'HSV - Classic hue wheel (default)', value: 'hsv' },
+        { name: 'OKLCH - Modern perceptual', value: 'oklch' },
+        { name: 'LCH - Cylindrical perceptual', value: 'lch' },
+        { name: 'HSL - Hue-Saturation-Lightness', value: 'hsl' },
+      ],
+    },
+    {
+      name: 'companions',
+      description: 'Number of companion dyes per harmony slot (1-3)',
+      type: 'integer',
+      min: 1,
+      max: 3,
+    },
+    {
+      name: 'matching',
+      description: 'Algorithm used to find closest dye for companion expansion',
+      type: 'string',
+      choices: MATCHING_CHOICES,
+      preference: 'matching',
+    },
+    {
+      name: 'strict_matching',
+      description: 'Tighten distance threshold for closer matches',
+      type: 'boolean',
+    },
+    {
+      name: 'prevent_duplicates',
+      description: 'Deduplicate dyes across all harmony slots',
+      type: 'boolean',
+    },
+  ],
+  async run(values, { locale, dyeFilters, dyeEmoji }) {
+    const { color } = values;
+    const result = await executeHarmony({
+      baseHex: color.hex,
+      baseName: color.name,
+      baseId: color.id,
+      baseItemID: color.itemID ?? undefined,
+      harmonyType: values.type,
+      locale,
+      harmonyOptions: values.color_space ? { colorSpace: values.color_space } : undefined,
+      dyeFilters,
+      companionCount: values.companions,
+      matchingMethod: values.matching,
+      strictMatching: values.strict_matching,
+      preventDuplicates: values.prevent_duplicates,
+      dyeEmoji,
+    });
+    return result.ok ? imageOutput(result, `harmony-${values.type}.png`) : result;
+  },
+});
+
+export const gradientCommand = defineCommand({
+  name: 'gradient',
+  description: 'Generate a color gradient between two colors with intermediate dyes',
+  options: [
+    {
+      name: 'start_color',
+      description: 'Starting color: hex (e.g., #FF0000) or dye name',
+      type: 'color',
+      required: true,
+    },
+    {
+      name: 'end_color',
+      description: 'Ending color: hex (e.g., #0000FF) or dye name',
+      type: 'color',
+      required: true,
+    },
+    {
+      name: 'steps',
+      description: 'Number of color steps (default: 6, max 12)',
+      type: 'integer',
+      min: 2,
+      max: 12,
+      default: 6,
+    },
+    {
+      name: 'color_space',
+      description: 'Color interpolation mode for gradient',
+      type: 'string',
+      choices: [
+        { name: 'HSV - Vibrant hue transitions (default)', value: 'hsv' },
+        { name: 'OKLCH - Modern perceptual', value: 'oklch' },
+        { name: 'LAB - Perceptually uniform', value: 'lab' },
+        { name: 'LCH - Cylindrical perceptual', value: 'lch' },
+        { name: 'RGB - Linear blending', value: 'rgb' },
+        { name: 'OKLAB - Modern perceptual blend', value: 'oklab' },
+        { name: 'RYB - Artist color wheel', value: 'ryb' },
+        { name: 'HSL - Hue-Saturation-Lightness', value: 'hsl' },
+        { name: 'Spectral - Pigment physics', value: 'spectral' },
+      ],
+      default: 'hsv',
+    },
+    {
+      name: 'matching',
+      description: 'Algorithm for finding closest dyes',
+      type: 'string',
+      choices: MATCHING_CHOICES,
+      preference: 'matching',
+      default: 'oklab',
+    },
+  ],
+  async run(values, { locale, dyeFilters, dyeEmoji }) {
+    const result = await executeGradient({
+      startColor: values.start_color,
+      endColor: values.end_color,
+      stepCount: values.steps,
+      colorSpace: values.color_space,
+      matchingMethod: values.matching,
+      locale,
+      dyeFilters,
+      dyeEmoji,
+    });
+    return result.ok ? imageOutput(result, `gradient-${values.steps}-steps.png`) : result;
+  },
+});
+
+export const mixerCommand = defineCommand({
+  name: 'mixer',
+  description: 'Blend two dyes using various color mixing algorithms',
+  options: [
+    {
+      name: 'dye1',
+      description: 'First dye to blend (hex code or dye name)',
+      type: 'color',
+      required: true,
+    },
+    {
+      name: 'dye2',
+      description: 'Second dye to blend (hex code or dye name)',
+      type: 'color',
+      required: true,
+    },
+    {
+      name: 'mode',
+      description: 'Color blending algorithm',
+      type: 'string',
+      choices: [
+        { name: 'RGB - Simple additive averaging', value: 'rgb' },
+        { name: 'LAB - Perceptual CIELAB blending', value: 'lab' },
+        { name: 'OKLAB - Modern perceptual (recommended)', value: 'oklab' },
+        { name: 'RYB - Traditional artist color wheel', value: 'ryb' },
+        { name: 'HSL - Hue-Saturation-Lightness', value: 'hsl' },
+        { name: 'Spectral - Pigment physics simulation', value: 'spectral' },
+      ],
+      preference: 'blending',
+      default: 'rgb',
+    },
+    {
+      name: 'matching',
+      description: 'Algorithm for finding closest dyes to the blended result',
+      type: 'string',
+      choices: MATCHING_CHOICES,
+      preference: 'matching',
+      default: 'oklab',
+    },
+    {
+      name: 'count',
+      description: 'Number of closest dye matches to show (1-10)',
+      type: 'integer',
+      min: 1,
+      max: 10,
+      preference: 'count',
+      default: 5,
+    },
+  ],
+  async run(values, { locale, dyeFilters, dyeEmoji }) {
+    const result = await executeMixer({
+      dye1: values.dye1,
+      dye2: values.dye2,
+      blendingMode: values.mode,
+      count: values.count,
+      matchingMethod: values.matching,
+      locale,
+      dyeFilters,
+      dyeEmoji,
+    });
+    return result.ok ? { ok: true, output: { embeds: [result.embed] } } : result;
+  },
+});
+
+// ============================================================================
+// Utility Commands
+// ============================================================================
+
+export const accessibilityCommand = defineCommand({
+  name: 'accessibility',
+  description: 'Check color accessibility for colorblind users or contrast',
+  options: [
+    {
+      name: 'dye',
+      description: 'Primary dye (hex code or dye name)',
+      type: 'color',
+      required: true,
+      dye: true,
+    },
+    {
+      name: 'dye2',
+      description: 'Second dye for contrast comparison (optional)',
+      type: 'color',
+      dye: true,
+    },
+    {
+      name: 'dye3',
+      description: 'Third dye for contrast comparison (optional)',
+      type: 'color',
+      dye: true,
+    },
+    {
+      name: 'dye4',
+      description: 'Fourth dye for contrast comparison (optional)',
+      type: 'color',
+      dye: true,
+    },
+    {
+      name: 'dye5',
+      description: 'Fifth dye for contrast comparison (optional, outfit slot)',
+      type: 'color',
+      dye: true,
+    },
+    {
+      name: 'dye6',
+      description: 'Sixth dye for contrast comparison (optional, outfit slot)',
+      type: 'color',
+      dye: true,
+    },
+    {
+      name: 'vision',
+      description: 'Filter to specific vision type (single dye mode only)',
+      type: 'string',
+      choices: [
+        { name: 'Normal Vision', value: 'normal' },
+        { name: 'Protanopia (red-blind)', value: 'protanopia' },
+        { name: 'Deuteranopia (green-blind)', value: 'deuteranopia' },
+        { name: 'Tritanopia (blue-blind)', value: 'tritanopia' },
+        { name: 'Achromatopsia (total colorblindness)', value: 'achromatopsia' },
+      ],
+    },
+  ],
+  async run(values, { locale, dyeEmoji }) {
+    const colors = presentColors([
+      values.dye,
+      values.dye2,
+      values.dye3,
+      values.dye4,
+      values.dye5,
+      values.dye6,
+    ]);
+    const result = await executeAccessibility({
+      dyes: colors.map((color) => ({
+        dye: color.dye,
+        hex: color.hex,
+        name: color.name ?? color.hex.toUpperCase(),
+        itemID: color.itemID,
+      })),
+      visionTypes: values.vision && values.vision !== 'normal' ? [values.vision] : undefined,
+      locale,
+      dyeEmoji,
+    });
+    if (!result.ok) return result;
+    return imageOutput(
+      result,
+      result.mode === 'simulation' ? 'accessibility.png' : 'contrast-matrix.png'
+    );
+  },
+});
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+export const comparisonCommand = defineCommand({
+  name: 'comparison',
+  description: 'Compare 2-4 dyes side-by-side with color analysis',
+  options: [
+    {
+      name: 'dye1',
+      description: 'First dye (hex code or dye name)',
+      type: 'color',
+      required: true,
+      dye: true,
+    },
+    {
+      name: 'dye2',
+      description: 'Second dye (hex code or dye name)',
+      type: 'color',
+      required: true,
+      dye: true,
+    },
+    { name: 'dye3', description: 'Third dye (optional)', type: 'color', dye: true },
+    { name: 'dye4', description: 'Fourth dye (optional)', type: 'color', dye: true },
+  ],
+  async run(values, { locale, dyeEmoji }) {
+    const colors = presentColors([values.dye1, values.dye2, values.dye3, values.dye4]);
+    // `dye: true` options only resolve to colors that carry their dye
+    const dyes = colors.map((color) => color.dye as Dye);
+    const result = await executeComparison({ dyes, locale, dyeEmoji });
+    return result.ok ? imageOutput(result, 'comparison.png') : result;
+  },
+});
+
+/** Every shared command, by name */
+export const SHARED_COMMANDS: ReadonlyMap<string, CommandDefinition> = createCommandRegistry([
+  harmonyCommand,
+  gradientCommand,
+  mixerCommand,
+  accessibilityCommand,
+  comparisonCommand,
+]);
@@ -0,0 +1,203 @@
+/**
+ * Discord Slash-Command JSON — Unit Tests
+ *
+ * Tests for toDiscordCommand — option type mapping and field layout.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { toDiscordCommand } from './discord.js';
+import { defineCommand } from './registry.js';
+import { harmonyCommand } from './commands.js';
+
+// ============================================================================
+// toDiscordCommand
+// ============================================================================
+
+describe('toDiscordCommand', () => {
+  it('maps every option type', () => {
+    const command = defineCommand({
+      name: 'example',
+      description: 'Example command',
+      options: [
+        { name: 'color', description: 'Color', type: 'color', required: true },
+        {
+          name: 'mode',
+          description: 'Mode',
+          type: 'string',
+          choices: [{ name: 'RGB', value: 'rgb' }],
+          default: 'rgb',
+          preference: 'blending',
+        },
+        { name: 'count', description: 'Count', type: 'integer', min: 1, max: 10 },
+        { name: 'strict', description: 'Strict', type: 'boolean' },
+      ],
+      run: async () => ({ ok: true, output: { embeds: [] } }),
+    });
+
+    expect(toDiscordCommand(command)).toEqual({
+      name: 'example',
+      description: 'Example command',
+      options: [
+        { name: 'color', description: 'Color', type: 3, required: true, autocomplete: true },
+        {
+          name: 'mode',
+          description: 'Mode',
+          type: 3,
+          required: false,
+          choices: [{ name: 'RGB', value: 'rgb' }],
+        },
+        {
+          name: 'count',
+          description: 'Count',
+          type: 4,
+          required: false,
+          min_value: 1,
+          max_value: 10,
+        },
+        { name: 'strict', description: 'Strict', type: 5, required: false },
+      ],
+    });
+  });
+
+  it('omits options for commands without any', () => {
+    const command = defineCommand({
+      name: 'about',
+      description: 'About',
+      options: [],
+      run: async () => ({ ok: true, output: { embeds: [] } }),
+    });
+
+    expect(toDiscordCommand(command)).toEqual({ name: 'about', description: 'About' });
+  });
+
+  it('keeps the registered /harmony layout', () => {
+    const json = toDiscordCommand(harmonyCommand);
+
+    expect(json.options?.map((o) => o.name)).toEqual([
+      'color',
+      'type',
+      'color_space',
+      'companions',
+      'matching',
+      'strict_matching',
+      'prevent_duplicates',
+    ]);
+    expect(json.options?.[0]).toEqual({
+      name: 'color',
+      description: 'Base color (hex code like #FF5733 or dye name)',
+      type: 3,
+      required: true,
+      autocomplete: true,
+    });
+    expect(Object.keys(json.options?.[3] ?? {})).toEqual([
+      'name',
+      'description',
+      'type',
+      'required',
+      'min_value',
+      'max_value',
+    ]);
+  });
+
+  it('maps subcommands, subcommand groups and their options', () => {
+    const json = toDiscordCommand({
+      name: 'preset',
+      description: 'Presets',
+      subcommands: [
+        { name: 'list', description: 'List presets' },
+        {
+          name: 'show',
+          description: 'Show a preset',
+          options: [
+            {
+              name: 'name',
+              description: 'Preset name',
+              type: 'string',
+              required: true,
+              autocomplete: true,
+              maxLength: 50,
+            },
+          ],
+        },
+        {
+          name: 'favorite',
+          description: 'Favorites',
+          subcommands: [{ name: 'list', description: 'List favorites' }],
+        },
+      ],
+    });
+
+    expect(json).toEqual({
+      name: 'preset',
+      description: 'Presets',
+      options: [
+        { name: 'list', description: 'List presets', type: 1 },
+        {
+          name: 'show',
+          description: 'Show a preset',
+          type: 1,
+          options: [
+            {
+              name: 'name',
+              description: 'Preset name',
+              type: 3,
+              required: true,
+              autocomplete: true,
+              max_length: 50,
+            },
+          ],
+        },
+        {
+          name: 'favorite',
+          description: 'Favorites',
+          type: 2,
+          options: [{ name: 'list', description: 'List favorites', type: 1 }],
+        },
+      ],
+    });
+  });
+
+  it('maps attachment and channel options', () => {
+    const json = toDiscordCommand({
+      name: 'post',
+      description: 'Post',
+      options: [
+        { name: 'image', description: 'Image', type: 'attachment', required: true },
+        {
+          name: 'channel',
+          description: 'Channel',
+          type: 'channel',
+          channelTypes: ['text', 'announcement'],
+        },
+      ],
+    });
+
+    expect(json.options).toEqual([
+      { name: 'image', description: 'Image', type: 11, required: true },
+      { name: 'channel', description: 'Channel', type: 7, required: false, channel_types: [0, 5] },
+    ]);
+  });
+
+  it('limits server-only and manager-only commands', () => {
+    expect(
+      toDiscordCommand({
+        name: 'settings',
+        description: 'Settings',
+        guildOnly: true,
+        requiresManageServer: true,
+      })
+    ).toEqual({
+      name: 'settings',
+      description: 'Settings',
+      default_member_permissions: '32',
+      contexts: [0],
+    });
+  });
+
+  it('maps message context-menu commands', () => {
+    expect(toDiscordCommand({ kind: 'message', name: 'Match dyes in this image' })).toEqual({
+      name: 'Match dyes in this image',
+      type: 3,
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Discord application command JSON generation.
+ *
+ * `register-commands.ts` in discord-worker builds its whole payload with
+ * `toDiscordCommand`, so a command defined once in the registry registers
+ * on Discord with the same options every platform resolves.
+ *
+ * @see https://discord.com/developers/docs/interactions/application-commands
+ * @module framework/discord
+ */
+
+import type { ChannelKind, CommandOption } from './options.js';
+import type {
+  CommandSpec,
+  MessageCommandSpec,
+  SubcommandGroupSpec,
+  SubcommandSpec,
+} from './registry.js';
+
+/**
+ * Discord application command option types used by the framework
+ * @see https://discord.com/developers/docs/interactions/application-commands#application-command-object-application-command-option-type
+ */
+export const DISCORD_OPTION_TYPES = {
+  SUB_COMMAND: 1,
+  SUB_COMMAND_GROUP: 2,
+  STRING: 3,
+  INTEGER: 4,
+  BOOLEAN: 5,
+  CHANNEL: 7,
+  ATTACHMENT: 11,
+} as const;
+
+/**
+ * Discord application command types used by the framework
+ * @see https://discord.com/developers/docs/interactions/application-commands#application-command-object-application-command-types
+ */
+export const DISCORD_COMMAND_TYPES = {
+  CHAT_INPUT: 1,
+  MESSAGE: 3,
+} as const;
+
+/** Discord channel types for each channel kind */
+const DISCORD_CHANNEL_TYPES: Record<ChannelKind, number> = {
+  text: 0,
+  announcement: 5,
+};
+
+/** MANAGE_GUILD (1 << 5) */
+const MANAGE_GUILD_PERMISSION = '32';
+
+/** Interaction context type for servers */
+const GUILD_CONTEXT = 0;
+
+/** A slash-command option, subcommand or subcommand group as sent to Discord */
+export interface DiscordCommandOptionJson {
+  name: string;
+  description: string;
+  type: number;
+  /** Set on value options; absent on subcommands and groups */
+  required?: boolean;
+  autocomplete?: boolean;
+  choices?: Array<{ name: string; value: string | number }>;
+  min_value?: number;
+  max_value?: number;
+  max_length?: number;
+  channel_types?: number[];
+  /** Options of a subcommand, or subcommands of a group */
+  options?: DiscordCommandOptionJson[];
+}
+
+/** An application command as sent to Discord */
+export interface DiscordCommandJson {
+  name: string;
+  /** Absent on message commands */
+  description?: string;
+  /** Absent on slash commands, which are the default type */
+  type?: number;
+  options?: DiscordCommandOptionJson[];
+  default_member_permissions?: string;
+  contexts?: number[];
+}
+
+/**
+ * Convert a registry command to Discord application command JSON.
+ *
+ * Color options become autocompleting string options; discord-worker's
+ * autocomplete handler suggests dye names for them.
+ */
+export function toDiscordCommand(spec: CommandSpec | MessageCommandSpec): DiscordCommandJson {
+  if ('kind' in spec) {
+    return { name: spec.name, type: DISCORD_COMMAND_TYPES.MESSAGE };
+  }
+
+  const options = spec.subcommands
+    ? spec.subcommands.map(toDiscordSubcommand)
+    : (spec.options ?? []).map(toDiscordOption);
+  return {
+    name: spec.name,
+    description: spec.description,
+    ...(spec.requiresManageServer && { default_member_permissions: MANAGE_GUILD_PERMISSION }),
+    ...(spec.guildOnly && { contexts: [GUILD_CONTEXT] }),
+    ...(options.length > 0 && { options }),
+  };
+}
+
+function toDiscordSubcommand(
+  spec: SubcommandSpec | SubcommandGroupSpec
+): DiscordCommandOptionJson {
+  if ('subcommands' in spec) {
+    return {
+      name: spec.name,
+      description: spec.description,
+      type: DISCORD_OPTION_TYPES.SUB_COMMAND_GROUP,
+      options: spec.subcommands.map(toDiscordSubcommand),
+    };
+  }
+  return {
+    name: spec.name,
+    description: spec.description,
+    type: DISCORD_OPTION_TYPES.SUB_COMMAND,
+    ...(spec.options && spec.options.length > 0 && {
+      options: spec.options.map(toDiscordOption),
+    }),
+  };
+}
+
+function toDiscordOption(option: CommandOption): DiscordCommandOptionJson {
+  switch (option.type) {
+    case 'color':
+      return { ...optionHead(option, DISCORD_OPTION_TYPES.STRING), autocomplete: true };
+    case 'string':
+      return {
+        ...optionHead(option, DISCORD_OPTION_TYPES.STRING),
+        ...(option.autocomplete && { autocomplete: true }),
+        ...(option.choices && {
+          choices: option.choices.map(({ name, value }) => ({ name, value })),
+        }),
+        ...(option.maxLength !== undefined && { max_length: option.maxLength }),
+      };
+    case 'integer':
+      return {
+        ...optionHead(option, DISCORD_OPTION_TYPES.INTEGER),
+        ...(option.min !== undefined && { min_value: option.min }),
+        ...(option.max !== undefined && { max_value: option.max }),
+      };
+    case 'boolean':
+      return optionHead(option, DISCORD_OPTION_TYPES.BOOLEAN);
+    case 'attachment':
+      return optionHead(option, DISCORD_OPTION_TYPES.ATTACHMENT);
+    case 'channel':
+      return {
+        ...optionHead(option, DISCORD_OPTION_TYPES.CHANNEL),
+        ...(option.channelTypes && {
+          channel_types: option.channelTypes.map((kind) => DISCORD_CHANNEL_TYPES[kind]),
+        }),
+      };
+  }
+}
+
+/** Fields every option has, in the order Discord documents them */
+function optionHead(option: CommandOption, type: number): DiscordCommandOptionJson {
+  return {
+    name: option.name,
+    description: option.description,
+    type,
+    required: option.required ?? false,
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Declarative command option definitions.
+ *
+ * An option list describes a command's inputs once; the same list drives
+ * option resolution on every platform and the Discord slash-command JSON.
+ * `OptionValues` turns a `const` option list into the typed values object
+ * a command's `run` function receives.
+ *
+ * @module framework/options
+ */
+
+import type { ResolvedColor } from '../input-resolution.js';
+
+/** A fixed value the user can pick, with its display name */
+export interface OptionChoice<V extends string | number = string | number> {
+  name: string;
+  value: V;
+}
+
+interface BaseOption {
+  /** Option name as typed by users (`color`, `dye2`, `steps`) */
+  name: string;
+  /** Short English description (Discord limits this to 100 characters) */
+  description: string;
+  /** Whether the command fails without this option */
+  required?: boolean;
+}
+
+/** Free text, or one of `choices` */
+export interface StringOption extends BaseOption {
+  type: 'string';
+  choices?: readonly OptionChoice<string>[];
+  /** Suggest values while the user types (world names, preset names) */
+  autocomplete?: boolean;
+  maxLength?: number;
+  /** User preference key used when the option is omitted */
+  preference?: string;
+  default?: string;
+}
+
+/** Whole number, optionally bounded */
+export interface IntegerOption extends BaseOption {
+  type: 'integer';
+  min?: number;
+  max?: number;
+  /** User preference key used when the option is omitted */
+  preference?: string;
+  default?: number;
+}
+
+/** On/off flag */
+export interface BooleanOption extends BaseOption {
+  type: 'boolean';
+  default?: boolean;
+}
+
+/**
+ * A hex code, dye name or CSS color name, resolved to a `ResolvedColor`.
+ * With `dye: true` the value must resolve to a dye (hex codes snap to the
+ * closest one).
+ */
+export interface ColorOption extends BaseOption {
+  type: 'color';
+  dye?: boolean;
+  /** Include Facewear dyes when matching dye names (default: false) */
+  includeFacewear?: boolean;
+}
+
+/** An uploaded file, resolved to the platform's attachment ID */
+export interface AttachmentOption extends BaseOption {
+  type: 'attachment';
+}
+
+/** Kinds of channel a channel option accepts */
+export type ChannelKind = 'text' | 'announcement';
+
+/** A server channel, resolved to its ID */
+export interface ChannelOption extends BaseOption {
+  type: 'channel';
+  /** Channel kinds to offer (default: any) */
+  channelTypes?: readonly ChannelKind[];
+}
+
+/** Any command option */
+export type CommandOption =
+  | StringOption
+  | IntegerOption
+  | BooleanOption
+  | ColorOption
+  | AttachmentOption
+  | ChannelOption;
+
+/** The resolved value type of one option */
+export type OptionValue<O extends CommandOption> = O extends ColorOption
+  ? ResolvedColor
+  : O extends IntegerOption
+    ? number
+    : O extends BooleanOption
+      ? boolean
+      : O extends { choices: readonly OptionChoice<infer V>[] }
+        ? V
+        : string;
+
+/** Options that always have a value after resolution */
+type PresentOption<O extends CommandOption> = O extends { required: true }
+  ? O
+  : O extends { default: string | number | boolean }
+    ? O
+    : never;
+
+/**
+ * Typed values for an option list: required options and options with a
+ * default are always present, the rest are optional.
+ */
+export type OptionValues<O extends readonly CommandOption[]> = {
+  [K in PresentOption<O[number]> as K['name']]: OptionValue<K>;
+} & {
+  [K in Exclude<O[number], PresentOption<O[number]>> as K['name']]?: OptionValue<K>;
+};
@@ -0,0 +1,50 @@
+/**
+ * Platform-neutral command output.
+ *
+ * Commands return embeds, images and buttons in this shape; each platform
+ * adapter maps it to its own message format (Discord interaction responses,
+ * Stoat messages with Autumn uploads).
+ *
+ * @module framework/output
+ */
+
+import type { EmbedData } from '../commands/types.js';
+
+/**
+ * An image to attach to the reply. Commands produce SVG; adapters render it
+ * to PNG with their platform's renderer.
+ */
+export interface OutputAttachment {
+  /** File name shown to users (`harmony.png`) */
+  filename: string;
+  /** SVG markup to render */
+  svg: string;
+}
+
+/** A button under the reply */
+export interface OutputButton {
+  label: string;
+  /** Interaction ID for action buttons; ignored when `url` is set */
+  id?: string;
+  /** Link target; makes this a link button */
+  url?: string;
+  style?: 'primary' | 'secondary' | 'success' | 'danger';
+  emoji?: string;
+}
+
+/** What a command replies with */
+export interface CommandOutput {
+  embeds: EmbedData[];
+  /** Images, shown in the first embed in order */
+  attachments?: OutputAttachment[];
+  buttons?: OutputButton[];
+  /** Only show the reply to the user who ran the command, where supported */
+  ephemeral?: boolean;
+}
+
+/**
+ * Result of running a command: the output, or a message for an error reply.
+ */
+export type CommandRunResult =
+  | { ok: true; output: CommandOutput }
+  | { ok: false; error: string; errorMessage: string };
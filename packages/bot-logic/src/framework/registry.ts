@@ -0,0 +1,115 @@
+/**
+ * Command definitions and registry.
+ *
+ * A command definition bundles the option list with a `run` function that
+ * turns resolved option values into a `CommandOutput`. Platforms look
+ * commands up here instead of re-implementing argument handling.
+ *
+ * @module framework/registry
+ */
+
+import type { DyeTypeFilters } from '@xivdyetools/types';
+import type { LocaleCode } from '@xivdyetools/bot-i18n';
+import type { DyeEmojiLookup } from '../commands/emoji.js';
+import type { CommandOption, OptionValues } from './options.js';
+import type { CommandRunResult } from './output.js';
+
+/** Context passed to every command run */
+export interface CommandRunContext {
+  locale: LocaleCode;
+  /** The user's dye type filters, for commands that suggest dyes */
+  dyeFilters?: DyeTypeFilters;
+  /** Platform emoji shown before dye names, where the platform has them */
+  dyeEmoji?: DyeEmojiLookup;
+}
+
+/** A subcommand (`/preset show`) and its options */
+export interface SubcommandSpec {
+  name: string;
+  /** Short English description (Discord limits this to 100 characters) */
+  description: string;
+  options?: readonly CommandOption[];
+}
+
+/** A named group of subcommands (`/preset favorite add`) */
+export interface SubcommandGroupSpec {
+  name: string;
+  description: string;
+  subcommands: readonly SubcommandSpec[];
+}
+
+/**
+ * A command's name, options and availability, without its behaviour.
+ * Platforms that handle a command themselves declare it this way so it
+ * still registers from the same list as the shared commands.
+ */
+export interface CommandSpec {
+  /** Command name (`harmony`) */
+  name: string;
+  /** Short English description (Discord limits this to 100 characters) */
+  description: string;
+  /** Options of a command without subcommands */
+  options?: readonly CommandOption[];
+  /** Subcommands and subcommand groups, in display order */
+  subcommands?: readonly (SubcommandSpec | SubcommandGroupSpec)[];
+  /** Only usable in servers, not in DMs */
+  guildOnly?: boolean;
+  /** Hidden from members without the Manage Server permission */
+  requiresManageServer?: boolean;
+}
+
+/**
+ * A context-menu command run on a message. The name is the menu label;
+ * there is no description or options.
+ */
+export interface MessageCommandSpec {
+  kind: 'message';
+  name: string;
+}
+
+/** A platform-agnostic command */
+export interface CommandDefinition<O extends readonly CommandOption[] = readonly CommandOption[]>
+  extends CommandSpec {
+  options: O;
+  run(values: OptionValues<O>, context: CommandRunContext): Promise<CommandRunResult>;
+}
+
+/**
+ * Define a command, inferring typed option values for `run` from the
+ * option list.
+ *
+ * @example
+ * const pingCommand = defineCommand({
+ *   name: 'ping',
+ *   description: 'Check the bot is alive',
+ *   options: [{ name: 'loud', description: 'Shout', type: 'boolean', default: false }],
+ *   run: async ({ loud }) => ({
+ *     ok: true,
+ *     output: { embeds: [{ title: loud ? 'PONG' : 'pong', color: 0x5865f2 }] },
+ *   }),
+ * });
+ */
+export function defineCommand<const O extends readonly CommandOption[]>(
+  definition: CommandDefinition<O>
+): CommandDefinition<O> {
+  return definition;
+}
+
+/**
+ * Build a name → command lookup, rejecting duplicate names. Entries keep
+ * the order they were given in.
+ *
+ * @throws Error if two commands share a name
+ */
+export function createCommandRegistry<C extends { name: string }>(
+  definitions: readonly C[]
+): ReadonlyMap<string, C> {
+  const registry = new Map<string, C>();
+  for (const definition of definitions) {
+    if (registry.has(definition.name)) {
+      throw new Error(`Duplicate command name: ${definition.name}`);
+    }
+    registry.set(definition.name, definition);
+  }
+  return registry;
+}
@@ -0,0 +1,193 @@
+/**
+ * Option Resolution — Unit Tests
+ *
+ * Tests for resolveOptions — coercion, preferences, defaults and errors.
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { resolveOptions } from './resolve.js';
+import { defineCommand } from './registry.js';
+import type { ResolvedColor } from '../input-resolution.js';
+
+const testCommand = defineCommand({
+  name: 'test',
+  description: 'Test command',
+  options: [
+    { name: 'color', description: 'Color', type: 'color', required: true },
+    { name: 'dye', description: 'Dye', type: 'color', dye: true },
+    {
+      name: 'mode',
+      description: 'Mode',
+      type: 'string',
+      choices: [
+        { name: 'RGB', value: 'rgb' },
+        { name: 'OKLAB', value: 'oklab' },
+      ],
+      preference: 'blending',
+      default: 'rgb',
+    },
+    { name: 'count', description: 'Count', type: 'integer', min: 1, max: 10, preference: 'count' },
+    { name: 'strict', description: 'Strict', type: 'boolean' },
+    { name: 'note', description: 'Note', type: 'string' },
+  ],
+  run: async () => ({ ok: true, output: { embeds: [] } }),
+});
+
+// ============================================================================
+// resolveOptions
+// ============================================================================
+
+describe('resolveOptions', () => {
+  it('types values from the option list', () => {
+    const result = resolveOptions(testCommand, { color: '#FF0000' });
+    if (!result.ok) return;
+
+    expectTypeOf(result.values.color).toEqualTypeOf<ResolvedColor>();
+    expectTypeOf(result.values.mode).toEqualTypeOf<'rgb' | 'oklab'>();
+    expectTypeOf(result.values.count).toEqualTypeOf<number | undefined>();
+    expectTypeOf(result.values.strict).toEqualTypeOf<boolean | undefined>();
+  });
+
+  it('resolves hex codes and dye names to colors', () => {
+    const result = resolveOptions(testCommand, { color: 'ff0000', dye: 'Snow White' });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.values.color).toEqual({ hex: '#FF0000' });
+    expect(result.values.dye?.name).toBe('Snow White');
+    expect(result.values.dye?.dye).toBeDefined();
+  });
+
+  it('snaps hex codes to the closest dye for dye options', () => {
+    const result = resolveOptions(testCommand, { color: '#000000', dye: '#FFFFFF' });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.values.dye?.hex).toBe('#FFFFFF');
+    expect(result.values.dye?.dye).toBeDefined();
+  });
+
+  it('accepts already-resolved colors', () => {
+    const color = { hex: '#123456', name: 'Custom' };
+    const result = resolveOptions(testCommand, { color });
+
+    expect(result.ok && result.values.color).toBe(color);
+  });
+
+  it('coerces string input for each option type', () => {
+    const result = resolveOptions(testCommand, {
+      color: '#FF0000',
+      mode: 'OKLAB',
+      count: '3',
+      strict: 'yes',
+      note: 'hello',
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.values).toMatchObject({ mode: 'oklab', count: 3, strict: true, note: 'hello' });
+  });
+
+  it('uses preferences, then defaults, for omitted options', () => {
+    const withPrefs = resolveOptions(
+      testCommand,
+      { color: '#FF0000' },
+      { preferences: { blending: 'oklab', count: 8 } }
+    );
+    const withoutPrefs = resolveOptions(testCommand, { color: '#FF0000', count: '' });
+
+    expect(withPrefs.ok && withPrefs.values).toMatchObject({ mode: 'oklab', count: 8 });
+    expect(withoutPrefs.ok && withoutPrefs.values.mode).toBe('rgb');
+    expect(withoutPrefs.ok && 'count' in withoutPrefs.values).toBe(false);
+  });
+
+  it('prefers explicit input over preferences', () => {
+    const result = resolveOptions(
+      testCommand,
+      { color: '#FF0000', mode: 'rgb' },
+      { preferences: { blending: 'oklab' } }
+    );
+
+    expect(result.ok && result.values.mode).toBe('rgb');
+  });
+
+  it('ignores invalid stored preferences', () => {
+    const result = resolveOptions(
+      testCommand,
+      { color: '#FF0000' },
+      { preferences: { blending: 'paint', count: 50 } }
+    );
+
+    expect(result.ok && result.values.mode).toBe('rgb');
+    expect(result.ok && result.values.count).toBeUndefined();
+  });
+
+  it('reports every invalid option', () => {
+    const result = resolveOptions(testCommand, {
+      dye: 'not a dye',
+      mode: 'paint',
+      count: '11',
+      strict: 'maybe',
+      note: 5,
+    });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+
+    expect(result.errors).toEqual([
+      { option: 'color', reason: 'missing' },
+      { option: 'dye', reason: 'unresolvedColor', input: 'not a dye' },
+      { option: 'mode', reason: 'invalidChoice', input: 'paint' },
+      { option: 'count', reason: 'outOfRange', input: '11' },
+      { option: 'strict', reason: 'invalidType', input: 'maybe' },
+      { option: 'note', reason: 'invalidType', input: '5' },
+    ]);
+  });
+
+  it('rejects non-integer and non-string values', () => {
+    const result = resolveOptions(testCommand, { color: 42, count: 2.5 });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+
+    expect(result.errors).toEqual([
+      { option: 'color', reason: 'invalidType', input: '42' },
+      { option: 'count', reason: 'invalidType', input: '2.5' },
+    ]);
+  });
+
+  it('requires a dye on pre-resolved colors for dye options', () => {
+    const result = resolveOptions(testCommand, { color: '#FF0000', dye: { hex: '#FF0000' } });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+
+    expect(result.errors).toEqual([
+      { option: 'dye', reason: 'unresolvedColor', input: '#FF0000' },
+    ]);
+  });
+
+  it('passes attachment and channel IDs through as strings', () => {
+    const uploadCommand = defineCommand({
+      name: 'upload',
+      description: 'Upload command',
+      options: [
+        { name: 'image', description: 'Image', type: 'attachment', required: true },
+        { name: 'channel', description: 'Channel', type: 'channel' },
+      ],
+      run: async () => ({ ok: true, output: { embeds: [] } }),
+    });
+
+    expect(resolveOptions(uploadCommand, { image: '1234', channel: '5678' })).toEqual({
+      ok: true,
+      values: { image: '1234', channel: '5678' },
+    });
+    expect(resolveOptions(uploadCommand, { image: 1234 })).toEqual({
+      ok: false,
+      errors: [{ option: 'image', reason: 'invalidType', input: '1234' }],
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Option resolution pipeline.
+ *
+ * Turns raw platform input (Discord option values, Stoat arguments) into the
+ * typed values a command's `run` function expects. For each option the value
+ * comes from, in order: the user's input, their stored preference, then the
+ * option default. Every invalid option is reported, not just the first.
+ *
+ * @module framework/resolve
+ */
+
+import { resolveColorInput, type ResolvedColor } from '../input-resolution.js';
+import type { CommandOption, OptionValues } from './options.js';
+import type { CommandDefinition } from './registry.js';
+
+/**
+ * A raw option value. Color options also accept an already-resolved color,
+ * for platforms that resolve (and disambiguate) dye names themselves.
+ */
+export type RawOptionValue = string | number | boolean | ResolvedColor;
+
+/** Why an option failed to resolve */
+export type OptionErrorReason =
+  | 'missing'
+  | 'invalidType'
+  | 'invalidChoice'
+  | 'outOfRange'
+  | 'unresolvedColor';
+
+export interface OptionError {
+  /** Option name */
+  option: string;
+  reason: OptionErrorReason;
+  /** The raw input, when there was one */
+  input?: string;
+}
+
+export interface ResolveOptionsContext {
+  /**
+   * Stored user preferences, keyed by preference name. Any object works, so
+   * platforms can pass their own preference interface as is.
+   */
+  preferences?: object;
+}
+
+export type ResolveOptionsResult<O extends readonly CommandOption[]> =
+  | { ok: true; values: OptionValues<O> }
+  | { ok: false; errors: OptionError[] };
+
+type CoerceResult = { ok: true; value: unknown } | { ok: false; reason: OptionErrorReason };
+
+const TRUE_WORDS = new Set(['true', 'yes', 'on', '1']);
+const FALSE_WORDS = new Set(['false', 'no', 'off', '0']);
+
+/**
+ * Resolve raw input against a command's option list.
+ *
+ * @param definition - Command whose options to resolve
+ * @param raw - Raw values keyed by option name; empty strings count as omitted
+ * @param context - Preferences used for omitted options
+ */
+export function resolveOptions<O extends readonly CommandOption[]>(
+  definition: Pick<CommandDefinition<O>, 'options'>,
+  raw: Readonly<Record<string, RawOptionValue | undefined>>,
+  context: ResolveOptionsContext = {}
+): ResolveOptionsResult<O> {
+  const values: Record<string, unknown> = {};
+  const errors: OptionError[] = [];
+
+  for (const option of definition.options) {
+    const input = raw[option.name];
+
+    if (input === undefined || input === '') {
+      const fallback = getFallback(option, context);
+      if (fallback !== undefined) {
+        values[option.name] = fallback;
+      } else if (option.required) {
+        errors.push({ option: option.name, reason: 'missing' });
+      }
+      continue;
+    }
+
+    const result = coerce(option, input);
+    if (result.ok) {
+      values[option.name] = result.value;
+    } else {
+      errors.push({
+        option: option.name,
+        reason: result.reason,
+        input: typeof input === 'object' ? input.hex : String(input),
+      });
+    }
+  }
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, values: values as OptionValues<O> };
+}
+
+/**
+ * Value for an omitted option: a valid stored preference, else the default.
+ * Invalid preferences (e.g. a removed choice) are ignored rather than
+ * failing the command.
+ */
+function getFallback(option: CommandOption, context: ResolveOptionsContext): unknown {
+  if ('preference' in option && option.preference) {
+    const preferences = context.preferences as Record<string, unknown> | undefined;
+    const stored = preferences?.[option.preference];
+    if (typeof stored === 'string' || typeof stored === 'number') {
+      const result = coerce(option, stored);
+      if (result.ok) return result.value;
+    }
+  }
+  return 'default' in option ? option.default : undefined;
+}
+
+function coerce(option: CommandOption, input: RawOptionValue): CoerceResult {
+  switch (option.type) {
+    case 'color': {
+      const color =
+        typeof input === 'object'
+          ? input
+          : typeof input === 'string'
+            ? resolveColorInput(input, {
+                excludeFacewear: !option.includeFacewear,
+                findClosestForHex: option.dye,
+              })
+            : undefined;
+      if (color === undefined) return { ok: false, reason: 'invalidType' };
+      if (!color || (option.dye && !color.dye)) return { ok: false, reason: 'unresolvedColor' };
+      return { ok: true, value: color };
+    }
+
+    case 'integer': {
+      const value =
+        typeof input === 'number'
+          ? input
+          : typeof input === 'string' && /^-?\d+$/.test(input.trim())
+            ? Number(input)
+            : NaN;
+      if (!Number.isInteger(value)) return { ok: false, reason: 'invalidType' };
+      if (
+        (option.min !== undefined && value < option.min) ||
+        (option.max !== undefined && value > option.max)
+      ) {
+        return { ok: false, reason: 'outOfRange' };
+      }
+      return { ok: true, value };
+    }
+
+    case 'boolean': {
+      if (typeof input === 'boolean') return { ok: true, value: input };
+      const word = typeof input === 'string' ? input.trim().toLowerCase() : '';
+      if (TRUE_WORDS.has(word)) return { ok: true, value: true };
+      if (FALSE_WORDS.has(word)) return { ok: true, value: false };
+      return { ok: false, reason: 'invalidType' };
+    }
+
+    case 'attachment':
+    case 'channel':
+      return typeof input === 'string'
+        ? { ok: true, value: input }
+        : { ok: false, reason: 'invalidType' };
+
+    case 'string': {
+      if (typeof input !== 'string') return { ok: false, reason: 'invalidType' };
+      if (!option.choices) return { ok: true, value: input };
+      const wanted = input.trim().toLowerCase();
+      const choice = option.choices.find((c) => c.value.toLowerCase() === wanted);
+      return choice ? { ok: true, value: choice.value } : { ok: false, reason: 'invalidChoice' };
+    }
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Glamourer Design Import — Unit Tests
+ *
+ * Fixtures are built the way Glamourer builds share strings: design JSON,
+ * gzip-compressed, prefixed with a version byte, base64-encoded.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { decodeGlamourerDesign, GLAMOURER_SLOTS, MAX_GLAMOURER_INPUT_LENGTH } from './glamourer.js';
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const design = {
+  FileVersion: 2,
+  Equipment: {
+    MainHand: { ItemId: 36985, Stain: 0, Stain2: 0, Apply: true, ApplyStain: true },
+    Head: { ItemId: 40213, Stain: 101, Stain2: 102, Apply: true, ApplyStain: true },
+    Body: { ItemId: 40214, Stain: 1, Stain2: 0, Apply: true, ApplyStain: true },
+    Legs: { ItemId: 40216, Stain: 101, Stain2: 0, Apply: true, ApplyStain: false },
+    LFinger: { ItemId: 9294, Stain: 102, Stain2: 9999, Apply: true, ApplyStain: true },
+    Hat: { Show: true, Apply: true },
+  },
+  Customize: { Race: { Value: 1, Apply: true } },
+};
+
+// Web platform APIs only: the package type-checks without Node types
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+async function gzip(text: string): Promise<Uint8Array> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function shareString(json: object, version = 6): Promise<string> {
+  const compressed = await gzip(JSON.stringify(json));
+  return toBase64(new Uint8Array([version, ...compressed]));
+}
+
+// ============================================================================
+// decodeGlamourerDesign
+// ============================================================================
+
+describe('decodeGlamourerDesign', () => {
+  it('decodes a compressed v6 share string', async () => {
+    const result = await decodeGlamourerDesign(await shareString(design));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.version).toBe(6);
+    expect(result.slots.map((s) => s.slot)).toEqual(['head', 'body', 'leftRing']);
+  });
+
+  it('resolves both dye channels by stainID', async () => {
+    const result = await decodeGlamourerDesign(await shareString(design));
+    if (!result.ok) throw new Error(result.errorMessage);
+
+    const head = result.slots.find((s) => s.slot === 'head');
+    expect(head?.itemId).toBe(40213);
+    expect(head?.stainIds).toEqual([101, 102]);
+    expect(head?.primary?.name).toBe('Pure White');
+    expect(head?.secondary?.name).toBe('Jet Black');
+
+    const body = result.slots.find((s) => s.slot === 'body');
+    expect(body?.primary?.name).toBe('Snow White');
+    expect(body?.secondary).toBeNull();
+  });
+
+  it('skips slots that do not apply their stain', async () => {
+    const result = await decodeGlamourerDesign(await shareString(design));
+    if (!result.ok) throw new Error(result.errorMessage);
+
+    expect(result.slots.some((s) => s.slot === 'legs')).toBe(false);
+  });
+
+  it('reports stain IDs that match no dye', async () => {
+    const result = await decodeGlamourerDesign(await shareString(design));
+    if (!result.ok) throw new Error(result.errorMessage);
+
+    expect(result.unknownStainIds).toEqual([9999]);
+    expect(result.slots.find((s) => s.slot === 'leftRing')?.secondary).toBeNull();
+  });
+
+  it('decodes v5 strings with a legacy block before the compressed JSON', async () => {
+    const legacy = new Uint8Array(40).fill(0x11);
+    legacy[0] = 5;
+    const inner = fromBase64(await shareString(design, 5));
+    const combined = toBase64(new Uint8Array([...legacy, ...inner]));
+
+    const result = await decodeGlamourerDesign(combined);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.slots).toHaveLength(3);
+  });
+
+  it('accepts base64 of uncompressed JSON', async () => {
+    const result = await decodeGlamourerDesign(toBase64(new TextEncoder().encode(JSON.stringify(design))));
+
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.version).toBe(0);
+  });
+
+  it('accepts raw design JSON', async () => {
+    const result = await decodeGlamourerDesign(JSON.stringify(design));
+
+    expect(result.ok).toBe(true);
+  });
+
+  it('ignores whitespace and line breaks from pasting', async () => {
+    const str = await shareString(design);
+    const wrapped = `  ${str.slice(0, 20)}\n${str.slice(20)}  `;
+
+    const result = await decodeGlamourerDesign(wrapped);
+
+    expect(result.ok).toBe(true);
+  });
+
+  it('uses the provided stain lookup', async () => {
+    const service = { getDyesByStainIds: vi.fn(() => []) };
+
+    const result = await decodeGlamourerDesign(await shareString(design), service);
+
+    expect(service.getDyesByStainIds).toHaveBeenCalledWith([101, 102, 1, 9999]);
+    if (result.ok) expect(result.unknownStainIds).toEqual([101, 102, 1, 9999]);
+  });
+
+  it('lists every Glamourer equipment slot', () => {
+    expect(GLAMOURER_SLOTS).toHaveLength(12);
+  });
+
+  describe('errors', () => {
+    it('rejects legacy binary versions', async () => {
+      const result = await decodeGlamourerDesign(toBase64(new Uint8Array([2, 0, 0, 0])));
+
+      expect(result).toMatchObject({ ok: false, error: 'UNSUPPORTED_VERSION', version: 2 });
+    });
+
+    it('rejects strings that are not base64', async () => {
+      const result = await decodeGlamourerDesign('not a design!');
+
+      expect(result).toMatchObject({ ok: false, error: 'INVALID_FORMAT' });
+    });
+
+    it('rejects corrupt compressed data', async () => {
+      const result = await decodeGlamourerDesign(toBase64(new Uint8Array([6, 0x1f, 0x8b, 1, 2, 3])));
+
+      expect(result).toMatchObject({ ok: false, error: 'INVALID_FORMAT' });
+    });
+
+    it('rejects designs without equipment', async () => {
+      const result = await decodeGlamourerDesign(await shareString({ Customize: {} }));
+
+      expect(result).toMatchObject({ ok: false, error: 'INVALID_FORMAT' });
+    });
+
+    it('rejects input over the length limit', async () => {
+      const result = await decodeGlamourerDesign('A'.repeat(MAX_GLAMOURER_INPUT_LENGTH + 1));
+
+      expect(result).toMatchObject({ ok: false, error: 'TOO_LARGE' });
+    });
+
+    it('stops inflating oversized payloads', async () => {
+      const huge = { Equipment: {}, Padding: 'x'.repeat(512 * 1024) };
+
+      const result = await decodeGlamourerDesign(await shareString(huge));
+
+      expect(result).toMatchObject({ ok: false, error: 'TOO_LARGE' });
+    });
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Glamourer Design Import
+ *
+ * Decodes Glamourer design / clipboard strings (also what Mare Synchronos
+ * shares) and resolves each equipment slot's stains to dyes.
+ *
+ * Accepted formats:
+ * - Raw design JSON (`{ "Equipment": { ... } }`)
+ * - Base64 of that JSON
+ * - Base64 of a version byte followed by gzip-compressed JSON (Glamourer v5/v6
+ *   share strings; v5 carries a legacy binary block before the version byte)
+ *
+ * The legacy binary formats (versions 1-4) predate dual dye channels and are
+ * rejected as unsupported.
+ *
+ * Platform-agnostic: uses only Web-standard APIs (atob, DecompressionStream).
+ *
+ * @module glamourer
+ */
+
+import type { Dye } from '@xivdyetools/types';
+import { dyeService } from './input-resolution.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Glamourer equipment slots, in in-game character window order */
+export const GLAMOURER_SLOTS = [
+  'mainHand',
+  'offHand',
+  'head',
+  'body',
+  'hands',
+  'legs',
+  'feet',
+  'ears',
+  'neck',
+  'wrists',
+  'rightRing',
+  'leftRing',
+] as const;
+
+export type GlamourerSlot = (typeof GLAMOURER_SLOTS)[number];
+
+/**
+ * One dyed equipment slot of an imported design
+ */
+export interface GlamourerSlotDyes {
+  slot: GlamourerSlot;
+  /** Glamourer item ID of the equipped piece (0 when nothing is equipped) */
+  itemId: number;
+  /** Stain IDs as stored in the design (0 = undyed) */
+  stainIds: [number, number];
+  /** Primary channel dye, or null when undyed / unknown stain */
+  primary: Dye | null;
+  /** Secondary channel dye, or null when undyed / unknown stain */
+  secondary: Dye | null;
+}
+
+export type GlamourerDecodeResult =
+  | {
+      ok: true;
+      /** Format version byte (0 for uncompressed JSON) */
+      version: number;
+      /** Slots with at least one dyed channel, in GLAMOURER_SLOTS order */
+      slots: GlamourerSlotDyes[];
+      /** Non-zero stain IDs that match no known dye */
+      unknownStainIds: number[];
+    }
+  | {
+      ok: false;
+      error: 'INVALID_FORMAT' | 'UNSUPPORTED_VERSION' | 'TOO_LARGE';
+      errorMessage: string;
+      /** Format version byte, for UNSUPPORTED_VERSION */
+      version?: number;
+    };
+
+/**
+ * The part of DyeService the decoder needs (lets web-app pass its own instance)
+ */
+export type StainLookup = Pick<typeof dyeService, 'getDyesByStainIds'>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Longest accepted input (full designs are ~2 KB of base64) */
+export const MAX_GLAMOURER_INPUT_LENGTH = 20_000;
+
+/** Decompressed JSON cap, so a crafted string can't inflate without bound */
+const MAX_DECOMPRESSED_BYTES = 256 * 1024;
+
+/** Glamourer JSON equipment keys → our slot IDs */
+const EQUIPMENT_KEYS: Record<GlamourerSlot, string> = {
+  mainHand: 'MainHand',
+  offHand: 'OffHand',
+  head: 'Head',
+  body: 'Body',
+  hands: 'Hands',
+  legs: 'Legs',
+  feet: 'Feet',
+  ears: 'Ears',
+  neck: 'Neck',
+  wrists: 'Wrists',
+  rightRing: 'RFinger',
+  leftRing: 'LFinger',
+};
+
+/** First version byte that wraps gzip-compressed JSON */
+const FIRST_JSON_VERSION = 5;
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+/**
+ * Decode a Glamourer design string and resolve its dyes
+ *
+ * @param input - Design string as copied from Glamourer (whitespace is ignored)
+ * @param service - Dye lookup (defaults to bot-logic's DyeService)
+ */
+export async function decodeGlamourerDesign(
+  input: string,
+  service: StainLookup = dyeService
+): Promise<GlamourerDecodeResult> {
+  const trimmed = input.trim();
+
+  if (trimmed.length > MAX_GLAMOURER_INPUT_LENGTH) {
+    return { ok: false, error: 'TOO_LARGE', errorMessage: 'Design string is too long' };
+  }
+
+  let design: unknown;
+  let version = 0;
+
+  try {
+    if (trimmed.startsWith('{')) {
+      design = JSON.parse(trimmed);
+    } else {
+      const bytes = base64ToBytes(trimmed.replace(/\s+/g, ''));
+      if (bytes.length === 0) {
+        return invalid('Design string is empty');
+      }
+
+      if (bytes[0] === 0x7b) {
+        // '{' — uncompressed JSON
+        design = JSON.parse(new TextDecoder().decode(bytes));
+      } else {
+        version = bytes[0];
+        if (version < FIRST_JSON_VERSION) {
+          return {
+            ok: false,
+            error: 'UNSUPPORTED_VERSION',
+            errorMessage: `Legacy Glamourer format (version ${version}) is not supported`,
+            version,
+          };
+        }
+
+        const gzipStart = findGzipStart(bytes);
+        if (gzipStart < 0) {
+          return invalid('No compressed design data found');
+        }
+
+        const json = await gunzipToString(bytes.subarray(gzipStart));
+        if (json === null) {
+          return { ok: false, error: 'TOO_LARGE', errorMessage: 'Decompressed design is too large' };
+        }
+        design = JSON.parse(json);
+      }
+    }
+  } catch (error) {
+    return invalid(error instanceof Error ? error.message : 'Could not decode design string');
+  }
+
+  const equipment = getEquipment(design);
+  if (!equipment) {
+    return invalid('Design has no equipment data');
+  }
+
+  return { ok: true, version, ...resolveSlots(equipment, service) };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function invalid(errorMessage: string): GlamourerDecodeResult {
+  return { ok: false, error: 'INVALID_FORMAT', errorMessage };
+}
+
+/**
+ * Decode standard or URL-safe base64 into bytes
+ */
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  let normalized = base64.replace(/-/g, '+').replace(/_/g, '/');
+  const padding = normalized.length % 4;
+  if (padding) {
+    normalized += '='.repeat(4 - padding);
+  }
+
+  const binary = atob(normalized);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Locate the gzip stream after the version byte
+ *
+ * v6+ strings put it right after the version byte; v5 strings embed a legacy
+ * binary design first, followed by a second version byte and the gzip data.
+ */
+function findGzipStart(bytes: Uint8Array<ArrayBuffer>): number {
+  const version = bytes[0];
+  const isGzipAt = (i: number): boolean => bytes[i] === GZIP_MAGIC[0] && bytes[i + 1] === GZIP_MAGIC[1];
+
+  if (isGzipAt(1)) return 1;
+
+  // v5: the inner version byte repeats right before the gzip header
+  for (let i = 2; i < bytes.length - 1; i++) {
+    if (bytes[i - 1] === version && isGzipAt(i)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Gunzip to a UTF-8 string, or null once MAX_DECOMPRESSED_BYTES is exceeded
+ */
+async function gunzipToString(compressed: Uint8Array<ArrayBuffer>): Promise<string | null> {
+  const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('gzip'));
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    total += value.byteLength;
+    if (total > MAX_DECOMPRESSED_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const joined = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    joined.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(joined);
+}
+
+function getEquipment(design: unknown): Record<string, unknown> | null {
+  if (typeof design !== 'object' || design === null) return null;
+  const equipment = (design as Record<string, unknown>).Equipment;
+  return typeof equipment === 'object' && equipment !== null ? (equipment as Record<string, unknown>) : null;
+}
+
+function readStain(value: unknown): number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Map every slot's stains through the dye database
+ */
+function resolveSlots(
+  equipment: Record<string, unknown>,
+  service: StainLookup
+): { slots: GlamourerSlotDyes[]; unknownStainIds: number[] } {
+  const raw: Array<{ slot: GlamourerSlot; itemId: number; stainIds: [number, number] }> = [];
+
+  for (const slot of GLAMOURER_SLOTS) {
+    const entry = equipment[EQUIPMENT_KEYS[slot]];
+    if (typeof entry !== 'object' || entry === null) continue;
+
+    const piece = entry as Record<string, unknown>;
+    // Slots that don't apply their stain leave the character's dyes alone
+    if (piece.ApplyStain === false) continue;
+
+    const stainIds: [number, number] = [readStain(piece.Stain), readStain(piece.Stain2)];
+    if (stainIds[0] === 0 && stainIds[1] === 0) continue;
+
+    raw.push({ slot, itemId: typeof piece.ItemId === 'number' ? piece.ItemId : 0, stainIds });
+  }
+
+  const uniqueStainIds = [...new Set(raw.flatMap((entry) => entry.stainIds).filter((id) => id > 0))];
+  const dyesByStainId = new Map<number, Dye>();
+  for (const dye of service.getDyesByStainIds(uniqueStainIds)) {
+    if (dye.stainID !== null) dyesByStainId.set(dye.stainID, dye);
+  }
+
+  const slots = raw.map((entry) => ({
+    ...entry,
+    primary: dyesByStainId.get(entry.stainIds[0]) ?? null,
+    secondary: dyesByStainId.get(entry.stainIds[1]) ?? null,
+  }));
+
+  return {
+    slots,
+    unknownStainIds: uniqueStainIds.filter((id) => !dyesByStainId.has(id)),
+  };
+}
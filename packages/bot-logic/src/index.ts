@@ -28,8 +28,18 @@ export {
 } from './localization.js';
 export type { LocaleCode } from './localization.js';
 
+// Glamourer / Mare design strings → dyes per equipment slot
+export { decodeGlamourerDesign, GLAMOURER_SLOTS, MAX_GLAMOURER_INPUT_LENGTH } from './glamourer.js';
+export type {
+  GlamourerDecodeResult,
+  GlamourerSlot,
+  GlamourerSlotDyes,
+  StainLookup,
+} from './glamourer.js';
+
 // Shared result types
 export type { EmbedData, EmbedField } from './commands/types.js';
+export type { DyeEmojiLookup } from './commands/emoji.js';
 
 // Shared color math utilities
 export { getColorDistance, getMatchQualityInfo } from './color-math.js';
@@ -52,6 +62,28 @@ export type { DyeInfoInput, DyeInfoResult } from './commands/dye-info.js';
 export { executeRandom } from './commands/dye-info.js';
 export type { RandomInput, RandomResult } from './commands/dye-info.js';
 
+// Command: Dye of the Day (date-seeded dye + harmony pick)
+export { executeDyeOfTheDay, selectDyeOfTheDay, getDateKey } from './commands/dye-of-the-day.js';
+export type { DyeOfTheDayInput, DyeOfTheDayPick, DyeOfTheDayResult } from './commands/dye-of-the-day.js';
+
+// Command: Dye quiz (guessing rounds + ΔE partial-credit scoring)
+export {
+  executeDyeQuiz,
+  scoreDyeQuizAnswer,
+  getQuizPool,
+  QUIZ_DIFFICULTIES,
+  QUIZ_POOLS,
+} from './commands/dyequiz.js';
+export type {
+  DyeQuizInput,
+  DyeQuizRound,
+  DyeQuizResult,
+  DyeQuizScoreInput,
+  DyeQuizScore,
+  QuizDifficulty,
+  QuizPool,
+} from './commands/dyequiz.js';
+
 // Command: Dye blending (mixer)
 export { executeMixer } from './commands/mixer.js';
 export type {
@@ -90,3 +122,59 @@ export type {
 
 // BUG-073/REFACTOR-010 (2026-07-18 audit): single MODERATOR_IDS grammar for both bot workers
 export { parseModeratorIds, isModeratorId, isValidDiscordSnowflake } from './moderators.js';
+
+// Command framework: declarative registry, option resolution, output model
+export {
+  defineCommand,
+  createCommandRegistry,
+} from './framework/registry.js';
+export type {
+  CommandDefinition,
+  CommandRunContext,
+  CommandSpec,
+  MessageCommandSpec,
+  SubcommandSpec,
+  SubcommandGroupSpec,
+} from './framework/registry.js';
+export type {
+  CommandOption,
+  StringOption,
+  IntegerOption,
+  BooleanOption,
+  ColorOption,
+  AttachmentOption,
+  ChannelOption,
+  ChannelKind,
+  OptionChoice,
+  OptionValue,
+  OptionValues,
+} from './framework/options.js';
+export { resolveOptions } from './framework/resolve.js';
+export type {
+  RawOptionValue,
+  OptionError,
+  OptionErrorReason,
+  ResolveOptionsContext,
+  ResolveOptionsResult,
+} from './framework/resolve.js';
+export type {
+  CommandOutput,
+  CommandRunResult,
+  OutputAttachment,
+  OutputButton,
+} from './framework/output.js';
+export {
+  toDiscordCommand,
+  DISCORD_OPTION_TYPES,
+  DISCORD_COMMAND_TYPES,
+} from './framework/discord.js';
+export type { DiscordCommandJson, DiscordCommandOptionJson } from './framework/discord.js';
+export {
+  harmonyCommand,
+  gradientCommand,
+  mixerCommand,
+  accessibilityCommand,
+  comparisonCommand,
+  SHARED_COMMANDS,
+  MATCHING_CHOICES,
+} from './framework/commands.js';
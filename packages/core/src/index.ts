@@ -22,7 +22,9 @@ export type {
   PaletteExtractionOptions,
   ExtractedColor,
   PaletteMatch,
+  PaletteMatchOptions,
   PaletteServiceOptions,
+  RecolorOptions,
 } from './services/PaletteService.js';
 export {
   CharacterColorService,
@@ -25,6 +25,7 @@ import type { Logger } from '@xivdyetools/logger/library';
 import { NoOpLogger } from '@xivdyetools/logger/library';
 import { ColorService } from './ColorService.js';
 import type { DyeService } from './DyeService.js';
+import type { MatchingMethod, OklchWeights } from '../types/index.js';
 
 // ============================================================================
 // Types
@@ -44,6 +45,16 @@ export interface PaletteExtractionOptions {
   maxSamples?: number;
 }
 
+/**
+ * Options for palette extraction plus dye matching
+ */
+export interface PaletteMatchOptions extends PaletteExtractionOptions {
+  /** Color matching algorithm for picking each dye (default: 'oklab') */
+  matchingMethod?: MatchingMethod;
+  /** Custom weights for the oklch-weighted method */
+  weights?: OklchWeights;
+}
+
 /**
  * An extracted color with its dominance (cluster size)
  */
@@ -64,12 +75,22 @@ export interface PaletteMatch {
   extracted: RGB;
   /** The closest matching FFXIV dye */
   matchedDye: Dye;
-  /** Color distance between extracted and matched (lower is better) */
+  /** RGB distance between extracted and matched (lower is better), whatever the matching method */
   distance: number;
   /** Percentage of pixels in this cluster (0-100) */
   dominance: number;
 }
 
+/**
+ * Options for recoloring an image toward its matched dyes
+ */
+export interface RecolorOptions {
+  /** How far each pixel's chroma moves toward its dye (0-1, default: 1) */
+  strength?: number;
+  /** Pixels with lower alpha are copied unchanged (0-255, default: 128) */
+  alphaThreshold?: number;
+}
+
 /**
  * Configuration options for PaletteService
  */
@@ -421,7 +442,7 @@ export class PaletteService {
    *
    * @param pixels - Array of RGB pixel values
    * @param dyeService - DyeService instance for matching
-   * @param options - Extraction options
+   * @param options - Extraction options, plus the matching method used to pick each dye
    * @returns Array of palette matches sorted by dominance
    *
    * @example
@@ -433,7 +454,7 @@ export class PaletteService {
   extractAndMatchPalette(
     pixels: RGB[],
     dyeService: DyeService,
-    options: PaletteExtractionOptions = {}
+    options: PaletteMatchOptions = {}
   ): PaletteMatch[] {
     // Extract palette
     const extracted = this.extractPalette(pixels, options);
@@ -444,7 +465,10 @@ export class PaletteService {
     for (const ex of extracted) {
       // Convert RGB to hex for DyeService
       const hex = ColorService.rgbToHex(ex.color.r, ex.color.g, ex.color.b);
-      const matchedDye = dyeService.findClosestDye(hex);
+      const matchedDye = dyeService.findClosestDye(hex, {
+        matchingMethod: options.matchingMethod,
+        weights: options.weights,
+      });
 
       if (matchedDye) {
         // Calculate distance between extracted and matched colors
@@ -462,6 +486,74 @@ export class PaletteService {
     return matches;
   }
 
+  /**
+   * Recolor RGBA pixel data as if each extracted color were its matched dye
+   *
+   * Every pixel is assigned to the nearest extracted color (the same clusters
+   * extractAndMatchPalette found), keeps its OKLAB lightness, and has its
+   * chroma shifted by the difference between that color and the matched dye.
+   * Shading and texture survive; only the hue and saturation change.
+   *
+   * @param data - Flat array of RGBA values [r, g, b, a, r, g, b, a, ...]
+   * @param matches - Palette matches from extractAndMatchPalette
+   * @param options - Recolor strength and alpha threshold
+   * @returns New RGBA array of the same length (alpha unchanged)
+   *
+   * @example
+   * ```typescript
+   * const matches = paletteService.extractAndMatchPalette(rgbPixels, dyeService);
+   * const preview = PaletteService.recolorPixels(imageData.data, matches);
+   * ```
+   */
+  static recolorPixels(
+    data: Uint8ClampedArray | Uint8Array | number[],
+    matches: PaletteMatch[],
+    options: RecolorOptions = {}
+  ): Uint8ClampedArray {
+    const strength = Math.max(0, Math.min(1, options.strength ?? 1));
+    const alphaThreshold = options.alphaThreshold ?? 128;
+    const output = new Uint8ClampedArray(data);
+
+    if (matches.length === 0 || strength === 0) {
+      return output;
+    }
+
+    // Chroma shift per cluster: matched dye minus extracted color in OKLAB
+    const shifts = matches.map((match) => {
+      const extracted = ColorService.rgbToOklab(match.extracted.r, match.extracted.g, match.extracted.b);
+      const dye = ColorService.rgbToOklab(match.matchedDye.rgb.r, match.matchedDye.rgb.g, match.matchedDye.rgb.b);
+      return {
+        center: match.extracted,
+        a: (dye.a - extracted.a) * strength,
+        b: (dye.b - extracted.b) * strength,
+      };
+    });
+
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < alphaThreshold) continue;
+
+      const pixel = { r: data[i], g: data[i + 1], b: data[i + 2] };
+
+      let nearest = shifts[0];
+      let nearestDistance = Infinity;
+      for (const shift of shifts) {
+        const distance = rgbDistance(pixel, shift.center);
+        if (distance < nearestDistance) {
+          nearest = shift;
+          nearestDistance = distance;
+        }
+      }
+
+      const lab = ColorService.rgbToOklab(pixel.r, pixel.g, pixel.b);
+      const recolored = ColorService.oklabToRgb(lab.L, lab.a + nearest.a, lab.b + nearest.b);
+      output[i] = recolored.r;
+      output[i + 1] = recolored.g;
+      output[i + 2] = recolored.b;
+    }
+
+    return output;
+  }
+
   /**
    * Convert flat pixel array (Uint8ClampedArray from canvas) to RGB array
    * Skips alpha channel
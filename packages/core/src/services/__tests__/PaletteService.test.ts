@@ -3,8 +3,9 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { PaletteService } from '../PaletteService.js';
-import type { RGB } from '@xivdyetools/types';
+import { PaletteService, type PaletteMatch } from '../PaletteService.js';
+import { ColorService } from '../ColorService.js';
+import type { Dye, RGB } from '@xivdyetools/types';
 
 // Mock DyeService for testing extractAndMatchPalette
 const createMockDyeService = () => ({
@@ -179,6 +180,35 @@ describe('PaletteService', () => {
       // First match should have higher dominance
       expect(result[0].dominance).toBeGreaterThanOrEqual(result[1].dominance);
     });
+
+    it('should pass the matching method and weights to the dye lookup', () => {
+      const mockDyeService = createMockDyeService();
+      const pixels: RGB[] = Array(10).fill({ r: 255, g: 0, b: 0 });
+      const weights = { kL: 1, kC: 2, kH: 0.5 };
+
+      service.extractAndMatchPalette(pixels, mockDyeService as any, {
+        colorCount: 1,
+        matchingMethod: 'oklch-weighted',
+        weights,
+      });
+
+      expect(mockDyeService.findClosestDye).toHaveBeenCalledWith(expect.any(String), {
+        matchingMethod: 'oklch-weighted',
+        weights,
+      });
+    });
+
+    it('should keep reporting RGB distance for non-RGB matching methods', () => {
+      const mockDyeService = createMockDyeService();
+      const pixels: RGB[] = Array(10).fill({ r: 170, g: 17, b: 17 });
+
+      const [match] = service.extractAndMatchPalette(pixels, mockDyeService as any, {
+        colorCount: 1,
+        matchingMethod: 'ciede2000',
+      });
+
+      expect(match.distance).toBe(0);
+    });
   });
 
   describe('pixelDataToRGB', () => {
@@ -281,6 +311,59 @@ describe('PaletteService', () => {
     });
   });
 
+  describe('recolorPixels', () => {
+    const redMatch = (extracted: RGB): PaletteMatch => ({
+      extracted,
+      matchedDye: createMockDyeService().findClosestDye('#AA1111') as unknown as Dye,
+      distance: 0,
+      dominance: 100,
+    });
+
+    it('should keep lightness while moving chroma toward the dye', () => {
+      // Two shades of blue: both turn red, the darker one stays darker
+      const data = new Uint8ClampedArray([40, 60, 200, 255, 20, 30, 100, 255]);
+      const result = PaletteService.recolorPixels(data, [redMatch({ r: 30, g: 45, b: 150 })]);
+
+      const light = ColorService.rgbToOklab(result[0], result[1], result[2]);
+      const dark = ColorService.rgbToOklab(result[4], result[5], result[6]);
+      expect(result[0]).toBeGreaterThan(result[2]);
+      expect(light.L).toBeCloseTo(ColorService.rgbToOklab(40, 60, 200).L, 1);
+      expect(dark.L).toBeLessThan(light.L);
+    });
+
+    it('should use each pixel\'s nearest extracted color', () => {
+      const greenMatch: PaletteMatch = {
+        ...redMatch({ r: 0, g: 200, b: 0 }),
+        matchedDye: { ...redMatch({ r: 0, g: 0, b: 0 }).matchedDye, rgb: { r: 0, g: 200, b: 0 } },
+      };
+      const data = new Uint8ClampedArray([0, 200, 0, 255, 0, 0, 200, 255]);
+
+      const result = PaletteService.recolorPixels(data, [greenMatch, redMatch({ r: 0, g: 0, b: 200 })]);
+
+      // Green already matches its dye; blue turns red
+      expect(Array.from(result.slice(0, 3))).toEqual([0, 200, 0]);
+      expect(result[4]).toBeGreaterThan(result[6]);
+    });
+
+    it('should leave transparent pixels and alpha untouched', () => {
+      const data = new Uint8ClampedArray([0, 0, 200, 0, 0, 0, 200, 200]);
+      const result = PaletteService.recolorPixels(data, [redMatch({ r: 0, g: 0, b: 200 })]);
+
+      expect(Array.from(result.slice(0, 4))).toEqual([0, 0, 200, 0]);
+      expect(result[7]).toBe(200);
+    });
+
+    it('should return an unchanged copy with no matches or zero strength', () => {
+      const data = new Uint8ClampedArray([10, 20, 30, 255]);
+
+      expect(Array.from(PaletteService.recolorPixels(data, []))).toEqual([10, 20, 30, 255]);
+      expect(
+        Array.from(PaletteService.recolorPixels(data, [redMatch({ r: 10, g: 20, b: 30 })], { strength: 0 }))
+      ).toEqual([10, 20, 30, 255]);
+      expect(PaletteService.recolorPixels(data, [])).not.toBe(data);
+    });
+  });
+
   describe('K-means clustering behavior', () => {
     it('should converge to stable centroids', () => {
       // Run extraction twice with same input
@@ -0,0 +1,36 @@
+/**
+ * @xivdyetools/image
+ *
+ * WASM image decoding (photon) and upload safeguards shared by the workers
+ * that accept user images. Source-specific checks — URL allowlists, fetch
+ * timeouts — stay with each worker.
+ *
+ * @module image
+ */
+
+// Types
+export type { ImageFormat, FormatValidationResult } from './types.js';
+
+// Photon image processing
+export {
+  type ProcessedImage,
+  type ProcessImageOptions,
+  loadImage,
+  resizeImage,
+  extractPixels,
+  processImageForExtraction,
+  encodePng,
+  combineSideBySide,
+  getImageDimensions,
+} from './photon.js';
+
+// Image validation
+export {
+  MAX_FILE_SIZE_BYTES,
+  MAX_IMAGE_DIMENSION,
+  MAX_PIXEL_COUNT,
+  validateFileSize,
+  validateDimensions,
+  detectImageFormat,
+  validateImageFormat,
+} from './validators.js';
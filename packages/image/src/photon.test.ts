@@ -16,9 +16,12 @@ const mockPhotonImage = createMockPhotonImage();
 const mockResizedImage = createMockPhotonImage(50, 50);
 
 vi.mock('@cf-wasm/photon', () => ({
-    PhotonImage: {
-        new_from_byteslice: vi.fn(() => mockPhotonImage),
-    },
+    PhotonImage: Object.assign(
+        vi.fn(function (_pixels: Uint8Array, width: number, height: number) {
+            return createMockPhotonImage(width, height);
+        }),
+        { new_from_byteslice: vi.fn(() => mockPhotonImage) }
+    ),
     SamplingFilter: {
         Lanczos3: 0,
         Nearest: 1,
@@ -36,6 +39,8 @@ import {
     resizeImage,
     extractPixels,
     processImageForExtraction,
+    encodePng,
+    combineSideBySide,
     getImageDimensions,
 } from './photon.js';
 import { PhotonImage, resize, SamplingFilter } from '@cf-wasm/photon';
@@ -211,6 +216,33 @@ describe('photon image processing', () => {
         });
     });
 
+    describe('encodePng', () => {
+        it('builds an image from the raw pixels and returns its PNG bytes', () => {
+            const pixels = new Uint8Array(2 * 1 * 4);
+
+            const result = encodePng({ pixels, width: 2, height: 1 });
+
+            expect(PhotonImage).toHaveBeenCalledWith(pixels, 2, 1);
+            expect(Array.from(result)).toEqual([0x89, 0x50, 0x4E, 0x47]);
+        });
+    });
+
+    describe('combineSideBySide', () => {
+        it('places images left to right with a transparent gap', () => {
+            const red = { pixels: new Uint8Array([255, 0, 0, 255]), width: 1, height: 1 };
+            const blue = { pixels: new Uint8Array([0, 0, 255, 255, 0, 0, 255, 255]), width: 1, height: 2 };
+
+            const result = combineSideBySide([red, blue], 1);
+
+            expect(result.width).toBe(3);
+            expect(result.height).toBe(2);
+            expect(Array.from(result.pixels)).toEqual([
+                255, 0, 0, 255, 0, 0, 0, 0, 0, 0, 255, 255,
+                0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 255, 255,
+            ]);
+        });
+    });
+
     describe('getImageDimensions', () => {
         it('returns width and height', () => {
             const buffer = new Uint8Array([0x89, 0x50, 0x4E, 0x47]);
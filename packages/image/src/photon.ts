@@ -9,7 +9,7 @@
  * - Returns RGBA pixel data directly (no Canvas needed)
  * - Manual memory management required (free() after use)
  *
- * @module services/image/photon
+ * @module photon
  */
 
 import { PhotonImage, SamplingFilter, resize } from '@cf-wasm/photon';
@@ -195,6 +195,53 @@ export async function processImageForExtraction(
   }
 }
 
+/**
+ * Encode raw RGBA pixels as a PNG
+ *
+ * @param image - Pixel data and dimensions (e.g. from processImageForExtraction)
+ * @returns PNG file bytes
+ */
+export function encodePng(image: ProcessedImage): Uint8Array {
+  let photon: PhotonImage | null = null;
+
+  try {
+    photon = new PhotonImage(image.pixels, image.width, image.height);
+    return photon.get_bytes();
+  } finally {
+    if (photon) {
+      try {
+        photon.free();
+      } catch {
+        // Ignore errors during cleanup
+      }
+    }
+  }
+}
+
+/**
+ * Place images next to each other, top-aligned, on a transparent canvas
+ *
+ * @param images - Images to place from left to right
+ * @param gap - Transparent pixels between images (default: 8)
+ * @returns Combined image
+ */
+export function combineSideBySide(images: ProcessedImage[], gap: number = 8): ProcessedImage {
+  const width = images.reduce((sum, image) => sum + image.width, 0) + gap * Math.max(0, images.length - 1);
+  const height = Math.max(0, ...images.map((image) => image.height));
+  const pixels = new Uint8Array(width * height * 4);
+
+  let left = 0;
+  for (const image of images) {
+    for (let y = 0; y < image.height; y++) {
+      const row = image.pixels.subarray(y * image.width * 4, (y + 1) * image.width * 4);
+      pixels.set(row, (y * width + left) * 4);
+    }
+    left += image.width + gap;
+  }
+
+  return { pixels, width, height };
+}
+
 /**
  * Get image dimensions without full processing
  *
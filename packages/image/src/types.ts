@@ -0,0 +1,22 @@
+/**
+ * Image Types
+ *
+ * @module types
+ */
+
+/**
+ * Supported image formats
+ */
+export type ImageFormat = 'png' | 'jpeg' | 'gif' | 'webp' | 'bmp';
+
+/**
+ * Result of image format validation
+ */
+export interface FormatValidationResult {
+  /** Whether the format is valid */
+  valid: boolean;
+  /** Detected format (if valid) */
+  format?: ImageFormat;
+  /** Error message (if invalid) */
+  error?: string;
+}
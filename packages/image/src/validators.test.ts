@@ -0,0 +1,181 @@
+/**
+ * Tests for Image Validators
+ */
+import { describe, it, expect } from 'vitest';
+import {
+    validateFileSize,
+    validateDimensions,
+    detectImageFormat,
+    validateImageFormat,
+    MAX_FILE_SIZE_BYTES,
+    MAX_IMAGE_DIMENSION,
+    MAX_PIXEL_COUNT,
+} from './validators.js';
+
+describe('validators.ts', () => {
+    describe('Constants', () => {
+        it('should have correct default values', () => {
+            expect(MAX_FILE_SIZE_BYTES).toBe(10 * 1024 * 1024); // 10MB
+            expect(MAX_IMAGE_DIMENSION).toBe(4096);
+            expect(MAX_PIXEL_COUNT).toBe(16 * 1024 * 1024); // 16MP
+        });
+    });
+
+    // ==========================================================================
+    // Size Validation Tests
+    // ==========================================================================
+
+    describe('validateFileSize', () => {
+        it('should accept valid file sizes', () => {
+            expect(validateFileSize(1024)).toBeUndefined();
+            expect(validateFileSize(5 * 1024 * 1024)).toBeUndefined(); // 5MB
+            expect(validateFileSize(MAX_FILE_SIZE_BYTES)).toBeUndefined(); // Exactly at limit
+        });
+
+        it('should reject empty files', () => {
+            const result = validateFileSize(0);
+            expect(result).toBe('Image file is empty');
+        });
+
+        it('should reject negative sizes', () => {
+            const result = validateFileSize(-100);
+            expect(result).toBe('Image file is empty');
+        });
+
+        it('should reject files over the size limit', () => {
+            const result = validateFileSize(MAX_FILE_SIZE_BYTES + 1);
+            expect(result).toContain('Image too large');
+            expect(result).toContain('10MB');
+        });
+
+        it('should format size in the error message', () => {
+            const result = validateFileSize(15 * 1024 * 1024); // 15MB
+            expect(result).toContain('15.0MB');
+        });
+    });
+
+    describe('validateDimensions', () => {
+        it('should accept valid dimensions', () => {
+            expect(validateDimensions(100, 100)).toBeUndefined();
+            expect(validateDimensions(1920, 1080)).toBeUndefined();
+            // 4000x4000 = 16MP exactly at limit
+            expect(validateDimensions(4000, 4000)).toBeUndefined();
+        });
+
+        it('should reject zero or negative dimensions', () => {
+            expect(validateDimensions(0, 100)).toBe('Image has invalid dimensions');
+            expect(validateDimensions(100, 0)).toBe('Image has invalid dimensions');
+            expect(validateDimensions(-1, 100)).toBe('Image has invalid dimensions');
+            expect(validateDimensions(100, -1)).toBe('Image has invalid dimensions');
+        });
+
+        it('should reject dimensions exceeding limit', () => {
+            const result = validateDimensions(MAX_IMAGE_DIMENSION + 1, 100);
+            expect(result).toContain('Image too large');
+            expect(result).toContain(`${MAX_IMAGE_DIMENSION}px`);
+        });
+
+        it('should reject height exceeding limit', () => {
+            const result = validateDimensions(100, MAX_IMAGE_DIMENSION + 1);
+            expect(result).toContain('Image too large');
+        });
+
+        it('should allow large dimensions within pixel count', () => {
+            // 4096x3000 = 12.3 megapixels < 16 megapixels limit
+            const result = validateDimensions(4096, 3000);
+            expect(result).toBeUndefined();
+        });
+
+        // Note: With current constants (MAX_IMAGE_DIMENSION=4096, MAX_PIXEL_COUNT=16*1024*1024=16777216),
+        // the max valid pixel count is 4096*4096=16777216 which exactly equals MAX_PIXEL_COUNT.
+        // This makes the pixel count branch unreachable - dimension check always triggers first.
+        // The tests below verify the dimension check behavior instead.
+
+        it('should reject height exceeding dimension limit', () => {
+            // 4097 > 4096, so dimension check triggers
+            const result = validateDimensions(4096, 4097);
+            expect(result).toContain('Image too large');
+            expect(result).toContain('4096px');
+        });
+
+        it('should allow exactly at dimension limit', () => {
+            // 4096x4096 is exactly at both limits
+            const result = validateDimensions(4096, 4096);
+            expect(result).toBeUndefined();
+        });
+    });
+
+    // ==========================================================================
+    // Format Detection Tests
+    // ==========================================================================
+
+    describe('detectImageFormat', () => {
+        it('should detect PNG format', () => {
+            const pngMagic = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+            expect(detectImageFormat(pngMagic)).toBe('png');
+        });
+
+        it('should detect JPEG format', () => {
+            const jpegMagic = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 0, 0, 0, 0, 0, 0, 0]);
+            expect(detectImageFormat(jpegMagic)).toBe('jpeg');
+        });
+
+        it('should detect GIF format', () => {
+            const gifMagic = new Uint8Array([0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 0, 0, 0, 0, 0, 0]);
+            expect(detectImageFormat(gifMagic)).toBe('gif');
+        });
+
+        it('should detect WebP format', () => {
+            // RIFF....WEBP
+            const webpMagic = new Uint8Array([
+                0x52, 0x49, 0x46, 0x46, // RIFF
+                0, 0, 0, 0,             // size placeholder
+                0x57, 0x45, 0x42, 0x50, // WEBP
+            ]);
+            expect(detectImageFormat(webpMagic)).toBe('webp');
+        });
+
+        it('should not detect RIFF without WEBP as WebP', () => {
+            // RIFF but not WEBP (could be AVI, WAV, etc.)
+            const riffNotWebp = new Uint8Array([
+                0x52, 0x49, 0x46, 0x46, // RIFF
+                0, 0, 0, 0,             // size placeholder
+                0x41, 0x56, 0x49, 0x20, // AVI (not WEBP)
+            ]);
+            expect(detectImageFormat(riffNotWebp)).toBeUndefined();
+        });
+
+        it('should detect BMP format', () => {
+            const bmpMagic = new Uint8Array([0x42, 0x4d, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+            expect(detectImageFormat(bmpMagic)).toBe('bmp');
+        });
+
+        it('should return undefined for unknown formats', () => {
+            const unknown = new Uint8Array([0x00, 0x01, 0x02, 0x03, 0x04, 0x05, 0x06, 0x07, 0, 0, 0, 0]);
+            expect(detectImageFormat(unknown)).toBeUndefined();
+        });
+
+        it('should return undefined for buffers too small', () => {
+            const small = new Uint8Array([0x89, 0x50, 0x4e]);
+            expect(detectImageFormat(small)).toBeUndefined();
+        });
+    });
+
+    describe('validateImageFormat', () => {
+        it('should return valid result for supported formats', () => {
+            const pngMagic = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+            const result = validateImageFormat(pngMagic);
+
+            expect(result.valid).toBe(true);
+            expect(result.format).toBe('png');
+        });
+
+        it('should return invalid result for unsupported formats', () => {
+            const unknown = new Uint8Array([0x00, 0x01, 0x02, 0x03, 0x04, 0x05, 0x06, 0x07, 0, 0, 0, 0]);
+            const result = validateImageFormat(unknown);
+
+            expect(result.valid).toBe(false);
+            expect(result.error).toContain('Unsupported image format');
+        });
+    });
+});
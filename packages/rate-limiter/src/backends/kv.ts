@@ -114,7 +114,7 @@ export class KVRateLimiter implements ExtendedRateLimiter {
     if (result.allowed && !result.backendError) {
       await this.increment(key, config, now);
       // BUG-004: Adjust remaining to reflect consumed request
-      result.remaining = Math.max(0, result.remaining - 1);
+      result.remaining = Math.max(0, result.remaining - (config.cost ?? 1));
     }
     return result;
   }
@@ -130,6 +130,7 @@ export class KVRateLimiter implements ExtendedRateLimiter {
     const kvKey = this.buildKey(key, now, config.windowMs);
     const effectiveLimit =
       config.maxRequests + (config.burstAllowance ?? 0);
+    const cost = config.cost ?? 1;
     const resetAt = this.calculateResetTime(now, config.windowMs);
 
     try {
@@ -137,17 +138,9 @@ export class KVRateLimiter implements ExtendedRateLimiter {
       const entry: KVEntry | null = data ? (JSON.parse(data) as KVEntry) : null;
 
       // BUG-004: checkOnly reports remaining without consuming
-      if (!entry || now - entry.windowStart >= config.windowMs) {
-        return {
-          allowed: true,
-          remaining: effectiveLimit,
-          resetAt,
-          limit: effectiveLimit,
-        };
-      }
-
-      const allowed = entry.count < effectiveLimit;
-      const remaining = Math.max(0, effectiveLimit - entry.count);
+      const used = entry && now - entry.windowStart < config.windowMs ? entry.count : 0;
+      const allowed = used + cost <= effectiveLimit;
+      const remaining = Math.max(0, effectiveLimit - used);
 
       return {
         allowed,
@@ -197,6 +190,7 @@ export class KVRateLimiter implements ExtendedRateLimiter {
   ): Promise<void> {
     const kvKey = this.buildKey(key, now, config.windowMs);
     const ttl = Math.ceil(config.windowMs / 1000) + this.ttlBuffer;
+    const cost = config.cost ?? 1;
 
     for (let attempt = 0; attempt < this.maxRetries; attempt++) {
       try {
@@ -209,11 +203,11 @@ export class KVRateLimiter implements ExtendedRateLimiter {
         let entry: KVEntry;
         if (!currentData || now - currentData.windowStart >= config.windowMs) {
           // New window
-          entry = { count: 1, windowStart: now };
+          entry = { count: cost, windowStart: now };
         } else {
           // Increment existing
           entry = {
-            count: currentData.count + 1,
+            count: currentData.count + cost,
             windowStart: currentData.windowStart,
           };
         }
@@ -120,6 +120,26 @@ describe('MemoryRateLimiter', () => {
     });
   });
 
+  describe('weighted requests (cost)', () => {
+    it('consumes cost units per request', async () => {
+      const result = await limiter.check('user1', { ...defaultConfig, cost: 3 });
+
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(2);
+    });
+
+    it('denies a request whose cost exceeds the remaining allowance', async () => {
+      await limiter.check('user1', { ...defaultConfig, cost: 3 });
+
+      const denied = await limiter.check('user1', { ...defaultConfig, cost: 3 });
+      expect(denied.allowed).toBe(false);
+      expect(denied.remaining).toBe(2);
+
+      const allowed = await limiter.check('user1', defaultConfig);
+      expect(allowed.allowed).toBe(true);
+    });
+  });
+
   describe('reset()', () => {
     it('resets rate limit for a specific key', async () => {
       // Fill up limit
@@ -89,6 +89,7 @@ export class MemoryRateLimiter implements RateLimiter {
     const windowStart = now - config.windowMs;
     const effectiveLimit =
       config.maxRequests + (config.burstAllowance ?? 0);
+    const cost = config.cost ?? 1;
 
     // Get existing entry for this key (BUG-023: track its largest window)
     const entry = this.requestLog.get(key);
@@ -98,7 +99,7 @@ export class MemoryRateLimiter implements RateLimiter {
     const recentTimestamps = (entry?.timestamps ?? []).filter((ts) => ts > windowStart);
 
     // Check if within limit
-    const allowed = recentTimestamps.length < effectiveLimit;
+    const allowed = recentTimestamps.length + cost <= effectiveLimit;
     const remaining = Math.max(0, effectiveLimit - recentTimestamps.length);
 
     // Calculate reset time (when oldest request in window expires)
@@ -107,9 +108,9 @@ export class MemoryRateLimiter implements RateLimiter {
       ? new Date(oldestInWindow + config.windowMs)
       : new Date(now + config.windowMs);
 
-    // Record this request if allowed
+    // Record this request if allowed (one timestamp per unit of cost)
     if (allowed) {
-      recentTimestamps.push(now);
+      for (let i = 0; i < cost; i++) recentTimestamps.push(now);
     }
     this.requestLog.set(key, { windowMs: entryWindowMs, timestamps: recentTimestamps });
 
@@ -131,7 +132,7 @@ export class MemoryRateLimiter implements RateLimiter {
 
     return {
       allowed,
-      remaining: allowed ? remaining - 1 : remaining,
+      remaining: allowed ? remaining - cost : remaining,
       resetAt,
       limit: effectiveLimit,
       retryAfter: allowed
@@ -16,6 +16,7 @@ import type { RateLimitConfig, RateLimiterLogger } from '../types.js';
 // Mock @upstash/redis
 const mockPipeline = {
   incr: vi.fn().mockReturnThis(),
+  incrby: vi.fn().mockReturnThis(),
   expire: vi.fn().mockReturnThis(),
   ttl: vi.fn().mockReturnThis(),
   exec: vi.fn(),
@@ -61,6 +62,7 @@ describe('UpstashRateLimiter', () => {
     vi.resetAllMocks();
     // Re-apply mock implementations after reset
     mockPipeline.incr.mockReturnThis();
+    mockPipeline.incrby.mockReturnThis();
     mockPipeline.expire.mockReturnThis();
     mockPipeline.ttl.mockReturnThis();
     mockRedis.pipeline.mockReturnValue(mockPipeline);
@@ -180,6 +182,16 @@ describe('UpstashRateLimiter', () => {
 
       expect(mockPipeline.incr).toHaveBeenCalledWith('custom:user1');
     });
+
+    it('uses INCRBY for weighted requests', async () => {
+      mockPipeline.exec.mockResolvedValue([3, 1, 60]);
+
+      const result = await limiter.check('user1', { ...defaultConfig, cost: 3 });
+
+      expect(mockPipeline.incrby).toHaveBeenCalledWith('ratelimit:user1', 3);
+      expect(mockPipeline.incr).not.toHaveBeenCalled();
+      expect(result.remaining).toBe(2);
+    });
   });
 
   describe('fail-open behavior', () => {
@@ -67,11 +67,16 @@ export class UpstashRateLimiter implements RateLimiter {
     const redisKey = this.buildKey(key);
     const effectiveLimit = config.maxRequests + (config.burstAllowance ?? 0);
     const ttlSeconds = Math.ceil(config.windowMs / 1000);
+    const cost = config.cost ?? 1;
 
     try {
       // Pipeline: INCR + EXPIRE NX + TTL in single round-trip (atomic, no orphan keys)
       const pipeline = this.redis.pipeline();
-      pipeline.incr(redisKey);
+      if (cost === 1) {
+        pipeline.incr(redisKey);
+      } else {
+        pipeline.incrby(redisKey, cost);
+      }
       pipeline.expire(redisKey, ttlSeconds, 'NX');
       pipeline.ttl(redisKey);
       const results = await pipeline.exec<[number, number, number]>();
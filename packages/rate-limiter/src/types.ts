@@ -64,6 +64,12 @@ export interface RateLimitConfig {
    */
   burstAllowance?: number;
 
+  /**
+   * Units this request consumes (default 1)
+   * Lets a batch endpoint count as a single request weighted by its size
+   */
+  cost?: number;
+
   /**
    * Whether to fail open on backend errors
    * If true (default), requests are allowed when the backend fails
@@ -0,0 +1,139 @@
+/**
+ * Tests for Glamour Plan SVG Generator.
+ *
+ * Pure function (data → SVG string): tests assert document shape, that
+ * labels / dye names / costs appear, and that undyed and suggested channels
+ * render distinctly.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  generateGlamourPlanCard,
+  type GlamourPlanLabels,
+  type GlamourPlanRow,
+} from './glamour-plan.js';
+import { THEME } from './base.js';
+import { createMockDye } from '@xivdyetools/test-utils/factories';
+
+// ============================================================================
+// Test fixtures
+// ============================================================================
+
+const mockLabels: GlamourPlanLabels = {
+  title: 'Glamour Plan',
+  subtitle: 'Prices from Aether',
+  totalCostLabel: 'Total Cost',
+  gilAmountTemplate: '{amount} Gil',
+  primaryLabel: 'Primary',
+  secondaryLabel: 'Secondary',
+  undyed: 'Not dyed',
+  suggested: 'Suggested',
+  dyeNames: {},
+};
+
+const pureWhite = createMockDye({ id: 1, itemID: 13114, name: 'Pure White', hex: '#F9F8F4' });
+const jetBlack = createMockDye({ id: 2, itemID: 13115, name: 'Jet Black', hex: '#1E1E1E' });
+
+const headRow: GlamourPlanRow = {
+  slotLabel: 'Head',
+  primary: pureWhite,
+  secondary: jetBlack,
+  cost: 90000,
+};
+
+const bodyRow: GlamourPlanRow = {
+  slotLabel: 'Body',
+  primary: pureWhite,
+  secondary: null,
+  cost: null,
+};
+
+// ============================================================================
+// generateGlamourPlanCard
+// ============================================================================
+
+describe('generateGlamourPlanCard', () => {
+  it('returns a valid SVG document', () => {
+    const svg = generateGlamourPlanCard({ rows: [headRow], totalCost: 90000, labels: mockLabels });
+
+    expect(svg).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+    expect(svg).toContain('</svg>');
+  });
+
+  it('includes title, subtitle and column headers', () => {
+    const svg = generateGlamourPlanCard({ rows: [headRow], totalCost: 90000, labels: mockLabels });
+
+    expect(svg).toContain('Glamour Plan');
+    expect(svg).toContain('Prices from Aether');
+    expect(svg).toContain('PRIMARY');
+    expect(svg).toContain('SECONDARY');
+  });
+
+  it('renders each slot with both dyes and its cost', () => {
+    const svg = generateGlamourPlanCard({ rows: [headRow], totalCost: 90000, labels: mockLabels });
+
+    expect(svg).toContain('Head');
+    expect(svg).toContain('Pure White');
+    expect(svg).toContain('Jet Black');
+    expect(svg).toContain('#F9F8F4');
+    expect(svg).toContain('90,000 Gil');
+  });
+
+  it('renders the total cost in the header', () => {
+    const svg = generateGlamourPlanCard({ rows: [headRow, bodyRow], totalCost: 126000, labels: mockLabels });
+
+    expect(svg).toContain('Total Cost');
+    expect(svg).toContain('126,000 Gil');
+  });
+
+  it('omits the total when prices are unavailable', () => {
+    const svg = generateGlamourPlanCard({ rows: [bodyRow], totalCost: null, labels: mockLabels });
+
+    expect(svg).not.toContain('Total Cost');
+  });
+
+  it('renders the undyed label for empty channels', () => {
+    const svg = generateGlamourPlanCard({ rows: [bodyRow], totalCost: null, labels: mockLabels });
+
+    expect(svg).toContain('Not dyed');
+  });
+
+  it('marks suggested secondary dyes', () => {
+    const svg = generateGlamourPlanCard({
+      rows: [{ ...headRow, secondarySuggested: true }],
+      totalCost: null,
+      labels: mockLabels,
+    });
+
+    expect(svg).toContain('Suggested');
+    expect(svg).toContain(`stroke="${THEME.accent}"`);
+  });
+
+  it('uses localized dye names when provided', () => {
+    const svg = generateGlamourPlanCard({
+      rows: [headRow],
+      totalCost: null,
+      labels: { ...mockLabels, dyeNames: { 13114: 'ピュアホワイト' } },
+    });
+
+    expect(svg).toContain('ピュアホワイト');
+  });
+
+  it('grows in height with the number of slots', () => {
+    const one = generateGlamourPlanCard({ rows: [headRow], totalCost: null, labels: mockLabels });
+    const two = generateGlamourPlanCard({ rows: [headRow, bodyRow], totalCost: null, labels: mockLabels });
+
+    const heightOf = (svg: string) => Number(/height="(\d+)"/.exec(svg)?.[1]);
+    expect(heightOf(two)).toBeGreaterThan(heightOf(one));
+  });
+
+  it('escapes slot labels', () => {
+    const svg = generateGlamourPlanCard({
+      rows: [{ ...headRow, slotLabel: '<Head & Ears>' }],
+      totalCost: null,
+      labels: mockLabels,
+    });
+
+    expect(svg).toContain('&lt;Head &amp; Ears&gt;');
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Glamour Plan SVG Generator
+ *
+ * Generates a slot-by-slot card for a dual-channel (Dawntrail) outfit plan:
+ * each gear slot shows its primary and secondary dye, the market cost of
+ * both channels, and the plan's total cost in the header.
+ * Used by the /glamour command.
+ *
+ * Layout:
+ * +------------------------------------------------------------+
+ * |  GLAMOUR PLAN                              Total Cost       |
+ * |  Prices from Aether                        126,000 Gil      |
+ * +------------------------------------------------------------+
+ * |  Head    [■] Pure White        [■] Jet Black     90,000 Gil |
+ * |  Body    [■] Dalamud Red       [ ] Not dyed       1,200 Gil |
+ * |  ...                                                        |
+ * +------------------------------------------------------------+
+ *
+ * @module svg/glamour-plan
+ */
+
+import type { Dye } from '@xivdyetools/types';
+import { createSvgDocument, rect, text, line, THEME, FONTS, truncateText } from './base.js';
+import { formatGil } from './budget-comparison.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One gear slot of the plan
+ */
+export interface GlamourPlanRow {
+  /** Localized slot name (e.g., "Head") */
+  slotLabel: string;
+  /** Primary channel dye (null when undyed) */
+  primary: Dye | null;
+  /** Secondary channel dye (null when undyed) */
+  secondary: Dye | null;
+  /** True when the secondary dye is a harmony suggestion rather than saved */
+  secondarySuggested?: boolean;
+  /** Combined cost of this slot's dyes, or null when unknown / no prices */
+  cost: number | null;
+}
+
+/**
+ * Translated labels for the glamour plan SVG
+ */
+export interface GlamourPlanLabels {
+  /** Header title (e.g., "GLAMOUR PLAN") */
+  title: string;
+  /** Pre-resolved subtitle (e.g., "Prices from Aether"); empty to omit */
+  subtitle: string;
+  /** Label above the total (e.g., "Total Cost") */
+  totalCostLabel: string;
+  /** Template: "{amount} Gil" */
+  gilAmountTemplate: string;
+  /** Column header for channel 1 (e.g., "Primary") */
+  primaryLabel: string;
+  /** Column header for channel 2 (e.g., "Secondary") */
+  secondaryLabel: string;
+  /** Shown in place of a dye name for an undyed channel (e.g., "Not dyed") */
+  undyed: string;
+  /** Tag for suggested secondary dyes (e.g., "Suggested") */
+  suggested: string;
+  /** Localized dye names keyed by itemID (falls back to Dye.name if missing) */
+  dyeNames: Record<number, string>;
+}
+
+/**
+ * Options for generating the glamour plan SVG
+ */
+export interface GlamourPlanOptions {
+  /** Gear slots in display order */
+  rows: GlamourPlanRow[];
+  /** Sum of all known dye prices, or null to hide the total */
+  totalCost: number | null;
+  /** Translated labels for all text in the SVG */
+  labels: GlamourPlanLabels;
+  /** Canvas width in pixels (default: 800) */
+  width?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_WIDTH = 800;
+const PADDING = 24;
+const HEADER_HEIGHT = 96;
+const COLUMN_HEADER_HEIGHT = 28;
+const ROW_HEIGHT = 64;
+const SWATCH_SIZE = 36;
+const SLOT_COLUMN_WIDTH = 130;
+const COST_COLUMN_WIDTH = 130;
+const MAX_DYE_NAME_LENGTH = 20;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Fill a template string with variable values
+ */
+function fillTemplate(template: string, vars: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (_, key: string) => String(vars[key] ?? ''));
+}
+
+// ============================================================================
+// SVG Generation
+// ============================================================================
+
+/**
+ * Generate a glamour plan card showing each slot's two dye channels
+ */
+export function generateGlamourPlanCard(options: GlamourPlanOptions): string {
+  const { rows, totalCost, labels, width = DEFAULT_WIDTH } = options;
+
+  const height = PADDING * 2 + HEADER_HEIGHT + COLUMN_HEADER_HEIGHT + rows.length * ROW_HEIGHT;
+  const channelWidth = (width - PADDING * 2 - SLOT_COLUMN_WIDTH - COST_COLUMN_WIDTH) / 2;
+  const primaryX = PADDING + SLOT_COLUMN_WIDTH;
+  const secondaryX = primaryX + channelWidth;
+
+  const elements: string[] = [];
+
+  // Background
+  elements.push(rect(0, 0, width, height, THEME.background, { rx: 12, ry: 12 }));
+
+  // Header
+  elements.push(generateHeader(totalCost, labels, width));
+  elements.push(line(PADDING, HEADER_HEIGHT, width - PADDING, HEADER_HEIGHT, THEME.border, 2));
+
+  // Column headers
+  const columnY = HEADER_HEIGHT + 20;
+  for (const [x, label] of [
+    [primaryX, labels.primaryLabel],
+    [secondaryX, labels.secondaryLabel],
+  ] as const) {
+    elements.push(
+      text(x, columnY, label.toUpperCase(), {
+        fill: THEME.textDim,
+        fontSize: 11,
+        fontFamily: FONTS.primaryCjk,
+        fontWeight: 500,
+      })
+    );
+  }
+
+  // Slot rows
+  rows.forEach((row, index) => {
+    const rowY = HEADER_HEIGHT + COLUMN_HEADER_HEIGHT + index * ROW_HEIGHT;
+    elements.push(generateSlotRow(row, rowY, primaryX, secondaryX, width, labels, index % 2 === 0));
+  });
+
+  return createSvgDocument(width, height, elements.join('\n'));
+}
+
+/**
+ * Generate the header: title, subtitle and total cost
+ */
+function generateHeader(totalCost: number | null, labels: GlamourPlanLabels, width: number): string {
+  const elements: string[] = [];
+
+  elements.push(
+    text(PADDING, 44, labels.title, {
+      fill: THEME.text,
+      fontSize: 24,
+      fontFamily: FONTS.headerCjk,
+      fontWeight: 600,
+    })
+  );
+
+  if (labels.subtitle) {
+    elements.push(
+      text(PADDING, 70, labels.subtitle, {
+        fill: THEME.textMuted,
+        fontSize: 13,
+        fontFamily: FONTS.primaryCjk,
+      })
+    );
+  }
+
+  if (totalCost !== null) {
+    const priceX = width - PADDING;
+    elements.push(
+      text(priceX, 38, labels.totalCostLabel, {
+        fill: THEME.textMuted,
+        fontSize: 11,
+        fontFamily: FONTS.primaryCjk,
+        fontWeight: 500,
+        textAnchor: 'end',
+      })
+    );
+    elements.push(
+      text(priceX, 66, fillTemplate(labels.gilAmountTemplate, { amount: formatGil(totalCost) }), {
+        fill: THEME.warning,
+        fontSize: 22,
+        fontFamily: FONTS.header,
+        fontWeight: 600,
+        textAnchor: 'end',
+      })
+    );
+  }
+
+  return elements.join('\n');
+}
+
+/**
+ * Generate one slot row: slot name, both channels, slot cost
+ */
+function generateSlotRow(
+  row: GlamourPlanRow,
+  y: number,
+  primaryX: number,
+  secondaryX: number,
+  width: number,
+  labels: GlamourPlanLabels,
+  shaded: boolean
+): string {
+  const elements: string[] = [];
+
+  if (shaded) {
+    elements.push(
+      rect(PADDING, y + 4, width - PADDING * 2, ROW_HEIGHT - 8, THEME.backgroundLight, {
+        rx: 8,
+        ry: 8,
+        opacity: 0.5,
+      })
+    );
+  }
+
+  // Slot name
+  elements.push(
+    text(PADDING + 12, y + ROW_HEIGHT / 2 + 5, row.slotLabel, {
+      fill: THEME.text,
+      fontSize: 15,
+      fontFamily: FONTS.primaryCjk,
+      fontWeight: 600,
+    })
+  );
+
+  elements.push(generateChannel(row.primary, primaryX, y, labels, false));
+  elements.push(generateChannel(row.secondary, secondaryX, y, labels, row.secondarySuggested === true));
+
+  // Slot cost
+  if (row.cost !== null) {
+    elements.push(
+      text(width - PADDING - 12, y + ROW_HEIGHT / 2 + 5, fillTemplate(labels.gilAmountTemplate, { amount: formatGil(row.cost) }), {
+        fill: THEME.success,
+        fontSize: 14,
+        fontFamily: FONTS.header,
+        fontWeight: 600,
+        textAnchor: 'end',
+      })
+    );
+  }
+
+  return elements.join('\n');
+}
+
+/**
+ * Generate one dye channel: swatch plus name and hex (or the undyed label)
+ */
+function generateChannel(
+  dye: Dye | null,
+  x: number,
+  rowY: number,
+  labels: GlamourPlanLabels,
+  suggested: boolean
+): string {
+  const elements: string[] = [];
+  const swatchY = rowY + (ROW_HEIGHT - SWATCH_SIZE) / 2;
+  const infoX = x + SWATCH_SIZE + 12;
+
+  if (!dye) {
+    elements.push(
+      rect(x, swatchY, SWATCH_SIZE, SWATCH_SIZE, 'none', {
+        rx: 6,
+        ry: 6,
+        stroke: THEME.border,
+        strokeWidth: 2,
+      })
+    );
+    elements.push(
+      text(infoX, rowY + ROW_HEIGHT / 2 + 5, labels.undyed, {
+        fill: THEME.textDim,
+        fontSize: 13,
+        fontFamily: FONTS.primaryCjk,
+      })
+    );
+    return elements.join('\n');
+  }
+
+  // Suggested dyes get an accent outline so they stand apart from saved ones
+  elements.push(
+    rect(x, swatchY, SWATCH_SIZE, SWATCH_SIZE, dye.hex, {
+      rx: 6,
+      ry: 6,
+      stroke: suggested ? THEME.accent : THEME.border,
+      strokeWidth: suggested ? 3 : 2,
+    })
+  );
+
+  const name = truncateText(labels.dyeNames[dye.itemID] ?? dye.name, MAX_DYE_NAME_LENGTH);
+  elements.push(
+    text(infoX, rowY + 28, name, {
+      fill: THEME.text,
+      fontSize: 14,
+      fontFamily: FONTS.primaryCjk,
+      fontWeight: 500,
+    })
+  );
+
+  const detail = suggested ? `${dye.hex.toUpperCase()} · ${labels.suggested}` : dye.hex.toUpperCase();
+  elements.push(
+    text(infoX, rowY + 46, detail, {
+      fill: suggested ? THEME.accent : THEME.textDim,
+      fontSize: 11,
+      fontFamily: FONTS.primaryCjk,
+    })
+  );
+
+  return elements.join('\n');
+}
@@ -121,4 +121,11 @@ describe('@xivdyetools/svg index exports', () => {
         expect(svg.formatGil).toBeDefined();
         expect(typeof svg.formatGil).toBe('function');
     });
+
+    it('exports glamour plan generator', async () => {
+        const svg = await import('./index.js');
+
+        expect(svg.generateGlamourPlanCard).toBeDefined();
+        expect(typeof svg.generateGlamourPlanCard).toBe('function');
+    });
 });
@@ -111,3 +111,11 @@ export type {
   BudgetSvgLabels,
   BudgetComparisonOptions,
 } from './budget-comparison.js';
+
+// Glamour Plan (dual-channel outfit)
+export { generateGlamourPlanCard } from './glamour-plan.js';
+export type {
+  GlamourPlanRow,
+  GlamourPlanLabels,
+  GlamourPlanOptions,
+} from './glamour-plan.js';
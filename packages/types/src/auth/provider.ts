@@ -35,6 +35,13 @@ export interface AuthContext {
   /** Discord user ID (if authenticated) */
   userDiscordId?: string;
 
+  /**
+   * Discord snowflake of the account, when known. Same as `userDiscordId`
+   * for bot auth; for web auth it comes from the JWT's `discord_id` claim
+   * (XIVAuth accounts without a linked Discord account have none).
+   */
+  discordId?: string;
+
   /** Display name (if authenticated) */
   userName?: string;
 
@@ -133,6 +133,28 @@ export type {
   LocalePreference,
 } from './localization/index.js';
 
+// ============================================================================
+// Library Sync Types
+// ============================================================================
+export type {
+  SyncedFavorite,
+  SyncedCollection,
+  LibraryChanges,
+  LibrarySnapshot,
+  LibrarySyncResponse,
+  LibraryCollection,
+  LocalLibrary,
+} from './library/index.js';
+export {
+  diffLibrary,
+  mergeChanges,
+  hasChanges,
+  unsyncedItems,
+  toLocalLibrary,
+  toSyncedCollection,
+  toCollection,
+} from './library/index.js';
+
 // ============================================================================
 // Error Types
 // ============================================================================
@@ -0,0 +1,112 @@
+/**
+ * @xivdyetools/types - Library Sync Types
+ *
+ * A user's favorites and collections as synced between the web app and the
+ * Discord bot through the presets API (`/api/v1/library`).
+ *
+ * Every item carries its own `updatedAt`; the newer write wins per item.
+ * Deletions are kept as tombstones (`deleted: true`) so a surface that was
+ * offline can't bring a deleted item back.
+ *
+ * The merge helpers both surfaces use to turn local edits into changes and
+ * server snapshots back into their local copy live in `./sync`.
+ *
+ * @module library
+ */
+
+/**
+ * One favorite dye
+ */
+export interface SyncedFavorite {
+  /** Dye item ID */
+  dyeId: number;
+
+  /** When the dye was last favorited or unfavorited (ISO 8601) */
+  updatedAt: string;
+
+  /** True if the dye was unfavorited */
+  deleted?: boolean;
+}
+
+/**
+ * One collection
+ */
+export interface SyncedCollection {
+  /** Collection ID, chosen by the surface that created it */
+  id: string;
+
+  /** Collection name (1-50 characters) */
+  name: string;
+
+  /** Optional description (up to 200 characters) */
+  description?: string;
+
+  /** Dye item IDs, in display order (up to 20) */
+  dyes: number[];
+
+  /** When the collection was created (ISO 8601) */
+  createdAt: string;
+
+  /** When the collection was last changed or deleted (ISO 8601) */
+  updatedAt: string;
+
+  /** True if the collection was deleted */
+  deleted?: boolean;
+}
+
+/**
+ * Changes pushed by a surface (`PUT /api/v1/library`)
+ */
+export interface LibraryChanges {
+  favorites?: SyncedFavorite[];
+  collections?: SyncedCollection[];
+}
+
+/**
+ * A user's library as held by the server, tombstones included
+ */
+export interface LibrarySnapshot {
+  favorites: SyncedFavorite[];
+  collections: SyncedCollection[];
+
+  /** Server time the snapshot was taken (ISO 8601) */
+  serverTime: string;
+}
+
+/**
+ * Response of `GET` and `PUT /api/v1/library`
+ */
+export interface LibrarySyncResponse {
+  success: true;
+  library: LibrarySnapshot;
+
+  /** Items the server refused, e.g. because a limit was reached */
+  rejected?: {
+    favorites: number[];
+    collections: string[];
+  };
+}
+
+/**
+ * A collection as a surface keeps it locally (no tombstone)
+ */
+export type LibraryCollection = Omit<SyncedCollection, 'deleted'>;
+
+/**
+ * A surface's local copy of the library: favorites and collections in
+ * display order, deleted items dropped
+ */
+export interface LocalLibrary {
+  favorites: number[];
+  collections: LibraryCollection[];
+}
+
+export {
+  diffLibrary,
+  mergeChanges,
+  hasChanges,
+  unsyncedItems,
+  toLocalLibrary,
+  toSyncedCollection,
+  toCollection,
+} from './sync.js';
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for the library sync merge helpers shared by the web app and
+ * the Discord bot.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { LibraryCollection, LibrarySnapshot } from './index.js';
+import {
+  diffLibrary,
+  mergeChanges,
+  hasChanges,
+  unsyncedItems,
+  toLocalLibrary,
+  toSyncedCollection,
+} from './sync.js';
+
+const now = '2026-10-01T00:00:00.000Z';
+
+function collection(id: string, updatedAt = '2026-09-01T00:00:00.000Z'): LibraryCollection {
+  return {
+    id,
+    name: `Collection ${id}`,
+    dyes: [5729],
+    createdAt: '2026-09-01T00:00:00.000Z',
+    updatedAt,
+  };
+}
+
+function snapshot(overrides: Partial<LibrarySnapshot> = {}): LibrarySnapshot {
+  return { favorites: [], collections: [], serverTime: now, ...overrides };
+}
+
+describe('diffLibrary', () => {
+  it('reports added and removed favorites', () => {
+    const changes = diffLibrary(
+      { favorites: [1, 2], collections: [] },
+      { favorites: [2, 3], collections: [] },
+      now,
+    );
+
+    expect(changes.favorites).toEqual([
+      { dyeId: 3, updatedAt: now },
+      { dyeId: 1, updatedAt: now, deleted: true },
+    ]);
+  });
+
+  it('reports changed collections and tombstones deleted ones', () => {
+    const renamed = { ...collection('b', now), name: 'Renamed' };
+
+    const changes = diffLibrary(
+      { favorites: [], collections: [collection('a'), collection('b'), collection('c')] },
+      { favorites: [], collections: [collection('a'), renamed] },
+      now,
+    );
+
+    expect(changes.collections).toEqual([
+      {
+        id: 'b',
+        name: 'Renamed',
+        dyes: [5729],
+        createdAt: '2026-09-01T00:00:00.000Z',
+        updatedAt: now,
+      },
+      { ...collection('c', now), dyes: [], deleted: true },
+    ]);
+  });
+});
+
+describe('mergeChanges', () => {
+  it('keeps the newer change per item', () => {
+    const merged = mergeChanges(
+      { favorites: [{ dyeId: 1, updatedAt: '2026-09-02T00:00:00.000Z', deleted: true }] },
+      {
+        favorites: [{ dyeId: 1, updatedAt: '2026-09-01T00:00:00.000Z' }],
+        collections: [collection('a')],
+      },
+    );
+
+    expect(merged).toEqual({
+      favorites: [{ dyeId: 1, updatedAt: '2026-09-02T00:00:00.000Z', deleted: true }],
+      collections: [collection('a')],
+    });
+  });
+
+  it('treats a missing change set as empty', () => {
+    expect(mergeChanges(null, { favorites: [] })).toEqual({ favorites: [], collections: [] });
+  });
+});
+
+describe('hasChanges', () => {
+  it('is false only when both lists are empty or missing', () => {
+    expect(hasChanges({})).toBe(false);
+    expect(hasChanges({ favorites: [], collections: [] })).toBe(false);
+    expect(hasChanges({ collections: [toSyncedCollection(collection('a'))] })).toBe(true);
+  });
+});
+
+describe('unsyncedItems', () => {
+  it('lists local items the server has no record of, tombstones included', () => {
+    const changes = unsyncedItems(
+      { favorites: [1, 2], collections: [collection('a'), collection('b')] },
+      snapshot({
+        favorites: [{ dyeId: 1, updatedAt: now, deleted: true }],
+        collections: [{ ...collection('a'), deleted: true }],
+      }),
+      now,
+    );
+
+    expect(changes).toEqual({
+      favorites: [{ dyeId: 2, updatedAt: now }],
+      collections: [collection('b')],
+    });
+  });
+});
+
+describe('toLocalLibrary', () => {
+  it('keeps the local order and appends new server items', () => {
+    const library = toLocalLibrary(
+      snapshot({
+        favorites: [
+          { dyeId: 1, updatedAt: '2026-09-01T00:00:00.000Z' },
+          { dyeId: 2, updatedAt: '2026-09-01T00:00:00.000Z' },
+          { dyeId: 3, updatedAt: '2026-09-01T00:00:00.000Z' },
+        ],
+      }),
+      { favorites: [3, 1], collections: [] },
+    );
+
+    expect(library.favorites).toEqual([3, 1, 2]);
+  });
+
+  it('drops deleted items and takes the server copy of collections', () => {
+    const library = toLocalLibrary(
+      snapshot({
+        favorites: [{ dyeId: 1, updatedAt: now, deleted: true }],
+        collections: [
+          { ...collection('a', now), name: 'From the web app', description: 'Edited' },
+          { ...collection('b'), deleted: true },
+        ],
+      }),
+      { favorites: [1], collections: [collection('b'), collection('a')] },
+    );
+
+    expect(library).toEqual({
+      favorites: [],
+      collections: [{ ...collection('a', now), name: 'From the web app', description: 'Edited' }],
+    });
+  });
+});
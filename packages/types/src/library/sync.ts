@@ -0,0 +1,166 @@
+/**
+ * Library sync merge helpers, shared by the web app and the Discord bot.
+ *
+ * Each surface keeps a local copy (`LocalLibrary`): the web app in
+ * localStorage, the bot in KV. These helpers diff local edits into
+ * `LibraryChanges`, combine pending change sets, and fold a server
+ * `LibrarySnapshot` back into the local copy. They are pure; storage,
+ * outboxes and requests stay with each surface.
+ *
+ * @module library/sync
+ */
+
+import type {
+  LibraryChanges,
+  LibraryCollection,
+  LibrarySnapshot,
+  LocalLibrary,
+  SyncedCollection,
+  SyncedFavorite,
+} from './index.js';
+
+/**
+ * Describe the difference between two local libraries as per-item changes
+ *
+ * @param before - Local library before the edit
+ * @param after - Local library after the edit
+ * @param now - Timestamp for favorites and deletions (ISO 8601)
+ */
+export function diffLibrary(
+  before: LocalLibrary,
+  after: LocalLibrary,
+  now: string,
+): LibraryChanges {
+  const beforeFavorites = new Set(before.favorites);
+  const afterFavorites = new Set(after.favorites);
+
+  const favorites: SyncedFavorite[] = [
+    ...after.favorites
+      .filter((id) => !beforeFavorites.has(id))
+      .map((dyeId) => ({ dyeId, updatedAt: now })),
+    ...before.favorites
+      .filter((id) => !afterFavorites.has(id))
+      .map((dyeId) => ({ dyeId, updatedAt: now, deleted: true })),
+  ];
+
+  const beforeCollections = new Map(before.collections.map((c) => [c.id, c]));
+  const afterIds = new Set(after.collections.map((c) => c.id));
+
+  const collections: SyncedCollection[] = [
+    ...after.collections
+      .filter((c) => JSON.stringify(c) !== JSON.stringify(beforeCollections.get(c.id)))
+      .map(toSyncedCollection),
+    ...before.collections
+      .filter((c) => !afterIds.has(c.id))
+      .map((c) => ({ ...toSyncedCollection(c), dyes: [], updatedAt: now, deleted: true })),
+  ];
+
+  return { favorites, collections };
+}
+
+/**
+ * Combine two change sets, keeping the newer change per item
+ */
+export function mergeChanges(a: LibraryChanges | null, b: LibraryChanges): LibraryChanges {
+  const favorites = new Map<number, SyncedFavorite>();
+  const collections = new Map<string, SyncedCollection>();
+
+  for (const changes of [a, b]) {
+    for (const favorite of changes?.favorites ?? []) {
+      const existing = favorites.get(favorite.dyeId);
+      if (!existing || favorite.updatedAt >= existing.updatedAt) {
+        favorites.set(favorite.dyeId, favorite);
+      }
+    }
+    for (const collection of changes?.collections ?? []) {
+      const existing = collections.get(collection.id);
+      if (!existing || collection.updatedAt >= existing.updatedAt) {
+        collections.set(collection.id, collection);
+      }
+    }
+  }
+
+  return { favorites: [...favorites.values()], collections: [...collections.values()] };
+}
+
+/**
+ * Whether a change set has anything to push
+ */
+export function hasChanges(changes: LibraryChanges): boolean {
+  return (changes.favorites?.length ?? 0) > 0 || (changes.collections?.length ?? 0) > 0;
+}
+
+/**
+ * Local items the server has no record of at all (not even a tombstone)
+ *
+ * @param now - Timestamp for the favorites (ISO 8601)
+ */
+export function unsyncedItems(
+  local: LocalLibrary,
+  library: LibrarySnapshot,
+  now: string,
+): LibraryChanges {
+  const knownFavorites = new Set(library.favorites.map((f) => f.dyeId));
+  const knownCollections = new Set(library.collections.map((c) => c.id));
+
+  return {
+    favorites: local.favorites
+      .filter((id) => !knownFavorites.has(id))
+      .map((dyeId) => ({ dyeId, updatedAt: now })),
+    collections: local.collections
+      .filter((c) => !knownCollections.has(c.id))
+      .map(toSyncedCollection),
+  };
+}
+
+/**
+ * Turn the server library into the local shape, keeping the local order for
+ * items both sides have and appending the rest
+ */
+export function toLocalLibrary(library: LibrarySnapshot, local: LocalLibrary): LocalLibrary {
+  const liveFavorites = library.favorites.filter((f) => !f.deleted).map((f) => f.dyeId);
+  const liveFavoriteSet = new Set(liveFavorites);
+  const favorites = [
+    ...local.favorites.filter((id) => liveFavoriteSet.has(id)),
+    ...liveFavorites.filter((id) => !local.favorites.includes(id)),
+  ];
+
+  const liveCollections = new Map(
+    library.collections.filter((c) => !c.deleted).map((c) => [c.id, toCollection(c)]),
+  );
+  const localIds = new Set(local.collections.map((c) => c.id));
+  const collections = [
+    ...local.collections.flatMap((c) => liveCollections.get(c.id) ?? []),
+    ...[...liveCollections.values()].filter((c) => !localIds.has(c.id)),
+  ];
+
+  return { favorites, collections };
+}
+
+/**
+ * A local collection as sent to the server
+ */
+export function toSyncedCollection(collection: LibraryCollection): SyncedCollection {
+  return {
+    id: collection.id,
+    name: collection.name,
+    ...(collection.description && { description: collection.description }),
+    dyes: collection.dyes,
+    createdAt: collection.createdAt,
+    updatedAt: collection.updatedAt,
+  };
+}
+
+/**
+ * A server collection in the local shape (tombstone flag dropped)
+ */
+export function toCollection(collection: SyncedCollection): LibraryCollection {
+  return {
+    id: collection.id,
+    name: collection.name,
+    ...(collection.description && { description: collection.description }),
+    dyes: collection.dyes,
+    createdAt: collection.createdAt,
+    updatedAt: collection.updatedAt,
+  };
+}